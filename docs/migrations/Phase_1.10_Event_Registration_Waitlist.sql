@@ -0,0 +1,208 @@
+-- Phase 1.10 - Event Registration Waitlist
+--
+-- Adds a status and ordered waitlist position to public.event_registrations so
+-- capacity-limited events can accept registrations past capacity_limit and
+-- promote waitlisted students when seats free up.
+--
+-- Seats and positions are handed out by the functions in sections 3 and 4,
+-- which lock the event row, so concurrent registrations can't overfill an event
+-- or share a waitlist position.
+
+-----------------------------
+-- 1. Enum Types
+-----------------------------
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_type WHERE typname = 'event_registration_status'
+  ) THEN
+    CREATE TYPE public.event_registration_status AS ENUM (
+      'confirmed',
+      'waitlisted'
+    );
+  END IF;
+END
+$$;
+
+-----------------------------
+-- 2. Extend public.event_registrations
+-----------------------------
+
+ALTER TABLE public.event_registrations
+  ADD COLUMN IF NOT EXISTS status public.event_registration_status NOT NULL DEFAULT 'confirmed',
+  -- Ordering key for waitlisted rows (lower = earlier); NULL for confirmed rows
+  ADD COLUMN IF NOT EXISTS waitlist_position integer NULL,
+  ADD COLUMN IF NOT EXISTS promoted_at timestamptz NULL;
+
+CREATE INDEX IF NOT EXISTS event_registrations_waitlist_idx
+  ON public.event_registrations (event_id, status, waitlist_position);
+
+COMMENT ON COLUMN public.event_registrations.status IS 'confirmed = holds a seat; waitlisted = queued until a seat frees up.';
+COMMENT ON COLUMN public.event_registrations.waitlist_position IS 'Waitlist ordering for waitlisted rows. Gaps are allowed; order ascending.';
+COMMENT ON COLUMN public.event_registrations.promoted_at IS 'When the registration was promoted from the waitlist.';
+
+-- A waitlist position belongs to one registration
+CREATE UNIQUE INDEX IF NOT EXISTS event_registrations_waitlist_position_key
+  ON public.event_registrations (event_id, waitlist_position)
+  WHERE waitlist_position IS NOT NULL;
+
+-----------------------------
+-- 3. Registering
+-----------------------------
+
+-- Confirms the student while seats are left, otherwise adds them to the end
+-- of the waitlist.
+CREATE OR REPLACE FUNCTION public.register_event_student(
+  p_event_id uuid,
+  p_student_id uuid,
+  p_registered_by uuid
+)
+RETURNS SETOF public.event_registrations
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  v_capacity integer;
+  v_status public.event_registration_status := 'confirmed';
+  v_position integer := NULL;
+BEGIN
+  SELECT capacity_limit INTO v_capacity
+  FROM public.events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_capacity IS NOT NULL AND (
+    SELECT count(*) FROM public.event_registrations
+    WHERE event_id = p_event_id AND status = 'confirmed'
+  ) >= v_capacity THEN
+    v_status := 'waitlisted';
+    SELECT coalesce(max(waitlist_position), 0) + 1 INTO v_position
+    FROM public.event_registrations
+    WHERE event_id = p_event_id AND waitlist_position IS NOT NULL;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.event_registrations (
+    event_id, student_id, registered_by_user_id, created_by, status, waitlist_position
+  )
+  VALUES (p_event_id, p_student_id, p_registered_by, p_registered_by, v_status, v_position)
+  RETURNING *;
+END;
+$$;
+
+-----------------------------
+-- 4. Promoting & Demoting
+-----------------------------
+
+-- Manual promotion (p_status 'confirmed', only into a free seat) or demotion
+-- to the head of the waitlist (p_status 'waitlisted'). Returns no row when
+-- there is no free seat or the registration isn't in the other state.
+CREATE OR REPLACE FUNCTION public.move_event_registration(
+  p_registration_id uuid,
+  p_status text,
+  p_updated_by uuid
+)
+RETURNS SETOF public.event_registrations
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  v_event_id uuid;
+  v_capacity integer;
+BEGIN
+  SELECT e.id, e.capacity_limit INTO v_event_id, v_capacity
+  FROM public.event_registrations r
+  JOIN public.events e ON e.id = r.event_id
+  WHERE r.id = p_registration_id
+  FOR UPDATE OF e;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_status = 'confirmed' THEN
+    IF v_capacity IS NOT NULL AND (
+      SELECT count(*) FROM public.event_registrations
+      WHERE event_id = v_event_id AND status = 'confirmed'
+    ) >= v_capacity THEN
+      RETURN;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.event_registrations
+    SET status = 'confirmed', waitlist_position = NULL, promoted_at = now(),
+        updated_at = now(), updated_by = p_updated_by
+    WHERE id = p_registration_id AND status = 'waitlisted'
+    RETURNING *;
+  ELSIF p_status = 'waitlisted' THEN
+    RETURN QUERY
+    UPDATE public.event_registrations
+    SET status = 'waitlisted',
+        waitlist_position = (
+          SELECT coalesce(min(waitlist_position), 1) - 1
+          FROM public.event_registrations
+          WHERE event_id = v_event_id AND waitlist_position IS NOT NULL
+        ),
+        promoted_at = NULL, updated_at = now(), updated_by = p_updated_by
+    WHERE id = p_registration_id AND status = 'confirmed'
+    RETURNING *;
+  END IF;
+END;
+$$;
+
+-- Fills free seats from the head of the waitlist, e.g. after a cancellation
+-- or a capacity increase.
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(p_event_id uuid)
+RETURNS SETOF public.event_registrations
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  v_capacity integer;
+  v_open_seats integer := NULL;
+BEGIN
+  SELECT capacity_limit INTO v_capacity
+  FROM public.events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_capacity IS NOT NULL THEN
+    SELECT v_capacity - count(*) INTO v_open_seats
+    FROM public.event_registrations
+    WHERE event_id = p_event_id AND status = 'confirmed';
+
+    IF v_open_seats <= 0 THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.event_registrations
+  SET status = 'confirmed', waitlist_position = NULL, promoted_at = now(),
+      updated_at = now(), updated_by = NULL
+  WHERE id IN (
+    SELECT id FROM public.event_registrations
+    WHERE event_id = p_event_id AND status = 'waitlisted'
+    ORDER BY waitlist_position ASC NULLS LAST, registered_at ASC
+    LIMIT v_open_seats
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Called only through the service role from API routes
+REVOKE ALL ON FUNCTION public.register_event_student(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.move_event_registration(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.promote_event_waitlist(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_event_student(uuid, uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.move_event_registration(uuid, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.promote_event_waitlist(uuid) TO service_role;
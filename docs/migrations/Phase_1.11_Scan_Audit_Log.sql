@@ -0,0 +1,53 @@
+-- Phase 1.11 - Scan Audit Log
+--
+-- Stores every uploaded scan that the server did not accept exactly as the
+-- device reported it: denied or duplicate scans, out-of-window or
+-- clock-skewed scans, audience/registration rejections, and server-side
+-- status or session corrections.
+
+-----------------------------
+-- 1. scan_audit_log Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.scan_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  event_id uuid NOT NULL
+    REFERENCES public.events (id)
+    ON DELETE CASCADE,
+
+  -- ID generated by the scanner device for the queued scan
+  client_scan_id text NULL,
+
+  -- Stored as reported by the device (may reference an unknown student)
+  student_id text NULL,
+  qr_hash text NULL,
+
+  -- Session ID from events.session_config (not event_sessions.id)
+  config_session_id text NULL,
+
+  client_status text NULL,
+  server_status text NULL,
+
+  -- corrected | rejected | duplicate (accepted scans are not audited)
+  verdict text NOT NULL,
+  flags text[] NOT NULL DEFAULT '{}',
+  reason text NULL,
+
+  scanned_at timestamptz NULL,
+  effective_scanned_at timestamptz NULL,
+  -- Server clock minus device clock at upload time
+  clock_skew_ms integer NULL,
+
+  uploaded_by_user_id uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS scan_audit_log_event_idx
+  ON public.scan_audit_log (event_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS scan_audit_log_student_idx
+  ON public.scan_audit_log (student_id);
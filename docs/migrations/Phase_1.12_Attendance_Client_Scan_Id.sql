@@ -0,0 +1,27 @@
+-- Phase 1.12 - Idempotent Scan Uploads
+--
+-- Persists the scanner device's queued scan ID on attendance_logs so that
+-- re-uploading the same scan (e.g. after a network drop) is recognised as a
+-- retry rather than a duplicate attendance record.
+
+-----------------------------
+-- 1. Extend public.attendance_logs
+-----------------------------
+
+ALTER TABLE public.attendance_logs
+  ADD COLUMN IF NOT EXISTS client_scan_id text NULL;
+
+-- Plain (non-partial) unique constraint so PostgREST upserts can target it.
+-- Legacy rows keep NULL, and NULLs never conflict with each other.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'attendance_logs_client_scan_id_key'
+  ) THEN
+    ALTER TABLE public.attendance_logs
+      ADD CONSTRAINT attendance_logs_client_scan_id_key UNIQUE (client_scan_id);
+  END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.attendance_logs.client_scan_id IS 'ID generated by the scanner device for the queued scan; used for idempotent uploads.';
@@ -0,0 +1,34 @@
+-- Phase 1.13 - Scanner Resource Versions
+--
+-- Versioned snapshots of the scanner resources (allowed students and session
+-- config) downloaded for an event. Each snapshot stores a fingerprint per
+-- student so GET /api/sems/events/[id]/scanner-resources?since=<version> can
+-- return only students that were added, removed or changed since then.
+
+-----------------------------
+-- 1. scanner_resource_versions Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.scanner_resource_versions (
+  event_id uuid NOT NULL
+    REFERENCES public.events (id)
+    ON DELETE CASCADE,
+
+  -- Increments by one whenever the resource set changes
+  version integer NOT NULL,
+
+  -- Hash over every student fingerprint plus the session config
+  content_hash text NOT NULL,
+
+  -- { "<student_id>": "<fingerprint>" } for every allowed student
+  student_fingerprints jsonb NOT NULL DEFAULT '{}'::jsonb,
+
+  session_config_hash text NOT NULL,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (event_id, version)
+);
+
+COMMENT ON TABLE public.scanner_resource_versions IS 'Snapshots of scanner resources per event, used to serve delta refreshes to scanner devices.';
+
@@ -0,0 +1,47 @@
+-- Phase 1.14 - Signed Student QR Codes
+--
+-- Student QR codes become signed tokens (SQR1.<student_id>.<issued_at>.<kid>.<sig>)
+-- that scanners verify offline with public keys downloaded alongside scanner
+-- resources. Codes expire after QR_CODE_VALIDITY_DAYS and can be rotated or
+-- revoked per student from SIS. Bare qr_hash codes keep working until
+-- QR_LEGACY_HASH_CUTOFF.
+
+-----------------------------
+-- 1. qr_signing_keys Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.qr_signing_keys (
+  -- Short key ID embedded in every signed code
+  kid text PRIMARY KEY,
+
+  algorithm text NOT NULL DEFAULT 'ES256',
+
+  public_key_jwk jsonb NOT NULL,
+
+  -- Only read by the server (service role); never sent to clients
+  private_key_jwk jsonb NOT NULL,
+
+  -- active: signs new codes; retired: still verifies; revoked: codes rejected
+  status text NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'retired', 'revoked')),
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  retired_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_qr_signing_keys_status
+  ON public.qr_signing_keys (status, created_at DESC);
+
+COMMENT ON TABLE public.qr_signing_keys IS 'Keys that sign student QR codes. To rotate, set the active key to retired (a new key is generated on next use); set revoked to reject codes it signed.';
+
+-----------------------------
+-- 2. Student QR Credential Columns
+-----------------------------
+
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS qr_issued_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS qr_revoked_at timestamptz;
+
+COMMENT ON COLUMN public.students.qr_issued_at IS 'Signed QR codes issued before this instant are rejected (bumped when the code is reissued).';
+COMMENT ON COLUMN public.students.qr_revoked_at IS 'When set, every QR code of the student is rejected until it is reissued.';
@@ -0,0 +1,71 @@
+-- Phase 1.15 - Manual Attendance Corrections
+--
+-- Organizers and admins can add, change (present / late / excused) or remove
+-- attendance for a session, e.g. for a student with a lost ID. Every change
+-- requires a reason and is written to attendance_corrections.
+
+-----------------------------
+-- 1. Excused Status
+-----------------------------
+
+ALTER TYPE attendance_status ADD VALUE IF NOT EXISTS 'excused';
+
+-----------------------------
+-- 2. Extend public.attendance_logs
+-----------------------------
+
+ALTER TABLE public.attendance_logs
+  -- scan: uploaded by a scanner device; manual: entered by an organizer
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'scan'
+    CHECK (source IN ('scan', 'manual')),
+  ADD COLUMN IF NOT EXISTS corrected_at timestamptz NULL,
+  ADD COLUMN IF NOT EXISTS corrected_by_user_id uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL;
+
+-----------------------------
+-- 3. attendance_corrections Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.attendance_corrections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  event_id uuid NOT NULL
+    REFERENCES public.events (id)
+    ON DELETE CASCADE,
+
+  event_session_id uuid NOT NULL
+    REFERENCES public.event_sessions (id)
+    ON DELETE CASCADE,
+
+  student_id uuid NOT NULL
+    REFERENCES public.students (id)
+    ON DELETE CASCADE,
+
+  -- Not a foreign key: removed records keep their correction history
+  attendance_log_id uuid NULL,
+
+  -- add | update | remove
+  action text NOT NULL
+    CHECK (action IN ('add', 'update', 'remove')),
+
+  previous_status text NULL,
+  new_status text NULL,
+
+  reason text NOT NULL
+    CHECK (length(btrim(reason)) > 0),
+
+  corrected_by_user_id uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS attendance_corrections_event_idx
+  ON public.attendance_corrections (event_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS attendance_corrections_student_idx
+  ON public.attendance_corrections (student_id);
+
+COMMENT ON TABLE public.attendance_corrections IS 'Audit trail of manual attendance additions, status changes and removals.';
@@ -0,0 +1,35 @@
+-- Phase 1.16 - Absentee Materialization
+--
+-- Expected students who never scanned into an entry session get an 'absent'
+-- attendance row (source = 'system') once the session closes, when the event
+-- is completed, or when an organizer re-runs the computation. A scan uploaded
+-- later replaces the system absence.
+
+-----------------------------
+-- 1. System Attendance Source
+-----------------------------
+
+ALTER TABLE public.attendance_logs
+  DROP CONSTRAINT IF EXISTS attendance_logs_source_check;
+
+ALTER TABLE public.attendance_logs
+  -- scan: scanner upload; manual: organizer entry; system: materialized absence
+  ADD CONSTRAINT attendance_logs_source_check
+    CHECK (source IN ('scan', 'manual', 'system'));
+
+-----------------------------
+-- 2. Materialization Marker
+-----------------------------
+
+ALTER TABLE public.event_sessions
+  ADD COLUMN IF NOT EXISTS absentees_materialized_at timestamptz NULL;
+
+COMMENT ON COLUMN public.event_sessions.absentees_materialized_at IS 'Last time absences were written for this session; the closing sweep skips sessions where it is set.';
+
+-----------------------------
+-- 3. Indexes
+-----------------------------
+
+CREATE INDEX IF NOT EXISTS idx_events_published_start_date
+  ON public.events (start_date)
+  WHERE lifecycle_status = 'published';
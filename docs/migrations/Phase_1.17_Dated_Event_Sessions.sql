@@ -0,0 +1,100 @@
+-- Phase 1.17 - Dated Event Sessions
+--
+-- event_sessions rows were matched to session_config by name, so a
+-- multi-day event stored every day's "Morning In" scans in one row. Sessions
+-- are now keyed by (event_id, session_date, config_session_id): one row per
+-- configured session per date.
+--
+-- Existing scans are moved to dated rows using the school-local date of
+-- scanned_at. Replace 'Asia/Manila' below if SCHOOL_TIME_ZONE is set to
+-- something else. Rows that cannot be matched to session_config stay on the
+-- original undated session, which stats report under "Undated sessions".
+
+-----------------------------
+-- 1. Session Key Columns
+-----------------------------
+
+ALTER TABLE public.event_sessions
+  ADD COLUMN IF NOT EXISTS session_date date NULL,
+  ADD COLUMN IF NOT EXISTS config_session_id text NULL;
+
+COMMENT ON COLUMN public.event_sessions.session_date IS 'School-local date of this session occurrence (NULL for sessions created before Phase 1.17).';
+COMMENT ON COLUMN public.event_sessions.config_session_id IS 'ID of the session in events.session_config (NULL for sessions created before Phase 1.17).';
+
+-- Plain (non-partial) unique index; NULL keys (legacy rows) never conflict
+CREATE UNIQUE INDEX IF NOT EXISTS uq_event_sessions_event_date_config
+  ON public.event_sessions (event_id, session_date, config_session_id);
+
+-----------------------------
+-- 2. Backfill Dated Sessions
+-----------------------------
+
+-- One dated row per configured session that has scans on its date
+WITH config_sessions AS (
+  SELECT
+    e.id AS event_id,
+    (d ->> 'date')::date AS session_date,
+    s ->> 'id' AS config_session_id,
+    coalesce(s ->> 'name', s ->> 'id') AS name,
+    coalesce(s ->> 'period', 'morning') || '_' || coalesce(s ->> 'direction', 'in') AS session_type,
+    (s ->> 'opens')::time AS start_time,
+    (s ->> 'lateAfter')::time AS late_threshold_time,
+    (s ->> 'closes')::time AS end_time
+  FROM public.events e
+  CROSS JOIN LATERAL jsonb_array_elements(coalesce(e.session_config -> 'dates', '[]'::jsonb)) AS d
+  CROSS JOIN LATERAL jsonb_array_elements(coalesce(d -> 'sessions', '[]'::jsonb)) AS s
+)
+INSERT INTO public.event_sessions (
+  event_id, name, session_type, start_time, late_threshold_time, end_time,
+  session_date, config_session_id
+)
+SELECT DISTINCT
+  cs.event_id, cs.name, cs.session_type::session_type, cs.start_time, cs.late_threshold_time,
+  cs.end_time, cs.session_date, cs.config_session_id
+FROM config_sessions cs
+JOIN public.event_sessions legacy
+  ON legacy.event_id = cs.event_id
+ AND legacy.session_date IS NULL
+ AND legacy.name = cs.name
+JOIN public.attendance_logs al
+  ON al.event_session_id = legacy.id
+ AND (al.scanned_at AT TIME ZONE 'Asia/Manila')::date = cs.session_date
+ON CONFLICT (event_id, session_date, config_session_id) DO NOTHING;
+
+-----------------------------
+-- 3. Move Scans to Dated Sessions
+-----------------------------
+
+UPDATE public.attendance_logs al
+SET event_session_id = dated.id
+FROM public.event_sessions legacy
+JOIN public.event_sessions dated
+  ON dated.event_id = legacy.event_id
+ AND dated.name = legacy.name
+ AND dated.session_date IS NOT NULL
+WHERE al.event_session_id = legacy.id
+  AND legacy.session_date IS NULL
+  AND dated.session_date = (al.scanned_at AT TIME ZONE 'Asia/Manila')::date
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.attendance_logs existing
+    WHERE existing.event_session_id = dated.id
+      AND existing.student_id = al.student_id
+  );
+
+-- attendance_corrections keep pointing at the session the log now belongs to
+UPDATE public.attendance_corrections ac
+SET event_session_id = al.event_session_id
+FROM public.attendance_logs al
+WHERE ac.attendance_log_id = al.id
+  AND ac.event_session_id <> al.event_session_id;
+
+-- Drop legacy rows that no longer hold any scans
+DELETE FROM public.event_sessions legacy
+WHERE legacy.session_date IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.attendance_logs al WHERE al.event_session_id = legacy.id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.attendance_corrections ac WHERE ac.event_session_id = legacy.id
+  );
@@ -0,0 +1,31 @@
+-- Phase 1.18 - Section Advisers & Late Report
+--
+-- Sections get an optional adviser (a teacher account) so the late list can
+-- be filtered by adviser and advisers can pull reports for their own class.
+-- The late report reads event_sessions / attendance_logs only; the indexes
+-- below keep its date-range queries cheap.
+
+-----------------------------
+-- 1. Section Adviser
+-----------------------------
+
+ALTER TABLE public.sections
+  ADD COLUMN IF NOT EXISTS adviser_user_id uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.sections.adviser_user_id IS 'Class adviser; used to filter attendance reports.';
+
+CREATE INDEX IF NOT EXISTS idx_sections_adviser_user_id
+  ON public.sections (adviser_user_id)
+  WHERE adviser_user_id IS NOT NULL;
+
+-----------------------------
+-- 2. Report Indexes
+-----------------------------
+
+CREATE INDEX IF NOT EXISTS idx_event_sessions_session_date
+  ON public.event_sessions (session_date);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_logs_session_status
+  ON public.attendance_logs (event_session_id, status);
@@ -0,0 +1,128 @@
+-- Phase 1.19 - Communication Outbox & Guardian Notifications
+--
+-- Attendance changes (scan in / out, late, absent) notify the student's
+-- guardians. Messages are written to message_outbox and delivered by the
+-- dispatcher (POST /api/communication/outbox/dispatch), which retries failed
+-- sends with backoff. Guardians can opt out per notice and channel, and
+-- admins can override the message templates per guardian.
+
+-----------------------------
+-- 1. message_outbox Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.message_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- sms | email | in_app
+  channel text NOT NULL
+    CHECK (channel IN ('sms', 'email', 'in_app')),
+
+  -- Phone number, email address, or app user ID (in_app)
+  recipient text NOT NULL,
+
+  -- Guardian whose preferences applied, if any
+  recipient_user_id uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+
+  student_id uuid NULL
+    REFERENCES public.students (id)
+    ON DELETE SET NULL,
+
+  kind text NOT NULL
+    CHECK (kind IN ('scan_in', 'scan_out', 'late', 'absent')),
+
+  subject text NULL,
+  body text NOT NULL,
+
+  -- Prevents re-notifying when a scan is re-synced or a sweep re-runs
+  dedupe_key text NULL UNIQUE,
+
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz NULL,
+  last_error text NULL,
+
+  provider text NULL,
+  provider_message_id text NULL,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz NULL
+);
+
+CREATE INDEX IF NOT EXISTS message_outbox_due_idx
+  ON public.message_outbox (status, next_attempt_at);
+
+CREATE INDEX IF NOT EXISTS message_outbox_recipient_user_idx
+  ON public.message_outbox (recipient_user_id, created_at DESC);
+
+-----------------------------
+-- 2. guardian_notification_preferences Table
+-----------------------------
+
+-- A missing row means the channel default applies (email and in-app: all
+-- notices; SMS: late and absent only)
+CREATE TABLE IF NOT EXISTS public.guardian_notification_preferences (
+  app_user_id uuid NOT NULL
+    REFERENCES public.app_users (id)
+    ON DELETE CASCADE,
+
+  kind text NOT NULL
+    CHECK (kind IN ('scan_in', 'scan_out', 'late', 'absent')),
+
+  channel text NOT NULL
+    CHECK (channel IN ('sms', 'email', 'in_app')),
+
+  enabled boolean NOT NULL,
+
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (app_user_id, kind, channel)
+);
+
+-----------------------------
+-- 3. notification_templates Table
+-----------------------------
+
+-- app_user_id NULL: school-wide template; set: that guardian's override.
+-- Bodies use {{studentName}}, {{eventTitle}}, {{sessionName}}, {{date}}
+-- and {{time}}.
+CREATE TABLE IF NOT EXISTS public.notification_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  kind text NOT NULL
+    CHECK (kind IN ('scan_in', 'scan_out', 'late', 'absent')),
+
+  channel text NOT NULL
+    CHECK (channel IN ('sms', 'email', 'in_app')),
+
+  app_user_id uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE CASCADE,
+
+  subject text NULL,
+  body text NOT NULL
+    CHECK (length(btrim(body)) > 0),
+
+  updated_by uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT notification_templates_kind_channel_user_key
+    UNIQUE NULLS NOT DISTINCT (kind, channel, app_user_id)
+);
+
+-----------------------------
+-- 4. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.message_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guardian_notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_templates ENABLE ROW LEVEL SECURITY;
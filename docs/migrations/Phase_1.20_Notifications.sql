@@ -0,0 +1,51 @@
+-- Phase 1.20 - In-App Notifications
+--
+-- Notification center behind the dashboard bell. Event workflow changes
+-- (submitted, approved, rejected, published, cancelled) and scanner
+-- assignments create rows here, and in_app outbox messages from Phase 1.19
+-- are delivered here by the dispatcher.
+
+-----------------------------
+-- 1. notifications Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  recipient_user_id uuid NOT NULL
+    REFERENCES public.app_users (id)
+    ON DELETE CASCADE,
+
+  kind text NOT NULL
+    CHECK (kind IN (
+      'event_submitted', 'event_approved', 'event_rejected', 'event_published',
+      'event_cancelled', 'scanner_assigned', 'attendance'
+    )),
+
+  title text NOT NULL,
+  body text NULL,
+
+  -- In-app path the notification opens, e.g. /sems?event=<id>
+  link text NULL,
+
+  event_id uuid NULL
+    REFERENCES public.events (id)
+    ON DELETE CASCADE,
+
+  read_at timestamptz NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_recipient_created_idx
+  ON public.notifications (recipient_user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS notifications_recipient_unread_idx
+  ON public.notifications (recipient_user_id)
+  WHERE read_at IS NULL;
+
+-----------------------------
+-- 2. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
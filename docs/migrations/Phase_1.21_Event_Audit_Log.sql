@@ -0,0 +1,79 @@
+-- Phase 1.21 - Event Audit Log
+--
+-- The lifecycle columns on events (approved_by, rejected_at, ...) only keep
+-- the latest actor per step. event_audit_log keeps the full history: one
+-- append-only row per creation, workflow action, or edit made through the
+-- events API, with before/after values for changed fields.
+
+-----------------------------
+-- 1. event_audit_log Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.event_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  event_id uuid NOT NULL
+    REFERENCES public.events (id)
+    ON DELETE CASCADE,
+
+  -- CREATE | UPDATE | SUBMIT_FOR_APPROVAL | APPROVE | REJECT | PUBLISH | COMPLETE | CANCEL
+  action text NOT NULL
+    CHECK (action IN (
+      'CREATE', 'UPDATE', 'SUBMIT_FOR_APPROVAL', 'APPROVE', 'REJECT',
+      'PUBLISH', 'COMPLETE', 'CANCEL'
+    )),
+
+  actor_user_id uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+
+  from_status public.event_lifecycle_status NULL,
+  to_status public.event_lifecycle_status NULL,
+
+  -- Approval / rejection comment or cancellation reason
+  comment text NULL,
+
+  -- [{ "field": "startDate", "before": "2026-01-10", "after": "2026-01-12" }, ...]
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS event_audit_log_event_idx
+  ON public.event_audit_log (event_id, created_at DESC);
+
+COMMENT ON TABLE public.event_audit_log IS 'Append-only history of event workflow actions and field edits.';
+
+-----------------------------
+-- 2. Append-Only Guard
+-----------------------------
+
+-- Rows can't be changed or deleted directly. Foreign key actions still run:
+-- deleting the event removes its history and deleting a user clears actor_user_id.
+CREATE OR REPLACE FUNCTION public.event_audit_log_append_only()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'event_audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_audit_log_append_only ON public.event_audit_log;
+CREATE TRIGGER event_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.event_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.event_audit_log_append_only();
+
+-----------------------------
+-- 3. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.event_audit_log ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,65 @@
+-- Phase 1.22 - Recurring Event Series
+--
+-- A series holds an RRULE-like pattern (daily on school days, weekly on
+-- given weekdays, until a date or for a count) and a shared session
+-- template. Each occurrence is an ordinary events row linked by series_id,
+-- so approval, attendance and audit work per date. Editing "this and
+-- following" from a later date splits off a new series that points back
+-- through split_from_series_id.
+
+-----------------------------
+-- 1. event_series Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.event_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  title text NOT NULL,
+
+  -- { "frequency": "WEEKLY", "interval": 1, "byWeekday": ["MO"],
+  --   "startDate": "2026-06-08", "until": "2026-10-30", "count": null,
+  --   "excludedDates": ["2026-08-21"] }
+  recurrence jsonb NOT NULL,
+
+  -- SessionConfig[]: the sessions of one date in events.session_config
+  session_template jsonb NOT NULL DEFAULT '[]'::jsonb,
+
+  owner_user_id uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+
+  split_from_series_id uuid NULL
+    REFERENCES public.event_series (id)
+    ON DELETE SET NULL,
+
+  created_by uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.event_series IS 'Recurring event patterns; occurrences are events rows linked by series_id.';
+
+-----------------------------
+-- 2. events.series_id
+-----------------------------
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS series_id uuid NULL
+    REFERENCES public.event_series (id)
+    ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS events_series_idx
+  ON public.events (series_id, start_date)
+  WHERE series_id IS NOT NULL;
+
+-----------------------------
+-- 3. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.event_series ENABLE ROW LEVEL SECURITY;
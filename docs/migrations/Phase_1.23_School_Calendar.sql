@@ -0,0 +1,100 @@
+-- Phase 1.23 - School Calendar
+--
+-- School years (with their terms) and closures (holidays and class
+-- suspensions). SEMS reads them to warn when an event lands on a
+-- non-school day and to skip closures when generating a recurring series.
+
+-----------------------------
+-- 1. school_years Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.school_years (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- e.g. "SY 2026-2027"
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  is_current boolean NOT NULL DEFAULT false,
+
+  created_by uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT school_years_dates_check CHECK (end_date >= start_date)
+);
+
+-- At most one current school year
+CREATE UNIQUE INDEX IF NOT EXISTS school_years_current_idx
+  ON public.school_years (is_current)
+  WHERE is_current;
+
+COMMENT ON TABLE public.school_years IS 'School years; dates outside every year are non-school days.';
+
+-----------------------------
+-- 2. school_terms Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.school_terms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  school_year_id uuid NOT NULL
+    REFERENCES public.school_years (id)
+    ON DELETE CASCADE,
+
+  -- e.g. "First Quarter"
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT school_terms_dates_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS school_terms_year_idx
+  ON public.school_terms (school_year_id, start_date);
+
+-----------------------------
+-- 3. school_closures Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.school_closures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  kind text NOT NULL
+    CHECK (kind IN ('holiday', 'suspension')),
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  notes text NULL,
+
+  created_by uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT school_closures_dates_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS school_closures_dates_idx
+  ON public.school_closures (start_date, end_date);
+
+COMMENT ON TABLE public.school_closures IS 'Holidays and class suspensions; one row may span several days.';
+
+-----------------------------
+-- 4. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.school_years ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.school_terms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.school_closures ENABLE ROW LEVEL SECURITY;
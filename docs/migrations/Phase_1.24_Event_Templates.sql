@@ -0,0 +1,60 @@
+-- Phase 1.24 - Event Templates
+--
+-- A template keeps an event's audience, venue, scanners, visibility,
+-- registration settings and sessions so organizers can start new events
+-- from it. Session days and the registration window are stored relative to
+-- the first day; events created from a template (or duplicated from another
+-- event) start in draft.
+
+-----------------------------
+-- 1. event_templates Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.event_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Shown in the template picker
+  name text NOT NULL,
+
+  -- Given to events created from the template
+  title text NOT NULL,
+  description text NULL,
+
+  facility_id uuid NULL
+    REFERENCES public.facilities (id)
+    ON DELETE SET NULL,
+
+  target_audience jsonb NOT NULL DEFAULT '{"version":1,"rules":[]}'::jsonb,
+
+  -- [{ "dayOffset": 0, "sessions": [SessionConfig, ...] }, ...]
+  session_days jsonb NOT NULL DEFAULT '[]'::jsonb,
+
+  scanner_assignments jsonb NOT NULL DEFAULT '{"version":1,"scannerIds":[]}'::jsonb,
+
+  visibility public.event_visibility NOT NULL DEFAULT 'internal',
+
+  -- { "required": true, "opensOffsetMinutes": -10080,
+  --   "closesOffsetMinutes": -1440, "capacityLimit": 120 }
+  registration jsonb NOT NULL DEFAULT '{"required":false,"opensOffsetMinutes":null,"closesOffsetMinutes":null,"capacityLimit":null}'::jsonb,
+
+  owner_user_id uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+
+  created_by uuid NULL
+    REFERENCES public.app_users (id)
+    ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS event_templates_name_idx
+  ON public.event_templates (name);
+
+COMMENT ON TABLE public.event_templates IS 'Reusable event setups; events created from them start as drafts.';
+
+-----------------------------
+-- 2. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.event_templates ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,126 @@
+-- Phase 1.25 - Multi-School Tenancy
+--
+-- One deployment can now serve several schools. Students, levels, sections,
+-- facilities, events and the school calendar belong to a school, and API
+-- routes only read and write the acting user's school. Super admins can
+-- switch between schools (or view all of them) from the dashboard.
+--
+-- Existing data is moved into a default school created below. Each school
+-- carries its own branding (name, short name, logo, color), replacing the
+-- single app name in appsettings.json.
+
+-----------------------------
+-- 1. schools Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.schools (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Full name, shown on reports and the public event pages
+  name text NOT NULL UNIQUE,
+
+  -- Shown in the dashboard header and sidebar
+  short_name text NOT NULL,
+
+  logo_url text NULL,
+
+  -- Hex color, e.g. #15803d
+  primary_color text NULL
+    CHECK (primary_color IS NULL OR primary_color ~ '^#[0-9a-fA-F]{6}$'),
+
+  is_active boolean NOT NULL DEFAULT true,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.schools IS 'Schools (tenants) sharing the deployment, with their branding.';
+
+-- Existing data belongs to the original school
+INSERT INTO public.schools (name, short_name, logo_url)
+SELECT 'Green Valley College Foundation Inc.', 'GREEN VALLEY', '/basic-ed-logo.png'
+WHERE NOT EXISTS (SELECT 1 FROM public.schools);
+
+-----------------------------
+-- 2. school_id Columns
+-----------------------------
+
+DO $$
+DECLARE
+  default_school uuid := (SELECT id FROM public.schools ORDER BY created_at LIMIT 1);
+  scoped_table text;
+BEGIN
+  FOREACH scoped_table IN ARRAY ARRAY[
+    'levels', 'sections', 'students', 'facilities', 'events',
+    'event_series', 'event_templates', 'school_years', 'school_terms', 'school_closures'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS school_id uuid NULL', scoped_table);
+    EXECUTE format('UPDATE public.%I SET school_id = $1 WHERE school_id IS NULL', scoped_table)
+      USING default_school;
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN school_id SET NOT NULL', scoped_table);
+    EXECUTE format(
+      'ALTER TABLE public.%I ADD CONSTRAINT %I FOREIGN KEY (school_id) REFERENCES public.schools (id) ON DELETE RESTRICT',
+      scoped_table,
+      scoped_table || '_school_id_fkey'
+    );
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I (school_id)', scoped_table || '_school_id_idx', scoped_table);
+  END LOOP;
+
+  -- Accounts belong to a school too; only super admins may have none
+  UPDATE public.app_users SET school_id = default_school WHERE school_id IS NULL;
+END $$;
+
+ALTER TABLE public.app_users
+  ADD CONSTRAINT app_users_school_id_fkey
+  FOREIGN KEY (school_id) REFERENCES public.schools (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS app_users_school_id_idx
+  ON public.app_users (school_id);
+
+-----------------------------
+-- 3. Per-School Uniqueness
+-----------------------------
+
+-- Level names and student IDs only need to be unique within a school
+ALTER TABLE public.levels DROP CONSTRAINT IF EXISTS levels_name_key;
+ALTER TABLE public.levels
+  ADD CONSTRAINT levels_school_name_key UNIQUE (school_id, name);
+
+ALTER TABLE public.students DROP CONSTRAINT IF EXISTS students_student_school_id_key;
+ALTER TABLE public.students
+  ADD CONSTRAINT students_school_student_school_id_key UNIQUE (school_id, student_school_id);
+
+-- One current school year per school
+DROP INDEX IF EXISTS public.school_years_current_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS school_years_current_idx
+  ON public.school_years (school_id)
+  WHERE is_current;
+
+-----------------------------
+-- 4. Same-School References
+-----------------------------
+
+-- A section's level, a student's section and an event's venue must belong
+-- to the same school as the row pointing at them
+ALTER TABLE public.levels ADD CONSTRAINT levels_id_school_key UNIQUE (id, school_id);
+ALTER TABLE public.sections ADD CONSTRAINT sections_id_school_key UNIQUE (id, school_id);
+ALTER TABLE public.facilities ADD CONSTRAINT facilities_id_school_key UNIQUE (id, school_id);
+
+ALTER TABLE public.sections
+  ADD CONSTRAINT sections_level_school_fkey
+  FOREIGN KEY (level_id, school_id) REFERENCES public.levels (id, school_id);
+
+ALTER TABLE public.students
+  ADD CONSTRAINT students_section_school_fkey
+  FOREIGN KEY (section_id, school_id) REFERENCES public.sections (id, school_id);
+
+ALTER TABLE public.events
+  ADD CONSTRAINT events_facility_school_fkey
+  FOREIGN KEY (facility_id, school_id) REFERENCES public.facilities (id, school_id);
+
+-----------------------------
+-- 5. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.schools ENABLE ROW LEVEL SECURITY;
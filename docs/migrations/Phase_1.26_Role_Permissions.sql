@@ -0,0 +1,97 @@
+-- Phase 1.26 - Role Permissions
+--
+-- Authorization moves from hard-coded role lists to named permissions
+-- (events.approve, students.export, facilities.manage, ...). The registry of
+-- permissions lives in src/config/permissions.ts; this table stores which
+-- roles hold which of them, and super admins edit it from the Users area.
+--
+-- SUPER_ADMIN always holds every permission and is not stored here. The
+-- mapping applies to every school, so permissions.manage is never granted to
+-- a role and stays with super admins. Until
+-- this migration runs the app falls back to the defaults in
+-- src/config/permissions.ts, which match the seed below.
+
+-----------------------------
+-- 1. role_permissions Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role text NOT NULL
+    CHECK (role IN ('ADMIN', 'TEACHER', 'STAFF', 'SCANNER', 'STUDENT', 'PARENT')),
+
+  -- Permission key from the registry, e.g. events.approve
+  permission text NOT NULL,
+
+  updated_by uuid NULL REFERENCES public.app_users (id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (role, permission)
+);
+
+COMMENT ON TABLE public.role_permissions IS 'Permissions granted to each role; editable by admins.';
+
+-----------------------------
+-- 2. Default Mapping
+-----------------------------
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'ADMIN', permission
+FROM unnest(ARRAY[
+  'events.view', 'events.create', 'events.manage_all', 'events.approve',
+  'attendance.scan', 'reports.view',
+  'students.view', 'students.manage', 'students.import', 'students.export',
+  'students.credentials', 'guardians.manage',
+  'academics.view', 'academics.manage',
+  'facilities.view', 'facilities.create', 'facilities.manage',
+  'school.manage', 'users.manage', 'jobs.run'
+]) AS permission
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT role, permission
+FROM unnest(ARRAY['TEACHER', 'STAFF']) AS role,
+     unnest(ARRAY[
+       'events.view', 'events.create', 'reports.view', 'students.view',
+       'students.manage', 'academics.view', 'facilities.view', 'facilities.create'
+     ]) AS permission
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.role_permissions (role, permission)
+VALUES ('SCANNER', 'attendance.scan')
+ON CONFLICT DO NOTHING;
+
+-----------------------------
+-- 3. Replacing a Role's Permissions
+-----------------------------
+
+-- Runs as one transaction, so a failed edit leaves the role's previous
+-- permissions in place instead of none.
+CREATE OR REPLACE FUNCTION public.replace_role_permissions(
+  p_role text,
+  p_permissions text[],
+  p_updated_by uuid
+)
+RETURNS void
+LANGUAGE sql
+SET search_path = ''
+AS $$
+  DELETE FROM public.role_permissions
+  WHERE role = p_role
+    AND permission <> ALL (p_permissions);
+
+  INSERT INTO public.role_permissions (role, permission, updated_by, updated_at)
+  SELECT p_role, permission, p_updated_by, now()
+  FROM unnest(p_permissions) AS permission
+  ON CONFLICT (role, permission)
+  DO UPDATE SET updated_by = EXCLUDED.updated_by, updated_at = EXCLUDED.updated_at;
+$$;
+
+REVOKE ALL ON FUNCTION public.replace_role_permissions(text, text[], uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_role_permissions(text, text[], uuid) TO service_role;
+
+-----------------------------
+-- 4. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,16 @@
+-- Phase 1.27 - Session Revocation
+--
+-- Middleware now authorizes pages from a signed session token issued at
+-- login (SESSION_TOKEN_SECRET) instead of the client-writable user-roles
+-- cookie. Tokens issued before app_users.sessions_revoked_at are rejected;
+-- the column is set when a user is deactivated or their roles change.
+
+-----------------------------
+-- 1. app_users.sessions_revoked_at
+-----------------------------
+
+ALTER TABLE public.app_users
+  ADD COLUMN IF NOT EXISTS sessions_revoked_at timestamptz NULL;
+
+COMMENT ON COLUMN public.app_users.sessions_revoked_at IS
+  'Session tokens issued before this instant are no longer accepted.';
@@ -0,0 +1,73 @@
+-- Phase 1.28 - User Sessions
+--
+-- Sessions are now tracked and enforced on the server. Every sign-in creates
+-- a row here; its id travels in the signed session token. A session ends
+-- after SESSION_IDLE_TIMEOUT_MINUTES without activity (measured from
+-- last_seen_at), after SESSION_ABSOLUTE_TIMEOUT_HOURS (expires_at), or when
+-- it is revoked: signing out, signing out a device from /profile, or an
+-- admin forcing a user to log out from /users.
+--
+-- Each row remembers the Supabase Auth session it was created with. Ending a
+-- row also deletes that auth session, so its refresh token stops working and
+-- the Supabase tokens can't outlive the app session.
+
+-----------------------------
+-- 1. user_sessions Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  user_id uuid NOT NULL REFERENCES public.app_users (id) ON DELETE CASCADE,
+
+  -- auth.sessions row behind the Supabase tokens issued at sign-in
+  auth_session_id uuid NULL,
+
+  -- Shown in the signed-in devices list
+  user_agent text NULL,
+  ip_address text NULL,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  -- Last reported activity; the idle timeout counts from here
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+
+  -- Absolute timeout
+  expires_at timestamptz NOT NULL,
+
+  revoked_at timestamptz NULL,
+  revoked_by uuid NULL REFERENCES public.app_users (id) ON DELETE SET NULL,
+  revoke_reason text NULL
+    CHECK (revoke_reason IS NULL OR revoke_reason IN ('SIGNED_OUT', 'SIGNED_OUT_REMOTELY', 'FORCE_LOGOUT', 'TIMED_OUT'))
+);
+
+COMMENT ON TABLE public.user_sessions IS 'Server-side sign-in sessions with idle and absolute timeouts.';
+
+CREATE INDEX IF NOT EXISTS user_sessions_user_active_idx
+  ON public.user_sessions (user_id, last_seen_at DESC)
+  WHERE revoked_at IS NULL;
+
+-----------------------------
+-- 2. Ending Supabase Auth Sessions
+-----------------------------
+
+-- The auth schema isn't exposed through the API, so ended sessions are
+-- deleted here. Deleting an auth.sessions row also deletes its refresh tokens.
+CREATE OR REPLACE FUNCTION public.revoke_auth_sessions(p_session_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  DELETE FROM auth.sessions WHERE id = ANY (p_session_ids);
+$$;
+
+REVOKE ALL ON FUNCTION public.revoke_auth_sessions(uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_auth_sessions(uuid[]) TO service_role;
+
+-----------------------------
+-- 3. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
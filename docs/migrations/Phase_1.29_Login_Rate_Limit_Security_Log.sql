@@ -0,0 +1,92 @@
+-- Phase 1.29 - Login Rate Limiting & Security Log
+--
+-- Failed sign-ins are counted per account and per IP address. Repeated
+-- failures on an account delay further attempts and then lock it for
+-- LOGIN_LOCKOUT_MINUTES; an IP address is locked at a much higher limit.
+-- Counts live in login_attempts unless LOGIN_RATE_LIMIT_STORE=memory.
+--
+-- security_events records sign-ins, failed and refused sign-ins, lockouts,
+-- password resets and role changes. Admins search it at /users/security
+-- with the new security.view permission.
+
+-----------------------------
+-- 1. login_attempts Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.login_attempts (
+  -- What is limited: account:<email> or ip:<address>
+  key text PRIMARY KEY,
+
+  failures integer NOT NULL DEFAULT 0,
+  first_failure_at timestamptz NOT NULL,
+
+  -- Sign-ins are refused until then; a lockout when locked is true,
+  -- otherwise a short retry delay
+  blocked_until timestamptz NULL,
+  locked boolean NOT NULL DEFAULT false,
+
+  -- Rows past this can be deleted at any time
+  expires_at timestamptz NOT NULL
+);
+
+COMMENT ON TABLE public.login_attempts IS 'Failed sign-in counts for rate limiting and lockout.';
+
+CREATE INDEX IF NOT EXISTS login_attempts_expires_at_idx
+  ON public.login_attempts (expires_at);
+
+-----------------------------
+-- 2. security_events Table
+-----------------------------
+
+CREATE TABLE IF NOT EXISTS public.security_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  event_type text NOT NULL
+    CHECK (event_type IN (
+      'LOGIN_SUCCEEDED', 'LOGIN_FAILED', 'LOGIN_BLOCKED', 'ACCOUNT_LOCKED',
+      'PASSWORD_RESET', 'ROLES_CHANGED'
+    )),
+
+  -- Account the event is about; email is kept as typed for failed sign-ins
+  -- to addresses without an account
+  user_id uuid NULL REFERENCES public.app_users (id) ON DELETE SET NULL,
+  email text NULL,
+
+  -- School of that account; admins only see their school's events
+  school_id uuid NULL REFERENCES public.schools (id) ON DELETE SET NULL,
+
+  -- Admin who reset the password or changed the roles
+  actor_id uuid NULL REFERENCES public.app_users (id) ON DELETE SET NULL,
+
+  ip_address text NULL,
+  user_agent text NULL,
+
+  -- Event specifics, e.g. failure reason or old and new roles
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.security_events IS 'Audit log of sign-ins, lockouts, password resets and role changes.';
+
+CREATE INDEX IF NOT EXISTS security_events_school_created_idx
+  ON public.security_events (school_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS security_events_type_created_idx
+  ON public.security_events (event_type, created_at DESC);
+
+-----------------------------
+-- 3. Permissions
+-----------------------------
+
+INSERT INTO public.role_permissions (role, permission)
+VALUES ('ADMIN', 'security.view')
+ON CONFLICT DO NOTHING;
+
+-----------------------------
+-- 4. Row Level Security
+-----------------------------
+
+-- Accessed only through the service role from API routes
+ALTER TABLE public.login_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.security_events ENABLE ROW LEVEL SECURITY;
@@ -1,15 +1,17 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { canAccessRoute, getDefaultRouteForRoles } from "@/core/auth/routeAccess";
-import type { UserRole } from "@/core/auth/types";
+import { resolvePermissions } from "@/core/auth/role-permissions";
+import { SESSION_TOKEN_COOKIE } from "@/core/auth/session-token";
+import { resolveRequestSession } from "@/core/auth/user-sessions";
 
-const PUBLIC_PATHS = ["/login", "/events"];
+const PUBLIC_PATHS = ["/login", "/events", "/sw.js", "/manifest.webmanifest"];
 
 function isPublicPath(pathname: string): boolean {
   return PUBLIC_PATHS.some((p) => pathname === p || pathname.startsWith(`${p}/`));
 }
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   if (pathname.startsWith("/_next") || pathname.startsWith("/api")) {
@@ -21,25 +23,32 @@ export function middleware(request: NextRequest) {
   }
 
   const token = request.cookies.get("auth-token")?.value;
-  const rolesCookie = request.cookies.get("user-roles")?.value;
 
-  if (!token || !rolesCookie) {
+  if (!token) {
     const loginUrl = new URL("/login", request.url);
     return NextResponse.redirect(loginUrl);
   }
 
-  let roles: UserRole[] = [];
+  // Signed roles, and a session that hasn't been revoked or timed out
+  let resolved: Awaited<ReturnType<typeof resolveRequestSession>>;
   try {
-    const parsed = JSON.parse(rolesCookie) as UserRole[];
-    if (Array.isArray(parsed)) {
-      roles = parsed;
-    }
-  } catch {
+    resolved = await resolveRequestSession(request);
+  } catch (error) {
+    console.error("[middleware] Unable to verify session", error);
+    resolved = null;
+  }
+
+  if (!resolved) {
     const loginUrl = new URL("/login", request.url);
-    return NextResponse.redirect(loginUrl);
+    const response = NextResponse.redirect(loginUrl);
+    response.cookies.delete(SESSION_TOKEN_COOKIE);
+    return response;
   }
 
-  if (!canAccessRoute(pathname, roles)) {
+  const { roles } = resolved.claims;
+  const permissions = await resolvePermissions(roles);
+
+  if (!canAccessRoute(pathname, roles, permissions)) {
     const target = getDefaultRouteForRoles(roles) ?? "/";
     const url = new URL(target, request.url);
     return NextResponse.redirect(url);
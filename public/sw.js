@@ -0,0 +1,207 @@
+/**
+ * Service worker for the offline SEMS scanner.
+ *
+ * - Scanner routes (HTML) are network-first and fall back to the cache, so
+ *   reloading /sems/scan/[eventId] without signal still renders the page.
+ * - Hashed build assets under /_next/static (JS chunks incl. ZXing, CSS, fonts)
+ *   are cache-first; they never change for a given URL.
+ * - /api is network-first. Successful GET responses for the session, the
+ *   scanner's event list and downloaded scanner resources are kept as an
+ *   offline fallback (so /api/auth/session keeps the scanner signed in
+ *   offline); everything else, writes included, always goes to the network.
+ *   The API cache belongs to the signed-in user and is dropped when the
+ *   session ends or another user signs in.
+ *
+ * Cache names are mirrored in src/core/offline/service-worker.ts.
+ */
+
+const CACHE_VERSION = "v2";
+const PAGES_CACHE = `sems-pages-${CACHE_VERSION}`;
+const ASSETS_CACHE = `sems-assets-${CACHE_VERSION}`;
+const API_CACHE = `sems-api-${CACHE_VERSION}`;
+const KNOWN_CACHES = [PAGES_CACHE, ASSETS_CACHE, API_CACHE];
+
+/** Routes cached on install. Event scanner routes are added when data is downloaded. */
+const PRECACHE_ROUTES = ["/sems/scan"];
+
+/** Icons and other public files the scanner shell needs offline. */
+const PRECACHE_ASSETS = ["/manifest.webmanifest", "/gvcfi.ico", "/ssc-logo.png"];
+
+const SESSION_PATH = "/api/auth/session";
+
+/** API GETs with an offline fallback; everything else under /api is network-only. */
+const API_FALLBACK_PATTERNS = [
+  /^\/api\/auth\/session$/,
+  /^\/api\/sems\/events\/scanner$/,
+  /^\/api\/sems\/events\/[^/]+\/scanner-resources$/,
+];
+
+const ASSET_URL_PATTERN = /["'(](\/_next\/static\/[^"'()\s\\]+)/g;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const assets = await caches.open(ASSETS_CACHE);
+      await Promise.all(PRECACHE_ASSETS.map((url) => assets.add(url).catch(() => undefined)));
+      await Promise.all(PRECACHE_ROUTES.map((url) => cacheRoute(url).catch(() => undefined)));
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith("sems-") && !KNOWN_CACHES.includes(name))
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("message", (event) => {
+  const message = event.data;
+  if (!message || typeof message !== "object") return;
+
+  if (message.type === "CACHE_ROUTES" && Array.isArray(message.urls)) {
+    event.waitUntil(
+      Promise.all(message.urls.map((url) => cacheRoute(url).catch(() => undefined)))
+    );
+  }
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/api/")) {
+    if (request.method === "GET" && API_FALLBACK_PATTERNS.some((pattern) => pattern.test(url.pathname))) {
+      event.respondWith(networkFirstApi(request));
+    }
+    return;
+  }
+
+  if (request.method !== "GET") return;
+
+  if (url.pathname.startsWith("/_next/static/") || PRECACHE_ASSETS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, ASSETS_CACHE));
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  }
+});
+
+/**
+ * Fetch a page and cache it together with the build assets it references.
+ */
+async function cacheRoute(path) {
+  const response = await fetch(path, { credentials: "same-origin" });
+  if (!response.ok || response.redirected) return;
+
+  const pages = await caches.open(PAGES_CACHE);
+  await pages.put(path, response.clone());
+
+  const html = await response.text();
+  const assetUrls = new Set();
+  for (const match of html.matchAll(ASSET_URL_PATTERN)) {
+    assetUrls.add(match[1]);
+  }
+
+  const assets = await caches.open(ASSETS_CACHE);
+  await Promise.all(
+    Array.from(assetUrls).map(async (assetUrl) => {
+      if (await assets.match(assetUrl)) return;
+      await assets.add(assetUrl).catch(() => undefined);
+    })
+  );
+}
+
+async function handleNavigation(request) {
+  const url = new URL(request.url);
+
+  try {
+    const response = await fetch(request);
+    // Keep scanner pages fresh in the cache whenever they load online
+    if (response.ok && !response.redirected && url.pathname.startsWith("/sems/scan")) {
+      const pages = await caches.open(PAGES_CACHE);
+      await pages.put(url.pathname, response.clone());
+    }
+    return response;
+  } catch {
+    const pages = await caches.open(PAGES_CACHE);
+    const cached = await pages.match(url.pathname, { ignoreSearch: true });
+    if (cached) return cached;
+
+    return new Response(
+      "<!doctype html><title>Offline</title><p>You are offline and this page has not been saved for offline use.</p>",
+      { status: 503, headers: { "Content-Type": "text/html; charset=utf-8" } }
+    );
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Network-first with the API cache as offline fallback. An unauthenticated
+ * response, or the session endpoint reporting a different user, drops
+ * everything cached for the previous user first.
+ */
+async function networkFirstApi(request) {
+  const isSession = new URL(request.url).pathname === SESSION_PATH;
+
+  let response;
+  try {
+    response = await fetch(request);
+  } catch (error) {
+    const cached = await (await caches.open(API_CACHE)).match(request);
+    if (cached) return cached;
+    throw error;
+  }
+
+  if (response.status === 401 || (isSession && response.status === 403)) {
+    await caches.delete(API_CACHE);
+    return response;
+  }
+  if (!response.ok) return response;
+
+  if (isSession) {
+    const previous = await (await caches.open(API_CACHE)).match(SESSION_PATH);
+    const [previousUserId, userId] = await Promise.all([
+      previous ? readSessionUserId(previous) : null,
+      readSessionUserId(response.clone()),
+    ]);
+    if (previous && previousUserId !== userId) {
+      await caches.delete(API_CACHE);
+    }
+  }
+
+  await (await caches.open(API_CACHE)).put(request, response.clone());
+  return response;
+}
+
+async function readSessionUserId(response) {
+  try {
+    const body = await response.json();
+    return body?.data?.user?.id ?? null;
+  } catch {
+    return null;
+  }
+}
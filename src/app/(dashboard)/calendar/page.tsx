@@ -0,0 +1,509 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { addDays, format, parseISO } from "date-fns";
+import { CalendarDays, Loader2, Pencil, Plus, Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import type {
+  SchoolClosureDto,
+  SchoolClosureKind,
+  SchoolYearDto,
+} from "@/modules/academics/domain/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface DateRangeForm {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface ClosureForm extends DateRangeForm {
+  kind: SchoolClosureKind;
+  notes: string;
+}
+
+type DialogState =
+  | { type: "year" }
+  | { type: "term"; schoolYear: SchoolYearDto }
+  | { type: "closure"; closure: SchoolClosureDto | null }
+  | null;
+
+const EMPTY_RANGE: DateRangeForm = { name: "", startDate: "", endDate: "" };
+
+const EMPTY_CLOSURE: ClosureForm = { ...EMPTY_RANGE, kind: "holiday", notes: "" };
+
+const CLOSURE_BADGE_STYLES: Record<SchoolClosureKind, string> = {
+  holiday: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800",
+  suspension: "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800",
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const body = (await response.json().catch(() => null)) as {
+    success?: boolean;
+    data?: T;
+    error?: { message?: string; details?: Array<{ field: string; message: string }> };
+  } | null;
+
+  if (!response.ok || !body?.success || !body.data) {
+    const firstError = body?.error?.details?.[0];
+    throw new Error(firstError ? firstError.message : body?.error?.message ?? "Request failed.");
+  }
+
+  return body.data;
+}
+
+function formatRange(startDate: string, endDate: string): string {
+  const start = format(parseISO(startDate), "MMM d, yyyy");
+  if (startDate === endDate) return start;
+  return `${start} – ${format(parseISO(endDate), "MMM d, yyyy")}`;
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export default function SchoolCalendarPage() {
+  const router = useRouter();
+  const [schoolYears, setSchoolYears] = useState<SchoolYearDto[]>([]);
+  const [closures, setClosures] = useState<SchoolClosureDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [rangeForm, setRangeForm] = useState<DateRangeForm>(EMPTY_RANGE);
+  const [closureForm, setClosureForm] = useState<ClosureForm>(EMPTY_CLOSURE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadCalendar = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { schoolYears: years } = await requestJson<{ schoolYears: SchoolYearDto[] }>(
+        "/api/academics/school-years"
+      );
+      setSchoolYears(years);
+
+      // Closures of the current year, or of the coming twelve months
+      const currentYear = years.find((year) => year.isCurrent);
+      const today = new Date();
+      const params = new URLSearchParams({
+        from: currentYear?.startDate ?? format(today, "yyyy-MM-dd"),
+        to: currentYear?.endDate ?? format(addDays(today, 365), "yyyy-MM-dd"),
+      });
+      const { closures: rows } = await requestJson<{ closures: SchoolClosureDto[] }>(
+        `/api/academics/closures?${params.toString()}`
+      );
+      setClosures(rows);
+    } catch (err) {
+      toast.error("Unable to load the school calendar", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCalendar();
+  }, [loadCalendar]);
+
+  const openDialog = (next: NonNullable<DialogState>) => {
+    setRangeForm(EMPTY_RANGE);
+    setClosureForm(
+      next.type === "closure" && next.closure
+        ? {
+            kind: next.closure.kind,
+            name: next.closure.name,
+            startDate: next.closure.startDate,
+            endDate: next.closure.endDate,
+            notes: next.closure.notes ?? "",
+          }
+        : EMPTY_CLOSURE
+    );
+    setDialog(next);
+  };
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast.success(successMessage);
+      setDialog(null);
+      await loadCalendar();
+    } catch (err) {
+      toast.error("Unable to save the school calendar", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!dialog) return;
+
+    if (dialog.type === "year") {
+      await runAction(
+        () =>
+          requestJson("/api/academics/school-years", {
+            method: "POST",
+            body: JSON.stringify({ ...rangeForm, isCurrent: schoolYears.length === 0 }),
+          }),
+        "School year added"
+      );
+      return;
+    }
+
+    if (dialog.type === "term") {
+      await runAction(
+        () =>
+          requestJson(`/api/academics/school-years/${dialog.schoolYear.id}/terms`, {
+            method: "POST",
+            body: JSON.stringify(rangeForm),
+          }),
+        "Term added"
+      );
+      return;
+    }
+
+    const payload = JSON.stringify({ ...closureForm, notes: closureForm.notes.trim() || null });
+    await runAction(
+      () =>
+        dialog.closure
+          ? requestJson(`/api/academics/closures/${dialog.closure.id}`, { method: "PATCH", body: payload })
+          : requestJson("/api/academics/closures", { method: "POST", body: payload }),
+      dialog.closure ? "Closure updated" : "Closure added"
+    );
+  };
+
+  const handleSetCurrent = (schoolYear: SchoolYearDto) =>
+    runAction(
+      () =>
+        requestJson(`/api/academics/school-years/${schoolYear.id}`, {
+          method: "PATCH",
+          body: JSON.stringify({ isCurrent: true }),
+        }),
+      `${schoolYear.name} is now the current school year`
+    );
+
+  const handleDelete = (url: string, prompt: string, successMessage: string) => {
+    if (!window.confirm(prompt)) return;
+    void runAction(() => requestJson(url, { method: "DELETE" }), successMessage);
+  };
+
+  const dialogTitle =
+    dialog?.type === "year"
+      ? "Add School Year"
+      : dialog?.type === "term"
+        ? `Add Term to ${dialog.schoolYear.name}`
+        : dialog?.closure
+          ? "Edit Closure"
+          : "Add Holiday or Suspension";
+
+  const activeForm: DateRangeForm = dialog?.type === "closure" ? closureForm : rangeForm;
+  const setActiveForm = (changes: Partial<DateRangeForm>) => {
+    if (dialog?.type === "closure") {
+      setClosureForm((prev) => ({ ...prev, ...changes }));
+    } else {
+      setRangeForm((prev) => ({ ...prev, ...changes }));
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col space-y-6 min-h-0">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <div className="hidden sm:flex h-10 w-10 items-center justify-center rounded-xl bg-primary/10 text-primary">
+            <CalendarDays className="w-5 h-5" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">School Calendar</h1>
+            <p className="text-sm text-muted-foreground">
+              Set school years, terms, holidays and class suspensions. Events on these dates are flagged in SEMS.
+            </p>
+          </div>
+        </div>
+        <div className="hidden md:flex items-center gap-2">
+          <Button type="button" variant="outline" onClick={() => router.push("/dashboard")} className="text-sm">
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* School Years */}
+        <Card className="border-border shadow-sm">
+          <CardHeader className="pb-3 border-b border-border/50">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base font-bold text-foreground">School Years</CardTitle>
+                <CardDescription className="text-xs">Dates outside every school year are non-school days.</CardDescription>
+              </div>
+              <Button size="sm" onClick={() => openDialog({ type: "year" })}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Year
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-4 space-y-4">
+            {isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : schoolYears.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No school years yet</p>
+            ) : (
+              schoolYears.map((schoolYear) => (
+                <div key={schoolYear.id} className="rounded-lg border border-border/60 p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-foreground">{schoolYear.name}</p>
+                        {schoolYear.isCurrent && <Badge variant="secondary">Current</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatRange(schoolYear.startDate, schoolYear.endDate)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {!schoolYear.isCurrent && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Set as current"
+                          disabled={isSaving}
+                          onClick={() => void handleSetCurrent(schoolYear)}
+                        >
+                          <Star className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Delete school year"
+                        disabled={isSaving}
+                        onClick={() =>
+                          handleDelete(
+                            `/api/academics/school-years/${schoolYear.id}`,
+                            `Delete ${schoolYear.name} and its terms?`,
+                            "School year deleted"
+                          )
+                        }
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-1.5">
+                    {schoolYear.terms.map((term) => (
+                      <div key={term.id} className="flex items-center justify-between text-sm">
+                        <span className="text-foreground">{term.name}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground">{formatRange(term.startDate, term.endDate)}</span>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            title="Delete term"
+                            disabled={isSaving}
+                            onClick={() =>
+                              handleDelete(`/api/academics/terms/${term.id}`, `Delete ${term.name}?`, "Term deleted")
+                            }
+                          >
+                            <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => openDialog({ type: "term", schoolYear })}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Term
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Closures */}
+        <Card className="border-border shadow-sm">
+          <CardHeader className="pb-3 border-b border-border/50">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base font-bold text-foreground">Holidays & Suspensions</CardTitle>
+                <CardDescription className="text-xs">
+                  Recurring events skip these dates; one-off events get a warning.
+                </CardDescription>
+              </div>
+              <Button size="sm" onClick={() => openDialog({ type: "closure", closure: null })}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Closure
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-4 space-y-2">
+            {isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : closures.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No holidays or suspensions yet</p>
+            ) : (
+              closures.map((closure) => (
+                <div
+                  key={closure.id}
+                  className="flex items-start justify-between gap-3 pb-2 border-b border-border/30 last:border-0"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-foreground truncate">{closure.name}</p>
+                      <Badge variant="outline" className={CLOSURE_BADGE_STYLES[closure.kind]}>
+                        {closure.kind === "holiday" ? "Holiday" : "Suspension"}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{formatRange(closure.startDate, closure.endDate)}</p>
+                    {closure.notes && <p className="text-xs text-muted-foreground mt-0.5">{closure.notes}</p>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Edit closure"
+                      disabled={isSaving}
+                      onClick={() => openDialog({ type: "closure", closure })}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Delete closure"
+                      disabled={isSaving}
+                      onClick={() =>
+                        handleDelete(`/api/academics/closures/${closure.id}`, `Delete ${closure.name}?`, "Closure deleted")
+                      }
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{dialogTitle}</DialogTitle>
+            <DialogDescription>Dates are inclusive.</DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            {dialog?.type === "closure" && (
+              <div className="space-y-1.5">
+                <Label>Type</Label>
+                <Select
+                  value={closureForm.kind}
+                  onValueChange={(value) => setClosureForm((prev) => ({ ...prev, kind: value as SchoolClosureKind }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="holiday">Holiday</SelectItem>
+                    <SelectItem value="suspension">Class suspension</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1.5">
+              <Label htmlFor="calendar-name">Name</Label>
+              <Input
+                id="calendar-name"
+                value={activeForm.name}
+                onChange={(e) => setActiveForm({ name: e.target.value })}
+                placeholder={
+                  dialog?.type === "year" ? "SY 2026-2027" : dialog?.type === "term" ? "First Quarter" : "Christmas Day"
+                }
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="calendar-start">Start date</Label>
+                <Input
+                  id="calendar-start"
+                  type="date"
+                  value={activeForm.startDate}
+                  onChange={(e) =>
+                    setActiveForm({ startDate: e.target.value, endDate: activeForm.endDate || e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="calendar-end">End date</Label>
+                <Input
+                  id="calendar-end"
+                  type="date"
+                  value={activeForm.endDate}
+                  min={activeForm.startDate || undefined}
+                  onChange={(e) => setActiveForm({ endDate: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            {dialog?.type === "closure" && (
+              <div className="space-y-1.5">
+                <Label htmlFor="calendar-notes">Notes</Label>
+                <Input
+                  id="calendar-notes"
+                  value={closureForm.notes}
+                  onChange={(e) => setClosureForm((prev) => ({ ...prev, notes: e.target.value }))}
+                  placeholder="Optional"
+                />
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialog(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { SchoolCalendarCard } from "@/components/school-calendar-card";
 import { useAuth } from "@/shared/hooks/useAuth";
 import { formatDistanceToNow } from "date-fns";
 
@@ -434,6 +435,8 @@ export default function AdminDashboardPage() {
             </CardContent>
           </Card>
 
+          <SchoolCalendarCard />
+
           {/* System Status */}
           <Card className="border-border/50 shadow-sm bg-gradient-to-br from-card via-card to-emerald-500/5">
             <CardHeader className="pb-3">
@@ -46,6 +46,8 @@ import {
 } from "lucide-react";
 import { useAuth } from "@/shared/hooks/useAuth";
 import type { UserRole } from "@/core/auth/types";
+import { GuardianNotificationSettings } from "@/components/guardian-notification-settings";
+import { SignedInDevices } from "@/components/signed-in-devices";
 
 interface ProfileDto {
   id: string;
@@ -460,6 +462,18 @@ export default function ProfilePage() {
               </Card>
             </div>
 
+            {profile.roles.includes("PARENT") && (
+              <Card className="border border-border bg-card">
+                <CardHeader>
+                  <CardTitle>Notifications</CardTitle>
+                  <CardDescription>Updates about your child&apos;s attendance.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <GuardianNotificationSettings guardianId={profile.id} />
+                </CardContent>
+              </Card>
+            )}
+
             <div ref={passwordSectionRef}>
             <Card className="border border-border bg-card">
               <CardHeader>
@@ -591,6 +605,16 @@ export default function ProfilePage() {
               </CardContent>
             </Card>
             </div>
+
+            <Card className="border border-border bg-card">
+              <CardHeader>
+                <CardTitle>Signed-in Devices</CardTitle>
+                <CardDescription>Sign out devices you no longer use or don&apos;t recognize.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SignedInDevices />
+              </CardContent>
+            </Card>
           </div>
         ) : (
           <EmptyState onRetry={loadProfile} />
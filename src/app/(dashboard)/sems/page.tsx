@@ -1,11 +1,17 @@
 "use client";
 
-import { useEffect, useState, useCallback, useMemo } from "react";
-import { Calendar as CalendarIcon, ShieldAlert, X, QrCode, Users, ChevronDown, ChevronRight, Search, Minus, UserX, Check, Megaphone, AlertTriangle, Building2, MapPin, Trash2, CalendarDays, BarChart3 } from "lucide-react";
+import { Suspense, useEffect, useState, useCallback, useMemo } from "react";
+import { Calendar as CalendarIcon, ShieldAlert, X, QrCode, Users, ChevronDown, ChevronRight, Search, Minus, UserX, Check, Megaphone, AlertTriangle, Building2, MapPin, Trash2, CalendarDays, BarChart3, ClipboardList, Repeat, MoreHorizontal, Copy, LayoutTemplate } from "lucide-react";
 import { VenueCard, type VenueAvailabilityStatus, type SessionConflict } from "@/components/venue-card";
 import { EventAttendanceInsights } from "@/components/event-attendance-insights";
-import { useRouter } from "next/navigation";
-import { format, eachDayOfInterval, isSameDay, isBefore, startOfToday } from "date-fns";
+import { LateReportPanel } from "@/components/late-report-panel";
+import { EventRegistrationsPanel } from "@/components/event-registrations-panel";
+import { EventHistoryTimeline } from "@/components/event-history-timeline";
+import { EventSeriesDialog } from "@/components/event-series-dialog";
+import { EventTemplatesDialog } from "@/components/event-templates-dialog";
+import { EventCopyDialog, type EventCopyMode, type EventCopySource } from "@/components/event-copy-dialog";
+import { useRouter, useSearchParams } from "next/navigation";
+import { addDays, format, eachDayOfInterval, isSameDay, isBefore, startOfToday } from "date-fns";
 import type { DateRange } from "react-day-picker";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -17,11 +23,18 @@ import { TimePicker } from "@/components/ui/time-picker";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { useAuth } from "@/shared/hooks/useAuth";
+import { SCHOOL_CALENDAR_MODIFIER_CLASSES, useSchoolCalendar } from "@/shared/hooks/useSchoolCalendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -160,8 +173,14 @@ interface EventEditData {
     version: 1;
     scannerIds: string[];
   };
+  seriesId: string | null;
 }
 
+/**
+ * Which occurrences of a recurring series an edit applies to.
+ */
+type SeriesEditScope = "single" | "following";
+
 const EVENTS_DATA = {
   overview: [
     {
@@ -538,6 +557,24 @@ function detectSessionTimeConflicts(
   return warnings;
 }
 
+/**
+ * Opens the edit dialog for `?event=<id>` links (e.g. from notifications),
+ * then drops the parameter so a refresh doesn't reopen it.
+ */
+function EventDeepLink({ onOpen }: { onOpen: (eventId: string) => Promise<void> }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const eventId = searchParams.get("event");
+
+  useEffect(() => {
+    if (!eventId) return;
+    void onOpen(eventId);
+    router.replace("/sems", { scroll: false });
+  }, [eventId, onOpen, router]);
+
+  return null;
+}
+
 // ============================================================================
 // Main Page Component
 // ============================================================================
@@ -546,6 +583,8 @@ export default function EventsPage() {
   const router = useRouter();
   const { user, loading } = useAuth();
   const today = startOfToday();
+  const todayKey = format(today, "yyyy-MM-dd");
+  const schoolCalendar = useSchoolCalendar(todayKey, format(addDays(today, 365), "yyyy-MM-dd"));
   const [venueFilter, setVenueFilter] = useState<string>("all");
 
   // Per-date session configuration state
@@ -618,6 +657,12 @@ export default function EventsPage() {
   // Edit event state
   const [editingEventId, setEditingEventId] = useState<string | null>(null);
   const [isLoadingEditEvent, setIsLoadingEditEvent] = useState(false);
+  const [editingSeriesId, setEditingSeriesId] = useState<string | null>(null);
+  const [seriesEditScope, setSeriesEditScope] = useState<SeriesEditScope>("single");
+  const [isSeriesDialogOpen, setIsSeriesDialogOpen] = useState(false);
+  const [isTemplatesDialogOpen, setIsTemplatesDialogOpen] = useState(false);
+  const [copySource, setCopySource] = useState<EventCopySource | null>(null);
+  const [copyMode, setCopyMode] = useState<EventCopyMode>("duplicate");
 
   // Venue availability state
   const [venueAvailability, setVenueAvailability] = useState<VenueAvailabilityResult[]>([]);
@@ -1153,6 +1198,8 @@ export default function EventsPage() {
     setUseSameScheduleForAllDays(true);
     setCreateEventError(null);
     setEditingEventId(null);
+    setEditingSeriesId(null);
+    setSeriesEditScope("single");
     setVenueSearchQuery("");
     setVenueAvailability([]);
     setSelectedScannerIds(new Set());
@@ -1390,6 +1437,9 @@ export default function EventsPage() {
 
       const event = body.data.event;
 
+      setEditingSeriesId(event.seriesId ?? null);
+      setSeriesEditScope("single");
+
       // Set scanner assignments
       if (event.scannerConfig?.scannerIds && Array.isArray(event.scannerConfig.scannerIds)) {
         setSelectedScannerIds(new Set(event.scannerConfig.scannerIds));
@@ -1899,6 +1949,12 @@ export default function EventsPage() {
     return eachDayOfInterval({ start, end });
   }, [createEventRange]);
 
+  // Selected dates that are holidays, suspensions, weekends or outside the school year
+  const selectedNonSchoolDays = useMemo(() => {
+    const selected = new Set(eventDates.map((date) => format(date, "yyyy-MM-dd")));
+    return (schoolCalendar.calendar?.nonSchoolDays ?? []).filter((day) => selected.has(day.date));
+  }, [eventDates, schoolCalendar.calendar]);
+
   // Initialize date configs when range changes
   useEffect(() => {
     if (eventDates.length === 0) {
@@ -2056,6 +2112,67 @@ export default function EventsPage() {
     return null;
   }, [dateSessionConfigs]);
 
+  /**
+   * Apply the edit form to this occurrence and every later one in its series.
+   *
+   * Dates stay with each occurrence; the first date's sessions become the
+   * series session template.
+   */
+  const submitSeriesEdit = useCallback(async (eventId: string, seriesId: string, formData: FormData) => {
+    const sessionConfig = JSON.parse(formData.get("sessionConfigJson") as string) as {
+      dates: Array<{ sessions: unknown[] }>;
+    };
+
+    const response = await fetch(`/api/sems/series/${seriesId}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        fromEventId: eventId,
+        title: formData.get("title") as string,
+        description: (formData.get("description") as string) ?? "",
+        posterImageUrl: (formData.get("posterImageUrl") as string) || null,
+        facilityId: (formData.get("facilityId") as string) || null,
+        audienceConfig: JSON.parse(formData.get("audienceConfigJson") as string),
+        scannerConfig: JSON.parse(formData.get("scannerConfigJson") as string),
+        sessionTemplate: sessionConfig.dates[0]?.sessions ?? [],
+      }),
+    });
+
+    if (shouldRedirectToLogin(response)) {
+      return;
+    }
+
+    const body = (await response.json().catch(() => null)) as {
+      success?: boolean;
+      data?: { updatedEventIds: string[]; failures: Array<{ date: string; message: string }> };
+      error?: { message?: string; details?: Array<{ field: string; message: string }> };
+    } | null;
+
+    if (!response.ok || !body?.success || !body.data) {
+      const firstError = body?.error?.details?.[0];
+      throw new Error(
+        firstError
+          ? `${firstError.field}: ${firstError.message}`
+          : body?.error?.message ?? "Unable to update the series."
+      );
+    }
+
+    setIsCreateDialogOpen(false);
+    toast.success("Series updated", {
+      description: `${body.data.updatedEventIds.length} event(s) from this date onward were updated.`,
+    });
+    if (body.data.failures.length > 0) {
+      const firstFailure = body.data.failures[0];
+      toast.warning(`${body.data.failures.length} event(s) were not changed`, {
+        description: `${firstFailure.date}: ${firstFailure.message}`,
+      });
+    }
+    resetForm();
+    void loadEvents();
+  }, [loadEvents, resetForm]);
+
   /**
    * Handle Create/Update Event form submission.
    * 
@@ -2124,6 +2241,11 @@ export default function EventsPage() {
         payload.id = editingEventId;
       }
 
+      if (editingEventId && editingSeriesId && seriesEditScope === "following") {
+        await submitSeriesEdit(editingEventId, editingSeriesId, formData);
+        return;
+      }
+
       const response = await fetch("/api/sems/events", {
         method: editingEventId ? "PUT" : "POST",
         headers: {
@@ -2138,7 +2260,7 @@ export default function EventsPage() {
 
       const body = await response.json().catch(() => null) as {
         success?: boolean;
-        data?: { event: unknown };
+        data?: { event: unknown; warnings?: Array<{ message: string }> };
         error?: { message?: string; details?: Array<{ field: string; message: string }> };
       } | null;
 
@@ -2162,6 +2284,12 @@ export default function EventsPage() {
           ? "The event details have been saved."
           : "The new event has been added to the schedule.",
       });
+      const warnings = body.data?.warnings ?? [];
+      if (warnings.length > 0) {
+        toast.warning("Scheduled on non-school days", {
+          description: warnings.map((warning) => warning.message).join("; "),
+        });
+      }
       resetForm();
 
       // Refresh events list
@@ -2188,6 +2316,9 @@ export default function EventsPage() {
     }
   }, [
     editingEventId,
+    editingSeriesId,
+    seriesEditScope,
+    submitSeriesEdit,
     loadEvents,
     resetForm,
     validateAllSessionConfigs,
@@ -2237,6 +2368,9 @@ export default function EventsPage() {
 
   return (
     <>
+      <Suspense fallback={null}>
+        <EventDeepLink onOpen={openEditDialog} />
+      </Suspense>
       <div className="flex-1 flex flex-col space-y-6 min-h-0 px-4 py-4 sm:px-6">
         <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
           <div className="flex items-start gap-3 w-full">
@@ -2269,6 +2403,24 @@ export default function EventsPage() {
             >
               + Create Event
             </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsSeriesDialogOpen(true)}
+              className="text-sm px-4 py-2 rounded-lg border-border bg-card text-muted-foreground hover:border-emerald-300 hover:text-emerald-800 shadow-sm w-full sm:w-auto"
+            >
+              <Repeat className="w-4 h-4 mr-1.5" />
+              Recurring Event
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsTemplatesDialogOpen(true)}
+              className="text-sm px-4 py-2 rounded-lg border-border bg-card text-muted-foreground hover:border-emerald-300 hover:text-emerald-800 shadow-sm w-full sm:w-auto"
+            >
+              <LayoutTemplate className="w-4 h-4 mr-1.5" />
+              From Template
+            </Button>
           </div>
         </div>
 
@@ -2282,6 +2434,10 @@ export default function EventsPage() {
               <BarChart3 className="w-4 h-4" />
               Attendance Insights
             </TabsTrigger>
+            <TabsTrigger value="late-list" className="gap-2 data-[state=active]:bg-background data-[state=active]:shadow-sm">
+              <ClipboardList className="w-4 h-4" />
+              Late List
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="events" className="flex-1 flex flex-col mt-0">
@@ -2444,6 +2600,7 @@ export default function EventsPage() {
                     <TableHead className="text-right font-bold text-primary">Attendees</TableHead>
                     <TableHead className="text-right font-bold text-primary">Lifecycle</TableHead>
                     <TableHead className="text-right font-bold text-primary">Status</TableHead>
+                    <TableHead className="w-10" />
                   </TableRow>
                 </TableHeader>
                 <TableBody
@@ -2452,7 +2609,7 @@ export default function EventsPage() {
                 >
                   {isLoadingEvents ? (
                     <TableRow>
-                      <TableCell colSpan={10} className="text-center py-8">
+                      <TableCell colSpan={11} className="text-center py-8">
                         <div className="flex items-center justify-center gap-2 text-muted-foreground">
                           <span className="h-4 w-4 border-2 border-gray-300 border-t-[#1B4D3E] rounded-full animate-spin" />
                           Loading events...
@@ -2461,7 +2618,7 @@ export default function EventsPage() {
                     </TableRow>
                   ) : eventsError ? (
                     <TableRow>
-                      <TableCell colSpan={10} className="text-center py-8">
+                      <TableCell colSpan={11} className="text-center py-8">
                         <p className="text-red-500">{eventsError}</p>
                         <Button
                           variant="outline"
@@ -2475,7 +2632,7 @@ export default function EventsPage() {
                     </TableRow>
                   ) : eventsList.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
+                      <TableCell colSpan={11} className="text-center py-8 text-muted-foreground">
                         No events found. Create your first event to get started.
                       </TableCell>
                     </TableRow>
@@ -2557,6 +2714,35 @@ export default function EventsPage() {
                               {event.status}
                             </span>
                           </TableCell>
+                          <TableCell className="w-10" onClick={(e) => e.stopPropagation()}>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Event actions">
+                                  <MoreHorizontal className="w-4 h-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem
+                                  onClick={() => {
+                                    setCopyMode("duplicate");
+                                    setCopySource({ id: event.id, title: event.title });
+                                  }}
+                                >
+                                  <Copy className="w-4 h-4 mr-2" />
+                                  Duplicate
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => {
+                                    setCopyMode("template");
+                                    setCopySource({ id: event.id, title: event.title });
+                                  }}
+                                >
+                                  <LayoutTemplate className="w-4 h-4 mr-2" />
+                                  Save as template
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
                         </TableRow>
                       );
                     })
@@ -2578,6 +2764,17 @@ export default function EventsPage() {
             }))}
             />
           </TabsContent>
+
+          <TabsContent value="late-list" className="flex-1 flex flex-col mt-0">
+            <LateReportPanel
+              events={eventsList.map((event) => ({
+                id: event.id,
+                title: event.title,
+                startDate: event.startDate,
+                endDate: event.endDate,
+              }))}
+            />
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -3388,10 +3585,34 @@ export default function EventsPage() {
                       selected={createEventRange}
                       onSelect={setCreateEventRange}
                       disabled={(date) => isBefore(date, today)}
+                      modifiers={schoolCalendar.modifiers}
+                      modifiersClassNames={SCHOOL_CALENDAR_MODIFIER_CLASSES}
                       initialFocus
                     />
                   </PopoverContent>
                 </Popover>
+                {selectedNonSchoolDays.length > 0 && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                    <div className="space-y-1">
+                      <p className="text-xs font-medium text-amber-800">No classes on some selected dates</p>
+                      <ul className="text-xs text-amber-700 space-y-0.5">
+                        {selectedNonSchoolDays.map((day) => (
+                          <li key={day.date}>
+                            {format(new Date(`${day.date}T00:00:00`), "MMM d, yyyy")}:{" "}
+                            {day.reason === "holiday"
+                              ? `Holiday${day.name ? ` (${day.name})` : ""}`
+                              : day.reason === "suspension"
+                                ? `Class suspension${day.name ? ` (${day.name})` : ""}`
+                                : day.reason === "weekend"
+                                  ? "Weekend"
+                                  : "Outside the school year"}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Session Configuration */}
@@ -3851,6 +4072,65 @@ export default function EventsPage() {
                 )}
               </div>
 
+              {/* Registrations & Waitlist (edit mode only) */}
+              {isEditMode && editingEventId && !isLoadingEditEvent && (
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-sm font-semibold text-foreground">Registrations &amp; Waitlist</p>
+                    <p className="text-xs text-muted-foreground">
+                      Students past the capacity limit join the waitlist and are promoted automatically when seats free up.
+                    </p>
+                  </div>
+                  <EventRegistrationsPanel eventId={editingEventId} />
+                </div>
+              )}
+
+              {/* History (edit mode only) */}
+              {isEditMode && editingEventId && !isLoadingEditEvent && (
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-sm font-semibold text-foreground">History</p>
+                    <p className="text-xs text-muted-foreground">
+                      Every workflow action and edit, newest first.
+                    </p>
+                  </div>
+                  <EventHistoryTimeline eventId={editingEventId} />
+                </div>
+              )}
+
+              {/* Series edit scope (recurring events only) */}
+              {isEditMode && editingSeriesId && !isLoadingEditEvent && (
+                <div className="space-y-2 p-3 rounded-lg border border-border bg-muted/40">
+                  <div className="flex items-center gap-2">
+                    <Repeat className="w-4 h-4 text-[#1B4D3E]" />
+                    <p className="text-sm font-semibold text-foreground">Recurring event</p>
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    {([
+                      { value: "single", label: "This event only" },
+                      { value: "following", label: "This and following events" },
+                    ] as const).map((option) => (
+                      <label key={option.value} className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+                        <input
+                          type="radio"
+                          name="seriesEditScope"
+                          value={option.value}
+                          checked={seriesEditScope === option.value}
+                          onChange={() => setSeriesEditScope(option.value)}
+                          className="accent-[#1B4D3E]"
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                  {seriesEditScope === "following" && (
+                    <p className="text-xs text-muted-foreground">
+                      Each later event keeps its own date. The sessions of the first date become the schedule for every date.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div className="flex items-center justify-end gap-2 pt-4 mt-2 border-t border-border/50">
                 <Button
                   type="button"
@@ -3883,6 +4163,29 @@ export default function EventsPage() {
           </div>
         </div>
       )}
+
+      <EventSeriesDialog
+        open={isSeriesDialogOpen}
+        onOpenChange={setIsSeriesDialogOpen}
+        onCreated={() => void loadEvents()}
+      />
+      <EventTemplatesDialog
+        open={isTemplatesDialogOpen}
+        onOpenChange={setIsTemplatesDialogOpen}
+        onCreated={(eventId) => {
+          void loadEvents();
+          void openEditDialog(eventId);
+        }}
+      />
+      <EventCopyDialog
+        source={copySource}
+        mode={copyMode}
+        onClose={() => setCopySource(null)}
+        onDuplicated={(eventId) => {
+          void loadEvents();
+          void openEditDialog(eventId);
+        }}
+      />
     </>
   );
 }
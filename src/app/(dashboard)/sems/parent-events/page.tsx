@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useAuth } from "@/shared/hooks/useAuth";
+import { LinkedStudentAttendanceHistory } from "@/components/student-attendance-history";
 
 type EventStatus = "live" | "scheduled" | "completed";
 
@@ -24,10 +25,11 @@ type EventVisibility = "internal" | "student" | "public";
 type SessionPeriod = "morning" | "afternoon" | "evening";
 type SessionDirection = "in" | "out";
 
-type ChildSessionStatus = "none" | "present" | "late";
+type ChildSessionStatus = "none" | "present" | "late" | "excused" | "absent";
 
 interface ParentEventChildSession {
   sessionId: string;
+  date: string | null;
   period: SessionPeriod;
   direction: SessionDirection;
   scheduledOpens: string | null;
@@ -140,11 +142,25 @@ function formatScanTime(iso: string | null): string {
   });
 }
 
+function formatSessionDate(value: string): string {
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
 function formatChildSessionLabel(session?: ParentEventChildSession): string {
   if (!session || session.status === "none") {
     return "No scan";
   }
 
+  if (session.status === "excused") {
+    return "Excused";
+  }
+
+  if (session.status === "absent") {
+    return "Absent";
+  }
+
   const base = session.status === "present" ? "Present" : "Late";
   const time = formatScanTime(session.scannedAt);
   return time ? `${base} • ${time}` : base;
@@ -582,6 +598,8 @@ export default function ParentEventsPage() {
                                     out: 1,
                                   };
 
+                                  const byDate = (a.date ?? "").localeCompare(b.date ?? "");
+                                  if (byDate !== 0) return byDate;
                                   const byPeriod = periodOrder[a.period] - periodOrder[b.period];
                                   if (byPeriod !== 0) return byPeriod;
                                   return directionOrder[a.direction] - directionOrder[b.direction];
@@ -595,7 +613,9 @@ export default function ParentEventsPage() {
                                       ? "Afternoon"
                                       : "Evening";
                                   const directionLabel = session.direction === "in" ? "In" : "Out";
-                                  return `${periodLabel} ${directionLabel}`;
+                                  return session.date
+                                    ? `${formatSessionDate(session.date)} · ${periodLabel} ${directionLabel}`
+                                    : `${periodLabel} ${directionLabel}`;
                                 };
 
                                 return (
@@ -642,6 +662,20 @@ export default function ParentEventsPage() {
             )}
           </section>
         )}
+
+        {!authLoading && isParent && (
+          <Card className="border-border/70">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Your child&apos;s attendance</CardTitle>
+              <CardDescription className="text-xs">
+                Attendance and lateness across every event your child was part of.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LinkedStudentAttendanceHistory />
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -27,6 +27,13 @@ import {
   findActiveSession,
   isLateForSession,
 } from "@/core/offline/scanner-session-utils";
+import {
+  PEER_STATUS_POLL_INTERVAL_MS,
+  pullPeerStatus,
+} from "@/core/offline/peer-status-sync";
+import { formatDeviceLabel } from "@/core/offline/scanner-device";
+import { resolveScannedStudent } from "@/core/offline/scanner-qr";
+import { useScanSync } from "@/shared/hooks/useScanSync";
 import { BrowserQRCodeReader } from "@zxing/browser";
 
 // Mock event data
@@ -57,6 +64,7 @@ export default function EventScannerPage() {
   const searchParams = useSearchParams();
   const autoStart = searchParams.get("autostart") === "1";
 
+  const { status: syncStatus } = useScanSync();
   const [flashOn, setFlashOn] = useState(false);
   const [lastScan, setLastScan] = useState<ScannedStudent | null>(null);
   const [eventRecord, setEventRecord] = useState<ScannerEventRecord | null>(null);
@@ -196,6 +204,28 @@ export default function EventScannerPage() {
     };
   }, [eventId]);
 
+  // Pull scans from other scanner devices so duplicates are caught across gates
+  useEffect(() => {
+    if (!eventId || !syncStatus.isOnline) return;
+
+    let isCancelled = false;
+    const poll = () => {
+      pullPeerStatus(eventId).catch((error) => {
+        if (!isCancelled) {
+          console.warn("[scanner] Failed to refresh peer scans", error);
+        }
+      });
+    };
+
+    poll();
+    const interval = window.setInterval(poll, PEER_STATUS_POLL_INTERVAL_MS);
+
+    return () => {
+      isCancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [eventId, syncStatus.isOnline]);
+
   function mapScanStatusToUiStatus(status: ScanStatus): ScannedStudent["status"] {
     if (status === "PRESENT") return "success";
     if (status === "LATE") return "late";
@@ -246,17 +276,14 @@ export default function EventScannerPage() {
         activeSessionName = activeSession.name;
         activeSessionDirection = activeSession.direction;
 
-        // Step 2: Look up the student
-        const lookupResult = await scannerDb.allowedStudents
-          .where("[eventId+qrHash]")
-          .equals([eventId, trimmed])
-          .first();
+        // Step 2: Verify the QR code and look up the student
+        const resolution = await resolveScannedStudent(currentEventRecord, trimmed);
 
-        studentRecord = lookupResult ?? null;
+        studentRecord = resolution.student;
 
-        if (!studentRecord) {
+        if (!studentRecord || resolution.reason) {
           scanStatus = "DENIED";
-          reason = "This student is not registered for this event.";
+          reason = resolution.reason ?? "This student is not registered for this event.";
         } else {
           // Step 3: Check if student already scanned for THIS SESSION (not just the event)
           const existingForSession = await scannerDb.scanQueue
@@ -264,9 +291,23 @@ export default function EventScannerPage() {
             .equals([eventId, activeSessionId, studentRecord.studentId])
             .first();
 
+          // Step 3b: Check scans recorded by other devices (pulled from the server)
+          const existingOnPeer = existingForSession
+            ? undefined
+            : await scannerDb.remoteScans
+                .where("[eventId+sessionId+studentId]")
+                .equals([eventId, activeSessionId, studentRecord.studentId])
+                .first();
+
           if (existingForSession) {
             scanStatus = "DUPLICATE";
             reason = `Already scanned for ${activeSessionName}.`;
+          } else if (existingOnPeer) {
+            scanStatus = "DUPLICATE";
+            const scannedBy = existingOnPeer.scannerName
+              ? `${existingOnPeer.scannerName} (${formatDeviceLabel(existingOnPeer.deviceId)})`
+              : formatDeviceLabel(existingOnPeer.deviceId);
+            reason = `Already scanned for ${activeSessionName} by ${scannedBy} at ${formatScanTimeLabel(existingOnPeer.scannedAt)}.`;
           } else {
             // Step 4: Determine PRESENT vs LATE based on session's lateAfter threshold
             const isLate = isLateForSession(activeSession);
@@ -723,6 +764,13 @@ export default function EventScannerPage() {
       <div className="absolute left-4 top-16 z-20 rounded-full bg-black/45 px-2.5 py-1 text-[10px] font-medium text-white/90 backdrop-blur">
         Mode: {scannerModeLabel}
       </div>
+      <div className="absolute right-4 top-16 z-20 rounded-full bg-black/45 px-2.5 py-1 text-[10px] font-medium text-white/90 backdrop-blur">
+        {!syncStatus.isOnline
+          ? `Offline · ${syncStatus.pendingCount} queued`
+          : syncStatus.pendingCount > 0
+            ? `${syncStatus.state === "waiting" ? "Retrying" : "Syncing"} · ${syncStatus.pendingCount} pending`
+            : "All scans synced"}
+      </div>
       <div className="absolute inset-0 bg-gradient-to-b from-black/60 via-black/10 to-black/80" />
       <div className="relative z-10 flex h-full flex-col">
         {/* Header */}
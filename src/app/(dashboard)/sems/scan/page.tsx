@@ -2,14 +2,19 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-import { QrCode, Calendar as CalendarIcon, MapPin, Users, MoreHorizontal, Download, Upload, Clock } from "lucide-react";
+import { QrCode, Calendar as CalendarIcon, MapPin, Users, MoreHorizontal, Download, Upload, Clock, X, RefreshCw } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { scannerDb } from "@/core/offline/scanner-db";
+import { scannerDb, type ScanQueueRecord } from "@/core/offline/scanner-db";
+import type { ScanSyncState } from "@/core/offline/scan-sync-engine";
+import type { ScanVerdictDto } from "@/modules/sems/domain/types";
+import { useScanSync } from "@/shared/hooks/useScanSync";
+import { cacheScannerRoutes } from "@/core/offline/service-worker";
+import { OfflineReadyIndicator } from "@/components/offline-ready-indicator";
 import { toast } from "sonner";
 
 interface ScannerEventItem {
@@ -39,6 +44,41 @@ interface ApiEventListItemDto {
   endDate: string;
 }
 
+interface ReconciliationItem {
+  scanId: string;
+  studentName: string;
+  verdict: ScanVerdictDto["verdict"];
+  reason: string | null;
+}
+
+interface ReconciliationSummary {
+  eventTitle: string;
+  items: ReconciliationItem[];
+}
+
+const VERDICT_BADGE_CLASSES: Record<ScanVerdictDto["verdict"], string> = {
+  accepted: "bg-emerald-500/10 text-emerald-300 border-emerald-500/40",
+  corrected: "bg-amber-500/10 text-amber-300 border-amber-500/40",
+  rejected: "bg-red-500/10 text-red-300 border-red-500/40",
+  duplicate: "bg-muted text-muted-foreground border-border/60",
+  failed: "bg-red-500/10 text-red-300 border-red-500/40",
+};
+
+const SYNC_STATE_BADGES: Record<ScanSyncState, { label: string; className: string }> = {
+  idle: { label: "Up to date", className: "bg-emerald-500/10 text-emerald-300 border-emerald-500/40" },
+  syncing: { label: "Syncing", className: "bg-sky-500/10 text-sky-300 border-sky-500/40" },
+  waiting: { label: "Retrying soon", className: "bg-amber-500/10 text-amber-300 border-amber-500/40" },
+  offline: { label: "Offline", className: "bg-muted text-muted-foreground border-border/60" },
+  stopped: { label: "Starting", className: "bg-muted text-muted-foreground border-border/60" },
+};
+
+function formatSyncTime(value: string | null): string {
+  if (!value) return "Never";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
 function mapApiStatusToScannerStatus(status: ApiEventStatus): ScannerEventItem["status"] {
   if (status === "live") return "live";
   if (status === "completed") return "completed";
@@ -77,6 +117,8 @@ export default function ScannerEventsPage() {
   const [appliedSearch, setAppliedSearch] = useState("");
   const [downloadingEventId, setDownloadingEventId] = useState<string | null>(null);
   const [uploadingEventId, setUploadingEventId] = useState<string | null>(null);
+  const [reconciliation, setReconciliation] = useState<ReconciliationSummary | null>(null);
+  const { status: syncStatus, syncNow } = useScanSync();
 
   const loadEvents = useCallback(async () => {
     setLoading(true);
@@ -183,7 +225,12 @@ export default function ScannerEventsPage() {
       setDownloadingEventId(eventItem.id);
 
       try {
-        const response = await fetch(`/api/sems/events/${eventItem.id}/scanner-resources`);
+        // Ask only for changes when this event's resources are already cached
+        const cachedEvent = await scannerDb.scannerEvents.get(eventItem.id);
+        const since = cachedEvent?.resourceVersion ?? null;
+        const query = since ? `?since=${since}` : "";
+
+        const response = await fetch(`/api/sems/events/${eventItem.id}/scanner-resources${query}`);
 
         let body: any = null;
         try {
@@ -203,6 +250,8 @@ export default function ScannerEventsPage() {
         const payload = body?.data ?? body;
         const apiEvent = payload?.event;
         const students = (payload?.students ?? []) as any[];
+        const isDelta = payload?.mode === "delta";
+        const removedStudentIds = (payload?.removedStudentIds ?? []) as string[];
 
         if (!apiEvent || !Array.isArray(students)) {
           toast.error("Invalid scanner data received from server.");
@@ -226,14 +275,30 @@ export default function ScannerEventsPage() {
               sessionConfig: apiEvent.sessionConfig,
               scannerUserId: "current",
               downloadedAt: nowIso,
+              resourceVersion: payload?.manifest?.version ?? null,
+              peerSince: cachedEvent?.peerSince ?? null,
+              qrPolicy: payload?.qrPolicy ?? null,
             });
 
-            await scannerDb.allowedStudents.where("eventId").equals(apiEvent.id).delete();
+            if (isDelta) {
+              // Drop removed students and the old rows of changed students
+              const touchedIds = [...removedStudentIds, ...students.map((student) => student.id as string)];
+              if (touchedIds.length > 0) {
+                await scannerDb.allowedStudents
+                  .where("[eventId+studentId]")
+                  .anyOf(touchedIds.map((studentId) => [apiEvent.id, studentId]))
+                  .delete();
+              }
+            } else {
+              await scannerDb.allowedStudents.where("eventId").equals(apiEvent.id).delete();
+            }
 
             const rows = students.map((student) => ({
               eventId: apiEvent.id,
               studentId: student.id,
               qrHash: student.qrHash ?? student.qr_hash,
+              qrIssuedAt: student.qrIssuedAt ?? null,
+              qrRevokedAt: student.qrRevokedAt ?? null,
               fullName: student.fullName ?? `${(student.firstName ?? "").trim()} ${(student.lastName ?? "").trim()}`.trim(),
               lrn: student.lrn ?? "",
               grade: student.levelName ?? "",
@@ -246,9 +311,23 @@ export default function ScannerEventsPage() {
           }
         );
 
-        toast.success("Scanner data downloaded", {
-          description: `${students.length.toLocaleString()} students cached for ${eventItem.title}.`,
-        });
+        // Make the event's scanner page available offline
+        void cacheScannerRoutes([`/sems/scan/${apiEvent.id}`]);
+
+        if (isDelta) {
+          const changes = students.length + removedStudentIds.length;
+          toast.success("Scanner data refreshed", {
+            description:
+              changes === 0 && !payload?.sessionConfigChanged
+                ? `${eventItem.title} is already up to date.`
+                : `${students.length.toLocaleString()} students updated, ${removedStudentIds.length.toLocaleString()} removed` +
+                  (payload?.sessionConfigChanged ? ", sessions updated." : "."),
+          });
+        } else {
+          toast.success("Scanner data downloaded", {
+            description: `${students.length.toLocaleString()} students cached for ${eventItem.title}.`,
+          });
+        }
       } catch (downloadError) {
         // eslint-disable-next-line no-console
         console.error("[ScannerEventsPage] Failed to download scanner data", downloadError);
@@ -265,109 +344,81 @@ export default function ScannerEventsPage() {
       setUploadingEventId(eventItem.id);
 
       try {
-        // Get pending scans from IndexedDB for this event
-        const pendingScans = await scannerDb.scanQueue
+        // Check IndexedDB for scans this event still needs to upload
+        const unsyncedCount = await scannerDb.scanQueue
           .where("eventId")
           .equals(eventItem.id)
-          .and((scan) => scan.syncStatus === "pending")
-          .toArray();
+          .and((scan) => scan.syncStatus === "pending" || scan.syncStatus === "failed")
+          .count();
 
-        if (pendingScans.length === 0) {
+        if (unsyncedCount === 0) {
           toast.info("No pending scans", {
             description: "All scans for this event have already been uploaded.",
           });
           return;
         }
 
-        // Get the cached event to retrieve session config for enriching scans
-        const cachedEvent = await scannerDb.scannerEvents.get(eventItem.id);
-        const sessionConfig = cachedEvent?.sessionConfig;
-
-        // Build session lookup map from sessionConfig
-        const sessionMap = new Map<string, {
-          period: string;
-          opens: string;
-          closes: string;
-          lateAfter: string | null;
-        }>();
-
-        if (sessionConfig?.dates) {
-          for (const dateConfig of sessionConfig.dates) {
-            for (const session of dateConfig.sessions ?? []) {
-              sessionMap.set(session.id, {
-                period: session.period,
-                opens: session.opens,
-                closes: session.closes,
-                lateAfter: session.lateAfter,
-              });
-            }
-          }
-        }
-
-        // Prepare scans for upload with enriched session info
-        const scansToUpload = pendingScans.map((scan) => {
-          const sessionInfo = scan.sessionId ? sessionMap.get(scan.sessionId) : null;
-          return {
-            id: scan.id,
-            studentId: scan.studentId,
-            qrHash: scan.qrHash,
-            scannedAt: scan.scannedAt,
-            status: scan.status,
-            reason: scan.reason,
-            sessionId: scan.sessionId,
-            sessionName: scan.sessionName,
-            sessionDirection: scan.sessionDirection,
-            sessionPeriod: sessionInfo?.period ?? null,
-            sessionOpens: sessionInfo?.opens ?? null,
-            sessionCloses: sessionInfo?.closes ?? null,
-            sessionLateAfter: sessionInfo?.lateAfter ?? null,
-          };
-        });
-
-        // Upload to server
-        const response = await fetch(`/api/sems/events/${eventItem.id}/scans`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ scans: scansToUpload }),
-        });
+        // Upload now through the sync engine (skips any backoff wait)
+        const { verdicts, totals, refusals, error: syncError } = await syncNow(eventItem.id);
 
-        let body: any = null;
-        try {
-          body = await response.json();
-        } catch {
-          body = null;
+        if (refusals.length > 0 && verdicts.length === 0) {
+          toast.error(refusals[0].message, {
+            description: `${refusals[0].scanCount} scan(s) were set aside and won't be uploaded.`,
+          });
+          return;
         }
 
-        if (!response.ok || body?.success === false) {
-          const message =
-            body?.error?.message ??
-            `Failed to upload scan data (status ${response.status}).`;
-          toast.error(message);
+        if (syncError && verdicts.length === 0) {
+          toast.error(syncError);
           return;
         }
 
-        const result = body?.data ?? body;
-        const uploadedIds = (result?.uploadedScanIds ?? []) as string[];
-
-        // Mark uploaded scans as synced in IndexedDB
-        if (uploadedIds.length > 0) {
-          await scannerDb.transaction("rw", scannerDb.scanQueue, async () => {
-            for (const scanId of uploadedIds) {
-              await scannerDb.scanQueue.update(scanId, { syncStatus: "synced" });
-            }
+        // Show what the server reconciled
+        const reconciled = verdicts.filter((verdict) => verdict.verdict !== "accepted");
+        if (reconciled.length > 0) {
+          const students = await scannerDb.allowedStudents
+            .where("eventId")
+            .equals(eventItem.id)
+            .toArray();
+          const nameById = new Map(students.map((student) => [student.studentId, student.fullName]));
+          const scans = await scannerDb.scanQueue.bulkGet(reconciled.map((verdict) => verdict.scanId));
+          const scanById = new Map(
+            scans
+              .filter((scan): scan is ScanQueueRecord => !!scan)
+              .map((scan) => [scan.id, scan])
+          );
+
+          setReconciliation({
+            eventTitle: eventItem.title,
+            items: reconciled.map((verdict) => {
+              const scan = scanById.get(verdict.scanId);
+              return {
+                scanId: verdict.scanId,
+                studentName: (scan && nameById.get(scan.studentId)) ?? scan?.studentId ?? "Unknown",
+                verdict: verdict.verdict,
+                reason: verdict.reason,
+              };
+            }),
           });
+        } else {
+          setReconciliation(null);
         }
 
         // Show success message
-        const uploaded = result?.uploaded ?? 0;
-        const duplicates = result?.duplicates ?? 0;
-        const skipped = result?.skipped ?? 0;
+        const summary =
+          `${totals.uploaded} uploaded (${totals.corrected} corrected), ` +
+          `${totals.duplicates} duplicates, ${totals.rejected} rejected`;
 
-        toast.success("Scans uploaded", {
-          description: `${uploaded} uploaded, ${duplicates} duplicates, ${skipped} skipped.`,
-        });
+        if (syncError) {
+          toast.warning("Upload partially completed", {
+            description: `${summary}. ${syncError} Remaining scans stay queued.`,
+          });
+        } else {
+          toast.success("Scans uploaded", {
+            description:
+              summary + (totals.failed > 0 ? `, ${totals.failed} will be retried.` : "."),
+          });
+        }
 
         // Refresh the events list to show updated attendance
         void loadEvents();
@@ -379,9 +430,31 @@ export default function ScannerEventsPage() {
         setUploadingEventId(null);
       }
     },
-    [loadEvents]
+    [loadEvents, syncNow]
   );
 
+  const handleSyncAll = useCallback(async () => {
+    const { totals, refusals, error: syncError } = await syncNow();
+    if (syncError) {
+      toast.error("Sync failed", { description: `${syncError} Retrying automatically.` });
+      return;
+    }
+    if (refusals.length > 0) {
+      toast.warning("Some scans were refused", {
+        description: refusals.map((refusal) => `${refusal.scanCount} scan(s): ${refusal.message}`).join(" "),
+      });
+    }
+    toast.success("Scans synced", {
+      description: `${totals.uploaded} uploaded, ${totals.duplicates} duplicates, ${totals.rejected} rejected.`,
+    });
+    void loadEvents();
+  }, [loadEvents, syncNow]);
+
+  const syncBadge =
+    syncStatus.state === "idle" && syncStatus.pendingCount > 0
+      ? { label: "Sync queued", className: SYNC_STATE_BADGES.syncing.className }
+      : SYNC_STATE_BADGES[syncStatus.state];
+
   return (
     <div className="flex-1 flex flex-col space-y-6 min-h-0">
       <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
@@ -399,8 +472,44 @@ export default function ScannerEventsPage() {
             </p>
           </div>
         </div>
+        <OfflineReadyIndicator />
       </div>
 
+      <Card className="border border-border/50">
+        <CardContent className="p-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="outline" className={syncBadge.className}>
+              {syncBadge.label}
+            </Badge>
+            <span className="text-muted-foreground">
+              {syncStatus.pendingCount.toLocaleString()} scan(s) pending
+              {syncStatus.failedCount > 0 && ` (${syncStatus.failedCount.toLocaleString()} failed)`}
+              {syncStatus.refusedCount > 0 && ` · ${syncStatus.refusedCount.toLocaleString()} refused by the server`}
+            </span>
+            <span className="text-muted-foreground">
+              · Last synced {formatSyncTime(syncStatus.lastSuccessAt)}
+            </span>
+            {syncStatus.lastError && (
+              <span className="text-red-400">
+                · {syncStatus.lastError}
+                {syncStatus.nextRetryAt && ` Next retry at ${formatSyncTime(syncStatus.nextRetryAt)}.`}
+              </span>
+            )}
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={syncStatus.state === "syncing" || syncStatus.pendingCount === 0}
+            onClick={() => {
+              void handleSyncAll();
+            }}
+          >
+            <RefreshCw className={`h-4 w-4 ${syncStatus.state === "syncing" ? "animate-spin" : ""}`} />
+            Sync now
+          </Button>
+        </CardContent>
+      </Card>
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card className="border border-border/50 border-t-4 border-t-emerald-500 shadow-sm hover:shadow-md transition-all duration-200 ease-out hover:-translate-y-0.5 bg-gradient-to-br from-emerald-500/10 via-card to-muted/10">
           <CardContent className="p-5 flex items-center justify-between">
@@ -688,6 +797,55 @@ export default function ScannerEventsPage() {
           </div>
         </CardContent>
       </Card>
+
+      {reconciliation && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-3">
+            <div>
+              <CardTitle className="text-base font-semibold text-foreground">
+                Upload reconciliation
+              </CardTitle>
+              <CardDescription className="text-sm text-muted-foreground">
+                {reconciliation.eventTitle}: scans the server corrected, rejected, or skipped as duplicates.
+              </CardDescription>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label="Dismiss reconciliation"
+              onClick={() => setReconciliation(null)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <div className="max-h-[320px] overflow-y-auto rounded-xl border border-border">
+              <Table>
+                <TableHeader className="bg-muted/60">
+                  <TableRow className="border-border">
+                    <TableHead className="text-xs font-semibold text-muted-foreground">Student</TableHead>
+                    <TableHead className="text-xs font-semibold text-muted-foreground">Result</TableHead>
+                    <TableHead className="text-xs font-semibold text-muted-foreground">Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reconciliation.items.map((item) => (
+                    <TableRow key={item.scanId} className="border-border">
+                      <TableCell className="text-sm text-foreground">{item.studentName}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`capitalize ${VERDICT_BADGE_CLASSES[item.verdict]}`}>
+                          {item.verdict}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{item.reason ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -17,6 +17,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useAuth } from "@/shared/hooks/useAuth";
+import { useSchoolBranding } from "@/shared/hooks/useSchoolBranding";
+import { LinkedStudentAttendanceHistory } from "@/components/student-attendance-history";
 
 type EventStatus = "live" | "scheduled" | "completed";
 
@@ -33,10 +35,11 @@ type EventVisibility = "internal" | "student" | "public";
 type SessionPeriod = "morning" | "afternoon" | "evening";
 type SessionDirection = "in" | "out";
 
-type StudentSessionStatus = "none" | "present" | "late";
+type StudentSessionStatus = "none" | "present" | "late" | "excused" | "absent";
 
 interface StudentEventSession {
   sessionId: string;
+  date: string | null;
   period: SessionPeriod;
   direction: SessionDirection;
   scheduledOpens: string | null;
@@ -155,6 +158,12 @@ function formatScanTime(iso: string | null): string {
   });
 }
 
+function formatSessionDate(value: string): string {
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
 function formatStudentSessionLabel(session: StudentEventSession): string {
   const periodLabel =
     session.period === "morning"
@@ -163,7 +172,9 @@ function formatStudentSessionLabel(session: StudentEventSession): string {
       ? "Afternoon"
       : "Evening";
   const directionLabel = session.direction === "in" ? "In" : "Out";
-  return `${periodLabel} ${directionLabel}`;
+  return session.date
+    ? `${formatSessionDate(session.date)} · ${periodLabel} ${directionLabel}`
+    : `${periodLabel} ${directionLabel}`;
 }
 
 function formatStudentSessionStatus(session: StudentEventSession): string {
@@ -171,6 +182,14 @@ function formatStudentSessionStatus(session: StudentEventSession): string {
     return "No scan";
   }
 
+  if (session.status === "excused") {
+    return "Excused";
+  }
+
+  if (session.status === "absent") {
+    return "Absent";
+  }
+
   const base = session.status === "present" ? "Present" : "Late";
   const time = formatScanTime(session.scannedAt);
   return time ? `${base} • ${time}` : base;
@@ -178,6 +197,7 @@ function formatStudentSessionStatus(session: StudentEventSession): string {
 
 export default function StudentEventsPage() {
   const { user, loading: authLoading } = useAuth();
+  const { schoolName } = useSchoolBranding();
   const [events, setEvents] = useState<StudentEventListItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -364,7 +384,7 @@ export default function StudentEventsPage() {
                 </div>
                 <div className="space-y-1">
                   <p className="text-xs font-medium uppercase tracking-wide text-emerald-700/80 dark:text-emerald-200">
-                    {shareEvent.visibility === "public" ? "Public event" : "Green Valley Foundation College Inc."}
+                    {shareEvent.visibility === "public" ? "Public event" : schoolName}
                   </p>
                   <p className="line-clamp-2 text-sm font-semibold text-foreground dark:text-emerald-50">
                     {shareEvent.title}
@@ -795,6 +815,8 @@ export default function StudentEventsPage() {
                                     in: 0,
                                     out: 1,
                                   };
+                                  const byDate = (a.date ?? "").localeCompare(b.date ?? "");
+                                  if (byDate !== 0) return byDate;
                                   const byPeriod = periodOrder[a.period] - periodOrder[b.period];
                                   if (byPeriod !== 0) return byPeriod;
                                   return directionOrder[a.direction] - directionOrder[b.direction];
@@ -823,6 +845,20 @@ export default function StudentEventsPage() {
             )}
           </section>
         )}
+
+        {!authLoading && isStudent && (
+          <Card className="border-border/70">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">My attendance</CardTitle>
+              <CardDescription className="text-xs">
+                Your attendance and lateness across every event you were part of.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LinkedStudentAttendanceHistory />
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
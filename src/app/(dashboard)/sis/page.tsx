@@ -12,6 +12,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Checkbox } from "@/components/ui/checkbox";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { StudentQrCredentialPanel } from "@/components/student-qr-credential-panel";
+import { StudentAttendanceHistory } from "@/components/student-attendance-history";
+import { GuardianNotificationSettings } from "@/components/guardian-notification-settings";
 
 type StudentStatus = "Active" | "Inactive" | "Pending";
 
@@ -2263,7 +2266,7 @@ export default function RegistryPage() {
           onClick={() => setIsEditGuardianDialogOpen(false)}
         >
           <div
-            className="bg-card rounded-2xl shadow-xl w-full max-w-md border border-border/50 dialog-panel-animate"
+            className="bg-card rounded-2xl shadow-xl w-full max-w-lg border border-border/50 dialog-panel-animate"
             onClick={(e) => e.stopPropagation()}
           >
             <div className="flex items-start justify-between px-6 pt-5 pb-3 border-b border-border/50">
@@ -2286,7 +2289,10 @@ export default function RegistryPage() {
               </button>
             </div>
 
-            <form onSubmit={(e) => void handleEditGuardianSubmit(e)} className="px-6 pb-5 pt-4 space-y-4">
+            <form
+              onSubmit={(e) => void handleEditGuardianSubmit(e)}
+              className="px-6 pb-5 pt-4 space-y-4 max-h-[70vh] overflow-y-auto hide-scrollbar"
+            >
               <div className="space-y-1.5">
                 <label className="block text-xs font-medium text-muted-foreground">Full Name *</label>
                 <input
@@ -2354,6 +2360,8 @@ export default function RegistryPage() {
                 </div>
               )}
 
+              <GuardianNotificationSettings guardianId={editGuardian.id} canEditTemplates />
+
               <div className="flex justify-end gap-2 pt-2">
                 <Button
                   type="button"
@@ -2707,6 +2715,10 @@ export default function RegistryPage() {
                 </div>
               </div>
 
+              <StudentQrCredentialPanel studentId={editStudent.id} />
+
+              <StudentAttendanceHistory studentId={editStudent.id} />
+
               <div className="flex items-center justify-end gap-2 pt-3 border-t border-border/50 mt-2">
                 <Button
                   type="button"
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
 import {
   Search,
   Plus,
@@ -15,6 +16,8 @@ import {
   Info,
   Mail,
   X,
+  LogOut,
+  ShieldAlert,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -62,6 +65,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
+import { RolePermissionsDialog } from "@/components/role-permissions-dialog";
 import { useAuth } from "@/shared/hooks/useAuth";
 import type { UserRole } from "@/core/auth/types";
 
@@ -167,7 +171,8 @@ const MOCK_USERS: UserListItem[] = [
 // ============================================================================
 
 export default function ManageUsersPage() {
-  const { user: currentUser, isSuperAdmin, isAdmin } = useAuth();
+  const router = useRouter();
+  const { user: currentUser, isSuperAdmin, isAdmin, can } = useAuth();
   const [users, setUsers] = useState<UserListItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
@@ -183,6 +188,7 @@ export default function ManageUsersPage() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isUpdateRoleDialogOpen, setIsUpdateRoleDialogOpen] = useState(false);
   const [isToggleStatusDialogOpen, setIsToggleStatusDialogOpen] = useState(false);
+  const [isPermissionsDialogOpen, setIsPermissionsDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserListItem | null>(null);
   const [isCreateSuccessAlertOpen, setIsCreateSuccessAlertOpen] = useState(false);
   const [lastCreatedUser, setLastCreatedUser] = useState<UserListItem | null>(null);
@@ -190,6 +196,7 @@ export default function ManageUsersPage() {
   const [isResetResultOpen, setIsResetResultOpen] = useState(false);
   const [resetTargetUser, setResetTargetUser] = useState<UserListItem | null>(null);
   const [lastResetPassword, setLastResetPassword] = useState<string | null>(null);
+  const [forceLogoutTargetUser, setForceLogoutTargetUser] = useState<UserListItem | null>(null);
 
   // Form states
   const [createForm, setCreateForm] = useState({
@@ -455,6 +462,49 @@ export default function ManageUsersPage() {
     setIsResetConfirmOpen(true);
   };
 
+  const forceLogoutUser = async () => {
+    if (!forceLogoutTargetUser) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/users/force-logout", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userId: forceLogoutTargetUser.id }),
+      });
+
+      const json = (await response.json().catch(() => null)) as
+        | {
+            success?: boolean;
+            data?: { endedSessions?: number };
+            error?: { message?: string };
+          }
+        | null;
+
+      if (!response.ok || !json?.success) {
+        const message = json?.error?.message || "Failed to sign out user";
+        toast.error(message);
+        return;
+      }
+
+      const endedSessions = json.data?.endedSessions ?? 0;
+      toast.success("User signed out", {
+        description:
+          endedSessions > 0
+            ? `Ended ${endedSessions} active session${endedSessions === 1 ? "" : "s"} for ${forceLogoutTargetUser.fullName}.`
+            : `${forceLogoutTargetUser.fullName} had no active sessions.`,
+      });
+      setForceLogoutTargetUser(null);
+    } catch (error) {
+      toast.error("Failed to sign out user");
+      console.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleUpdateRole = async () => {
     if (!selectedUser) return;
 
@@ -610,6 +660,24 @@ export default function ManageUsersPage() {
             </p>
           </div>
           <div className="flex flex-col sm:flex-row gap-2">
+            {can("security.view") && (
+              <Button
+                variant="outline"
+                onClick={() => router.push("/users/security")}
+                className="border-border text-muted-foreground hover:bg-accent gap-2"
+              >
+                <ShieldAlert className="w-4 h-4" />
+                Security Log
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => setIsPermissionsDialogOpen(true)}
+              className="border-border text-muted-foreground hover:bg-accent gap-2"
+            >
+              <Shield className="w-4 h-4" />
+              Roles &amp; Permissions
+            </Button>
             <Button
               variant="outline"
               onClick={() => setIsImportDialogOpen(true)}
@@ -763,6 +831,15 @@ export default function ManageUsersPage() {
                               <Shield className="w-4 h-4" />
                               Update Role
                             </DropdownMenuItem>
+                            {user.id !== currentUser?.id && (
+                              <DropdownMenuItem
+                                onClick={() => setForceLogoutTargetUser(user)}
+                                className="gap-2 cursor-pointer text-foreground hover:bg-primary/5 hover:text-primary focus:bg-primary/5 focus:text-primary"
+                              >
+                                <LogOut className="w-4 h-4" />
+                                Sign Out Everywhere
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuSeparator className="bg-border" />
                             <DropdownMenuItem
                               onClick={() => openToggleStatusDialog(user)}
@@ -1130,6 +1207,49 @@ export default function ManageUsersPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Force Logout Confirm Alert */}
+      <AlertDialog
+        open={forceLogoutTargetUser !== null}
+        onOpenChange={(open) => {
+          if (!open) setForceLogoutTargetUser(null);
+        }}
+      >
+        <AlertDialogContent className="sm:max-w-md bg-card rounded-xl border border-border shadow-xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-base font-semibold text-foreground">
+              Sign out everywhere?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="mt-1 text-sm text-muted-foreground">
+              {forceLogoutTargetUser ? (
+                <>
+                  This will end every active session for
+                  {" "}
+                  <span className="font-medium text-foreground">
+                    {forceLogoutTargetUser.fullName}
+                  </span>
+                  . They will need to sign in again on each device.
+                </>
+              ) : (
+                <>This will end every active session for the selected user.</>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="mt-6">
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                void forceLogoutUser();
+              }}
+              disabled={isSubmitting}
+              className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground shadow-sm hover:bg-primary/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+            >
+              {isSubmitting ? "Signing out..." : "Sign out"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Reset Password Result Alert */}
       <AlertDialog open={isResetResultOpen} onOpenChange={setIsResetResultOpen}>
         <AlertDialogContent className="sm:max-w-md bg-card rounded-xl border border-border shadow-xl">
@@ -1409,6 +1529,13 @@ export default function ManageUsersPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RolePermissionsDialog
+        open={isPermissionsDialogOpen}
+        onOpenChange={setIsPermissionsDialogOpen}
+        canEdit={can("permissions.manage")}
+        roleLabels={Object.fromEntries(ROLE_OPTIONS.map((option) => [option.value, option.label]))}
+      />
     </div>
   );
 }
@@ -0,0 +1,390 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Loader2, RefreshCw, Search } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SecurityEventDto, SecurityEventType } from "@/core/auth/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SecurityEventsResponse {
+  events: SecurityEventDto[];
+  pagination: {
+    total: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  };
+}
+
+interface Filters {
+  email: string;
+  type: SecurityEventType | "all";
+  ip: string;
+  fromDate: string;
+  toDate: string;
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: Filters = { email: "", type: "all", ip: "", fromDate: "", toDate: "" };
+
+const EVENT_TYPE_OPTIONS: { value: SecurityEventType; label: string; className: string }[] = [
+  {
+    value: "LOGIN_SUCCEEDED",
+    label: "Signed in",
+    className: "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800",
+  },
+  {
+    value: "LOGIN_FAILED",
+    label: "Sign-in failed",
+    className: "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800",
+  },
+  {
+    value: "LOGIN_BLOCKED",
+    label: "Sign-in refused",
+    className: "bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-800",
+  },
+  {
+    value: "ACCOUNT_LOCKED",
+    label: "Locked out",
+    className: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800",
+  },
+  {
+    value: "PASSWORD_RESET",
+    label: "Password reset",
+    className: "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800",
+  },
+  {
+    value: "ROLES_CHANGED",
+    label: "Roles changed",
+    className: "bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 border-purple-200 dark:border-purple-800",
+  },
+];
+
+const FAILURE_REASONS: Record<string, string> = {
+  INVALID_CREDENTIALS: "Wrong email or password",
+  ACCOUNT_NOT_FOUND: "Account not set up",
+  ACCOUNT_INACTIVE: "Account inactive",
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatDateTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "medium" });
+}
+
+function formatRoles(value: unknown): string {
+  const roles = (value as { roles?: unknown } | null)?.roles;
+  return Array.isArray(roles) ? roles.map((role) => String(role).replace("_", " ")).join(", ") : "";
+}
+
+function describeEvent(event: SecurityEventDto): string {
+  const details = event.details;
+  switch (event.type) {
+    case "LOGIN_FAILED":
+      return FAILURE_REASONS[String(details.reason)] ?? "";
+    case "LOGIN_BLOCKED":
+    case "ACCOUNT_LOCKED": {
+      const scope = details.scope === "ip" ? "IP address" : "Account";
+      const seconds = Number(details.retryAfterSeconds ?? details.lockoutSeconds);
+      if (!Number.isFinite(seconds)) return scope;
+      return seconds >= 60 ? `${scope}, ${Math.ceil(seconds / 60)} min` : `${scope}, ${seconds}s`;
+    }
+    case "ROLES_CHANGED":
+      return `${formatRoles(details.from)} → ${formatRoles(details.to)}`;
+    default:
+      return "";
+  }
+}
+
+/** Start of the given local day, or end of it when `endOfDay` */
+function toTimestamp(date: string, endOfDay: boolean): string | null {
+  if (!date) return null;
+  const value = new Date(`${date}T${endOfDay ? "23:59:59.999" : "00:00:00"}`);
+  return Number.isNaN(value.getTime()) ? null : value.toISOString();
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function SecurityLogPage() {
+  const router = useRouter();
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<SecurityEventsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (appliedFilters.email.trim()) params.set("email", appliedFilters.email.trim());
+      if (appliedFilters.type !== "all") params.set("type", appliedFilters.type);
+      if (appliedFilters.ip.trim()) params.set("ip", appliedFilters.ip.trim());
+      const from = toTimestamp(appliedFilters.fromDate, false);
+      const to = toTimestamp(appliedFilters.toDate, true);
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+
+      const response = await fetch(`/api/users/security-events?${params.toString()}`);
+      const json = (await response.json().catch(() => null)) as
+        | {
+            success?: boolean;
+            data?: SecurityEventsResponse;
+            error?: { message?: string };
+          }
+        | null;
+
+      if (!response.ok || !json?.success || !json.data) {
+        toast.error(json?.error?.message || "Failed to load security log");
+        return;
+      }
+
+      setResult(json.data);
+    } catch (error) {
+      toast.error("Failed to load security log");
+      console.error(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    void loadEvents();
+  }, [loadEvents]);
+
+  const applyFilters = () => {
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  const events = result?.events ?? [];
+  const totalPages = result?.pagination.totalPages ?? 1;
+
+  return (
+    <div className="flex-1 overflow-auto bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 lg:p-8 max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Security Log</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Sign-ins, failed attempts, lockouts, password resets and role changes
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button
+              variant="outline"
+              onClick={() => router.push("/users")}
+              className="border-border text-muted-foreground hover:bg-accent gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Manage Users
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => void loadEvents()}
+              disabled={isLoading}
+              className="border-border text-muted-foreground hover:bg-accent gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <form
+          className="flex flex-col lg:flex-row gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilters();
+          }}
+        >
+          <div className="relative flex-1 max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground/70" />
+            <Input
+              placeholder="Search by email..."
+              value={filters.email}
+              onChange={(e) => setFilters((prev) => ({ ...prev, email: e.target.value }))}
+              className="pl-9 bg-card border-border focus:border-primary focus:ring-primary/20"
+            />
+          </div>
+          <Select
+            value={filters.type}
+            onValueChange={(value) => setFilters((prev) => ({ ...prev, type: value as Filters["type"] }))}
+          >
+            <SelectTrigger className="w-full lg:w-[170px] bg-card border-border">
+              <SelectValue placeholder="All Events" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Events</SelectItem>
+              {EVENT_TYPE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="IP address"
+            value={filters.ip}
+            onChange={(e) => setFilters((prev) => ({ ...prev, ip: e.target.value }))}
+            className="w-full lg:w-[150px] bg-card border-border"
+          />
+          <Input
+            type="date"
+            aria-label="From date"
+            value={filters.fromDate}
+            max={filters.toDate || undefined}
+            onChange={(e) => setFilters((prev) => ({ ...prev, fromDate: e.target.value }))}
+            className="w-full lg:w-[150px] bg-card border-border"
+          />
+          <Input
+            type="date"
+            aria-label="To date"
+            value={filters.toDate}
+            min={filters.fromDate || undefined}
+            onChange={(e) => setFilters((prev) => ({ ...prev, toDate: e.target.value }))}
+            className="w-full lg:w-[150px] bg-card border-border"
+          />
+          <div className="flex gap-2">
+            <Button type="submit" className="bg-primary hover:bg-primary/90 text-primary-foreground">
+              Search
+            </Button>
+            <Button type="button" variant="ghost" onClick={clearFilters}>
+              Clear
+            </Button>
+          </div>
+        </form>
+
+        {/* Events Table */}
+        <div className="bg-card rounded-xl border border-border shadow-sm flex flex-col max-h-[calc(100vh-280px)]">
+          <div className="px-4 py-4 sm:px-6 overflow-y-auto flex-1">
+            <Table>
+              <TableHeader className="sticky top-0 z-10">
+                <TableRow className="bg-muted">
+                  <TableHead className="font-semibold text-foreground bg-muted">Time</TableHead>
+                  <TableHead className="font-semibold text-foreground bg-muted">Event</TableHead>
+                  <TableHead className="font-semibold text-foreground bg-muted">Account</TableHead>
+                  <TableHead className="font-semibold text-foreground bg-muted hidden md:table-cell">
+                    IP Address
+                  </TableHead>
+                  <TableHead className="font-semibold text-foreground bg-muted hidden lg:table-cell">
+                    Details
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && events.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-12">
+                      <div className="flex items-center justify-center gap-2 text-muted-foreground">
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                        <span>Loading security log...</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : events.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-12">
+                      <p className="text-muted-foreground">No security events found</p>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  events.map((event) => {
+                    const typeOption = EVENT_TYPE_OPTIONS.find((option) => option.value === event.type);
+                    return (
+                      <TableRow key={event.id} className="hover:bg-accent">
+                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                          {formatDateTime(event.createdAt)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={`text-xs font-medium ${typeOption?.className ?? ""}`}>
+                            {typeOption?.label ?? event.type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm font-medium text-foreground">{event.email ?? "—"}</p>
+                          {event.actorName && (
+                            <p className="text-xs text-muted-foreground">by {event.actorName}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                          {event.ipAddress ?? "—"}
+                        </TableCell>
+                        <TableCell className="hidden lg:table-cell text-sm text-muted-foreground">
+                          {describeEvent(event)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="flex items-center justify-between gap-3 border-t border-border px-4 py-3 sm:px-6">
+            <p className="text-sm text-muted-foreground">
+              {result ? `${result.pagination.total} event${result.pagination.total === 1 ? "" : "s"}` : ""}
+            </p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                disabled={isLoading || page <= 1}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((prev) => prev + 1)}
+                disabled={isLoading || page >= totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
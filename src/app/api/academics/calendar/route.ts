@@ -0,0 +1,40 @@
+/**
+ * API Route: /api/academics/calendar
+ *
+ * School calendar for a date range.
+ *
+ * @remarks
+ * - GET `?from=YYYY-MM-DD&to=YYYY-MM-DD`: school years (with terms),
+ *   holidays and suspensions overlapping the range, and every non-school day
+ *   in it. Used by the dashboard and SEMS calendars
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { createSchoolCalendarService, mapCalendarError } from "../utils";
+
+/**
+ * GET /api/academics/calendar
+ *
+ * Returns `{ calendar }`.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.view");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const from = request.nextUrl.searchParams.get("from");
+  const to = request.nextUrl.searchParams.get("to");
+  if (!from || !to) {
+    return formatError(400, "INVALID_REQUEST", "from and to dates are required.");
+  }
+
+  try {
+    const calendar = await createSchoolCalendarService(authResult.appUser.schoolId).getCalendar(from, to);
+    return formatSuccess({ calendar });
+  } catch (error) {
+    return mapCalendarError(error, "GET /api/academics/calendar");
+  }
+}
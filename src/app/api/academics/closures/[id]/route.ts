@@ -0,0 +1,84 @@
+/**
+ * API Route: /api/academics/closures/[id]
+ *
+ * A single holiday or class suspension (admins only).
+ *
+ * @remarks
+ * - PATCH: change any field; omitted fields are kept
+ * - DELETE: remove the closure
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import type { SchoolClosureInput } from "@/modules/academics";
+import { buildActorContext, formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { UUID_REGEX, createSchoolCalendarService, mapCalendarError } from "../../utils";
+
+/**
+ * PATCH /api/academics/closures/[id]
+ *
+ * Body: any of `{ kind, name, startDate, endDate, notes }`. Returns `{ closure }`.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid closure ID format.");
+  }
+
+  const body = (await request.json().catch(() => null)) as Partial<SchoolClosureInput> | null;
+  if (!body || typeof body !== "object") {
+    return formatError(400, "INVALID_REQUEST", "Request body is required.");
+  }
+
+  try {
+    const closure = await createSchoolCalendarService(authResult.appUser.schoolId).updateClosure(
+      id,
+      {
+        kind: body.kind,
+        name: typeof body.name === "string" ? body.name : undefined,
+        startDate: typeof body.startDate === "string" ? body.startDate : undefined,
+        endDate: typeof body.endDate === "string" ? body.endDate : undefined,
+        notes: typeof body.notes === "string" || body.notes === null ? body.notes : undefined,
+      },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ closure });
+  } catch (error) {
+    return mapCalendarError(error, "PATCH /api/academics/closures/[id]");
+  }
+}
+
+/**
+ * DELETE /api/academics/closures/[id]
+ *
+ * Returns `{ deleted: true }`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid closure ID format.");
+  }
+
+  try {
+    await createSchoolCalendarService(authResult.appUser.schoolId).deleteClosure(id);
+    return formatSuccess({ deleted: true });
+  } catch (error) {
+    return mapCalendarError(error, "DELETE /api/academics/closures/[id]");
+  }
+}
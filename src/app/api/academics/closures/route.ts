@@ -0,0 +1,80 @@
+/**
+ * API Route: /api/academics/closures
+ *
+ * Holidays and class suspensions.
+ *
+ * @remarks
+ * - GET `?from=YYYY-MM-DD&to=YYYY-MM-DD`: closures overlapping the range
+ * - POST: record a holiday or suspension (admins only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
+import type { SchoolClosureInput } from "@/modules/academics";
+import { buildActorContext, formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { createSchoolCalendarService, mapCalendarError } from "../utils";
+
+/**
+ * GET /api/academics/closures
+ *
+ * Returns `{ closures }`.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.view");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const from = request.nextUrl.searchParams.get("from");
+  const to = request.nextUrl.searchParams.get("to");
+  if (!from || !to) {
+    return formatError(400, "INVALID_REQUEST", "from and to dates are required.");
+  }
+
+  try {
+    const closures = await createSchoolCalendarService(authResult.appUser.schoolId).listClosures(from, to);
+    return formatSuccess({ closures });
+  } catch (error) {
+    return mapCalendarError(error, "GET /api/academics/closures");
+  }
+}
+
+/**
+ * POST /api/academics/closures
+ *
+ * Body: `{ kind: "holiday" | "suspension", name, startDate, endDate, notes? }`.
+ * Returns `{ closure }`.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
+  const body = (await request.json().catch(() => null)) as Partial<SchoolClosureInput> | null;
+  if (!body || typeof body !== "object") {
+    return formatError(400, "INVALID_REQUEST", "Request body is required.");
+  }
+
+  try {
+    const closure = await createSchoolCalendarService(schoolResult.schoolId).createClosure(
+      {
+        // Checked by the service
+        kind: body.kind as SchoolClosureInput["kind"],
+        name: typeof body.name === "string" ? body.name : "",
+        startDate: typeof body.startDate === "string" ? body.startDate : "",
+        endDate: typeof body.endDate === "string" ? body.endDate : "",
+        notes: typeof body.notes === "string" ? body.notes : null,
+      },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ closure }, 201);
+  } catch (error) {
+    return mapCalendarError(error, "POST /api/academics/closures");
+  }
+}
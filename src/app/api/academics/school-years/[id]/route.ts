@@ -0,0 +1,83 @@
+/**
+ * API Route: /api/academics/school-years/[id]
+ *
+ * A single school year (admins only).
+ *
+ * @remarks
+ * - PATCH: change the name, dates or current flag; omitted fields are kept
+ * - DELETE: remove the year and its terms
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import type { SchoolYearInput } from "@/modules/academics";
+import { buildActorContext, formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { UUID_REGEX, createSchoolCalendarService, mapCalendarError } from "../../utils";
+
+/**
+ * PATCH /api/academics/school-years/[id]
+ *
+ * Body: any of `{ name, startDate, endDate, isCurrent }`. Returns `{ schoolYear }`.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid school year ID format.");
+  }
+
+  const body = (await request.json().catch(() => null)) as Partial<SchoolYearInput> | null;
+  if (!body || typeof body !== "object") {
+    return formatError(400, "INVALID_REQUEST", "Request body is required.");
+  }
+
+  try {
+    const schoolYear = await createSchoolCalendarService(authResult.appUser.schoolId).updateSchoolYear(
+      id,
+      {
+        name: typeof body.name === "string" ? body.name : undefined,
+        startDate: typeof body.startDate === "string" ? body.startDate : undefined,
+        endDate: typeof body.endDate === "string" ? body.endDate : undefined,
+        isCurrent: typeof body.isCurrent === "boolean" ? body.isCurrent : undefined,
+      },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ schoolYear });
+  } catch (error) {
+    return mapCalendarError(error, "PATCH /api/academics/school-years/[id]");
+  }
+}
+
+/**
+ * DELETE /api/academics/school-years/[id]
+ *
+ * Returns `{ deleted: true }`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid school year ID format.");
+  }
+
+  try {
+    await createSchoolCalendarService(authResult.appUser.schoolId).deleteSchoolYear(id);
+    return formatSuccess({ deleted: true });
+  } catch (error) {
+    return mapCalendarError(error, "DELETE /api/academics/school-years/[id]");
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * API Route: /api/academics/school-years/[id]/terms
+ *
+ * Terms (quarters, semesters) of a school year.
+ *
+ * @remarks
+ * - POST: add a term (admins only); it must fall within the year and not
+ *   overlap another term
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
+import type { SchoolTermInput } from "@/modules/academics";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { UUID_REGEX, createSchoolCalendarService, mapCalendarError } from "../../../utils";
+
+/**
+ * POST /api/academics/school-years/[id]/terms
+ *
+ * Body: `{ name, startDate, endDate }`. Returns `{ term }`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid school year ID format.");
+  }
+
+  const body = (await request.json().catch(() => null)) as Partial<SchoolTermInput> | null;
+  if (!body || typeof body !== "object") {
+    return formatError(400, "INVALID_REQUEST", "Request body is required.");
+  }
+
+  try {
+    const term = await createSchoolCalendarService(schoolResult.schoolId).createTerm(id, {
+      name: typeof body.name === "string" ? body.name : "",
+      startDate: typeof body.startDate === "string" ? body.startDate : "",
+      endDate: typeof body.endDate === "string" ? body.endDate : "",
+    });
+    return formatSuccess({ term }, 201);
+  } catch (error) {
+    return mapCalendarError(error, "POST /api/academics/school-years/[id]/terms");
+  }
+}
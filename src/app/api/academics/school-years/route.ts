@@ -0,0 +1,72 @@
+/**
+ * API Route: /api/academics/school-years
+ *
+ * School years and their terms.
+ *
+ * @remarks
+ * - GET: every school year with its terms, oldest first
+ * - POST: create a school year (admins only); `isCurrent: true` makes it
+ *   the only current year
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
+import type { SchoolYearInput } from "@/modules/academics";
+import { buildActorContext, formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { createSchoolCalendarService, mapCalendarError } from "../utils";
+
+/**
+ * GET /api/academics/school-years
+ *
+ * Returns `{ schoolYears }`.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.view");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  try {
+    const schoolYears = await createSchoolCalendarService(authResult.appUser.schoolId).listSchoolYears();
+    return formatSuccess({ schoolYears });
+  } catch (error) {
+    return mapCalendarError(error, "GET /api/academics/school-years");
+  }
+}
+
+/**
+ * POST /api/academics/school-years
+ *
+ * Body: `{ name, startDate, endDate, isCurrent? }`. Returns `{ schoolYear }`.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
+  const body = (await request.json().catch(() => null)) as Partial<SchoolYearInput> | null;
+  if (!body || typeof body !== "object") {
+    return formatError(400, "INVALID_REQUEST", "Request body is required.");
+  }
+
+  try {
+    const schoolYear = await createSchoolCalendarService(schoolResult.schoolId).createSchoolYear(
+      {
+        name: typeof body.name === "string" ? body.name : "",
+        startDate: typeof body.startDate === "string" ? body.startDate : "",
+        endDate: typeof body.endDate === "string" ? body.endDate : "",
+        isCurrent: body.isCurrent === true,
+      },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ schoolYear }, 201);
+  } catch (error) {
+    return mapCalendarError(error, "POST /api/academics/school-years");
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * API Route: /api/academics/terms/[id]
+ *
+ * A single school term (admins only).
+ *
+ * @remarks
+ * - PATCH: change the name or dates; omitted fields are kept
+ * - DELETE: remove the term
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import type { SchoolTermInput } from "@/modules/academics";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { UUID_REGEX, createSchoolCalendarService, mapCalendarError } from "../../utils";
+
+/**
+ * PATCH /api/academics/terms/[id]
+ *
+ * Body: any of `{ name, startDate, endDate }`. Returns `{ term }`.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid term ID format.");
+  }
+
+  const body = (await request.json().catch(() => null)) as Partial<SchoolTermInput> | null;
+  if (!body || typeof body !== "object") {
+    return formatError(400, "INVALID_REQUEST", "Request body is required.");
+  }
+
+  try {
+    const term = await createSchoolCalendarService(authResult.appUser.schoolId).updateTerm(id, {
+      name: typeof body.name === "string" ? body.name : undefined,
+      startDate: typeof body.startDate === "string" ? body.startDate : undefined,
+      endDate: typeof body.endDate === "string" ? body.endDate : undefined,
+    });
+    return formatSuccess({ term });
+  } catch (error) {
+    return mapCalendarError(error, "PATCH /api/academics/terms/[id]");
+  }
+}
+
+/**
+ * DELETE /api/academics/terms/[id]
+ *
+ * Returns `{ deleted: true }`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "academics.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid term ID format.");
+  }
+
+  try {
+    await createSchoolCalendarService(authResult.appUser.schoolId).deleteTerm(id);
+    return formatSuccess({ deleted: true });
+  } catch (error) {
+    return mapCalendarError(error, "DELETE /api/academics/terms/[id]");
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import type { SchoolScope } from "@/core/db/school-scope";
+import { SchoolCalendarRepository, SchoolCalendarService } from "@/modules/academics";
+import { BusinessRuleError, NotFoundError, ValidationError } from "@/modules/sems";
+import { formatError } from "@/app/api/sems/events/utils";
+
+export const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function createSchoolCalendarService(schoolId: SchoolScope): SchoolCalendarService {
+  return new SchoolCalendarService(new SchoolCalendarRepository(getAdminSupabaseClient(), schoolId));
+}
+
+/**
+ * Map SchoolCalendarService errors to responses; anything unexpected is logged as a 500.
+ */
+export function mapCalendarError(error: unknown, route: string): NextResponse {
+  if (error instanceof ValidationError) {
+    return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+  }
+  if (error instanceof NotFoundError) {
+    return formatError(404, "NOT_FOUND", error.message, { resource: error.resource, id: error.id });
+  }
+  if (error instanceof BusinessRuleError) {
+    return formatError(409, "BUSINESS_RULE_VIOLATION", error.message);
+  }
+  console.error(`[${route}] Unexpected error:`, error);
+  return formatError(
+    500,
+    "SCHOOL_CALENDAR_FAILED",
+    "Unable to process the school calendar.",
+    error instanceof Error ? error.message : "Unknown error"
+  );
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import type { AuthUser, UserRole } from "@/core/auth/types";
+import { resolvePermissions } from "@/core/auth/role-permissions";
+import { setSessionTokenCookie } from "@/core/auth/session-token";
+import { createUserSession, getAuthSessionId, getClientIp } from "@/core/auth/user-sessions";
+import { checkLoginAllowed, clearLoginFailures, recordLoginFailure, type LoginBlock } from "@/core/auth/login-rate-limit";
+import { recordSecurityEvent } from "@/core/auth/security-events";
 
 function formatSuccess<T>(data: T) {
   return {
@@ -29,6 +34,38 @@ function formatError(status: number, code: string, message: string, details?: un
   );
 }
 
+function formatBlocked(block: LoginBlock) {
+  const minutes = Math.ceil(block.retryAfterSeconds / 60);
+  const response = block.locked
+    ? formatError(
+        429,
+        "ACCOUNT_LOCKED",
+        `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+        { retryAfterSeconds: block.retryAfterSeconds }
+      )
+    : formatError(
+        429,
+        "TOO_MANY_ATTEMPTS",
+        `Please wait ${block.retryAfterSeconds} second${block.retryAfterSeconds === 1 ? "" : "s"} before trying again.`,
+        { retryAfterSeconds: block.retryAfterSeconds }
+      );
+  response.headers.set("Retry-After", String(block.retryAfterSeconds));
+  return response;
+}
+
+/**
+ * The account an email belongs to, so failed sign-ins show up in its school's
+ * security log. Failed lookups are ignored.
+ */
+async function findAccountByEmail(email: string): Promise<{ id: string; school_id: string | null } | null> {
+  const { data } = await getAdminSupabaseClient()
+    .from("app_users")
+    .select("id, school_id")
+    .eq("email", email)
+    .maybeSingle<{ id: string; school_id: string | null }>();
+  return data ?? null;
+}
+
 interface AppUserRow {
   id: string;
   email: string;
@@ -49,6 +86,23 @@ export async function POST(request: NextRequest) {
     return formatError(400, "VALIDATION_ERROR", "Email and password are required.");
   }
 
+  const ipAddress = getClientIp(request);
+  const block = await checkLoginAllowed(email, ipAddress);
+  if (block) {
+    const account = await findAccountByEmail(email);
+    await recordSecurityEvent(
+      {
+        type: "LOGIN_BLOCKED",
+        userId: account?.id,
+        email,
+        schoolId: account?.school_id,
+        details: { scope: block.scope, locked: block.locked, retryAfterSeconds: block.retryAfterSeconds },
+      },
+      request
+    );
+    return formatBlocked(block);
+  }
+
   const supabase = getAdminSupabaseClient();
 
   let authResult;
@@ -73,10 +127,34 @@ export async function POST(request: NextRequest) {
   }
 
   if (authError || !authResult?.session || !authResult.user) {
+    const [account, lockout] = await Promise.all([findAccountByEmail(email), recordLoginFailure(email, ipAddress)]);
+    await recordSecurityEvent(
+      {
+        type: "LOGIN_FAILED",
+        userId: account?.id,
+        email,
+        schoolId: account?.school_id,
+        details: { reason: "INVALID_CREDENTIALS" },
+      },
+      request
+    );
+    if (lockout) {
+      await recordSecurityEvent(
+        {
+          type: "ACCOUNT_LOCKED",
+          userId: account?.id,
+          email,
+          schoolId: account?.school_id,
+          details: { scope: lockout.scope, lockoutSeconds: lockout.retryAfterSeconds },
+        },
+        request
+      );
+    }
     return formatError(401, "INVALID_CREDENTIALS", "Invalid email or password.");
   }
 
   const userId = authResult.user.id;
+  await clearLoginFailures(email);
 
   const { data: appUser, error: appUserError } = await supabase
     .from("app_users")
@@ -90,6 +168,10 @@ export async function POST(request: NextRequest) {
       appUserError,
       appUser,
     });
+    await recordSecurityEvent(
+      { type: "LOGIN_FAILED", email, details: { reason: "ACCOUNT_NOT_FOUND", authUserId: userId } },
+      request
+    );
     return formatError(
       403,
       "ACCOUNT_NOT_FOUND",
@@ -99,6 +181,10 @@ export async function POST(request: NextRequest) {
   }
 
   if (!appUser.is_active) {
+    await recordSecurityEvent(
+      { type: "LOGIN_FAILED", userId, email, schoolId: appUser.school_id, details: { reason: "ACCOUNT_INACTIVE" } },
+      request
+    );
     return formatError(403, "ACCOUNT_INACTIVE", "Your account is inactive. Contact the Super Admin.");
   }
 
@@ -115,6 +201,7 @@ export async function POST(request: NextRequest) {
     fullName: appUser.full_name ?? appUser.email,
     roles,
     primaryRole,
+    permissions: await resolvePermissions(roles),
     schoolId: appUser.school_id,
     isActive: Boolean(appUser.is_active),
   };
@@ -147,16 +234,22 @@ export async function POST(request: NextRequest) {
   const accessToken = authResult.session.access_token;
   const refreshToken = authResult.session.refresh_token;
 
-  const response = NextResponse.json(
-    formatSuccess({
-      user,
-      session: {
-        access_token: accessToken,
-        refresh_token: refreshToken,
-      },
-    })
+  let userSession;
+  try {
+    userSession = await createUserSession(user.id, request, getAuthSessionId(accessToken));
+  } catch {
+    return formatError(500, "SESSION_CREATE_FAILED", "Unable to start your session. Please try again.");
+  }
+
+  await recordSecurityEvent(
+    { type: "LOGIN_SUCCEEDED", userId, email, schoolId: user.schoolId, details: { sessionId: userSession.id } },
+    request
   );
 
+  // Tokens stay in HTTP-only cookies; handing them to the page would let
+  // them be used outside the server-side session
+  const response = NextResponse.json(formatSuccess({ user }));
+
   const twelveHoursInSeconds = 60 * 60 * 12;
   const secure = process.env.NODE_ENV === "production";
 
@@ -184,13 +277,8 @@ export async function POST(request: NextRequest) {
     maxAge: twelveHoursInSeconds,
   });
 
-  response.cookies.set("user-roles", JSON.stringify(user.roles), {
-    httpOnly: true,
-    secure,
-    sameSite: "lax",
-    path: "/",
-    maxAge: twelveHoursInSeconds,
-  });
+  // Signed roles for middleware; a plain roles cookie could be edited by the client
+  await setSessionTokenCookie(response, user.id, user.roles, userSession);
 
   if (user.schoolId) {
     response.cookies.set("school-id", user.schoolId, {
@@ -1,4 +1,6 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_TOKEN_COOKIE, verifySessionToken } from "@/core/auth/session-token";
+import { revokeUserSessions } from "@/core/auth/user-sessions";
 
 function formatSuccess<T>(data: T) {
   return {
@@ -10,7 +12,16 @@ function formatSuccess<T>(data: T) {
   };
 }
 
-export async function POST() {
+export async function POST(request: NextRequest) {
+  // End the server-side session; cookies are cleared below either way
+  const sessionToken = request.cookies.get(SESSION_TOKEN_COOKIE)?.value;
+  const claims = sessionToken ? await verifySessionToken(sessionToken) : null;
+  if (claims) {
+    await revokeUserSessions({ userId: claims.userId, sessionId: claims.sessionId }, "SIGNED_OUT", claims.userId).catch(
+      (error: unknown) => console.error("[/api/auth/logout] Failed to end session", error)
+    );
+  }
+
   const response = NextResponse.json(
     formatSuccess({ message: "Logout successful" })
   );
@@ -26,6 +37,8 @@ export async function POST() {
   response.cookies.set("auth-token", "", cookieOptions);
   response.cookies.set("refresh-token", "", cookieOptions);
   response.cookies.set("user-id", "", cookieOptions);
+  response.cookies.set(SESSION_TOKEN_COOKIE, "", cookieOptions);
+  // Issued before session tokens replaced it
   response.cookies.set("user-roles", "", cookieOptions);
   response.cookies.set("school-id", "", cookieOptions);
 
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import type { AuthUser, UserRole } from "@/core/auth/types";
+import { resolvePermissions } from "@/core/auth/role-permissions";
+import { requireRoles } from "@/core/auth/server-role-guard";
+import { getSessionTiming, resolveRequestSession, touchUserSession } from "@/core/auth/user-sessions";
 
 function formatSuccess<T>(data: T) {
   return {
@@ -39,16 +42,7 @@ interface AppUserRow {
 }
 
 function getAccessTokenFromRequest(request: NextRequest): string | null {
-  const authHeader =
-    request.headers.get("authorization") ?? request.headers.get("Authorization");
-
-  if (authHeader?.startsWith("Bearer ")) {
-    return authHeader.slice("Bearer ".length).trim() || null;
-  }
-
-  const cookieToken = request.cookies.get("auth-token")?.value;
-
-  return cookieToken ?? null;
+  return request.cookies.get("auth-token")?.value ?? null;
 }
 
 function getRefreshTokenFromRequest(request: NextRequest): string | null {
@@ -88,6 +82,12 @@ export async function GET(request: NextRequest) {
     return formatError(401, "UNAUTHENTICATED", "Not authenticated.");
   }
 
+  // The server-side session must still be running before tokens are refreshed
+  const resolved = await resolveRequestSession(request);
+  if (!resolved) {
+    return formatError(401, "SESSION_EXPIRED", "Your session has ended. Please log in again.");
+  }
+
   const supabase = getAdminSupabaseClient();
 
   let userId: string;
@@ -160,11 +160,19 @@ export async function GET(request: NextRequest) {
     fullName: appUser.full_name ?? appUser.email,
     roles,
     primaryRole,
+    permissions: await resolvePermissions(roles),
     schoolId: appUser.school_id,
     isActive: Boolean(appUser.is_active),
   };
 
-  const response = NextResponse.json(formatSuccess({ user: authUser }));
+  if (resolved.claims.userId !== authUser.id) {
+    return formatError(401, "SESSION_EXPIRED", "Your session has ended. Please log in again.");
+  }
+
+  // Polling this endpoint is not activity, so the idle timeout keeps running
+  const response = NextResponse.json(
+    formatSuccess({ user: authUser, session: getSessionTiming(resolved.session) })
+  );
 
   // If tokens were refreshed, update the cookies
   if (newAccessToken && newRefreshToken) {
@@ -173,3 +181,23 @@ export async function GET(request: NextRequest) {
 
   return response;
 }
+
+/**
+ * POST /api/auth/session
+ *
+ * Records user activity on the current session, pushing back its idle
+ * timeout. Sent by the browser while someone is using the app.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireRoles(request, []);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const session = await touchUserSession(authResult.session.id);
+  if (!session) {
+    return formatError(401, "SESSION_EXPIRED", "Your session has ended. Please log in again.");
+  }
+
+  return NextResponse.json(formatSuccess({ session: getSessionTiming(session) }));
+}
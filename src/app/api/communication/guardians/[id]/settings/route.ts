@@ -0,0 +1,114 @@
+/**
+ * API Route: /api/communication/guardians/[id]/settings
+ *
+ * A guardian's attendance notification opt-outs and message templates.
+ *
+ * @remarks
+ * - GET: effective preferences and templates for every notice and channel
+ * - PUT: `{ preferences?, templates? }`; a template with `body: null`
+ *   removes the guardian's override
+ * - Holders of guardians.manage manage any parent account; a parent manages
+ *   their own opt-outs. Template overrides need guardians.manage. Both are
+ *   checked by NotificationSettingsService
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { requireRoles } from "@/core/auth/server-role-guard";
+import { BusinessRuleError, NotFoundError, ValidationError } from "@/modules/sems";
+import {
+  NotificationSettingsRepository,
+  NotificationSettingsService,
+  type UpdateGuardianNotificationSettingsInput,
+} from "@/modules/communication";
+import { buildActorContext, formatError, formatSuccess } from "@/app/api/sems/events/utils";
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function mapServiceError(error: unknown, route: string): NextResponse {
+  if (error instanceof ValidationError) {
+    return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+  }
+  if (error instanceof NotFoundError) {
+    return formatError(404, "GUARDIAN_NOT_FOUND", "Guardian not found.");
+  }
+  if (error instanceof BusinessRuleError) {
+    return formatError(403, "FORBIDDEN", error.message);
+  }
+  console.error(`[${route}] Unexpected error:`, error);
+  return formatError(500, "NOTIFICATION_SETTINGS_FAILED", "Unable to process notification settings.");
+}
+
+/**
+ * GET /api/communication/guardians/[id]/settings
+ *
+ * Returns `{ settings }`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requireRoles(request, []);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !uuidRegex.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid guardian ID format.");
+  }
+
+  const service = new NotificationSettingsService(new NotificationSettingsRepository(getAdminSupabaseClient(), authResult.appUser.schoolId));
+
+  try {
+    const settings = await service.getSettings(id, buildActorContext(authResult.appUser));
+    return formatSuccess({ settings });
+  } catch (error) {
+    return mapServiceError(error, "GET /api/communication/guardians/[id]/settings");
+  }
+}
+
+/**
+ * PUT /api/communication/guardians/[id]/settings
+ *
+ * Returns the updated `{ settings }`.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requireRoles(request, []);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !uuidRegex.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid guardian ID format.");
+  }
+
+  let body: UpdateGuardianNotificationSettingsInput;
+  try {
+    body = (await request.json()) as UpdateGuardianNotificationSettingsInput;
+  } catch {
+    return formatError(400, "INVALID_JSON", "Request body must be valid JSON.");
+  }
+
+  if (
+    !body ||
+    typeof body !== "object" ||
+    (body.preferences !== undefined && !Array.isArray(body.preferences)) ||
+    (body.templates !== undefined && !Array.isArray(body.templates))
+  ) {
+    return formatError(400, "VALIDATION_ERROR", "preferences and templates must be arrays.");
+  }
+
+  const service = new NotificationSettingsService(new NotificationSettingsRepository(getAdminSupabaseClient(), authResult.appUser.schoolId));
+
+  try {
+    const settings = await service.updateSettings(id, body, buildActorContext(authResult.appUser));
+    return formatSuccess({ settings });
+  } catch (error) {
+    return mapServiceError(error, "PUT /api/communication/guardians/[id]/settings");
+  }
+}
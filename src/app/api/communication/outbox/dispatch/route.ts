@@ -0,0 +1,72 @@
+/**
+ * API Route: /api/communication/outbox/dispatch
+ *
+ * Delivers due outbox messages through the configured providers. Meant to
+ * be called every minute or so by an external scheduler.
+ *
+ * @remarks
+ * Authorized with `Authorization: Bearer <CRON_SECRET>`, which sends for
+ * every school, or by a session with jobs.run for manual runs, which only
+ * sends the actor's school's messages (every school for a SUPER_ADMIN
+ * without an active school). `?limit=` caps the messages sent per run
+ * (default 100, max 500). Claimed messages are locked, so overlapping
+ * calls never send the same message twice.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { createMessageProviders, OutboxDispatcherService, OutboxRepository } from "@/modules/communication";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import type { SchoolScope } from "@/core/db/school-scope";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+
+function hasCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get("authorization");
+  if (!secret || !header?.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const provided = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * POST /api/communication/outbox/dispatch
+ *
+ * Returns `{ result }` with claimed / sent / retried / failed counts.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  let schoolId: SchoolScope = null;
+  if (!hasCronSecret(request)) {
+    const authResult = await requirePermission(request, "jobs.run");
+    if ("error" in authResult) {
+      return authResult.error;
+    }
+    schoolId = authResult.appUser.schoolId;
+  }
+
+  const limitParam = request.nextUrl.searchParams.get("limit");
+  const limit = limitParam ? Number.parseInt(limitParam, 10) : undefined;
+  if (limit !== undefined && (!Number.isFinite(limit) || limit < 1)) {
+    return formatError(400, "VALIDATION_ERROR", "limit must be a positive integer.");
+  }
+
+  try {
+    const supabase = getAdminSupabaseClient();
+    const service = new OutboxDispatcherService(new OutboxRepository(supabase), createMessageProviders(supabase));
+
+    const result = await service.processDue(schoolId, new Date(), limit);
+    return formatSuccess({ result });
+  } catch (error) {
+    console.error("[POST /api/communication/outbox/dispatch] Unexpected error:", error);
+    return formatError(
+      500,
+      "OUTBOX_DISPATCH_FAILED",
+      "Unable to dispatch messages.",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_TEACHER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
+import { requirePermission } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -78,12 +78,15 @@ export interface DashboardData {
 }
 
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "reports.view");
   if ("error" in authResult) {
     return authResult.error;
   }
 
   const supabase = getAdminSupabaseClient();
+  const bySchool = schoolFilter(authResult.appUser.schoolId);
+  // Attendance logs belong to a school through their student
+  const logsBySchool = schoolFilter(authResult.appUser.schoolId, "students.school_id");
 
   try {
     // Fetch all stats in parallel
@@ -107,25 +110,42 @@ export async function GET(request: NextRequest) {
       attendanceSummaryResult,
     ] = await Promise.all([
       // Total students
-      supabase.from("students").select("id", { count: "exact", head: true }),
+      supabase.from("students").select("id", { count: "exact", head: true }).match(bySchool),
       // Active students
-      supabase.from("students").select("id", { count: "exact", head: true }).eq("is_active", true),
+      supabase.from("students").select("id", { count: "exact", head: true }).eq("is_active", true).match(bySchool),
       // Total events
-      supabase.from("events").select("id", { count: "exact", head: true }),
+      supabase.from("events").select("id", { count: "exact", head: true }).match(bySchool),
       // Upcoming events (start_date >= today)
-      supabase.from("events").select("id", { count: "exact", head: true }).gte("start_date", todayIso.split("T")[0]),
-      // Total attendance logs
-      supabase.from("attendance_logs").select("id", { count: "exact", head: true }),
+      supabase
+        .from("events")
+        .select("id", { count: "exact", head: true })
+        .gte("start_date", todayIso.split("T")[0])
+        .match(bySchool),
+      // Total attendance logs (materialized absences are not scans)
+      supabase
+        .from("attendance_logs")
+        .select("id, students!inner(school_id)", { count: "exact", head: true })
+        .neq("status", "absent")
+        .match(logsBySchool),
       // Today's attendance logs
-      supabase.from("attendance_logs").select("id", { count: "exact", head: true }).gte("scanned_at", todayIso),
+      supabase
+        .from("attendance_logs")
+        .select("id, students!inner(school_id)", { count: "exact", head: true })
+        .neq("status", "absent")
+        .gte("scanned_at", todayIso)
+        .match(logsBySchool),
       // Total facilities
-      supabase.from("facilities").select("id", { count: "exact", head: true }),
+      supabase.from("facilities").select("id", { count: "exact", head: true }).match(bySchool),
       // Operational facilities
-      supabase.from("facilities").select("id", { count: "exact", head: true }).eq("status", "operational"),
+      supabase
+        .from("facilities")
+        .select("id", { count: "exact", head: true })
+        .eq("status", "operational")
+        .match(bySchool),
       // Total users
-      supabase.from("app_users").select("id", { count: "exact", head: true }),
+      supabase.from("app_users").select("id", { count: "exact", head: true }).match(bySchool),
       // Active users
-      supabase.from("app_users").select("id", { count: "exact", head: true }).eq("is_active", true),
+      supabase.from("app_users").select("id", { count: "exact", head: true }).eq("is_active", true).match(bySchool),
       // Recent events with facility info
       supabase
         .from("events")
@@ -137,18 +157,21 @@ export async function GET(request: NextRequest) {
           facility_id,
           facilities(name)
         `)
+        .match(bySchool)
         .order("created_at", { ascending: false })
         .limit(5),
       // Recent users with last login
       supabase
         .from("app_users")
         .select("id, full_name, email, primary_role, last_login_at")
+        .match(bySchool)
         .order("last_login_at", { ascending: false, nullsFirst: false })
         .limit(5),
       // Attendance summary (all time)
       supabase
         .from("attendance_logs")
-        .select("status"),
+        .select("status, students!inner(school_id)")
+        .match(logsBySchool),
     ]);
 
     // Calculate event session counts for recent events
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
+import { requirePermission } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -147,7 +147,7 @@ export async function PATCH(
     return formatError(400, "INVALID_ID", "Facility ID is required.");
   }
 
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "facilities.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -174,6 +174,7 @@ export async function PATCH(
     .from("facilities")
     .update(updatePayload)
     .eq("id", id)
+    .match(schoolFilter(authResult.appUser.schoolId))
     .select("id, name, type, location_identifier, image_url, capacity, status, created_by, created_at");
 
   if (error) {
@@ -17,8 +17,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import { VenueService } from "@/modules/sems";
 import type { DateSessionConfig } from "@/modules/sems";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -64,7 +63,7 @@ function formatError(status: number, code: string, message: string, details?: un
  * @returns VenueAvailabilityResponseDto with venues and summary
  */
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "facilities.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -118,7 +117,7 @@ export async function GET(request: NextRequest) {
   // If no sessions provided, return all venues as available
   // This supports the UI showing venues before session configuration
   if (sessions.length === 0) {
-    const venueService = new VenueService(supabase);
+    const venueService = new VenueService(supabase, authResult.appUser.schoolId);
     try {
       // Get all operational facilities without conflict checking
       const result = await venueService.checkAvailability({
@@ -157,7 +156,7 @@ export async function GET(request: NextRequest) {
 
   // Check availability with sessions
   try {
-    const venueService = new VenueService(supabase);
+    const venueService = new VenueService(supabase, authResult.appUser.schoolId);
     const result = await venueService.checkAvailability({
       startDate,
       endDate,
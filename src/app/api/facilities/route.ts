@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES, ADMIN_TEACHER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -135,7 +135,7 @@ function validateCreateFacilityBody(body: unknown): { value?: Required<Pick<Crea
 }
 
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "facilities.view");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -145,6 +145,7 @@ export async function GET(request: NextRequest) {
   const { data, error } = await supabase
     .from("facilities")
     .select("id, name, type, location_identifier, image_url, capacity, status, created_by, created_at")
+    .match(schoolFilter(authResult.appUser.schoolId))
     .order("created_at", { ascending: false });
 
   if (error) {
@@ -156,11 +157,16 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "facilities.create");
   if ("error" in authResult) {
     return authResult.error;
   }
 
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
   const supabase = getAdminSupabaseClient();
   const { appUser } = authResult;
 
@@ -178,6 +184,7 @@ export async function POST(request: NextRequest) {
     image_url: value.imageUrl || null,
     capacity: value.capacity,
     status: value.status,
+    school_id: schoolResult.schoolId,
     created_by: appUser.id,
   };
 
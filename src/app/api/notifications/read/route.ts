@@ -0,0 +1,56 @@
+/**
+ * API Route: /api/notifications/read
+ *
+ * Marks the signed-in user's notifications as read.
+ *
+ * @remarks
+ * Body `{ ids: string[] }` marks those notifications; an empty body (or no
+ * `ids`) marks all of them.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { ALL_USER_ROLES } from "@/config/roles";
+import { requireRoles } from "@/core/auth/server-role-guard";
+import { ValidationError } from "@/modules/sems";
+import { NotificationInboxService, NotificationRepository } from "@/modules/communication";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+
+/**
+ * POST /api/notifications/read
+ *
+ * Returns `{ unreadCount }` after the update.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requireRoles(request, Array.from(ALL_USER_ROLES));
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  let body: { ids?: unknown } = {};
+  const raw = await request.text();
+  if (raw.trim()) {
+    try {
+      body = JSON.parse(raw) as { ids?: unknown };
+    } catch {
+      return formatError(400, "INVALID_JSON", "Request body must be valid JSON.");
+    }
+  }
+
+  if (body.ids !== undefined && !Array.isArray(body.ids)) {
+    return formatError(400, "VALIDATION_ERROR", "ids must be an array.");
+  }
+
+  const service = new NotificationInboxService(new NotificationRepository(getAdminSupabaseClient()));
+
+  try {
+    const result = await service.markRead(authResult.appUser.id, body.ids as string[] | undefined);
+    return formatSuccess(result);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+    }
+    console.error("[POST /api/notifications/read] Unexpected error:", error);
+    return formatError(500, "NOTIFICATIONS_UPDATE_FAILED", "Unable to update notifications.");
+  }
+}
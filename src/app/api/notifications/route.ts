@@ -0,0 +1,49 @@
+/**
+ * API Route: /api/notifications
+ *
+ * The signed-in user's in-app notifications (event workflow changes, scanner
+ * assignments, attendance updates).
+ *
+ * @remarks
+ * - GET: `?limit=` (default 20, max 50) and `?unread=1` for unread only
+ * - Users only see their own notifications
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { ALL_USER_ROLES } from "@/config/roles";
+import { requireRoles } from "@/core/auth/server-role-guard";
+import { NotificationInboxService, NotificationRepository } from "@/modules/communication";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+
+/**
+ * GET /api/notifications
+ *
+ * Returns `{ notifications, unreadCount }`.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requireRoles(request, Array.from(ALL_USER_ROLES));
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam ? Number.parseInt(limitParam, 10) : undefined;
+  if (limit !== undefined && (!Number.isFinite(limit) || limit < 1)) {
+    return formatError(400, "VALIDATION_ERROR", "limit must be a positive integer.");
+  }
+
+  const service = new NotificationInboxService(new NotificationRepository(getAdminSupabaseClient()));
+
+  try {
+    const result = await service.list(authResult.appUser.id, {
+      limit,
+      unreadOnly: searchParams.get("unread") === "1",
+    });
+    return formatSuccess(result);
+  } catch (error) {
+    console.error("[GET /api/notifications] Unexpected error:", error);
+    return formatError(500, "NOTIFICATIONS_FAILED", "Unable to load notifications.");
+  }
+}
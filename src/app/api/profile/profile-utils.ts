@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import type { User } from "@supabase/supabase-js";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import type { UserRole } from "@/core/auth/types";
+import { resolveRequestSession, type UserSessionRow } from "@/core/auth/user-sessions";
 
 export const ALLOWED_ROLES: UserRole[] = [
   "SUPER_ADMIN",
@@ -72,16 +73,7 @@ export function formatError(status: number, code: string, message: string, detai
 }
 
 export function getAccessTokenFromRequest(request: NextRequest): string | null {
-  const authHeader =
-    request.headers.get("authorization") ?? request.headers.get("Authorization");
-
-  if (authHeader?.startsWith("Bearer ")) {
-    const token = authHeader.slice("Bearer ".length).trim();
-    if (token) return token;
-  }
-
-  const cookieToken = request.cookies.get("auth-token")?.value;
-  return cookieToken ?? null;
+  return request.cookies.get("auth-token")?.value ?? null;
 }
 
 export function normalizeRoles(roles: string[] | null | undefined): UserRole[] {
@@ -126,7 +118,7 @@ export function mapAppUserToProfileDto(row: AppUserRow, lastSignInAt?: string |
 }
 
 export async function fetchCurrentAppUser(request: NextRequest): Promise<
-  | { supabaseUser: User; appUser: AppUserRow }
+  | { supabaseUser: User; appUser: AppUserRow; session: UserSessionRow }
   | { error: NextResponse }
 > {
   const accessToken = getAccessTokenFromRequest(request);
@@ -145,6 +137,12 @@ export async function fetchCurrentAppUser(request: NextRequest): Promise<
 
   const userId = userResult.user.id;
 
+  // The server-side session must not have been signed out or timed out
+  const resolved = await resolveRequestSession(request);
+  if (!resolved || resolved.claims.userId !== userId) {
+    return { error: formatError(401, "SESSION_EXPIRED", "Your session has ended. Please log in again.") };
+  }
+
   const { data: appUser, error: appUserError } = await supabase
     .from("app_users")
     .select(
@@ -168,5 +166,5 @@ export async function fetchCurrentAppUser(request: NextRequest): Promise<
     return { error: formatError(403, "ACCOUNT_INACTIVE", "Your account is inactive.") };
   }
 
-  return { supabaseUser: userResult.user, appUser };
+  return { supabaseUser: userResult.user, appUser, session: resolved.session };
 }
@@ -2,7 +2,10 @@ import type { NextRequest } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import type { UserRole } from "@/core/auth/types";
 import { ALL_USER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requireRoleAssignment, requireRoles } from "@/core/auth/server-role-guard";
+import { revokeSessionsUpdate } from "@/core/auth/session-revocation";
+import { recordSecurityEvent } from "@/core/auth/security-events";
+import { setSessionTokenCookie } from "@/core/auth/session-token";
 import {
   type AppUserRow,
   ALLOWED_ROLES,
@@ -44,7 +47,7 @@ export async function PATCH(request: NextRequest) {
   }
 
   const supabase = getAdminSupabaseClient();
-  const { appUser, supabaseUser } = authResult;
+  const { appUser, supabaseUser, session } = authResult;
 
   const actingRoles = normalizeRoles(appUser.roles);
   const canManageRoles = actingRoles.some((role) => ["SUPER_ADMIN", "ADMIN"].includes(role));
@@ -70,6 +73,10 @@ export async function PATCH(request: NextRequest) {
     }
     const normalizedSchoolId = rawSchoolId ? rawSchoolId : null;
     if (normalizedSchoolId !== (appUser.school_id ?? null)) {
+      // Moving an account between schools is reserved for super admins
+      if (!actingRoles.includes("SUPER_ADMIN")) {
+        return formatError(403, "FORBIDDEN", "You are not allowed to change your school.");
+      }
       updates.school_id = normalizedSchoolId;
     }
   }
@@ -130,10 +137,26 @@ export async function PATCH(request: NextRequest) {
     )
   );
 
+  const rolesChanged =
+    resultingPrimary !== appUser.primary_role ||
+    resultingRoles.length !== actingRoles.length ||
+    resultingRoles.some((role) => !actingRoles.includes(role));
+  const sessionsChanged = updates.is_active === false || rolesChanged;
+
+  // The user is changing their own roles, so they are both actor and account
+  const heldRoles = normalizeRoles([...actingRoles, appUser.primary_role ?? ""]);
+  const assignmentResult = requireRoleAssignment(heldRoles, heldRoles, resultingRoles);
+  if (assignmentResult) {
+    return assignmentResult.error;
+  }
+
   updates.primary_role = resultingPrimary;
   updates.roles = resultingRoles;
   updates.updated_at = new Date().toISOString();
   updates.updated_by = appUser.id;
+  if (sessionsChanged) {
+    Object.assign(updates, revokeSessionsUpdate());
+  }
 
   const { data: updatedUser, error: updateError } = await supabase
     .from("app_users")
@@ -153,7 +176,30 @@ export async function PATCH(request: NextRequest) {
     );
   }
 
+  if (rolesChanged) {
+    await recordSecurityEvent(
+      {
+        type: "ROLES_CHANGED",
+        userId: appUser.id,
+        email: appUser.email,
+        schoolId: updatedUser.school_id,
+        actorId: appUser.id,
+        details: {
+          from: { primaryRole: appUser.primary_role, roles: actingRoles },
+          to: { primaryRole: resultingPrimary, roles: resultingRoles },
+        },
+      },
+      request
+    );
+  }
+
   const profile = mapAppUserToProfileDto(updatedUser, supabaseUser.last_sign_in_at);
+  const response = formatSuccess({ profile });
 
-  return formatSuccess({ profile });
+  // The revocation above also covers this device; reissue its token with the new roles
+  if (sessionsChanged && updatedUser.is_active) {
+    await setSessionTokenCookie(response, updatedUser.id, normalizeRoles(updatedUser.roles), session);
+  }
+
+  return response;
 }
@@ -0,0 +1,35 @@
+/**
+ * API Route: /api/profile/sessions/[id]
+ *
+ * @remarks
+ * - DELETE: sign out one of the current user's devices.
+ */
+
+import { NextRequest } from "next/server";
+import { revokeUserSessions } from "@/core/auth/user-sessions";
+import { fetchCurrentAppUser, formatError, formatSuccess } from "../../profile-utils";
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authResult = await fetchCurrentAppUser(request);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  const { appUser } = authResult;
+
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+    return formatError(404, "SESSION_NOT_FOUND", "That device is already signed out.");
+  }
+
+  try {
+    // Scoped to the user, so other people's sessions can't be ended here
+    const endedSessions = await revokeUserSessions({ userId: appUser.id, sessionId: id }, "SIGNED_OUT_REMOTELY", appUser.id);
+    if (endedSessions === 0) {
+      return formatError(404, "SESSION_NOT_FOUND", "That device is already signed out.");
+    }
+    return formatSuccess({ endedSessions });
+  } catch {
+    return formatError(500, "DATABASE_ERROR", "Unable to sign out the device.");
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * API Route: /api/profile/sessions
+ *
+ * @remarks
+ * - GET: devices the current user is signed in on.
+ * - DELETE: sign out every device except this one.
+ */
+
+import { NextRequest } from "next/server";
+import { listActiveUserSessions, mapUserSessionRow, revokeUserSessions } from "@/core/auth/user-sessions";
+import { fetchCurrentAppUser, formatError, formatSuccess } from "../profile-utils";
+
+export async function GET(request: NextRequest) {
+  const authResult = await fetchCurrentAppUser(request);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { appUser, session } = authResult;
+
+  try {
+    const sessions = await listActiveUserSessions(appUser.id);
+    return formatSuccess({ sessions: sessions.map((row) => mapUserSessionRow(row, session.id)) });
+  } catch {
+    return formatError(500, "DATABASE_ERROR", "Unable to load signed-in devices.");
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const authResult = await fetchCurrentAppUser(request);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { appUser, session } = authResult;
+
+  try {
+    const endedSessions = await revokeUserSessions(
+      { userId: appUser.id, exceptSessionId: session.id },
+      "SIGNED_OUT_REMOTELY",
+      appUser.id
+    );
+    return formatSuccess({ endedSessions });
+  } catch {
+    return formatError(500, "DATABASE_ERROR", "Unable to sign out other devices.");
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * API Route: /api/schools/[id]
+ *
+ * @remarks
+ * - PATCH: update a school's name and branding. Super admins can edit any
+ *   school; other holders of school.manage only their own, and can't
+ *   deactivate it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { mapSchoolRow, mapSchoolWriteError, parseSchoolBody, SCHOOL_COLUMNS, UUID_REGEX, type SchoolRow } from "../utils";
+
+/**
+ * PATCH /api/schools/[id]
+ *
+ * Body: any of `{ name, shortName, logoUrl, primaryColor, isActive }`. Returns `{ school }`.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "school.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "School ID must be a valid UUID.");
+  }
+
+  const isSuperAdmin = authResult.appUser.roles.includes("SUPER_ADMIN");
+  if (!isSuperAdmin && id !== authResult.appUser.homeSchoolId) {
+    return formatError(403, "FORBIDDEN", "You can only edit your own school.");
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return formatError(400, "INVALID_REQUEST", "Request body is required.");
+  }
+
+  const parsed = parseSchoolBody(body, true);
+  if ("errors" in parsed) {
+    return formatError(400, "VALIDATION_ERROR", "Invalid school.", parsed.errors);
+  }
+  if (parsed.values.is_active !== undefined && !isSuperAdmin) {
+    return formatError(403, "FORBIDDEN", "Only a super admin can change whether a school is active.");
+  }
+  if (Object.keys(parsed.values).length === 0) {
+    return formatError(400, "NO_CHANGES", "No updates were provided.");
+  }
+
+  const { data, error } = await getAdminSupabaseClient()
+    .from("schools")
+    .update({ ...parsed.values, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select(SCHOOL_COLUMNS)
+    .maybeSingle<SchoolRow>();
+
+  if (error) {
+    return mapSchoolWriteError(error, "PATCH /api/schools/[id]");
+  }
+  if (!data) {
+    return formatError(404, "NOT_FOUND", "School not found.");
+  }
+
+  return formatSuccess({ school: mapSchoolRow(data) });
+}
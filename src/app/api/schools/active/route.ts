@@ -0,0 +1,64 @@
+/**
+ * API Route: /api/schools/active
+ *
+ * The school a super admin is working in.
+ *
+ * @remarks
+ * - POST: `{ schoolId }` switches to that school; `{ schoolId: null }` views
+ *   all schools. Stored in the `school-id` cookie that `requireRoles` reads.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ACTIVE_SCHOOL_COOKIE, requireRoles } from "@/core/auth/server-role-guard";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { mapSchoolRow, SCHOOL_COLUMNS, UUID_REGEX, type SchoolRow } from "../utils";
+
+const TWELVE_HOURS_IN_SECONDS = 60 * 60 * 12;
+
+/**
+ * POST /api/schools/active
+ *
+ * Body: `{ schoolId: string | null }`. Returns `{ school }` (null for all schools).
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requireRoles(request, ["SUPER_ADMIN"]);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const body = (await request.json().catch(() => null)) as { schoolId?: unknown } | null;
+  const schoolId = body?.schoolId;
+  if (schoolId !== null && (typeof schoolId !== "string" || !UUID_REGEX.test(schoolId))) {
+    return formatError(400, "VALIDATION_ERROR", "schoolId must be a school ID or null.");
+  }
+
+  let school: SchoolRow | null = null;
+  if (schoolId) {
+    const { data, error } = await getAdminSupabaseClient()
+      .from("schools")
+      .select(SCHOOL_COLUMNS)
+      .eq("id", schoolId)
+      .maybeSingle<SchoolRow>();
+
+    if (error) {
+      console.error("[POST /api/schools/active] Database error:", error);
+      return formatError(500, "DATABASE_ERROR", "Unable to load the school.");
+    }
+    if (!data) {
+      return formatError(404, "NOT_FOUND", "School not found.");
+    }
+    school = data;
+  }
+
+  const response = formatSuccess({ school: school ? mapSchoolRow(school) : null });
+  response.cookies.set(ACTIVE_SCHOOL_COOKIE, schoolId ?? "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: schoolId ? TWELVE_HOURS_IN_SECONDS : 0,
+  });
+
+  return response;
+}
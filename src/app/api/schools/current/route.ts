@@ -0,0 +1,46 @@
+/**
+ * API Route: /api/schools/current
+ *
+ * @remarks
+ * - GET: the school the user is working in, for branding the dashboard.
+ *   `school` is null for a super admin viewing all schools.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ALL_USER_ROLES } from "@/config/roles";
+import { requireRoles } from "@/core/auth/server-role-guard";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { mapSchoolRow, SCHOOL_COLUMNS, type SchoolRow } from "../utils";
+
+/**
+ * GET /api/schools/current
+ *
+ * Returns `{ school, canSwitch }`; `canSwitch` is true for super admins.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requireRoles(request, Array.from(ALL_USER_ROLES));
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { appUser } = authResult;
+  const canSwitch = appUser.roles.includes("SUPER_ADMIN");
+
+  if (!appUser.schoolId) {
+    return formatSuccess({ school: null, canSwitch });
+  }
+
+  const { data, error } = await getAdminSupabaseClient()
+    .from("schools")
+    .select(SCHOOL_COLUMNS)
+    .eq("id", appUser.schoolId)
+    .maybeSingle<SchoolRow>();
+
+  if (error) {
+    console.error("[GET /api/schools/current] Database error:", error);
+    return formatError(500, "DATABASE_ERROR", "Unable to load the school.");
+  }
+
+  return formatSuccess({ school: data ? mapSchoolRow(data) : null, canSwitch });
+}
@@ -0,0 +1,78 @@
+/**
+ * API Route: /api/schools
+ *
+ * Schools (tenants) and their branding.
+ *
+ * @remarks
+ * - GET: every school for a super admin, otherwise just the user's own school
+ * - POST: add a school (super admins only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ALL_USER_ROLES } from "@/config/roles";
+import { requireRoles } from "@/core/auth/server-role-guard";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { formatError, formatSuccess } from "@/app/api/sems/events/utils";
+import { mapSchoolRow, mapSchoolWriteError, parseSchoolBody, SCHOOL_COLUMNS, type SchoolRow } from "./utils";
+
+/**
+ * GET /api/schools
+ *
+ * Returns `{ schools }`, by name.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requireRoles(request, Array.from(ALL_USER_ROLES));
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { appUser } = authResult;
+  const supabase = getAdminSupabaseClient();
+
+  let query = supabase.from("schools").select(SCHOOL_COLUMNS).order("name", { ascending: true });
+  if (!appUser.roles.includes("SUPER_ADMIN")) {
+    query = query.eq("id", appUser.homeSchoolId ?? "");
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("[GET /api/schools] Database error:", error);
+    return formatError(500, "DATABASE_ERROR", "Unable to load schools.");
+  }
+
+  return formatSuccess({ schools: ((data ?? []) as SchoolRow[]).map(mapSchoolRow) });
+}
+
+/**
+ * POST /api/schools
+ *
+ * Body: `{ name, shortName, logoUrl?, primaryColor? }`. Returns `{ school }`.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requireRoles(request, ["SUPER_ADMIN"]);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return formatError(400, "INVALID_REQUEST", "Request body is required.");
+  }
+
+  const parsed = parseSchoolBody(body, false);
+  if ("errors" in parsed) {
+    return formatError(400, "VALIDATION_ERROR", "Invalid school.", parsed.errors);
+  }
+
+  const { data, error } = await getAdminSupabaseClient()
+    .from("schools")
+    .insert(parsed.values)
+    .select(SCHOOL_COLUMNS)
+    .single<SchoolRow>();
+
+  if (error || !data) {
+    return mapSchoolWriteError(error ?? {}, "POST /api/schools");
+  }
+
+  return formatSuccess({ school: mapSchoolRow(data) }, 201);
+}
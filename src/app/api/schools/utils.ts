@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import type { SchoolDto } from "@/core/db/school-scope";
+import { formatError } from "@/app/api/sems/events/utils";
+
+export const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const HEX_COLOR_REGEX = /^#[0-9a-fA-F]{6}$/;
+
+export const SCHOOL_COLUMNS = "id, name, short_name, logo_url, primary_color, is_active, created_at, updated_at";
+
+export interface SchoolRow {
+  id: string;
+  name: string;
+  short_name: string;
+  logo_url: string | null;
+  primary_color: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export function mapSchoolRow(row: SchoolRow): SchoolDto {
+  return {
+    id: row.id,
+    name: row.name,
+    shortName: row.short_name,
+    logoUrl: row.logo_url,
+    primaryColor: row.primary_color,
+    isActive: row.is_active,
+  };
+}
+
+interface SchoolBody {
+  name?: unknown;
+  shortName?: unknown;
+  logoUrl?: unknown;
+  primaryColor?: unknown;
+  isActive?: unknown;
+}
+
+/**
+ * Validate a create (`partial: false`) or update body and map it to columns.
+ */
+export function parseSchoolBody(
+  body: SchoolBody,
+  partial: boolean
+): { values: Partial<Omit<SchoolRow, "id" | "created_at" | "updated_at">> } | { errors: { field: string; message: string }[] } {
+  const errors: { field: string; message: string }[] = [];
+  const values: Partial<Omit<SchoolRow, "id" | "created_at" | "updated_at">> = {};
+
+  const readText = (field: "name" | "shortName", value: unknown, maxLength: number): string | undefined => {
+    if (value === undefined && partial) return undefined;
+    const text = typeof value === "string" ? value.trim() : "";
+    if (!text || text.length > maxLength) {
+      errors.push({ field, message: `Required, at most ${maxLength} characters.` });
+      return undefined;
+    }
+    return text;
+  };
+
+  const name = readText("name", body.name, 200);
+  if (name !== undefined) values.name = name;
+
+  const shortName = readText("shortName", body.shortName, 40);
+  if (shortName !== undefined) values.short_name = shortName;
+
+  if (body.logoUrl !== undefined) {
+    if (body.logoUrl === null || (typeof body.logoUrl === "string" && !body.logoUrl.trim())) {
+      values.logo_url = null;
+    } else if (typeof body.logoUrl === "string" && /^(https?:\/\/|\/)/.test(body.logoUrl.trim())) {
+      values.logo_url = body.logoUrl.trim();
+    } else {
+      errors.push({ field: "logoUrl", message: "Logo must be an http(s) URL or a site path." });
+    }
+  }
+
+  if (body.primaryColor !== undefined) {
+    if (body.primaryColor === null || body.primaryColor === "") {
+      values.primary_color = null;
+    } else if (typeof body.primaryColor === "string" && HEX_COLOR_REGEX.test(body.primaryColor)) {
+      values.primary_color = body.primaryColor.toLowerCase();
+    } else {
+      errors.push({ field: "primaryColor", message: "Color must be a hex value such as #15803d." });
+    }
+  }
+
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive === "boolean") {
+      values.is_active = body.isActive;
+    } else {
+      errors.push({ field: "isActive", message: "Must be true or false." });
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { values };
+}
+
+/**
+ * Map a schools write error; a duplicate name is a 409.
+ */
+export function mapSchoolWriteError(error: { code?: string; message?: string }, route: string): NextResponse {
+  if (error.code === "23505") {
+    return formatError(409, "DUPLICATE_SCHOOL", "A school with this name already exists.");
+  }
+  console.error(`[${route}] Database error:`, error);
+  return formatError(500, "DATABASE_ERROR", "Unable to save the school.", error.message);
+}
@@ -0,0 +1,87 @@
+/**
+ * API Route: /api/sems/absentees/sweep
+ *
+ * Materializes absentees for entry sessions whose closing time has passed,
+ * across all published events. Meant to be called every few minutes by an
+ * external scheduler.
+ *
+ * @remarks
+ * Authorized with `Authorization: Bearer <CRON_SECRET>`, which sweeps every
+ * school, or by a session with jobs.run for manual runs, which only sweeps
+ * the actor's school (every school for a SUPER_ADMIN without an active
+ * school). Sessions already processed are skipped, so
+ * overlapping calls only repeat cheap reads.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import {
+  AbsenteeRepository,
+  AbsenteeService,
+  EventRepository,
+  ScannerResourceRepository,
+  ScanRepository,
+} from "@/modules/sems";
+import {
+  AttendanceNotificationService,
+  NotificationSettingsRepository,
+  OutboxRepository,
+} from "@/modules/communication";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import type { SchoolScope } from "@/core/db/school-scope";
+import { formatError, formatSuccess } from "../../events/utils";
+
+function hasCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get("authorization");
+  if (!secret || !header?.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const provided = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * POST /api/sems/absentees/sweep
+ *
+ * Returns the events and sessions that received absences in this run.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  let schoolId: SchoolScope = null;
+  if (!hasCronSecret(request)) {
+    const authResult = await requirePermission(request, "jobs.run");
+    if ("error" in authResult) {
+      return authResult.error;
+    }
+    schoolId = authResult.appUser.schoolId;
+  }
+
+  try {
+    const supabase = getAdminSupabaseClient();
+    // Events outside the school scope are skipped by the sweep
+    const service = new AbsenteeService(
+      new EventRepository(supabase, schoolId),
+      new ScannerResourceRepository(supabase),
+      new ScanRepository(supabase),
+      new AbsenteeRepository(supabase),
+      new AttendanceNotificationService(
+        new NotificationSettingsRepository(supabase, schoolId),
+        new OutboxRepository(supabase)
+      )
+    );
+
+    const results = await service.sweepClosedSessions();
+    return formatSuccess({ results });
+  } catch (error) {
+    console.error("[POST /api/sems/absentees/sweep] Unexpected error:", error);
+    return formatError(
+      500,
+      "ABSENTEE_SWEEP_FAILED",
+      "Unable to compute absentees.",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
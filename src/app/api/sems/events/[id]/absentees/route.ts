@@ -0,0 +1,88 @@
+/**
+ * API Route: /api/sems/events/[id]/absentees
+ *
+ * Re-computes absentees for an event, e.g. after late attendance corrections
+ * or audience changes.
+ *
+ * @remarks
+ * - POST: Materialize absences for closed entry sessions (all sessions once
+ *   the event is completed) and remove system absences of students who are
+ *   no longer expected
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import {
+  AbsenteeRepository,
+  AbsenteeService,
+  EventRepository,
+  ScannerResourceRepository,
+  ScanRepository,
+  NotFoundError,
+  BusinessRuleError,
+} from "@/modules/sems";
+import {
+  AttendanceNotificationService,
+  NotificationSettingsRepository,
+  OutboxRepository,
+} from "@/modules/communication";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { buildActorContext, EVENT_ORGANIZER_PERMISSIONS, formatError, formatSuccess } from "../../utils";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /api/sems/events/[id]/absentees
+ *
+ * Returns per-session counts of absences created and removed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  try {
+    const supabase = getAdminSupabaseClient();
+    const service = new AbsenteeService(
+      new EventRepository(supabase, authResult.appUser.schoolId),
+      new ScannerResourceRepository(supabase),
+      new ScanRepository(supabase),
+      new AbsenteeRepository(supabase),
+      new AttendanceNotificationService(
+        new NotificationSettingsRepository(supabase, authResult.appUser.schoolId),
+        new OutboxRepository(supabase)
+      )
+    );
+
+    const result = await service.rerunForEvent(id, buildActorContext(authResult.appUser));
+    return formatSuccess({ result });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return formatError(404, "NOT_FOUND", error.message, {
+        resource: error.resource,
+        id: error.id,
+      });
+    }
+
+    if (error instanceof BusinessRuleError) {
+      return formatError(409, "BUSINESS_RULE_VIOLATION", error.message);
+    }
+
+    console.error("[POST /api/sems/events/[id]/absentees] Unexpected error:", error);
+    return formatError(
+      500,
+      "ABSENTEE_RUN_FAILED",
+      "Unable to compute absentees.",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * API Route: /api/sems/events/[id]/attendance/corrections
+ *
+ * Audit trail of manual attendance changes for an event.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import {
+  AttendanceCorrectionRepository,
+  AttendanceCorrectionService,
+  EventRepository,
+  ScanRepository,
+  NotFoundError,
+  BusinessRuleError,
+} from "@/modules/sems";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { buildActorContext, EVENT_ORGANIZER_PERMISSIONS, formatError, formatSuccess } from "../../../utils";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/sems/events/[id]/attendance/corrections?limit=100
+ *
+ * Returns the event's corrections, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  const limitParam = Number.parseInt(request.nextUrl.searchParams.get("limit") ?? "", 10);
+
+  try {
+    const supabase = getAdminSupabaseClient();
+    const service = new AttendanceCorrectionService(
+      new EventRepository(supabase, authResult.appUser.schoolId),
+      new ScanRepository(supabase),
+      new AttendanceCorrectionRepository(supabase)
+    );
+
+    const corrections = await service.listCorrections(
+      id,
+      buildActorContext(authResult.appUser),
+      Number.isFinite(limitParam) ? limitParam : undefined
+    );
+    return formatSuccess({ corrections });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return formatError(404, "NOT_FOUND", error.message, {
+        resource: error.resource,
+        id: error.id,
+      });
+    }
+
+    if (error instanceof BusinessRuleError) {
+      return formatError(403, "FORBIDDEN", error.message);
+    }
+
+    console.error("[GET /api/sems/events/[id]/attendance/corrections] Unexpected error:", error);
+    return formatError(
+      500,
+      "ATTENDANCE_CORRECTIONS_FETCH_FAILED",
+      "Unable to load attendance corrections.",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
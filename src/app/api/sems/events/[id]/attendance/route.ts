@@ -0,0 +1,202 @@
+/**
+ * API Route: /api/sems/events/[id]/attendance
+ *
+ * Manual attendance entry and corrections by organizers.
+ *
+ * @remarks
+ * - POST: Add a record or change its status (present / late / excused)
+ * - DELETE: Remove a record
+ *
+ * Both require a reason; every change is written to attendance_corrections.
+ * Permission and lifecycle rules are enforced by AttendanceCorrectionService.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import type { SchoolScope } from "@/core/db/school-scope";
+import {
+  AttendanceCorrectionRepository,
+  AttendanceCorrectionService,
+  EventRepository,
+  ScanRepository,
+  ValidationError,
+  NotFoundError,
+  BusinessRuleError,
+  type AttendanceCorrectionInput,
+  type AttendanceCorrectionStatus,
+} from "@/modules/sems";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { buildActorContext, EVENT_ORGANIZER_PERMISSIONS, formatError, formatSuccess } from "../../utils";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createCorrectionService(schoolId: SchoolScope): AttendanceCorrectionService {
+  const supabase = getAdminSupabaseClient();
+  return new AttendanceCorrectionService(
+    new EventRepository(supabase, schoolId),
+    new ScanRepository(supabase),
+    new AttendanceCorrectionRepository(supabase)
+  );
+}
+
+function readString(body: Record<string, unknown>, key: string): string | undefined {
+  const value = body[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Parse the student, session and reason shared by POST and DELETE.
+ */
+function parseCorrectionInput(
+  eventId: string,
+  body: unknown,
+  status: AttendanceCorrectionStatus | null
+): AttendanceCorrectionInput | null {
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+  const record = body as Record<string, unknown>;
+
+  const studentId = readString(record, "studentId");
+  const eventSessionId = readString(record, "eventSessionId");
+  if ((studentId && !UUID_REGEX.test(studentId)) || (eventSessionId && !UUID_REGEX.test(eventSessionId))) {
+    return null;
+  }
+
+  return {
+    eventId,
+    studentId,
+    lrn: readString(record, "lrn"),
+    eventSessionId,
+    sessionId: readString(record, "sessionId"),
+    date: readString(record, "date"),
+    status,
+    reason: typeof record.reason === "string" ? record.reason : "",
+  };
+}
+
+function handleServiceError(
+  error: unknown,
+  label: string,
+  fallbackCode: string,
+  fallbackMessage: string
+): NextResponse {
+  if (error instanceof ValidationError) {
+    return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+  }
+
+  if (error instanceof NotFoundError) {
+    return formatError(404, "NOT_FOUND", error.message, {
+      resource: error.resource,
+      id: error.id,
+    });
+  }
+
+  if (error instanceof BusinessRuleError) {
+    return formatError(409, "BUSINESS_RULE_VIOLATION", error.message);
+  }
+
+  console.error(`[${label}] Unexpected error:`, error);
+  return formatError(
+    500,
+    fallbackCode,
+    fallbackMessage,
+    error instanceof Error ? error.message : "Unknown error"
+  );
+}
+
+// ============================================================================
+// Route Handlers
+// ============================================================================
+
+/**
+ * POST /api/sems/events/[id]/attendance
+ *
+ * Body: `{ studentId | lrn, eventSessionId | sessionId [+ date], status, reason }`.
+ * Adds the record if the student has none for the session, otherwise changes its status.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  const body = await request.json().catch(() => null);
+  const status = body && typeof body === "object" ? (body as Record<string, unknown>).status : null;
+  if (typeof status !== "string") {
+    return formatError(400, "INVALID_BODY", "status must be one of: present, late, excused.");
+  }
+
+  const input = parseCorrectionInput(id, body, status as AttendanceCorrectionStatus);
+  if (!input) {
+    return formatError(400, "INVALID_BODY", "Invalid attendance correction payload.");
+  }
+
+  try {
+    const correction = await createCorrectionService(authResult.appUser.schoolId).correctAttendance(
+      input,
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ correction }, correction.action === "add" ? 201 : 200);
+  } catch (error) {
+    return handleServiceError(
+      error,
+      "POST /api/sems/events/[id]/attendance",
+      "ATTENDANCE_CORRECTION_FAILED",
+      "Unable to update attendance."
+    );
+  }
+}
+
+/**
+ * DELETE /api/sems/events/[id]/attendance
+ *
+ * Body: `{ studentId | lrn, eventSessionId | sessionId [+ date], reason }`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = parseCorrectionInput(id, body, null);
+  if (!input) {
+    return formatError(400, "INVALID_BODY", "Invalid attendance correction payload.");
+  }
+
+  try {
+    const correction = await createCorrectionService(authResult.appUser.schoolId).correctAttendance(
+      input,
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ correction });
+  } catch (error) {
+    return handleServiceError(
+      error,
+      "DELETE /api/sems/events/[id]/attendance",
+      "ATTENDANCE_CORRECTION_FAILED",
+      "Unable to remove attendance."
+    );
+  }
+}
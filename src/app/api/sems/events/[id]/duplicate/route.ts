@@ -0,0 +1,99 @@
+/**
+ * API Route: /api/sems/events/[id]/duplicate
+ *
+ * Copy an event into a new draft on other dates.
+ *
+ * @remarks
+ * - POST: Clones the event's venue, audience, sessions, scanners, visibility
+ *   and registration settings, with every date shifted so the copy starts on
+ *   `startDate`. The copy starts in `draft`; attendance, registrations and
+ *   workflow history are not copied
+ *
+ * Only users who can manage the event (its owner and admins) may copy it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import {
+  EventRepository,
+  EventService,
+  ValidationError,
+  NotFoundError,
+  BusinessRuleError,
+} from "@/modules/sems";
+import { EventWorkflowNotificationService, NotificationRepository } from "@/modules/communication";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
+import { buildActorContext, EVENT_ORGANIZER_PERMISSIONS, formatError, formatSuccess } from "../../utils";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /api/sems/events/[id]/duplicate
+ *
+ * Body: `{ startDate: "YYYY-MM-DD", title?: string }`; the title defaults to
+ * "<original title> (Copy)". Returns 201 with `{ event }`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  const body = (await request.json().catch(() => null)) as { startDate?: unknown; title?: unknown } | null;
+  if (!body || typeof body.startDate !== "string") {
+    return formatError(400, "INVALID_REQUEST", "startDate is required.");
+  }
+
+  try {
+    const supabase = getAdminSupabaseClient();
+    const eventService = new EventService(
+      new EventRepository(supabase, schoolResult.schoolId),
+      new EventWorkflowNotificationService(new NotificationRepository(supabase))
+    );
+    const event = await eventService.duplicateEvent(
+      id,
+      {
+        startDate: body.startDate,
+        title: typeof body.title === "string" ? body.title : undefined,
+      },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ event }, 201);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+    }
+
+    if (error instanceof NotFoundError) {
+      return formatError(404, "NOT_FOUND", error.message, {
+        resource: error.resource,
+        id: error.id,
+      });
+    }
+
+    if (error instanceof BusinessRuleError) {
+      return formatError(403, "FORBIDDEN", error.message);
+    }
+
+    console.error("[POST /api/sems/events/[id]/duplicate] Unexpected error:", error);
+    return formatError(
+      500,
+      "EVENT_DUPLICATE_FAILED",
+      "Unable to duplicate event.",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
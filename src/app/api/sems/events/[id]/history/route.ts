@@ -0,0 +1,70 @@
+/**
+ * API Route: /api/sems/events/[id]/history
+ *
+ * Event history timeline from event_audit_log.
+ *
+ * @remarks
+ * - GET: Every creation, workflow action and recorded edit, newest first,
+ *   with before/after values for changed fields
+ *
+ * Only users who can manage the event (its owner and admins) may read it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import {
+  EventRepository,
+  EventService,
+  NotFoundError,
+  BusinessRuleError,
+} from "@/modules/sems";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { buildActorContext, formatError, formatSuccess } from "../../utils";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/sems/events/[id]/history
+ *
+ * Returns `{ entries }`, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "events.view");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  try {
+    const supabase = getAdminSupabaseClient();
+    const eventService = new EventService(new EventRepository(supabase, authResult.appUser.schoolId));
+    const entries = await eventService.listEventAuditLog(id, buildActorContext(authResult.appUser));
+    return formatSuccess({ entries });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return formatError(404, "NOT_FOUND", error.message, {
+        resource: error.resource,
+        id: error.id,
+      });
+    }
+
+    if (error instanceof BusinessRuleError) {
+      return formatError(403, "FORBIDDEN", error.message);
+    }
+
+    console.error("[GET /api/sems/events/[id]/history] Unexpected error:", error);
+    return formatError(
+      500,
+      "EVENT_HISTORY_FAILED",
+      "Unable to load event history.",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
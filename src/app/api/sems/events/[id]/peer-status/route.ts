@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { EventRepository, PeerStatusService, ScanRepository } from "@/modules/sems";
+import { requirePermission } from "@/core/auth/server-role-guard";
+
+function formatSuccess<T>(data: T, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data,
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+function formatError(status: number, code: string, message: string, details?: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code,
+        message,
+        details,
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+/**
+ * GET /api/sems/events/[id]/peer-status
+ *
+ * Lists scans already stored on the server for an event, so scanner devices
+ * can flag students scanned at another gate as duplicates.
+ *
+ * @remarks
+ * Devices poll with `?since=<nextSince>` from the previous response to only
+ * receive newly stored scans. Each scan names the device and scanner user
+ * that uploaded it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const receivedAt = new Date();
+
+  const authResult = await requirePermission(request, "attendance.scan");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const scannerUserId = authResult.supabaseUser.id;
+  const { id: eventId } = await params;
+
+  if (!eventId) {
+    return formatError(400, "MISSING_ID", "Event ID is required.");
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(eventId)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  const sinceParam = request.nextUrl.searchParams.get("since");
+  if (sinceParam && Number.isNaN(new Date(sinceParam).getTime())) {
+    return formatError(400, "INVALID_SINCE", "since must be an ISO timestamp.");
+  }
+  const since = sinceParam ? new Date(sinceParam).toISOString() : null;
+
+  const supabase = getAdminSupabaseClient();
+  const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
+  const peerStatusService = new PeerStatusService(new ScanRepository(supabase));
+
+  try {
+    const event = await eventRepository.findByIdWithFacility(eventId);
+
+    if (!event) {
+      return formatError(404, "NOT_FOUND", "Event not found.");
+    }
+
+    const scannerIds = Array.isArray(event.scannerConfig?.scannerIds)
+      ? event.scannerConfig.scannerIds
+      : [];
+
+    if (scannerIds.length > 0 && !scannerIds.includes(scannerUserId)) {
+      return formatError(403, "SCANNER_NOT_ASSIGNED", "You are not assigned to this event.");
+    }
+
+    return formatSuccess(await peerStatusService.getPeerStatus(event, since, receivedAt));
+  } catch (error) {
+    console.error("[GET /api/sems/events/[id]/peer-status] Unexpected error:", error);
+    return formatError(
+      500,
+      "PEER_STATUS_FAILED",
+      "Unable to load scans from other devices.",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * API Route: /api/sems/events/[id]/registrations
+ *
+ * Manages student registrations for events that require registration.
+ *
+ * @remarks
+ * - GET: List registrations (organizers see all, students/parents see their own)
+ * - POST: Register a student
+ * - DELETE: Cancel a student's registration
+ * - PATCH: Organizer promote/demote between confirmed and waitlisted
+ *
+ * Window, capacity, waitlist, and audience rules, and who may see or change
+ * which registrations, are enforced by EventService.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import type { SchoolScope } from "@/core/db/school-scope";
+import {
+  EventRepository,
+  EventService,
+  ValidationError,
+  NotFoundError,
+  BusinessRuleError,
+  type EventRegistrationManualAction,
+} from "@/modules/sems";
+import { requirePermission, requireRoles } from "@/core/auth/server-role-guard";
+import { buildActorContext, EVENT_ORGANIZER_PERMISSIONS, formatError, formatSuccess } from "../../utils";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createEventService(schoolId: SchoolScope): EventService {
+  const supabase = getAdminSupabaseClient();
+  return new EventService(new EventRepository(supabase, schoolId));
+}
+
+function parseStudentId(body: unknown): string | undefined {
+  if (!body || typeof body !== "object") {
+    return undefined;
+  }
+  const value = (body as Record<string, unknown>).studentId;
+  return typeof value === "string" ? value : undefined;
+}
+
+function parseAction(body: unknown): EventRegistrationManualAction | undefined {
+  if (!body || typeof body !== "object") {
+    return undefined;
+  }
+  const value = (body as Record<string, unknown>).action;
+  return value === "promote" || value === "demote" ? value : undefined;
+}
+
+function handleServiceError(
+  error: unknown,
+  label: string,
+  fallbackCode: string,
+  fallbackMessage: string
+): NextResponse {
+  if (error instanceof ValidationError) {
+    return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+  }
+
+  if (error instanceof NotFoundError) {
+    return formatError(404, "NOT_FOUND", error.message, {
+      resource: error.resource,
+      id: error.id,
+    });
+  }
+
+  if (error instanceof BusinessRuleError) {
+    return formatError(409, "BUSINESS_RULE_VIOLATION", error.message);
+  }
+
+  console.error(`[${label}] Unexpected error:`, error);
+  return formatError(
+    500,
+    fallbackCode,
+    fallbackMessage,
+    error instanceof Error ? error.message : "Unknown error"
+  );
+}
+
+// ============================================================================
+// Route Handlers
+// ============================================================================
+
+/**
+ * GET /api/sems/events/[id]/registrations
+ *
+ * Returns registration metadata, counts, and the registrations visible to the actor.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requireRoles(request, []);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  try {
+    const result = await createEventService(authResult.appUser.schoolId).listEventRegistrations(
+      id,
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess(result);
+  } catch (error) {
+    return handleServiceError(
+      error,
+      "GET /api/sems/events/[id]/registrations",
+      "REGISTRATION_LIST_FAILED",
+      "Unable to load registrations."
+    );
+  }
+}
+
+/**
+ * POST /api/sems/events/[id]/registrations
+ *
+ * Register a student. Body: `{ studentId?: string }` — students may omit it
+ * to register themselves. Returns status "waitlisted" when the event is full.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requireRoles(request, []);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  const body = await request.json().catch(() => null);
+
+  try {
+    const registration = await createEventService(authResult.appUser.schoolId).registerStudent(
+      { eventId: id, studentId: parseStudentId(body) },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ registration }, 201);
+  } catch (error) {
+    return handleServiceError(
+      error,
+      "POST /api/sems/events/[id]/registrations",
+      "REGISTRATION_CREATE_FAILED",
+      "Unable to register student."
+    );
+  }
+}
+
+/**
+ * DELETE /api/sems/events/[id]/registrations
+ *
+ * Cancel a registration. Body: `{ studentId?: string }` (or `?studentId=` query).
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requireRoles(request, []);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  const body = await request.json().catch(() => null);
+  const studentId =
+    parseStudentId(body) ?? new URL(request.url).searchParams.get("studentId") ?? undefined;
+
+  try {
+    await createEventService(authResult.appUser.schoolId).unregisterStudent(
+      { eventId: id, studentId },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ eventId: id, studentId: studentId ?? null, removed: true });
+  } catch (error) {
+    return handleServiceError(
+      error,
+      "DELETE /api/sems/events/[id]/registrations",
+      "REGISTRATION_DELETE_FAILED",
+      "Unable to cancel registration."
+    );
+  }
+}
+
+/**
+ * PATCH /api/sems/events/[id]/registrations
+ *
+ * Manually promote or demote a registration.
+ * Body: `{ studentId: string, action: "promote" | "demote" }`
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid event ID format.");
+  }
+
+  const body = await request.json().catch(() => null);
+  const studentId = parseStudentId(body);
+  const action = parseAction(body);
+
+  if (!studentId || !action) {
+    return formatError(
+      400,
+      "INVALID_REQUEST",
+      "studentId and action ('promote' or 'demote') are required."
+    );
+  }
+
+  try {
+    const registration = await createEventService(authResult.appUser.schoolId).overrideRegistration(
+      { eventId: id, studentId, action },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ registration });
+  } catch (error) {
+    return handleServiceError(
+      error,
+      "PATCH /api/sems/events/[id]/registrations",
+      "REGISTRATION_UPDATE_FAILED",
+      "Unable to update registration."
+    );
+  }
+}
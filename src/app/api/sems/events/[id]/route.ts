@@ -12,8 +12,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import { EventRepository, EventService } from "@/modules/sems";
-import { ADMIN_TEACHER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission } from "@/core/auth/server-role-guard";
 
 // ============================================================================
 // Response Helpers
@@ -66,7 +65,7 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "events.view");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -87,7 +86,7 @@ export async function GET(
   }
 
   // Create repository and fetch event
-  const eventRepository = new EventRepository(supabase);
+  const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
 
   try {
     const event = await eventRepository.findByIdWithFacility(id);
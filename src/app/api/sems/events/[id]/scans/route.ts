@@ -1,8 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { EventRepository } from "@/modules/sems";
-import { ADMIN_SCANNER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import {
+  EventRepository,
+  ScanRepository,
+  ScanValidationService,
+  ScanUploadService,
+  type ScanUploadInput,
+  type ScanUploadResultDto,
+} from "@/modules/sems";
+import {
+  AttendanceNotificationService,
+  NotificationSettingsRepository,
+  OutboxRepository,
+} from "@/modules/communication";
+import { requirePermission } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -34,52 +45,28 @@ function formatError(status: number, code: string, message: string, details?: un
   );
 }
 
-/**
- * Maps period + direction to database session_type enum.
- */
-function toDbSessionType(
-  period: string | null,
-  direction: string | null
-): string {
-  const p = (period ?? "morning").toLowerCase();
-  const d = (direction ?? "in").toLowerCase();
-  return `${p}_${d}`;
-}
-
-/**
- * Scan record received from frontend IndexedDB.
- */
-interface ScanUploadRecord {
-  id: string;
-  studentId: string;
-  qrHash: string;
-  scannedAt: string;
-  status: "PRESENT" | "LATE" | "DENIED" | "DUPLICATE";
-  reason: string | null;
-  sessionId: string | null;
-  sessionName: string | null;
-  sessionDirection: "in" | "out" | null;
-  sessionPeriod?: string | null;
-  sessionOpens?: string | null;
-  sessionCloses?: string | null;
-  sessionLateAfter?: string | null;
-}
-
-interface UploadScansBody {
-  scans: ScanUploadRecord[];
-}
+/** Largest queue a device may send in one request; devices chunk larger queues. */
+const MAX_SCANS_PER_UPLOAD = 2000;
 
 /**
  * POST /api/sems/events/[id]/scans
  *
  * Uploads offline scan records to the database.
- * Creates event_sessions if they don't exist, then inserts attendance_logs.
+ *
+ * @remarks
+ * Every scan is re-validated by ScanValidationService against the stored
+ * session_config and audience rules. Accepted and corrected scans are written
+ * to attendance_logs in idempotent batches keyed by the device's scan ID;
+ * everything else is recorded in scan_audit_log. The response includes one
+ * verdict per scan ID so devices can mark records synced after partial failures.
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_SCANNER_ROLES));
+  const receivedAt = new Date();
+
+  const authResult = await requirePermission(request, "attendance.scan");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -99,7 +86,7 @@ export async function POST(
   }
 
   // Parse request body
-  let body: UploadScansBody;
+  let body: ScanUploadInput;
   try {
     body = await request.json();
   } catch {
@@ -110,27 +97,43 @@ export async function POST(
     return formatError(400, "INVALID_SCANS", "Request body must contain a 'scans' array.");
   }
 
-  // Filter to only valid scans (PRESENT or LATE, with studentId and sessionId)
-  const validScans = body.scans.filter(
-    (scan) =>
-      (scan.status === "PRESENT" || scan.status === "LATE") &&
-      scan.studentId &&
-      scan.sessionId
-  );
-
-  if (validScans.length === 0) {
-    return formatSuccess({
+  if (body.scans.length === 0) {
+    const empty: ScanUploadResultDto = {
       uploaded: 0,
-      skipped: body.scans.length,
+      corrected: 0,
+      rejected: 0,
+      skipped: 0,
       duplicates: 0,
       errors: 0,
-      message: "No valid scans to upload.",
-    });
+      clockSkewMs: null,
+      uploadedScanIds: [],
+      processedScanIds: [],
+      results: [],
+      message: "No scans to upload.",
+    };
+    return formatSuccess(empty);
+  }
+
+  if (body.scans.length > MAX_SCANS_PER_UPLOAD) {
+    return formatError(
+      413,
+      "TOO_MANY_SCANS",
+      `Upload at most ${MAX_SCANS_PER_UPLOAD} scans per request.`
+    );
   }
 
   // Verify event exists and user is authorized
-  const eventRepository = new EventRepository(supabase);
-  
+  const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
+  const scanRepository = new ScanRepository(supabase);
+  const scanUploadService = new ScanUploadService(
+    scanRepository,
+    new ScanValidationService(eventRepository, scanRepository),
+    new AttendanceNotificationService(
+      new NotificationSettingsRepository(supabase, authResult.appUser.schoolId),
+      new OutboxRepository(supabase)
+    )
+  );
+
   try {
     const event = await eventRepository.findByIdWithFacility(eventId);
 
@@ -155,117 +158,8 @@ export async function POST(
       return formatError(403, "SCANNER_NOT_ASSIGNED", "You are not assigned to scan for this event.");
     }
 
-    // Group scans by sessionId to batch create event_sessions
-    const scansBySession = new Map<string, ScanUploadRecord[]>();
-    for (const scan of validScans) {
-      const sessionId = scan.sessionId!;
-      if (!scansBySession.has(sessionId)) {
-        scansBySession.set(sessionId, []);
-      }
-      scansBySession.get(sessionId)!.push(scan);
-    }
-
-    // Find or create event_sessions and build mapping
-    const sessionIdToDbId = new Map<string, string>();
-    
-    for (const [configSessionId, scans] of scansBySession) {
-      const firstScan = scans[0];
-      const sessionType = toDbSessionType(
-        firstScan.sessionPeriod ?? "morning",
-        firstScan.sessionDirection
-      );
-
-      // Check if event_session already exists for this event with matching name
-      const { data: existingSessions } = await supabase
-        .from("event_sessions")
-        .select("id, name")
-        .eq("event_id", eventId)
-        .eq("name", firstScan.sessionName ?? configSessionId)
-        .limit(1);
-
-      let dbSessionId: string;
-
-      if (existingSessions && existingSessions.length > 0) {
-        dbSessionId = existingSessions[0].id;
-      } else {
-        // Create new event_session
-        // Parse times from session config or use defaults
-        const opensTime = firstScan.sessionOpens ?? "07:00";
-        const closesTime = firstScan.sessionCloses ?? "08:00";
-        const lateAfterTime = firstScan.sessionLateAfter ?? null;
-
-        const { data: newSession, error: createError } = await supabase
-          .from("event_sessions")
-          .insert({
-            event_id: eventId,
-            name: firstScan.sessionName ?? configSessionId,
-            session_type: sessionType,
-            start_time: opensTime,
-            late_threshold_time: lateAfterTime,
-            end_time: closesTime,
-          })
-          .select("id")
-          .single();
-
-        if (createError || !newSession) {
-          console.error("[POST /api/sems/events/[id]/scans] Failed to create event_session:", createError);
-          // Try to continue with other sessions
-          continue;
-        }
-
-        dbSessionId = newSession.id;
-      }
-
-      sessionIdToDbId.set(configSessionId, dbSessionId);
-    }
-
-    // Insert attendance_logs
-    let uploaded = 0;
-    let duplicates = 0;
-    let errors = 0;
-    const uploadedScanIds: string[] = [];
-
-    for (const scan of validScans) {
-      const dbSessionId = sessionIdToDbId.get(scan.sessionId!);
-      if (!dbSessionId) {
-        errors++;
-        continue;
-      }
-
-      // Map status to database enum
-      const dbStatus = scan.status === "PRESENT" ? "present" : "late";
-
-      const { error: insertError } = await supabase.from("attendance_logs").insert({
-        event_session_id: dbSessionId,
-        student_id: scan.studentId,
-        scanned_at: scan.scannedAt,
-        status: dbStatus,
-        scanned_by_device_id: null,
-        synced_by_user_id: syncedByUserId,
-      });
-
-      if (insertError) {
-        // Check if it's a duplicate constraint violation
-        if (insertError.code === "23505") {
-          duplicates++;
-        } else {
-          console.error("[POST /api/sems/events/[id]/scans] Insert error:", insertError);
-          errors++;
-        }
-      } else {
-        uploaded++;
-        uploadedScanIds.push(scan.id);
-      }
-    }
-
-    return formatSuccess({
-      uploaded,
-      skipped: body.scans.length - validScans.length,
-      duplicates,
-      errors,
-      uploadedScanIds,
-      message: `Successfully uploaded ${uploaded} scan(s).`,
-    });
+    const result = await scanUploadService.uploadScans(event, body, syncedByUserId, receivedAt);
+    return formatSuccess(result);
   } catch (error) {
     console.error("[POST /api/sems/events/[id]/scans] Unexpected error:", error);
     return formatError(
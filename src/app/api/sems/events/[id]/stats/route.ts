@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import { EventRepository } from "@/modules/sems";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { hasPermission } from "@/config/permissions";
+import { requirePermission } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -37,17 +37,24 @@ function formatError(status: number, code: string, message: string, details?: un
 type SessionPeriod = "morning" | "afternoon" | "evening";
 type SessionDirection = "in" | "out";
 
-type StudentSessionStatus = "none" | "present" | "late" | "no_scan";
+type StudentSessionStatus = "none" | "present" | "late" | "excused" | "absent" | "no_scan";
 
 interface SessionStatsDto {
+  /** event_sessions.id, or `all:<sessionType>` for whole-event aggregates */
   sessionId: string;
+  /** session_config session ID (null for aggregates and pre-dated sessions) */
+  configSessionId: string | null;
+  /** Session date, YYYY-MM-DD (null for aggregates and pre-dated sessions) */
+  date: string | null;
   name: string;
   sessionType: string;
   period: SessionPeriod;
   direction: SessionDirection;
+  startTime: string | null;
   totalScans: number;
   present: number;
   late: number;
+  excused: number;
   absent: number;
   uniqueStudents: number;
 }
@@ -59,6 +66,30 @@ interface PeriodStatsDto {
   missingOutCount?: number;
 }
 
+/**
+ * Sessions and totals for one event date. Sessions recorded before sessions
+ * were keyed by date are grouped under `date: null`.
+ */
+interface DateStatsDto {
+  date: string | null;
+  sessionIds: string[];
+  periods: PeriodStatsDto[];
+  totalScans: number;
+  totalPresent: number;
+  totalLate: number;
+  totalExcused: number;
+  totalAbsent: number;
+  uniqueStudents: number;
+}
+
+interface StudentAttendanceTotalsDto {
+  present: number;
+  late: number;
+  excused: number;
+  absent: number;
+  noScan: number;
+}
+
 interface StudentAttendanceRowDto {
   studentId: string;
   firstName: string | null;
@@ -66,7 +97,12 @@ interface StudentAttendanceRowDto {
   fullName: string;
   gradeLevel: string | null;
   section: string | null;
+  /** Status per event_sessions.id, across all dates */
   sessions: Record<string, StudentSessionStatus>;
+  /** Session IDs whose record was entered or changed manually */
+  correctedSessions: string[];
+  /** Whole-event counts across all sessions */
+  totals: StudentAttendanceTotalsDto;
 }
 
 interface EventAttendanceStatsDto {
@@ -76,17 +112,179 @@ interface EventAttendanceStatsDto {
   totalScans: number;
   totalPresent: number;
   totalLate: number;
+  totalExcused: number;
   totalAbsent: number;
+  totalCorrected: number;
+  /** Whether attendance may be corrected (published or completed events) */
+  canCorrect: boolean;
   uniqueStudents: number;
+  /** Whole-event breakdown: each period's sessions aggregated across dates */
   periods: PeriodStatsDto[];
+  /** Every event session, ordered by date and start time */
+  sessions: SessionStatsDto[];
+  dates: DateStatsDto[];
   students: StudentAttendanceRowDto[];
 }
 
+type AttendanceLogStatsRow = {
+  event_session_id: string;
+  status: string;
+  student_id: string | null;
+  source: string | null;
+  corrected_at: string | null;
+};
+
+const ALL_PERIODS: SessionPeriod[] = ["morning", "afternoon", "evening"];
+
+function parseSessionType(rawType: string): { period: SessionPeriod; direction: SessionDirection } {
+  const [rawPeriod, rawDirection] = rawType.split("_");
+  return {
+    period: rawPeriod === "afternoon" || rawPeriod === "evening" ? rawPeriod : "morning",
+    direction: rawDirection === "out" ? "out" : "in",
+  };
+}
+
+/** Students with a non-absent record among the logs. */
+function attendingStudents(logs: AttendanceLogStatsRow[]): Set<string> {
+  return new Set(
+    logs
+      .filter((log) => log.status !== "absent")
+      .map((log) => log.student_id)
+      .filter((id): id is string => Boolean(id))
+  );
+}
+
+function countStatuses(logs: AttendanceLogStatsRow[]) {
+  return {
+    totalScans: logs.length,
+    present: logs.filter((log) => log.status === "present").length,
+    late: logs.filter((log) => log.status === "late").length,
+    excused: logs.filter((log) => log.status === "excused").length,
+    absent: logs.filter((log) => log.status === "absent").length,
+    uniqueStudents: attendingStudents(logs).size,
+  };
+}
+
+/**
+ * Students who scanned IN for a session but have no OUT record.
+ */
+function countMissingOut(
+  logs: AttendanceLogStatsRow[],
+  inSessionId: string,
+  outSessionId: string
+): number {
+  const inStudents = attendingStudents(logs.filter((log) => log.event_session_id === inSessionId));
+  const outStudents = new Set(
+    logs
+      .filter((log) => log.event_session_id === outSessionId)
+      .map((log) => log.student_id)
+      .filter((id): id is string => Boolean(id))
+  );
+
+  let missing = 0;
+  inStudents.forEach((id) => {
+    if (!outStudents.has(id)) {
+      missing += 1;
+    }
+  });
+  return missing;
+}
+
+/**
+ * Period breakdown for the sessions of a single date.
+ */
+function buildDatePeriods(
+  sessions: SessionStatsDto[],
+  logs: AttendanceLogStatsRow[]
+): PeriodStatsDto[] {
+  const sessionsByType = new Map<string, SessionStatsDto>();
+  for (const stats of sessions) {
+    sessionsByType.set(stats.sessionType, stats);
+  }
+
+  const periods: PeriodStatsDto[] = [];
+
+  for (const period of ALL_PERIODS) {
+    const inSession = sessionsByType.get(`${period}_in`);
+    const outSession = sessionsByType.get(`${period}_out`);
+
+    if (!inSession && !outSession) {
+      continue;
+    }
+
+    periods.push({
+      period,
+      inSession,
+      outSession,
+      missingOutCount:
+        inSession && outSession
+          ? countMissingOut(logs, inSession.sessionId, outSession.sessionId)
+          : undefined,
+    });
+  }
+
+  return periods;
+}
+
+/**
+ * Whole-event period breakdown: sessions of the same type are summed across
+ * dates, and missing outs are counted per date then added up.
+ */
+function buildCumulativePeriods(
+  sessions: SessionStatsDto[],
+  dates: DateStatsDto[],
+  logs: AttendanceLogStatsRow[]
+): PeriodStatsDto[] {
+  const aggregate = (sessionType: string): SessionStatsDto | undefined => {
+    const matching = sessions.filter((session) => session.sessionType === sessionType);
+    if (matching.length === 0) return undefined;
+
+    const ids = new Set(matching.map((session) => session.sessionId));
+    const { period, direction } = parseSessionType(sessionType);
+
+    return {
+      sessionId: `all:${sessionType}`,
+      configSessionId: null,
+      date: null,
+      name: matching[0].name,
+      sessionType,
+      period,
+      direction,
+      startTime: null,
+      ...countStatuses(logs.filter((log) => ids.has(log.event_session_id))),
+    };
+  };
+
+  const periods: PeriodStatsDto[] = [];
+
+  for (const period of ALL_PERIODS) {
+    const inSession = aggregate(`${period}_in`);
+    const outSession = aggregate(`${period}_out`);
+
+    if (!inSession && !outSession) {
+      continue;
+    }
+
+    let missingOutCount: number | undefined;
+    if (inSession && outSession) {
+      missingOutCount = 0;
+      for (const dateStats of dates) {
+        const datePeriod = dateStats.periods.find((p) => p.period === period);
+        missingOutCount += datePeriod?.missingOutCount ?? 0;
+      }
+    }
+
+    periods.push({ period, inSession, outSession, missingOutCount });
+  }
+
+  return periods;
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "events.view");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -105,16 +303,22 @@ export async function GET(
   }
 
   try {
-    const eventRepository = new EventRepository(supabase);
+    const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
     const event = await eventRepository.findByIdWithFacility(eventId);
 
     if (!event) {
       return formatError(404, "NOT_FOUND", "Event not found.");
     }
 
+    // Organizers only see stats for their own events
+    const canViewAll = hasPermission(authResult.appUser.permissions, ["events.manage_all", "events.approve"]);
+    if (!canViewAll && event.ownerUserId !== authResult.appUser.id) {
+      return formatError(403, "FORBIDDEN", "You do not have permission to view stats for this event.");
+    }
+
     const { data: sessions, error: sessionsError } = await supabase
       .from("event_sessions")
-      .select("id, name, session_type")
+      .select("id, name, session_type, session_date, config_session_id, start_time")
       .eq("event_id", eventId);
 
     if (sessionsError) {
@@ -124,118 +328,101 @@ export async function GET(
     const sessionRows = sessions ?? [];
     const sessionIds = sessionRows.map((s) => s.id as string);
 
-    let logs: Array<{ event_session_id: string; status: string; student_id: string | null }> = [];
+    let logs: AttendanceLogStatsRow[] = [];
 
     if (sessionIds.length > 0) {
       const { data: logRows, error: logsError } = await supabase
         .from("attendance_logs")
-        .select("event_session_id, status, student_id")
+        .select("event_session_id, status, student_id, source, corrected_at")
         .in("event_session_id", sessionIds);
 
       if (logsError) {
         return formatError(500, "LOGS_FETCH_FAILED", "Unable to load attendance logs.", logsError);
       }
 
-      logs = (logRows ?? []) as Array<{
-        event_session_id: string;
-        status: string;
-        student_id: string | null;
-      }>;
+      logs = (logRows ?? []) as AttendanceLogStatsRow[];
     }
 
-    const sessionStatsById = new Map<string, SessionStatsDto>();
-
-    for (const session of sessionRows) {
+    const sessionStats: SessionStatsDto[] = sessionRows.map((session) => {
       const rawType = (session.session_type ?? "morning_in") as string;
-      const [rawPeriod, rawDirection] = rawType.split("_");
-      const period: SessionPeriod =
-        rawPeriod === "afternoon" || rawPeriod === "evening" ? rawPeriod : "morning";
-      const direction: SessionDirection = rawDirection === "out" ? "out" : "in";
-
-      const sessionLogs = logs.filter((log) => log.event_session_id === session.id);
-      const present = sessionLogs.filter((log) => log.status === "present").length;
-      const late = sessionLogs.filter((log) => log.status === "late").length;
-      const absent = sessionLogs.filter((log) => log.status === "absent").length;
-      const uniqueStudents = new Set(
-        sessionLogs.map((log) => log.student_id).filter((id): id is string => Boolean(id))
-      ).size;
-
-      const stats: SessionStatsDto = {
+      const { period, direction } = parseSessionType(rawType);
+
+      return {
         sessionId: session.id,
+        configSessionId: session.config_session_id ?? null,
+        date: session.session_date ?? null,
         name: session.name,
         sessionType: rawType,
         period,
         direction,
-        totalScans: sessionLogs.length,
-        present,
-        late,
-        absent,
-        uniqueStudents,
+        startTime: session.start_time ?? null,
+        ...countStatuses(logs.filter((log) => log.event_session_id === session.id)),
       };
-
-      sessionStatsById.set(session.id, stats);
-    }
-
-    const sessionsByType = new Map<string, SessionStatsDto>();
-    for (const stats of sessionStatsById.values()) {
-      sessionsByType.set(stats.sessionType, stats);
-    }
-
-    const periods: PeriodStatsDto[] = [];
-    const allPeriods: SessionPeriod[] = ["morning", "afternoon", "evening"];
-
-    for (const period of allPeriods) {
-      const inSession = sessionsByType.get(`${period}_in`);
-      const outSession = sessionsByType.get(`${period}_out`);
-
-      if (!inSession && !outSession) {
-        continue;
+    });
+
+    // Dated sessions in calendar order; undated legacy sessions last
+    sessionStats.sort((a, b) => {
+      if (a.date !== b.date) {
+        if (a.date === null) return 1;
+        if (b.date === null) return -1;
+        return a.date.localeCompare(b.date);
       }
-
-      let missingOutCount: number | undefined;
-
-      if (inSession && outSession) {
-        const inStudents = new Set(
-          logs
-            .filter((log) => log.event_session_id === inSession.sessionId)
-            .map((log) => log.student_id)
-            .filter((id): id is string => Boolean(id))
-        );
-
-        const outStudents = new Set(
-          logs
-            .filter((log) => log.event_session_id === outSession.sessionId)
-            .map((log) => log.student_id)
-            .filter((id): id is string => Boolean(id))
-        );
-
-        let missing = 0;
-        inStudents.forEach((id) => {
-          if (!outStudents.has(id)) {
-            missing += 1;
-          }
+      return (a.startTime ?? "").localeCompare(b.startTime ?? "") || a.name.localeCompare(b.name);
+    });
+
+    const dates: DateStatsDto[] = [];
+    for (const session of sessionStats) {
+      const existingDate = dates.find((d) => d.date === session.date);
+      if (existingDate) {
+        existingDate.sessionIds.push(session.sessionId);
+      } else {
+        dates.push({
+          date: session.date,
+          sessionIds: [session.sessionId],
+          periods: [],
+          totalScans: 0,
+          totalPresent: 0,
+          totalLate: 0,
+          totalExcused: 0,
+          totalAbsent: 0,
+          uniqueStudents: 0,
         });
-
-        missingOutCount = missing;
       }
+    }
 
-      periods.push({
-        period,
-        inSession,
-        outSession,
-        missingOutCount,
-      });
+    for (const dateStats of dates) {
+      const ids = new Set(dateStats.sessionIds);
+      const dateLogs = logs.filter((log) => ids.has(log.event_session_id));
+      const counts = countStatuses(dateLogs);
+
+      dateStats.periods = buildDatePeriods(
+        sessionStats.filter((session) => ids.has(session.sessionId)),
+        dateLogs
+      );
+      dateStats.totalScans = counts.totalScans;
+      dateStats.totalPresent = counts.present;
+      dateStats.totalLate = counts.late;
+      dateStats.totalExcused = counts.excused;
+      dateStats.totalAbsent = counts.absent;
+      dateStats.uniqueStudents = counts.uniqueStudents;
     }
 
+    const periods = buildCumulativePeriods(sessionStats, dates, logs);
+
     const totalPresent = logs.filter((log) => log.status === "present").length;
     const totalLate = logs.filter((log) => log.status === "late").length;
+    const totalExcused = logs.filter((log) => log.status === "excused").length;
     const totalAbsent = logs.filter((log) => log.status === "absent").length;
+    const isCorrected = (log: AttendanceLogStatsRow) =>
+      log.source === "manual" || Boolean(log.corrected_at);
+    const totalCorrected = logs.filter(isCorrected).length;
 
     const studentIds = Array.from(
       new Set(logs.map((log) => log.student_id).filter((id): id is string => Boolean(id)))
     );
 
-    const uniqueStudents = studentIds.length;
+    // Absences are materialized for expected students; they did not attend
+    const uniqueStudents = attendingStudents(logs).size;
 
     let students: StudentAttendanceRowDto[] = [];
 
@@ -350,7 +537,10 @@ export async function GET(
         }
       }
 
-      const logsByStudent = new Map<string, Array<{ event_session_id: string; status: string }>>();
+      const logsByStudent = new Map<
+        string,
+        Array<{ event_session_id: string; status: string; corrected: boolean }>
+      >();
       for (const log of logs) {
         if (!log.student_id) continue;
         const id = log.student_id;
@@ -360,11 +550,10 @@ export async function GET(
         logsByStudent.get(id)!.push({
           event_session_id: log.event_session_id,
           status: log.status,
+          corrected: isCorrected(log),
         });
       }
 
-      const sessionsForMatrix = Array.from(sessionStatsById.values());
-
       students = studentIds.map((studentId) => {
         const base = byId.get(studentId) ?? {
           id: studentId,
@@ -376,8 +565,15 @@ export async function GET(
         const studentLogs = logsByStudent.get(studentId) ?? [];
 
         const sessions: Record<string, StudentSessionStatus> = {};
+        const totals: StudentAttendanceTotalsDto = {
+          present: 0,
+          late: 0,
+          excused: 0,
+          absent: 0,
+          noScan: 0,
+        };
 
-        for (const session of sessionsForMatrix) {
+        for (const session of sessionStats) {
           const log = studentLogs.find((l) => l.event_session_id === session.sessionId);
           let status: StudentSessionStatus = "none";
 
@@ -386,15 +582,19 @@ export async function GET(
               status = "present";
             } else if (log.status === "late") {
               status = "late";
+            } else if (log.status === "excused") {
+              status = "excused";
+            } else if (log.status === "absent") {
+              status = "absent";
             }
           } else if (session.direction === "out") {
             const inSessionType = `${session.period}_in`;
-            const inSession = sessionsForMatrix.find(
-              (s) => s.sessionType === inSessionType
+            const inSession = sessionStats.find(
+              (s) => s.sessionType === inSessionType && s.date === session.date
             );
             if (inSession) {
               const hasInLog = studentLogs.some(
-                (l) => l.event_session_id === inSession.sessionId
+                (l) => l.event_session_id === inSession.sessionId && l.status !== "absent"
               );
               if (hasInLog) {
                 status = "no_scan";
@@ -403,6 +603,12 @@ export async function GET(
           }
 
           sessions[session.sessionId] = status;
+
+          if (status === "no_scan") {
+            totals.noScan += 1;
+          } else if (status !== "none") {
+            totals[status] += 1;
+          }
         }
 
         const firstName = base.first_name;
@@ -420,6 +626,10 @@ export async function GET(
           gradeLevel: level?.name ?? null,
           section: section?.name ?? null,
           sessions,
+          correctedSessions: studentLogs
+            .filter((log) => log.corrected)
+            .map((log) => log.event_session_id),
+          totals,
         };
       });
     }
@@ -427,13 +637,18 @@ export async function GET(
     const stats: EventAttendanceStatsDto = {
       eventId,
       eventTitle: event.title,
-      totalSessions: sessionStatsById.size,
+      totalSessions: sessionStats.length,
       totalScans: logs.length,
       totalPresent,
       totalLate,
+      totalExcused,
       totalAbsent,
+      totalCorrected,
+      canCorrect: event.lifecycleStatus === "published" || event.lifecycleStatus === "completed",
       uniqueStudents,
       periods,
+      sessions: sessionStats,
+      dates,
       students,
     };
 
@@ -1,25 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import { EventRepository, EventService } from "@/modules/sems";
-import { requireRoles } from "@/core/auth/server-role-guard";
-import type { UserRole } from "@/core/auth/types";
+import { requirePermission } from "@/core/auth/server-role-guard";
 import {
   buildActorContext,
+  EVENT_ORGANIZER_PERMISSIONS,
   formatError,
   formatSuccess,
   parseListEventsOptions,
 } from "../utils";
 
-const ORGANIZER_ROLES: UserRole[] = ["SUPER_ADMIN", "ADMIN", "TEACHER", "STAFF"];
-
 export async function GET(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, ORGANIZER_ROLES);
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
   if ("error" in authResult) {
     return authResult.error;
   }
 
   const supabase = getAdminSupabaseClient();
-  const eventRepository = new EventRepository(supabase);
+  const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
   const eventService = new EventService(eventRepository);
   const options = parseListEventsOptions(new URL(request.url).searchParams);
 
@@ -1,7 +1,6 @@
 import { NextRequest } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission } from "@/core/auth/server-role-guard";
 import { formatError, formatSuccess } from "../utils";
 
 export const runtime = "nodejs";
@@ -10,7 +9,7 @@ const BUCKET_NAME = "event-posters";
 const MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024; // 5 MB
 
 export async function POST(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "events.manage_all");
   if ("error" in authResult) {
     return authResult.error;
   }
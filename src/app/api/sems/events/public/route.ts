@@ -3,11 +3,16 @@ import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import { EventRepository, EventService } from "@/modules/sems";
 import { formatError, formatSuccess, parseListEventsOptions } from "../utils";
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export async function GET(request: NextRequest): Promise<NextResponse> {
+  const searchParams = new URL(request.url).searchParams;
+  // Public events of every school, or of one school with ?schoolId=
+  const schoolId = searchParams.get("schoolId");
   const supabase = getAdminSupabaseClient();
-  const eventRepository = new EventRepository(supabase);
+  const eventRepository = new EventRepository(supabase, schoolId && UUID_REGEX.test(schoolId) ? schoolId : null);
   const eventService = new EventService(eventRepository);
-  const options = parseListEventsOptions(new URL(request.url).searchParams);
+  const options = parseListEventsOptions(searchParams);
 
   try {
     const result = await eventService.listPublicEvents(options);
@@ -16,8 +16,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import {
+  AbsenteeRepository,
+  AbsenteeService,
   EventService,
   EventRepository,
+  ScannerResourceRepository,
+  ScanRepository,
   ValidationError,
   NotFoundError,
   type CreateEventDto,
@@ -29,10 +33,18 @@ import {
   type WorkflowActorContext,
   type IEventRepository,
 } from "@/modules/sems";
-import { ADMIN_ROLES, ADMIN_SCANNER_ROLES, ADMIN_TEACHER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import {
+  AttendanceNotificationService,
+  EventWorkflowNotificationService,
+  NotificationRepository,
+  NotificationSettingsRepository,
+  OutboxRepository,
+} from "@/modules/communication";
+import { SchoolCalendarRepository, SchoolCalendarService } from "@/modules/academics";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
 import {
   buildActorContext,
+  EVENT_ORGANIZER_PERMISSIONS,
   formatError,
   formatSuccess,
   parseListEventsOptions,
@@ -184,18 +196,27 @@ function parseCreateRequestBody(body: unknown): CreateEventDto | null {
  * {
  *   "success": true,
  *   "data": {
- *     "event": { ... }
+ *     "event": { ... },
+ *     "warnings": [{ "field": "sessionConfig", "code": "NON_SCHOOL_DAY", "message": "..." }]
  *   },
  *   "meta": { "timestamp": "..." }
  * }
  * ```
+ *
+ * `warnings` lists session dates that fall on holidays, suspensions,
+ * weekends or outside the school year. They do not block creation.
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
   if ("error" in authResult) {
     return authResult.error;
   }
 
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
   const { appUser } = authResult;
 
   // Step 2: Parse request body
@@ -208,13 +229,19 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
   // Step 3: Create service with repository dependency
   const supabase = getAdminSupabaseClient();
-  const eventRepository: IEventRepository = new EventRepository(supabase);
-  const eventService = new EventService(eventRepository);
+  const eventRepository: IEventRepository = new EventRepository(supabase, schoolResult.schoolId);
+  const eventService = new EventService(
+    eventRepository,
+    new EventWorkflowNotificationService(new NotificationRepository(supabase)),
+    new SchoolCalendarService(new SchoolCalendarRepository(supabase, schoolResult.schoolId))
+  );
 
   // Step 4: Create event via service
   try {
     const event = await eventService.createEvent(dto, buildActorContext(appUser));
-    return formatSuccess({ event }, 201);
+    const nonSchoolDays = await eventService.findNonSchoolDays(dto);
+    const warnings = eventService.validateCreateEvent(dto, nonSchoolDays).warnings ?? [];
+    return formatSuccess({ event, warnings }, 201);
   } catch (error) {
     // Handle domain-specific errors
     if (error instanceof ValidationError) {
@@ -268,14 +295,14 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
  * - status: live, scheduled, or completed
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "events.view");
   if ("error" in authResult) {
     return authResult.error;
   }
 
   // Create service with repository dependency
   const supabase = getAdminSupabaseClient();
-  const eventRepository = new EventRepository(supabase);
+  const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
   const eventService = new EventService(eventRepository);
 
   try {
@@ -328,7 +355,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
  * ```
  */
 export async function PUT(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -444,12 +471,36 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
 
   // Step 3: Create service with repository dependency
   const supabase = getAdminSupabaseClient();
-  const eventRepository = new EventRepository(supabase);
-  const eventService = new EventService(eventRepository);
+  const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
+  const eventService = new EventService(
+    eventRepository,
+    new EventWorkflowNotificationService(new NotificationRepository(supabase))
+  );
 
   // Step 4: Update event via service
   try {
     const event = await eventService.updateEvent(dto, buildActorContext(appUser));
+
+    // Completing an event fixes its attendance: record absentees for every entry session
+    if (dto.workflowAction === "COMPLETE") {
+      try {
+        const absenteeService = new AbsenteeService(
+          eventRepository,
+          new ScannerResourceRepository(supabase),
+          new ScanRepository(supabase),
+          new AbsenteeRepository(supabase),
+          new AttendanceNotificationService(
+            new NotificationSettingsRepository(supabase, authResult.appUser.schoolId),
+            new OutboxRepository(supabase)
+          )
+        );
+        await absenteeService.materializeCompletedEvent(event);
+      } catch (absenteeError) {
+        // Organizers can re-run via /api/sems/events/[id]/absentees
+        console.error("[PUT /api/sems/events] Absentee materialization failed:", absenteeError);
+      }
+    }
+
     return formatSuccess({ event }, 200);
   } catch (error) {
     // Handle domain-specific errors
@@ -491,7 +542,7 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
  * { "ids": ["uuid1", "uuid2", ...] }
  */
 export async function DELETE(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "events.manage_all");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -507,7 +558,7 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
 
   // Create service with repository dependency
   const supabase = getAdminSupabaseClient();
-  const eventRepository = new EventRepository(supabase);
+  const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
   const eventService = new EventService(eventRepository);
 
   try {
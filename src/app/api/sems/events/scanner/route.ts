@@ -2,8 +2,7 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import { EventService, EventRepository } from "@/modules/sems";
-import { ADMIN_SCANNER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -36,7 +35,7 @@ function formatError(status: number, code: string, message: string, details?: un
 }
 
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_SCANNER_ROLES));
+  const authResult = await requirePermission(request, "attendance.scan");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -50,7 +49,7 @@ export async function GET(request: NextRequest) {
   const searchTerm = searchParams.get("search") ?? undefined;
 
   const supabase = getAdminSupabaseClient();
-  const eventRepository = new EventRepository(supabase);
+  const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
   const eventService = new EventService(eventRepository);
 
   try {
@@ -11,17 +11,27 @@ import {
 
 type SessionPeriod = "morning" | "afternoon" | "evening";
 type SessionDirection = "in" | "out";
+type SessionAttendanceStatus = "none" | "present" | "late" | "excused" | "absent";
 
 interface StudentEventSessionDto {
   sessionId: string;
+  /** School-local date (YYYY-MM-DD); null for sessions created before Phase 1.17 */
+  date: string | null;
   period: SessionPeriod;
   direction: SessionDirection;
   scheduledOpens: string | null;
   scheduledCloses: string | null;
   scannedAt: string | null;
-  status: "none" | "present" | "late";
+  status: SessionAttendanceStatus;
 }
 
+const SESSION_ATTENDANCE_STATUSES = new Set<SessionAttendanceStatus>([
+  "present",
+  "late",
+  "excused",
+  "absent",
+]);
+
 export async function GET(request: NextRequest): Promise<NextResponse> {
   const authResult = await requireRoles(request, ["STUDENT"]);
   if ("error" in authResult) {
@@ -29,7 +39,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   }
 
   const supabase = getAdminSupabaseClient();
-  const eventRepository = new EventRepository(supabase);
+  const eventRepository = new EventRepository(supabase, authResult.appUser.schoolId);
   const eventService = new EventService(eventRepository);
   const options = parseListEventsOptions(new URL(request.url).searchParams);
 
@@ -59,7 +69,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
     const { data: sessionRows, error: sessionsError } = await supabase
       .from("event_sessions")
-      .select("id, event_id, name, session_type, start_time, end_time")
+      .select("id, event_id, name, session_type, start_time, end_time, session_date")
       .in("event_id", eventIds);
 
     if (sessionsError) {
@@ -76,6 +86,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         session_type: string | null;
         start_time: string | null;
         end_time: string | null;
+        session_date: string | null;
       }>
     >();
 
@@ -93,6 +104,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         session_type: (row as any).session_type ?? null,
         start_time: (row as any).start_time ?? null,
         end_time: (row as any).end_time ?? null,
+        session_date: (row.session_date as string | null) ?? null,
       });
       sessionIds.push(row.id as string);
     }
@@ -162,17 +174,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           const direction: SessionDirection = rawDirection === "out" ? "out" : "in";
 
           const log = logsBySessionId.get(session.id) ?? null;
-          let status: "none" | "present" | "late" = "none";
-          if (log) {
-            if (log.status === "late") {
-              status = "late";
-            } else if (log.status === "present") {
-              status = "present";
-            }
+          let status: SessionAttendanceStatus = "none";
+          if (log && SESSION_ATTENDANCE_STATUSES.has(log.status as SessionAttendanceStatus)) {
+            status = log.status as SessionAttendanceStatus;
           }
 
           return {
             sessionId: session.id,
+            date: session.session_date,
             period,
             direction,
             scheduledOpens: session.start_time,
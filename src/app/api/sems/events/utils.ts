@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import type { WorkflowActorContext, ListEventsOptions } from "@/modules/sems";
 import type { RoleGuardUser } from "@/core/auth/server-role-guard";
+import type { Permission } from "@/config/permissions";
+
+/** Enough to change events; EventService then checks ownership */
+export const EVENT_ORGANIZER_PERMISSIONS: Permission[] = ["events.create", "events.manage_all"];
 
 export function formatSuccess<T>(data: T, status = 200): NextResponse {
   return NextResponse.json(
@@ -41,6 +45,7 @@ export function buildActorContext(appUser: RoleGuardUser): WorkflowActorContext
   return {
     userId: appUser.id,
     roles: appUser.roles,
+    permissions: appUser.permissions,
   };
 }
 
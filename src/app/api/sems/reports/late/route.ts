@@ -0,0 +1,88 @@
+/**
+ * API Route: /api/sems/reports/late
+ *
+ * Late list for disciplinary follow-up: late arrivals and missing exits for
+ * one event or a date range, with repeat offenders ranked.
+ *
+ * @remarks
+ * - GET: `?eventId=` or `?from=YYYY-MM-DD&to=YYYY-MM-DD`, optionally narrowed
+ *   with `levelId`, `sectionId` and `adviserId`
+ * - Organizers only see their own events, unless `adviserId` is themselves
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import {
+  LateReportRepository,
+  LateReportService,
+  ValidationError,
+  NotFoundError,
+  BusinessRuleError,
+  type LateReportFilters,
+} from "@/modules/sems";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { buildActorContext, formatError, formatSuccess } from "../../events/utils";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/sems/reports/late
+ *
+ * Returns `{ report }` with incidents (by date) and ranked offenders.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "reports.view");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const readParam = (key: string) => searchParams.get(key)?.trim() || undefined;
+
+  const filters: LateReportFilters = {
+    eventId: readParam("eventId"),
+    from: readParam("from"),
+    to: readParam("to"),
+    levelId: readParam("levelId"),
+    sectionId: readParam("sectionId"),
+    adviserUserId: readParam("adviserId"),
+  };
+
+  for (const key of ["eventId", "levelId", "sectionId", "adviserUserId"] as const) {
+    const value = filters[key];
+    if (value && !UUID_REGEX.test(value)) {
+      return formatError(400, "INVALID_ID", `Invalid ${key} format.`);
+    }
+  }
+
+  try {
+    const service = new LateReportService(
+      new LateReportRepository(getAdminSupabaseClient(), authResult.appUser.schoolId)
+    );
+    const report = await service.generateReport(filters, buildActorContext(authResult.appUser));
+    return formatSuccess({ report });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+    }
+
+    if (error instanceof NotFoundError) {
+      return formatError(404, "NOT_FOUND", error.message, {
+        resource: error.resource,
+        id: error.id,
+      });
+    }
+
+    if (error instanceof BusinessRuleError) {
+      return formatError(403, "FORBIDDEN", error.message);
+    }
+
+    console.error("[GET /api/sems/reports/late] Unexpected error:", error);
+    return formatError(
+      500,
+      "LATE_REPORT_FAILED",
+      "Unable to generate the late report.",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
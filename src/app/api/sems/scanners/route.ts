@@ -2,8 +2,8 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import type { UserRole } from "@/core/auth/types";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
 
 interface ScannerUserDto {
   id: string;
@@ -66,7 +66,7 @@ function normalizeRoles(roles: string[] | null | undefined): UserRole[] {
 }
 
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "events.manage_all");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -76,6 +76,7 @@ export async function GET(request: NextRequest) {
   const { data: rows, error: scannersError } = await supabase
     .from("app_users")
     .select("id, email, full_name, roles, primary_role, is_active")
+    .match(schoolFilter(authResult.appUser.schoolId))
     .order("full_name", { ascending: true });
 
   if (scannersError || !rows) {
@@ -0,0 +1,187 @@
+/**
+ * API Route: /api/sems/series/[id]
+ *
+ * A single recurring event series.
+ *
+ * @remarks
+ * - GET: Series pattern, session template and occurrences
+ * - PATCH: Edit or move through the workflow "this and following" occurrences,
+ *   starting at `fromEventId`; single-occurrence edits go through
+ *   PATCH /api/sems/events/[id]
+ *
+ * Only the series owner and admins may read or change it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import type { SchoolScope } from "@/core/db/school-scope";
+import {
+  EventRepository,
+  EventSeriesRepository,
+  EventSeriesService,
+  EventService,
+  VenueService,
+  ValidationError,
+  NotFoundError,
+  BusinessRuleError,
+  type EventWorkflowAction,
+  type UpdateEventSeriesDto,
+} from "@/modules/sems";
+import { EventWorkflowNotificationService, NotificationRepository } from "@/modules/communication";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
+import { buildActorContext, EVENT_ORGANIZER_PERMISSIONS, formatError, formatSuccess } from "../../events/utils";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createSeriesService(schoolId: SchoolScope): EventSeriesService {
+  const supabase = getAdminSupabaseClient();
+  return new EventSeriesService(
+    new EventSeriesRepository(supabase, schoolId),
+    // No notifier here: the series service sends one notice per change
+    new EventService(new EventRepository(supabase, schoolId)),
+    new VenueService(supabase, schoolId),
+    new EventWorkflowNotificationService(new NotificationRepository(supabase))
+  );
+}
+
+function parseUpdateSeriesBody(seriesId: string, body: unknown): UpdateEventSeriesDto | null {
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+  const data = body as Record<string, unknown>;
+  if (typeof data.fromEventId !== "string") {
+    return null;
+  }
+
+  const dto: UpdateEventSeriesDto = { seriesId, fromEventId: data.fromEventId };
+
+  if (typeof data.title === "string") dto.title = data.title;
+  if (typeof data.description === "string") dto.description = data.description;
+  if (typeof data.posterImageUrl === "string" || data.posterImageUrl === null) {
+    dto.posterImageUrl = data.posterImageUrl;
+  }
+  if (typeof data.facilityId === "string" || data.facilityId === null) {
+    dto.facilityId = data.facilityId || null;
+  }
+  if (data.audienceConfig && typeof data.audienceConfig === "object") {
+    dto.audienceConfig = data.audienceConfig as UpdateEventSeriesDto["audienceConfig"];
+  }
+  if (data.scannerConfig && typeof data.scannerConfig === "object") {
+    dto.scannerConfig = data.scannerConfig as UpdateEventSeriesDto["scannerConfig"];
+  }
+  if (typeof data.visibility === "string") {
+    dto.visibility = data.visibility as UpdateEventSeriesDto["visibility"];
+  }
+  if (Array.isArray(data.sessionTemplate)) {
+    dto.sessionTemplate = data.sessionTemplate as UpdateEventSeriesDto["sessionTemplate"];
+  }
+  if (typeof data.workflowAction === "string") {
+    dto.workflowAction = data.workflowAction as EventWorkflowAction;
+  }
+  if (typeof data.workflowComment === "string" || data.workflowComment === null) {
+    dto.workflowComment = data.workflowComment;
+  }
+  if (typeof data.actionReason === "string" || data.actionReason === null) {
+    dto.actionReason = data.actionReason;
+  }
+
+  return dto;
+}
+
+function mapServiceError(error: unknown, label: string, code: string, message: string): NextResponse {
+  if (error instanceof ValidationError) {
+    return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+  }
+
+  if (error instanceof NotFoundError) {
+    return formatError(404, "NOT_FOUND", error.message, {
+      resource: error.resource,
+      id: error.id,
+    });
+  }
+
+  if (error instanceof BusinessRuleError) {
+    return formatError(403, "FORBIDDEN", error.message);
+  }
+
+  console.error(`[${label}] Unexpected error:`, error);
+  return formatError(500, code, message, error instanceof Error ? error.message : "Unknown error");
+}
+
+// ============================================================================
+// Route Handlers
+// ============================================================================
+
+/**
+ * GET /api/sems/series/[id]
+ *
+ * Returns `{ series }` with its occurrences in date order.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "events.view");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid series ID format.");
+  }
+
+  try {
+    const series = await createSeriesService(authResult.appUser.schoolId).getSeries(
+      id,
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ series });
+  } catch (error) {
+    return mapServiceError(error, "GET /api/sems/series/[id]", "SERIES_FETCH_FAILED", "Unable to load event series.");
+  }
+}
+
+/**
+ * PATCH /api/sems/series/[id]
+ *
+ * Body: `{ fromEventId, ...changes }` using the same fields as an event edit,
+ * with `sessionTemplate` in place of per-date sessions.
+ * Returns `{ series, updatedEventIds, failures }`.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid series ID format.");
+  }
+
+  const dto = parseUpdateSeriesBody(id, await request.json().catch(() => null));
+  if (!dto || !UUID_REGEX.test(dto.fromEventId)) {
+    return formatError(400, "INVALID_REQUEST", "fromEventId is required.");
+  }
+
+  try {
+    const service = createSeriesService(schoolResult.schoolId);
+    const result = await service.updateSeries(dto, buildActorContext(authResult.appUser));
+    return formatSuccess(result);
+  } catch (error) {
+    return mapServiceError(error, "PATCH /api/sems/series/[id]", "SERIES_UPDATE_FAILED", "Unable to update event series.");
+  }
+}
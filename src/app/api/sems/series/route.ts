@@ -0,0 +1,136 @@
+/**
+ * API Route: /api/sems/series
+ *
+ * Recurring event series (daily gate attendance, weekly flag ceremonies).
+ *
+ * @remarks
+ * - POST: Create a series and one event per occurrence date
+ *
+ * Pattern expansion, venue conflicts and per-occurrence validation are
+ * handled by EventSeriesService.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import type { SchoolScope } from "@/core/db/school-scope";
+import {
+  EventRepository,
+  EventSeriesRepository,
+  EventSeriesService,
+  EventService,
+  VenueService,
+  ValidationError,
+  NotFoundError,
+  BusinessRuleError,
+  type CreateEventSeriesDto,
+  type EventRecurrenceRule,
+  type EventVisibility,
+} from "@/modules/sems";
+import { EventWorkflowNotificationService, NotificationRepository } from "@/modules/communication";
+import { SchoolCalendarRepository, SchoolCalendarService } from "@/modules/academics";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
+import { buildActorContext, EVENT_ORGANIZER_PERMISSIONS, formatError, formatSuccess } from "../events/utils";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createSeriesService(schoolId: SchoolScope): EventSeriesService {
+  const supabase = getAdminSupabaseClient();
+  const venueService = new VenueService(supabase, schoolId);
+  return new EventSeriesService(
+    new EventSeriesRepository(supabase, schoolId),
+    // No notifier here: the series service sends one notice per series.
+    // The venue lookup makes createEvent refuse booked venues per occurrence.
+    new EventService(new EventRepository(supabase, schoolId), undefined, undefined, venueService),
+    venueService,
+    new EventWorkflowNotificationService(new NotificationRepository(supabase)),
+    new SchoolCalendarService(new SchoolCalendarRepository(supabase, schoolId))
+  );
+}
+
+function parseCreateSeriesBody(body: unknown): CreateEventSeriesDto | null {
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+  const data = body as Record<string, unknown>;
+
+  return {
+    title: typeof data.title === "string" ? data.title : "",
+    description: typeof data.description === "string" ? data.description : undefined,
+    posterImageUrl: typeof data.posterImageUrl === "string" ? data.posterImageUrl : undefined,
+    facilityId: typeof data.facilityId === "string" && data.facilityId ? data.facilityId : undefined,
+    audienceConfig:
+      data.audienceConfig && typeof data.audienceConfig === "object"
+        ? (data.audienceConfig as CreateEventSeriesDto["audienceConfig"])
+        : { version: 1, rules: [] },
+    scannerConfig:
+      data.scannerConfig && typeof data.scannerConfig === "object"
+        ? (data.scannerConfig as CreateEventSeriesDto["scannerConfig"])
+        : { version: 1, scannerIds: [] },
+    visibility: typeof data.visibility === "string" ? (data.visibility as EventVisibility) : "internal",
+    // Shape is checked by EventSeriesService
+    recurrence: data.recurrence as EventRecurrenceRule,
+    sessionTemplate: Array.isArray(data.sessionTemplate)
+      ? (data.sessionTemplate as CreateEventSeriesDto["sessionTemplate"])
+      : [],
+    skipConflictingDates: data.skipConflictingDates === true,
+  };
+}
+
+// ============================================================================
+// Route Handlers
+// ============================================================================
+
+/**
+ * POST /api/sems/series
+ *
+ * Body: `{ title, description?, facilityId?, audienceConfig, scannerConfig,
+ * visibility?, recurrence, sessionTemplate, skipConflictingDates? }`.
+ * Returns `{ series, skippedConflicts }`.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
+  const dto = parseCreateSeriesBody(await request.json().catch(() => null));
+  if (!dto) {
+    return formatError(400, "INVALID_REQUEST", "Request body is required.");
+  }
+
+  try {
+    const service = createSeriesService(schoolResult.schoolId);
+    const result = await service.createSeries(dto, buildActorContext(authResult.appUser));
+    return formatSuccess(result, 201);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+    }
+
+    if (error instanceof NotFoundError) {
+      return formatError(404, "NOT_FOUND", error.message, {
+        resource: error.resource,
+        id: error.id,
+      });
+    }
+
+    if (error instanceof BusinessRuleError) {
+      return formatError(409, "BUSINESS_RULE_VIOLATION", error.message);
+    }
+
+    console.error("[POST /api/sems/series] Unexpected error:", error);
+    return formatError(
+      500,
+      "SERIES_CREATE_FAILED",
+      "Unable to create event series.",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
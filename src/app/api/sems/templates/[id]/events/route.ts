@@ -0,0 +1,65 @@
+/**
+ * API Route: /api/sems/templates/[id]/events
+ *
+ * Create events from a template.
+ *
+ * @remarks
+ * - POST: Create a draft event from the template, starting on `startDate`.
+ *   Session days and the registration window keep their offsets from the
+ *   first day
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
+import {
+  buildActorContext,
+  EVENT_ORGANIZER_PERMISSIONS,
+  formatError,
+  formatSuccess,
+} from "../../../events/utils";
+import { createTemplateService, mapTemplateError, UUID_REGEX } from "../../utils";
+
+/**
+ * POST /api/sems/templates/[id]/events
+ *
+ * Body: `{ startDate: "YYYY-MM-DD", title?: string }`; the title defaults to
+ * the template's. Returns 201 with `{ event }`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid template ID format.");
+  }
+
+  const body = (await request.json().catch(() => null)) as { startDate?: unknown; title?: unknown } | null;
+  if (!body || typeof body.startDate !== "string") {
+    return formatError(400, "INVALID_REQUEST", "startDate is required.");
+  }
+
+  try {
+    const event = await createTemplateService(schoolResult.schoolId).createEventFromTemplate(
+      id,
+      {
+        startDate: body.startDate,
+        title: typeof body.title === "string" ? body.title : undefined,
+      },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ event }, 201);
+  } catch (error) {
+    return mapTemplateError(error, "POST /api/sems/templates/[id]/events");
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API Route: /api/sems/templates/[id]
+ *
+ * A single event template.
+ *
+ * @remarks
+ * - DELETE: Remove the template (its owner or an admin). Events already
+ *   created from it are kept
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { buildActorContext, EVENT_ORGANIZER_PERMISSIONS, formatError, formatSuccess } from "../../events/utils";
+import { createTemplateService, mapTemplateError, UUID_REGEX } from "../utils";
+
+/**
+ * DELETE /api/sems/templates/[id]
+ *
+ * Returns `{ deleted: true }`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !UUID_REGEX.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid template ID format.");
+  }
+
+  try {
+    await createTemplateService(authResult.appUser.schoolId).deleteTemplate(id, buildActorContext(authResult.appUser));
+    return formatSuccess({ deleted: true });
+  } catch (error) {
+    return mapTemplateError(error, "DELETE /api/sems/templates/[id]");
+  }
+}
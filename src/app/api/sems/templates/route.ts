@@ -0,0 +1,65 @@
+/**
+ * API Route: /api/sems/templates
+ *
+ * Event templates shared by organizers.
+ *
+ * @remarks
+ * - GET: All templates, by name
+ * - POST: Save an event the caller manages as a named template
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
+import { buildActorContext, EVENT_ORGANIZER_PERMISSIONS, formatError, formatSuccess } from "../events/utils";
+import { UUID_REGEX, createTemplateService, mapTemplateError } from "./utils";
+
+/**
+ * GET /api/sems/templates
+ *
+ * Returns `{ templates }`.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  try {
+    const templates = await createTemplateService(authResult.appUser.schoolId).listTemplates();
+    return formatSuccess({ templates });
+  } catch (error) {
+    return mapTemplateError(error, "GET /api/sems/templates");
+  }
+}
+
+/**
+ * POST /api/sems/templates
+ *
+ * Body: `{ eventId, name }`. Returns 201 with `{ template }`.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, EVENT_ORGANIZER_PERMISSIONS);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
+  const body = (await request.json().catch(() => null)) as { eventId?: unknown; name?: unknown } | null;
+  if (!body || typeof body.eventId !== "string" || !UUID_REGEX.test(body.eventId)) {
+    return formatError(400, "INVALID_REQUEST", "A valid eventId is required.");
+  }
+
+  try {
+    const template = await createTemplateService(schoolResult.schoolId).createTemplate(
+      { eventId: body.eventId, name: typeof body.name === "string" ? body.name : "" },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ template }, 201);
+  } catch (error) {
+    return mapTemplateError(error, "POST /api/sems/templates");
+  }
+}
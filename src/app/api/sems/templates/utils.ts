@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import type { SchoolScope } from "@/core/db/school-scope";
+import {
+  EventRepository,
+  EventService,
+  EventTemplateRepository,
+  EventTemplateService,
+  ValidationError,
+  NotFoundError,
+  BusinessRuleError,
+} from "@/modules/sems";
+import { EventWorkflowNotificationService, NotificationRepository } from "@/modules/communication";
+import { formatError } from "../events/utils";
+
+export const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function createTemplateService(schoolId: SchoolScope): EventTemplateService {
+  const supabase = getAdminSupabaseClient();
+  return new EventTemplateService(
+    new EventTemplateRepository(supabase, schoolId),
+    new EventService(
+      new EventRepository(supabase, schoolId),
+      new EventWorkflowNotificationService(new NotificationRepository(supabase))
+    )
+  );
+}
+
+/**
+ * Map service errors to responses; unexpected errors are logged as `route`.
+ */
+export function mapTemplateError(error: unknown, route: string): NextResponse {
+  if (error instanceof ValidationError) {
+    return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+  }
+
+  if (error instanceof NotFoundError) {
+    return formatError(404, "NOT_FOUND", error.message, {
+      resource: error.resource,
+      id: error.id,
+    });
+  }
+
+  if (error instanceof BusinessRuleError) {
+    return formatError(403, "FORBIDDEN", error.message);
+  }
+
+  console.error(`[${route}] Unexpected error:`, error);
+  return formatError(
+    500,
+    "EVENT_TEMPLATE_FAILED",
+    "Unable to process the event template request.",
+    error instanceof Error ? error.message : "Unknown error"
+  );
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -86,9 +86,9 @@ interface GuardianDto {
 }
 
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, [...ADMIN_ROLES]);
-  if (authResult instanceof NextResponse) {
-    return authResult;
+  const authResult = await requirePermission(request, "guardians.manage");
+  if ("error" in authResult) {
+    return authResult.error;
   }
 
   const supabase = getAdminSupabaseClient();
@@ -98,6 +98,7 @@ export async function GET(request: NextRequest) {
     .from("app_users")
     .select("id, email, full_name, roles, primary_role, is_active, created_at")
     .or("roles.cs.{parent},roles.cs.{PARENT},primary_role.eq.parent,primary_role.eq.PARENT")
+    .match(schoolFilter(authResult.appUser.schoolId))
     .order("full_name", { ascending: true });
 
   if (usersError) {
@@ -202,9 +203,9 @@ interface UpdateGuardianBody {
 }
 
 export async function PATCH(request: NextRequest) {
-  const authResult = await requireRoles(request, [...ADMIN_ROLES]);
-  if (authResult instanceof NextResponse) {
-    return authResult;
+  const authResult = await requirePermission(request, "guardians.manage");
+  if ("error" in authResult) {
+    return authResult.error;
   }
 
   const body = (await request.json().catch(() => null)) as UpdateGuardianBody | null;
@@ -244,6 +245,7 @@ export async function PATCH(request: NextRequest) {
     .from("app_users")
     .update(updates)
     .eq("id", id)
+    .match(schoolFilter(authResult.appUser.schoolId))
     .select("id, email, full_name, roles, primary_role, is_active, created_at")
     .single();
 
@@ -252,6 +254,9 @@ export async function PATCH(request: NextRequest) {
     if (updateError.code === "23505") {
       return formatError(409, "DUPLICATE_EMAIL", "This email is already in use.");
     }
+    if (updateError.code === "PGRST116") {
+      return formatError(404, "GUARDIAN_NOT_FOUND", "Guardian not found.");
+    }
     return formatError(500, "DATABASE_ERROR", "Failed to update guardian.");
   }
 
@@ -324,9 +329,9 @@ export async function PATCH(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
-  const authResult = await requireRoles(request, [...ADMIN_ROLES]);
-  if (authResult instanceof NextResponse) {
-    return authResult;
+  const authResult = await requirePermission(request, "guardians.manage");
+  if ("error" in authResult) {
+    return authResult.error;
   }
 
   const supabase = getAdminSupabaseClient();
@@ -362,6 +367,7 @@ export async function DELETE(request: NextRequest) {
     .from("app_users")
     .update({ is_active: false })
     .in("id", guardianIds)
+    .match(schoolFilter(authResult.appUser.schoolId))
     .select("id");
 
   if (error) {
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES, ADMIN_TEACHER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -44,6 +44,7 @@ type SectionRow = {
   id: string;
   name: string;
   level_id: string | null;
+  adviser_user_id: string | null;
   created_at: string;
   is_active: boolean;
 };
@@ -58,6 +59,8 @@ type SectionDto = {
   id: string;
   name: string;
   levelId: string | null;
+  adviserUserId: string | null;
+  adviserName?: string | null;
   isActive: boolean;
 };
 
@@ -74,6 +77,7 @@ function mapSectionRow(row: SectionRow): SectionDto {
     id: row.id,
     name: row.name,
     levelId: row.level_id,
+    adviserUserId: row.adviser_user_id,
     isActive: row.is_active,
   };
 }
@@ -157,7 +161,7 @@ function validateUpdateLevelBody(body: unknown): {
 }
 
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "students.view");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -170,6 +174,7 @@ export async function GET(request: NextRequest) {
   let levelQuery = supabase
     .from("levels")
     .select("id, name, created_at, is_active")
+    .match(schoolFilter(authResult.appUser.schoolId))
     .order("name", { ascending: true });
 
   if (!includeInactive) {
@@ -189,7 +194,8 @@ export async function GET(request: NextRequest) {
 
   let sectionQuery = supabase
     .from("sections")
-    .select("id, name, level_id, created_at, is_active")
+    .select("id, name, level_id, adviser_user_id, created_at, is_active")
+    .match(schoolFilter(authResult.appUser.schoolId))
     .order("name", { ascending: true });
 
   if (!includeInactive) {
@@ -210,6 +216,31 @@ export async function GET(request: NextRequest) {
   const levels = (levelRows ?? []).map(mapLevelRow);
   const sections = (sectionRows ?? []).map(mapSectionRow);
 
+  // Adviser names for report filters
+  const adviserIds = Array.from(
+    new Set(sections.map((section) => section.adviserUserId).filter((id): id is string => !!id))
+  );
+
+  if (adviserIds.length > 0) {
+    const { data: adviserRows, error: advisersError } = await supabase
+      .from("app_users")
+      .select("id, full_name")
+      .in("id", adviserIds);
+
+    if (advisersError) {
+      console.error("[GET /api/sis/levels] Failed to load advisers:", advisersError);
+    } else {
+      const adviserNames = new Map(
+        (adviserRows ?? []).map((row) => [row.id as string, row.full_name as string])
+      );
+      for (const section of sections) {
+        section.adviserName = section.adviserUserId
+          ? adviserNames.get(section.adviserUserId) ?? null
+          : null;
+      }
+    }
+  }
+
   return formatSuccess<{ levels: LevelDto[]; sections: SectionDto[] }>({
     levels,
     sections,
@@ -217,11 +248,16 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "academics.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
 
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
   const supabase = getAdminSupabaseClient();
 
   const body = await request.json().catch(() => null);
@@ -233,6 +269,7 @@ export async function POST(request: NextRequest) {
 
   const insertPayload = {
     name: value.name,
+    school_id: schoolResult.schoolId,
   };
 
   const { data, error } = await supabase
@@ -263,7 +300,7 @@ export async function POST(request: NextRequest) {
 }
 
 export async function PATCH(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "academics.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -291,6 +328,7 @@ export async function PATCH(request: NextRequest) {
     .from("levels")
     .update(updatePayload)
     .eq("id", value.id)
+    .match(schoolFilter(authResult.appUser.schoolId))
     .select("id, name, created_at, is_active")
     .single<LevelRow>();
 
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES, ADMIN_TEACHER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -37,14 +37,18 @@ type SectionRow = {
   id: string;
   name: string;
   level_id: string | null;
+  adviser_user_id: string | null;
   created_at: string;
   is_active: boolean;
 };
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 type SectionDto = {
   id: string;
   name: string;
   levelId: string | null;
+  adviserUserId: string | null;
   isActive: boolean;
 };
 
@@ -53,6 +57,7 @@ function mapSectionRow(row: SectionRow): SectionDto {
     id: row.id,
     name: row.name,
     levelId: row.level_id,
+    adviserUserId: row.adviser_user_id,
     isActive: row.is_active,
   };
 }
@@ -60,10 +65,26 @@ function mapSectionRow(row: SectionRow): SectionDto {
 interface CreateSectionBody {
   name?: string;
   levelId?: string | null;
+  adviserUserId?: string | null;
+}
+
+/**
+ * Read an optional adviser ID: a UUID, or null/empty to clear it.
+ */
+function readAdviserUserId(
+  data: Record<string, unknown>,
+  errors: { field: string; message: string }[]
+): string | null {
+  const raw = typeof data.adviserUserId === "string" ? data.adviserUserId.trim() : "";
+  if (!raw) return null;
+  if (!UUID_REGEX.test(raw)) {
+    errors.push({ field: "adviserUserId", message: "Adviser must be a valid user ID." });
+  }
+  return raw;
 }
 
 function validateCreateSectionBody(body: unknown): {
-  value?: { name: string; levelId: string | null };
+  value?: { name: string; levelId: string | null; adviserUserId: string | null };
   errors?: { field: string; message: string }[];
 } {
   const errors: { field: string; message: string }[] = [];
@@ -74,6 +95,7 @@ function validateCreateSectionBody(body: unknown): {
     typeof data.levelId === "string" && data.levelId.trim().length > 0
       ? data.levelId.trim()
       : null;
+  const rawAdviserUserId = readAdviserUserId(data, errors);
 
   if (!rawName) {
     errors.push({ field: "name", message: "Section name is required." });
@@ -89,6 +111,7 @@ function validateCreateSectionBody(body: unknown): {
     value: {
       name: rawName,
       levelId: rawLevelId,
+      adviserUserId: rawAdviserUserId,
     },
   };
 }
@@ -97,10 +120,17 @@ interface UpdateSectionBody {
   id?: string;
   name?: string;
   levelId?: string | null;
+  adviserUserId?: string | null;
 }
 
 function validateUpdateSectionBody(body: unknown): {
-  value?: { id: string; name?: string; levelId?: string | null; isActive?: boolean };
+  value?: {
+    id: string;
+    name?: string;
+    levelId?: string | null;
+    adviserUserId?: string | null;
+    isActive?: boolean;
+  };
   errors?: { field: string; message: string }[];
 } {
   const errors: { field: string; message: string }[] = [];
@@ -115,6 +145,8 @@ function validateUpdateSectionBody(body: unknown): {
       : null;
   const hasIsActive = typeof data.isActive === "boolean";
   const rawIsActive = hasIsActive ? (data.isActive as boolean) : undefined;
+  const hasAdviser = typeof data.adviserUserId !== "undefined";
+  const rawAdviserUserId = hasAdviser ? readAdviserUserId(data, errors) : null;
 
   if (!rawId) {
     errors.push({ field: "id", message: "Section id is required." });
@@ -128,8 +160,11 @@ function validateUpdateSectionBody(body: unknown): {
     }
   }
 
-  if (!hasName && !hasIsActive && typeof data.levelId === "undefined") {
-    errors.push({ field: "payload", message: "Nothing to update. Provide name, levelId, or isActive." });
+  if (!hasName && !hasIsActive && !hasAdviser && typeof data.levelId === "undefined") {
+    errors.push({
+      field: "payload",
+      message: "Nothing to update. Provide name, levelId, adviserUserId, or isActive.",
+    });
   }
 
   if (errors.length > 0) {
@@ -141,13 +176,14 @@ function validateUpdateSectionBody(body: unknown): {
       id: rawId,
       ...(hasName ? { name: rawName } : {}),
       ...(typeof data.levelId !== "undefined" ? { levelId: rawLevelId } : {}),
+      ...(hasAdviser ? { adviserUserId: rawAdviserUserId } : {}),
       ...(hasIsActive ? { isActive: rawIsActive } : {}),
     },
   };
 }
 
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "students.view");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -160,7 +196,8 @@ export async function GET(request: NextRequest) {
 
   let query = supabase
     .from("sections")
-    .select("id, name, level_id, created_at, is_active")
+    .select("id, name, level_id, adviser_user_id, created_at, is_active")
+    .match(schoolFilter(authResult.appUser.schoolId))
     .order("name", { ascending: true });
 
   if (!includeInactive) {
@@ -187,11 +224,16 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "academics.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
 
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
   const supabase = getAdminSupabaseClient();
 
   const body = await request.json().catch(() => null);
@@ -204,12 +246,14 @@ export async function POST(request: NextRequest) {
   const insertPayload = {
     name: value.name,
     level_id: value.levelId,
+    adviser_user_id: value.adviserUserId,
+    school_id: schoolResult.schoolId,
   };
 
   const { data, error } = await supabase
     .from("sections")
     .insert(insertPayload)
-    .select("id, name, level_id, created_at, is_active")
+    .select("id, name, level_id, adviser_user_id, created_at, is_active")
     .single<SectionRow>();
 
   if (error || !data) {
@@ -221,6 +265,13 @@ export async function POST(request: NextRequest) {
       ]);
     }
 
+    // The level belongs to another school
+    if (code === "23503") {
+      return formatError(400, "INVALID_LEVEL", "Level not found.", [
+        { field: "levelId", message: "Level not found." },
+      ]);
+    }
+
     return formatError(
       500,
       "SECTION_CREATE_FAILED",
@@ -234,7 +285,7 @@ export async function POST(request: NextRequest) {
 }
 
 export async function PATCH(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "academics.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -248,7 +299,12 @@ export async function PATCH(request: NextRequest) {
     return formatError(400, "VALIDATION_ERROR", "Invalid section update data.", errors);
   }
 
-  const updatePayload: { name?: string; level_id?: string | null; is_active?: boolean } = {};
+  const updatePayload: {
+    name?: string;
+    level_id?: string | null;
+    adviser_user_id?: string | null;
+    is_active?: boolean;
+  } = {};
 
   if (typeof value.name === "string") {
     updatePayload.name = value.name;
@@ -258,6 +314,10 @@ export async function PATCH(request: NextRequest) {
     updatePayload.level_id = value.levelId;
   }
 
+  if (typeof value.adviserUserId !== "undefined") {
+    updatePayload.adviser_user_id = value.adviserUserId;
+  }
+
   if (typeof value.isActive === "boolean") {
     updatePayload.is_active = value.isActive;
   }
@@ -266,7 +326,8 @@ export async function PATCH(request: NextRequest) {
     .from("sections")
     .update(updatePayload)
     .eq("id", value.id)
-    .select("id, name, level_id, created_at, is_active")
+    .match(schoolFilter(authResult.appUser.schoolId))
+    .select("id, name, level_id, adviser_user_id, created_at, is_active")
     .single<SectionRow>();
 
   if (error || !data) {
@@ -278,6 +339,13 @@ export async function PATCH(request: NextRequest) {
       ]);
     }
 
+    // The level belongs to another school
+    if (code === "23503") {
+      return formatError(400, "INVALID_LEVEL", "Level not found.", [
+        { field: "levelId", message: "Level not found." },
+      ]);
+    }
+
     return formatError(
       500,
       "SECTION_UPDATE_FAILED",
@@ -0,0 +1,103 @@
+/**
+ * API Route: /api/sis/students/[id]/attendance
+ *
+ * One student's attendance across every event that targeted them.
+ *
+ * @remarks
+ * - GET: `?from=YYYY-MM-DD&to=YYYY-MM-DD` (defaults to the last 90 days)
+ * - Holders of students.view may view any student; students and parents
+ *   only linked students (checked by StudentAttendanceService)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { requireRoles } from "@/core/auth/server-role-guard";
+import {
+  BusinessRuleError,
+  NotFoundError,
+  StudentAttendanceRepository,
+  StudentAttendanceService,
+  ValidationError,
+} from "@/modules/sems";
+import { buildActorContext } from "@/app/api/sems/events/utils";
+
+function formatSuccess<T>(data: T, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data,
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+function formatError(status: number, code: string, message: string, details?: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code,
+        message,
+        details,
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/sis/students/[id]/attendance
+ *
+ * Returns `{ history }` with per-event sessions and attendance / lateness rates.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requireRoles(request, []);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !uuidRegex.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid student ID format.");
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const service = new StudentAttendanceService(
+    new StudentAttendanceRepository(getAdminSupabaseClient(), authResult.appUser.schoolId)
+  );
+
+  try {
+    const history = await service.getHistory(
+      id,
+      {
+        from: searchParams.get("from")?.trim() || undefined,
+        to: searchParams.get("to")?.trim() || undefined,
+      },
+      buildActorContext(authResult.appUser)
+    );
+    return formatSuccess({ history });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return formatError(400, "VALIDATION_ERROR", error.message, error.details);
+    }
+    if (error instanceof NotFoundError) {
+      return formatError(404, "STUDENT_NOT_FOUND", "Student not found.");
+    }
+    if (error instanceof BusinessRuleError) {
+      return formatError(403, "FORBIDDEN", error.message);
+    }
+    console.error("[GET /api/sis/students/[id]/attendance] Unexpected error:", error);
+    return formatError(500, "ATTENDANCE_HISTORY_FAILED", "Unable to load attendance history.");
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import QRCode from "qrcode";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import {
+  NotFoundError,
+  QrCredentialRepository,
+  QrCredentialService,
+  type StudentQrCredentialDto,
+} from "@/modules/sems";
+
+function formatSuccess<T>(data: T, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data,
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+function formatError(status: number, code: string, message: string, details?: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code,
+        message,
+        details,
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Attach a PNG data URL for a newly issued code so SIS can show it right away.
+ */
+async function withQrImage(
+  credential: StudentQrCredentialDto
+): Promise<StudentQrCredentialDto & { qrImageDataUrl: string | null }> {
+  const qrImageDataUrl = credential.token
+    ? await QRCode.toDataURL(credential.token, { width: 240, margin: 1, errorCorrectionLevel: "M" })
+    : null;
+  return { ...credential, qrImageDataUrl };
+}
+
+/**
+ * GET /api/sis/students/[id]/qr
+ *
+ * Returns the student's QR credential state (issue date, revocation).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "students.credentials");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !uuidRegex.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid student ID format.");
+  }
+
+  const service = new QrCredentialService(
+    new QrCredentialRepository(getAdminSupabaseClient(), authResult.appUser.schoolId)
+  );
+
+  try {
+    return formatSuccess({ credential: await service.getStudentCredential(id) });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return formatError(404, "STUDENT_NOT_FOUND", "Student not found.");
+    }
+    console.error("[GET /api/sis/students/[id]/qr] Unexpected error:", error);
+    return formatError(500, "QR_FETCH_FAILED", "Unable to load the student's QR code status.");
+  }
+}
+
+/**
+ * POST /api/sis/students/[id]/qr
+ *
+ * Body: `{ action: "rotate" | "revoke" }`
+ *
+ * @remarks
+ * - rotate: Issues a new signed code; all earlier codes (signed or bare hash)
+ *   stop working and any revocation is lifted. The response includes the new
+ *   code and a PNG data URL.
+ * - revoke: Rejects every code for the student until it is rotated.
+ *
+ * Scanners pick up the change on their next scanner resource refresh.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "students.credentials");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { id } = await params;
+  if (!id || !uuidRegex.test(id)) {
+    return formatError(400, "INVALID_ID", "Invalid student ID format.");
+  }
+
+  const body = (await request.json().catch(() => null)) as { action?: unknown } | null;
+  const action = body?.action;
+  if (action !== "rotate" && action !== "revoke") {
+    return formatError(400, "VALIDATION_ERROR", "action must be \"rotate\" or \"revoke\".", [
+      { field: "action", message: "Must be rotate or revoke" },
+    ]);
+  }
+
+  const service = new QrCredentialService(
+    new QrCredentialRepository(getAdminSupabaseClient(), authResult.appUser.schoolId)
+  );
+
+  try {
+    const credential =
+      action === "rotate"
+        ? await service.rotateStudentCredential(id)
+        : await service.revokeStudentCredential(id);
+
+    return formatSuccess({ credential: await withQrImage(credential) });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return formatError(404, "STUDENT_NOT_FOUND", "Student not found.");
+    }
+    console.error("[POST /api/sis/students/[id]/qr] Unexpected error:", error);
+    return formatError(500, "QR_UPDATE_FAILED", "Unable to update the student's QR code.");
+  }
+}
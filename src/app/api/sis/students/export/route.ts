@@ -16,8 +16,9 @@ import {
   VerticalAlign,
 } from "docx";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { QrCredentialRepository, QrCredentialService } from "@/modules/sems";
 
 function formatError(status: number, code: string, message: string, details?: unknown) {
   return NextResponse.json(
@@ -44,7 +45,6 @@ interface StudentRow {
   section_id: string;
   guardian_phone: string | null;
   guardian_email: string | null;
-  qr_hash: string;
   is_active: boolean;
 }
 
@@ -65,7 +65,8 @@ interface StudentExportData {
   lrn: string;
   level: string;
   section: string;
-  qrHash: string;
+  /** Signed QR token encoded on the card */
+  qrToken: string;
 }
 
 async function generateQrCodeBuffer(data: string): Promise<Buffer> {
@@ -125,7 +126,7 @@ async function createExcelExport(students: StudentExportData[]): Promise<Uint8Ar
     row.alignment = { vertical: "middle", horizontal: "left" };
 
     // Generate QR code image
-    const qrBuffer = await generateQrCodeBuffer(student.qrHash);
+    const qrBuffer = await generateQrCodeBuffer(student.qrToken);
     
     // Add image to worksheet
     const imageId = workbook.addImage({
@@ -154,7 +155,7 @@ async function createWordExport(students: StudentExportData[]): Promise<Uint8Arr
     const cells: TableCell[] = [];
 
     for (const student of rowStudents) {
-      const qrBuffer = await generateQrCodeBuffer(student.qrHash);
+      const qrBuffer = await generateQrCodeBuffer(student.qrToken);
 
       cells.push(
         new TableCell({
@@ -280,7 +281,7 @@ async function createWordExport(students: StudentExportData[]): Promise<Uint8Arr
 }
 
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "students.export");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -296,8 +297,9 @@ export async function GET(request: NextRequest) {
   // Build query
   let query = supabase
     .from("students")
-    .select("id, student_school_id, first_name, last_name, section_id, guardian_phone, guardian_email, qr_hash, is_active")
-    .eq("is_active", true);
+    .select("id, student_school_id, first_name, last_name, section_id, guardian_phone, guardian_email, is_active")
+    .eq("is_active", true)
+    .match(schoolFilter(authResult.appUser.schoolId));
 
   // Filter by specific student IDs if provided
   if (studentIds.length > 0) {
@@ -351,22 +353,34 @@ export async function GET(request: NextRequest) {
     });
   }
 
-  // Build export data
-  const exportData: StudentExportData[] = filteredStudents.map((student) => {
-    const section = sectionMap.get(student.section_id);
-    const level = section?.level_id ? levelMap.get(section.level_id) : null;
-
-    return {
-      id: student.id,
-      name: `${student.first_name} ${student.last_name}`.trim(),
-      lrn: student.student_school_id,
-      level: level?.name || "Unknown",
-      section: section?.name || "Unknown",
-      qrHash: student.qr_hash,
-    };
-  });
-
   try {
+    // Sign a fresh QR code per student; students with revoked codes are skipped
+    const qrService = new QrCredentialService(
+      new QrCredentialRepository(supabase, authResult.appUser.schoolId)
+    );
+    const tokens = await qrService.issueTokens(filteredStudents.map((s) => s.id));
+
+    // Build export data
+    const exportData: StudentExportData[] = filteredStudents
+      .filter((student) => tokens.has(student.id))
+      .map((student) => {
+        const section = sectionMap.get(student.section_id);
+        const level = section?.level_id ? levelMap.get(section.level_id) : null;
+
+        return {
+          id: student.id,
+          name: `${student.first_name} ${student.last_name}`.trim(),
+          lrn: student.student_school_id,
+          level: level?.name || "Unknown",
+          section: section?.name || "Unknown",
+          qrToken: tokens.get(student.id)!,
+        };
+      });
+
+    if (exportData.length === 0) {
+      return formatError(404, "NO_STUDENTS", "No students with an active QR code found for export.");
+    }
+
     if (format === "word" || format === "docx") {
       const buffer = await createWordExport(exportData);
       const filename = `student_qr_cards_${Date.now()}.docx`;
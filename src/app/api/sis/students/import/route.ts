@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -214,11 +213,16 @@ function parseCsv(content: string): { rows: ParsedCsvRow[]; errors: CsvImportRow
 }
 
 export async function POST(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "students.import");
   if ("error" in authResult) {
     return authResult.error;
   }
 
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
   const supabase = getAdminSupabaseClient();
 
   const formData = await request.formData().catch(() => null);
@@ -258,6 +262,7 @@ export async function POST(request: NextRequest) {
       .from("levels")
       .select("id, name, is_active")
       .eq("name", row.levelName)
+      .eq("school_id", schoolResult.schoolId)
       .single<LevelRow>();
 
     if (levelError || !levelRow) {
@@ -314,6 +319,7 @@ export async function POST(request: NextRequest) {
             level_id: levelRow.id,
             name: fallbackName,
             is_active: true,
+            school_id: schoolResult.schoolId,
           })
           .select("id, name, level_id, is_active")
           .limit(1);
@@ -367,13 +373,14 @@ export async function POST(request: NextRequest) {
       guardian_email: row.guardianEmail,
       qr_hash: generateQrHash(),
       is_active: true,
+      school_id: schoolResult.schoolId,
     };
   });
 
   // Use upsert for idempotency - re-running the same CSV is safe
   const { data, error } = await supabase
     .from("students")
-    .upsert(insertPayloads, { onConflict: "student_school_id" })
+    .upsert(insertPayloads, { onConflict: "school_id,student_school_id" })
     .select(
       "id, student_school_id, first_name, middle_name, last_name, section_id, guardian_phone, guardian_email, is_active, created_at"
     );
@@ -433,13 +440,19 @@ export async function POST(request: NextRequest) {
       // Check if app_user already exists with this email
       const { data: existingAppUser } = await supabase
         .from("app_users")
-        .select("id")
+        .select("id, school_id")
         .eq("email", studentEmail)
         .maybeSingle();
 
       let appUserId: string;
 
-      if (existingAppUser) {
+      if (existingAppUser && existingAppUser.school_id !== schoolResult.schoolId) {
+        accountWarnings.push({
+          rowNumber,
+          message: `Student email "${studentEmail}" belongs to an account at another school. Student imported but not linked.`,
+        });
+        continue;
+      } else if (existingAppUser) {
         // User already exists, just link them
         appUserId = existingAppUser.id;
         accountWarnings.push({
@@ -480,6 +493,7 @@ export async function POST(request: NextRequest) {
           roles: ["STUDENT"],
           primary_role: "STUDENT",
           is_active: true,
+          school_id: schoolResult.schoolId,
         });
 
         if (appUserError) {
@@ -594,13 +608,19 @@ export async function POST(request: NextRequest) {
       // Check if app_user already exists with this email
       const { data: existingAppUser } = await supabase
         .from("app_users")
-        .select("id")
+        .select("id, school_id")
         .eq("email", guardianEmail)
         .maybeSingle();
 
       let appUserId: string;
 
-      if (existingAppUser) {
+      if (existingAppUser && existingAppUser.school_id !== schoolResult.schoolId) {
+        accountWarnings.push({
+          rowNumber: firstInfo.rowNumber,
+          message: `Guardian email "${guardianEmail}" belongs to an account at another school. No parent account linked.`,
+        });
+        continue;
+      } else if (existingAppUser) {
         // User already exists, just link them
         appUserId = existingAppUser.id;
         accountWarnings.push({
@@ -641,6 +661,7 @@ export async function POST(request: NextRequest) {
           roles: ["PARENT"],
           primary_role: "PARENT",
           is_active: true,
+          school_id: schoolResult.schoolId,
         });
 
         if (appUserError) {
@@ -0,0 +1,47 @@
+/**
+ * API Route: /api/sis/students/linked
+ *
+ * Students linked to the signed-in student or parent account, so their
+ * pages can request each student's attendance history.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { requireRoles } from "@/core/auth/server-role-guard";
+import { StudentAttendanceRepository, StudentAttendanceService } from "@/modules/sems";
+import { buildActorContext } from "@/app/api/sems/events/utils";
+
+/**
+ * GET /api/sis/students/linked
+ *
+ * Returns `{ students }` with name, LRN and placement.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requireRoles(request, ["STUDENT", "PARENT"]);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const service = new StudentAttendanceService(
+    new StudentAttendanceRepository(getAdminSupabaseClient(), authResult.appUser.schoolId)
+  );
+
+  try {
+    const students = await service.listLinkedStudents(buildActorContext(authResult.appUser));
+    return NextResponse.json({
+      success: true,
+      data: { students },
+      meta: { timestamp: new Date().toISOString() },
+    });
+  } catch (error) {
+    console.error("[GET /api/sis/students/linked] Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: "LINKED_STUDENTS_FAILED", message: "Unable to load linked students." },
+        meta: { timestamp: new Date().toISOString() },
+      },
+      { status: 500 }
+    );
+  }
+}
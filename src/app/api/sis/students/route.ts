@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES, ADMIN_TEACHER_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -286,7 +286,7 @@ function validateUpdateStudentBody(body: unknown): {
 }
 
 export async function GET(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "students.view");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -296,6 +296,7 @@ export async function GET(request: NextRequest) {
   const { data: studentRows, error: studentsError } = await supabase
     .from("students")
     .select("id, student_school_id, first_name, last_name, section_id, guardian_phone, guardian_email, is_active, created_at")
+    .match(schoolFilter(authResult.appUser.schoolId))
     .order("created_at", { ascending: false });
 
   if (studentsError) {
@@ -362,11 +363,16 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "students.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
 
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
   const supabase = getAdminSupabaseClient();
 
   const body = await request.json().catch(() => null);
@@ -380,6 +386,7 @@ export async function POST(request: NextRequest) {
     .from("levels")
     .select("id, name, is_active")
     .eq("name", value.levelName)
+    .eq("school_id", schoolResult.schoolId)
     .single<{ id: string; name: string; is_active: boolean }>();
 
   if (levelError || !levelRow) {
@@ -450,6 +457,7 @@ export async function POST(request: NextRequest) {
           level_id: levelRow.id,
           name: fallbackName,
           is_active: true,
+          school_id: schoolResult.schoolId,
         })
         .select("id, name, level_id, is_active")
         .limit(1);
@@ -485,6 +493,7 @@ export async function POST(request: NextRequest) {
     guardian_email: value.guardianEmail,
     qr_hash: generateQrHash(),
     is_active: isActive,
+    school_id: schoolResult.schoolId,
   };
 
   const { data, error } = await supabase
@@ -516,7 +525,7 @@ export async function POST(request: NextRequest) {
 }
 
 export async function PATCH(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "students.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -532,18 +541,21 @@ export async function PATCH(request: NextRequest) {
 
   const { data: existingStudentRow, error: existingStudentError } = await supabase
     .from("students")
-    .select("id, student_school_id, section_id, guardian_phone, guardian_email, is_active, first_name, last_name, created_at")
+    .select("id, student_school_id, section_id, guardian_phone, guardian_email, is_active, first_name, last_name, created_at, school_id")
     .eq("id", value.id)
-    .single<StudentRow>();
+    .match(schoolFilter(authResult.appUser.schoolId))
+    .single<StudentRow & { school_id: string }>();
 
   if (existingStudentError || !existingStudentRow) {
     return formatError(404, "STUDENT_NOT_FOUND", "Student not found.", existingStudentError);
   }
 
+  // Levels are looked up in the student's own school
   const { data: levelRow, error: levelError } = await supabase
     .from("levels")
     .select("id, name, is_active")
     .eq("name", value.levelName)
+    .eq("school_id", existingStudentRow.school_id)
     .single<{ id: string; name: string; is_active: boolean }>();
 
   if (levelError || !levelRow) {
@@ -593,6 +605,7 @@ export async function PATCH(request: NextRequest) {
     .from("students")
     .update(updatePayload)
     .eq("id", value.id)
+    .match(schoolFilter(authResult.appUser.schoolId))
     .select("id, student_school_id, first_name, last_name, section_id, guardian_phone, guardian_email, is_active, created_at")
     .single<StudentRow>();
 
@@ -619,7 +632,7 @@ export async function PATCH(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
-  const authResult = await requireRoles(request, Array.from(ADMIN_TEACHER_ROLES));
+  const authResult = await requirePermission(request, "students.manage");
 
   if ("error" in authResult) {
     return authResult.error;
@@ -658,6 +671,7 @@ export async function DELETE(request: NextRequest) {
     .from("students")
     .update({ is_active: false })
     .in("id", studentIds)
+    .match(schoolFilter(authResult.appUser.schoolId))
     .select("id");
 
   if (error) {
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { revokeUserSessions } from "@/core/auth/user-sessions";
+import { schoolFilter } from "@/core/db/school-scope";
+
+function formatSuccess<T>(data: T, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data,
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+function formatError(status: number, code: string, message: string, details?: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code,
+        message,
+        details,
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+interface ForceLogoutBody {
+  userId?: string;
+}
+
+/**
+ * POST /api/users/force-logout
+ *
+ * Ends every session of a user, signing them out on all devices. Returns
+ * how many sessions were ended.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "users.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const { appUser: actingUser } = authResult;
+  const body = (await request.json().catch(() => null)) as ForceLogoutBody | null;
+  const userId = body?.userId?.trim();
+
+  if (!userId) {
+    return formatError(400, "VALIDATION_ERROR", "User ID is required.");
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(userId)) {
+    return formatError(400, "INVALID_USER_ID", "User ID must be a valid UUID.");
+  }
+
+  if (userId === actingUser.id) {
+    return formatError(400, "SELF_LOGOUT_NOT_ALLOWED", "Use your profile to sign out your own devices.");
+  }
+
+  // Admins can only sign out their own school's users
+  const { data: targetUser } = await getAdminSupabaseClient()
+    .from("app_users")
+    .select("id")
+    .eq("id", userId)
+    .match(schoolFilter(actingUser.schoolId))
+    .maybeSingle();
+
+  if (!targetUser) {
+    return formatError(404, "USER_NOT_FOUND", "User not found.");
+  }
+
+  try {
+    const endedSessions = await revokeUserSessions({ userId }, "FORCE_LOGOUT", actingUser.id);
+    return formatSuccess({ endedSessions });
+  } catch {
+    return formatError(500, "FORCE_LOGOUT_FAILED", "Unable to sign the user out.");
+  }
+}
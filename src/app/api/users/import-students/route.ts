@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import ExcelJS from "exceljs";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
-import { ADMIN_ROLES } from "@/config/roles";
 import type { UserRole } from "@/core/auth/types";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission, requireSchool } from "@/core/auth/server-role-guard";
 
 export const runtime = "nodejs";
 
@@ -63,11 +62,16 @@ function getCellText(value: unknown): string {
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "users.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
 
+  const schoolResult = requireSchool(authResult.appUser);
+  if ("error" in schoolResult) {
+    return schoolResult.error;
+  }
+
   const { appUser: actingUser } = authResult;
 
   const formData = await request.formData();
@@ -235,6 +239,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         primary_role: selectedRole,
         is_active: true,
         created_by: actingUser.id,
+        school_id: schoolResult.schoolId,
       });
 
       if (appUserInsertError) {
@@ -0,0 +1,155 @@
+/**
+ * API Route: /api/users/permissions
+ *
+ * @remarks
+ * - GET: the permission registry and which roles hold which permissions.
+ * - PUT: replace the permissions held by one role.
+ *
+ * SUPER_ADMIN always holds every permission and can't be edited, so nobody
+ * can lock the system. The mapping applies to every school, so only holders
+ * of permissions.manage (super admins, see SUPER_ADMIN_PERMISSIONS) edit it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import type { UserRole } from "@/core/auth/types";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { clearRolePermissionsCache, loadRolePermissions } from "@/core/auth/role-permissions";
+import { ALL_USER_ROLES } from "@/config/roles";
+import {
+  ALL_PERMISSIONS,
+  isPermission,
+  PERMISSION_GROUPS,
+  PERMISSIONS,
+  SUPER_ADMIN_PERMISSIONS,
+  type Permission,
+} from "@/config/permissions";
+
+function formatSuccess<T>(data: T, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data,
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+function formatError(status: number, code: string, message: string, details?: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code,
+        message,
+        details,
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+const LOCKED_ROLES: readonly UserRole[] = ["SUPER_ADMIN"];
+
+interface UpdateRolePermissionsBody {
+  role?: unknown;
+  permissions?: unknown;
+}
+
+/**
+ * GET /api/users/permissions
+ *
+ * Returns `{ groups, permissions, roles, lockedRoles, superAdminPermissions, mapping }`.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, ["users.manage", "permissions.manage"]);
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const mapping = await loadRolePermissions();
+
+  return formatSuccess({
+    groups: PERMISSION_GROUPS,
+    permissions: PERMISSIONS,
+    roles: ALL_USER_ROLES,
+    lockedRoles: LOCKED_ROLES,
+    superAdminPermissions: SUPER_ADMIN_PERMISSIONS,
+    mapping: Object.fromEntries(
+      ALL_USER_ROLES.map((role) => [
+        role,
+        LOCKED_ROLES.includes(role)
+          ? ALL_PERMISSIONS
+          : (mapping[role] ?? []).filter((permission) => !SUPER_ADMIN_PERMISSIONS.includes(permission)),
+      ])
+    ),
+  });
+}
+
+/**
+ * PUT /api/users/permissions
+ *
+ * Body: `{ role, permissions }`. Replaces everything the role holds in one
+ * transaction (`replace_role_permissions`, migration Phase_1.26).
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "permissions.manage");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  let body: UpdateRolePermissionsBody;
+  try {
+    body = (await request.json()) as UpdateRolePermissionsBody;
+  } catch {
+    return formatError(400, "INVALID_BODY", "Request body must be valid JSON.");
+  }
+
+  const role = typeof body.role === "string" ? (body.role.toUpperCase() as UserRole) : null;
+  if (!role || !ALL_USER_ROLES.includes(role)) {
+    return formatError(400, "INVALID_ROLE", "A valid role is required.");
+  }
+
+  if (LOCKED_ROLES.includes(role)) {
+    return formatError(400, "ROLE_LOCKED", "Super admins always hold every permission.");
+  }
+
+  if (!Array.isArray(body.permissions)) {
+    return formatError(400, "INVALID_PERMISSIONS", "permissions must be an array.");
+  }
+
+  const unknown = body.permissions.filter((permission) => !isPermission(permission));
+  if (unknown.length > 0) {
+    return formatError(400, "INVALID_PERMISSIONS", "Some permissions are not recognized.", { unknown });
+  }
+
+  const reserved = body.permissions.filter((permission) => SUPER_ADMIN_PERMISSIONS.includes(permission));
+  if (reserved.length > 0) {
+    return formatError(400, "PERMISSION_NOT_ASSIGNABLE", "Some permissions are reserved for super admins.", {
+      reserved,
+    });
+  }
+
+  const permissions = Array.from(new Set(body.permissions as Permission[]));
+
+  const { error } = await getAdminSupabaseClient().rpc("replace_role_permissions", {
+    p_role: role,
+    p_permissions: permissions,
+    p_updated_by: authResult.appUser.id,
+  });
+
+  if (error) {
+    console.error("[PUT /api/users/permissions] Database error:", error);
+    return formatError(500, "DATABASE_ERROR", "Unable to update role permissions.");
+  }
+
+  clearRolePermissionsCache();
+
+  return formatSuccess({ role, permissions: ALL_PERMISSIONS.filter((permission) => permissions.includes(permission)) });
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import type { UserRole } from "@/core/auth/types";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { schoolFilter } from "@/core/db/school-scope";
+import { recordSecurityEvent } from "@/core/auth/security-events";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -80,7 +81,7 @@ interface ResetPasswordBody {
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "users.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -99,6 +100,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     return formatError(400, "INVALID_USER_ID", "User ID must be a valid UUID.");
   }
 
+  // Admins can only reset passwords of their own school's users
+  const { data: targetUser } = await supabase
+    .from("app_users")
+    .select("id, email, school_id")
+    .eq("id", userId)
+    .match(schoolFilter(authResult.appUser.schoolId))
+    .maybeSingle<{ id: string; email: string; school_id: string | null }>();
+
+  if (!targetUser) {
+    return formatError(404, "USER_NOT_FOUND", "User not found.");
+  }
+
   const newPassword = generateRandomPassword();
 
   const { error: updateError } = await supabase.auth.admin.updateUserById(userId, {
@@ -118,5 +131,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     );
   }
 
+  await recordSecurityEvent(
+    {
+      type: "PASSWORD_RESET",
+      userId,
+      email: targetUser.email,
+      schoolId: targetUser.school_id,
+      actorId: authResult.appUser.id,
+    },
+    request
+  );
+
   return formatSuccess({ password: newPassword }, 200);
 }
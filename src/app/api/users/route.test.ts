@@ -0,0 +1,151 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { RoleGuardUser } from "@/core/auth/server-role-guard";
+import type { UserRole } from "@/core/auth/types";
+import { PATCH, POST } from "./route";
+
+const SCHOOL_ID = "11111111-1111-4111-8111-111111111111";
+
+const mocks = vi.hoisted(() => ({
+  actor: null as RoleGuardUser | null,
+  existingUser: null as Record<string, unknown> | null,
+  updates: [] as Record<string, unknown>[],
+  createUser: vi.fn(),
+}));
+
+vi.mock("@/core/auth/server-role-guard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/core/auth/server-role-guard")>()),
+  requirePermission: vi.fn(async () => ({ appUser: mocks.actor })),
+}));
+
+vi.mock("@/core/auth/security-events", () => ({
+  recordSecurityEvent: vi.fn(),
+}));
+
+vi.mock("@/core/db/supabase-client.admin", () => {
+  // Resolves every app_users query with the account being edited
+  const query = {
+    select: () => query,
+    eq: () => query,
+    match: () => query,
+    order: () => query,
+    insert: (row: Record<string, unknown>) => {
+      mocks.updates.push(row);
+      return query;
+    },
+    update: (changes: Record<string, unknown>) => {
+      mocks.updates.push(changes);
+      return query;
+    },
+    single: async () => ({ data: { ...mocks.existingUser, ...mocks.updates.at(-1) }, error: null }),
+  };
+
+  return {
+    getAdminSupabaseClient: () => ({
+      from: () => query,
+      auth: { admin: { createUser: mocks.createUser } },
+    }),
+  };
+});
+
+function actorWithRoles(roles: UserRole[]): RoleGuardUser {
+  return {
+    id: "actor-1",
+    email: "actor@example.com",
+    fullName: "Actor",
+    roles,
+    primaryRole: roles[0],
+    isActive: true,
+    schoolId: SCHOOL_ID,
+    homeSchoolId: SCHOOL_ID,
+    permissions: ["users.manage"],
+  };
+}
+
+function jsonRequest(method: string, body: unknown): NextRequest {
+  return new NextRequest("http://localhost/api/users", {
+    method,
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("/api/users role assignment", () => {
+  beforeEach(() => {
+    mocks.updates = [];
+    mocks.existingUser = {
+      id: "user-1",
+      email: "teacher@example.com",
+      full_name: "Teacher",
+      roles: ["TEACHER"],
+      primary_role: "TEACHER",
+      is_active: true,
+      created_at: "2026-01-01T00:00:00.000Z",
+      last_login_at: null,
+      school_id: SCHOOL_ID,
+    };
+    mocks.createUser.mockReset();
+    mocks.createUser.mockResolvedValue({ data: { user: { id: "user-2" } }, error: null });
+  });
+
+  it("refuses to create a super admin for a school admin", async () => {
+    mocks.actor = actorWithRoles(["ADMIN"]);
+
+    const response = await POST(
+      jsonRequest("POST", { fullName: "New Admin", email: "new@example.com", role: "SUPER_ADMIN" })
+    );
+
+    expect(response.status).toBe(403);
+    expect(mocks.createUser).not.toHaveBeenCalled();
+  });
+
+  it("lets a super admin create a super admin", async () => {
+    mocks.actor = actorWithRoles(["SUPER_ADMIN"]);
+
+    const response = await POST(
+      jsonRequest("POST", { fullName: "New Admin", email: "new@example.com", role: "SUPER_ADMIN" })
+    );
+
+    expect(response.status).toBe(201);
+    expect(mocks.updates[0]).toMatchObject({ roles: ["SUPER_ADMIN"] });
+  });
+
+  it("refuses to promote a user to super admin for a school admin", async () => {
+    mocks.actor = actorWithRoles(["ADMIN"]);
+
+    const byRoles = await PATCH(jsonRequest("PATCH", { userId: "user-1", roles: ["TEACHER", "SUPER_ADMIN"] }));
+    const byPrimaryRole = await PATCH(jsonRequest("PATCH", { userId: "user-1", primaryRole: "SUPER_ADMIN" }));
+
+    expect(byRoles.status).toBe(403);
+    expect(byPrimaryRole.status).toBe(403);
+    expect(mocks.updates).toEqual([]);
+  });
+
+  it("refuses to remove super admin for a school admin", async () => {
+    mocks.actor = actorWithRoles(["ADMIN"]);
+    mocks.existingUser = { ...mocks.existingUser, roles: ["SUPER_ADMIN"], primary_role: "SUPER_ADMIN" };
+
+    const response = await PATCH(jsonRequest("PATCH", { userId: "user-1", roles: ["ADMIN"], primaryRole: "ADMIN" }));
+
+    expect(response.status).toBe(403);
+    expect(mocks.updates).toEqual([]);
+  });
+
+  it("lets a school admin change other roles", async () => {
+    mocks.actor = actorWithRoles(["ADMIN"]);
+
+    const response = await PATCH(jsonRequest("PATCH", { userId: "user-1", roles: ["TEACHER", "SCANNER"] }));
+
+    expect(response.status).toBe(200);
+    expect(mocks.updates[0]).toMatchObject({ roles: ["TEACHER", "SCANNER"], primary_role: "TEACHER" });
+  });
+
+  it("lets a super admin promote a user to super admin", async () => {
+    mocks.actor = actorWithRoles(["SUPER_ADMIN"]);
+
+    const response = await PATCH(jsonRequest("PATCH", { userId: "user-1", roles: ["TEACHER", "SUPER_ADMIN"] }));
+
+    expect(response.status).toBe(200);
+    expect(mocks.updates[0]).toMatchObject({ roles: ["TEACHER", "SUPER_ADMIN"] });
+  });
+});
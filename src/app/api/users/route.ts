@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import type { UserRole } from "@/core/auth/types";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission, requireRoleAssignment, requireSchool } from "@/core/auth/server-role-guard";
+import { revokeSessionsUpdate } from "@/core/auth/session-revocation";
+import { recordSecurityEvent } from "@/core/auth/security-events";
+import { schoolFilter } from "@/core/db/school-scope";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -43,6 +45,7 @@ type AppUserRow = {
   is_active: boolean | null;
   created_at: string | null;
   last_login_at: string | null;
+  school_id?: string | null;
 };
 
 type UserListItemDto = {
@@ -173,7 +176,7 @@ function generateRandomPassword(length = 24): string {
 }
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "users.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -183,6 +186,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   const { data, error } = await supabase
     .from("app_users")
     .select("id, email, full_name, roles, primary_role, is_active, created_at, last_login_at")
+    .match(schoolFilter(authResult.appUser.schoolId))
     .order("created_at", { ascending: false });
 
   if (error) {
@@ -201,7 +205,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "users.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -219,6 +223,19 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
   const { fullName, email, role } = value;
 
+  const assignmentResult = requireRoleAssignment(actingUser.roles, [], [role]);
+  if (assignmentResult) {
+    return assignmentResult.error;
+  }
+
+  // Everyone but a super admin belongs to the school the account is created in
+  if (role !== "SUPER_ADMIN") {
+    const schoolResult = requireSchool(actingUser);
+    if ("error" in schoolResult) {
+      return schoolResult.error;
+    }
+  }
+
   // Step 1: Create auth user with a random password (no automatic invitation)
   const randomPassword = generateRandomPassword();
 
@@ -266,6 +283,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       primary_role: role,
       is_active: true,
       created_by: actingUser.id,
+      school_id: actingUser.schoolId,
     })
     .select("id, email, full_name, roles, primary_role, is_active, created_at")
     .single<AppUserRow>();
@@ -290,7 +308,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 }
 
 export async function PATCH(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "users.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -306,8 +324,9 @@ export async function PATCH(request: NextRequest): Promise<NextResponse> {
 
   const { data: existingUser, error: fetchError } = await supabase
     .from("app_users")
-    .select("id, email, full_name, roles, primary_role, is_active, created_at, last_login_at")
+    .select("id, email, full_name, roles, primary_role, is_active, created_at, last_login_at, school_id")
     .eq("id", userId)
+    .match(schoolFilter(authResult.appUser.schoolId))
     .single<AppUserRow>();
 
   if (fetchError || !existingUser) {
@@ -370,9 +389,28 @@ export async function PATCH(request: NextRequest): Promise<NextResponse> {
     )
   );
 
+  const rolesChanged =
+    resultingPrimary !== existingUser.primary_role ||
+    resultingRoles.length !== currentRoles.length ||
+    resultingRoles.some((role) => !currentRoles.includes(role));
+
+  const assignmentResult = requireRoleAssignment(
+    authResult.appUser.roles,
+    normalizeRoles([...currentRoles, existingUser.primary_role ?? ""]),
+    resultingRoles
+  );
+  if (assignmentResult) {
+    return assignmentResult.error;
+  }
+
   updates.primary_role = resultingPrimary;
   updates.roles = resultingRoles;
 
+  // Issued session tokens carry the old roles
+  if (rolesChanged) {
+    Object.assign(updates, revokeSessionsUpdate());
+  }
+
   const { data: updatedRow, error: updateError } = await supabase
     .from("app_users")
     .update(updates)
@@ -389,6 +427,23 @@ export async function PATCH(request: NextRequest): Promise<NextResponse> {
     );
   }
 
+  if (rolesChanged) {
+    await recordSecurityEvent(
+      {
+        type: "ROLES_CHANGED",
+        userId,
+        email: existingUser.email,
+        schoolId: existingUser.school_id,
+        actorId: authResult.appUser.id,
+        details: {
+          from: { primaryRole: existingUser.primary_role, roles: currentRoles },
+          to: { primaryRole: resultingPrimary, roles: resultingRoles },
+        },
+      },
+      request
+    );
+  }
+
   const userDto = mapAppUserToDto(updatedRow);
 
   return formatSuccess({ user: userDto });
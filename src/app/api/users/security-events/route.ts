@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { searchSecurityEvents } from "@/core/auth/security-events";
+import { SECURITY_EVENT_TYPES, type SecurityEventType } from "@/core/auth/types";
+
+function formatSuccess<T>(data: T, status = 200) {
+  return NextResponse.json(
+    {
+      success: true,
+      data,
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+function formatError(status: number, code: string, message: string, details?: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code,
+        message,
+        details,
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
+
+function parseTimestamp(value: string | null): string | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * GET /api/users/security-events
+ *
+ * Search the security log of the caller's school, newest first.
+ *
+ * @remarks
+ * Query parameters:
+ * - type: One of the security event types
+ * - email: Part of the account's email
+ * - ip: Exact client IP address
+ * - from / to: ISO timestamps, inclusive
+ * - page: Page number (default 1)
+ * - pageSize: Items per page (default 50, max 100)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const authResult = await requirePermission(request, "security.view");
+  if ("error" in authResult) {
+    return authResult.error;
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+
+  const type = searchParams.get("type") || undefined;
+  if (type && !(SECURITY_EVENT_TYPES as readonly string[]).includes(type)) {
+    return formatError(400, "INVALID_EVENT_TYPE", "Unknown security event type.");
+  }
+
+  const from = parseTimestamp(searchParams.get("from"));
+  const to = parseTimestamp(searchParams.get("to"));
+  if (from === null || to === null) {
+    return formatError(400, "INVALID_DATE_RANGE", "From and to must be valid dates.");
+  }
+
+  const page = Math.max(1, parseInt(searchParams.get("page") ?? "1", 10) || 1);
+  const pageSize = Math.min(100, Math.max(1, parseInt(searchParams.get("pageSize") ?? "50", 10) || 50));
+
+  try {
+    const { events, total } = await searchSecurityEvents({
+      schoolId: authResult.appUser.schoolId,
+      type: type as SecurityEventType | undefined,
+      email: searchParams.get("email")?.trim() || undefined,
+      ipAddress: searchParams.get("ip")?.trim() || undefined,
+      from,
+      to,
+      page,
+      pageSize,
+    });
+
+    return formatSuccess({
+      events,
+      pagination: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize) || 1,
+      },
+    });
+  } catch {
+    return formatError(500, "DATABASE_ERROR", "Unable to load security events.");
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import type { UserRole } from "@/core/auth/types";
-import { ADMIN_ROLES } from "@/config/roles";
-import { requireRoles } from "@/core/auth/server-role-guard";
+import { requirePermission } from "@/core/auth/server-role-guard";
+import { revokeSessionsUpdate } from "@/core/auth/session-revocation";
+import { schoolFilter } from "@/core/db/school-scope";
 
 function formatSuccess<T>(data: T, status = 200) {
   return NextResponse.json(
@@ -110,7 +111,7 @@ interface ToggleStatusBody {
 }
 
 export async function PATCH(request: NextRequest): Promise<NextResponse> {
-  const authResult = await requireRoles(request, Array.from(ADMIN_ROLES));
+  const authResult = await requirePermission(request, "users.manage");
   if ("error" in authResult) {
     return authResult.error;
   }
@@ -140,8 +141,11 @@ export async function PATCH(request: NextRequest): Promise<NextResponse> {
       is_active: isActive,
       updated_at: new Date().toISOString(),
       updated_by: actingUser.id,
+      // Sign the user out of every device when deactivating
+      ...(isActive ? {} : revokeSessionsUpdate()),
     })
     .eq("id", userId)
+    .match(schoolFilter(actingUser.schoolId))
     .select("id, email, full_name, roles, primary_role, is_active, created_at");
 
   if (updateError) {
@@ -3,6 +3,7 @@ import { notFound } from "next/navigation";
 import { CalendarDays, Clock, MapPin, Users } from "lucide-react";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import { EventRepository } from "@/modules/sems";
+import appSettings from "@/appsettings.json";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 
 interface EventPublicPageProps {
@@ -17,7 +18,8 @@ const appUrl =
 
 async function getPublicEvent(eventId: string) {
   const supabase = getAdminSupabaseClient();
-  const eventRepository = new EventRepository(supabase);
+  // Public pages are reached by event ID from any school
+  const eventRepository = new EventRepository(supabase, null);
   const event = await eventRepository.findByIdWithFacility(eventId);
 
   if (!event) {
@@ -31,6 +33,16 @@ async function getPublicEvent(eventId: string) {
   return event;
 }
 
+async function getSchoolName(schoolId: string): Promise<string> {
+  const { data } = await getAdminSupabaseClient()
+    .from("schools")
+    .select("name")
+    .eq("id", schoolId)
+    .maybeSingle<{ name: string }>();
+
+  return data?.name ?? appSettings.appName;
+}
+
 export async function generateMetadata({
   params,
 }: EventPublicPageProps): Promise<Metadata> {
@@ -91,13 +103,14 @@ export default async function EventPublicPage({ params }: EventPublicPageProps)
   }
 
   const dateRange = `${event.startDate} – ${event.endDate}`;
+  const schoolName = await getSchoolName(event.schoolId);
 
   return (
     <main className="min-h-screen bg-gradient-to-b from-emerald-50 via-white to-sky-50 px-4 py-10">
       <div className="mx-auto flex max-w-3xl flex-col gap-6">
         <header className="space-y-2 text-center">
           <p className="text-xs font-medium tracking-wide text-emerald-700">
-            Green Valley Foundation College Inc.
+            {schoolName}
           </p>
           <h1 className="text-2xl font-bold tracking-tight text-slate-900">
             {event.title}
@@ -4,6 +4,7 @@ import "./globals.css";
 import { AuthProvider } from "@/core/auth/AuthContext";
 import { ThemeProvider } from "@/components/theme-provider";
 import { Toaster } from "@/components/ui/sonner";
+import { ServiceWorkerRegistrar } from "@/components/service-worker-registrar";
 
 const appUrl =
   process.env.NEXT_PUBLIC_APP_URL ||
@@ -60,6 +61,7 @@ export default function RootLayout({
         >
           <AuthProvider>{children}</AuthProvider>
           <Toaster />
+          <ServiceWorkerRegistrar />
         </ThemeProvider>
       </body>
     </html>
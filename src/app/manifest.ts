@@ -0,0 +1,32 @@
+import type { MetadataRoute } from "next";
+
+/**
+ * Web app manifest so the scanner can be installed as a PWA.
+ * Served at /manifest.webmanifest; the service worker lives in public/sw.js.
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "GVCFI-SSC Scanner",
+    short_name: "SSC Scanner",
+    description: "Green Valley College Foundation Inc. – Supreme Student Council Systems",
+    start_url: "/sems/scan",
+    scope: "/",
+    display: "standalone",
+    orientation: "portrait",
+    background_color: "#000000",
+    theme_color: "#1B4D3E",
+    icons: [
+      {
+        src: "/ssc-logo.png",
+        sizes: "any",
+        type: "image/png",
+        purpose: "any",
+      },
+      {
+        src: "/gvcfi.ico",
+        sizes: "any",
+        type: "image/x-icon",
+      },
+    ],
+  };
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { History } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+
+type CorrectionChoice = "present" | "late" | "excused" | "remove";
+
+export interface AttendanceCorrectionSessionOption {
+  id: string;
+  label: string;
+}
+
+/**
+ * Student/session cell being corrected. Omit `studentId` to add attendance by LRN.
+ */
+export interface AttendanceCorrectionTarget {
+  studentId?: string;
+  studentName?: string;
+  eventSessionId?: string;
+  currentStatus?: string | null;
+}
+
+interface AttendanceCorrectionDto {
+  id: string;
+  eventSessionId: string;
+  sessionName: string | null;
+  studentId: string;
+  studentName: string | null;
+  action: "add" | "update" | "remove";
+  previousStatus: string | null;
+  newStatus: string | null;
+  reason: string;
+  correctedByUserId: string | null;
+  correctedByName: string | null;
+  createdAt: string;
+}
+
+interface AttendanceCorrectionDialogProps {
+  eventId: string;
+  sessions: AttendanceCorrectionSessionOption[];
+  /** Cell to correct, or null when the dialog is closed */
+  target: AttendanceCorrectionTarget | null;
+  onClose: () => void;
+  onCorrected: () => void;
+}
+
+const CHOICE_LABELS: Record<CorrectionChoice, string> = {
+  present: "Present",
+  late: "Late",
+  excused: "Excused",
+  remove: "Remove record",
+};
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function describeCorrection(correction: AttendanceCorrectionDto): string {
+  if (correction.action === "add") return `Added as ${correction.newStatus}`;
+  if (correction.action === "remove") return `Removed (was ${correction.previousStatus})`;
+  return `${correction.previousStatus} → ${correction.newStatus}`;
+}
+
+/**
+ * Dialog for adding, changing or removing a student's attendance for a session.
+ * A reason is required; the change is recorded in the event's correction log.
+ */
+export function AttendanceCorrectionDialog({
+  eventId,
+  sessions,
+  target,
+  onClose,
+  onCorrected,
+}: AttendanceCorrectionDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        {target && (
+          <AttendanceCorrectionForm
+            eventId={eventId}
+            sessions={sessions}
+            target={target}
+            isSaving={isSaving}
+            setIsSaving={setIsSaving}
+            onClose={onClose}
+            onCorrected={onCorrected}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AttendanceCorrectionFormProps {
+  eventId: string;
+  sessions: AttendanceCorrectionSessionOption[];
+  target: AttendanceCorrectionTarget;
+  isSaving: boolean;
+  setIsSaving: (isSaving: boolean) => void;
+  onClose: () => void;
+  onCorrected: () => void;
+}
+
+/**
+ * Form body, mounted fresh each time the dialog opens.
+ */
+function AttendanceCorrectionForm({
+  eventId,
+  sessions,
+  target,
+  isSaving,
+  setIsSaving,
+  onClose,
+  onCorrected,
+}: AttendanceCorrectionFormProps) {
+  const isExistingRecord = !!target.currentStatus;
+
+  const [lrn, setLrn] = useState("");
+  const [sessionId, setSessionId] = useState(target.eventSessionId ?? sessions[0]?.id ?? "");
+  const [choice, setChoice] = useState<CorrectionChoice>(
+    target.currentStatus === "late" || target.currentStatus === "excused"
+      ? target.currentStatus
+      : "present"
+  );
+  const [reason, setReason] = useState("");
+
+  const handleSubmit = useCallback(async () => {
+    if (!reason.trim()) {
+      toast.error("Please enter a reason for this correction");
+      return;
+    }
+    if (!target.studentId && !lrn.trim()) {
+      toast.error("Please enter the student's LRN");
+      return;
+    }
+    if (!sessionId) {
+      toast.error("Please select a session");
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/sems/events/${eventId}/attendance`, {
+        method: choice === "remove" ? "DELETE" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          studentId: target.studentId,
+          lrn: target.studentId ? undefined : lrn.trim(),
+          eventSessionId: sessionId,
+          status: choice === "remove" ? undefined : choice,
+          reason: reason.trim(),
+        }),
+      });
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: { correction: AttendanceCorrectionDto }; error?: { message?: string } }
+        | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to update attendance.");
+      }
+
+      toast.success("Attendance updated", {
+        description: `${body.data.correction.studentName ?? "Student"}: ${describeCorrection(body.data.correction)}`,
+      });
+      onCorrected();
+      onClose();
+    } catch (err) {
+      toast.error("Unable to update attendance", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [target, reason, lrn, sessionId, choice, eventId, setIsSaving, onCorrected, onClose]);
+
+  const choices: CorrectionChoice[] = isExistingRecord
+    ? ["present", "late", "excused", "remove"]
+    : ["present", "late", "excused"];
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{isExistingRecord ? "Correct attendance" : "Add attendance"}</DialogTitle>
+        <DialogDescription>
+          {target.studentName
+            ? `${target.studentName}${target.currentStatus ? ` — currently ${target.currentStatus}` : ""}`
+            : "Manually record attendance for a student without a scan."}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        {!target.studentId && (
+          <div className="space-y-1.5">
+            <Label htmlFor="attendance-correction-lrn">Student LRN</Label>
+            <Input
+              id="attendance-correction-lrn"
+              value={lrn}
+              onChange={(event) => setLrn(event.target.value)}
+              placeholder="e.g. 123456789012"
+            />
+          </div>
+        )}
+
+        {!target.eventSessionId && (
+          <div className="space-y-1.5">
+            <Label>Session</Label>
+            <Select value={sessionId} onValueChange={setSessionId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select session" />
+              </SelectTrigger>
+              <SelectContent>
+                {sessions.map((session) => (
+                  <SelectItem key={session.id} value={session.id}>
+                    {session.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-1.5">
+          <Label>Status</Label>
+          <Select value={choice} onValueChange={(value) => setChoice(value as CorrectionChoice)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {choices.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {CHOICE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="attendance-correction-reason">Reason</Label>
+          <textarea
+            id="attendance-correction-reason"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            maxLength={500}
+            placeholder="e.g. Lost ID, verified by adviser"
+            className="w-full min-h-[80px] resize-y rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" size="sm" disabled={isSaving} onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={choice === "remove" ? "destructive" : "default"}
+          disabled={isSaving}
+          onClick={() => void handleSubmit()}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+interface AttendanceCorrectionLogProps {
+  eventId: string;
+  /** Changes whenever a correction is made, to trigger a reload */
+  refreshKey: number;
+}
+
+/**
+ * Recent manual attendance changes for an event.
+ */
+export function AttendanceCorrectionLog({ eventId, refreshKey }: AttendanceCorrectionLogProps) {
+  const [corrections, setCorrections] = useState<AttendanceCorrectionDto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCorrections = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sems/events/${eventId}/attendance/corrections?limit=50`);
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: { corrections: AttendanceCorrectionDto[] }; error?: { message?: string } }
+        | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load corrections.");
+      }
+
+      setCorrections(body.data.corrections);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load corrections.");
+      setCorrections([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadCorrections();
+  }, [loadCorrections, refreshKey]);
+
+  return (
+    <div className="rounded-xl border border-border/60 bg-card/80 overflow-hidden">
+      <div className="px-4 py-3 border-b border-border/60 flex items-center gap-2">
+        <History className="w-3.5 h-3.5 text-primary" />
+        <p className="text-xs text-muted-foreground">Manual corrections, newest first.</p>
+      </div>
+      {isLoading && corrections.length === 0 ? (
+        <div className="p-4 space-y-2">
+          <Skeleton className="h-4 w-2/3" />
+          <Skeleton className="h-4 w-1/2" />
+        </div>
+      ) : error ? (
+        <p className="px-4 py-3 text-xs text-destructive">{error}</p>
+      ) : corrections.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-muted-foreground">No manual corrections for this event.</p>
+      ) : (
+        <ul className="divide-y divide-border/60">
+          {corrections.map((correction) => (
+            <li key={correction.id} className="px-4 py-2 text-xs">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <span className="font-medium text-foreground">
+                  {correction.studentName ?? correction.studentId}
+                  <span className="font-normal text-muted-foreground">
+                    {" "}
+                    · {correction.sessionName ?? "Session"} · {describeCorrection(correction)}
+                  </span>
+                </span>
+                <span className="text-[11px] text-muted-foreground">
+                  {correction.correctedByName ?? "Unknown"} · {formatTimestamp(correction.createdAt)}
+                </span>
+              </div>
+              <p className="text-[11px] text-muted-foreground">{correction.reason}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
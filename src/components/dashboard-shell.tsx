@@ -16,17 +16,20 @@ import {
   Menu,
   X,
   ChevronLeft,
-  Bell,
   Building2,
   LogOut,
   User,
   UsersRound,
+  CalendarDays,
 } from "lucide-react";
 import Image from "next/image";
 import { usePathname, useRouter } from "next/navigation";
 import appSettings from "@/appsettings.json";
+import { SchoolSwitcher } from "@/components/school-switcher";
+import { SessionTimeoutWarning } from "@/components/session-timeout-warning";
 import PageTransition from "@/components/page-transition";
 import SponsorModal from "@/components/sponsor-modal";
+import { NotificationBell } from "@/components/notification-bell";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   DropdownMenu,
@@ -35,9 +38,10 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import type { UserRole } from "@/core/auth/types";
+import type { Permission } from "@/config/permissions";
 import { isAdministrativeRole } from "@/config/roles";
 import { useAuth } from "@/shared/hooks/useAuth";
+import { useSchoolBranding } from "@/shared/hooks/useSchoolBranding";
 import { useTheme } from "next-themes";
 
 type PhaseId = "phase1" | "phase2" | "phase3" | "phase4" | "phase5";
@@ -50,7 +54,8 @@ interface ModuleConfig {
   icon: React.ElementType;
   href: string;
   status: "active" | "upcoming";
-  allowedRoles?: UserRole[];
+  /** Permission needed to open the module; see src/config/permissions.ts */
+  permission?: Permission;
 }
 
 const MODULES: ModuleConfig[] = [
@@ -62,7 +67,7 @@ const MODULES: ModuleConfig[] = [
     icon: TrendingUp,
     href: "/dashboard",
     status: "active",
-    allowedRoles: ["SUPER_ADMIN", "ADMIN", "TEACHER", "STAFF"],
+    permission: "reports.view",
   },
   {
     id: "sems",
@@ -72,7 +77,7 @@ const MODULES: ModuleConfig[] = [
     icon: QrCode,
     href: "/sems",
     status: "active",
-    allowedRoles: ["SUPER_ADMIN", "ADMIN", "TEACHER", "STAFF"],
+    permission: "events.view",
   },
   {
     id: "sis",
@@ -82,7 +87,7 @@ const MODULES: ModuleConfig[] = [
     icon: Users,
     href: "/sis",
     status: "active",
-    allowedRoles: ["SUPER_ADMIN", "ADMIN", "TEACHER"],
+    permission: "students.manage",
   },
   {
     id: "facilities",
@@ -92,7 +97,17 @@ const MODULES: ModuleConfig[] = [
     icon: Building2,
     href: "/facilities",
     status: "active",
-    allowedRoles: ["SUPER_ADMIN", "ADMIN", "TEACHER", "STAFF"],
+    permission: "facilities.view",
+  },
+  {
+    id: "calendar",
+    name: "School Calendar",
+    shortName: "Calendar",
+    phase: "phase2",
+    icon: CalendarDays,
+    href: "/calendar",
+    status: "active",
+    permission: "academics.manage",
   },
   { id: "academic", name: "Academic Structure", shortName: "Academics", phase: "phase2", icon: School, href: "/dashboard/academic", status: "upcoming" },
   { id: "attendance", name: "Daily Attendance", shortName: "Attendance", phase: "phase2", icon: ClipboardCheck, href: "/dashboard/attendance", status: "upcoming" },
@@ -113,16 +128,16 @@ type DashboardShellProps = {
 export default function DashboardShell({ children, mobileTitle, mobileDescription }: DashboardShellProps) {
   const router = useRouter();
   const pathname = usePathname();
-  const { user, logout, hasRole } = useAuth();
+  const { user, logout, hasRole, can } = useAuth();
   const { theme, setTheme } = useTheme();
+  const branding = useSchoolBranding();
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isMobile, setIsMobile] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isSponsorModalOpen, setIsSponsorModalOpen] = useState(false);
-  const canManageUsers = hasRole(["SUPER_ADMIN", "ADMIN"]);
+  const canManageUsers = can(["users.manage", "permissions.manage"]);
   const isAdministrativeUser = user ? isAdministrativeRole(user.roles) : false;
   const shouldHideModules = !isAdministrativeUser && hasRole(["SCANNER", "STUDENT", "PARENT"]);
-  const isStaffUser = hasRole(["STAFF"]);
   const isStudent = hasRole(["STUDENT"]);
   const isScanner = hasRole(["SCANNER"]);
   const isParent = hasRole(["PARENT"]);
@@ -165,13 +180,19 @@ export default function DashboardShell({ children, mobileTitle, mobileDescriptio
             className={`flex items-center gap-3 focus:outline-none ${
               isCollapsed ? "cursor-pointer hover:opacity-90" : ""
             }`}
-            aria-label={isCollapsed ? "Expand sidebar" : appSettings.appName}
+            aria-label={isCollapsed ? "Expand sidebar" : branding.appName}
           >
             <div className="relative w-8 h-8">
-              <Image src="/basic-ed-logo.png" alt="Logo" fill className="object-contain" />
+              {/* School logos can be hosted anywhere, so skip the image optimizer */}
+              <Image src={branding.logoUrl} alt="Logo" fill unoptimized className="object-contain" />
             </div>
             {!isCollapsed && (
-              <span className="font-bold text-primary text-lg tracking-tight">{appSettings.appName}</span>
+              <span
+                className="font-bold text-primary text-lg tracking-tight truncate"
+                style={branding.school?.primaryColor ? { color: branding.school.primaryColor } : undefined}
+              >
+                {branding.appName}
+              </span>
             )}
           </button>
           <div
@@ -185,6 +206,7 @@ export default function DashboardShell({ children, mobileTitle, mobileDescriptio
             >
               <X className="w-5 h-5" />
             </button>
+            {!isCollapsed && !isMobile && <NotificationBell compact />}
             {!isCollapsed && (
               <button
                 type="button"
@@ -198,6 +220,12 @@ export default function DashboardShell({ children, mobileTitle, mobileDescriptio
           </div>
         </div>
 
+        {branding.canSwitch && !isCollapsed && (
+          <div className="px-3 pt-3">
+            <SchoolSwitcher activeSchoolId={branding.school?.id ?? null} onSwitch={branding.switchSchool} />
+          </div>
+        )}
+
         <div
           className={`flex-1 overflow-y-auto overflow-x-hidden py-6 space-y-2 hide-scrollbar transition-all duration-300 ease-in-out ${
             isCollapsed ? "px-2" : "px-3"
@@ -215,14 +243,14 @@ export default function DashboardShell({ children, mobileTitle, mobileDescriptio
                 Modules
               </div>
               {MODULES.filter((module) => {
-                // Hide Registry module for any staff user (primary or secondary role)
-                if (module.id === "sis" && isStaffUser) {
+                // Hide Registry module from users who can't manage students
+                if (module.id === "sis" && !can("students.manage")) {
                   return false;
                 }
                 return true;
               }).map((module) => {
                 const isActive = pathname === module.href;
-                const hasModuleAccess = !module.allowedRoles || hasRole(module.allowedRoles);
+                const hasModuleAccess = !module.permission || can(module.permission);
                 const isDisabled = module.status !== "active" || !hasModuleAccess;
 
                 return (
@@ -526,7 +554,7 @@ export default function DashboardShell({ children, mobileTitle, mobileDescriptio
           <div className="p-4 border-t border-sidebar-border bg-sidebar/50">
             <div className="w-full text-[11px] leading-snug text-muted-foreground text-center">
               <p className="font-medium text-muted-foreground">
-                @ 2025 {appSettings.appName} v{appSettings.version}
+                @ 2025 {branding.appName} v{appSettings.version}
               </p>
               <p className="mt-0.5">
                 Initiated by{" "}
@@ -560,13 +588,7 @@ export default function DashboardShell({ children, mobileTitle, mobileDescriptio
                 >
                   <Menu className="w-5 h-5" />
                 </button>
-                <button
-                  type="button"
-                  className="inline-flex items-center justify-center w-9 h-9 rounded-full bg-card/70 border border-border text-muted-foreground hover:text-foreground"
-                  aria-label="Notifications"
-                >
-                  <Bell className="w-4 h-4" />
-                </button>
+                {isMobile && <NotificationBell />}
               </div>
             </div>
             {children}
@@ -581,7 +603,13 @@ export default function DashboardShell({ children, mobileTitle, mobileDescriptio
         />
       )}
 
-      <SponsorModal isOpen={isSponsorModalOpen} onClose={() => setIsSponsorModalOpen(false)} />
+      <SponsorModal
+        isOpen={isSponsorModalOpen}
+        onClose={() => setIsSponsorModalOpen(false)}
+        appName={branding.appName}
+      />
+
+      <SessionTimeoutWarning />
     </div>
   );
 }
@@ -5,14 +5,20 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { AlertTriangle, Activity, Users, Clock, CheckCircle2, Check, ChevronsUpDown, Download } from "lucide-react";
+import { AlertTriangle, Activity, Users, Clock, CheckCircle2, Check, ChevronsUpDown, Download, Pencil, RefreshCw, UserPlus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { downloadExcelFile } from "@/lib/excel-utils";
 import { toast } from "sonner";
 import ExcelJS from "exceljs";
+import {
+  AttendanceCorrectionDialog,
+  AttendanceCorrectionLog,
+  type AttendanceCorrectionTarget,
+} from "@/components/attendance-correction-dialog";
 
 interface EventSummaryItem {
   id: string;
@@ -25,17 +31,21 @@ interface EventSummaryItem {
 type SessionPeriod = "morning" | "afternoon" | "evening";
 type SessionDirection = "in" | "out";
 
-type StudentSessionStatus = "none" | "present" | "late" | "no_scan";
+type StudentSessionStatus = "none" | "present" | "late" | "excused" | "absent" | "no_scan";
 
 interface SessionStatsDto {
   sessionId: string;
+  configSessionId: string | null;
+  date: string | null;
   name: string;
   sessionType: string;
   period: SessionPeriod;
   direction: SessionDirection;
+  startTime: string | null;
   totalScans: number;
   present: number;
   late: number;
+  excused: number;
   absent: number;
   uniqueStudents: number;
 }
@@ -47,6 +57,26 @@ interface PeriodStatsDto {
   missingOutCount?: number;
 }
 
+interface DateStatsDto {
+  date: string | null;
+  sessionIds: string[];
+  periods: PeriodStatsDto[];
+  totalScans: number;
+  totalPresent: number;
+  totalLate: number;
+  totalExcused: number;
+  totalAbsent: number;
+  uniqueStudents: number;
+}
+
+interface StudentAttendanceTotalsDto {
+  present: number;
+  late: number;
+  excused: number;
+  absent: number;
+  noScan: number;
+}
+
 interface StudentAttendanceRowDto {
   studentId: string;
   firstName: string | null;
@@ -55,6 +85,8 @@ interface StudentAttendanceRowDto {
   gradeLevel: string | null;
   section: string | null;
   sessions: Record<string, StudentSessionStatus>;
+  correctedSessions: string[];
+  totals: StudentAttendanceTotalsDto;
 }
 
 interface EventAttendanceStatsDto {
@@ -64,9 +96,14 @@ interface EventAttendanceStatsDto {
   totalScans: number;
   totalPresent: number;
   totalLate: number;
+  totalExcused: number;
   totalAbsent: number;
+  totalCorrected: number;
+  canCorrect: boolean;
   uniqueStudents: number;
   periods: PeriodStatsDto[];
+  sessions: SessionStatsDto[];
+  dates: DateStatsDto[];
   students: StudentAttendanceRowDto[];
 }
 
@@ -74,12 +111,55 @@ interface EventAttendanceInsightsProps {
   events: EventSummaryItem[];
 }
 
+/** Date selector value for the whole-event cumulative view */
+const ALL_DATES = "all";
+/** Date selector value for sessions recorded before sessions were keyed by date */
+const UNDATED = "undated";
+
+/** Per-student columns in the cumulative view */
+const TOTAL_COLUMNS: Array<{ key: keyof StudentAttendanceTotalsDto; label: string }> = [
+  { key: "present", label: "Present" },
+  { key: "late", label: "Late" },
+  { key: "excused", label: "Excused" },
+  { key: "absent", label: "Absent" },
+  { key: "noScan", label: "No Scan Out" },
+];
+
+function toDateKey(date: string | null): string {
+  return date ?? UNDATED;
+}
+
+function formatDateLabel(date: string | null): string {
+  if (!date) return "Undated sessions";
+  const parsed = new Date(`${date}T00:00:00`);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+function formatSessionLabel(session: Pick<SessionStatsDto, "period" | "direction">): string {
+  const baseLabel =
+    session.period === "morning"
+      ? "Morning"
+      : session.period === "afternoon"
+      ? "Afternoon"
+      : "Evening";
+  return `${baseLabel} ${session.direction === "in" ? "In" : "Out"}`;
+}
+
 export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps) {
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
   const [stats, setStats] = useState<EventAttendanceStatsDto | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [comboboxOpen, setComboboxOpen] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [correctionTarget, setCorrectionTarget] = useState<AttendanceCorrectionTarget | null>(null);
+  const [isRecomputing, setIsRecomputing] = useState(false);
+  // Remembered per event so switching events falls back to the cumulative view
+  const [dateSelection, setDateSelection] = useState<{ eventId: string | null; date: string }>({
+    eventId: null,
+    date: ALL_DATES,
+  });
 
   const hasEvents = events.length > 0;
 
@@ -141,6 +221,49 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
     return () => {
       isCancelled = true;
     };
+  }, [selectedEventId, reloadKey]);
+
+  const handleCorrected = useCallback(() => {
+    setReloadKey((key) => key + 1);
+  }, []);
+
+  const handleCloseCorrection = useCallback(() => {
+    setCorrectionTarget(null);
+  }, []);
+
+  const handleRecomputeAbsentees = useCallback(async () => {
+    if (!selectedEventId) return;
+
+    setIsRecomputing(true);
+
+    try {
+      const response = await fetch(`/api/sems/events/${selectedEventId}/absentees`, {
+        method: "POST",
+      });
+      const body = (await response.json().catch(() => null)) as
+        | {
+            success?: boolean;
+            data?: { result: { totalCreated: number; totalRemoved: number } };
+            error?: { message?: string };
+          }
+        | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to compute absentees.");
+      }
+
+      const { totalCreated, totalRemoved } = body.data.result;
+      toast.success("Absentees updated", {
+        description: `${totalCreated} marked absent, ${totalRemoved} removed.`,
+      });
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      toast.error("Unable to compute absentees", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsRecomputing(false);
+    }
   }, [selectedEventId]);
 
   const selectedEvent = useMemo(
@@ -148,16 +271,34 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
     [events, selectedEventId]
   );
 
+  const selectedDateStats = useMemo(() => {
+    if (!stats || dateSelection.eventId !== stats.eventId || dateSelection.date === ALL_DATES) {
+      return null;
+    }
+    return stats.dates.find((d) => toDateKey(d.date) === dateSelection.date) ?? null;
+  }, [stats, dateSelection]);
+
+  const selectedDateKey = selectedDateStats ? toDateKey(selectedDateStats.date) : ALL_DATES;
+
+  // Headline numbers for the selected date, or the whole event
+  const summary = useMemo(() => {
+    if (!stats) return null;
+    return selectedDateStats ?? stats;
+  }, [stats, selectedDateStats]);
+
+  const visiblePeriods = selectedDateStats?.periods ?? stats?.periods ?? [];
+
   const totalRate = useMemo(() => {
-    if (!stats) return 0;
-    const total = stats.totalPresent + stats.totalLate + stats.totalAbsent;
+    if (!summary) return 0;
+    const total = summary.totalPresent + summary.totalLate + summary.totalAbsent;
     if (!total) return 0;
-    return Math.round(((stats.totalPresent + stats.totalLate) / total) * 100);
-  }, [stats]);
+    return Math.round(((summary.totalPresent + summary.totalLate) / total) * 100);
+  }, [summary]);
 
+  // Per-session columns for the selected date; the cumulative view shows totals instead
   const sessionColumns = useMemo(
     () => {
-      if (!stats) return [] as Array<{ id: string; label: string; direction: SessionDirection }>;
+      if (!selectedDateStats) return [] as Array<{ id: string; label: string; direction: SessionDirection }>;
 
       const cols: Array<{ id: string; label: string; direction: SessionDirection }> = [];
       const seen = new Set<string>();
@@ -167,29 +308,41 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
         if (seen.has(session.sessionId)) return;
         seen.add(session.sessionId);
 
-        const baseLabel =
-          session.period === "morning"
-            ? "Morning"
-            : session.period === "afternoon"
-            ? "Afternoon"
-            : "Evening";
-        const suffix = session.direction === "in" ? "In" : "Out";
-
         cols.push({
           id: session.sessionId,
-          label: `${baseLabel} ${suffix}`,
+          label: formatSessionLabel(session),
           direction: session.direction,
         });
       };
 
-      for (const period of stats.periods) {
+      for (const period of selectedDateStats.periods) {
         addSession(period.inSession);
         addSession(period.outSession);
       }
 
       return cols;
     },
-    [stats]
+    [selectedDateStats]
+  );
+
+  // On a single date, only students with a record that day
+  const visibleStudents = useMemo(() => {
+    if (!stats) return [] as StudentAttendanceRowDto[];
+    if (!selectedDateStats) return stats.students;
+    return stats.students.filter((student) =>
+      selectedDateStats.sessionIds.some((id) => (student.sessions[id] ?? "none") !== "none")
+    );
+  }, [stats, selectedDateStats]);
+
+  const correctionSessions = useMemo(
+    () =>
+      (stats?.sessions ?? [])
+        .filter((session) => !selectedDateStats || selectedDateStats.sessionIds.includes(session.sessionId))
+        .map((session) => ({
+          id: session.sessionId,
+          label: `${formatDateLabel(session.date)} · ${formatSessionLabel(session)}`,
+        })),
+    [stats, selectedDateStats]
   );
 
   const generateAttendanceExcel = useCallback(async () => {
@@ -215,8 +368,12 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
     summarySheet.addRow({ label: "Total Scans", value: stats.totalScans });
     summarySheet.addRow({ label: "Present", value: stats.totalPresent });
     summarySheet.addRow({ label: "Late", value: stats.totalLate });
+    summarySheet.addRow({ label: "Excused", value: stats.totalExcused });
     summarySheet.addRow({ label: "Absent", value: stats.totalAbsent });
-    summarySheet.addRow({ label: "Overall Attendance Rate", value: `${totalRate}%` });
+    const rated = stats.totalPresent + stats.totalLate + stats.totalAbsent;
+    const overallRate = rated ? Math.round(((stats.totalPresent + stats.totalLate) / rated) * 100) : 0;
+    summarySheet.addRow({ label: "Overall Attendance Rate", value: `${overallRate}%` });
+    summarySheet.addRow({ label: "Manually Corrected Records", value: stats.totalCorrected });
 
     // Style the summary sheet
     summarySheet.getColumn(1).font = { bold: true };
@@ -225,6 +382,7 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
     // Sheet 2: Session Breakdown
     const sessionSheet = workbook.addWorksheet("Session Breakdown");
     sessionSheet.columns = [
+      { header: "Date", key: "date", width: 14 },
       { header: "Period", key: "period", width: 15 },
       { header: "Entry Session", key: "entrySession", width: 20 },
       { header: "Entry Scans", key: "entryScans", width: 12 },
@@ -237,12 +395,20 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
       { header: "Missing Out", key: "missingOut", width: 12 }
     ];
 
-    for (const period of stats.periods) {
+    const breakdownRows = [
+      ...stats.dates.flatMap((dateStats) =>
+        dateStats.periods.map((period) => ({ date: dateStats.date ?? "Undated", period }))
+      ),
+      ...stats.periods.map((period) => ({ date: "All dates", period })),
+    ];
+
+    for (const { date, period } of breakdownRows) {
       const periodLabel = period.period.charAt(0).toUpperCase() + period.period.slice(1);
       const inSession = period.inSession;
       const outSession = period.outSession;
 
       sessionSheet.addRow({
+        date,
         period: periodLabel,
         entrySession: inSession?.name ?? "—",
         entryScans: inSession?.totalScans ?? 0,
@@ -274,11 +440,11 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
       { header: "Section", key: "section", width: 12 }
     ];
 
-    // Add session columns
-    for (const col of sessionColumns) {
+    // Add session columns for every date
+    for (const session of stats.sessions) {
       studentColumns.push({
-        header: col.label,
-        key: `session_${col.id}`,
+        header: `${session.date ?? "Undated"} ${formatSessionLabel(session)}`,
+        key: `session_${session.sessionId}`,
         width: 15
       });
     }
@@ -287,6 +453,7 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
     studentColumns.push(
       { header: "Total Present", key: "totalPresent", width: 12 },
       { header: "Total Late", key: "totalLate", width: 12 },
+      { header: "Total Excused", key: "totalExcused", width: 12 },
       { header: "Total Absent", key: "totalAbsent", width: 12 },
       { header: "Attendance Rate", key: "attendanceRate", width: 15 }
     );
@@ -301,37 +468,36 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
         section: student.section ?? "—"
       };
 
-      let presentCount = 0;
-      let lateCount = 0;
-      let absentCount = 0;
-
-      for (const col of sessionColumns) {
-        const status = student.sessions[col.id] ?? "none";
+      for (const session of stats.sessions) {
+        const status = student.sessions[session.sessionId] ?? "none";
         let statusText = "—";
 
         if (status === "present") {
           statusText = "Present";
-          presentCount++;
         } else if (status === "late") {
           statusText = "Late";
-          lateCount++;
+        } else if (status === "excused") {
+          statusText = "Excused";
+        } else if (status === "absent") {
+          statusText = "Absent";
         } else if (status === "no_scan") {
           statusText = "No Scan";
-          absentCount++;
         }
 
-        rowData[`session_${col.id}`] = statusText;
+        rowData[`session_${session.sessionId}`] = statusText;
       }
 
       // Calculate student's attendance rate
-      const totalSessions = presentCount + lateCount + absentCount;
+      const { present, late, excused, absent, noScan } = student.totals;
+      const totalSessions = present + late + absent + noScan;
       const studentRate = totalSessions > 0
-        ? Math.round(((presentCount + lateCount) / totalSessions) * 100)
+        ? Math.round(((present + late) / totalSessions) * 100)
         : 0;
 
-      rowData.totalPresent = presentCount;
-      rowData.totalLate = lateCount;
-      rowData.totalAbsent = absentCount;
+      rowData.totalPresent = present;
+      rowData.totalLate = late;
+      rowData.totalExcused = excused;
+      rowData.totalAbsent = absent + noScan;
       rowData.attendanceRate = `${studentRate}%`;
 
       studentSheet.addRow(rowData);
@@ -346,7 +512,7 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
     };
 
     return workbook;
-  }, [stats, selectedEvent, sessionColumns, totalRate]);
+  }, [stats, selectedEvent]);
 
   const handleExportExcel = useCallback(async () => {
     if (!stats || !selectedEvent) return;
@@ -465,6 +631,24 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
               </Command>
             </PopoverContent>
           </Popover>
+          {stats && stats.dates.length > 0 && (
+            <Select
+              value={selectedDateKey}
+              onValueChange={(date) => setDateSelection({ eventId: stats.eventId, date })}
+            >
+              <SelectTrigger className="w-full md:w-[180px] h-9 text-xs md:text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DATES}>All dates (cumulative)</SelectItem>
+                {stats.dates.map((dateStats) => (
+                  <SelectItem key={toDateKey(dateStats.date)} value={toDateKey(dateStats.date)}>
+                    {formatDateLabel(dateStats.date)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -497,7 +681,7 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
               Retry
             </Button>
           </div>
-        ) : !stats ? (
+        ) : !stats || !summary ? (
           <p className="text-sm text-muted-foreground py-4 text-center">
             Select an event to view attendance insights.
           </p>
@@ -520,8 +704,8 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
                   <Users className="w-3.5 h-3.5 text-emerald-500" />
                 </div>
                 <div className="flex items-baseline gap-1">
-                  <span className="text-xl font-bold text-foreground">{stats.uniqueStudents}</span>
-                  <span className="text-[11px] text-muted-foreground">scanned at least once</span>
+                  <span className="text-xl font-bold text-foreground">{summary.uniqueStudents}</span>
+                  <span className="text-[11px] text-muted-foreground">attended at least once</span>
                 </div>
               </div>
               <div className="p-3 rounded-xl border border-border/60 bg-card/80 flex flex-col gap-1">
@@ -530,7 +714,7 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
                   <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />
                 </div>
                 <div className="flex items-baseline gap-1">
-                  <span className="text-xl font-bold text-foreground">{stats.totalPresent}</span>
+                  <span className="text-xl font-bold text-foreground">{summary.totalPresent}</span>
                   <span className="text-[11px] text-muted-foreground">present</span>
                 </div>
               </div>
@@ -541,12 +725,12 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
                 </div>
                 <div className="flex items-baseline gap-2">
                   <div className="flex flex-col">
-                    <span className="text-sm font-semibold text-foreground">{stats.totalLate}</span>
+                    <span className="text-sm font-semibold text-foreground">{summary.totalLate}</span>
                     <span className="text-[11px] text-muted-foreground">late</span>
                   </div>
                   <div className="h-8 w-px bg-border/70" />
                   <div className="flex flex-col">
-                    <span className="text-sm font-semibold text-foreground">{stats.totalAbsent}</span>
+                    <span className="text-sm font-semibold text-foreground">{summary.totalAbsent}</span>
                     <span className="text-[11px] text-muted-foreground">absent</span>
                   </div>
                 </div>
@@ -556,7 +740,10 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
             <div className="rounded-xl border border-border/60 bg-card/80 overflow-hidden">
               <div className="px-4 py-3 border-b border-border/60 flex items-center justify-between">
                 <p className="text-xs text-muted-foreground">
-                  Session-level breakdown by period. "Missing out" shows students who scanned IN but never scanned OUT.
+                  {selectedDateStats
+                    ? `Session-level breakdown by period for ${formatDateLabel(selectedDateStats.date)}.`
+                    : "Session-level breakdown by period across all dates."}{" "}
+                  "Missing out" shows students who scanned IN but never scanned OUT.
                 </p>
               </div>
               <Table>
@@ -570,14 +757,14 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {stats.periods.length === 0 ? (
+                  {visiblePeriods.length === 0 ? (
                     <TableRow>
                       <TableCell colSpan={5} className="py-6 text-center text-sm text-muted-foreground">
                         No session configuration or attendance logs for this event yet.
                       </TableCell>
                     </TableRow>
                   ) : (
-                    stats.periods.map((period) => {
+                    visiblePeriods.map((period) => {
                       const label =
                         period.period === "morning"
                           ? "Morning"
@@ -657,8 +844,41 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
             <div className="rounded-xl border border-border/60 bg-card/80 overflow-hidden">
               <div className="px-4 py-3 border-b border-border/60 flex items-center justify-between">
                 <p className="text-xs text-muted-foreground">
-                  Per-student attendance by session. "No Scan" on an exit session means the student scanned IN but never scanned OUT.
+                  {selectedDateStats ? (
+                    <>
+                      Per-student attendance by session. "No Scan" on an exit session means the student scanned IN but never scanned OUT.
+                      {stats.canCorrect && " Click a cell to correct it."}
+                    </>
+                  ) : (
+                    "Per-student session counts across all dates. Select a date to see individual sessions."
+                  )}
                 </p>
+                {stats.canCorrect && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1.5 h-7 text-xs"
+                      disabled={isRecomputing}
+                      onClick={() => void handleRecomputeAbsentees()}
+                      title="Mark expected students without a scan as absent for closed sessions"
+                    >
+                      <RefreshCw className={cn("w-3.5 h-3.5", isRecomputing && "animate-spin")} />
+                      {isRecomputing ? "Computing..." : "Recompute absentees"}
+                    </Button>
+                    {correctionSessions.length > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-1.5 h-7 text-xs"
+                        onClick={() => setCorrectionTarget({})}
+                      >
+                        <UserPlus className="w-3.5 h-3.5" />
+                        Add attendance
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="overflow-x-auto">
                 <Table>
@@ -674,20 +894,31 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
                           {col.label}
                         </TableHead>
                       ))}
+                      {!selectedDateStats &&
+                        TOTAL_COLUMNS.map((col) => (
+                          <TableHead
+                            key={col.key}
+                            className="text-xs font-semibold text-primary text-center whitespace-nowrap"
+                          >
+                            {col.label}
+                          </TableHead>
+                        ))}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {stats.students.length === 0 ? (
+                    {visibleStudents.length === 0 ? (
                       <TableRow>
                         <TableCell
-                          colSpan={2 + sessionColumns.length}
+                          colSpan={2 + (selectedDateStats ? sessionColumns.length : TOTAL_COLUMNS.length)}
                           className="py-6 text-center text-sm text-muted-foreground"
                         >
-                          No student scans recorded for this event yet.
+                          {selectedDateStats
+                            ? "No student scans recorded for this date."
+                            : "No student scans recorded for this event yet."}
                         </TableCell>
                       </TableRow>
                     ) : (
-                      stats.students.map((student) => (
+                      visibleStudents.map((student) => (
                         <TableRow key={student.studentId} className="hover:bg-muted/40">
                           <TableCell className="text-sm font-medium text-foreground">
                             {student.fullName}
@@ -701,6 +932,19 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
                           </TableCell>
                           {sessionColumns.map((col) => {
                             const status = student.sessions[col.id] ?? "none";
+                            const hasRecord =
+                              status === "present" ||
+                              status === "late" ||
+                              status === "excused" ||
+                              status === "absent";
+                            const isCorrected = student.correctedSessions.includes(col.id);
+                            const openCorrection = () =>
+                              setCorrectionTarget({
+                                studentId: student.studentId,
+                                studentName: student.fullName,
+                                eventSessionId: col.id,
+                                currentStatus: hasRecord ? status : null,
+                              });
 
                             if (status === "none") {
                               return (
@@ -708,7 +952,18 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
                                   key={col.id}
                                   className="text-[11px] text-muted-foreground text-center"
                                 >
-                                  —
+                                  {stats.canCorrect ? (
+                                    <button
+                                      type="button"
+                                      onClick={openCorrection}
+                                      className="px-2 py-0.5 rounded hover:bg-muted"
+                                      title="Add attendance"
+                                    >
+                                      —
+                                    </button>
+                                  ) : (
+                                    "—"
+                                  )}
                                 </TableCell>
                               );
                             }
@@ -726,6 +981,12 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
                               label = "Late";
                               className +=
                                 " bg-amber-500/10 text-amber-300 border-amber-500/60";
+                            } else if (status === "excused") {
+                              label = "Excused";
+                              className += " bg-sky-500/10 text-sky-300 border-sky-500/60";
+                            } else if (status === "absent") {
+                              label = "Absent";
+                              className += " bg-red-500/10 text-red-300 border-red-500/60";
                             } else if (status === "no_scan" && isExit) {
                               label = "No Scan";
                               className += " bg-red-500/10 text-red-300 border-red-500/60";
@@ -736,10 +997,31 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
 
                             return (
                               <TableCell key={col.id} className="text-center align-middle">
-                                <span className={className}>{label}</span>
+                                {stats.canCorrect ? (
+                                  <button
+                                    type="button"
+                                    onClick={openCorrection}
+                                    className={cn(className, "gap-1 hover:opacity-80")}
+                                    title={isCorrected ? "Manually corrected — click to change" : "Correct attendance"}
+                                  >
+                                    {label}
+                                    {isCorrected && <Pencil className="w-2.5 h-2.5" />}
+                                  </button>
+                                ) : (
+                                  <span className={cn(className, "gap-1")}>
+                                    {label}
+                                    {isCorrected && <Pencil className="w-2.5 h-2.5" />}
+                                  </span>
+                                )}
                               </TableCell>
                             );
                           })}
+                          {!selectedDateStats &&
+                            TOTAL_COLUMNS.map((col) => (
+                              <TableCell key={col.key} className="text-xs text-center tabular-nums">
+                                {student.totals[col.key]}
+                              </TableCell>
+                            ))}
                         </TableRow>
                       ))
                     )}
@@ -747,6 +1029,19 @@ export function EventAttendanceInsights({ events }: EventAttendanceInsightsProps
                 </Table>
               </div>
             </div>
+
+            {stats.canCorrect && (
+              <>
+                <AttendanceCorrectionLog eventId={stats.eventId} refreshKey={reloadKey} />
+                <AttendanceCorrectionDialog
+                  eventId={stats.eventId}
+                  sessions={correctionSessions}
+                  target={correctionTarget}
+                  onClose={handleCloseCorrection}
+                  onCorrected={handleCorrected}
+                />
+              </>
+            )}
           </>
         )}
       </CardContent>
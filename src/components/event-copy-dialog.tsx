@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Copy, LayoutTemplate, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+
+export type EventCopyMode = "duplicate" | "template";
+
+export interface EventCopySource {
+  id: string;
+  title: string;
+}
+
+interface EventCopyDialogProps {
+  /** Event to copy; the dialog is open while set */
+  source: EventCopySource | null;
+  mode: EventCopyMode;
+  onClose: () => void;
+  /** Called with the new draft's ID after a duplicate */
+  onDuplicated: (eventId: string) => void;
+}
+
+interface ApiBody<T> {
+  success?: boolean;
+  data?: T;
+  error?: { message?: string; details?: Array<{ field: string; message: string }> };
+}
+
+/**
+ * Dialog for copying an event: duplicate it into a draft on new dates, or
+ * save it as a named template.
+ */
+export function EventCopyDialog({ source, mode, onClose, onDuplicated }: EventCopyDialogProps) {
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!source) return;
+    setName(mode === "duplicate" ? `${source.title} (Copy)` : source.title);
+    setStartDate("");
+  }, [source, mode]);
+
+  const handleSubmit = async () => {
+    if (!source) return;
+    if (!name.trim() || (mode === "duplicate" && !startDate)) {
+      toast.error(mode === "duplicate" ? "Enter a title and a start date" : "Enter a template name");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response =
+        mode === "duplicate"
+          ? await fetch(`/api/sems/events/${source.id}/duplicate`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ startDate, title: name.trim() }),
+            })
+          : await fetch("/api/sems/templates", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ eventId: source.id, name: name.trim() }),
+            });
+      const body = (await response.json().catch(() => null)) as ApiBody<{ event?: { id: string } }> | null;
+      if (!response.ok || !body?.success || !body.data) {
+        const firstError = body?.error?.details?.[0];
+        throw new Error(
+          firstError ? `${firstError.field}: ${firstError.message}` : body?.error?.message ?? "Request failed."
+        );
+      }
+
+      onClose();
+      if (mode === "duplicate" && body.data.event) {
+        toast.success("Event duplicated", {
+          description: "The copy was saved as a draft.",
+        });
+        onDuplicated(body.data.event.id);
+      } else {
+        toast.success("Template saved", {
+          description: `Use "From Template" to start new events from "${name.trim()}".`,
+        });
+      }
+    } catch (err) {
+      toast.error(mode === "duplicate" ? "Unable to duplicate event" : "Unable to save template", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={source !== null} onOpenChange={(next) => !next && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {mode === "duplicate" ? <Copy className="w-5 h-5" /> : <LayoutTemplate className="w-5 h-5" />}
+            {mode === "duplicate" ? "Duplicate Event" : "Save as Template"}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === "duplicate"
+              ? "Every date moves so the copy starts on the day you pick. The copy starts as a draft."
+              : "Saves the venue, audience, sessions, scanners, visibility and registration settings."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="event-copy-name">{mode === "duplicate" ? "Title" : "Template name"}</Label>
+            <Input id="event-copy-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          {mode === "duplicate" && (
+            <div className="space-y-1.5">
+              <Label htmlFor="event-copy-start">New first day</Label>
+              <Input
+                id="event-copy-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => void handleSubmit()} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {mode === "duplicate" ? "Duplicate" : "Save Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Ban,
+  CheckCircle2,
+  Flag,
+  History,
+  Megaphone,
+  Pencil,
+  PlusCircle,
+  Send,
+  Undo2,
+  type LucideIcon,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+type AuditAction =
+  | "CREATE"
+  | "UPDATE"
+  | "SUBMIT_FOR_APPROVAL"
+  | "APPROVE"
+  | "REJECT"
+  | "PUBLISH"
+  | "COMPLETE"
+  | "CANCEL";
+
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  actorUserId: string | null;
+  actorName: string | null;
+  fromStatus: string | null;
+  toStatus: string | null;
+  comment: string | null;
+  changes: FieldChange[];
+  createdAt: string;
+}
+
+interface EventHistoryTimelineProps {
+  eventId: string;
+}
+
+const ACTION_DISPLAY: Record<AuditAction, { label: string; icon: LucideIcon; className: string }> = {
+  CREATE: { label: "Created the event", icon: PlusCircle, className: "bg-sky-50 text-sky-700" },
+  UPDATE: { label: "Edited the event", icon: Pencil, className: "bg-muted text-muted-foreground" },
+  SUBMIT_FOR_APPROVAL: { label: "Submitted for approval", icon: Send, className: "bg-amber-50 text-amber-700" },
+  APPROVE: { label: "Approved", icon: CheckCircle2, className: "bg-emerald-50 text-emerald-700" },
+  REJECT: { label: "Returned for changes", icon: Undo2, className: "bg-red-50 text-red-700" },
+  PUBLISH: { label: "Published", icon: Megaphone, className: "bg-emerald-50 text-emerald-700" },
+  COMPLETE: { label: "Marked completed", icon: Flag, className: "bg-sky-50 text-sky-700" },
+  CANCEL: { label: "Cancelled", icon: Ban, className: "bg-red-50 text-red-700" },
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  pending_approval: "Pending approval",
+  approved: "Approved",
+  published: "Published",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  posterImageUrl: "Poster image",
+  startDate: "Start date",
+  endDate: "End date",
+  facilityId: "Venue",
+  audienceConfig: "Audience",
+  sessionConfig: "Sessions",
+  scannerConfig: "Scanners",
+  visibility: "Visibility",
+  registrationRequired: "Registration required",
+  registrationOpensAt: "Registration opens",
+  registrationClosesAt: "Registration closes",
+  capacityLimit: "Capacity limit",
+  ownerUserId: "Owner",
+};
+
+/** Fields whose values are IDs or configuration objects, shown as "changed" only. */
+const SUMMARY_ONLY_FIELDS = new Set(["facilityId", "audienceConfig", "sessionConfig", "ownerUserId"]);
+
+const TIMESTAMP_FIELDS = new Set(["registrationOpensAt", "registrationClosesAt"]);
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (field === "scannerConfig") {
+    const scannerIds = (value as { scannerIds?: unknown }).scannerIds;
+    const count = Array.isArray(scannerIds) ? scannerIds.length : 0;
+    return `${count} scanner${count === 1 ? "" : "s"}`;
+  }
+  if (typeof value === "string") {
+    return TIMESTAMP_FIELDS.has(field) ? formatTimestamp(value) : value;
+  }
+  return String(value);
+}
+
+function ChangeLine({ change }: { change: FieldChange }) {
+  const label = FIELD_LABELS[change.field] ?? change.field;
+
+  if (SUMMARY_ONLY_FIELDS.has(change.field)) {
+    return (
+      <li className="text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{label}</span> changed
+      </li>
+    );
+  }
+
+  return (
+    <li className="text-xs text-muted-foreground break-words">
+      <span className="font-medium text-foreground">{label}:</span>{" "}
+      <span className="line-through decoration-muted-foreground/60">{formatValue(change.field, change.before)}</span>
+      {" → "}
+      <span className="text-foreground">{formatValue(change.field, change.after)}</span>
+    </li>
+  );
+}
+
+/**
+ * Event history timeline: who created, edited, approved, rejected, published
+ * or cancelled the event, and when, with before/after values for edits.
+ */
+export function EventHistoryTimeline({ eventId }: EventHistoryTimelineProps) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sems/events/${eventId}/history`);
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: { entries: AuditEntry[] }; error?: { message?: string } }
+        | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load event history.");
+      }
+
+      setEntries(body.data.entries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load event history.");
+      setEntries(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadHistory();
+  }, [loadHistory]);
+
+  if (isLoading && !entries) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (!entries) {
+    return null;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <History className="w-4 h-4" />
+        No history recorded for this event yet.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-border/70 pl-5">
+      {entries.map((entry) => {
+        const display = ACTION_DISPLAY[entry.action] ?? ACTION_DISPLAY.UPDATE;
+        const Icon = display.icon;
+        const statusChanged = entry.fromStatus !== null && entry.toStatus !== null && entry.fromStatus !== entry.toStatus;
+
+        return (
+          <li key={entry.id} className="relative">
+            <span
+              className={`absolute -left-[31px] top-0 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-background ${display.className}`}
+            >
+              <Icon className="w-3.5 h-3.5" />
+            </span>
+            <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+              <span className="text-sm font-medium text-foreground">{display.label}</span>
+              {statusChanged && (
+                <Badge variant="outline" className="text-[10px] font-normal">
+                  {STATUS_LABELS[entry.fromStatus ?? ""] ?? entry.fromStatus} →{" "}
+                  {STATUS_LABELS[entry.toStatus ?? ""] ?? entry.toStatus}
+                </Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {entry.actorName ?? (entry.actorUserId ? "Unknown user" : "System")} · {formatTimestamp(entry.createdAt)}
+            </p>
+            {entry.comment && (
+              <p className="mt-1 rounded-md bg-muted/60 px-2 py-1 text-xs text-foreground whitespace-pre-wrap">
+                {entry.comment}
+              </p>
+            )}
+            {entry.changes.length > 0 && (
+              <ul className="mt-1 space-y-0.5">
+                {entry.changes.map((change) => (
+                  <ChangeLine key={change.field} change={change} />
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
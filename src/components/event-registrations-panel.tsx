@@ -0,0 +1,283 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, ListOrdered, Trash2, Users } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+
+type RegistrationStatus = "confirmed" | "waitlisted";
+
+interface RegistrationItem {
+  id: string;
+  studentId: string;
+  studentName: string | null;
+  registeredAt: string;
+  status: RegistrationStatus;
+  waitlistPosition: number | null;
+  promotedAt: string | null;
+}
+
+interface RegistrationListDto {
+  eventId: string;
+  registration: {
+    registrationRequired: boolean;
+    registrationOpensAt: string | null;
+    registrationClosesAt: string | null;
+    capacityLimit: number | null;
+  };
+  isOpen: boolean;
+  registeredCount: number;
+  waitlistCount: number;
+  remainingCapacity: number | null;
+  registrations: RegistrationItem[];
+  waitlist: RegistrationItem[];
+}
+
+interface EventRegistrationsPanelProps {
+  eventId: string;
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Registrations and waitlist for a single event, with organizer promote/demote actions.
+ */
+export function EventRegistrationsPanel({ eventId }: EventRegistrationsPanelProps) {
+  const [data, setData] = useState<RegistrationListDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingStudentId, setPendingStudentId] = useState<string | null>(null);
+
+  const loadRegistrations = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sems/events/${eventId}/registrations`);
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: RegistrationListDto; error?: { message?: string } }
+        | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load registrations.");
+      }
+
+      setData(body.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load registrations.");
+      setData(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void loadRegistrations();
+  }, [loadRegistrations]);
+
+  const runAction = useCallback(
+    async (studentId: string, action: "promote" | "demote" | "remove") => {
+      setPendingStudentId(studentId);
+
+      try {
+        const response = await fetch(`/api/sems/events/${eventId}/registrations`, {
+          method: action === "remove" ? "DELETE" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(action === "remove" ? { studentId } : { studentId, action }),
+        });
+        const body = (await response.json().catch(() => null)) as
+          | { success?: boolean; error?: { message?: string } }
+          | null;
+
+        if (!response.ok || !body?.success) {
+          throw new Error(body?.error?.message ?? "Unable to update registration.");
+        }
+
+        toast.success(
+          action === "promote"
+            ? "Student promoted from the waitlist"
+            : action === "demote"
+            ? "Student moved to the waitlist"
+            : "Registration removed"
+        );
+        await loadRegistrations();
+      } catch (err) {
+        toast.error("Unable to update registration", {
+          description: err instanceof Error ? err.message : undefined,
+        });
+      } finally {
+        setPendingStudentId(null);
+      }
+    },
+    [eventId, loadRegistrations]
+  );
+
+  if (isLoading && !data) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-5 w-40" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  if (!data.registration.registrationRequired) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This event does not require registration. All students in the target audience can attend.
+      </p>
+    );
+  }
+
+  const capacityLabel =
+    data.registration.capacityLimit !== null
+      ? `${data.registeredCount} / ${data.registration.capacityLimit} seats`
+      : `${data.registeredCount} registered`;
+
+  const renderRows = (items: RegistrationItem[], kind: RegistrationStatus) =>
+    items.map((item) => {
+      const isPending = pendingStudentId === item.studentId;
+      return (
+        <TableRow key={item.id}>
+          {kind === "waitlisted" && (
+            <TableCell className="w-12 text-muted-foreground">#{item.waitlistPosition ?? "-"}</TableCell>
+          )}
+          <TableCell className="font-medium">{item.studentName ?? item.studentId}</TableCell>
+          <TableCell className="text-muted-foreground">
+            {formatTimestamp(item.registeredAt)}
+            {item.promotedAt && (
+              <Badge variant="secondary" className="ml-2">
+                Promoted
+              </Badge>
+            )}
+          </TableCell>
+          <TableCell className="text-right">
+            <div className="flex justify-end gap-1">
+              {kind === "waitlisted" ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={isPending || data.remainingCapacity === 0}
+                  onClick={() => void runAction(item.studentId, "promote")}
+                >
+                  <ArrowUp className="w-3.5 h-3.5" />
+                  Promote
+                </Button>
+              ) : (
+                data.registration.capacityLimit !== null && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    disabled={isPending}
+                    onClick={() => void runAction(item.studentId, "demote")}
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                    Demote
+                  </Button>
+                )
+              )}
+              <Button
+                type="button"
+                size="icon-sm"
+                variant="ghost"
+                disabled={isPending}
+                aria-label="Remove registration"
+                onClick={() => void runAction(item.studentId, "remove")}
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          </TableCell>
+        </TableRow>
+      );
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="outline" className="gap-1">
+          <Users className="w-3 h-3" />
+          {capacityLabel}
+        </Badge>
+        <Badge variant="outline" className="gap-1">
+          <ListOrdered className="w-3 h-3" />
+          {data.waitlistCount} waitlisted
+        </Badge>
+        <Badge variant={data.isOpen ? "default" : "secondary"}>
+          {data.isOpen ? "Registration open" : "Registration closed"}
+        </Badge>
+      </div>
+
+      <div className="rounded-lg border border-border/50">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Registered student</TableHead>
+              <TableHead>Registered</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.registrations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center text-sm text-muted-foreground">
+                  No registrations yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              renderRows(data.registrations, "confirmed")
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {data.registration.capacityLimit !== null && (
+        <div className="rounded-lg border border-border/50">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Waitlisted student</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.waitlist.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                    The waitlist is empty.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                renderRows(data.waitlist, "waitlisted")
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,557 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Repeat } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import type {
+  EventRecurrenceRule,
+  RecurrenceFrequency,
+  RecurrenceWeekday,
+  SessionConfig,
+} from "@/modules/sems/domain/types";
+
+type SeriesEndMode = "until" | "count";
+
+interface FacilityOption {
+  id: string;
+  name: string;
+  status: string;
+}
+
+interface LevelOption {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+interface ScannerOption {
+  id: string;
+  fullName: string;
+  isActive: boolean;
+}
+
+interface SessionTemplateRow extends SessionConfig {
+  enabled: boolean;
+}
+
+interface EventSeriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: () => void;
+}
+
+const NO_VENUE = "none";
+
+const WEEKDAY_LABELS: Array<{ value: RecurrenceWeekday; label: string }> = [
+  { value: "MO", label: "Mon" },
+  { value: "TU", label: "Tue" },
+  { value: "WE", label: "Wed" },
+  { value: "TH", label: "Thu" },
+  { value: "FR", label: "Fri" },
+  { value: "SA", label: "Sat" },
+  { value: "SU", label: "Sun" },
+];
+
+const SCHOOL_DAYS: RecurrenceWeekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+const DEFAULT_TEMPLATE: SessionTemplateRow[] = [
+  { id: "morning-in", name: "Morning In", period: "morning", direction: "in", opens: "06:30", lateAfter: "07:30", closes: "08:00", enabled: true },
+  { id: "morning-out", name: "Morning Out", period: "morning", direction: "out", opens: "11:30", lateAfter: null, closes: "12:30", enabled: false },
+  { id: "afternoon-in", name: "Afternoon In", period: "afternoon", direction: "in", opens: "12:30", lateAfter: "13:00", closes: "13:30", enabled: false },
+  { id: "afternoon-out", name: "Afternoon Out", period: "afternoon", direction: "out", opens: "16:00", lateAfter: null, closes: "17:30", enabled: true },
+];
+
+/**
+ * Split a comma- or newline-separated list of YYYY-MM-DD dates.
+ */
+function parseDateList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((date) => date.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Dialog for creating a recurring event series: one event per occurrence
+ * date, sharing a session template. Holidays go in the excluded dates.
+ */
+export function EventSeriesDialog({ open, onOpenChange, onCreated }: EventSeriesDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        {open && (
+          <EventSeriesForm
+            isSaving={isSaving}
+            setIsSaving={setIsSaving}
+            onClose={() => onOpenChange(false)}
+            onCreated={onCreated}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface EventSeriesFormProps {
+  isSaving: boolean;
+  setIsSaving: (isSaving: boolean) => void;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+/**
+ * Form body, mounted fresh each time the dialog opens.
+ */
+function EventSeriesForm({ isSaving, setIsSaving, onClose, onCreated }: EventSeriesFormProps) {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [facilityId, setFacilityId] = useState(NO_VENUE);
+  const [levelIds, setLevelIds] = useState<Set<string>>(new Set());
+  const [scannerIds, setScannerIds] = useState<Set<string>>(new Set());
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("DAILY");
+  const [repeatInterval, setRepeatInterval] = useState("1");
+  const [weekdays, setWeekdays] = useState<Set<RecurrenceWeekday>>(new Set(SCHOOL_DAYS));
+  const [startDate, setStartDate] = useState("");
+  const [endMode, setEndMode] = useState<SeriesEndMode>("until");
+  const [until, setUntil] = useState("");
+  const [count, setCount] = useState("10");
+  const [excludedDates, setExcludedDates] = useState("");
+  const [template, setTemplate] = useState<SessionTemplateRow[]>(DEFAULT_TEMPLATE);
+  const [skipConflictingDates, setSkipConflictingDates] = useState(false);
+
+  const [facilities, setFacilities] = useState<FacilityOption[]>([]);
+  const [levels, setLevels] = useState<LevelOption[]>([]);
+  const [scanners, setScanners] = useState<ScannerOption[]>([]);
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const [facilitiesResponse, levelsResponse, scannersResponse] = await Promise.all([
+        fetch("/api/facilities"),
+        fetch("/api/sis/levels"),
+        fetch("/api/sems/scanners"),
+      ]);
+      const facilitiesBody = (await facilitiesResponse.json().catch(() => null)) as
+        | { success?: boolean; data?: { facilities: FacilityOption[] } }
+        | null;
+      const levelsBody = (await levelsResponse.json().catch(() => null)) as
+        | { success?: boolean; data?: { levels: LevelOption[] } }
+        | null;
+      const scannersBody = (await scannersResponse.json().catch(() => null)) as
+        | { success?: boolean; data?: { scanners: ScannerOption[] } }
+        | null;
+
+      setFacilities((facilitiesBody?.data?.facilities ?? []).filter((facility) => facility.status === "operational"));
+      setLevels((levelsBody?.data?.levels ?? []).filter((level) => level.isActive));
+      setScanners((scannersBody?.data?.scanners ?? []).filter((scanner) => scanner.isActive));
+    } catch (err) {
+      console.error("[EventSeriesDialog] Failed to load options", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadOptions();
+  }, [loadOptions]);
+
+  const toggleInSet = <T,>(set: Set<T>, value: T): Set<T> => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    return next;
+  };
+
+  const updateTemplateRow = (id: string, changes: Partial<SessionTemplateRow>) => {
+    setTemplate((prev) => prev.map((row) => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const handleSubmit = useCallback(async () => {
+    if (!title.trim()) {
+      toast.error("Please enter a title");
+      return;
+    }
+    if (!startDate) {
+      toast.error("Please choose a start date");
+      return;
+    }
+    const sessionTemplate: SessionConfig[] = template
+      .filter((row) => row.enabled)
+      .map((row) => ({
+        id: row.id,
+        name: row.name,
+        period: row.period,
+        direction: row.direction,
+        opens: row.opens,
+        lateAfter: row.direction === "in" && row.lateAfter ? row.lateAfter : null,
+        closes: row.closes,
+      }));
+    if (sessionTemplate.length === 0) {
+      toast.error("Enable at least one session");
+      return;
+    }
+
+    const recurrence: EventRecurrenceRule = {
+      frequency,
+      interval: Number(repeatInterval),
+      byWeekday: Array.from(weekdays),
+      startDate,
+      until: endMode === "until" ? until || null : null,
+      count: endMode === "count" ? Number(count) : null,
+      excludedDates: parseDateList(excludedDates),
+    };
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/sems/series", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: title.trim(),
+          description: description.trim() || undefined,
+          facilityId: facilityId === NO_VENUE ? undefined : facilityId,
+          audienceConfig: {
+            version: 1,
+            rules:
+              levelIds.size > 0
+                ? [{ kind: "LEVEL", effect: "include", levelIds: Array.from(levelIds) }]
+                : [{ kind: "ALL_STUDENTS", effect: "include" }],
+          },
+          scannerConfig: { version: 1, scannerIds: Array.from(scannerIds) },
+          recurrence,
+          sessionTemplate,
+          skipConflictingDates,
+        }),
+      });
+      const body = (await response.json().catch(() => null)) as {
+        success?: boolean;
+        data?: {
+          series: { occurrences: unknown[] };
+          skippedConflicts: Array<{ date: string }>;
+          skippedNonSchoolDays: Array<{ date: string; name: string | null }>;
+        };
+        error?: { message?: string; details?: Array<{ field: string; message: string }> };
+      } | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        const firstError = body?.error?.details?.[0];
+        throw new Error(
+          firstError ? `${firstError.field}: ${firstError.message}` : body?.error?.message ?? "Unable to create the series."
+        );
+      }
+
+      const skippedDates = Array.from(new Set(body.data.skippedConflicts.map((conflict) => conflict.date)));
+      toast.success("Recurring event created", {
+        description: `${body.data.series.occurrences.length} event(s) were added to the schedule.`,
+      });
+      if (skippedDates.length > 0) {
+        toast.warning(`${skippedDates.length} date(s) skipped`, {
+          description: `The venue is already booked on ${skippedDates.join(", ")}.`,
+        });
+      }
+      if (body.data.skippedNonSchoolDays.length > 0) {
+        toast.info(`${body.data.skippedNonSchoolDays.length} school closure(s) skipped`, {
+          description: body.data.skippedNonSchoolDays
+            .map((day) => (day.name ? `${day.date} (${day.name})` : day.date))
+            .join(", "),
+        });
+      }
+      onCreated();
+      onClose();
+    } catch (err) {
+      toast.error("Unable to create recurring event", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [
+    title,
+    description,
+    facilityId,
+    levelIds,
+    scannerIds,
+    frequency,
+    repeatInterval,
+    weekdays,
+    startDate,
+    endMode,
+    until,
+    count,
+    excludedDates,
+    template,
+    skipConflictingDates,
+    setIsSaving,
+    onCreated,
+    onClose,
+  ]);
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Repeat className="w-4 h-4 text-primary" />
+          New recurring event
+        </DialogTitle>
+        <DialogDescription>
+          Creates one event per date, e.g. daily gate attendance on school days or a weekly flag ceremony.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-5">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="series-title">Title</Label>
+            <Input
+              id="series-title"
+              value={title}
+              onChange={(event) => setTitle(event.target.value)}
+              placeholder="e.g. Daily Gate Attendance"
+            />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="series-description">Description</Label>
+            <textarea
+              id="series-description"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              className="w-full min-h-[60px] resize-y rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label>Venue</Label>
+            <Select value={facilityId} onValueChange={setFacilityId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_VENUE}>No venue</SelectItem>
+                {facilities.map((facility) => (
+                  <SelectItem key={facility.id} value={facility.id}>
+                    {facility.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-3 rounded-lg border border-border p-3">
+          <p className="text-sm font-semibold text-foreground">Repeat</p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1.5">
+              <Label>Frequency</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurrenceFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="DAILY">Daily</SelectItem>
+                  <SelectItem value="WEEKLY">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="series-interval">Every</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="series-interval"
+                  type="number"
+                  min={1}
+                  max={52}
+                  value={repeatInterval}
+                  onChange={(event) => setRepeatInterval(event.target.value)}
+                />
+                <span className="text-xs text-muted-foreground">{frequency === "DAILY" ? "day(s)" : "week(s)"}</span>
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="series-start">Starts</Label>
+              <Input id="series-start" type="date" value={startDate} onChange={(event) => setStartDate(event.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>On</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {WEEKDAY_LABELS.map((day) => (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => setWeekdays((prev) => toggleInSet(prev, day.value))}
+                  className={cn(
+                    "px-2.5 py-1 rounded-md border text-xs font-medium",
+                    weekdays.has(day.value)
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-background text-muted-foreground border-border"
+                  )}
+                >
+                  {day.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1.5">
+              <Label>Ends</Label>
+              <Select value={endMode} onValueChange={(value) => setEndMode(value as SeriesEndMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="until">On date</SelectItem>
+                  <SelectItem value="count">After a number of events</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              {endMode === "until" ? (
+                <>
+                  <Label htmlFor="series-until">End date</Label>
+                  <Input id="series-until" type="date" value={until} onChange={(event) => setUntil(event.target.value)} />
+                </>
+              ) : (
+                <>
+                  <Label htmlFor="series-count">Events</Label>
+                  <Input
+                    id="series-count"
+                    type="number"
+                    min={1}
+                    max={200}
+                    value={count}
+                    onChange={(event) => setCount(event.target.value)}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="series-excluded">Holidays and other skipped dates</Label>
+            <textarea
+              id="series-excluded"
+              value={excludedDates}
+              onChange={(event) => setExcludedDates(event.target.value)}
+              placeholder="YYYY-MM-DD, one per line or comma-separated"
+              className="w-full min-h-[60px] resize-y rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2 rounded-lg border border-border p-3">
+          <p className="text-sm font-semibold text-foreground">Sessions (every date)</p>
+          {template.map((row) => (
+            <div key={row.id} className="grid grid-cols-[auto_1fr] sm:grid-cols-[auto_8rem_1fr_1fr_1fr] items-center gap-2">
+              <Checkbox
+                checked={row.enabled}
+                onCheckedChange={(checked) => updateTemplateRow(row.id, { enabled: checked === true })}
+                aria-label={`Enable ${row.name}`}
+              />
+              <span className="text-sm text-foreground">{row.name}</span>
+              <Input
+                type="time"
+                value={row.opens}
+                disabled={!row.enabled}
+                onChange={(event) => updateTemplateRow(row.id, { opens: event.target.value })}
+                aria-label={`${row.name} opens`}
+              />
+              <Input
+                type="time"
+                value={row.lateAfter ?? ""}
+                disabled={!row.enabled || row.direction === "out"}
+                onChange={(event) => updateTemplateRow(row.id, { lateAfter: event.target.value || null })}
+                aria-label={`${row.name} late after`}
+              />
+              <Input
+                type="time"
+                value={row.closes}
+                disabled={!row.enabled}
+                onChange={(event) => updateTemplateRow(row.id, { closes: event.target.value })}
+                aria-label={`${row.name} closes`}
+              />
+            </div>
+          ))}
+          <p className="text-[11px] text-muted-foreground">Opens · late after (check-in only) · closes</p>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label>Audience</Label>
+            <p className="text-[11px] text-muted-foreground">All students, or only the selected grade levels.</p>
+            <div className="max-h-36 overflow-y-auto space-y-1">
+              {levels.map((level) => (
+                <label key={level.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={levelIds.has(level.id)}
+                    onCheckedChange={() => setLevelIds((prev) => toggleInSet(prev, level.id))}
+                  />
+                  {level.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Scanners</Label>
+            <div className="max-h-36 overflow-y-auto space-y-1">
+              {scanners.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No active scanners.</p>
+              ) : (
+                scanners.map((scanner) => (
+                  <label key={scanner.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={scannerIds.has(scanner.id)}
+                      onCheckedChange={() => setScannerIds((prev) => toggleInSet(prev, scanner.id))}
+                    />
+                    {scanner.fullName}
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        {facilityId !== NO_VENUE && (
+          <label className="flex items-start gap-2 text-sm">
+            <Checkbox
+              checked={skipConflictingDates}
+              onCheckedChange={(checked) => setSkipConflictingDates(checked === true)}
+            />
+            <span>
+              Skip dates when the venue is already booked
+              <span className="block text-[11px] text-muted-foreground">
+                Otherwise any booked date stops the whole series from being created.
+              </span>
+            </span>
+          </label>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" size="sm" disabled={isSaving} onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="button" size="sm" disabled={isSaving} onClick={() => void handleSubmit()}>
+          {isSaving ? "Creating..." : "Create series"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { LayoutTemplate, Loader2, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import type { EventTemplateDto } from "@/modules/sems/domain/types";
+
+interface EventTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called with the new draft's ID */
+  onCreated: (eventId: string) => void;
+}
+
+interface ApiBody<T> {
+  success?: boolean;
+  data?: T;
+  error?: { message?: string; details?: Array<{ field: string; message: string }> };
+}
+
+function describeTemplate(template: EventTemplateDto): string {
+  const days = template.sessionDays.length;
+  const sessions = template.sessionDays.reduce((total, day) => total + day.sessions.length, 0);
+  return `${days} day${days === 1 ? "" : "s"} · ${sessions} session${sessions === 1 ? "" : "s"}`;
+}
+
+/**
+ * Dialog for starting a draft event from a saved template.
+ */
+export function EventTemplatesDialog({ open, onOpenChange, onCreated }: EventTemplatesDialogProps) {
+  const [templates, setTemplates] = useState<EventTemplateDto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState("");
+  const [title, setTitle] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/sems/templates");
+      const body = (await response.json().catch(() => null)) as ApiBody<{ templates: EventTemplateDto[] }> | null;
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load templates.");
+      }
+      setTemplates(body.data.templates);
+    } catch (err) {
+      toast.error("Unable to load templates", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedId(null);
+    setStartDate("");
+    setTitle("");
+    void loadTemplates();
+  }, [open, loadTemplates]);
+
+  const handleCreate = async () => {
+    if (!selectedId || !startDate) {
+      toast.error("Choose a template and a start date");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/sems/templates/${selectedId}/events`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ startDate, title: title.trim() || undefined }),
+      });
+      const body = (await response.json().catch(() => null)) as ApiBody<{ event: { id: string } }> | null;
+      if (!response.ok || !body?.success || !body.data) {
+        const firstError = body?.error?.details?.[0];
+        throw new Error(
+          firstError ? `${firstError.field}: ${firstError.message}` : body?.error?.message ?? "Unable to create the event."
+        );
+      }
+
+      toast.success("Draft event created", {
+        description: "Review it and submit it for approval when ready.",
+      });
+      onOpenChange(false);
+      onCreated(body.data.event.id);
+    } catch (err) {
+      toast.error("Unable to create event from template", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: EventTemplateDto) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Events created from it are kept.`)) return;
+
+    try {
+      const response = await fetch(`/api/sems/templates/${template.id}`, { method: "DELETE" });
+      const body = (await response.json().catch(() => null)) as ApiBody<unknown> | null;
+      if (!response.ok || !body?.success) {
+        throw new Error(body?.error?.message ?? "Unable to delete the template.");
+      }
+      setTemplates((prev) => prev.filter((item) => item.id !== template.id));
+      if (selectedId === template.id) setSelectedId(null);
+      toast.success("Template deleted");
+    } catch (err) {
+      toast.error("Unable to delete template", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" />
+            New Event from Template
+          </DialogTitle>
+          <DialogDescription>
+            The event keeps the template&apos;s venue, audience, sessions, scanners and registration settings, and
+            starts as a draft.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Loading templates...</p>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No templates yet. Use &quot;Save as template&quot; on an event to create one.
+              </p>
+            ) : (
+              templates.map((template) => (
+                <div
+                  key={template.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => setSelectedId(template.id)}
+                  onKeyDown={(e) => e.key === "Enter" && setSelectedId(template.id)}
+                  className={cn(
+                    "flex items-start justify-between gap-3 rounded-lg border p-3 cursor-pointer transition-colors",
+                    selectedId === template.id ? "border-primary bg-primary/5" : "border-border hover:bg-muted/50"
+                  )}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{template.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {template.title} · {describeTemplate(template)}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 shrink-0"
+                    title="Delete template"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void handleDelete(template);
+                    }}
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="template-start-date">First day</Label>
+              <Input
+                id="template-start-date"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="template-title">Title</Label>
+              <Input
+                id="template-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder={templates.find((template) => template.id === selectedId)?.title ?? "Template title"}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => void handleCreate()} disabled={isSaving || !selectedId || !startDate}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create Draft
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,366 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { BellRing, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type NotificationKind = "scan_in" | "scan_out" | "late" | "absent";
+type NotificationChannel = "sms" | "email" | "in_app";
+
+interface NotificationPreference {
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  enabled: boolean;
+  isDefault: boolean;
+}
+
+interface NotificationTemplate {
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  subject: string | null;
+  body: string;
+  source: "default" | "school" | "guardian";
+}
+
+interface GuardianNotificationSettingsData {
+  guardianId: string;
+  preferences: NotificationPreference[];
+  templates: NotificationTemplate[];
+  placeholders: string[];
+}
+
+type SettingsResponse =
+  | { success?: boolean; data?: { settings: GuardianNotificationSettingsData }; error?: { message?: string } }
+  | null;
+
+const KIND_LABELS: Record<NotificationKind, string> = {
+  scan_in: "Checked in",
+  scan_out: "Checked out",
+  late: "Arrived late",
+  absent: "Marked absent",
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  sms: "SMS",
+  email: "Email",
+  in_app: "In-app",
+};
+
+const KINDS: NotificationKind[] = ["scan_in", "scan_out", "late", "absent"];
+const CHANNELS: NotificationChannel[] = ["in_app", "email", "sms"];
+
+const INITIAL_TEMPLATE_KIND: NotificationKind = "late";
+const INITIAL_TEMPLATE_CHANNEL: NotificationChannel = "sms";
+
+const SOURCE_LABELS: Record<NotificationTemplate["source"], string> = {
+  default: "Built-in",
+  school: "School-wide",
+  guardian: "Custom",
+};
+
+function preferenceKey(kind: NotificationKind, channel: NotificationChannel): string {
+  return `${kind}:${channel}`;
+}
+
+interface GuardianNotificationSettingsProps {
+  guardianId: string;
+  /** Admins may override message templates for the guardian */
+  canEditTemplates?: boolean;
+}
+
+/**
+ * Attendance notification opt-outs for a guardian, per notice and channel,
+ * with optional per-guardian template overrides.
+ */
+export function GuardianNotificationSettings({
+  guardianId,
+  canEditTemplates = false,
+}: GuardianNotificationSettingsProps) {
+  const [settings, setSettings] = useState<GuardianNotificationSettingsData | null>(null);
+  const [enabled, setEnabled] = useState<Record<string, boolean>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [templateKind, setTemplateKind] = useState<NotificationKind>(INITIAL_TEMPLATE_KIND);
+  const [templateChannel, setTemplateChannel] = useState<NotificationChannel>(INITIAL_TEMPLATE_CHANNEL);
+  const [draftSubject, setDraftSubject] = useState("");
+  const [draftBody, setDraftBody] = useState("");
+
+  const applySettings = useCallback((next: GuardianNotificationSettingsData) => {
+    setSettings(next);
+    setEnabled(
+      Object.fromEntries(next.preferences.map((pref) => [preferenceKey(pref.kind, pref.channel), pref.enabled]))
+    );
+  }, []);
+
+  const loadSettings = useCallback(async () => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/communication/guardians/${guardianId}/settings`);
+      const body = (await response.json().catch(() => null)) as SettingsResponse;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load notification settings.");
+      }
+
+      applySettings(body.data.settings);
+      const initial = body.data.settings.templates.find(
+        (template) => template.kind === INITIAL_TEMPLATE_KIND && template.channel === INITIAL_TEMPLATE_CHANNEL
+      );
+      setDraftSubject(initial?.subject ?? "");
+      setDraftBody(initial?.body ?? "");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load notification settings.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [guardianId, applySettings]);
+
+  useEffect(() => {
+    void loadSettings();
+  }, [loadSettings]);
+
+  const selectedTemplate = useMemo(
+    () =>
+      settings?.templates.find((template) => template.kind === templateKind && template.channel === templateChannel) ??
+      null,
+    [settings, templateKind, templateChannel]
+  );
+
+  const selectTemplate = (kind: NotificationKind, channel: NotificationChannel) => {
+    setTemplateKind(kind);
+    setTemplateChannel(channel);
+    const template = settings?.templates.find((item) => item.kind === kind && item.channel === channel);
+    setDraftSubject(template?.subject ?? "");
+    setDraftBody(template?.body ?? "");
+  };
+
+  const save = async (payload: Record<string, unknown>, successMessage: string) => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/communication/guardians/${guardianId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = (await response.json().catch(() => null)) as SettingsResponse;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to save notification settings.");
+      }
+
+      applySettings(body.data.settings);
+      toast.success(successMessage);
+      return body.data.settings;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Unable to save notification settings.");
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSavePreferences = () => {
+    if (!settings) return;
+    void save(
+      {
+        preferences: settings.preferences.map((pref) => ({
+          kind: pref.kind,
+          channel: pref.channel,
+          enabled: enabled[preferenceKey(pref.kind, pref.channel)] ?? pref.enabled,
+        })),
+      },
+      "Notification preferences saved."
+    );
+  };
+
+  const handleSaveTemplate = async (reset: boolean) => {
+    const next = await save(
+      {
+        templates: [
+          {
+            kind: templateKind,
+            channel: templateChannel,
+            subject: templateChannel === "sms" ? null : draftSubject,
+            body: reset ? null : draftBody,
+          },
+        ],
+      },
+      reset ? "Template reset." : "Template saved."
+    );
+    if (next && reset) {
+      const template = next.templates.find((item) => item.kind === templateKind && item.channel === templateChannel);
+      setDraftSubject(template?.subject ?? "");
+      setDraftBody(template?.body ?? "");
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (error || !settings) {
+    return <p className="text-xs text-destructive">{error ?? "Unable to load notification settings."}</p>;
+  }
+
+  return (
+    <div className="rounded-lg border border-border/70 bg-muted/30 p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <BellRing className="w-4 h-4 text-primary" />
+        <div>
+          <p className="text-sm font-medium text-foreground">Attendance notifications</p>
+          <p className="text-[11px] text-muted-foreground">Choose which updates are sent, and how.</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-medium py-1 pr-2">Notice</th>
+              {CHANNELS.map((channel) => (
+                <th key={channel} className="font-medium py-1 px-2 text-center">
+                  {CHANNEL_LABELS[channel]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {KINDS.map((kind) => (
+              <tr key={kind} className="border-t border-border/50">
+                <td className="py-1.5 pr-2 text-foreground">{KIND_LABELS[kind]}</td>
+                {CHANNELS.map((channel) => {
+                  const key = preferenceKey(kind, channel);
+                  return (
+                    <td key={channel} className="py-1.5 px-2 text-center">
+                      <Checkbox
+                        aria-label={`${KIND_LABELS[kind]} by ${CHANNEL_LABELS[channel]}`}
+                        checked={enabled[key] ?? false}
+                        disabled={isSaving}
+                        onCheckedChange={(checked) =>
+                          setEnabled((previous) => ({ ...previous, [key]: checked === true }))
+                        }
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-8 text-xs"
+          disabled={isSaving}
+          onClick={handleSavePreferences}
+        >
+          {isSaving && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+          Save preferences
+        </Button>
+      </div>
+
+      {canEditTemplates && (
+        <div className="space-y-2 border-t border-border/50 pt-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label className="text-[11px]">Notice</Label>
+              <Select
+                value={templateKind}
+                onValueChange={(value) => selectTemplate(value as NotificationKind, templateChannel)}
+              >
+                <SelectTrigger className="h-8 w-[150px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KINDS.map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[11px]">Channel</Label>
+              <Select
+                value={templateChannel}
+                onValueChange={(value) => selectTemplate(templateKind, value as NotificationChannel)}
+              >
+                <SelectTrigger className="h-8 w-[120px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHANNELS.map((channel) => (
+                    <SelectItem key={channel} value={channel}>
+                      {CHANNEL_LABELS[channel]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedTemplate && (
+              <Badge variant="secondary" className="text-[10px] mb-1.5">
+                {SOURCE_LABELS[selectedTemplate.source]}
+              </Badge>
+            )}
+          </div>
+
+          {templateChannel !== "sms" && (
+            <Input
+              value={draftSubject}
+              onChange={(event) => setDraftSubject(event.target.value)}
+              placeholder="Subject"
+              className="h-8 text-xs"
+            />
+          )}
+          <textarea
+            value={draftBody}
+            onChange={(event) => setDraftBody(event.target.value)}
+            placeholder={selectedTemplate?.body ?? "Message"}
+            rows={3}
+            className="w-full px-3 py-2 text-xs border border-border rounded-lg bg-card text-foreground shadow-sm focus:outline-none focus:ring-2 focus:ring-[#1B4D3E]/20 focus:border-[#1B4D3E] placeholder:text-muted-foreground/70"
+          />
+          <p className="text-[11px] text-muted-foreground">
+            Placeholders: {settings.placeholders.map((name) => `{{${name}}}`).join(", ")}
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-8 text-xs"
+              disabled={isSaving || selectedTemplate?.source !== "guardian"}
+              onClick={() => void handleSaveTemplate(true)}
+            >
+              Reset
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              className="h-8 text-xs bg-[#1B4D3E] text-white hover:bg-[#163e32]"
+              disabled={isSaving || !draftBody.trim()}
+              onClick={() => void handleSaveTemplate(false)}
+            >
+              Save template
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,662 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import ExcelJS from "exceljs";
+import { AlertTriangle, ClipboardList, Clock, Download, FileSpreadsheet, LogOut } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { downloadExcelFile } from "@/lib/excel-utils";
+import { downloadCsvFile, escapeCsv } from "@/lib/csv-utils";
+
+interface LateReportEventOption {
+  id: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface LevelOption {
+  id: string;
+  name: string;
+}
+
+interface SectionOption {
+  id: string;
+  name: string;
+  levelId: string | null;
+  adviserUserId: string | null;
+  adviserName?: string | null;
+}
+
+interface LateReportStudentDto {
+  studentId: string;
+  fullName: string;
+  lrn: string | null;
+  level: string | null;
+  section: string | null;
+  adviser: string | null;
+}
+
+interface LateReportIncidentDto extends LateReportStudentDto {
+  kind: "late" | "missing_out";
+  eventId: string;
+  eventTitle: string;
+  eventSessionId: string;
+  sessionName: string;
+  date: string;
+  period: "morning" | "afternoon" | "evening";
+  scannedAt: string;
+  lateAfter: string | null;
+  minutesLate: number | null;
+}
+
+interface LateReportOffenderDto extends LateReportStudentDto {
+  rank: number;
+  lateCount: number;
+  missingOutCount: number;
+  totalIncidents: number;
+  totalMinutesLate: number;
+  eventCount: number;
+}
+
+interface LateReportDto {
+  generatedAt: string;
+  events: Array<{ id: string; title: string; startDate: string; endDate: string }>;
+  totalLate: number;
+  totalMissingOut: number;
+  incidents: LateReportIncidentDto[];
+  offenders: LateReportOffenderDto[];
+}
+
+interface LateReportPanelProps {
+  events: LateReportEventOption[];
+}
+
+type ReportScope = "event" | "range";
+
+/** Select value meaning "no filter" (Radix Select does not allow empty values) */
+const ANY = "any";
+
+/** Incidents shown on screen; exports always include all of them */
+const MAX_VISIBLE_INCIDENTS = 200;
+
+const KIND_LABELS: Record<LateReportIncidentDto["kind"], string> = {
+  late: "Late",
+  missing_out: "No exit scan",
+};
+
+function formatScanTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+function formatPlacement(student: LateReportStudentDto): string {
+  if (!student.level && !student.section) return "—";
+  return `${student.level ?? ""}${student.level && student.section ? " • " : ""}${student.section ?? ""}`;
+}
+
+/**
+ * Late list for disciplinary follow-up: late arrivals and missing exits for an
+ * event or date range, with repeat offenders ranked, exportable to Excel/CSV.
+ */
+export function LateReportPanel({ events }: LateReportPanelProps) {
+  const [scope, setScope] = useState<ReportScope>("event");
+  const [eventId, setEventId] = useState<string>(events[0]?.id ?? "");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [levelId, setLevelId] = useState(ANY);
+  const [sectionId, setSectionId] = useState(ANY);
+  const [adviserId, setAdviserId] = useState(ANY);
+
+  const [levels, setLevels] = useState<LevelOption[]>([]);
+  const [sections, setSections] = useState<SectionOption[]>([]);
+
+  const [report, setReport] = useState<LateReportDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFilterOptions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sis/levels");
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: { levels: LevelOption[]; sections: SectionOption[] } }
+        | null;
+
+      if (response.ok && body?.success && body.data) {
+        setLevels(body.data.levels);
+        setSections(body.data.sections);
+      }
+    } catch (err) {
+      console.error("[LateReportPanel] Failed to load levels", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadFilterOptions();
+  }, [loadFilterOptions]);
+
+  const visibleSections = useMemo(
+    () => (levelId === ANY ? sections : sections.filter((section) => section.levelId === levelId)),
+    [sections, levelId]
+  );
+
+  const advisers = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const section of sections) {
+      if (section.adviserUserId) {
+        byId.set(section.adviserUserId, section.adviserName ?? "Unnamed adviser");
+      }
+    }
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }, [sections]);
+
+  const selectedEventId = eventId || events[0]?.id || "";
+
+  const handleGenerate = useCallback(async () => {
+    const params = new URLSearchParams();
+
+    if (scope === "event") {
+      if (!selectedEventId) {
+        toast.error("Please select an event");
+        return;
+      }
+      params.set("eventId", selectedEventId);
+    } else {
+      if (!from || !to) {
+        toast.error("Please select a start and end date");
+        return;
+      }
+      params.set("from", from);
+      params.set("to", to);
+    }
+
+    if (levelId !== ANY) params.set("levelId", levelId);
+    if (sectionId !== ANY) params.set("sectionId", sectionId);
+    if (adviserId !== ANY) params.set("adviserId", adviserId);
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sems/reports/late?${params.toString()}`);
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: { report: LateReportDto }; error?: { message?: string } }
+        | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to generate the late report.");
+      }
+
+      setReport(body.data.report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to generate the late report.");
+      setReport(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [scope, selectedEventId, from, to, levelId, sectionId, adviserId]);
+
+  const reportBaseName = useMemo(() => {
+    if (!report) return "Late_List";
+    const label =
+      scope === "event"
+        ? events.find((event) => event.id === selectedEventId)?.title ?? "Event"
+        : `${from}_to_${to}`;
+    return `Late_List_${label.replace(/[^a-z0-9-]/gi, "_")}`;
+  }, [report, scope, events, selectedEventId, from, to]);
+
+  // Incidents grouped under their offender, most incidents first
+  const rankedIncidents = useMemo(() => {
+    if (!report) return [] as Array<LateReportIncidentDto & { rank: number }>;
+    const rankByStudent = new Map(report.offenders.map((o) => [o.studentId, o.rank]));
+    return report.incidents
+      .map((incident) => ({ ...incident, rank: rankByStudent.get(incident.studentId) ?? 0 }))
+      .sort((a, b) => a.rank - b.rank || a.date.localeCompare(b.date));
+  }, [report]);
+
+  const handleExportExcel = useCallback(async () => {
+    if (!report) return;
+
+    try {
+      const workbook = new ExcelJS.Workbook();
+      workbook.creator = "School Management System";
+      workbook.created = new Date();
+
+      const offenderSheet = workbook.addWorksheet("Repeat Offenders");
+      offenderSheet.columns = [
+        { header: "Rank", key: "rank", width: 8 },
+        { header: "Student Name", key: "name", width: 25 },
+        { header: "LRN", key: "lrn", width: 16 },
+        { header: "Grade", key: "grade", width: 12 },
+        { header: "Section", key: "section", width: 14 },
+        { header: "Adviser", key: "adviser", width: 22 },
+        { header: "Late", key: "late", width: 8 },
+        { header: "No Exit Scan", key: "missingOut", width: 13 },
+        { header: "Total Incidents", key: "total", width: 15 },
+        { header: "Total Minutes Late", key: "minutes", width: 18 },
+        { header: "Events", key: "events", width: 8 },
+      ];
+      for (const offender of report.offenders) {
+        offenderSheet.addRow({
+          rank: offender.rank,
+          name: offender.fullName,
+          lrn: offender.lrn ?? "—",
+          grade: offender.level ?? "—",
+          section: offender.section ?? "—",
+          adviser: offender.adviser ?? "—",
+          late: offender.lateCount,
+          missingOut: offender.missingOutCount,
+          total: offender.totalIncidents,
+          minutes: offender.totalMinutesLate,
+          events: offender.eventCount,
+        });
+      }
+
+      const incidentSheet = workbook.addWorksheet("Incidents");
+      incidentSheet.columns = [
+        { header: "Date", key: "date", width: 12 },
+        { header: "Event", key: "event", width: 25 },
+        { header: "Session", key: "session", width: 18 },
+        { header: "Type", key: "kind", width: 14 },
+        { header: "Student Name", key: "name", width: 25 },
+        { header: "Grade", key: "grade", width: 12 },
+        { header: "Section", key: "section", width: 14 },
+        { header: "Adviser", key: "adviser", width: 22 },
+        { header: "Scanned In", key: "scannedAt", width: 12 },
+        { header: "Late After", key: "lateAfter", width: 11 },
+        { header: "Minutes Late", key: "minutesLate", width: 13 },
+      ];
+      for (const incident of report.incidents) {
+        incidentSheet.addRow({
+          date: incident.date,
+          event: incident.eventTitle,
+          session: incident.sessionName,
+          kind: KIND_LABELS[incident.kind],
+          name: incident.fullName,
+          grade: incident.level ?? "—",
+          section: incident.section ?? "—",
+          adviser: incident.adviser ?? "—",
+          scannedAt: formatScanTime(incident.scannedAt),
+          lateAfter: incident.lateAfter ?? "—",
+          minutesLate: incident.minutesLate ?? "",
+        });
+      }
+
+      for (const sheet of [offenderSheet, incidentSheet]) {
+        sheet.getRow(1).font = { bold: true };
+        sheet.getRow(1).fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFE0E0E0" },
+        };
+      }
+
+      await downloadExcelFile(`${reportBaseName}.xlsx`, workbook);
+      toast.success("Late list exported");
+    } catch (err) {
+      console.error("Export error:", err);
+      toast.error("Failed to export the late list");
+    }
+  }, [report, reportBaseName]);
+
+  const handleExportCsv = useCallback(() => {
+    if (!report) return;
+
+    const headers = [
+      "Rank",
+      "Student Name",
+      "LRN",
+      "Grade",
+      "Section",
+      "Adviser",
+      "Date",
+      "Event",
+      "Session",
+      "Type",
+      "Scanned In",
+      "Late After",
+      "Minutes Late",
+    ];
+    const rows = rankedIncidents.map((incident) => [
+      String(incident.rank),
+      incident.fullName,
+      incident.lrn ?? "",
+      incident.level ?? "",
+      incident.section ?? "",
+      incident.adviser ?? "",
+      incident.date,
+      incident.eventTitle,
+      incident.sessionName,
+      KIND_LABELS[incident.kind],
+      formatScanTime(incident.scannedAt),
+      incident.lateAfter ?? "",
+      incident.minutesLate === null ? "" : String(incident.minutesLate),
+    ]);
+
+    const content = [headers, ...rows]
+      .map((row) => row.map((cell) => escapeCsv(cell)).join(","))
+      .join("\n");
+    downloadCsvFile(`${reportBaseName}.csv`, content);
+  }, [report, rankedIncidents, reportBaseName]);
+
+  return (
+    <Card className="border-border/60 bg-gradient-to-br from-card via-card to-muted/10">
+      <CardHeader className="border-b border-border/60 pb-4">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ClipboardList className="w-4 h-4 text-primary" />
+          Late List
+        </CardTitle>
+        <CardDescription>
+          Late arrivals and missing exit scans for disciplinary follow-up, with repeat offenders ranked.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="pt-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 items-end">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Report for</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as ReportScope)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="event">One event</SelectItem>
+                <SelectItem value="range">Date range</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scope === "event" ? (
+            <div className="space-y-1.5 md:col-span-2">
+              <Label className="text-xs">Event</Label>
+              <Select value={selectedEventId} onValueChange={setEventId}>
+                <SelectTrigger className="h-9">
+                  <SelectValue placeholder="Select event" />
+                </SelectTrigger>
+                <SelectContent>
+                  {events.map((event) => (
+                    <SelectItem key={event.id} value={event.id}>
+                      {event.title} ({event.startDate})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1.5">
+                <Label htmlFor="late-report-from" className="text-xs">From</Label>
+                <Input
+                  id="late-report-from"
+                  type="date"
+                  className="h-9"
+                  value={from}
+                  onChange={(event) => setFrom(event.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="late-report-to" className="text-xs">To</Label>
+                <Input
+                  id="late-report-to"
+                  type="date"
+                  className="h-9"
+                  value={to}
+                  onChange={(event) => setTo(event.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Grade level</Label>
+            <Select
+              value={levelId}
+              onValueChange={(value) => {
+                setLevelId(value);
+                setSectionId(ANY);
+              }}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All levels</SelectItem>
+                {levels.map((level) => (
+                  <SelectItem key={level.id} value={level.id}>
+                    {level.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Section</Label>
+            <Select value={sectionId} onValueChange={setSectionId}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All sections</SelectItem>
+                {visibleSections.map((section) => (
+                  <SelectItem key={section.id} value={section.id}>
+                    {section.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Adviser</Label>
+            <Select value={adviserId} onValueChange={setAdviserId}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All advisers</SelectItem>
+                {advisers.map((adviser) => (
+                  <SelectItem key={adviser.id} value={adviser.id}>
+                    {adviser.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" disabled={isLoading} onClick={() => void handleGenerate()}>
+            {isLoading ? "Generating..." : "Generate"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-2"
+            disabled={!report || isLoading}
+            onClick={() => void handleExportExcel()}
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Export Excel
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-2"
+            disabled={!report || isLoading}
+            onClick={handleExportCsv}
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 rounded-xl" />
+            <Skeleton className="h-32 rounded-xl" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+            <AlertTriangle className="w-4 h-4 text-amber-500" />
+            {error}
+          </div>
+        ) : !report ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            Choose an event or date range and click Generate.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <div className="p-3 rounded-xl border border-border/60 bg-card/80 flex flex-col gap-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] uppercase tracking-wide text-muted-foreground">Late Arrivals</span>
+                  <Clock className="w-3.5 h-3.5 text-amber-500" />
+                </div>
+                <span className="text-xl font-bold text-foreground">{report.totalLate}</span>
+              </div>
+              <div className="p-3 rounded-xl border border-border/60 bg-card/80 flex flex-col gap-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] uppercase tracking-wide text-muted-foreground">No Exit Scan</span>
+                  <LogOut className="w-3.5 h-3.5 text-red-400" />
+                </div>
+                <span className="text-xl font-bold text-foreground">{report.totalMissingOut}</span>
+              </div>
+              <div className="p-3 rounded-xl border border-border/60 bg-card/80 flex flex-col gap-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] uppercase tracking-wide text-muted-foreground">Students</span>
+                  <ClipboardList className="w-3.5 h-3.5 text-primary" />
+                </div>
+                <span className="text-xl font-bold text-foreground">{report.offenders.length}</span>
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-border/60 bg-card/80 overflow-hidden">
+              <div className="px-4 py-3 border-b border-border/60">
+                <p className="text-xs text-muted-foreground">
+                  Repeat offenders, ranked by number of incidents then total minutes late.
+                </p>
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/40">
+                      <TableHead className="w-12 text-xs font-semibold text-primary">#</TableHead>
+                      <TableHead className="min-w-[160px] text-xs font-semibold text-primary">Student</TableHead>
+                      <TableHead className="text-xs font-semibold text-primary">Grade / Section</TableHead>
+                      <TableHead className="text-xs font-semibold text-primary">Adviser</TableHead>
+                      <TableHead className="text-xs font-semibold text-primary text-center">Late</TableHead>
+                      <TableHead className="text-xs font-semibold text-primary text-center">No Exit</TableHead>
+                      <TableHead className="text-xs font-semibold text-primary text-right">Minutes Late</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.offenders.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="py-6 text-center text-sm text-muted-foreground">
+                          No late arrivals or missing exits for these filters.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      report.offenders.map((offender) => (
+                        <TableRow key={offender.studentId} className="hover:bg-muted/40">
+                          <TableCell className="text-xs text-muted-foreground">{offender.rank}</TableCell>
+                          <TableCell className="text-sm font-medium text-foreground">
+                            {offender.fullName}
+                            {offender.totalIncidents > 1 && (
+                              <Badge variant="outline" className="ml-2 text-[10px]">
+                                {offender.totalIncidents}×
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{formatPlacement(offender)}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{offender.adviser ?? "—"}</TableCell>
+                          <TableCell className="text-xs text-center tabular-nums">{offender.lateCount}</TableCell>
+                          <TableCell className="text-xs text-center tabular-nums">{offender.missingOutCount}</TableCell>
+                          <TableCell className="text-xs text-right tabular-nums">{offender.totalMinutesLate}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            {report.incidents.length > 0 && (
+              <div className="rounded-xl border border-border/60 bg-card/80 overflow-hidden">
+                <div className="px-4 py-3 border-b border-border/60">
+                  <p className="text-xs text-muted-foreground">
+                    All incidents by date
+                    {report.incidents.length > MAX_VISIBLE_INCIDENTS &&
+                      ` (first ${MAX_VISIBLE_INCIDENTS} of ${report.incidents.length}; exports include all)`}
+                    .
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/40">
+                        <TableHead className="text-xs font-semibold text-primary">Date</TableHead>
+                        <TableHead className="text-xs font-semibold text-primary">Event / Session</TableHead>
+                        <TableHead className="min-w-[160px] text-xs font-semibold text-primary">Student</TableHead>
+                        <TableHead className="text-xs font-semibold text-primary">Type</TableHead>
+                        <TableHead className="text-xs font-semibold text-primary text-right">Scanned In</TableHead>
+                        <TableHead className="text-xs font-semibold text-primary text-right">Minutes Late</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.incidents.slice(0, MAX_VISIBLE_INCIDENTS).map((incident) => (
+                        <TableRow
+                          key={`${incident.eventSessionId}-${incident.studentId}-${incident.kind}`}
+                          className="hover:bg-muted/40"
+                        >
+                          <TableCell className="text-xs whitespace-nowrap">{incident.date}</TableCell>
+                          <TableCell className="text-xs">
+                            <span className="font-medium text-foreground">{incident.eventTitle}</span>
+                            <span className="text-muted-foreground"> · {incident.sessionName}</span>
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            <span className="font-medium text-foreground">{incident.fullName}</span>
+                            <span className="block text-[11px] text-muted-foreground">{formatPlacement(incident)}</span>
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            <Badge
+                              variant="secondary"
+                              className={
+                                incident.kind === "late"
+                                  ? "text-[10px] bg-amber-500/10 text-amber-400"
+                                  : "text-[10px] bg-red-500/10 text-red-400"
+                              }
+                            >
+                              {KIND_LABELS[incident.kind]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-xs text-right whitespace-nowrap">
+                            {formatScanTime(incident.scannedAt)}
+                          </TableCell>
+                          <TableCell className="text-xs text-right tabular-nums">
+                            {incident.minutesLate ?? "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Bell, CheckCheck } from "lucide-react";
+import { useRouter } from "next/navigation";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface NotificationItem {
+  id: string;
+  kind: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  eventId: string | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+interface NotificationList {
+  notifications: NotificationItem[];
+  unreadCount: number;
+}
+
+/** How often the unread count is refreshed while the page is open. */
+const POLL_INTERVAL_MS = 60_000;
+
+function formatRelativeTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+
+  const minutes = Math.round((Date.now() - date.getTime()) / 60_000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+interface NotificationBellProps {
+  /** Smaller trigger for the sidebar header */
+  compact?: boolean;
+}
+
+/**
+ * Bell with an unread badge and a dropdown of the latest notifications.
+ * Opening a notification marks it read and follows its link.
+ */
+export function NotificationBell({ compact = false }: NotificationBellProps) {
+  const router = useRouter();
+  const [list, setList] = useState<NotificationList>({ notifications: [], unreadCount: 0 });
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications?limit=20");
+      if (!response.ok) return;
+
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: NotificationList }
+        | null;
+
+      if (body?.success && body.data) {
+        setList(body.data);
+      }
+    } catch (error) {
+      console.warn("[NotificationBell] Failed to load notifications", error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadNotifications();
+    const interval = window.setInterval(() => void loadNotifications(), POLL_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [loadNotifications]);
+
+  const markRead = async (ids?: string[]) => {
+    setList((previous) => ({
+      notifications: previous.notifications.map((item) =>
+        !ids || ids.includes(item.id) ? { ...item, isRead: true } : item
+      ),
+      unreadCount: ids
+        ? Math.max(
+            0,
+            previous.unreadCount -
+              previous.notifications.filter((item) => ids.includes(item.id) && !item.isRead).length
+          )
+        : 0,
+    }));
+
+    try {
+      const response = await fetch("/api/notifications/read", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: { unreadCount: number } }
+        | null;
+
+      if (body?.success && body.data) {
+        const { unreadCount } = body.data;
+        setList((previous) => ({ ...previous, unreadCount }));
+      }
+    } catch (error) {
+      console.warn("[NotificationBell] Failed to mark notifications as read", error);
+    }
+  };
+
+  const handleOpen = (item: NotificationItem) => {
+    if (!item.isRead) {
+      void markRead([item.id]);
+    }
+    if (item.link) {
+      router.push(item.link);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && void loadNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={`relative inline-flex items-center justify-center rounded-full bg-card/70 border border-border text-muted-foreground hover:text-foreground ${
+            compact ? "w-7 h-7" : "w-9 h-9"
+          }`}
+          aria-label={list.unreadCount > 0 ? `Notifications (${list.unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className={compact ? "w-3.5 h-3.5" : "w-4 h-4"} />
+          {list.unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-[10px] font-semibold leading-[18px] text-white text-center">
+              {list.unreadCount > 99 ? "99+" : list.unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0 bg-popover border border-border shadow-xl rounded-xl">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0 text-sm font-semibold text-foreground">Notifications</DropdownMenuLabel>
+          {list.unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={() => void markRead()}
+              className="inline-flex items-center gap-1 text-[11px] font-medium text-primary hover:text-primary/80"
+            >
+              <CheckCheck className="w-3 h-3" />
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="m-0 bg-border" />
+        <div className="max-h-[360px] overflow-y-auto p-1">
+          {list.notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-xs text-muted-foreground">
+              {isLoaded ? "You're all caught up." : "Loading…"}
+            </p>
+          ) : (
+            list.notifications.map((item) => (
+              <DropdownMenuItem
+                key={item.id}
+                onClick={() => handleOpen(item)}
+                className="flex items-start gap-2 px-3 py-2 rounded-lg cursor-pointer"
+              >
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${item.isRead ? "bg-transparent" : "bg-primary"}`}
+                />
+                <span className="min-w-0 flex-1">
+                  <span
+                    className={`block text-xs ${item.isRead ? "text-muted-foreground" : "font-semibold text-foreground"}`}
+                  >
+                    {item.title}
+                  </span>
+                  {item.body && (
+                    <span className="block text-[11px] text-muted-foreground line-clamp-2">{item.body}</span>
+                  )}
+                  <span className="block text-[10px] text-muted-foreground/80 mt-0.5">
+                    {formatRelativeTime(item.createdAt)}
+                  </span>
+                </span>
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
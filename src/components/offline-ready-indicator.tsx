@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CloudOff, WifiOff } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { scannerDb } from "@/core/offline/scanner-db";
+import { getOfflineCacheSummary, type OfflineCacheSummary } from "@/core/offline/service-worker";
+import { cn } from "@/lib/utils";
+
+interface CachedRouteItem {
+  path: string;
+  label: string;
+}
+
+/**
+ * Read the cache summary and label cached event routes with their titles.
+ */
+async function readOfflineState(): Promise<{
+  summary: OfflineCacheSummary | null;
+  routes: CachedRouteItem[];
+}> {
+  try {
+    const summary = await getOfflineCacheSummary();
+    const events = await scannerDb.scannerEvents.toArray();
+    const titleById = new Map(events.map((event) => [event.id, event.title]));
+
+    return {
+      summary,
+      routes: summary.routes.map((path) => {
+        const eventId = path.startsWith("/sems/scan/") ? path.slice("/sems/scan/".length) : null;
+        return {
+          path,
+          label: eventId ? titleById.get(eventId) ?? `Event ${eventId.slice(0, 8)}` : "Scanner events list",
+        };
+      }),
+    };
+  } catch (error) {
+    console.error("[OfflineReadyIndicator] Failed to read offline cache", error);
+    return { summary: null, routes: [] };
+  }
+}
+
+/**
+ * Shows whether the scanner can load without signal, and what is cached.
+ */
+export function OfflineReadyIndicator() {
+  const [summary, setSummary] = useState<OfflineCacheSummary | null>(null);
+  const [routes, setRoutes] = useState<CachedRouteItem[]>([]);
+
+  const loadSummary = useCallback(async () => {
+    const state = await readOfflineState();
+    setSummary(state.summary);
+    setRoutes(state.routes);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    void readOfflineState().then((state) => {
+      if (cancelled) return;
+      setSummary(state.summary);
+      setRoutes(state.routes);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const eventRouteCount = routes.filter((route) => route.path !== "/sems/scan").length;
+  const isReady = !!summary?.isControlled && summary.scriptCount > 0 && eventRouteCount > 0;
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (open) void loadSummary();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn(
+            "gap-1.5",
+            isReady
+              ? "bg-emerald-500/10 text-emerald-300 border-emerald-500/40"
+              : "text-muted-foreground"
+          )}
+        >
+          {isReady ? <WifiOff className="h-4 w-4" /> : <CloudOff className="h-4 w-4" />}
+          {isReady ? "Offline ready" : "Not offline ready"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[300px] space-y-3 text-sm" align="end">
+        {!summary?.isControlled ? (
+          <p className="text-muted-foreground">
+            Offline support is not active yet. Reload this page once while online to install it.
+          </p>
+        ) : (
+          <>
+            <div>
+              <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                Scanner pages
+              </p>
+              {routes.length === 0 ? (
+                <p className="mt-1 text-muted-foreground">
+                  No pages cached. Download an event&apos;s data to use it offline.
+                </p>
+              ) : (
+                <ul className="mt-1 space-y-1">
+                  {routes.map((route) => (
+                    <li key={route.path} className="truncate text-foreground">
+                      {route.label}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div>
+              <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                App assets
+              </p>
+              <p className="mt-1 text-muted-foreground">
+                {summary.scriptCount} scripts (incl. QR decoder), {summary.styleCount} stylesheets,{" "}
+                {summary.fontCount} fonts
+              </p>
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
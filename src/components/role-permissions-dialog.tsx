@@ -0,0 +1,219 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import type { UserRole } from "@/core/auth/types";
+import type { Permission, PermissionGroup } from "@/config/permissions";
+
+interface RolePermissionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** False shows the mapping read-only */
+  canEdit: boolean;
+  /** Display names, keyed by role */
+  roleLabels: Partial<Record<UserRole, string>>;
+}
+
+interface PermissionEntry {
+  key: Permission;
+  group: PermissionGroup;
+  label: string;
+  description: string;
+}
+
+interface RolePermissionsData {
+  groups: PermissionGroup[];
+  permissions: PermissionEntry[];
+  roles: UserRole[];
+  lockedRoles: UserRole[];
+  /** Held only by super admins; can't be granted to any role */
+  superAdminPermissions: Permission[];
+  mapping: Record<UserRole, Permission[]>;
+}
+
+interface ApiBody<T> {
+  success?: boolean;
+  data?: T;
+  error?: { message?: string };
+}
+
+/**
+ * Dialog for editing which permissions each role holds.
+ */
+export function RolePermissionsDialog({ open, onOpenChange, canEdit, roleLabels }: RolePermissionsDialogProps) {
+  const [data, setData] = useState<RolePermissionsData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [role, setRole] = useState<UserRole>("ADMIN");
+  const [selected, setSelected] = useState<Permission[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/users/permissions");
+      const body = (await response.json().catch(() => null)) as ApiBody<RolePermissionsData> | null;
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load permissions.");
+      }
+      setData(body.data);
+    } catch (err) {
+      toast.error("Unable to load permissions", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    void load();
+  }, [open, load]);
+
+  useEffect(() => {
+    setSelected(data?.mapping[role] ?? []);
+  }, [data, role]);
+
+  const isLocked = data?.lockedRoles.includes(role) ?? false;
+  const isReadOnly = !canEdit || isLocked;
+  const original = data?.mapping[role] ?? [];
+  const isDirty = original.length !== selected.length || original.some((permission) => !selected.includes(permission));
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, permission] : prev.filter((entry) => entry !== permission)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/users/permissions", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role, permissions: selected }),
+      });
+      const body = (await response.json().catch(() => null)) as ApiBody<{
+        role: UserRole;
+        permissions: Permission[];
+      }> | null;
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to save permissions.");
+      }
+
+      const saved = body.data;
+      setData((prev) => (prev ? { ...prev, mapping: { ...prev.mapping, [saved.role]: saved.permissions } } : prev));
+      toast.success("Permissions updated", {
+        description: "Signed-in users pick up the change within a minute.",
+      });
+    } catch (err) {
+      toast.error("Unable to save permissions", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Roles &amp; Permissions
+          </DialogTitle>
+          <DialogDescription>
+            Choose what each role can do. A user holds every permission of every role they have.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading permissions...</p>
+        ) : (
+          <div className="space-y-4">
+            <Select value={role} onValueChange={(value) => setRole(value as UserRole)} disabled={isSaving}>
+              <SelectTrigger className="w-full sm:w-[220px]" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {data.roles.map((entry) => (
+                  <SelectItem key={entry} value={entry}>
+                    {roleLabels[entry] ?? entry}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {isLocked && (
+              <p className="text-xs text-muted-foreground">
+                Super admins always hold every permission so the system can&apos;t be locked.
+              </p>
+            )}
+
+            {data.groups.map((group) => {
+              const entries = data.permissions.filter((permission) => permission.group === group);
+              if (entries.length === 0) return null;
+
+              return (
+                <div key={group} className="space-y-2">
+                  <p className="text-xs font-bold text-muted-foreground uppercase tracking-wider">{group}</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {entries.map((permission) => {
+                      const id = `permission-${permission.key}`;
+                      const isReserved = !isLocked && data.superAdminPermissions.includes(permission.key);
+                      return (
+                        <label
+                          key={permission.key}
+                          htmlFor={id}
+                          className="flex items-start gap-3 rounded-lg border border-border p-3 cursor-pointer hover:bg-muted/50"
+                        >
+                          <Checkbox
+                            id={id}
+                            className="mt-0.5"
+                            checked={selected.includes(permission.key)}
+                            disabled={isReadOnly || isReserved || isSaving}
+                            onCheckedChange={(checked) => togglePermission(permission.key, checked === true)}
+                          />
+                          <span className="min-w-0">
+                            <span className="block text-sm font-medium text-foreground">{permission.label}</span>
+                            <span className="block text-xs text-muted-foreground">{permission.description}</span>
+                            {isReserved && (
+                              <span className="block text-xs text-muted-foreground italic">Super admins only</span>
+                            )}
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Close
+          </Button>
+          {!isReadOnly && (
+            <Button type="button" onClick={() => void handleSave()} disabled={isSaving || !isDirty}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Changes
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
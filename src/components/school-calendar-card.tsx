@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarDays } from "lucide-react";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SCHOOL_CALENDAR_MODIFIER_CLASSES, useSchoolCalendar } from "@/shared/hooks/useSchoolCalendar";
+
+const CLOSURE_DOT_STYLES = {
+  holiday: "bg-red-500",
+  suspension: "bg-amber-500",
+};
+
+function formatClosureDates(startDate: string, endDate: string): string {
+  const start = parseISO(startDate);
+  if (startDate === endDate) return format(start, "MMM d");
+  return `${format(start, "MMM d")} – ${format(parseISO(endDate), "MMM d")}`;
+}
+
+/**
+ * Month view of the school calendar with the month's holidays and suspensions.
+ */
+export function SchoolCalendarCard() {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const { calendar, isLoading, modifiers } = useSchoolCalendar(
+    format(month, "yyyy-MM-dd"),
+    format(endOfMonth(month), "yyyy-MM-dd")
+  );
+
+  const currentYear = calendar?.schoolYears.find((year) => year.isCurrent) ?? calendar?.schoolYears[0];
+
+  return (
+    <Card className="border-border/50 shadow-sm bg-gradient-to-br from-card via-card to-primary/5">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-bold text-foreground flex items-center gap-2">
+          <CalendarDays className="w-4 h-4 text-primary" />
+          School Calendar
+        </CardTitle>
+        {currentYear && <p className="text-xs text-muted-foreground">{currentYear.name}</p>}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Calendar
+          mode="single"
+          month={month}
+          onMonthChange={(next) => setMonth(startOfMonth(next))}
+          modifiers={modifiers}
+          modifiersClassNames={SCHOOL_CALENDAR_MODIFIER_CLASSES}
+          className="mx-auto p-0"
+        />
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1.5">
+            <span className={`w-2 h-2 rounded-full ${CLOSURE_DOT_STYLES.holiday}`} />
+            Holiday
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className={`w-2 h-2 rounded-full ${CLOSURE_DOT_STYLES.suspension}`} />
+            Suspension
+          </span>
+        </div>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-2/3" />
+          </div>
+        ) : !calendar || calendar.closures.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">No holidays or suspensions this month</p>
+        ) : (
+          <ul className="space-y-2">
+            {calendar.closures.map((closure) => (
+              <li key={closure.id} className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <div className={`w-2 h-2 rounded-full shrink-0 ${CLOSURE_DOT_STYLES[closure.kind]}`} />
+                  <span className="text-sm text-foreground truncate">{closure.name}</span>
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatClosureDates(closure.startDate, closure.endDate)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
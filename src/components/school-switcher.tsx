@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { School } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import type { SchoolDto } from "@/core/db/school-scope";
+
+const ALL_SCHOOLS = "all";
+
+interface SchoolSwitcherProps {
+  /** Active school; null while viewing all schools */
+  activeSchoolId: string | null;
+  onSwitch: (schoolId: string | null) => Promise<void>;
+}
+
+/**
+ * Super admin picker for the school the dashboard works in.
+ */
+export function SchoolSwitcher({ activeSchoolId, onSwitch }: SchoolSwitcherProps) {
+  const [schools, setSchools] = useState<SchoolDto[]>([]);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await fetch("/api/schools", { signal: controller.signal });
+        const body = (await response.json().catch(() => null)) as {
+          success?: boolean;
+          data?: { schools: SchoolDto[] };
+        } | null;
+        if (response.ok && body?.success && body.data) {
+          setSchools(body.data.schools);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("[SchoolSwitcher] Failed to load schools", error);
+      }
+    };
+
+    void load();
+    return () => controller.abort();
+  }, []);
+
+  const handleChange = async (value: string) => {
+    setIsSwitching(true);
+    try {
+      await onSwitch(value === ALL_SCHOOLS ? null : value);
+    } catch (error) {
+      toast.error("Unable to switch school", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <Select
+      value={activeSchoolId ?? ALL_SCHOOLS}
+      onValueChange={(value) => void handleChange(value)}
+      disabled={isSwitching}
+    >
+      <SelectTrigger className="w-full h-9 bg-card border-border text-xs" aria-label="Active school">
+        <School className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+        <SelectValue placeholder="All schools" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_SCHOOLS}>All schools</SelectItem>
+        {schools.map((school) => (
+          <SelectItem key={school.id} value={school.id}>
+            {school.name}
+            {!school.isActive && " (inactive)"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect } from "react";
+import { registerServiceWorker } from "@/core/offline/service-worker";
+
+/**
+ * Registers the offline service worker once the app has loaded.
+ */
+export function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    void registerServiceWorker();
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { SESSION_WARNING_SECONDS } from "@/config/auth";
+import { getLastHeartbeat, sendSessionHeartbeat } from "@/core/auth/SessionService";
+import { useAuth } from "@/shared/hooks/useAuth";
+
+/** How often the countdown is recomputed. */
+const TICK_INTERVAL_MS = 1000;
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Warns before the server ends the session, for inactivity or because it
+ * reached its time limit, and offers to keep an idle session going.
+ *
+ * @remarks
+ * The idle deadline is pushed back locally by the activity heartbeats
+ * SessionService sends, so it doesn't wait for the next session poll. When
+ * the countdown runs out the session is re-checked, which signs the user out
+ * if the server agrees it has ended.
+ */
+export function SessionTimeoutWarning() {
+  const { session, logout, refreshUser } = useAuth();
+  const [clock, setClock] = useState(() => ({ now: Date.now(), lastHeartbeat: getLastHeartbeat() }));
+  const [dismissedUntil, setDismissedUntil] = useState<number | null>(null);
+  const [isExtending, setIsExtending] = useState(false);
+  const checkedDeadline = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    const id = window.setInterval(() => {
+      setClock({ now: Date.now(), lastHeartbeat: getLastHeartbeat() });
+    }, TICK_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [session]);
+
+  const absoluteEnd = session ? new Date(session.expiresAt).getTime() : 0;
+  const idleEnd = session
+    ? Math.max(
+        new Date(session.idleExpiresAt).getTime(),
+        clock.lastHeartbeat ? clock.lastHeartbeat + session.idleTimeoutSeconds * 1000 : 0
+      )
+    : 0;
+  const endsAt = Math.min(absoluteEnd, idleEnd);
+  const isIdleTimeout = idleEnd < absoluteEnd;
+  const remainingSeconds = Math.max(0, Math.ceil((endsAt - clock.now) / 1000));
+
+  useEffect(() => {
+    if (!session || remainingSeconds > 0 || checkedDeadline.current === endsAt) return;
+    checkedDeadline.current = endsAt;
+    void refreshUser();
+  }, [session, remainingSeconds, endsAt, refreshUser]);
+
+  const isOpen =
+    Boolean(session) && remainingSeconds > 0 && remainingSeconds <= SESSION_WARNING_SECONDS && dismissedUntil !== endsAt;
+
+  const handleStaySignedIn = async () => {
+    setIsExtending(true);
+    try {
+      await sendSessionHeartbeat();
+      await refreshUser();
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={isOpen}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{isIdleTimeout ? "Are you still there?" : "Your session is ending"}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {isIdleTimeout
+              ? `You'll be signed out in ${formatCountdown(remainingSeconds)} because of inactivity.`
+              : `Your session reaches its time limit in ${formatCountdown(remainingSeconds)}. Save your work and sign in again to keep going.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          {isIdleTimeout ? (
+            <>
+              <AlertDialogCancel onClick={() => void logout()} disabled={isExtending}>
+                Sign out
+              </AlertDialogCancel>
+              <AlertDialogAction onClick={() => void handleStaySignedIn()} disabled={isExtending}>
+                Stay signed in
+              </AlertDialogAction>
+            </>
+          ) : (
+            <>
+              <AlertDialogCancel onClick={() => setDismissedUntil(endsAt)}>Later</AlertDialogCancel>
+              <AlertDialogAction onClick={() => void logout()}>Sign in again</AlertDialogAction>
+            </>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Laptop, Loader2, LogOut, Smartphone } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { UserSessionDto } from "@/core/auth/types";
+
+interface ApiBody<T> {
+  success?: boolean;
+  data?: T;
+  error?: { message?: string };
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Chrome\//, "Chrome"],
+  [/Firefox\//, "Firefox"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "Browser";
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return platform ? `${browser} on ${platform}` : browser;
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return Boolean(userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent));
+}
+
+function formatDateTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/**
+ * Devices the current user is signed in on, with remote sign-out.
+ */
+export function SignedInDevices() {
+  const [sessions, setSessions] = useState<UserSessionDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/profile/sessions");
+      const body = (await response.json().catch(() => null)) as ApiBody<{ sessions: UserSessionDto[] }> | null;
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load signed-in devices.");
+      }
+      setSessions(body.data.sessions);
+    } catch (err) {
+      toast.error("Unable to load signed-in devices", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const signOut = async (sessionId: string | null) => {
+    setPendingId(sessionId ?? "others");
+    try {
+      const response = await fetch(sessionId ? `/api/profile/sessions/${sessionId}` : "/api/profile/sessions", {
+        method: "DELETE",
+      });
+      const body = (await response.json().catch(() => null)) as ApiBody<{ endedSessions: number }> | null;
+      if (!response.ok || !body?.success) {
+        throw new Error(body?.error?.message ?? "Unable to sign out.");
+      }
+      setSessions((prev) => prev.filter((session) => (sessionId ? session.id !== sessionId : session.isCurrent)));
+      toast.success(sessionId ? "Device signed out" : "Other devices signed out");
+    } catch (err) {
+      toast.error("Unable to sign out", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-16 w-full" />
+      </div>
+    );
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <div className="space-y-3">
+      {sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">No active sessions.</p>
+      ) : (
+        sessions.map((session) => {
+          const Icon = isMobile(session.userAgent) ? Smartphone : Laptop;
+          return (
+            <div
+              key={session.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-border p-3"
+            >
+              <div className="flex items-start gap-3 min-w-0">
+                <Icon className="w-5 h-5 text-muted-foreground shrink-0 mt-0.5" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate flex items-center gap-2">
+                    {describeUserAgent(session.userAgent)}
+                    {session.isCurrent && (
+                      <Badge variant="outline" className="text-[10px]">
+                        This device
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {session.ipAddress ? `${session.ipAddress} · ` : ""}
+                    Last active {formatDateTime(session.lastSeenAt)} · Signed in {formatDateTime(session.createdAt)}
+                  </p>
+                </div>
+              </div>
+              {!session.isCurrent && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void signOut(session.id)}
+                  disabled={pendingId !== null}
+                >
+                  {pendingId === session.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <LogOut className="w-4 h-4" />
+                  )}
+                  Sign out
+                </Button>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      {hasOtherSessions && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => void signOut(null)}
+          disabled={pendingId !== null}
+        >
+          {pendingId === "others" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Sign out all other devices
+        </Button>
+      )}
+    </div>
+  );
+}
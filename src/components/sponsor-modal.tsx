@@ -3,13 +3,16 @@
 import { useEffect } from "react";
 import Image from "next/image";
 import { X } from "lucide-react";
+import appSettings from "@/appsettings.json";
 
 interface SponsorModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Name shown in the footer; defaults to the app name */
+  appName?: string;
 }
 
-export default function SponsorModal({ isOpen, onClose }: SponsorModalProps) {
+export default function SponsorModal({ isOpen, onClose, appName = appSettings.appName }: SponsorModalProps) {
   useEffect(() => {
     if (isOpen) {
       document.body.style.overflow = "hidden";
@@ -66,7 +69,7 @@ export default function SponsorModal({ isOpen, onClose }: SponsorModalProps) {
 
           <div className="mt-6 text-center space-y-1.5 border-t border-border pt-4">
             <p className="text-sm font-medium text-muted-foreground">
-              @ 2025 GREEN VALLEY v1.0.0
+              @ 2025 {appName} v{appSettings.version}
             </p>
             <p className="text-xs text-muted-foreground">
               Initiated by <span className="font-semibold text-primary">SSC</span>
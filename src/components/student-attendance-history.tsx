@@ -0,0 +1,348 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CalendarDays, CheckCircle2, Clock, History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type SessionStatus = "present" | "late" | "excused" | "absent" | "no_scan" | "pending";
+
+interface AttendanceSummary {
+  present: number;
+  late: number;
+  excused: number;
+  absent: number;
+  noScan: number;
+  pending: number;
+  attendanceRate: number | null;
+  latenessRate: number | null;
+}
+
+interface AttendanceSession {
+  eventSessionId: string;
+  name: string;
+  date: string | null;
+  period: "morning" | "afternoon" | "evening";
+  direction: "in" | "out";
+  status: SessionStatus;
+  scannedAt: string | null;
+}
+
+interface AttendanceEvent {
+  eventId: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  sessions: AttendanceSession[];
+  summary: AttendanceSummary;
+}
+
+interface HistoryStudent {
+  studentId: string;
+  fullName: string;
+  lrn: string | null;
+  level: string | null;
+  section: string | null;
+}
+
+interface AttendanceHistory {
+  student: HistoryStudent;
+  from: string;
+  to: string;
+  summary: AttendanceSummary;
+  events: AttendanceEvent[];
+}
+
+const STATUS_BADGES: Record<SessionStatus, { label: string; className: string }> = {
+  present: { label: "Present", className: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400" },
+  late: { label: "Late", className: "bg-amber-500/10 text-amber-600 dark:text-amber-400" },
+  excused: { label: "Excused", className: "bg-sky-500/10 text-sky-600 dark:text-sky-400" },
+  absent: { label: "Absent", className: "bg-red-500/10 text-red-600 dark:text-red-400" },
+  no_scan: { label: "No scan", className: "bg-red-500/10 text-red-600 dark:text-red-400" },
+  pending: { label: "Upcoming", className: "bg-muted text-muted-foreground" },
+};
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${rate}%`;
+}
+
+function formatScanTime(value: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+function formatDate(value: string): string {
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+interface StudentAttendanceHistoryProps {
+  studentId: string;
+}
+
+/**
+ * A student's attendance across events over a chosen period, with attendance
+ * and lateness rates. Defaults to the last 90 days.
+ */
+export function StudentAttendanceHistory({ studentId }: StudentAttendanceHistoryProps) {
+  const [period, setPeriod] = useState<{ from: string; to: string }>({ from: "", to: "" });
+  const [draftFrom, setDraftFrom] = useState("");
+  const [draftTo, setDraftTo] = useState("");
+  const [history, setHistory] = useState<AttendanceHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      if (period.from) params.set("from", period.from);
+      if (period.to) params.set("to", period.to);
+
+      const response = await fetch(`/api/sis/students/${studentId}/attendance?${params.toString()}`);
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: { history: AttendanceHistory }; error?: { message?: string } }
+        | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load attendance history.");
+      }
+
+      setHistory(body.data.history);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load attendance history.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [studentId, period]);
+
+  useEffect(() => {
+    void loadHistory();
+  }, [loadHistory]);
+
+  const summary = history?.summary ?? null;
+
+  return (
+    <div className="rounded-lg border border-border/70 bg-muted/30 p-3 space-y-3">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-primary" />
+          <div>
+            <p className="text-sm font-medium text-foreground">Attendance history</p>
+            {history && (
+              <p className="text-[11px] text-muted-foreground">
+                {formatDate(history.from)} – {formatDate(history.to)}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor={`history-from-${studentId}`} className="text-[11px]">From</Label>
+            <Input
+              id={`history-from-${studentId}`}
+              type="date"
+              className="h-8 w-[140px] text-xs"
+              value={draftFrom}
+              onChange={(event) => setDraftFrom(event.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`history-to-${studentId}`} className="text-[11px]">To</Label>
+            <Input
+              id={`history-to-${studentId}`}
+              type="date"
+              className="h-8 w-[140px] text-xs"
+              value={draftTo}
+              onChange={(event) => setDraftTo(event.target.value)}
+            />
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-8 text-xs"
+            disabled={isLoading}
+            onClick={() => setPeriod({ from: draftFrom, to: draftTo })}
+          >
+            Apply
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && !history ? (
+        <div className="space-y-2">
+          <Skeleton className="h-14 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      ) : error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : summary && history ? (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <div className="rounded-md border border-border/60 bg-card px-3 py-2">
+              <p className="text-[10px] uppercase tracking-wide text-muted-foreground flex items-center gap-1">
+                <CheckCircle2 className="w-3 h-3" /> Attendance
+              </p>
+              <p className="text-lg font-semibold text-foreground">{formatRate(summary.attendanceRate)}</p>
+            </div>
+            <div className="rounded-md border border-border/60 bg-card px-3 py-2">
+              <p className="text-[10px] uppercase tracking-wide text-muted-foreground flex items-center gap-1">
+                <Clock className="w-3 h-3" /> Lateness
+              </p>
+              <p className="text-lg font-semibold text-foreground">{formatRate(summary.latenessRate)}</p>
+            </div>
+            <div className="rounded-md border border-border/60 bg-card px-3 py-2">
+              <p className="text-[10px] uppercase tracking-wide text-muted-foreground">Present / Late</p>
+              <p className="text-lg font-semibold text-foreground">
+                {summary.present} / {summary.late}
+              </p>
+            </div>
+            <div className="rounded-md border border-border/60 bg-card px-3 py-2">
+              <p className="text-[10px] uppercase tracking-wide text-muted-foreground">Absent / No scan</p>
+              <p className="text-lg font-semibold text-foreground">
+                {summary.absent} / {summary.noScan}
+              </p>
+            </div>
+          </div>
+
+          {history.events.length === 0 ? (
+            <p className="text-xs text-muted-foreground py-2 text-center">
+              No events targeted this student in this period.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-[360px] overflow-y-auto pr-1">
+              {history.events.map((event) => (
+                <div key={event.eventId} className="rounded-md border border-border/60 bg-card px-3 py-2 space-y-1.5">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-xs font-semibold text-foreground truncate">{event.title}</p>
+                      <p className="text-[11px] text-muted-foreground flex items-center gap-1">
+                        <CalendarDays className="w-3 h-3" />
+                        {event.startDate === event.endDate
+                          ? formatDate(event.startDate)
+                          : `${formatDate(event.startDate)} – ${formatDate(event.endDate)}`}
+                      </p>
+                    </div>
+                    <span className="text-[11px] text-muted-foreground whitespace-nowrap">
+                      {formatRate(event.summary.attendanceRate)} attended
+                    </span>
+                  </div>
+                  {event.sessions.length === 0 ? (
+                    <p className="text-[11px] text-muted-foreground">No sessions recorded yet.</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {event.sessions.map((session) => {
+                        const badge = STATUS_BADGES[session.status];
+                        const scanTime = formatScanTime(session.scannedAt);
+                        return (
+                          <div
+                            key={session.eventSessionId}
+                            className="flex items-center justify-between gap-2 text-[11px]"
+                          >
+                            <span className="text-muted-foreground truncate">
+                              {session.date ? `${formatDate(session.date)} · ` : ""}
+                              {session.name}
+                            </span>
+                            <span className="flex items-center gap-2 whitespace-nowrap">
+                              {scanTime && <span className="text-muted-foreground">{scanTime}</span>}
+                              <Badge variant="secondary" className={`text-[10px] ${badge.className}`}>
+                                {badge.label}
+                              </Badge>
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Attendance history for the students linked to the signed-in student or
+ * parent, with a picker when more than one student is linked.
+ */
+export function LinkedStudentAttendanceHistory() {
+  const [students, setStudents] = useState<HistoryStudent[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStudents = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sis/students/linked");
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: { students: HistoryStudent[] }; error?: { message?: string } }
+        | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load linked students.");
+      }
+
+      setStudents(body.data.students);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load linked students.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStudents();
+  }, [loadStudents]);
+
+  const activeId = selectedId ?? students[0]?.studentId ?? null;
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (error) {
+    return <p className="text-xs text-destructive">{error}</p>;
+  }
+
+  if (!activeId) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        No student records are linked to this account yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {students.length > 1 && (
+        <Select value={activeId} onValueChange={setSelectedId}>
+          <SelectTrigger className="h-8 w-full sm:w-[260px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {students.map((student) => (
+              <SelectItem key={student.studentId} value={student.studentId}>
+                {student.fullName}
+                {student.section ? ` (${[student.level, student.section].filter(Boolean).join(" • ")})` : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <StudentAttendanceHistory key={activeId} studentId={activeId} />
+    </div>
+  );
+}
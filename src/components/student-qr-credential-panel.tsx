@@ -0,0 +1,187 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Ban, QrCode, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+
+interface StudentQrCredential {
+  studentId: string;
+  issuedAt: string;
+  revokedAt: string | null;
+  token: string | null;
+  expiresAt: string | null;
+  qrImageDataUrl?: string | null;
+}
+
+interface StudentQrCredentialPanelProps {
+  studentId: string;
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * QR code status for a student, with reissue (rotate) and revoke actions.
+ */
+export function StudentQrCredentialPanel({ studentId }: StudentQrCredentialPanelProps) {
+  const [credential, setCredential] = useState<StudentQrCredential | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<"rotate" | "revoke" | null>(null);
+
+  const loadCredential = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sis/students/${studentId}/qr`);
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: { credential: StudentQrCredential }; error?: { message?: string } }
+        | null;
+
+      if (!response.ok || !body?.success || !body.data) {
+        throw new Error(body?.error?.message ?? "Unable to load QR code status.");
+      }
+
+      setCredential(body.data.credential);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load QR code status.");
+      setCredential(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [studentId]);
+
+  useEffect(() => {
+    void loadCredential();
+  }, [loadCredential]);
+
+  const runAction = useCallback(
+    async (action: "rotate" | "revoke") => {
+      if (
+        action === "revoke" &&
+        !window.confirm("Revoke this student's QR code? Scanners will deny it until a new code is issued.")
+      ) {
+        return;
+      }
+
+      setPendingAction(action);
+
+      try {
+        const response = await fetch(`/api/sis/students/${studentId}/qr`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action }),
+        });
+        const body = (await response.json().catch(() => null)) as
+          | { success?: boolean; data?: { credential: StudentQrCredential }; error?: { message?: string } }
+          | null;
+
+        if (!response.ok || !body?.success || !body.data) {
+          throw new Error(body?.error?.message ?? "Unable to update QR code.");
+        }
+
+        setCredential(body.data.credential);
+        toast.success(action === "rotate" ? "New QR code issued" : "QR code revoked", {
+          description: "Scanners apply the change after their next data refresh.",
+        });
+      } catch (err) {
+        toast.error("Unable to update QR code", {
+          description: err instanceof Error ? err.message : undefined,
+        });
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [studentId]
+  );
+
+  if (isLoading && !credential) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-5 w-32" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-xs text-destructive">{error}</p>;
+  }
+
+  if (!credential) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/60 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <QrCode className="h-4 w-4" />
+          QR code
+        </div>
+        {credential.revokedAt ? (
+          <Badge variant="destructive">Revoked</Badge>
+        ) : (
+          <Badge variant="secondary">Active</Badge>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {credential.revokedAt
+          ? `Revoked ${formatTimestamp(credential.revokedAt)}. Issue a new code to restore scanning.`
+          : `Current code issued ${formatTimestamp(credential.issuedAt)}. Older cards no longer scan.`}
+      </p>
+
+      {credential.qrImageDataUrl && (
+        <div className="flex flex-col items-center gap-1">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={credential.qrImageDataUrl}
+            alt="New student QR code"
+            className="h-40 w-40 rounded border border-border/50"
+          />
+          {credential.expiresAt && (
+            <span className="text-[11px] text-muted-foreground">
+              Valid until {formatTimestamp(credential.expiresAt)}
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={pendingAction !== null || !!credential.revokedAt}
+          onClick={() => void runAction("revoke")}
+        >
+          <Ban className="mr-1.5 h-3.5 w-3.5" />
+          {pendingAction === "revoke" ? "Revoking..." : "Revoke"}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          disabled={pendingAction !== null}
+          onClick={() => void runAction("rotate")}
+        >
+          <RefreshCw className="mr-1.5 h-3.5 w-3.5" />
+          {pendingAction === "rotate" ? "Issuing..." : "Issue new code"}
+        </Button>
+      </div>
+    </div>
+  );
+}
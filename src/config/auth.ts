@@ -1 +1,78 @@
-export {};
+/**
+ * Session timeouts, enforced on the server by `user_sessions`, and sign-in
+ * throttling, enforced by `/api/auth/login`.
+ *
+ * Configuration:
+ * - SESSION_IDLE_TIMEOUT_MINUTES: minutes without activity before a session
+ *   ends (default 60)
+ * - SESSION_ABSOLUTE_TIMEOUT_HOURS: hours after sign-in a session ends
+ *   regardless of activity (default 12)
+ * - LOGIN_MAX_ACCOUNT_FAILURES: failed sign-ins to one account before it is
+ *   locked (default 5)
+ * - LOGIN_MAX_IP_FAILURES: failed sign-ins from one IP address before it is
+ *   locked; generous because a school's devices often share one address
+ *   (default 50)
+ * - LOGIN_FAILURE_WINDOW_MINUTES: how long failures are counted (default 15)
+ * - LOGIN_LOCKOUT_MINUTES: how long a lockout lasts (default 15)
+ * - LOGIN_RATE_LIMIT_STORE: where failures are counted, `database` (default)
+ *   or `memory` (single process only; local development and tests)
+ */
+
+/** Used when SESSION_IDLE_TIMEOUT_MINUTES is not configured. */
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 60;
+
+/** Used when SESSION_ABSOLUTE_TIMEOUT_HOURS is not configured. */
+const DEFAULT_ABSOLUTE_TIMEOUT_HOURS = 12;
+
+/** Used when the LOGIN_* limits are not configured. */
+const DEFAULT_MAX_ACCOUNT_FAILURES = 5;
+const DEFAULT_MAX_IP_FAILURES = 50;
+const DEFAULT_FAILURE_WINDOW_MINUTES = 15;
+const DEFAULT_LOCKOUT_MINUTES = 15;
+
+/** Failed sign-ins allowed back to back before retries are delayed */
+export const LOGIN_FREE_ATTEMPTS = 2;
+
+/** Upper bound on the delay between retries before a lockout */
+export const LOGIN_MAX_DELAY_SECONDS = 30;
+
+/** How often the browser reports user activity while someone is using it */
+export const SESSION_ACTIVITY_INTERVAL_SECONDS = 60;
+
+/** How long before logout the dashboard starts warning */
+export const SESSION_WARNING_SECONDS = 2 * 60;
+
+export interface SessionPolicy {
+  idleTimeoutSeconds: number;
+  absoluteTimeoutSeconds: number;
+}
+
+export interface LoginRateLimitPolicy {
+  maxAccountFailures: number;
+  maxIpFailures: number;
+  failureWindowSeconds: number;
+  lockoutSeconds: number;
+}
+
+function readPositiveInteger(value: string | undefined, fallback: number): number {
+  const configured = Number(value);
+  return Number.isInteger(configured) && configured > 0 ? configured : fallback;
+}
+
+export function getSessionPolicy(): SessionPolicy {
+  return {
+    idleTimeoutSeconds: readPositiveInteger(process.env.SESSION_IDLE_TIMEOUT_MINUTES, DEFAULT_IDLE_TIMEOUT_MINUTES) * 60,
+    absoluteTimeoutSeconds:
+      readPositiveInteger(process.env.SESSION_ABSOLUTE_TIMEOUT_HOURS, DEFAULT_ABSOLUTE_TIMEOUT_HOURS) * 60 * 60,
+  };
+}
+
+export function getLoginRateLimitPolicy(): LoginRateLimitPolicy {
+  return {
+    maxAccountFailures: readPositiveInteger(process.env.LOGIN_MAX_ACCOUNT_FAILURES, DEFAULT_MAX_ACCOUNT_FAILURES),
+    maxIpFailures: readPositiveInteger(process.env.LOGIN_MAX_IP_FAILURES, DEFAULT_MAX_IP_FAILURES),
+    failureWindowSeconds:
+      readPositiveInteger(process.env.LOGIN_FAILURE_WINDOW_MINUTES, DEFAULT_FAILURE_WINDOW_MINUTES) * 60,
+    lockoutSeconds: readPositiveInteger(process.env.LOGIN_LOCKOUT_MINUTES, DEFAULT_LOCKOUT_MINUTES) * 60,
+  };
+}
@@ -0,0 +1,107 @@
+import type { UserRole } from "@/core/auth/types";
+
+/**
+ * Permission registry.
+ *
+ * Every capability API routes, pages and services check is listed here.
+ * Which roles hold which permissions is stored in `role_permissions` and can
+ * be edited by super admins in the Users area; `DEFAULT_ROLE_PERMISSIONS` is
+ * the starting mapping (and what's used until the table exists). SUPER_ADMIN
+ * always holds every permission so nobody can lock the system.
+ */
+
+export const PERMISSION_GROUPS = ["Events", "Attendance", "Students", "Academics", "Facilities", "Administration"] as const;
+
+export type PermissionGroup = (typeof PERMISSION_GROUPS)[number];
+
+export const PERMISSIONS = [
+  { key: "events.view", group: "Events", label: "View events", description: "See event lists, details, stats and history." },
+  { key: "events.create", group: "Events", label: "Organize events", description: "Create events, series and templates, and manage their own events." },
+  { key: "events.manage_all", group: "Events", label: "Manage all events", description: "Edit any organizer's events, templates and series, and upload posters." },
+  { key: "events.approve", group: "Events", label: "Approve events", description: "Approve, reject, publish, complete and cancel events." },
+  { key: "attendance.scan", group: "Attendance", label: "Scan attendance", description: "Use the scanner to record attendance at events." },
+  { key: "reports.view", group: "Attendance", label: "View reports", description: "See the dashboard and late-arrival reports." },
+  { key: "students.view", group: "Students", label: "View students", description: "See students, levels, sections and attendance history." },
+  { key: "students.manage", group: "Students", label: "Manage students", description: "Add, edit and remove students in the registry." },
+  { key: "students.import", group: "Students", label: "Import students", description: "Import students and their accounts from files." },
+  { key: "students.export", group: "Students", label: "Export students", description: "Download the student list with QR credentials." },
+  { key: "students.credentials", group: "Students", label: "Manage QR credentials", description: "View and reissue student QR codes." },
+  { key: "guardians.manage", group: "Students", label: "Manage guardians", description: "Edit guardian accounts and their notification settings." },
+  { key: "academics.view", group: "Academics", label: "View school calendar", description: "See school years, terms and closures." },
+  { key: "academics.manage", group: "Academics", label: "Manage academics", description: "Edit levels, sections, school years, terms and closures." },
+  { key: "facilities.view", group: "Facilities", label: "View facilities", description: "See facilities and their schedules." },
+  { key: "facilities.create", group: "Facilities", label: "Add facilities", description: "Register new facilities." },
+  { key: "facilities.manage", group: "Facilities", label: "Manage facilities", description: "Edit facilities and check venue availability." },
+  { key: "school.manage", group: "Administration", label: "Manage school", description: "Edit their school's name and branding." },
+  { key: "users.manage", group: "Administration", label: "Manage users", description: "Create, edit, deactivate and import user accounts." },
+  { key: "permissions.manage", group: "Administration", label: "Manage permissions", description: "Change which roles hold which permissions in every school. Super admins only." },
+  { key: "security.view", group: "Administration", label: "View security log", description: "Search sign-ins, failed attempts, lockouts, password resets and role changes." },
+  { key: "jobs.run", group: "Administration", label: "Run background jobs", description: "Trigger the absentee sweep and notification dispatch by hand." },
+] as const satisfies readonly { key: string; group: PermissionGroup; label: string; description: string }[];
+
+export type Permission = (typeof PERMISSIONS)[number]["key"];
+
+export const ALL_PERMISSIONS: readonly Permission[] = PERMISSIONS.map((permission) => permission.key);
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && (ALL_PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether `granted` includes any of `required`. The one check behind
+ * `requirePermission`, route access in middleware and the `can()` hook.
+ */
+export function hasPermission(granted: readonly Permission[], required: Permission | readonly Permission[]): boolean {
+  const anyOf: readonly Permission[] = Array.isArray(required) ? required : [required];
+  return anyOf.some((permission) => granted.includes(permission));
+}
+
+/**
+ * Permissions no role can be granted, so only SUPER_ADMIN holds them. The
+ * role mapping is shared by every school, so a school's admin editing it
+ * would change what users in other schools can do.
+ */
+export const SUPER_ADMIN_PERMISSIONS: readonly Permission[] = ["permissions.manage"];
+
+const ORGANIZER_PERMISSIONS: Permission[] = [
+  "events.view",
+  "events.create",
+  "reports.view",
+  "students.view",
+  "academics.view",
+  "facilities.view",
+  "facilities.create",
+  "students.manage",
+];
+
+/** Starting role mapping, matching what each role could do before permissions were editable */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  SUPER_ADMIN: ALL_PERMISSIONS,
+  ADMIN: ALL_PERMISSIONS.filter((permission) => !SUPER_ADMIN_PERMISSIONS.includes(permission)),
+  TEACHER: ORGANIZER_PERMISSIONS,
+  STAFF: ORGANIZER_PERMISSIONS,
+  SCANNER: ["attendance.scan"],
+  STUDENT: [],
+  PARENT: [],
+};
+
+/** A role → permissions mapping, as loaded from `role_permissions` */
+export type RolePermissionMap = Record<UserRole, readonly Permission[]>;
+
+/**
+ * Every permission the given roles hold under `mapping`.
+ */
+export function permissionsForRoles(roles: readonly UserRole[], mapping: RolePermissionMap): Permission[] {
+  if (roles.includes("SUPER_ADMIN")) {
+    return [...ALL_PERMISSIONS];
+  }
+  const granted = new Set<Permission>();
+  for (const role of roles) {
+    for (const permission of mapping[role] ?? []) {
+      if (!SUPER_ADMIN_PERMISSIONS.includes(permission)) {
+        granted.add(permission);
+      }
+    }
+  }
+  return ALL_PERMISSIONS.filter((permission) => granted.has(permission));
+}
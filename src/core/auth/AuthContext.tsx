@@ -3,7 +3,7 @@
 import { createContext, useCallback, useContext, useEffect } from "react";
 import type { ReactNode } from "react";
 import { usePathname } from "next/navigation";
-import type { AuthUser } from "@/core/auth/types";
+import type { AuthUser, SessionTiming } from "@/core/auth/types";
 import { login as authLogin, performLogout } from "@/core/auth/AuthService";
 import { initializeSessionTracking } from "@/core/auth/SessionService";
 import { getDefaultRouteForRoles } from "@/core/auth/routeAccess";
@@ -11,6 +11,8 @@ import { useSession } from "@/core/auth/useSession";
 
 interface AuthContextValue {
   user: AuthUser | null;
+  /** When the server-side session ends; drives the logout warning */
+  session: SessionTiming | null;
   loading: boolean;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<void>;
@@ -21,7 +23,7 @@ interface AuthContextValue {
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const { user, isLoading, isAuthenticated, refresh, clear } = useSession({
+  const { user, session, isLoading, isAuthenticated, refresh, clear } = useSession({
     refreshInterval: 5 * 60 * 1000, // Refresh session every 5 minutes
     revalidateOnFocus: false, // Don't refetch on tab focus
     revalidateOnReconnect: false, // Don't refetch on network reconnect
@@ -87,6 +89,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const value: AuthContextValue = {
     user,
+    session,
     loading: isLoading,
     isAuthenticated,
     login: handleLogin,
@@ -1,16 +1,12 @@
 "use client";
 
-import { getBrowserSupabaseClient } from "@/core/db/supabase-client.browser";
 import type { AuthUser } from "@/core/auth/types";
+import { clearOfflineApiCache } from "@/core/offline/service-worker";
 
 interface LoginResponse {
   success: boolean;
   data?: {
     user: AuthUser;
-    session?: {
-      access_token: string;
-      refresh_token: string;
-    };
   };
   error?: {
     code: string;
@@ -64,27 +60,16 @@ export async function login(email: string, password: string): Promise<AuthUser>
       throw new Error(body.error?.message ?? "Unexpected login response.");
     }
 
-    const { user, session } = body.data;
+    const { user } = body.data;
+
+    // Don't serve the previous user's session or scanner data offline
+    await clearOfflineApiCache().catch(() => undefined);
 
     console.log("[AuthService.login] Login succeeded", {
       userId: user.id,
       roles: user.roles,
-      hasSession: !!session,
     });
 
-    if (session) {
-      const supabase = getBrowserSupabaseClient();
-      supabase.auth
-        .setSession({
-          access_token: session.access_token,
-          refresh_token: session.refresh_token,
-        })
-        .catch((err) => {
-          console.error("[AuthService.login] Failed to set Supabase session", err);
-          // Session in Supabase is best-effort; cookies remain source of truth.
-        });
-    }
-
     return user;
   } finally {
     clearTimeout(timeoutId);
@@ -132,8 +117,9 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
 }
 
 export async function performLogout(): Promise<void> {
+  // Ends the server-side session and its Supabase Auth session
   await fetch(LOGOUT_ENDPOINT, { method: "POST" });
 
-  const supabase = getBrowserSupabaseClient();
-  await supabase.auth.signOut();
+  // Don't serve the signed-out session from the offline cache
+  await clearOfflineApiCache().catch(() => undefined);
 }
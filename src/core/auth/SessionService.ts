@@ -1,9 +1,15 @@
 "use client";
 
+import { SESSION_ACTIVITY_INTERVAL_SECONDS } from "@/config/auth";
+import type { SessionTiming } from "@/core/auth/types";
+
 const SESSION_KEY = "usms_session_meta";
+const SESSION_ENDPOINT = "/api/auth/session";
 
 interface SessionMeta {
   lastActivity: number;
+  /** Last time activity was reported to the server; shared across tabs */
+  lastHeartbeat?: number;
 }
 
 function readMeta(): SessionMeta | null {
@@ -28,8 +34,34 @@ function writeMeta(meta: SessionMeta): void {
   }
 }
 
+/**
+ * Report activity to the server, pushing back the session's idle timeout.
+ *
+ * @returns The session's new timing, or null if it has already ended
+ */
+export async function sendSessionHeartbeat(): Promise<SessionTiming | null> {
+  writeMeta({ ...(readMeta() ?? { lastActivity: Date.now() }), lastHeartbeat: Date.now() });
+
+  try {
+    const res = await fetch(SESSION_ENDPOINT, { method: "POST" });
+    if (!res.ok) return null;
+    const body = (await res.json()) as { success: boolean; data?: { session: SessionTiming } };
+    return body.success && body.data ? body.data.session : null;
+  } catch {
+    return null;
+  }
+}
+
 function touchActivity(): void {
-  writeMeta({ lastActivity: Date.now() });
+  const now = Date.now();
+  const meta = readMeta();
+  writeMeta({ lastActivity: now, lastHeartbeat: meta?.lastHeartbeat });
+
+  // Heartbeats are throttled; the server only needs to know someone is here
+  const lastHeartbeat = meta?.lastHeartbeat ?? 0;
+  if (now - lastHeartbeat >= SESSION_ACTIVITY_INTERVAL_SECONDS * 1000) {
+    void sendSessionHeartbeat();
+  }
 }
 
 let initialized = false;
@@ -52,3 +84,8 @@ export function getLastActivity(): number | null {
   const meta = readMeta();
   return meta?.lastActivity ?? null;
 }
+
+export function getLastHeartbeat(): number | null {
+  const meta = readMeta();
+  return meta?.lastHeartbeat ?? null;
+}
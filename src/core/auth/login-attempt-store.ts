@@ -0,0 +1,166 @@
+/**
+ * Login Attempt Stores
+ *
+ * Where failed sign-ins are counted for rate limiting (login-rate-limit.ts).
+ * Records are keyed by what is being limited, e.g. `account:<email>` or
+ * `ip:<address>`.
+ *
+ * @remarks
+ * LOGIN_RATE_LIMIT_STORE selects the store (default `database`). The memory
+ * store only sees its own server process, so it is meant for local
+ * development and tests; production must share counts across processes.
+ */
+
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+
+const DEFAULT_STORE = "database";
+
+/** Bound on records held by the memory store; expired ones are pruned first */
+const MEMORY_MAX_ENTRIES = 10000;
+
+/**
+ * Failed sign-ins counted against one key.
+ */
+export interface LoginAttemptRecord {
+  failures: number;
+  /** Epoch ms of the first failure in the current window */
+  firstFailureAt: number;
+  /** Epoch ms until which sign-ins are refused, or null */
+  blockedUntil: number | null;
+  /** Whether `blockedUntil` is a lockout rather than a retry delay */
+  locked: boolean;
+}
+
+export interface ILoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+
+  /**
+   * Store a record; it may be dropped any time after `expiresAt`.
+   */
+  save(key: string, record: LoginAttemptRecord, expiresAt: number): Promise<void>;
+
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryLoginAttemptStore implements ILoginAttemptStore {
+  private readonly records = new Map<string, { record: LoginAttemptRecord; expiresAt: number }>();
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const entry = this.records.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+    return { ...entry.record };
+  }
+
+  async save(key: string, record: LoginAttemptRecord, expiresAt: number): Promise<void> {
+    if (this.records.size >= MEMORY_MAX_ENTRIES && !this.records.has(key)) {
+      this.prune();
+    }
+    this.records.set(key, { record: { ...record }, expiresAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.records) {
+      if (entry.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+    if (this.records.size >= MEMORY_MAX_ENTRIES) {
+      this.records.clear();
+    }
+  }
+}
+
+interface LoginAttemptRow {
+  failures: number;
+  first_failure_at: string;
+  blocked_until: string | null;
+  locked: boolean;
+  expires_at: string;
+}
+
+/**
+ * Stores records in `login_attempts` (migration Phase_1.29).
+ */
+export class DatabaseLoginAttemptStore implements ILoginAttemptStore {
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const { data, error } = await getAdminSupabaseClient()
+      .from("login_attempts")
+      .select("failures, first_failure_at, blocked_until, locked, expires_at")
+      .eq("key", key)
+      .maybeSingle<LoginAttemptRow>();
+
+    if (error) {
+      console.error("[DatabaseLoginAttemptStore.get] Database error:", error);
+      throw new Error("Failed to load login attempts");
+    }
+
+    if (!data || new Date(data.expires_at).getTime() <= Date.now()) {
+      return null;
+    }
+
+    return {
+      failures: data.failures,
+      firstFailureAt: new Date(data.first_failure_at).getTime(),
+      blockedUntil: data.blocked_until ? new Date(data.blocked_until).getTime() : null,
+      locked: data.locked,
+    };
+  }
+
+  async save(key: string, record: LoginAttemptRecord, expiresAt: number): Promise<void> {
+    const { error } = await getAdminSupabaseClient()
+      .from("login_attempts")
+      .upsert(
+        {
+          key,
+          failures: record.failures,
+          first_failure_at: new Date(record.firstFailureAt).toISOString(),
+          blocked_until: record.blockedUntil ? new Date(record.blockedUntil).toISOString() : null,
+          locked: record.locked,
+          expires_at: new Date(expiresAt).toISOString(),
+        },
+        { onConflict: "key" }
+      );
+
+    if (error) {
+      console.error("[DatabaseLoginAttemptStore.save] Database error:", error);
+      throw new Error("Failed to save login attempts");
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await getAdminSupabaseClient().from("login_attempts").delete().eq("key", key);
+
+    if (error) {
+      console.error("[DatabaseLoginAttemptStore.delete] Database error:", error);
+      throw new Error("Failed to clear login attempts");
+    }
+  }
+}
+
+/**
+ * The store selected by LOGIN_RATE_LIMIT_STORE.
+ */
+export function createLoginAttemptStore(): ILoginAttemptStore {
+  const configured = (process.env.LOGIN_RATE_LIMIT_STORE ?? DEFAULT_STORE).trim().toLowerCase();
+
+  switch (configured) {
+    case "database":
+      return new DatabaseLoginAttemptStore();
+    case "memory":
+      return new MemoryLoginAttemptStore();
+    default:
+      console.warn(
+        `[createLoginAttemptStore] Unknown LOGIN_RATE_LIMIT_STORE "${configured}", falling back to database.`
+      );
+      return new DatabaseLoginAttemptStore();
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryLoginAttemptStore } from "./login-attempt-store";
+
+type LoginRateLimit = typeof import("./login-rate-limit");
+
+const IP = "203.0.113.7";
+const MINUTE_MS = 60_000;
+
+let limiter: LoginRateLimit;
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-03-02T08:00:00.000Z"));
+  vi.stubEnv("LOGIN_RATE_LIMIT_STORE", "memory");
+  vi.stubEnv("LOGIN_MAX_ACCOUNT_FAILURES", "5");
+  vi.stubEnv("LOGIN_MAX_IP_FAILURES", "8");
+  vi.stubEnv("LOGIN_FAILURE_WINDOW_MINUTES", "15");
+  vi.stubEnv("LOGIN_LOCKOUT_MINUTES", "15");
+
+  // Fresh module, so every test starts with an empty memory store
+  vi.resetModules();
+  limiter = await import("./login-rate-limit");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+async function failTimes(email: string, times: number, ipAddress: string | null = IP) {
+  let lockout = null;
+  for (let i = 0; i < times; i++) {
+    lockout = await limiter.recordLoginFailure(email, ipAddress);
+  }
+  return lockout;
+}
+
+describe("MemoryLoginAttemptStore", () => {
+  it("drops records once they expire", async () => {
+    const store = new MemoryLoginAttemptStore();
+    const record = { failures: 1, firstFailureAt: Date.now(), blockedUntil: null, locked: false };
+
+    await store.save("account:a@example.com", record, Date.now() + MINUTE_MS);
+    expect(await store.get("account:a@example.com")).toEqual(record);
+
+    vi.advanceTimersByTime(MINUTE_MS);
+    expect(await store.get("account:a@example.com")).toBeNull();
+  });
+});
+
+describe("login rate limiting", () => {
+  it("delays retries after the free attempts and then locks the account", async () => {
+    await failTimes("a@example.com", 2);
+    expect(await limiter.checkLoginAllowed("a@example.com", IP)).toBeNull();
+
+    await failTimes("a@example.com", 1);
+    expect(await limiter.checkLoginAllowed("a@example.com", IP)).toEqual({
+      scope: "account",
+      locked: false,
+      retryAfterSeconds: 1,
+    });
+
+    const lockout = await failTimes("a@example.com", 2);
+    expect(lockout).toEqual({ scope: "account", locked: true, retryAfterSeconds: 15 * 60 });
+    expect(await limiter.checkLoginAllowed("a@example.com", "198.51.100.1")).toMatchObject({
+      scope: "account",
+      locked: true,
+    });
+
+    vi.advanceTimersByTime(15 * MINUTE_MS);
+    expect(await limiter.checkLoginAllowed("a@example.com", IP)).toBeNull();
+  });
+
+  it("starts counting again once the window has passed", async () => {
+    await failTimes("a@example.com", 4);
+
+    vi.advanceTimersByTime(15 * MINUTE_MS);
+    const lockout = await failTimes("a@example.com", 1);
+
+    expect(lockout).toBeNull();
+    expect(await limiter.checkLoginAllowed("a@example.com", IP)).toBeNull();
+  });
+
+  it("locks an IP address that fails across many accounts", async () => {
+    for (let i = 0; i < 7; i++) {
+      await failTimes(`user${i}@example.com`, 1);
+    }
+    expect(await limiter.checkLoginAllowed("new@example.com", IP)).toBeNull();
+
+    const lockout = await failTimes("user7@example.com", 1);
+
+    expect(lockout).toEqual({ scope: "ip", locked: true, retryAfterSeconds: 15 * 60 });
+    expect(await limiter.checkLoginAllowed("new@example.com", IP)).toMatchObject({ scope: "ip", locked: true });
+  });
+
+  it("clears only the account's count on a successful sign-in", async () => {
+    await failTimes("me@example.com", 3);
+    for (let i = 0; i < 4; i++) {
+      await failTimes(`victim${i}@example.com`, 1);
+    }
+
+    await limiter.clearLoginFailures("me@example.com");
+
+    expect(await limiter.checkLoginAllowed("me@example.com", null)).toBeNull();
+
+    // 7 failures from the IP so far; signing in didn't reset them
+    const lockout = await failTimes("victim4@example.com", 1);
+    expect(lockout).toEqual({ scope: "ip", locked: true, retryAfterSeconds: 15 * 60 });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Sign-in rate limiting.
+ *
+ * Failed sign-ins are counted per account (normalized email) and per client
+ * IP address within a window (see `getLoginRateLimitPolicy`):
+ * - Per account, after LOGIN_FREE_ATTEMPTS failures each retry must wait a
+ *   doubling delay (up to LOGIN_MAX_DELAY_SECONDS), and reaching the limit
+ *   locks the account for the lockout period.
+ * - Per IP address there is no delay, only a lockout at a much higher limit,
+ *   so one bad password doesn't slow down a whole school behind one address.
+ *
+ * Accounts are keyed by the email that was typed whether or not it exists,
+ * so responses don't reveal which emails have accounts.
+ *
+ * @remarks
+ * Counting is read-then-write, so concurrent attempts can undercount by a
+ * few; limits are coarse anyway. If the store fails, sign-in is allowed and
+ * the error logged, so a store outage doesn't lock everybody out.
+ */
+
+import { getLoginRateLimitPolicy, LOGIN_FREE_ATTEMPTS, LOGIN_MAX_DELAY_SECONDS } from "@/config/auth";
+import { createLoginAttemptStore, type ILoginAttemptStore, type LoginAttemptRecord } from "@/core/auth/login-attempt-store";
+
+export type LoginLimitScope = "account" | "ip";
+
+/**
+ * Why sign-in is currently refused.
+ */
+export interface LoginBlock {
+  scope: LoginLimitScope;
+  /** Lockout, as opposed to a short retry delay */
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+let store: ILoginAttemptStore | null = null;
+
+function getStore(): ILoginAttemptStore {
+  store ??= createLoginAttemptStore();
+  return store;
+}
+
+function limitKeys(email: string, ipAddress: string | null): { scope: LoginLimitScope; key: string }[] {
+  const keys: { scope: LoginLimitScope; key: string }[] = [{ scope: "account", key: `account:${email}` }];
+  if (ipAddress) {
+    keys.push({ scope: "ip", key: `ip:${ipAddress}` });
+  }
+  return keys;
+}
+
+function retryDelaySeconds(scope: LoginLimitScope, failures: number): number {
+  if (scope !== "account" || failures <= LOGIN_FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(LOGIN_MAX_DELAY_SECONDS, 2 ** (failures - LOGIN_FREE_ATTEMPTS - 1));
+}
+
+function toBlock(scope: LoginLimitScope, record: LoginAttemptRecord | null, now: number): LoginBlock | null {
+  if (!record?.blockedUntil || record.blockedUntil <= now) {
+    return null;
+  }
+  return {
+    scope,
+    locked: record.locked,
+    retryAfterSeconds: Math.ceil((record.blockedUntil - now) / 1000),
+  };
+}
+
+/**
+ * Whether a sign-in for `email` from `ipAddress` must be refused right now.
+ *
+ * @returns The block in effect, or null if the attempt may proceed
+ */
+export async function checkLoginAllowed(email: string, ipAddress: string | null): Promise<LoginBlock | null> {
+  const now = Date.now();
+  try {
+    for (const { scope, key } of limitKeys(email, ipAddress)) {
+      const block = toBlock(scope, await getStore().get(key), now);
+      if (block) {
+        return block;
+      }
+    }
+    return null;
+  } catch (error) {
+    console.error("[checkLoginAllowed] Rate limit store failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Count a failed sign-in against the account and the IP address.
+ *
+ * @returns A lockout this failure started, or null
+ */
+export async function recordLoginFailure(email: string, ipAddress: string | null): Promise<LoginBlock | null> {
+  const policy = getLoginRateLimitPolicy();
+  const now = Date.now();
+  let lockout: LoginBlock | null = null;
+
+  try {
+    for (const { scope, key } of limitKeys(email, ipAddress)) {
+      const previous = await getStore().get(key);
+      const isFreshWindow =
+        !previous ||
+        now - previous.firstFailureAt >= policy.failureWindowSeconds * 1000 ||
+        (previous.locked && (previous.blockedUntil ?? 0) <= now);
+
+      const record: LoginAttemptRecord = isFreshWindow
+        ? { failures: 1, firstFailureAt: now, blockedUntil: null, locked: false }
+        : { ...previous, failures: previous.failures + 1 };
+
+      const maxFailures = scope === "account" ? policy.maxAccountFailures : policy.maxIpFailures;
+      if (record.failures >= maxFailures) {
+        record.locked = true;
+        record.blockedUntil = now + policy.lockoutSeconds * 1000;
+        lockout ??= toBlock(scope, record, now);
+      } else {
+        const delaySeconds = retryDelaySeconds(scope, record.failures);
+        record.blockedUntil = delaySeconds > 0 ? now + delaySeconds * 1000 : null;
+      }
+
+      const expiresAt = Math.max(record.firstFailureAt + policy.failureWindowSeconds * 1000, record.blockedUntil ?? 0);
+      await getStore().save(key, record, expiresAt);
+    }
+  } catch (error) {
+    console.error("[recordLoginFailure] Rate limit store failed:", error);
+  }
+
+  return lockout;
+}
+
+/**
+ * Forget the account's failed sign-ins after a successful one.
+ *
+ * @remarks
+ * The IP address's count is left to expire with its window: if a success
+ * cleared it, an attacker could sign into their own account between guesses
+ * at other accounts and never reach the IP lockout.
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  try {
+    await getStore().delete(limitKeys(email, null)[0].key);
+  } catch (error) {
+    console.error("[clearLoginFailures] Rate limit store failed:", error);
+  }
+}
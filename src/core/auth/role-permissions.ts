@@ -0,0 +1,81 @@
+import type { UserRole } from "@/core/auth/types";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { ALL_USER_ROLES } from "@/config/roles";
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  hasPermission,
+  isPermission,
+  permissionsForRoles,
+  type Permission,
+  type RolePermissionMap,
+} from "@/config/permissions";
+
+/**
+ * How long a loaded mapping is reused. Edits made through the API clear the
+ * cache of the process that handled them; other processes (and middleware)
+ * pick them up within this window.
+ */
+const CACHE_TTL_MS = 30 * 1000;
+
+let cached: { mapping: RolePermissionMap; loadedAt: number } | null = null;
+
+interface RolePermissionRow {
+  role: string;
+  permission: string;
+}
+
+/**
+ * The role → permissions mapping from `role_permissions`.
+ *
+ * Falls back to DEFAULT_ROLE_PERMISSIONS when the table can't be read (e.g.
+ * not yet migrated), so authorization keeps its previous behavior.
+ */
+export async function loadRolePermissions(): Promise<RolePermissionMap> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.mapping;
+  }
+
+  const { data, error } = await getAdminSupabaseClient()
+    .from("role_permissions")
+    .select("role, permission");
+
+  if (error) {
+    console.error("[loadRolePermissions] Database error:", error);
+    return DEFAULT_ROLE_PERMISSIONS;
+  }
+
+  const rows = (data ?? []) as RolePermissionRow[];
+  const mapping = Object.fromEntries(ALL_USER_ROLES.map((role) => [role, [] as Permission[]])) as Record<
+    UserRole,
+    Permission[]
+  >;
+  for (const row of rows) {
+    if (row.role in mapping && isPermission(row.permission)) {
+      mapping[row.role as UserRole].push(row.permission);
+    }
+  }
+
+  cached = { mapping, loadedAt: Date.now() };
+  return mapping;
+}
+
+/** Drop the cached mapping after it has been edited */
+export function clearRolePermissionsCache(): void {
+  cached = null;
+}
+
+/**
+ * Every permission held by a user with the given roles.
+ */
+export async function resolvePermissions(roles: readonly UserRole[]): Promise<Permission[]> {
+  return permissionsForRoles(roles, await loadRolePermissions());
+}
+
+/**
+ * Every role holding `permission`, SUPER_ADMIN included. For finding the
+ * users to notify, e.g. who can approve a submitted event.
+ */
+export async function rolesWithPermission(permission: Permission): Promise<UserRole[]> {
+  const mapping = await loadRolePermissions();
+  return ALL_USER_ROLES.filter((role) => hasPermission(permissionsForRoles([role], mapping), permission));
+}
@@ -1,36 +1,47 @@
 import type { UserRole } from "@/core/auth/types";
 import { ALL_USER_ROLES, hasSupportedRole } from "@/config/roles";
+import { hasPermission, type Permission } from "@/config/permissions";
 
-interface RouteAccessRule {
-  pathPrefix: string;
-  allowedRoles: UserRole[];
-}
+/**
+ * Pages are gated by permission; portals that belong to a kind of account
+ * (students, parents, teachers) stay gated by role.
+ */
+type RouteAccessRule =
+  | { pathPrefix: string; permission: Permission | Permission[] }
+  | { pathPrefix: string; allowedRoles: UserRole[] };
 
 const ROUTE_ACCESS_RULES: RouteAccessRule[] = [
-  { pathPrefix: "/sis", allowedRoles: ["SUPER_ADMIN", "ADMIN", "TEACHER"] },
-  { pathPrefix: "/facilities", allowedRoles: ["SUPER_ADMIN", "ADMIN", "TEACHER", "STAFF"] },
+  { pathPrefix: "/sis", permission: "students.manage" },
+  { pathPrefix: "/facilities", permission: "facilities.view" },
+  { pathPrefix: "/calendar", permission: "academics.manage" },
+  { pathPrefix: "/users/security", permission: "security.view" },
+  { pathPrefix: "/users", permission: ["users.manage", "permissions.manage"] },
   { pathPrefix: "/profile", allowedRoles: [...ALL_USER_ROLES] },
   // Scanner-focused SEMS route
-  { pathPrefix: "/sems/scan", allowedRoles: ["SCANNER", "SUPER_ADMIN", "ADMIN"] },
+  { pathPrefix: "/sems/scan", permission: "attendance.scan" },
   // Student-facing SEMS route: students can view their own events
   { pathPrefix: "/sems/student-events", allowedRoles: ["STUDENT"] },
   // Parent-facing SEMS route: parents can view child events
   { pathPrefix: "/sems/parent-events", allowedRoles: ["PARENT"] },
-  // Main SEMS management route: admins, teachers, and staff
-  { pathPrefix: "/sems", allowedRoles: ["SUPER_ADMIN", "ADMIN", "TEACHER", "STAFF"] },
+  // Main SEMS management route
+  { pathPrefix: "/sems", permission: "events.view" },
   { pathPrefix: "/dashboard/teacher", allowedRoles: ["SUPER_ADMIN", "ADMIN", "TEACHER"] },
-  { pathPrefix: "/dashboard", allowedRoles: ["SUPER_ADMIN", "ADMIN", "TEACHER", "STAFF"] },
-  { pathPrefix: "/scanner", allowedRoles: ["SCANNER", "ADMIN", "SUPER_ADMIN"] },
-  { pathPrefix: "/parent", allowedRoles: ["SUPER_ADMIN", "ADMIN"] },
+  { pathPrefix: "/dashboard", permission: "reports.view" },
+  { pathPrefix: "/scanner", permission: "attendance.scan" },
+  { pathPrefix: "/parent", permission: "guardians.manage" },
 ];
 
-export function canAccessRoute(pathname: string, roles: UserRole[]): boolean {
+export function canAccessRoute(pathname: string, roles: UserRole[], permissions: readonly Permission[]): boolean {
   const rule = ROUTE_ACCESS_RULES.find((r) => pathname.startsWith(r.pathPrefix));
 
   if (!rule) {
     return hasSupportedRole(roles);
   }
 
+  if ("permission" in rule) {
+    return hasPermission(permissions, rule.permission);
+  }
+
   return roles.some((role) => rule.allowedRoles.includes(role));
 }
 
@@ -0,0 +1,166 @@
+/**
+ * Security Log
+ *
+ * Records sign-ins, failed and refused sign-ins, lockouts, password resets
+ * and role changes in `security_events` (migration Phase_1.29), and searches
+ * them for the admin screen at /users/security.
+ *
+ * @remarks
+ * Recording never throws: a failed insert is logged and the action that
+ * triggered it carries on.
+ */
+
+import type { NextRequest } from "next/server";
+import type { SecurityEventDto, SecurityEventType } from "@/core/auth/types";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
+import { getClientIp } from "@/core/auth/user-sessions";
+
+const EVENT_COLUMNS = "id, event_type, user_id, email, actor_id, ip_address, user_agent, details, created_at";
+
+export interface SecurityEventInput {
+  type: SecurityEventType;
+  /** Account the event is about, when known */
+  userId?: string | null;
+  email?: string | null;
+  /** School of that account; decides which admins see the event */
+  schoolId?: string | null;
+  /** Admin who performed the action */
+  actorId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface SecurityEventSearch {
+  schoolId: SchoolScope;
+  type?: SecurityEventType;
+  /** Part of the account's email */
+  email?: string;
+  ipAddress?: string;
+  /** ISO timestamps, inclusive */
+  from?: string;
+  to?: string;
+  page: number;
+  pageSize: number;
+}
+
+interface SecurityEventRow {
+  id: string;
+  event_type: SecurityEventType;
+  user_id: string | null;
+  email: string | null;
+  actor_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+/**
+ * Add an event to the security log, with the client's address and user
+ * agent when the request is given.
+ */
+export async function recordSecurityEvent(event: SecurityEventInput, request?: NextRequest): Promise<void> {
+  try {
+    const { error } = await getAdminSupabaseClient()
+      .from("security_events")
+      .insert({
+        event_type: event.type,
+        user_id: event.userId ?? null,
+        email: event.email ?? null,
+        school_id: event.schoolId ?? null,
+        actor_id: event.actorId ?? null,
+        ip_address: request ? getClientIp(request) : null,
+        user_agent: request?.headers.get("user-agent")?.slice(0, 512) ?? null,
+        details: event.details ?? {},
+      });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error("[recordSecurityEvent] Database error:", { type: event.type, error });
+  }
+}
+
+/**
+ * Events matching `search`, newest first.
+ */
+export async function searchSecurityEvents(
+  search: SecurityEventSearch
+): Promise<{ events: SecurityEventDto[]; total: number }> {
+  const supabase = getAdminSupabaseClient();
+  const offset = (search.page - 1) * search.pageSize;
+
+  let query = supabase
+    .from("security_events")
+    .select(EVENT_COLUMNS, { count: "exact" })
+    .match(schoolFilter(search.schoolId))
+    .order("created_at", { ascending: false })
+    .range(offset, offset + search.pageSize - 1);
+
+  if (search.type) {
+    query = query.eq("event_type", search.type);
+  }
+  if (search.email) {
+    query = query.ilike("email", `%${search.email.replace(/[\\%_]/g, (char) => `\\${char}`)}%`);
+  }
+  if (search.ipAddress) {
+    query = query.eq("ip_address", search.ipAddress);
+  }
+  if (search.from) {
+    query = query.gte("created_at", search.from);
+  }
+  if (search.to) {
+    query = query.lte("created_at", search.to);
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    console.error("[searchSecurityEvents] Database error:", error);
+    throw new Error("Failed to load security events");
+  }
+
+  const rows = (data ?? []) as SecurityEventRow[];
+  const actorNames = await loadActorNames(rows);
+
+  return {
+    events: rows.map((row) => ({
+      id: row.id,
+      type: row.event_type,
+      userId: row.user_id,
+      email: row.email,
+      actorId: row.actor_id,
+      actorName: row.actor_id ? actorNames.get(row.actor_id) ?? null : null,
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent,
+      details: row.details ?? {},
+      createdAt: row.created_at,
+    })),
+    total: count ?? 0,
+  };
+}
+
+async function loadActorNames(rows: SecurityEventRow[]): Promise<Map<string, string>> {
+  const actorIds = Array.from(new Set(rows.map((row) => row.actor_id).filter((id): id is string => Boolean(id))));
+  if (actorIds.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await getAdminSupabaseClient()
+    .from("app_users")
+    .select("id, full_name, email")
+    .in("id", actorIds);
+
+  if (error) {
+    console.error("[loadActorNames] Database error:", error);
+    return new Map();
+  }
+
+  return new Map(
+    ((data ?? []) as { id: string; full_name: string | null; email: string }[]).map((actor) => [
+      actor.id,
+      actor.full_name ?? actor.email,
+    ])
+  );
+}
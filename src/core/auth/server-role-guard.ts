@@ -3,6 +3,17 @@ import type { User } from "@supabase/supabase-js";
 import type { UserRole } from "@/core/auth/types";
 import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
 import { ALL_USER_ROLES } from "@/config/roles";
+import { hasPermission, type Permission } from "@/config/permissions";
+import { resolvePermissions } from "@/core/auth/role-permissions";
+import { resolveRequestSession, type UserSessionRow } from "@/core/auth/user-sessions";
+
+/**
+ * Cookie holding the school a SUPER_ADMIN is working in. Unset means all
+ * schools. Every other role is pinned to `app_users.school_id`.
+ */
+export const ACTIVE_SCHOOL_COOKIE = "school-id";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export interface RoleGuardUser {
   id: string;
@@ -11,19 +22,22 @@ export interface RoleGuardUser {
   roles: UserRole[];
   primaryRole: UserRole;
   isActive: boolean;
+  /** School the request is scoped to; null only for a SUPER_ADMIN viewing all schools */
+  schoolId: string | null;
+  /** The account's own school, regardless of any active school */
+  homeSchoolId: string | null;
+  /** Everything the user's roles allow, from the editable role mapping */
+  permissions: Permission[];
 }
 
+/**
+ * The Supabase access token from the auth cookie. User requests are not
+ * accepted with `Authorization: Bearer`: a bare token isn't tied to a
+ * server-side session, so it would outlive sign-out and force-logout.
+ * Scheduled jobs authenticate with CRON_SECRET instead.
+ */
 export function getAccessTokenFromRequest(request: NextRequest): string | null {
-  const authHeader =
-    request.headers.get("authorization") ?? request.headers.get("Authorization");
-
-  if (authHeader?.startsWith("Bearer ")) {
-    const token = authHeader.slice("Bearer ".length).trim();
-    if (token) return token;
-  }
-
-  const cookieToken = request.cookies.get("auth-token")?.value;
-  return cookieToken ?? null;
+  return request.cookies.get("auth-token")?.value ?? null;
 }
 
 function normalizeRoles(roles: string[] | null | undefined): UserRole[] {
@@ -38,9 +52,21 @@ function normalizeRoles(roles: string[] | null | undefined): UserRole[] {
   return unique.filter((role): role is UserRole => ALL_USER_ROLES.includes(role as UserRole));
 }
 
+interface AppUserGuardRow {
+  id: string;
+  email: string;
+  full_name: string | null;
+  roles: string[] | null;
+  primary_role: string | null;
+  is_active: boolean | null;
+  school_id: string | null;
+}
+
 interface GuardResult {
   appUser: RoleGuardUser;
   supabaseUser: User;
+  /** Server-side session behind the auth cookies */
+  session: UserSessionRow;
 }
 
 function buildErrorResponse(status: number, code: string, message: string, details?: unknown) {
@@ -89,11 +115,19 @@ export async function requireRoles(
 
   const userId = userResult.user.id;
 
+  // The server-side session must not have been signed out or timed out
+  const resolved = await resolveRequestSession(request);
+  if (!resolved || resolved.claims.userId !== userId) {
+    return {
+      error: buildErrorResponse(401, "SESSION_EXPIRED", "Your session has ended. Please log in again."),
+    };
+  }
+
   const { data: appUser, error: appUserError } = await supabase
     .from("app_users")
-    .select("id, email, full_name, roles, primary_role, is_active")
+    .select("id, email, full_name, roles, primary_role, is_active, school_id")
     .eq("id", userId)
-    .single<{ id: string; email: string; full_name: string | null; roles: string[] | null; primary_role: string | null; is_active: boolean | null }>();
+    .single<AppUserGuardRow>();
 
   if (appUserError || !appUser) {
     return {
@@ -133,6 +167,16 @@ export async function requireRoles(
   const normalizedPrimary = primaryRole ?? roles[0] ?? "SUPER_ADMIN";
   const isActive = appUser.is_active ?? true;
 
+  let schoolId = appUser.school_id;
+  if (roles.includes("SUPER_ADMIN")) {
+    const activeSchoolId = request.cookies.get(ACTIVE_SCHOOL_COOKIE)?.value;
+    schoolId = activeSchoolId && UUID_PATTERN.test(activeSchoolId) ? activeSchoolId : null;
+  } else if (!schoolId) {
+    return {
+      error: buildErrorResponse(403, "SCHOOL_NOT_ASSIGNED", "Your account is not assigned to a school."),
+    };
+  }
+
   return {
     appUser: {
       id: appUser.id,
@@ -141,7 +185,75 @@ export async function requireRoles(
       roles,
       primaryRole: normalizedPrimary,
       isActive,
+      schoolId,
+      homeSchoolId: appUser.school_id,
+      permissions: await resolvePermissions(roles),
     },
     supabaseUser: userResult.user,
+    session: resolved.session,
   };
 }
+
+/**
+ * The school new records are created in. A SUPER_ADMIN viewing all schools
+ * has to pick one first.
+ */
+export function requireSchool(appUser: RoleGuardUser): { schoolId: string } | { error: NextResponse } {
+  if (!appUser.schoolId) {
+    return {
+      error: buildErrorResponse(400, "SCHOOL_REQUIRED", "Select a school before making changes."),
+    };
+  }
+  return { schoolId: appUser.schoolId };
+}
+
+/**
+ * Refuse a role change that adds or removes SUPER_ADMIN unless the actor is
+ * one. SUPER_ADMIN isn't pinned to a school, so granting it would let a
+ * school's admin reach every school.
+ *
+ * @param actorRoles - Roles of the user making the change
+ * @param currentRoles - The account's roles before the change (empty for a new account)
+ * @param nextRoles - The account's roles after the change
+ */
+export function requireRoleAssignment(
+  actorRoles: UserRole[],
+  currentRoles: UserRole[],
+  nextRoles: UserRole[]
+): { error: NextResponse } | null {
+  const superAdminChanged = currentRoles.includes("SUPER_ADMIN") !== nextRoles.includes("SUPER_ADMIN");
+  if (superAdminChanged && !actorRoles.includes("SUPER_ADMIN")) {
+    return {
+      error: buildErrorResponse(403, "FORBIDDEN", "Only a super admin can grant or remove the super admin role."),
+    };
+  }
+  return null;
+}
+
+/**
+ * Authenticate the request and require a permission. With several
+ * permissions, holding any one of them is enough.
+ *
+ * @remarks
+ * Preferred over `requireRoles` for capability checks: which roles hold a
+ * permission is editable by admins, role lists in routes are not.
+ */
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission | Permission[]
+): Promise<GuardResult | { error: NextResponse }> {
+  const authResult = await requireRoles(request, []);
+  if ("error" in authResult) {
+    return authResult;
+  }
+
+  if (!hasPermission(authResult.appUser.permissions, permission)) {
+    return {
+      error: buildErrorResponse(403, "FORBIDDEN", "You are not allowed to perform this action.", {
+        requiredPermission: permission,
+      }),
+    };
+  }
+
+  return authResult;
+}
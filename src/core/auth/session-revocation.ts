@@ -0,0 +1,69 @@
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import type { SessionClaims } from "@/core/auth/session-token";
+
+/**
+ * How long a user's revocation state is reused. Middleware runs on every page
+ * request, so a deactivation or role change takes effect within this window.
+ */
+const CACHE_TTL_MS = 15 * 1000;
+
+/** Bound on cached users; the cache is simply dropped when it fills */
+const CACHE_MAX_ENTRIES = 1000;
+
+interface SessionStateRow {
+  is_active: boolean | null;
+  sessions_revoked_at: string | null;
+}
+
+const cache = new Map<string, { row: SessionStateRow | null; loadedAt: number }>();
+
+async function loadSessionState(userId: string): Promise<SessionStateRow | null> {
+  const cached = cache.get(userId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.row;
+  }
+
+  const { data, error } = await getAdminSupabaseClient()
+    .from("app_users")
+    .select("is_active, sessions_revoked_at")
+    .eq("id", userId)
+    .maybeSingle<SessionStateRow>();
+
+  if (error) {
+    console.error("[loadSessionState] Database error:", error);
+    throw new Error("Failed to load session state");
+  }
+
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    cache.clear();
+  }
+  cache.set(userId, { row: data, loadedAt: Date.now() });
+  return data;
+}
+
+/**
+ * Whether a verified session token is no longer valid: the account is gone
+ * or inactive, or its sessions were revoked after the token was issued.
+ */
+export async function isSessionRevoked(claims: SessionClaims): Promise<boolean> {
+  const row = await loadSessionState(claims.userId);
+  if (!row || !row.is_active) {
+    return true;
+  }
+
+  if (!row.sessions_revoked_at) {
+    return false;
+  }
+
+  // A token reissued by the request that revoked the sessions carries the
+  // same or a later millisecond, so it stays valid
+  return claims.issuedAt < new Date(row.sessions_revoked_at).getTime();
+}
+
+/**
+ * Column update that revokes every session issued to the user so far. Merge
+ * it into the `app_users` update that deactivates the user or changes roles.
+ */
+export function revokeSessionsUpdate(): { sessions_revoked_at: string } {
+  return { sessions_revoked_at: new Date().toISOString() };
+}
@@ -0,0 +1,165 @@
+/**
+ * Signed Session Token
+ *
+ * Carries the user's id, roles and session id from `/api/auth/login` to
+ * middleware, which verifies it at the edge instead of trusting a
+ * client-writable roles cookie.
+ *
+ * @remarks
+ * Token layout: `SES1.<payload>.<signature>`
+ * - payload: base64url JSON of {@link SessionClaims}
+ * - signature: HMAC-SHA256 (base64url) over everything before the last dot,
+ *   keyed with `SESSION_TOKEN_SECRET`
+ *
+ * A valid signature only proves the server issued the token. Whether it was
+ * revoked since is checked separately: deactivation and role changes against
+ * `app_users.sessions_revoked_at` (session-revocation.ts), sign-outs and
+ * timeouts against `user_sessions` (user-sessions.ts).
+ *
+ * Only Web Crypto is used, so this module runs in middleware and in Node.
+ */
+
+import type { NextResponse } from "next/server";
+import type { UserRole } from "@/core/auth/types";
+
+/** Cookie holding the token */
+export const SESSION_TOKEN_COOKIE = "session-token";
+
+const TOKEN_PREFIX = "SES1";
+
+const KEY_PARAMS = { name: "HMAC", hash: "SHA-256" } as const;
+
+/**
+ * Claims carried by a session token.
+ */
+export interface SessionClaims {
+  userId: string;
+  roles: UserRole[];
+  /** `user_sessions` row the token belongs to */
+  sessionId: string;
+  /** Unix milliseconds, so a revocation in the same second still tells tokens apart */
+  issuedAt: number;
+  /** Unix seconds; the session's absolute timeout */
+  expiresAt: number;
+}
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (signingKey) return signingKey;
+
+  const secret = process.env.SESSION_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("Session tokens are not configured. Missing SESSION_TOKEN_SECRET.");
+  }
+
+  signingKey = crypto.subtle.importKey("raw", new TextEncoder().encode(secret), KEY_PARAMS, false, [
+    "sign",
+    "verify",
+  ]);
+  return signingKey;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Issue a token for a user's session.
+ *
+ * @param expiresAt - The session's absolute timeout
+ */
+export async function signSessionToken(
+  userId: string,
+  roles: UserRole[],
+  sessionId: string,
+  expiresAt: Date
+): Promise<string> {
+  const claims: SessionClaims = {
+    userId,
+    roles,
+    sessionId,
+    issuedAt: Date.now(),
+    expiresAt: Math.floor(expiresAt.getTime() / 1000),
+  };
+
+  const signedPart = `${TOKEN_PREFIX}.${toBase64Url(new TextEncoder().encode(JSON.stringify(claims)))}`;
+  const signature = await crypto.subtle.sign(KEY_PARAMS, await getSigningKey(), new TextEncoder().encode(signedPart));
+
+  return `${signedPart}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a token's signature and expiry.
+ *
+ * @returns The claims, or null if the token is malformed, forged or expired
+ */
+export async function verifySessionToken(token: string): Promise<SessionClaims | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX) {
+    return null;
+  }
+
+  const [, payload, signature] = parts;
+  let claims: SessionClaims;
+  try {
+    const isValid = await crypto.subtle.verify(
+      KEY_PARAMS,
+      await getSigningKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(`${TOKEN_PREFIX}.${payload}`)
+    );
+    if (!isValid) {
+      return null;
+    }
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims;
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof claims.userId !== "string" ||
+    !Array.isArray(claims.roles) ||
+    typeof claims.sessionId !== "string" ||
+    typeof claims.issuedAt !== "number" ||
+    typeof claims.expiresAt !== "number" ||
+    claims.expiresAt * 1000 <= Date.now()
+  ) {
+    return null;
+  }
+
+  return claims;
+}
+
+/**
+ * Issue a token and store it in the session cookie on `response`.
+ */
+export async function setSessionTokenCookie(
+  response: NextResponse,
+  userId: string,
+  roles: UserRole[],
+  session: { id: string; expires_at: string }
+): Promise<void> {
+  const expiresAt = new Date(session.expires_at);
+  response.cookies.set(SESSION_TOKEN_COOKIE, await signSessionToken(userId, roles, session.id, expiresAt), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
+  });
+}
@@ -1,3 +1,5 @@
+import type { Permission } from "@/config/permissions";
+
 export type UserRole =
   | "SUPER_ADMIN"
   | "ADMIN"
@@ -13,6 +15,59 @@ export interface AuthUser {
   fullName: string;
   roles: UserRole[];
   primaryRole: UserRole;
+  /** Everything the user's roles allow; see src/config/permissions.ts */
+  permissions: Permission[];
   schoolId: string | null;
   isActive: boolean;
 }
+
+/** When the current server-side session will end, from /api/auth/session */
+export interface SessionTiming {
+  sessionId: string;
+  /** Absolute timeout */
+  expiresAt: string;
+  /** When the session ends if there is no more activity */
+  idleExpiresAt: string;
+  idleTimeoutSeconds: number;
+  /** Seconds until whichever comes first */
+  remainingSeconds: number;
+}
+
+/** A signed-in device, as listed on /profile */
+export interface UserSessionDto {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  /** The session making the request */
+  isCurrent: boolean;
+}
+
+export const SECURITY_EVENT_TYPES = [
+  "LOGIN_SUCCEEDED",
+  "LOGIN_FAILED",
+  "LOGIN_BLOCKED",
+  "ACCOUNT_LOCKED",
+  "PASSWORD_RESET",
+  "ROLES_CHANGED",
+] as const;
+
+export type SecurityEventType = (typeof SECURITY_EVENT_TYPES)[number];
+
+/** An entry of the security log, as listed on /users/security */
+export interface SecurityEventDto {
+  id: string;
+  type: SecurityEventType;
+  /** Account the event is about, when known */
+  userId: string | null;
+  email: string | null;
+  /** Admin who performed the action, for password resets and role changes */
+  actorId: string | null;
+  actorName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
@@ -1,16 +1,22 @@
 "use client";
 
 import useSWR from "swr";
-import type { AuthUser } from "@/core/auth/types";
+import type { AuthUser, SessionTiming } from "@/core/auth/types";
 
 const SESSION_ENDPOINT = "/api/auth/session";
 
 interface SessionResponse {
   success: boolean;
-  data?: { user: AuthUser };
+  data?: { user: AuthUser; session?: SessionTiming };
 }
 
-async function sessionFetcher(url: string): Promise<AuthUser | null> {
+interface SessionState {
+  user: AuthUser;
+  /** When the server-side session ends */
+  session: SessionTiming | null;
+}
+
+async function sessionFetcher(url: string): Promise<SessionState | null> {
   const res = await fetch(url, { method: "GET" });
 
   if (res.status === 401 || res.status === 403) {
@@ -27,7 +33,7 @@ async function sessionFetcher(url: string): Promise<AuthUser | null> {
     return null;
   }
 
-  return body.data.user;
+  return { user: body.data.user, session: body.data.session ?? null };
 }
 
 export interface UseSessionOptions {
@@ -48,7 +54,7 @@ const DEFAULT_OPTIONS: Required<UseSessionOptions> = {
 export function useSession(options: UseSessionOptions = {}) {
   const config = { ...DEFAULT_OPTIONS, ...options };
 
-  const { data, error, isLoading, isValidating, mutate } = useSWR<AuthUser | null>(
+  const { data, error, isLoading, isValidating, mutate } = useSWR<SessionState | null>(
     SESSION_ENDPOINT,
     sessionFetcher,
     {
@@ -64,7 +70,8 @@ export function useSession(options: UseSessionOptions = {}) {
   );
 
   return {
-    user: data ?? null,
+    user: data?.user ?? null,
+    session: data?.session ?? null,
     isLoading,
     isValidating,
     isAuthenticated: !!data,
@@ -0,0 +1,378 @@
+/**
+ * Server-side sessions.
+ *
+ * Every sign-in creates a `user_sessions` row whose id travels in the signed
+ * session token. A session ends when it is idle for longer than the idle
+ * timeout, when its absolute lifetime runs out, or when it is revoked (sign
+ * out, remote sign-out from /profile, admin force-logout). Middleware and the
+ * API guards reject requests whose session has ended; user requests are only
+ * accepted with the auth cookies, never with a bare `Authorization: Bearer`.
+ *
+ * @remarks
+ * Ending a session also deletes the Supabase Auth session it was created
+ * with, so the Supabase refresh token stops working too. Timed-out sessions
+ * are ended the next time they are seen.
+ */
+
+import type { NextRequest } from "next/server";
+import type { SessionTiming, UserSessionDto } from "@/core/auth/types";
+import { getAdminSupabaseClient } from "@/core/db/supabase-client.admin";
+import { getSessionPolicy } from "@/config/auth";
+import { isSessionRevoked } from "@/core/auth/session-revocation";
+import { SESSION_TOKEN_COOKIE, verifySessionToken, type SessionClaims } from "@/core/auth/session-token";
+
+/**
+ * How long a loaded session is reused by middleware and API guards. A remote
+ * sign-out from another server process takes effect within this window.
+ */
+const CACHE_TTL_MS = 15 * 1000;
+
+/** Bound on cached sessions; the cache is simply dropped when it fills */
+const CACHE_MAX_ENTRIES = 1000;
+
+const SESSION_COLUMNS =
+  "id, user_id, auth_session_id, user_agent, ip_address, created_at, last_seen_at, expires_at, revoked_at";
+
+/** Why a session was ended */
+export type SessionEndReason = "SIGNED_OUT" | "SIGNED_OUT_REMOTELY" | "FORCE_LOGOUT" | "TIMED_OUT";
+
+export interface UserSessionRow {
+  id: string;
+  user_id: string;
+  /** Supabase Auth session behind the tokens issued at sign-in */
+  auth_session_id: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+const cache = new Map<string, { row: UserSessionRow | null; loadedAt: number }>();
+
+function cacheSession(sessionId: string, row: UserSessionRow | null): void {
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    cache.clear();
+  }
+  cache.set(sessionId, { row, loadedAt: Date.now() });
+}
+
+function getEndTime(row: UserSessionRow): { expiresAt: number; idleExpiresAt: number } {
+  return {
+    expiresAt: new Date(row.expires_at).getTime(),
+    idleExpiresAt: new Date(row.last_seen_at).getTime() + getSessionPolicy().idleTimeoutSeconds * 1000,
+  };
+}
+
+/**
+ * Whether a session has neither been revoked nor timed out.
+ */
+export function isUserSessionActive(row: UserSessionRow, now: number = Date.now()): boolean {
+  if (row.revoked_at) {
+    return false;
+  }
+  const { expiresAt, idleExpiresAt } = getEndTime(row);
+  return now < expiresAt && now < idleExpiresAt;
+}
+
+export function getSessionTiming(row: UserSessionRow, now: number = Date.now()): SessionTiming {
+  const { expiresAt, idleExpiresAt } = getEndTime(row);
+  return {
+    sessionId: row.id,
+    expiresAt: new Date(expiresAt).toISOString(),
+    idleExpiresAt: new Date(idleExpiresAt).toISOString(),
+    idleTimeoutSeconds: getSessionPolicy().idleTimeoutSeconds,
+    remainingSeconds: Math.max(0, Math.floor((Math.min(expiresAt, idleExpiresAt) - now) / 1000)),
+  };
+}
+
+export function mapUserSessionRow(row: UserSessionRow, currentSessionId: string | null): UserSessionDto {
+  return {
+    id: row.id,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    expiresAt: row.expires_at,
+    isCurrent: row.id === currentSessionId,
+  };
+}
+
+/**
+ * Header the hosting platform sets to the connecting client's address,
+ * overwriting anything the client sent (CLIENT_IP_HEADER, default Netlify's).
+ */
+const DEFAULT_CLIENT_IP_HEADER = "x-nf-client-connection-ip";
+
+/**
+ * The client address as seen by the trusted proxy in front of the app.
+ *
+ * @remarks
+ * The platform's client-IP header wins. Otherwise X-Forwarded-For is read
+ * from the right: each of the TRUSTED_PROXY_HOPS proxies (default 1) appends
+ * the address it received the request from, so the entry that many places
+ * from the end is the client. Entries further left are whatever the client
+ * chose to send and are never used, since they feed rate limits and the
+ * security log.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const header = (process.env.CLIENT_IP_HEADER ?? DEFAULT_CLIENT_IP_HEADER).trim().toLowerCase();
+  const platformIp = header ? request.headers.get(header)?.trim() : null;
+  if (platformIp) {
+    return platformIp;
+  }
+
+  const configuredHops = Number(process.env.TRUSTED_PROXY_HOPS);
+  const hops = Number.isInteger(configuredHops) && configuredHops > 0 ? configuredHops : 1;
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded.length >= hops ? forwarded[forwarded.length - hops] : null;
+}
+
+/**
+ * The Supabase Auth session id (`session_id` claim) of an access token.
+ */
+export function getAuthSessionId(accessToken: string): string | null {
+  try {
+    const payload = accessToken.split(".")[1] ?? "";
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const claims = JSON.parse(atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))) as { session_id?: unknown };
+    return typeof claims.session_id === "string" ? claims.session_id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start a session for a user signing in from `request`.
+ *
+ * @param authSessionId - Supabase Auth session of the tokens issued at sign-in
+ */
+export async function createUserSession(
+  userId: string,
+  request: NextRequest,
+  authSessionId: string | null
+): Promise<UserSessionRow> {
+  const now = Date.now();
+  const { data, error } = await getAdminSupabaseClient()
+    .from("user_sessions")
+    .insert({
+      user_id: userId,
+      auth_session_id: authSessionId,
+      user_agent: request.headers.get("user-agent")?.slice(0, 512) ?? null,
+      ip_address: getClientIp(request),
+      created_at: new Date(now).toISOString(),
+      last_seen_at: new Date(now).toISOString(),
+      expires_at: new Date(now + getSessionPolicy().absoluteTimeoutSeconds * 1000).toISOString(),
+    })
+    .select(SESSION_COLUMNS)
+    .single<UserSessionRow>();
+
+  if (error || !data) {
+    console.error("[createUserSession] Database error:", error);
+    throw new Error("Failed to create session");
+  }
+
+  cacheSession(data.id, data);
+  return data;
+}
+
+/**
+ * Load a session, reusing a recently loaded copy.
+ */
+export async function loadUserSession(sessionId: string): Promise<UserSessionRow | null> {
+  const cached = cache.get(sessionId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.row;
+  }
+
+  const { data, error } = await getAdminSupabaseClient()
+    .from("user_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("id", sessionId)
+    .maybeSingle<UserSessionRow>();
+
+  if (error) {
+    console.error("[loadUserSession] Database error:", error);
+    throw new Error("Failed to load session");
+  }
+
+  cacheSession(sessionId, data);
+  return data;
+}
+
+/**
+ * Record activity on a session, pushing back its idle timeout.
+ *
+ * @returns The updated session, or null if it has already ended
+ */
+export async function touchUserSession(sessionId: string): Promise<UserSessionRow | null> {
+  const current = await loadUserSession(sessionId);
+  if (!current || !isUserSessionActive(current)) {
+    return null;
+  }
+
+  const { data, error } = await getAdminSupabaseClient()
+    .from("user_sessions")
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq("id", sessionId)
+    .is("revoked_at", null)
+    .select(SESSION_COLUMNS)
+    .maybeSingle<UserSessionRow>();
+
+  if (error) {
+    console.error("[touchUserSession] Database error:", error);
+    throw new Error("Failed to update session");
+  }
+
+  cacheSession(sessionId, data);
+  return data && isUserSessionActive(data) ? data : null;
+}
+
+/**
+ * A user's sessions that have not ended, most recently used first. Sessions
+ * found timed out are ended on the way.
+ */
+export async function listActiveUserSessions(userId: string): Promise<UserSessionRow[]> {
+  const { data, error } = await getAdminSupabaseClient()
+    .from("user_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .order("last_seen_at", { ascending: false });
+
+  if (error) {
+    console.error("[listActiveUserSessions] Database error:", error);
+    throw new Error("Failed to load sessions");
+  }
+
+  const rows = (data ?? []) as UserSessionRow[];
+  const now = Date.now();
+  for (const row of rows) {
+    if (!isUserSessionActive(row, now)) {
+      await endTimedOutSession(row);
+    }
+  }
+  return rows.filter((row) => isUserSessionActive(row, now));
+}
+
+/**
+ * End a session that timed out, so its Supabase Auth session goes too.
+ * Failures are logged; the session is rejected either way.
+ */
+async function endTimedOutSession(row: UserSessionRow): Promise<void> {
+  await revokeUserSessions({ userId: row.user_id, sessionId: row.id }, "TIMED_OUT", null).catch((error: unknown) =>
+    console.error("[endTimedOutSession] Failed to end session", error)
+  );
+}
+
+/**
+ * Delete Supabase Auth sessions, invalidating their refresh tokens
+ * (`revoke_auth_sessions`, migration Phase_1.28).
+ */
+async function revokeAuthSessions(authSessionIds: string[]): Promise<void> {
+  if (authSessionIds.length === 0) {
+    return;
+  }
+
+  const { error } = await getAdminSupabaseClient().rpc("revoke_auth_sessions", { p_session_ids: authSessionIds });
+
+  if (error) {
+    console.error("[revokeAuthSessions] Database error:", error);
+    throw new Error("Failed to end sign-in tokens");
+  }
+}
+
+/**
+ * End a user's sessions: one (`sessionId`), all but one (`exceptSessionId`),
+ * or all of them. Their Supabase Auth sessions are deleted first, so a
+ * failure leaves the sessions running and the call can be retried.
+ *
+ * @returns How many sessions were ended
+ */
+export async function revokeUserSessions(
+  target: { userId: string; sessionId?: string; exceptSessionId?: string },
+  reason: SessionEndReason,
+  revokedBy: string | null
+): Promise<number> {
+  const supabase = getAdminSupabaseClient();
+
+  let query = supabase
+    .from("user_sessions")
+    .select("id, auth_session_id")
+    .eq("user_id", target.userId)
+    .is("revoked_at", null);
+
+  if (target.sessionId) {
+    query = query.eq("id", target.sessionId);
+  }
+  if (target.exceptSessionId) {
+    query = query.neq("id", target.exceptSessionId);
+  }
+
+  const { data: targets, error: loadError } = await query;
+
+  if (loadError) {
+    console.error("[revokeUserSessions] Database error:", loadError);
+    throw new Error("Failed to end sessions");
+  }
+
+  const rows = (targets ?? []) as { id: string; auth_session_id: string | null }[];
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  await revokeAuthSessions(rows.map((row) => row.auth_session_id).filter((id): id is string => Boolean(id)));
+
+  const { data, error } = await supabase
+    .from("user_sessions")
+    .update({ revoked_at: new Date().toISOString(), revoked_by: revokedBy, revoke_reason: reason })
+    .in("id", rows.map((row) => row.id))
+    .is("revoked_at", null)
+    .select("id");
+
+  if (error) {
+    console.error("[revokeUserSessions] Database error:", error);
+    throw new Error("Failed to end sessions");
+  }
+
+  for (const row of rows) {
+    cache.delete(row.id);
+  }
+  return ((data ?? []) as { id: string }[]).length;
+}
+
+/**
+ * The session behind a request's cookies, if it is still valid: the token's
+ * signature checks out, the user's sessions weren't revoked as a whole, and
+ * the session itself hasn't ended.
+ */
+export async function resolveRequestSession(
+  request: NextRequest
+): Promise<{ claims: SessionClaims; session: UserSessionRow } | null> {
+  const token = request.cookies.get(SESSION_TOKEN_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const claims = await verifySessionToken(token);
+  if (!claims || (await isSessionRevoked(claims))) {
+    return null;
+  }
+
+  const session = await loadUserSession(claims.sessionId);
+  if (!session || session.user_id !== claims.userId) {
+    return null;
+  }
+  if (!isUserSessionActive(session)) {
+    if (!session.revoked_at) {
+      await endTimedOutSession(session);
+    }
+    return null;
+  }
+
+  return { claims, session };
+}
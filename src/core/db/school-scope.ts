@@ -0,0 +1,32 @@
+/**
+ * School (tenant) scoping for school-owned tables.
+ *
+ * @remarks
+ * Students, levels, sections, facilities, events and the records hanging off
+ * them belong to one school. Route handlers get the actor's school from
+ * `requireRoles` and pass it to repositories, which filter every read and
+ * stamp every insert with it. `null` means "all schools": only a SUPER_ADMIN
+ * without an active school, and system jobs, query unscoped.
+ */
+
+export type SchoolScope = string | null;
+
+/** A school and its branding, as returned by /api/schools */
+export interface SchoolDto {
+  id: string;
+  name: string;
+  /** Shown in the dashboard header and sidebar */
+  shortName: string;
+  logoUrl: string | null;
+  /** Hex color, e.g. #15803d */
+  primaryColor: string | null;
+  isActive: boolean;
+}
+
+/**
+ * Filter for a query's `.match()`: the school's rows, or no filter at all for
+ * an unscoped caller.
+ */
+export function schoolFilter(schoolId: SchoolScope, column = "school_id"): Record<string, string> {
+  return schoolId ? { [column]: schoolId } : {};
+}
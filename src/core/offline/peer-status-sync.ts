@@ -0,0 +1,76 @@
+/**
+ * Pulls scans uploaded by other scanner devices into the `remoteScans` table.
+ *
+ * Each event keeps a `peerSince` cursor on its scannerEvents record, so polls
+ * only download scans stored since the previous poll.
+ */
+
+import type { PeerStatusDto } from "@/modules/sems/domain/types";
+import { scannerDb, type RemoteScanRecord } from "./scanner-db";
+import { getScannerDeviceId } from "./scanner-device";
+
+type ScannerDbInstance = typeof scannerDb;
+
+/** How often the scanner page polls while online. */
+export const PEER_STATUS_POLL_INTERVAL_MS = 20_000;
+
+export interface PullPeerStatusOptions {
+  /** fetch implementation (defaults to the global fetch) */
+  fetchImpl?: typeof fetch;
+  /** Defaults to the shared scannerDb */
+  db?: ScannerDbInstance;
+  /** This device's ID; its own scans are skipped (defaults to getScannerDeviceId()) */
+  deviceId?: string | null;
+}
+
+/**
+ * Fetch new peer scans for an event and merge them into `remoteScans`.
+ *
+ * @returns Number of scans merged
+ * @throws Error if the request fails
+ */
+export async function pullPeerStatus(
+  eventId: string,
+  options: PullPeerStatusOptions = {}
+): Promise<number> {
+  const db = options.db ?? scannerDb;
+  const fetchImpl = options.fetchImpl ?? ((...args: Parameters<typeof fetch>) => fetch(...args));
+  const ownDeviceId = options.deviceId === undefined ? getScannerDeviceId() : options.deviceId;
+
+  const eventRecord = await db.scannerEvents.get(eventId);
+  if (!eventRecord) return 0;
+
+  const query = eventRecord.peerSince ? `?since=${encodeURIComponent(eventRecord.peerSince)}` : "";
+  const response = await fetchImpl(`/api/sems/events/${eventId}/peer-status${query}`);
+  const body = (await response.json().catch(() => null)) as
+    | { success?: boolean; data?: PeerStatusDto; error?: { message?: string } }
+    | null;
+
+  if (!response.ok || !body?.success || !body.data) {
+    throw new Error(body?.error?.message ?? `Failed to load peer status (status ${response.status}).`);
+  }
+
+  const records: RemoteScanRecord[] = body.data.scans
+    .filter((scan) => !ownDeviceId || scan.deviceId !== ownDeviceId)
+    .map((scan) => ({
+      id: `${eventId}|${scan.sessionId ?? `${scan.date}:${scan.sessionName}`}|${scan.studentId}`,
+      eventId,
+      studentId: scan.studentId,
+      sessionId: scan.sessionId,
+      sessionName: scan.sessionName,
+      date: scan.date,
+      scannedAt: scan.scannedAt,
+      status: scan.status,
+      deviceId: scan.deviceId,
+      scannerName: scan.scannerName,
+    }));
+
+  await db.transaction("rw", db.remoteScans, db.scannerEvents, async () => {
+    if (records.length > 0) {
+      await db.remoteScans.bulkPut(records);
+    }
+    await db.scannerEvents.update(eventId, { peerSince: body.data!.nextSince });
+  });
+
+  return records.length;
+}
@@ -0,0 +1,376 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ScanUploadInput, ScanUploadResultDto, ScanVerdictDto } from "@/modules/sems/domain/types";
+import { buildVerdictUpdate, computeBackoffDelay, ScanSyncEngine } from "./scan-sync-engine";
+import { scannerDb, type ScanQueueRecord } from "./scanner-db";
+import { ScanSyncTransportError, type ScanSyncTransport } from "./scan-sync-transport";
+
+const NOW = new Date("2026-03-02T08:00:00.000Z");
+
+function queuedScan(id: string, overrides: Partial<ScanQueueRecord> = {}): ScanQueueRecord {
+  return {
+    id,
+    eventId: "event-1",
+    studentId: `student-${id}`,
+    qrHash: `qr-${id}`,
+    scannedAt: "2026-03-02T07:55:00.000Z",
+    status: "PRESENT",
+    reason: null,
+    sessionId: "am-in",
+    sessionName: "Morning",
+    sessionDirection: "in",
+    syncStatus: "pending",
+    createdAt: "2026-03-02T07:55:00.000Z",
+    ...overrides,
+  };
+}
+
+function verdict(scanId: string, overrides: Partial<ScanVerdictDto> = {}): ScanVerdictDto {
+  return {
+    scanId,
+    verdict: "accepted",
+    status: "PRESENT",
+    sessionId: "am-in",
+    sessionName: "Morning",
+    effectiveScannedAt: null,
+    flags: [],
+    reason: null,
+    ...overrides,
+  };
+}
+
+function uploadResult(results: ScanVerdictDto[]): ScanUploadResultDto {
+  const count = (name: ScanVerdictDto["verdict"]) => results.filter((r) => r.verdict === name).length;
+  return {
+    uploaded: count("accepted") + count("corrected"),
+    corrected: count("corrected"),
+    rejected: count("rejected"),
+    skipped: count("rejected"),
+    duplicates: count("duplicate"),
+    errors: count("failed"),
+    clockSkewMs: null,
+    uploadedScanIds: results.filter((r) => r.verdict === "accepted" || r.verdict === "corrected").map((r) => r.scanId),
+    processedScanIds: results.filter((r) => r.verdict !== "failed").map((r) => r.scanId),
+    results,
+    message: "",
+  };
+}
+
+/**
+ * Transport that answers with `respond`, or accepts every scan by default.
+ */
+function fakeTransport(
+  respond: (eventId: string, input: ScanUploadInput) => ScanUploadResultDto = (_eventId, input) =>
+    uploadResult(input.scans.map((scan) => verdict(scan.id)))
+) {
+  const uploadScans = vi.fn(async (eventId: string, input: ScanUploadInput) => respond(eventId, input));
+  return { transport: { uploadScans } satisfies ScanSyncTransport, uploadScans };
+}
+
+function createEngine(transport: ScanSyncTransport, batchSize?: number) {
+  return new ScanSyncEngine({
+    transport,
+    db: scannerDb,
+    batchSize,
+    baseDelayMs: 1_000,
+    maxDelayMs: 60_000,
+    now: () => NOW,
+    deviceId: () => "device-1",
+  });
+}
+
+describe("computeBackoffDelay", () => {
+  const noJitter = () => 0.5;
+
+  it("doubles from the base delay", () => {
+    expect(computeBackoffDelay(0, 1_000, 60_000, noJitter)).toBe(0);
+    expect(computeBackoffDelay(1, 1_000, 60_000, noJitter)).toBe(1_000);
+    expect(computeBackoffDelay(2, 1_000, 60_000, noJitter)).toBe(2_000);
+    expect(computeBackoffDelay(4, 1_000, 60_000, noJitter)).toBe(8_000);
+  });
+
+  it("caps the delay at the maximum", () => {
+    expect(computeBackoffDelay(10, 1_000, 60_000, noJitter)).toBe(60_000);
+    expect(computeBackoffDelay(1_000, 1_000, 60_000, () => 1)).toBe(60_000);
+  });
+
+  it("jitters by up to 20% either way", () => {
+    expect(computeBackoffDelay(3, 1_000, 60_000, () => 0)).toBe(3_200);
+    expect(computeBackoffDelay(3, 1_000, 60_000, () => 1)).toBe(4_800);
+  });
+});
+
+describe("buildVerdictUpdate", () => {
+  it("marks accepted scans synced without touching their status", () => {
+    expect(buildVerdictUpdate(verdict("a"))).toEqual({
+      syncStatus: "synced",
+      serverVerdict: "accepted",
+      serverReason: null,
+    });
+  });
+
+  it("takes the server's status and session for corrected scans", () => {
+    const update = buildVerdictUpdate(
+      verdict("a", { verdict: "corrected", status: "LATE", sessionId: "pm-in", sessionName: "Afternoon", reason: "Late" })
+    );
+
+    expect(update).toMatchObject({
+      syncStatus: "synced",
+      status: "LATE",
+      sessionId: "pm-in",
+      sessionName: "Afternoon",
+      serverVerdict: "corrected",
+    });
+  });
+
+  it("denies rejected scans with the server's reason", () => {
+    const update = buildVerdictUpdate(
+      verdict("a", { verdict: "rejected", status: null, reason: "Student is not registered" })
+    );
+
+    expect(update).toMatchObject({
+      syncStatus: "synced",
+      status: "DENIED",
+      reason: "Student is not registered",
+    });
+  });
+
+  it("marks scans the server already had as duplicates", () => {
+    expect(buildVerdictUpdate(verdict("a", { verdict: "duplicate" }))).toMatchObject({
+      syncStatus: "synced",
+      status: "DUPLICATE",
+    });
+  });
+
+  it("leaves failed scans queued for retry", () => {
+    const update = buildVerdictUpdate(verdict("a", { verdict: "failed", status: null, reason: "Database error" }));
+
+    expect(update).toEqual({ syncStatus: "failed", serverVerdict: "failed", serverReason: "Database error" });
+  });
+});
+
+describe("ScanSyncEngine", () => {
+  beforeEach(async () => {
+    await Promise.all([scannerDb.scanQueue.clear(), scannerDb.syncState.clear(), scannerDb.scannerEvents.clear()]);
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("uploads pending and failed scans per event and marks them synced", async () => {
+    await scannerDb.scanQueue.bulkPut([
+      queuedScan("a"),
+      queuedScan("b", { eventId: "event-2" }),
+      queuedScan("c", { syncStatus: "failed" }),
+      queuedScan("d", { syncStatus: "synced" }),
+    ]);
+    const { transport, uploadScans } = fakeTransport();
+
+    const result = await createEngine(transport).syncNow();
+
+    expect(result.error).toBeNull();
+    expect(result.totals.uploaded).toBe(3);
+    expect(uploadScans).toHaveBeenCalledTimes(2);
+    const sentIds = uploadScans.mock.calls.flatMap(([, input]) => input.scans.map((scan) => scan.id)).sort();
+    expect(sentIds).toEqual(["a", "b", "c"]);
+    expect(uploadScans.mock.calls[0][1]).toMatchObject({ deviceTime: NOW.toISOString(), deviceId: "device-1" });
+
+    const statuses = (await scannerDb.scanQueue.toArray()).map((scan) => scan.syncStatus);
+    expect(statuses).toEqual(["synced", "synced", "synced", "synced"]);
+  });
+
+  it("sends each scan once per run across batches", async () => {
+    await scannerDb.scanQueue.bulkPut(["a", "b", "c", "d", "e"].map((id) => queuedScan(id)));
+    const { transport, uploadScans } = fakeTransport();
+
+    await createEngine(transport, 2).syncNow();
+
+    expect(uploadScans.mock.calls.map(([, input]) => input.scans.length)).toEqual([2, 2, 1]);
+    const sentIds = uploadScans.mock.calls.flatMap(([, input]) => input.scans.map((scan) => scan.id));
+    expect(new Set(sentIds).size).toBe(5);
+  });
+
+  it("only uploads the requested event", async () => {
+    await scannerDb.scanQueue.bulkPut([queuedScan("a"), queuedScan("b", { eventId: "event-2" })]);
+    const { transport, uploadScans } = fakeTransport();
+
+    await createEngine(transport).syncNow("event-2");
+
+    expect(uploadScans).toHaveBeenCalledTimes(1);
+    expect(uploadScans.mock.calls[0][0]).toBe("event-2");
+    expect((await scannerDb.scanQueue.get("a"))?.syncStatus).toBe("pending");
+  });
+
+  it("applies corrected, rejected and duplicate verdicts to the queue", async () => {
+    await scannerDb.scanQueue.bulkPut([queuedScan("a"), queuedScan("b"), queuedScan("c")]);
+    const { transport } = fakeTransport(() =>
+      uploadResult([
+        verdict("a", { verdict: "corrected", status: "LATE" }),
+        verdict("b", { verdict: "rejected", status: null, reason: "Not in audience" }),
+        verdict("c", { verdict: "duplicate" }),
+      ])
+    );
+
+    const result = await createEngine(transport).syncNow();
+
+    expect(result.totals).toMatchObject({ corrected: 1, rejected: 1, duplicates: 1, failed: 0 });
+    expect(await scannerDb.scanQueue.get("a")).toMatchObject({ syncStatus: "synced", status: "LATE" });
+    expect(await scannerDb.scanQueue.get("b")).toMatchObject({
+      syncStatus: "synced",
+      status: "DENIED",
+      reason: "Not in audience",
+    });
+    expect(await scannerDb.scanQueue.get("c")).toMatchObject({ syncStatus: "synced", status: "DUPLICATE" });
+  });
+
+  it("marks scans synced from uploadedScanIds when the server sends no verdicts", async () => {
+    await scannerDb.scanQueue.bulkPut([queuedScan("a"), queuedScan("b")]);
+    const { transport } = fakeTransport(() => ({ ...uploadResult([]), uploaded: 1, uploadedScanIds: ["a"] }));
+
+    await createEngine(transport).syncNow();
+
+    expect((await scannerDb.scanQueue.get("a"))?.syncStatus).toBe("synced");
+    expect((await scannerDb.scanQueue.get("b"))?.syncStatus).toBe("pending");
+  });
+
+  it("backs off after failed runs and persists the retry time", async () => {
+    await scannerDb.scanQueue.put(queuedScan("a"));
+    const { transport } = fakeTransport(() => {
+      throw new ScanSyncTransportError("Network request failed.", null);
+    });
+    const engine = createEngine(transport);
+
+    const first = await engine.syncNow();
+
+    expect(first.error).toBe("Network request failed.");
+    expect((await scannerDb.scanQueue.get("a"))?.syncStatus).toBe("pending");
+    expect(await scannerDb.syncState.get("scanQueue")).toMatchObject({
+      consecutiveFailures: 1,
+      nextRetryAt: new Date(NOW.getTime() + 1_000).toISOString(),
+      lastError: "Network request failed.",
+      lastSuccessAt: null,
+    });
+
+    await engine.syncNow();
+
+    expect(await scannerDb.syncState.get("scanQueue")).toMatchObject({
+      consecutiveFailures: 2,
+      nextRetryAt: new Date(NOW.getTime() + 2_000).toISOString(),
+    });
+    expect(engine.getStatus().consecutiveFailures).toBe(2);
+  });
+
+  it("retries scans the server failed to store and resets backoff once they succeed", async () => {
+    await scannerDb.scanQueue.bulkPut([queuedScan("a"), queuedScan("b")]);
+    let failB = true;
+    const { transport, uploadScans } = fakeTransport((_eventId, input) =>
+      uploadResult(
+        input.scans.map((scan) =>
+          scan.id === "b" && failB ? verdict("b", { verdict: "failed", status: null, reason: "Database error" }) : verdict(scan.id)
+        )
+      )
+    );
+    const engine = createEngine(transport);
+
+    const first = await engine.syncNow();
+
+    expect(first.totals.failed).toBe(1);
+    expect(first.error).toContain("will be retried");
+    expect((await scannerDb.scanQueue.get("a"))?.syncStatus).toBe("synced");
+    expect((await scannerDb.scanQueue.get("b"))?.syncStatus).toBe("failed");
+    expect((await scannerDb.syncState.get("scanQueue"))?.consecutiveFailures).toBe(1);
+
+    failB = false;
+    const second = await engine.syncNow();
+
+    expect(second.error).toBeNull();
+    expect(uploadScans.mock.calls[1][1].scans.map((scan) => scan.id)).toEqual(["b"]);
+    expect((await scannerDb.scanQueue.get("b"))?.syncStatus).toBe("synced");
+    expect(await scannerDb.syncState.get("scanQueue")).toMatchObject({
+      consecutiveFailures: 0,
+      nextRetryAt: null,
+      lastError: null,
+      lastSuccessAt: NOW.toISOString(),
+    });
+  });
+
+  it("sets aside an event the server refuses and still uploads the other events", async () => {
+    await scannerDb.scanQueue.bulkPut([
+      queuedScan("a"),
+      queuedScan("b"),
+      queuedScan("c", { eventId: "event-2" }),
+    ]);
+    const { transport, uploadScans } = fakeTransport((eventId, input) => {
+      if (eventId === "event-1") {
+        throw new ScanSyncTransportError("Event is no longer active.", 409);
+      }
+      return uploadResult(input.scans.map((scan) => verdict(scan.id)));
+    });
+    const engine = createEngine(transport);
+
+    const result = await engine.syncNow();
+
+    expect(result.error).toBeNull();
+    expect(result.refusals).toEqual([{ eventId: "event-1", scanCount: 2, message: "Event is no longer active." }]);
+    expect(await scannerDb.scanQueue.get("a")).toMatchObject({
+      syncStatus: "refused",
+      serverReason: "Event is no longer active.",
+    });
+    expect((await scannerDb.scanQueue.get("c"))?.syncStatus).toBe("synced");
+    expect((await scannerDb.syncState.get("scanQueue"))?.consecutiveFailures).toBe(0);
+    expect(engine.getStatus().refusedCount).toBe(2);
+
+    uploadScans.mockClear();
+    await engine.syncNow();
+
+    expect(uploadScans).not.toHaveBeenCalled();
+  });
+
+  it("keeps retrying when the session has expired", async () => {
+    await scannerDb.scanQueue.put(queuedScan("a"));
+    const { transport } = fakeTransport(() => {
+      throw new ScanSyncTransportError("Not authenticated.", 401);
+    });
+
+    const result = await createEngine(transport).syncNow();
+
+    expect(result.refusals).toEqual([]);
+    expect((await scannerDb.scanQueue.get("a"))?.syncStatus).toBe("pending");
+    expect((await scannerDb.syncState.get("scanQueue"))?.consecutiveFailures).toBe(1);
+  });
+
+  it("resumes backoff persisted by an earlier page", async () => {
+    await scannerDb.syncState.put({
+      key: "scanQueue",
+      consecutiveFailures: 3,
+      nextRetryAt: "2026-03-02T08:05:00.000Z",
+      lastAttemptAt: "2026-03-02T07:59:00.000Z",
+      lastSuccessAt: null,
+      lastError: "Network request failed.",
+    });
+    const { transport } = fakeTransport();
+    const engine = createEngine(transport);
+
+    await engine.start();
+    const status = engine.getStatus();
+    engine.stop();
+
+    expect(status).toMatchObject({
+      consecutiveFailures: 3,
+      nextRetryAt: "2026-03-02T08:05:00.000Z",
+      lastError: "Network request failed.",
+    });
+  });
+
+  it("does not start a run when nothing is queued", async () => {
+    const { transport, uploadScans } = fakeTransport();
+
+    const result = await createEngine(transport).syncNow();
+
+    expect(result.error).toBeNull();
+    expect(uploadScans).not.toHaveBeenCalled();
+    expect(await scannerDb.syncState.get("scanQueue")).toBeUndefined();
+  });
+});
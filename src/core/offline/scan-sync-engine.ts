@@ -0,0 +1,624 @@
+/**
+ * Background sync engine for the SEMS scanner queue.
+ *
+ * Uploads queued scans (`syncStatus` "pending" or "failed") whenever the device
+ * is online, in capped batches, and applies the server's per-scan verdicts to
+ * IndexedDB. Failed runs are retried with exponential backoff. When the server
+ * refuses an event's scans for good (e.g. the event has ended), they are set
+ * aside as `refused` and the other events' scans still upload.
+ *
+ * Backoff and the last sync outcome are persisted in the `syncState` table, and
+ * the queue itself lives in `scanQueue`, so a page reload resumes where the
+ * previous page left off.
+ */
+
+import { liveQuery, type Subscription } from "dexie";
+import type { ScanUploadRecord, ScanUploadResultDto, ScanVerdictDto } from "@/modules/sems/domain/types";
+import { scannerDb, type ScanQueueRecord, type SyncStateRecord } from "./scanner-db";
+import {
+  createHttpScanSyncTransport,
+  ScanSyncTransportError,
+  type ScanSyncTransport,
+} from "./scan-sync-transport";
+import { getScannerDeviceId } from "./scanner-device";
+
+type ScannerDbInstance = typeof scannerDb;
+
+/** Key of the engine's row in the syncState table. */
+const SYNC_STATE_KEY = "scanQueue";
+
+/** Web Lock name, so only one tab uploads at a time. */
+const SYNC_LOCK_NAME = "sems-scan-sync";
+
+/** Queue states the engine uploads. */
+const UNSYNCED_STATUSES: ScanQueueRecord["syncStatus"][] = ["pending", "failed"];
+
+/** Scans per upload request; the server accepts up to 2000. */
+export const DEFAULT_SYNC_BATCH_SIZE = 500;
+
+const MAX_SYNC_BATCH_SIZE = 2000;
+
+const DEFAULT_BASE_DELAY_MS = 5_000;
+
+const DEFAULT_MAX_DELAY_MS = 5 * 60_000;
+
+/** Wait after new scans are queued, so rapid scanning is uploaded together. */
+const DEFAULT_DEBOUNCE_MS = 2_000;
+
+export type ScanSyncState =
+  /** Nothing to upload, or waiting for the next scan */
+  | "idle"
+  /** Uploading a batch */
+  | "syncing"
+  /** Backing off after a failed run */
+  | "waiting"
+  /** Device reports no connectivity */
+  | "offline"
+  /** Engine not started */
+  | "stopped";
+
+/**
+ * Live status exposed to the scanner UI.
+ */
+export interface ScanSyncStatus {
+  state: ScanSyncState;
+  isOnline: boolean;
+  /** Scans not yet stored on the server (pending + failed) */
+  pendingCount: number;
+  /** Scans whose last upload attempt failed */
+  failedCount: number;
+  /** Scans the server refused for good; not retried */
+  refusedCount: number;
+  lastAttemptAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  nextRetryAt: string | null;
+}
+
+export interface ScanSyncTotals {
+  uploaded: number;
+  corrected: number;
+  rejected: number;
+  duplicates: number;
+  failed: number;
+}
+
+/**
+ * Scans of one event the server refused for good during a run.
+ */
+export interface ScanSyncRefusal {
+  eventId: string;
+  scanCount: number;
+  /** The server's explanation */
+  message: string;
+}
+
+/**
+ * Outcome of a single sync run.
+ */
+export interface ScanSyncRunResult {
+  /** Verdicts for every scan the server answered for, in upload order */
+  verdicts: ScanVerdictDto[];
+  totals: ScanSyncTotals;
+  /** Events whose scans were set aside as `refused` */
+  refusals: ScanSyncRefusal[];
+  /** Error that stopped the run early, if any */
+  error: string | null;
+}
+
+export interface ScanSyncEngineOptions {
+  /** Defaults to the HTTP transport for /api/sems/events/[id]/scans */
+  transport?: ScanSyncTransport;
+  /** Defaults to the shared scannerDb */
+  db?: ScannerDbInstance;
+  /** Scans per request (max 2000) */
+  batchSize?: number;
+  /** First retry delay after a failure */
+  baseDelayMs?: number;
+  /** Upper bound for the retry delay */
+  maxDelayMs?: number;
+  /** Delay before uploading newly queued scans */
+  debounceMs?: number;
+  /** Clock, injectable for tests */
+  now?: () => Date;
+  /** Device ID sent with uploads (defaults to getScannerDeviceId()) */
+  deviceId?: () => string | null;
+}
+
+type ScanSyncListener = (status: ScanSyncStatus) => void;
+
+export const INITIAL_SCAN_SYNC_STATUS: ScanSyncStatus = {
+  state: "stopped",
+  isOnline: true,
+  pendingCount: 0,
+  failedCount: 0,
+  refusedCount: 0,
+  lastAttemptAt: null,
+  lastSuccessAt: null,
+  lastError: null,
+  consecutiveFailures: 0,
+  nextRetryAt: null,
+};
+
+function emptyRunResult(): ScanSyncRunResult {
+  return {
+    verdicts: [],
+    totals: { uploaded: 0, corrected: 0, rejected: 0, duplicates: 0, failed: 0 },
+    refusals: [],
+    error: null,
+  };
+}
+
+function isBrowserOnline(): boolean {
+  return typeof navigator === "undefined" ? true : navigator.onLine !== false;
+}
+
+/**
+ * Retry delay for the given number of consecutive failures.
+ *
+ * @remarks
+ * Doubles from `baseDelayMs` up to `maxDelayMs`, with ±20% jitter so several
+ * scanners coming back online together don't retry in lockstep.
+ */
+export function computeBackoffDelay(
+  consecutiveFailures: number,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  random: () => number = Math.random
+): number {
+  if (consecutiveFailures <= 0) return 0;
+  const exponential = baseDelayMs * 2 ** Math.min(consecutiveFailures - 1, 20);
+  const jittered = exponential * (0.8 + random() * 0.4);
+  return Math.round(Math.min(maxDelayMs, jittered));
+}
+
+/**
+ * Build the local IndexedDB update for a server verdict.
+ */
+export function buildVerdictUpdate(result: ScanVerdictDto): Partial<ScanQueueRecord> {
+  if (result.verdict === "failed") {
+    return {
+      syncStatus: "failed",
+      serverVerdict: result.verdict,
+      serverReason: result.reason,
+    };
+  }
+
+  const update: Partial<ScanQueueRecord> = {
+    syncStatus: "synced",
+    serverVerdict: result.verdict,
+    serverReason: result.reason,
+  };
+
+  if (result.verdict === "corrected" && result.status) {
+    update.status = result.status;
+    update.sessionId = result.sessionId;
+    update.sessionName = result.sessionName;
+  } else if (result.verdict === "rejected") {
+    update.status = "DENIED";
+    update.reason = result.reason;
+  } else if (result.verdict === "duplicate") {
+    update.status = "DUPLICATE";
+  }
+
+  return update;
+}
+
+/**
+ * Uploads the scanner queue in the background.
+ *
+ * @remarks
+ * Use `getScanSyncEngine()` in the app; construct directly to inject a
+ * transport (e.g. a local stand-in for the scans endpoint).
+ */
+export class ScanSyncEngine {
+  private readonly transport: ScanSyncTransport;
+  private readonly db: ScannerDbInstance;
+  private readonly batchSize: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly debounceMs: number;
+  private readonly now: () => Date;
+  private readonly deviceId: () => string | null;
+
+  private status: ScanSyncStatus = INITIAL_SCAN_SYNC_STATUS;
+  private readonly listeners = new Set<ScanSyncListener>();
+  private started = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private activeRun: Promise<ScanSyncRunResult> | null = null;
+  private countSubscription: Subscription | null = null;
+
+  constructor(options: ScanSyncEngineOptions = {}) {
+    this.transport = options.transport ?? createHttpScanSyncTransport();
+    this.db = options.db ?? scannerDb;
+    this.batchSize = Math.max(1, Math.min(options.batchSize ?? DEFAULT_SYNC_BATCH_SIZE, MAX_SYNC_BATCH_SIZE));
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.now = options.now ?? (() => new Date());
+    this.deviceId = options.deviceId ?? getScannerDeviceId;
+  }
+
+  /**
+   * Start watching the queue and connectivity. Safe to call more than once.
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", this.handleOnline);
+      window.addEventListener("offline", this.handleOffline);
+      document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    }
+
+    const persisted = await this.db.syncState.get(SYNC_STATE_KEY);
+    if (!this.started) return;
+
+    this.setStatus({
+      state: "idle",
+      isOnline: isBrowserOnline(),
+      lastAttemptAt: persisted?.lastAttemptAt ?? null,
+      lastSuccessAt: persisted?.lastSuccessAt ?? null,
+      lastError: persisted?.lastError ?? null,
+      consecutiveFailures: persisted?.consecutiveFailures ?? 0,
+      nextRetryAt: persisted?.nextRetryAt ?? null,
+    });
+
+    // Keep counts live; newly queued scans schedule an upload
+    this.countSubscription = liveQuery(() => this.countUnsynced()).subscribe({
+      next: (counts) => {
+        this.setStatus(counts);
+        this.scheduleNext();
+      },
+      error: (error) => {
+        console.error("[ScanSyncEngine] Failed to watch scan queue", error);
+      },
+    });
+  }
+
+  /**
+   * Stop background syncing. An upload already in flight is allowed to finish.
+   */
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    if (typeof window !== "undefined") {
+      window.removeEventListener("online", this.handleOnline);
+      window.removeEventListener("offline", this.handleOffline);
+      document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+    }
+
+    this.clearTimer();
+    this.countSubscription?.unsubscribe();
+    this.countSubscription = null;
+    this.setStatus({ state: "stopped" });
+  }
+
+  getStatus = (): ScanSyncStatus => this.status;
+
+  subscribe = (listener: ScanSyncListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Upload immediately, ignoring any backoff wait.
+   *
+   * @param eventId - Only upload scans for this event (defaults to all events)
+   */
+  syncNow = async (eventId?: string): Promise<ScanSyncRunResult> => {
+    if (this.activeRun) {
+      await this.activeRun.catch(() => undefined);
+    }
+    this.clearTimer();
+    return this.run(eventId);
+  };
+
+  private readonly handleOnline = () => {
+    // Connectivity is back: retry now instead of waiting out the backoff
+    this.setStatus({ isOnline: true, nextRetryAt: null });
+    this.scheduleNext();
+  };
+
+  private readonly handleOffline = () => {
+    this.clearTimer();
+    this.setStatus({ isOnline: false, state: this.activeRun ? "syncing" : "offline" });
+  };
+
+  private readonly handleVisibilityChange = () => {
+    // Timers are throttled in background tabs; re-check when visible again
+    if (document.visibilityState === "visible") {
+      this.scheduleNext();
+    }
+  };
+
+  private setStatus(partial: Partial<ScanSyncStatus>): void {
+    this.status = { ...this.status, ...partial };
+    for (const listener of this.listeners) {
+      listener(this.status);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Decide when the next automatic run happens based on the current status.
+   */
+  private scheduleNext(): void {
+    if (!this.started || this.activeRun) return;
+
+    this.clearTimer();
+
+    if (!this.status.isOnline) {
+      this.setStatus({ state: "offline" });
+      return;
+    }
+
+    if (this.status.pendingCount === 0) {
+      this.setStatus({ state: "idle" });
+      return;
+    }
+
+    const retryAt = this.status.nextRetryAt ? new Date(this.status.nextRetryAt).getTime() : 0;
+    const waitMs = Math.max(retryAt - this.now().getTime(), 0);
+
+    this.setStatus({ state: waitMs > 0 ? "waiting" : "idle" });
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.run();
+    }, Math.max(waitMs, this.debounceMs));
+  }
+
+  private async run(eventId?: string): Promise<ScanSyncRunResult> {
+    if (this.activeRun) {
+      return this.activeRun;
+    }
+
+    const runPromise = this.withSyncLock(() => this.uploadQueue(eventId));
+    this.activeRun = runPromise;
+
+    try {
+      return await runPromise;
+    } finally {
+      this.activeRun = null;
+      const counts = await this.countUnsynced().catch(() => null);
+      if (counts) {
+        this.setStatus(counts);
+      }
+      if (this.started) {
+        this.scheduleNext();
+      } else {
+        this.setStatus({ state: "stopped" });
+      }
+    }
+  }
+
+  private async withSyncLock<T>(task: () => Promise<T>): Promise<T> {
+    const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+    if (!locks) {
+      return task();
+    }
+    return locks.request(SYNC_LOCK_NAME, task) as Promise<T>;
+  }
+
+  /**
+   * Upload batches until the queue is empty or a batch fails.
+   */
+  private async uploadQueue(eventId?: string): Promise<ScanSyncRunResult> {
+    const result = emptyRunResult();
+    const attemptedIds = new Set<string>();
+    let attempted = false;
+
+    this.setStatus({ state: "syncing", lastAttemptAt: this.now().toISOString() });
+
+    while (!result.error) {
+      const batch = await this.loadBatch(attemptedIds, eventId);
+      if (batch.length === 0) break;
+
+      attempted = true;
+      for (const scan of batch) attemptedIds.add(scan.id);
+
+      for (const [batchEventId, scans] of this.groupByEvent(batch)) {
+        try {
+          const response = await this.transport.uploadScans(batchEventId, {
+            scans: await this.buildUploadRecords(batchEventId, scans),
+            deviceTime: this.now().toISOString(),
+            deviceId: this.deviceId() ?? undefined,
+          });
+          await this.applyResponse(response);
+          this.accumulate(result, response);
+
+          if (response.errors > 0) {
+            result.error = `${response.errors} scan(s) could not be stored and will be retried.`;
+          }
+        } catch (error) {
+          if (error instanceof ScanSyncTransportError && error.isPermanent) {
+            // Retrying can't help, and would hold up every other event's scans
+            await this.refuseScans(scans, error.message);
+            result.refusals.push({ eventId: batchEventId, scanCount: scans.length, message: error.message });
+            continue;
+          }
+          result.error = error instanceof Error ? error.message : "Unable to upload scan data.";
+        }
+
+        if (result.error) break;
+      }
+    }
+
+    if (attempted) {
+      await this.recordRunOutcome(result.error);
+    }
+
+    return result;
+  }
+
+  private async loadBatch(
+    excludeIds: Set<string>,
+    eventId?: string
+  ): Promise<ScanQueueRecord[]> {
+    const collection = eventId
+      ? this.db.scanQueue
+          .where("eventId")
+          .equals(eventId)
+          .and((scan) => UNSYNCED_STATUSES.includes(scan.syncStatus))
+      : this.db.scanQueue.where("syncStatus").anyOf(UNSYNCED_STATUSES);
+
+    return collection
+      .filter((scan) => !excludeIds.has(scan.id))
+      .limit(this.batchSize)
+      .toArray();
+  }
+
+  private groupByEvent(scans: ScanQueueRecord[]): Map<string, ScanQueueRecord[]> {
+    const groups = new Map<string, ScanQueueRecord[]>();
+    for (const scan of scans) {
+      const group = groups.get(scan.eventId) ?? [];
+      group.push(scan);
+      groups.set(scan.eventId, group);
+    }
+    return groups;
+  }
+
+  /**
+   * Enrich queued scans with session details from the cached event config.
+   */
+  private async buildUploadRecords(
+    eventId: string,
+    scans: ScanQueueRecord[]
+  ): Promise<ScanUploadRecord[]> {
+    const cachedEvent = await this.db.scannerEvents.get(eventId);
+    const sessionMap = new Map<string, {
+      period: string;
+      opens: string;
+      closes: string;
+      lateAfter: string | null;
+    }>();
+
+    for (const dateConfig of cachedEvent?.sessionConfig?.dates ?? []) {
+      for (const session of dateConfig.sessions ?? []) {
+        sessionMap.set(session.id, {
+          period: session.period,
+          opens: session.opens,
+          closes: session.closes,
+          lateAfter: session.lateAfter,
+        });
+      }
+    }
+
+    return scans.map((scan) => {
+      const sessionInfo = scan.sessionId ? sessionMap.get(scan.sessionId) : null;
+      return {
+        id: scan.id,
+        studentId: scan.studentId,
+        qrHash: scan.qrHash,
+        scannedAt: scan.scannedAt,
+        status: scan.status,
+        reason: scan.reason,
+        sessionId: scan.sessionId,
+        sessionName: scan.sessionName,
+        sessionDirection: scan.sessionDirection,
+        sessionPeriod: sessionInfo?.period ?? null,
+        sessionOpens: sessionInfo?.opens ?? null,
+        sessionCloses: sessionInfo?.closes ?? null,
+        sessionLateAfter: sessionInfo?.lateAfter ?? null,
+      };
+    });
+  }
+
+  private async applyResponse(response: ScanUploadResultDto): Promise<void> {
+    const verdicts = response.results ?? [];
+
+    await this.db.transaction("rw", this.db.scanQueue, async () => {
+      if (verdicts.length > 0) {
+        for (const verdict of verdicts) {
+          await this.db.scanQueue.update(verdict.scanId, buildVerdictUpdate(verdict));
+        }
+      } else {
+        // Older servers only report stored IDs
+        for (const scanId of response.uploadedScanIds ?? []) {
+          await this.db.scanQueue.update(scanId, { syncStatus: "synced" });
+        }
+      }
+    });
+  }
+
+  private async refuseScans(scans: ScanQueueRecord[], message: string): Promise<void> {
+    await this.db.transaction("rw", this.db.scanQueue, async () => {
+      for (const scan of scans) {
+        await this.db.scanQueue.update(scan.id, { syncStatus: "refused", serverReason: message });
+      }
+    });
+  }
+
+  private accumulate(result: ScanSyncRunResult, response: ScanUploadResultDto): void {
+    result.verdicts.push(...(response.results ?? []));
+    result.totals.uploaded += response.uploaded ?? 0;
+    result.totals.corrected += response.corrected ?? 0;
+    result.totals.rejected += response.rejected ?? response.skipped ?? 0;
+    result.totals.duplicates += response.duplicates ?? 0;
+    result.totals.failed += response.errors ?? 0;
+  }
+
+  private async recordRunOutcome(error: string | null): Promise<void> {
+    const nowMs = this.now().getTime();
+    const consecutiveFailures = error ? this.status.consecutiveFailures + 1 : 0;
+    const nextRetryAt = error
+      ? new Date(
+          nowMs + computeBackoffDelay(consecutiveFailures, this.baseDelayMs, this.maxDelayMs)
+        ).toISOString()
+      : null;
+
+    const state: SyncStateRecord = {
+      key: SYNC_STATE_KEY,
+      consecutiveFailures,
+      nextRetryAt,
+      lastAttemptAt: this.status.lastAttemptAt,
+      lastSuccessAt: error ? this.status.lastSuccessAt : new Date(nowMs).toISOString(),
+      lastError: error,
+    };
+
+    this.setStatus({
+      consecutiveFailures: state.consecutiveFailures,
+      nextRetryAt: state.nextRetryAt,
+      lastSuccessAt: state.lastSuccessAt,
+      lastError: state.lastError,
+    });
+
+    try {
+      await this.db.syncState.put(state);
+    } catch (persistError) {
+      console.error("[ScanSyncEngine] Failed to persist sync state", persistError);
+    }
+  }
+
+  private async countUnsynced(): Promise<{ pendingCount: number; failedCount: number; refusedCount: number }> {
+    const [pendingCount, failedCount, refusedCount] = await Promise.all([
+      this.db.scanQueue.where("syncStatus").anyOf(UNSYNCED_STATUSES).count(),
+      this.db.scanQueue.where("syncStatus").equals("failed").count(),
+      this.db.scanQueue.where("syncStatus").equals("refused").count(),
+    ]);
+    return { pendingCount, failedCount, refusedCount };
+  }
+}
+
+let sharedEngine: ScanSyncEngine | null = null;
+
+/**
+ * The app-wide sync engine, using the HTTP transport and the shared scannerDb.
+ */
+export function getScanSyncEngine(): ScanSyncEngine {
+  if (!sharedEngine) {
+    sharedEngine = new ScanSyncEngine();
+  }
+  return sharedEngine;
+}
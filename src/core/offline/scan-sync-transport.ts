@@ -0,0 +1,98 @@
+/**
+ * Transport used by the scan sync engine to reach the scans endpoint.
+ *
+ * The engine only depends on the ScanSyncTransport interface, so tests and
+ * local development can swap the HTTP transport for an in-process stand-in
+ * that returns ScanUploadResultDto-shaped responses.
+ */
+
+import type { ScanUploadInput, ScanUploadResultDto } from "@/modules/sems/domain/types";
+
+/**
+ * Uploads one batch of scans for one event.
+ */
+export interface ScanSyncTransport {
+  /**
+   * @param eventId - Event the scans belong to
+   * @param input - Scans (at most one batch) plus the device clock
+   * @returns The server's per-scan verdicts
+   * @throws ScanSyncTransportError when the request fails
+   */
+  uploadScans(eventId: string, input: ScanUploadInput): Promise<ScanUploadResultDto>;
+}
+
+/**
+ * Error raised when a batch could not be uploaded.
+ */
+export class ScanSyncTransportError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, or null for network failures */
+    public readonly status: number | null
+  ) {
+    super(message);
+    this.name = "ScanSyncTransportError";
+  }
+
+  /**
+   * Whether retrying the same upload can't succeed, e.g. the event has
+   * ended (409), the scanner was unassigned (403) or the event is gone (404).
+   * Expired sessions (401), timeouts and rate limits are worth retrying.
+   */
+  get isPermanent(): boolean {
+    return (
+      this.status !== null &&
+      this.status >= 400 &&
+      this.status < 500 &&
+      ![401, 408, 429].includes(this.status)
+    );
+  }
+}
+
+/**
+ * Create a transport that POSTs to `/api/sems/events/[id]/scans`.
+ *
+ * @param fetchImpl - fetch implementation (defaults to the global fetch)
+ * @param baseUrl - Prefix for the endpoint URL (empty for same-origin)
+ */
+export function createHttpScanSyncTransport(
+  fetchImpl: typeof fetch = (...args) => fetch(...args),
+  baseUrl = ""
+): ScanSyncTransport {
+  return {
+    async uploadScans(eventId, input) {
+      let response: Response;
+      try {
+        response = await fetchImpl(`${baseUrl}/api/sems/events/${eventId}/scans`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(input),
+        });
+      } catch (error) {
+        throw new ScanSyncTransportError(
+          error instanceof Error ? error.message : "Network request failed.",
+          null
+        );
+      }
+
+      const body = (await response.json().catch(() => null)) as
+        | { success?: boolean; data?: ScanUploadResultDto; error?: { message?: string } }
+        | null;
+
+      if (!response.ok || body?.success === false) {
+        throw new ScanSyncTransportError(
+          body?.error?.message ?? `Failed to upload scan data (status ${response.status}).`,
+          response.status
+        );
+      }
+
+      if (!body?.data) {
+        throw new ScanSyncTransportError("Invalid upload response received from server.", response.status);
+      }
+
+      return body.data;
+    },
+  };
+}
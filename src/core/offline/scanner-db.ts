@@ -1,5 +1,9 @@
 import Dexie, { type Table } from "dexie";
-import type { EventSessionConfig } from "@/modules/sems/domain/types";
+import type {
+  EventSessionConfig,
+  QrCredentialPolicyDto,
+  ScanVerdict,
+} from "@/modules/sems/domain/types";
 
 export interface ScannerEventRecord {
   id: string;
@@ -11,6 +15,12 @@ export interface ScannerEventRecord {
   sessionConfig: EventSessionConfig;
   scannerUserId: string;
   downloadedAt: string;
+  /** Scanner resource manifest version, used to request delta refreshes */
+  resourceVersion?: number | null;
+  /** `nextSince` cursor from the last peer status poll */
+  peerSince?: string | null;
+  /** Public keys and rules for verifying signed QR codes offline */
+  qrPolicy?: QrCredentialPolicyDto | null;
 }
 
 export interface AllowedStudentRecord {
@@ -18,6 +28,9 @@ export interface AllowedStudentRecord {
   eventId: string;
   studentId: string;
   qrHash: string;
+  /** Signed codes issued before this instant are rejected */
+  qrIssuedAt?: string | null;
+  qrRevokedAt?: string | null;
   fullName: string;
   lrn: string;
   grade: string;
@@ -37,14 +50,52 @@ export interface ScanQueueRecord {
   sessionId: string | null;
   sessionName: string | null;
   sessionDirection: "in" | "out" | null;
-  syncStatus: "pending" | "synced" | "failed";
+  /** `refused`: the server turned the upload down for good; kept but not retried */
+  syncStatus: "pending" | "synced" | "failed" | "refused";
   createdAt: string;
+  /** Server reconciliation result, set after upload */
+  serverVerdict?: ScanVerdict | null;
+  serverReason?: string | null;
+}
+
+/**
+ * Scan uploaded by another device, pulled from the peer status endpoint.
+ * Used to flag students already scanned at another gate as duplicates.
+ */
+export interface RemoteScanRecord {
+  /** `${eventId}|${sessionKey}|${studentId}` */
+  id: string;
+  eventId: string;
+  studentId: string;
+  /** Session ID from session_config (null if the server could not resolve it) */
+  sessionId: string | null;
+  sessionName: string;
+  date: string;
+  scannedAt: string;
+  status: string;
+  deviceId: string | null;
+  scannerName: string | null;
+}
+
+/**
+ * Persisted state of the background scan sync engine, so backoff and the
+ * last sync outcome survive page reloads.
+ */
+export interface SyncStateRecord {
+  key: string;
+  consecutiveFailures: number;
+  nextRetryAt: string | null;
+  lastAttemptAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
 }
 
 class ScannerDb extends Dexie {
   scannerEvents!: Table<ScannerEventRecord, string>;
   allowedStudents!: Table<AllowedStudentRecord, number>;
   scanQueue!: Table<ScanQueueRecord, string>;
+  syncState!: Table<SyncStateRecord, string>;
+  remoteScans!: Table<RemoteScanRecord, string>;
 
   constructor() {
     super("semsScanner");
@@ -66,6 +117,27 @@ class ScannerDb extends Dexie {
       scanQueue:
         "id, eventId, studentId, qrHash, scannedAt, syncStatus, sessionId, [eventId+sessionId+studentId]",
     });
+
+    // Version 3: Persisted sync engine state (backoff, last success/error)
+    this.version(3).stores({
+      scannerEvents: "id, startDate, endDate, scannerUserId",
+      allowedStudents:
+        "++id, eventId, studentId, qrHash, [eventId+qrHash], [eventId+studentId]",
+      scanQueue:
+        "id, eventId, studentId, qrHash, scannedAt, syncStatus, sessionId, [eventId+sessionId+studentId]",
+      syncState: "key",
+    });
+
+    // Version 4: Scans from other devices for cross-device duplicate checks
+    this.version(4).stores({
+      scannerEvents: "id, startDate, endDate, scannerUserId",
+      allowedStudents:
+        "++id, eventId, studentId, qrHash, [eventId+qrHash], [eventId+studentId]",
+      scanQueue:
+        "id, eventId, studentId, qrHash, scannedAt, syncStatus, sessionId, [eventId+sessionId+studentId]",
+      syncState: "key",
+      remoteScans: "id, eventId, [eventId+sessionId+studentId]",
+    });
   }
 }
 
@@ -0,0 +1,48 @@
+/**
+ * Identity of this scanner device.
+ *
+ * A random ID is generated once per browser and kept in localStorage. It is
+ * sent with scan uploads (stored as attendance_logs.scanned_by_device_id) so
+ * other devices can tell which gate recorded a scan.
+ */
+
+const DEVICE_ID_STORAGE_KEY = "sems-scanner-device-id";
+
+let cachedDeviceId: string | null = null;
+
+/**
+ * Get (or create) this device's persistent scanner ID.
+ *
+ * @returns The device ID, or null outside the browser
+ */
+export function getScannerDeviceId(): string | null {
+  if (cachedDeviceId) return cachedDeviceId;
+  if (typeof window === "undefined") return null;
+
+  try {
+    const stored = window.localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (stored) {
+      cachedDeviceId = stored;
+      return stored;
+    }
+
+    const generated =
+      typeof crypto !== "undefined" && "randomUUID" in crypto
+        ? crypto.randomUUID()
+        : `device_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+    window.localStorage.setItem(DEVICE_ID_STORAGE_KEY, generated);
+    cachedDeviceId = generated;
+    return generated;
+  } catch {
+    // Storage blocked (private mode); scans are uploaded without a device ID
+    return null;
+  }
+}
+
+/**
+ * Short, human-readable label for a device ID, e.g. "Device 3F2A".
+ */
+export function formatDeviceLabel(deviceId: string | null | undefined): string {
+  if (!deviceId) return "another device";
+  return `Device ${deviceId.replace(/[^a-z0-9]/gi, "").slice(0, 4).toUpperCase()}`;
+}
@@ -0,0 +1,131 @@
+/**
+ * Offline resolution of scanned QR values to allowed students.
+ *
+ * Signed codes (SQR1.*) are verified with the public keys downloaded in the
+ * event's qrPolicy, then checked for expiry, rotation and revocation. Bare
+ * qr_hash codes are matched verbatim while the legacy transition period lasts.
+ */
+
+import {
+  checkQrCredential,
+  importQrVerificationKey,
+  isLegacyQrHashAccepted,
+  isSignedQrToken,
+  parseQrToken,
+  verifyQrTokenSignature,
+} from "@/modules/sems/application/qr-token";
+import type { QrPublicKeyDto } from "@/modules/sems/domain/types";
+import { scannerDb, type AllowedStudentRecord, type ScannerEventRecord } from "./scanner-db";
+
+type ScannerDbInstance = typeof scannerDb;
+
+/**
+ * Result of resolving a scanned value.
+ *
+ * @remarks
+ * `student` may be set together with `reason` when the code belongs to a
+ * known student but is expired, replaced or revoked.
+ */
+export interface ScannedStudentResolution {
+  student: AllowedStudentRecord | null;
+  /** Why the scan must be denied, or null if the code is valid */
+  reason: string | null;
+}
+
+const NOT_REGISTERED_REASON = "This student is not registered for this event.";
+
+/** Imported verification keys by key ID. */
+const verificationKeys = new Map<string, Promise<CryptoKey>>();
+
+function getVerificationKey(publicKey: QrPublicKeyDto): Promise<CryptoKey> {
+  let key = verificationKeys.get(publicKey.keyId);
+  if (!key) {
+    key = importQrVerificationKey(publicKey.publicKey);
+    verificationKeys.set(publicKey.keyId, key);
+    key.catch(() => verificationKeys.delete(publicKey.keyId));
+  }
+  return key;
+}
+
+/**
+ * Resolve a scanned QR value to an allowed student of the event.
+ *
+ * @param eventRecord - The downloaded event (provides the QR policy)
+ * @param rawValue - Trimmed value read from the QR code
+ */
+export async function resolveScannedStudent(
+  eventRecord: ScannerEventRecord,
+  rawValue: string,
+  db: ScannerDbInstance = scannerDb
+): Promise<ScannedStudentResolution> {
+  const policy = eventRecord.qrPolicy ?? null;
+
+  if (!isSignedQrToken(rawValue)) {
+    if (!isLegacyQrHashAccepted(policy)) {
+      return {
+        student: null,
+        reason: "Old-style QR codes are no longer accepted. Ask the registrar for a new one.",
+      };
+    }
+
+    const student = await db.allowedStudents
+      .where("[eventId+qrHash]")
+      .equals([eventRecord.id, rawValue])
+      .first();
+
+    if (!student) {
+      return { student: null, reason: NOT_REGISTERED_REASON };
+    }
+    if (student.qrRevokedAt) {
+      return {
+        student,
+        reason: "This QR code has been revoked. Ask the registrar for a new one.",
+      };
+    }
+    return { student, reason: null };
+  }
+
+  const token = parseQrToken(rawValue);
+  if (!token) {
+    return { student: null, reason: "This QR code is not valid." };
+  }
+
+  if (!policy) {
+    return {
+      student: null,
+      reason: "Refresh this event's scanner data to verify signed QR codes.",
+    };
+  }
+
+  const publicKey = policy.publicKeys.find((key) => key.keyId === token.keyId);
+  if (!publicKey) {
+    return {
+      student: null,
+      reason: "This QR code was signed with an unknown key. Refresh scanner data and try again.",
+    };
+  }
+
+  if (!(await verifyQrTokenSignature(token, await getVerificationKey(publicKey)))) {
+    return { student: null, reason: "This QR code failed verification." };
+  }
+
+  const student = await db.allowedStudents
+    .where("[eventId+studentId]")
+    .equals([eventRecord.id, token.studentId])
+    .first();
+
+  if (!student) {
+    return { student: null, reason: NOT_REGISTERED_REASON };
+  }
+
+  const check = checkQrCredential(
+    token,
+    {
+      qrIssuedAt: student.qrIssuedAt ?? new Date(0).toISOString(),
+      qrRevokedAt: student.qrRevokedAt ?? null,
+    },
+    policy
+  );
+
+  return { student, reason: check.valid ? null : check.reason };
+}
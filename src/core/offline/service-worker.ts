@@ -0,0 +1,109 @@
+/**
+ * Client-side helpers for the scanner service worker (public/sw.js).
+ *
+ * Registration, warming the cache for downloaded events, and reading Cache
+ * Storage to report what is available offline.
+ */
+
+/** Cache names; keep in sync with public/sw.js. */
+const CACHE_VERSION = "v2";
+const PAGES_CACHE = `sems-pages-${CACHE_VERSION}`;
+const ASSETS_CACHE = `sems-assets-${CACHE_VERSION}`;
+const API_CACHE = `sems-api-${CACHE_VERSION}`;
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * What the service worker has cached for offline use.
+ */
+export interface OfflineCacheSummary {
+  /** Service worker installed and controlling this page */
+  isControlled: boolean;
+  /** Cached scanner page paths, e.g. /sems/scan/<eventId> */
+  routes: string[];
+  /** Cached JavaScript chunks (includes the ZXing decoder) */
+  scriptCount: number;
+  /** Cached stylesheets */
+  styleCount: number;
+  /** Cached font files */
+  fontCount: number;
+}
+
+function isServiceWorkerSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "caches" in window;
+}
+
+/**
+ * Register the service worker. No-op in development, where cached chunks
+ * would fight with hot reloading.
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (!isServiceWorkerSupported() || process.env.NODE_ENV !== "production") {
+    return;
+  }
+
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: "/" });
+  } catch (error) {
+    console.error("[service-worker] Registration failed", error);
+  }
+}
+
+/**
+ * Ask the service worker to cache scanner pages (and their assets) so they
+ * load offline, e.g. after an event's scanner data is downloaded.
+ */
+export async function cacheScannerRoutes(paths: string[]): Promise<void> {
+  if (!isServiceWorkerSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: "CACHE_ROUTES", urls: paths });
+}
+
+/**
+ * Drop cached API responses, so one user's session and scanner data are not
+ * served offline after they sign out or someone else signs in. The service
+ * worker also drops them when the session ends on the server.
+ */
+export async function clearOfflineApiCache(): Promise<void> {
+  if (!isServiceWorkerSupported()) return;
+  await caches.delete(API_CACHE);
+}
+
+/**
+ * Summarise what is currently cached for offline use.
+ */
+export async function getOfflineCacheSummary(): Promise<OfflineCacheSummary> {
+  const summary: OfflineCacheSummary = {
+    isControlled: false,
+    routes: [],
+    scriptCount: 0,
+    styleCount: 0,
+    fontCount: 0,
+  };
+
+  if (!isServiceWorkerSupported()) {
+    return summary;
+  }
+
+  summary.isControlled = !!navigator.serviceWorker.controller;
+
+  const [pages, assets] = await Promise.all([caches.open(PAGES_CACHE), caches.open(ASSETS_CACHE)]);
+
+  summary.routes = (await pages.keys())
+    .map((request) => new URL(request.url).pathname)
+    .sort();
+
+  for (const request of await assets.keys()) {
+    const pathname = new URL(request.url).pathname;
+    if (pathname.endsWith(".js")) {
+      summary.scriptCount += 1;
+    } else if (pathname.endsWith(".css")) {
+      summary.styleCount += 1;
+    } else if (/\.(woff2?|ttf|otf)$/.test(pathname)) {
+      summary.fontCount += 1;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,5 @@
+/**
+ * Academics Application Module - Public Exports
+ */
+
+export { SchoolCalendarService } from "./school-calendar.service";
@@ -0,0 +1,597 @@
+/**
+ * School Calendar Service
+ *
+ * School years, terms and closures (holidays and class suspensions), and
+ * which dates are non-school days.
+ *
+ * @remarks
+ * - A date is a non-school day when it falls in a closure, on a weekend, or
+ *   (once any school year is set up) outside every school year
+ * - Implements ISchoolCalendarLookup so SEMS can warn about events on
+ *   non-school days and leave them out of recurring series
+ */
+
+import { NotFoundError, ValidationError } from "@/modules/sems";
+import type {
+  EventNonSchoolDay,
+  ISchoolCalendarLookup,
+  ValidationErrorDetail,
+  WorkflowActorContext,
+} from "@/modules/sems";
+import {
+  SCHOOL_CLOSURE_KINDS,
+  type ISchoolCalendarRepository,
+  type SchoolCalendarDto,
+  type SchoolClosureDto,
+  type SchoolClosureInput,
+  type SchoolClosureKind,
+  type SchoolClosureRow,
+  type SchoolTermDto,
+  type SchoolTermInput,
+  type SchoolTermRow,
+  type SchoolYearDto,
+  type SchoolYearInput,
+  type SchoolYearRow,
+} from "../domain";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest range one calendar or non-school day lookup may cover. */
+const MAX_LOOKUP_DAYS = 800;
+
+/** A school year is about ten months; allow some slack for long calendars. */
+const MAX_SCHOOL_YEAR_DAYS = 400;
+
+/** Longest single closure, e.g. a Christmas break. */
+const MAX_CLOSURE_DAYS = 60;
+
+const MAX_NAME_LENGTH = 120;
+
+const MAX_NOTES_LENGTH = 500;
+
+function parseDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  const start = parseDate(startDate);
+  const end = parseDate(endDate);
+  if (!start || !end) return 0;
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+}
+
+function overlaps(a: { start_date: string; end_date: string }, startDate: string, endDate: string): boolean {
+  return a.start_date <= endDate && a.end_date >= startDate;
+}
+
+function toTermDto(row: SchoolTermRow): SchoolTermDto {
+  return {
+    id: row.id,
+    schoolYearId: row.school_year_id,
+    name: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+  };
+}
+
+function toClosureDto(row: SchoolClosureRow): SchoolClosureDto {
+  return {
+    id: row.id,
+    kind: row.kind,
+    name: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    notes: row.notes,
+  };
+}
+
+function isClosureKind(value: unknown): value is SchoolClosureKind {
+  return typeof value === "string" && (SCHOOL_CLOSURE_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Service for the school calendar.
+ *
+ * @remarks
+ * Dependency Injection: Receives the school calendar repository via constructor.
+ * Callers restrict changes to administrators; reads are open to staff.
+ */
+export class SchoolCalendarService implements ISchoolCalendarLookup {
+  constructor(private readonly calendarRepository: ISchoolCalendarRepository) {}
+
+  // ==========================================================================
+  // Calendar & Non-School Days
+  // ==========================================================================
+
+  /**
+   * School years, closures and non-school days for a date range.
+   *
+   * @throws ValidationError if the range is invalid or too long
+   */
+  async getCalendar(startDate: string, endDate: string): Promise<SchoolCalendarDto> {
+    this.assertLookupRange(startDate, endDate);
+
+    const [years, closures, nonSchoolDays] = await Promise.all([
+      this.calendarRepository.findSchoolYears({ startDate, endDate }),
+      this.calendarRepository.findClosures(startDate, endDate),
+      this.findNonSchoolDays(startDate, endDate),
+    ]);
+
+    return {
+      startDate,
+      endDate,
+      schoolYears: await this.toSchoolYearDtos(years),
+      closures: closures.map(toClosureDto),
+      nonSchoolDays,
+    };
+  }
+
+  /**
+   * Non-school days from `startDate` to `endDate` inclusive, by date.
+   *
+   * @throws ValidationError if the range is invalid or too long
+   */
+  async findNonSchoolDays(startDate: string, endDate: string): Promise<EventNonSchoolDay[]> {
+    this.assertLookupRange(startDate, endDate);
+
+    const [closures, years, anyYear] = await Promise.all([
+      this.calendarRepository.findClosures(startDate, endDate),
+      this.calendarRepository.findSchoolYears({ startDate, endDate }),
+      this.calendarRepository.findSchoolYears().then((rows) => rows.length > 0),
+    ]);
+
+    const days: EventNonSchoolDay[] = [];
+    const start = parseDate(startDate)!;
+    const end = parseDate(endDate)!;
+
+    for (let time = start.getTime(); time <= end.getTime(); time += DAY_MS) {
+      const date = new Date(time).toISOString().slice(0, 10);
+
+      // A holiday inside a suspension (or vice versa) reads better as the holiday
+      const closure =
+        closures.find((row) => row.kind === "holiday" && overlaps(row, date, date)) ??
+        closures.find((row) => overlaps(row, date, date));
+      if (closure) {
+        days.push({ date, reason: closure.kind, name: closure.name });
+        continue;
+      }
+
+      const weekday = new Date(time).getUTCDay();
+      if (weekday === 0 || weekday === 6) {
+        days.push({ date, reason: "weekend", name: null });
+        continue;
+      }
+
+      if (anyYear && !years.some((year) => overlaps(year, date, date))) {
+        days.push({ date, reason: "outside_school_year", name: null });
+      }
+    }
+
+    return days;
+  }
+
+  // ==========================================================================
+  // School Years & Terms
+  // ==========================================================================
+
+  /**
+   * Every school year with its terms, oldest first.
+   */
+  async listSchoolYears(): Promise<SchoolYearDto[]> {
+    return this.toSchoolYearDtos(await this.calendarRepository.findSchoolYears());
+  }
+
+  /**
+   * Create a school year.
+   *
+   * @throws ValidationError if the input is invalid or overlaps another year
+   */
+  async createSchoolYear(input: SchoolYearInput, actor: WorkflowActorContext): Promise<SchoolYearDto> {
+    const errors = this.validateSchoolYear(input);
+    if (errors.length === 0) {
+      errors.push(...(await this.findYearOverlaps(input.startDate, input.endDate, null)));
+    }
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid school year", errors);
+    }
+
+    const row = await this.calendarRepository.createSchoolYear({
+      name: input.name.trim(),
+      start_date: input.startDate,
+      end_date: input.endDate,
+      is_current: input.isCurrent === true,
+      created_by: actor.userId,
+    });
+
+    if (row.is_current) {
+      await this.calendarRepository.clearCurrentSchoolYear(row.id);
+    }
+
+    return this.toSchoolYearDto(row, []);
+  }
+
+  /**
+   * Update a school year; omitted fields keep their values.
+   *
+   * @throws NotFoundError if the school year doesn't exist
+   * @throws ValidationError if the result is invalid, overlaps another year,
+   *   or would leave a term outside the year
+   */
+  async updateSchoolYear(
+    id: string,
+    input: Partial<SchoolYearInput>,
+    actor: WorkflowActorContext
+  ): Promise<SchoolYearDto> {
+    const existing = await this.findSchoolYear(id);
+    const merged: SchoolYearInput = {
+      name: input.name ?? existing.name,
+      startDate: input.startDate ?? existing.start_date,
+      endDate: input.endDate ?? existing.end_date,
+      isCurrent: input.isCurrent ?? existing.is_current,
+    };
+
+    const errors = this.validateSchoolYear(merged);
+    const terms = await this.calendarRepository.findTerms([id]);
+    if (errors.length === 0) {
+      errors.push(...(await this.findYearOverlaps(merged.startDate, merged.endDate, id)));
+      const outside = terms.find((term) => term.start_date < merged.startDate || term.end_date > merged.endDate);
+      if (outside) {
+        errors.push({
+          field: "startDate",
+          message: `Term "${outside.name}" would fall outside the school year`,
+          code: "INVALID_RANGE",
+        });
+      }
+    }
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid school year", errors);
+    }
+
+    const row = await this.calendarRepository.updateSchoolYear(
+      id,
+      {
+        name: merged.name.trim(),
+        start_date: merged.startDate,
+        end_date: merged.endDate,
+        is_current: merged.isCurrent === true,
+      },
+      actor.userId
+    );
+
+    if (row.is_current && !existing.is_current) {
+      await this.calendarRepository.clearCurrentSchoolYear(row.id);
+    }
+
+    return this.toSchoolYearDto(row, terms);
+  }
+
+  /**
+   * Delete a school year and its terms.
+   *
+   * @throws NotFoundError if the school year doesn't exist
+   */
+  async deleteSchoolYear(id: string): Promise<void> {
+    await this.findSchoolYear(id);
+    await this.calendarRepository.deleteSchoolYear(id);
+  }
+
+  /**
+   * Add a term to a school year.
+   *
+   * @throws NotFoundError if the school year doesn't exist
+   * @throws ValidationError if the term is invalid, outside the year, or
+   *   overlaps another term
+   */
+  async createTerm(schoolYearId: string, input: SchoolTermInput): Promise<SchoolTermDto> {
+    const year = await this.findSchoolYear(schoolYearId);
+
+    const errors = await this.validateTerm(year, input, null);
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid school term", errors);
+    }
+
+    const row = await this.calendarRepository.createTerm({
+      school_year_id: year.id,
+      name: input.name.trim(),
+      start_date: input.startDate,
+      end_date: input.endDate,
+    });
+
+    return toTermDto(row);
+  }
+
+  /**
+   * Update a term; omitted fields keep their values.
+   *
+   * @throws NotFoundError if the term doesn't exist
+   * @throws ValidationError if the result is invalid
+   */
+  async updateTerm(id: string, input: Partial<SchoolTermInput>): Promise<SchoolTermDto> {
+    const existing = await this.calendarRepository.findTermById(id);
+    if (!existing) {
+      throw new NotFoundError("School term not found", "school_term", id);
+    }
+    const year = await this.findSchoolYear(existing.school_year_id);
+
+    const merged: SchoolTermInput = {
+      name: input.name ?? existing.name,
+      startDate: input.startDate ?? existing.start_date,
+      endDate: input.endDate ?? existing.end_date,
+    };
+
+    const errors = await this.validateTerm(year, merged, id);
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid school term", errors);
+    }
+
+    const row = await this.calendarRepository.updateTerm(id, {
+      name: merged.name.trim(),
+      start_date: merged.startDate,
+      end_date: merged.endDate,
+    });
+
+    return toTermDto(row);
+  }
+
+  /**
+   * Delete a term.
+   *
+   * @throws NotFoundError if the term doesn't exist
+   */
+  async deleteTerm(id: string): Promise<void> {
+    const existing = await this.calendarRepository.findTermById(id);
+    if (!existing) {
+      throw new NotFoundError("School term not found", "school_term", id);
+    }
+    await this.calendarRepository.deleteTerm(id);
+  }
+
+  // ==========================================================================
+  // Closures
+  // ==========================================================================
+
+  /**
+   * Closures overlapping a date range.
+   *
+   * @throws ValidationError if the range is invalid or too long
+   */
+  async listClosures(startDate: string, endDate: string): Promise<SchoolClosureDto[]> {
+    this.assertLookupRange(startDate, endDate);
+    const rows = await this.calendarRepository.findClosures(startDate, endDate);
+    return rows.map(toClosureDto);
+  }
+
+  /**
+   * Record a holiday or class suspension.
+   *
+   * @throws ValidationError if the input is invalid
+   */
+  async createClosure(input: SchoolClosureInput, actor: WorkflowActorContext): Promise<SchoolClosureDto> {
+    const errors = this.validateClosure(input);
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid school closure", errors);
+    }
+
+    const row = await this.calendarRepository.createClosure({
+      kind: input.kind,
+      name: input.name.trim(),
+      start_date: input.startDate,
+      end_date: input.endDate,
+      notes: input.notes?.trim() || null,
+      created_by: actor.userId,
+    });
+
+    return toClosureDto(row);
+  }
+
+  /**
+   * Update a closure; omitted fields keep their values.
+   *
+   * @throws NotFoundError if the closure doesn't exist
+   * @throws ValidationError if the result is invalid
+   */
+  async updateClosure(
+    id: string,
+    input: Partial<SchoolClosureInput>,
+    actor: WorkflowActorContext
+  ): Promise<SchoolClosureDto> {
+    const existing = await this.calendarRepository.findClosureById(id);
+    if (!existing) {
+      throw new NotFoundError("School closure not found", "school_closure", id);
+    }
+
+    const merged: SchoolClosureInput = {
+      kind: input.kind ?? existing.kind,
+      name: input.name ?? existing.name,
+      startDate: input.startDate ?? existing.start_date,
+      endDate: input.endDate ?? existing.end_date,
+      notes: input.notes !== undefined ? input.notes : existing.notes,
+    };
+
+    const errors = this.validateClosure(merged);
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid school closure", errors);
+    }
+
+    const row = await this.calendarRepository.updateClosure(
+      id,
+      {
+        kind: merged.kind,
+        name: merged.name.trim(),
+        start_date: merged.startDate,
+        end_date: merged.endDate,
+        notes: merged.notes?.trim() || null,
+      },
+      actor.userId
+    );
+
+    return toClosureDto(row);
+  }
+
+  /**
+   * Delete a closure.
+   *
+   * @throws NotFoundError if the closure doesn't exist
+   */
+  async deleteClosure(id: string): Promise<void> {
+    const existing = await this.calendarRepository.findClosureById(id);
+    if (!existing) {
+      throw new NotFoundError("School closure not found", "school_closure", id);
+    }
+    await this.calendarRepository.deleteClosure(id);
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async findSchoolYear(id: string): Promise<SchoolYearRow> {
+    const year = await this.calendarRepository.findSchoolYearById(id);
+    if (!year) {
+      throw new NotFoundError("School year not found", "school_year", id);
+    }
+    return year;
+  }
+
+  private assertLookupRange(startDate: string, endDate: string): void {
+    const errors = this.validateDateRange(startDate, endDate, MAX_LOOKUP_DAYS);
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid date range", errors);
+    }
+  }
+
+  private validateDateRange(startDate: unknown, endDate: unknown, maxDays: number): ValidationErrorDetail[] {
+    const errors: ValidationErrorDetail[] = [];
+
+    if (typeof startDate !== "string" || !parseDate(startDate)) {
+      errors.push({ field: "startDate", message: "Start date must be a valid YYYY-MM-DD date", code: "INVALID_FORMAT" });
+    }
+    if (typeof endDate !== "string" || !parseDate(endDate)) {
+      errors.push({ field: "endDate", message: "End date must be a valid YYYY-MM-DD date", code: "INVALID_FORMAT" });
+    }
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    const days = daysBetween(startDate as string, endDate as string);
+    if (days < 0) {
+      errors.push({ field: "endDate", message: "End date cannot be before start date", code: "INVALID_RANGE" });
+    } else if (days >= maxDays) {
+      errors.push({ field: "endDate", message: `The range can cover at most ${maxDays} days`, code: "INVALID_RANGE" });
+    }
+
+    return errors;
+  }
+
+  private validateName(name: unknown): ValidationErrorDetail[] {
+    if (typeof name !== "string" || !name.trim()) {
+      return [{ field: "name", message: "Name is required", code: "REQUIRED" }];
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return [{ field: "name", message: `Name must be ${MAX_NAME_LENGTH} characters or less`, code: "MAX_LENGTH" }];
+    }
+    return [];
+  }
+
+  private validateSchoolYear(input: SchoolYearInput): ValidationErrorDetail[] {
+    return [
+      ...this.validateName(input.name),
+      ...this.validateDateRange(input.startDate, input.endDate, MAX_SCHOOL_YEAR_DAYS),
+    ];
+  }
+
+  private async findYearOverlaps(
+    startDate: string,
+    endDate: string,
+    excludeId: string | null
+  ): Promise<ValidationErrorDetail[]> {
+    const overlapping = (await this.calendarRepository.findSchoolYears({ startDate, endDate })).filter(
+      (year) => year.id !== excludeId
+    );
+    return overlapping.map((year) => ({
+      field: "startDate",
+      message: `Overlaps ${year.name} (${year.start_date} to ${year.end_date})`,
+      code: "OVERLAP",
+    }));
+  }
+
+  private async validateTerm(
+    year: SchoolYearRow,
+    input: SchoolTermInput,
+    excludeId: string | null
+  ): Promise<ValidationErrorDetail[]> {
+    const errors = [
+      ...this.validateName(input.name),
+      ...this.validateDateRange(input.startDate, input.endDate, MAX_SCHOOL_YEAR_DAYS),
+    ];
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    if (input.startDate < year.start_date || input.endDate > year.end_date) {
+      errors.push({
+        field: "startDate",
+        message: `Term must fall within ${year.name} (${year.start_date} to ${year.end_date})`,
+        code: "INVALID_RANGE",
+      });
+    }
+
+    const siblings = await this.calendarRepository.findTerms([year.id]);
+    const overlapping = siblings.find(
+      (term) => term.id !== excludeId && overlaps(term, input.startDate, input.endDate)
+    );
+    if (overlapping) {
+      errors.push({
+        field: "startDate",
+        message: `Overlaps ${overlapping.name} (${overlapping.start_date} to ${overlapping.end_date})`,
+        code: "OVERLAP",
+      });
+    }
+
+    return errors;
+  }
+
+  private validateClosure(input: SchoolClosureInput): ValidationErrorDetail[] {
+    const errors = [
+      ...this.validateName(input.name),
+      ...this.validateDateRange(input.startDate, input.endDate, MAX_CLOSURE_DAYS),
+    ];
+
+    if (!isClosureKind(input.kind)) {
+      errors.push({ field: "kind", message: "Kind must be holiday or suspension", code: "INVALID_VALUE" });
+    }
+
+    if (input.notes !== undefined && input.notes !== null) {
+      if (typeof input.notes !== "string") {
+        errors.push({ field: "notes", message: "Notes must be text", code: "INVALID_TYPE" });
+      } else if (input.notes.trim().length > MAX_NOTES_LENGTH) {
+        errors.push({ field: "notes", message: `Notes must be ${MAX_NOTES_LENGTH} characters or less`, code: "MAX_LENGTH" });
+      }
+    }
+
+    return errors;
+  }
+
+  private async toSchoolYearDtos(years: SchoolYearRow[]): Promise<SchoolYearDto[]> {
+    const terms = await this.calendarRepository.findTerms(years.map((year) => year.id));
+    return years.map((year) =>
+      this.toSchoolYearDto(
+        year,
+        terms.filter((term) => term.school_year_id === year.id)
+      )
+    );
+  }
+
+  private toSchoolYearDto(row: SchoolYearRow, terms: SchoolTermRow[]): SchoolYearDto {
+    return {
+      id: row.id,
+      name: row.name,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      isCurrent: row.is_current,
+      terms: terms.map(toTermDto),
+    };
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Academics Domain Module - Public Exports
+ */
+
+export * from "./types";
+export * from "./interfaces";
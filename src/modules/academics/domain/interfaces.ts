@@ -0,0 +1,74 @@
+/**
+ * Academics Domain Interfaces
+ *
+ * Contracts for the school calendar repository.
+ */
+
+import type {
+  SchoolClosureInsert,
+  SchoolClosureRow,
+  SchoolClosureUpdate,
+  SchoolTermInsert,
+  SchoolTermRow,
+  SchoolTermUpdate,
+  SchoolYearInsert,
+  SchoolYearRow,
+  SchoolYearUpdate,
+} from "./types";
+
+// ============================================================================
+// Repository Interfaces
+// ============================================================================
+
+/**
+ * Repository interface for school years, terms and closures.
+ *
+ * @remarks
+ * Date ranges are inclusive YYYY-MM-DD strings.
+ */
+export interface ISchoolCalendarRepository {
+  /**
+   * School years by start date. Pass a range to get only those overlapping it.
+   */
+  findSchoolYears(range?: { startDate: string; endDate: string }): Promise<SchoolYearRow[]>;
+
+  findSchoolYearById(id: string): Promise<SchoolYearRow | null>;
+
+  createSchoolYear(row: SchoolYearInsert): Promise<SchoolYearRow>;
+
+  updateSchoolYear(id: string, changes: SchoolYearUpdate, updatedBy: string): Promise<SchoolYearRow>;
+
+  /** Also deletes the year's terms */
+  deleteSchoolYear(id: string): Promise<void>;
+
+  /**
+   * Unset is_current on every school year except `exceptId`.
+   */
+  clearCurrentSchoolYear(exceptId: string): Promise<void>;
+
+  /**
+   * Terms of the given school years, by start date.
+   */
+  findTerms(schoolYearIds: string[]): Promise<SchoolTermRow[]>;
+
+  findTermById(id: string): Promise<SchoolTermRow | null>;
+
+  createTerm(row: SchoolTermInsert): Promise<SchoolTermRow>;
+
+  updateTerm(id: string, changes: SchoolTermUpdate): Promise<SchoolTermRow>;
+
+  deleteTerm(id: string): Promise<void>;
+
+  /**
+   * Closures overlapping the range, by start date.
+   */
+  findClosures(startDate: string, endDate: string): Promise<SchoolClosureRow[]>;
+
+  findClosureById(id: string): Promise<SchoolClosureRow | null>;
+
+  createClosure(row: SchoolClosureInsert): Promise<SchoolClosureRow>;
+
+  updateClosure(id: string, changes: SchoolClosureUpdate, updatedBy: string): Promise<SchoolClosureRow>;
+
+  deleteClosure(id: string): Promise<void>;
+}
@@ -0,0 +1,155 @@
+/**
+ * Academics Domain Types
+ *
+ * Types for the school calendar: school years, their terms, and closures
+ * (holidays and class suspensions).
+ */
+
+import type { EventNonSchoolDay } from "@/modules/sems";
+
+// ============================================================================
+// Closure Kinds
+// ============================================================================
+
+/**
+ * Why classes are not held on a closure's dates.
+ *
+ * - `holiday`: regular or special non-working holiday
+ * - `suspension`: class suspension (weather, emergencies, school activities)
+ */
+export type SchoolClosureKind = "holiday" | "suspension";
+
+export const SCHOOL_CLOSURE_KINDS: readonly SchoolClosureKind[] = ["holiday", "suspension"] as const;
+
+// ============================================================================
+// Database Row Types
+// ============================================================================
+
+/**
+ * school_years row.
+ */
+export interface SchoolYearRow {
+  id: string;
+  /** e.g. "SY 2026-2027" */
+  name: string;
+  start_date: string;
+  end_date: string;
+  /** At most one year is current */
+  is_current: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type SchoolYearInsert = Pick<SchoolYearRow, "name" | "start_date" | "end_date" | "is_current" | "created_by">;
+
+export type SchoolYearUpdate = Partial<Pick<SchoolYearRow, "name" | "start_date" | "end_date" | "is_current">>;
+
+/**
+ * school_terms row (quarter, semester or trimester of a school year).
+ */
+export interface SchoolTermRow {
+  id: string;
+  school_year_id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  created_at: string;
+}
+
+export type SchoolTermInsert = Pick<SchoolTermRow, "school_year_id" | "name" | "start_date" | "end_date">;
+
+export type SchoolTermUpdate = Partial<Pick<SchoolTermRow, "name" | "start_date" | "end_date">>;
+
+/**
+ * school_closures row. Spans one or more consecutive dates.
+ */
+export interface SchoolClosureRow {
+  id: string;
+  kind: SchoolClosureKind;
+  name: string;
+  start_date: string;
+  end_date: string;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type SchoolClosureInsert = Pick<
+  SchoolClosureRow,
+  "kind" | "name" | "start_date" | "end_date" | "notes" | "created_by"
+>;
+
+export type SchoolClosureUpdate = Partial<Pick<SchoolClosureRow, "kind" | "name" | "start_date" | "end_date" | "notes">>;
+
+// ============================================================================
+// Input Types
+// ============================================================================
+
+export interface SchoolYearInput {
+  name: string;
+  startDate: string;
+  endDate: string;
+  isCurrent?: boolean;
+}
+
+export interface SchoolTermInput {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface SchoolClosureInput {
+  kind: SchoolClosureKind;
+  name: string;
+  startDate: string;
+  endDate: string;
+  notes?: string | null;
+}
+
+// ============================================================================
+// Result DTOs
+// ============================================================================
+
+export interface SchoolTermDto {
+  id: string;
+  schoolYearId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface SchoolYearDto {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  isCurrent: boolean;
+  terms: SchoolTermDto[];
+}
+
+export interface SchoolClosureDto {
+  id: string;
+  kind: SchoolClosureKind;
+  name: string;
+  startDate: string;
+  endDate: string;
+  notes: string | null;
+}
+
+/**
+ * School calendar for a date range, as shown on the dashboard and in SEMS.
+ */
+export interface SchoolCalendarDto {
+  startDate: string;
+  endDate: string;
+  /** School years overlapping the range, with their terms */
+  schoolYears: SchoolYearDto[];
+  /** Closures overlapping the range */
+  closures: SchoolClosureDto[];
+  /** Every non-school day in the range, by date */
+  nonSchoolDays: EventNonSchoolDay[];
+}
@@ -0,0 +1,20 @@
+/**
+ * Academics Module
+ *
+ * School calendar: school years, terms, holidays and class suspensions.
+ * Import from here rather than reaching into internal layers directly.
+ *
+ * @example
+ * ```ts
+ * import { SchoolCalendarRepository, SchoolCalendarService } from "@/modules/academics";
+ * ```
+ */
+
+// Domain types and interfaces
+export * from "./domain";
+
+// Application layer (services)
+export * from "./application";
+
+// Infrastructure layer (repositories)
+export * from "./infrastructure";
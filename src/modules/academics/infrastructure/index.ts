@@ -0,0 +1,5 @@
+/**
+ * Academics Infrastructure Module - Public Exports
+ */
+
+export { SchoolCalendarRepository } from "./school-calendar.repository";
@@ -0,0 +1,374 @@
+/**
+ * School Calendar Repository Implementation
+ *
+ * Handles database access for school years, terms and closures using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
+import type {
+  ISchoolCalendarRepository,
+  SchoolClosureInsert,
+  SchoolClosureRow,
+  SchoolClosureUpdate,
+  SchoolTermInsert,
+  SchoolTermRow,
+  SchoolTermUpdate,
+  SchoolYearInsert,
+  SchoolYearRow,
+  SchoolYearUpdate,
+} from "../domain";
+
+const SCHOOL_YEAR_COLUMNS =
+  "id, name, start_date, end_date, is_current, created_by, created_at, updated_by, updated_at";
+
+const TERM_COLUMNS = "id, school_year_id, name, start_date, end_date, created_at";
+
+const CLOSURE_COLUMNS =
+  "id, kind, name, start_date, end_date, notes, created_by, created_at, updated_by, updated_at";
+
+/**
+ * Supabase implementation of the School Calendar repository. Each school
+ * keeps its own calendar; `schoolId` null reads every school's.
+ */
+export class SchoolCalendarRepository implements ISchoolCalendarRepository {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly schoolId: SchoolScope
+  ) {}
+
+  /**
+   * School years by start date, optionally only those overlapping a range.
+   *
+   * @throws Error if the database query fails
+   */
+  async findSchoolYears(range?: { startDate: string; endDate: string }): Promise<SchoolYearRow[]> {
+    let query = this.supabase
+      .from("school_years")
+      .select(SCHOOL_YEAR_COLUMNS)
+      .match(schoolFilter(this.schoolId));
+
+    if (range) {
+      query = query.lte("start_date", range.endDate).gte("end_date", range.startDate);
+    }
+
+    const { data, error } = await query.order("start_date", { ascending: true });
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.findSchoolYears] Database error:", error);
+      throw new Error(`Failed to fetch school years: ${error.message}`);
+    }
+
+    return (data ?? []) as SchoolYearRow[];
+  }
+
+  /**
+   * Find a school year by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findSchoolYearById(id: string): Promise<SchoolYearRow | null> {
+    const { data, error } = await this.supabase
+      .from("school_years")
+      .select(SCHOOL_YEAR_COLUMNS)
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId))
+      .maybeSingle<SchoolYearRow>();
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.findSchoolYearById] Database error:", error);
+      throw new Error(`Failed to fetch school year: ${error.message}`);
+    }
+
+    return data ?? null;
+  }
+
+  /**
+   * Create a school year.
+   *
+   * @throws Error if the database insert fails
+   */
+  async createSchoolYear(row: SchoolYearInsert): Promise<SchoolYearRow> {
+    const { data, error } = await this.supabase
+      .from("school_years")
+      .insert({ ...row, school_id: this.schoolId })
+      .select(SCHOOL_YEAR_COLUMNS)
+      .single<SchoolYearRow>();
+
+    if (error || !data) {
+      console.error("[SchoolCalendarRepository.createSchoolYear] Database error:", error);
+      throw new Error(`Failed to create school year: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Update a school year.
+   *
+   * @throws Error if the database update fails
+   */
+  async updateSchoolYear(id: string, changes: SchoolYearUpdate, updatedBy: string): Promise<SchoolYearRow> {
+    const { data, error } = await this.supabase
+      .from("school_years")
+      .update({ ...changes, updated_by: updatedBy, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId))
+      .select(SCHOOL_YEAR_COLUMNS)
+      .single<SchoolYearRow>();
+
+    if (error || !data) {
+      console.error("[SchoolCalendarRepository.updateSchoolYear] Database error:", error);
+      throw new Error(`Failed to update school year: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a school year; its terms are removed by the foreign key cascade.
+   *
+   * @throws Error if the database delete fails
+   */
+  async deleteSchoolYear(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("school_years")
+      .delete()
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId));
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.deleteSchoolYear] Database error:", error);
+      throw new Error(`Failed to delete school year: ${error.message}`);
+    }
+  }
+
+  /**
+   * Unset is_current on every other school year.
+   *
+   * @throws Error if the database update fails
+   */
+  async clearCurrentSchoolYear(exceptId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("school_years")
+      .update({ is_current: false })
+      .eq("is_current", true)
+      .neq("id", exceptId)
+      .match(schoolFilter(this.schoolId));
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.clearCurrentSchoolYear] Database error:", error);
+      throw new Error(`Failed to update current school year: ${error.message}`);
+    }
+  }
+
+  /**
+   * Terms of the given school years.
+   *
+   * @throws Error if the database query fails
+   */
+  async findTerms(schoolYearIds: string[]): Promise<SchoolTermRow[]> {
+    if (schoolYearIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from("school_terms")
+      .select(TERM_COLUMNS)
+      .in("school_year_id", schoolYearIds)
+      .order("start_date", { ascending: true });
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.findTerms] Database error:", error);
+      throw new Error(`Failed to fetch school terms: ${error.message}`);
+    }
+
+    return (data ?? []) as SchoolTermRow[];
+  }
+
+  /**
+   * Find a term by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findTermById(id: string): Promise<SchoolTermRow | null> {
+    const { data, error } = await this.supabase
+      .from("school_terms")
+      .select(TERM_COLUMNS)
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId))
+      .maybeSingle<SchoolTermRow>();
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.findTermById] Database error:", error);
+      throw new Error(`Failed to fetch school term: ${error.message}`);
+    }
+
+    return data ?? null;
+  }
+
+  /**
+   * Create a term.
+   *
+   * @throws Error if the database insert fails
+   */
+  async createTerm(row: SchoolTermInsert): Promise<SchoolTermRow> {
+    const { data, error } = await this.supabase
+      .from("school_terms")
+      .insert({ ...row, school_id: this.schoolId })
+      .select(TERM_COLUMNS)
+      .single<SchoolTermRow>();
+
+    if (error || !data) {
+      console.error("[SchoolCalendarRepository.createTerm] Database error:", error);
+      throw new Error(`Failed to create school term: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Update a term.
+   *
+   * @throws Error if the database update fails
+   */
+  async updateTerm(id: string, changes: SchoolTermUpdate): Promise<SchoolTermRow> {
+    const { data, error } = await this.supabase
+      .from("school_terms")
+      .update(changes)
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId))
+      .select(TERM_COLUMNS)
+      .single<SchoolTermRow>();
+
+    if (error || !data) {
+      console.error("[SchoolCalendarRepository.updateTerm] Database error:", error);
+      throw new Error(`Failed to update school term: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a term.
+   *
+   * @throws Error if the database delete fails
+   */
+  async deleteTerm(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("school_terms")
+      .delete()
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId));
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.deleteTerm] Database error:", error);
+      throw new Error(`Failed to delete school term: ${error.message}`);
+    }
+  }
+
+  /**
+   * Closures overlapping the range.
+   *
+   * @throws Error if the database query fails
+   */
+  async findClosures(startDate: string, endDate: string): Promise<SchoolClosureRow[]> {
+    const { data, error } = await this.supabase
+      .from("school_closures")
+      .select(CLOSURE_COLUMNS)
+      .lte("start_date", endDate)
+      .gte("end_date", startDate)
+      .match(schoolFilter(this.schoolId))
+      .order("start_date", { ascending: true });
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.findClosures] Database error:", error);
+      throw new Error(`Failed to fetch school closures: ${error.message}`);
+    }
+
+    return (data ?? []) as SchoolClosureRow[];
+  }
+
+  /**
+   * Find a closure by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findClosureById(id: string): Promise<SchoolClosureRow | null> {
+    const { data, error } = await this.supabase
+      .from("school_closures")
+      .select(CLOSURE_COLUMNS)
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId))
+      .maybeSingle<SchoolClosureRow>();
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.findClosureById] Database error:", error);
+      throw new Error(`Failed to fetch school closure: ${error.message}`);
+    }
+
+    return data ?? null;
+  }
+
+  /**
+   * Create a closure.
+   *
+   * @throws Error if the database insert fails
+   */
+  async createClosure(row: SchoolClosureInsert): Promise<SchoolClosureRow> {
+    const { data, error } = await this.supabase
+      .from("school_closures")
+      .insert({ ...row, school_id: this.schoolId })
+      .select(CLOSURE_COLUMNS)
+      .single<SchoolClosureRow>();
+
+    if (error || !data) {
+      console.error("[SchoolCalendarRepository.createClosure] Database error:", error);
+      throw new Error(`Failed to create school closure: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Update a closure.
+   *
+   * @throws Error if the database update fails
+   */
+  async updateClosure(id: string, changes: SchoolClosureUpdate, updatedBy: string): Promise<SchoolClosureRow> {
+    const { data, error } = await this.supabase
+      .from("school_closures")
+      .update({ ...changes, updated_by: updatedBy, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId))
+      .select(CLOSURE_COLUMNS)
+      .single<SchoolClosureRow>();
+
+    if (error || !data) {
+      console.error("[SchoolCalendarRepository.updateClosure] Database error:", error);
+      throw new Error(`Failed to update school closure: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a closure.
+   *
+   * @throws Error if the database delete fails
+   */
+  async deleteClosure(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("school_closures")
+      .delete()
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId));
+
+    if (error) {
+      console.error("[SchoolCalendarRepository.deleteClosure] Database error:", error);
+      throw new Error(`Failed to delete school closure: ${error.message}`);
+    }
+  }
+}
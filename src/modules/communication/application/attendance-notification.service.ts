@@ -0,0 +1,209 @@
+/**
+ * Attendance Notification Service
+ *
+ * Turns attendance notices from SEMS into outbox messages for guardians.
+ *
+ * @remarks
+ * - Each parent account linked to the student gets an in-app message and an
+ *   email to the account's address
+ * - The guardian phone on the student record gets the SMS, governed by the
+ *   primary guardian's preferences
+ * - The guardian email on the student record is used only when no parent
+ *   account is linked
+ * - Templates resolve guardian override → school-wide → built-in
+ * - Every message has a dedupe key, so a re-synced scan or re-run sweep does
+ *   not notify twice
+ */
+
+import { getSchoolTimeZone, type AttendanceNotice, type IAttendanceNotifier } from "@/modules/sems";
+import type {
+  GuardianContactRow,
+  INotificationSettingsRepository,
+  IOutboxRepository,
+  NotificationChannel,
+  NotificationKind,
+  NotificationTemplate,
+  NotificationTemplateRow,
+  OutboxMessageInsert,
+  StudentContactRow,
+} from "../domain";
+import { indexPreferences, isEnabledByDefault, isPreferenceEnabled } from "./preferences";
+import { getDefaultTemplate, renderTemplate, type TemplateVariables } from "./templates";
+
+interface Recipient {
+  channel: NotificationChannel;
+  recipient: string;
+  /** Guardian whose preferences and templates apply, if any */
+  appUserId: string | null;
+}
+
+function templateKey(kind: NotificationKind, channel: NotificationChannel, appUserId: string | null): string {
+  return `${kind}:${channel}:${appUserId ?? "school"}`;
+}
+
+function formatStudentName(student: StudentContactRow | undefined): string {
+  if (!student) return "Your child";
+  const name = [student.first_name, student.last_name].filter(Boolean).join(" ").trim();
+  return name || "Your child";
+}
+
+/**
+ * Service that queues guardian notifications for attendance changes.
+ *
+ * @remarks
+ * Dependency Injection: Receives the notification settings and outbox
+ * repositories via constructor.
+ */
+export class AttendanceNotificationService implements IAttendanceNotifier {
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly settingsRepository: INotificationSettingsRepository,
+    private readonly outboxRepository: IOutboxRepository,
+    timeZone?: string
+  ) {
+    this.timeZone = timeZone ?? getSchoolTimeZone();
+  }
+
+  /**
+   * Queue messages for the given notices.
+   *
+   * @remarks
+   * Only queues; the outbox dispatcher delivers.
+   *
+   * @throws Error if a repository call fails
+   */
+  async notifyAttendance(notices: AttendanceNotice[]): Promise<void> {
+    if (notices.length === 0) return;
+
+    const studentIds = Array.from(new Set(notices.map((notice) => notice.studentId)));
+    const [students, guardians] = await Promise.all([
+      this.settingsRepository.findStudentContacts(studentIds),
+      this.settingsRepository.findGuardianContacts(studentIds),
+    ]);
+
+    const studentById = new Map(students.map((student) => [student.id, student]));
+    const guardiansByStudent = new Map<string, GuardianContactRow[]>();
+    for (const guardian of guardians) {
+      const list = guardiansByStudent.get(guardian.student_id) ?? [];
+      list.push(guardian);
+      guardiansByStudent.set(guardian.student_id, list);
+    }
+
+    const guardianIds = Array.from(new Set(guardians.map((guardian) => guardian.app_user_id)));
+    const [preferenceRows, templateRows] = await Promise.all([
+      guardianIds.length > 0 ? this.settingsRepository.findPreferences(guardianIds) : Promise.resolve([]),
+      this.settingsRepository.findTemplates(guardianIds),
+    ]);
+    const preferences = indexPreferences(preferenceRows);
+    const templates = new Map<string, NotificationTemplateRow>(
+      templateRows.map((row) => [templateKey(row.kind, row.channel, row.app_user_id), row])
+    );
+
+    const rows: OutboxMessageInsert[] = [];
+
+    for (const notice of notices) {
+      const student = studentById.get(notice.studentId);
+      const variables = this.buildVariables(notice, student);
+
+      for (const target of this.resolveRecipients(student, guardiansByStudent.get(notice.studentId) ?? [])) {
+        const enabled = target.appUserId
+          ? isPreferenceEnabled(preferences, target.appUserId, notice.kind, target.channel)
+          : isEnabledByDefault(notice.kind, target.channel);
+        if (!enabled) continue;
+
+        const template = this.resolveTemplate(templates, notice.kind, target.channel, target.appUserId);
+        rows.push({
+          channel: target.channel,
+          recipient: target.recipient,
+          recipient_user_id: target.appUserId,
+          student_id: notice.studentId,
+          kind: notice.kind,
+          subject: template.subject ? renderTemplate(template.subject, variables) : null,
+          body: renderTemplate(template.body, variables),
+          dedupe_key: `${notice.kind}:${notice.eventSessionId}:${notice.studentId}:${target.channel}:${target.recipient}`,
+        });
+      }
+    }
+
+    if (rows.length > 0) {
+      await this.outboxRepository.enqueue(rows);
+    }
+  }
+
+  /**
+   * Where a student's notices go.
+   */
+  private resolveRecipients(
+    student: StudentContactRow | undefined,
+    guardians: GuardianContactRow[]
+  ): Recipient[] {
+    const recipients: Recipient[] = [];
+    const seen = new Set<string>();
+    const add = (recipient: Recipient) => {
+      const key = `${recipient.channel}:${recipient.recipient.toLowerCase()}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      recipients.push(recipient);
+    };
+
+    for (const guardian of guardians) {
+      add({ channel: "in_app", recipient: guardian.app_user_id, appUserId: guardian.app_user_id });
+      if (guardian.email?.trim()) {
+        add({ channel: "email", recipient: guardian.email.trim(), appUserId: guardian.app_user_id });
+      }
+    }
+
+    const primary = guardians.find((guardian) => guardian.is_primary) ?? guardians[0] ?? null;
+    const phone = student?.guardian_phone?.trim();
+    if (phone) {
+      add({ channel: "sms", recipient: phone, appUserId: primary?.app_user_id ?? null });
+    }
+
+    const email = student?.guardian_email?.trim();
+    if (email && guardians.length === 0) {
+      add({ channel: "email", recipient: email, appUserId: null });
+    }
+
+    return recipients;
+  }
+
+  private resolveTemplate(
+    templates: Map<string, NotificationTemplateRow>,
+    kind: NotificationKind,
+    channel: NotificationChannel,
+    appUserId: string | null
+  ): NotificationTemplate {
+    const row =
+      (appUserId ? templates.get(templateKey(kind, channel, appUserId)) : undefined) ??
+      templates.get(templateKey(kind, channel, null));
+
+    if (!row) return getDefaultTemplate(kind, channel);
+    return { subject: channel === "sms" ? null : row.subject, body: row.body };
+  }
+
+  private buildVariables(notice: AttendanceNotice, student: StudentContactRow | undefined): TemplateVariables {
+    const occurredAt = new Date(notice.occurredAt);
+    const time = Number.isNaN(occurredAt.getTime())
+      ? ""
+      : new Intl.DateTimeFormat("en-US", {
+          timeZone: this.timeZone,
+          hour: "numeric",
+          minute: "2-digit",
+        }).format(occurredAt);
+    const date = new Intl.DateTimeFormat("en-US", {
+      timeZone: "UTC",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    }).format(new Date(`${notice.date}T00:00:00Z`));
+
+    return {
+      studentName: formatStudentName(student),
+      eventTitle: notice.eventTitle,
+      sessionName: notice.sessionName,
+      date,
+      time,
+    };
+  }
+}
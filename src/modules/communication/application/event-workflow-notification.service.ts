@@ -0,0 +1,142 @@
+/**
+ * Event Workflow Notification Service
+ *
+ * Turns event workflow notices from SEMS into in-app notifications.
+ *
+ * @remarks
+ * - Submitted events notify every active user holding `events.approve`
+ * - Approval, rejection (with the comment) and publishing notify the owner
+ * - Cancellation notifies the owner and the assigned scanners
+ * - Scanners added through scannerConfig are told about the assignment
+ * - Nobody is notified about their own action
+ */
+
+import { rolesWithPermission } from "@/core/auth/role-permissions";
+import type { EventWorkflowNotice, EventWorkflowNoticeKind, IEventWorkflowNotifier } from "@/modules/sems";
+import type { INotificationRepository, InAppNotificationKind, NotificationInsert } from "../domain";
+
+const NOTIFICATION_KINDS: Record<EventWorkflowNoticeKind, InAppNotificationKind> = {
+  submitted: "event_submitted",
+  approved: "event_approved",
+  rejected: "event_rejected",
+  published: "event_published",
+  cancelled: "event_cancelled",
+  scanner_assigned: "scanner_assigned",
+};
+
+/**
+ * Event management page; opens the event's edit dialog.
+ */
+function eventLink(eventId: string): string {
+  return `/sems?event=${encodeURIComponent(eventId)}`;
+}
+
+/**
+ * Scanner page for the event.
+ */
+function scanLink(eventId: string): string {
+  return `/sems/scan/${encodeURIComponent(eventId)}`;
+}
+
+/** Scanner event list, for events that can no longer be scanned. */
+const SCANNER_EVENTS_LINK = "/sems/scan";
+
+function describe(notice: EventWorkflowNotice): { title: string; body: string | null } {
+  const title = `"${notice.eventTitle}"`;
+  const comment = notice.comment?.trim() || null;
+
+  switch (notice.kind) {
+    case "submitted":
+      return { title: `${title} is waiting for approval`, body: null };
+    case "approved":
+      return { title: `${title} was approved`, body: comment };
+    case "rejected":
+      return { title: `${title} was returned for changes`, body: comment };
+    case "published":
+      return { title: `${title} is now published`, body: null };
+    case "cancelled":
+      return { title: `${title} was cancelled`, body: comment };
+    case "scanner_assigned":
+      return { title: `You were assigned to scan ${title}`, body: null };
+  }
+}
+
+/**
+ * Service that creates in-app notifications for event workflow changes.
+ *
+ * @remarks
+ * Dependency Injection: Receives the notification repository via constructor.
+ */
+export class EventWorkflowNotificationService implements IEventWorkflowNotifier {
+  constructor(private readonly notificationRepository: INotificationRepository) {}
+
+  /**
+   * Create notifications for the given notices.
+   *
+   * @throws Error if a repository call fails
+   */
+  async notifyWorkflow(notices: EventWorkflowNotice[]): Promise<void> {
+    if (notices.length === 0) return;
+
+    // Approvers of each event's school (and super admins), loaded once per school
+    const approverIdsBySchool = new Map<string, string[]>();
+    for (const notice of notices) {
+      if (notice.kind === "submitted" && !approverIdsBySchool.has(notice.schoolId)) {
+        approverIdsBySchool.set(
+          notice.schoolId,
+          await this.notificationRepository.findActiveUserIdsByRoles(
+            await rolesWithPermission("events.approve"),
+            notice.schoolId
+          )
+        );
+      }
+    }
+
+    const rows: NotificationInsert[] = [];
+
+    for (const notice of notices) {
+      const { title, body } = describe(notice);
+      const recipients = new Set(this.resolveRecipients(notice, approverIdsBySchool.get(notice.schoolId) ?? []));
+      recipients.delete(notice.actorUserId);
+
+      for (const recipientId of recipients) {
+        const link =
+          notice.kind === "scanner_assigned"
+            ? scanLink(notice.eventId)
+            : notice.kind === "cancelled" && recipientId !== notice.ownerUserId
+              ? SCANNER_EVENTS_LINK
+              : eventLink(notice.eventId);
+
+        rows.push({
+          recipient_user_id: recipientId,
+          kind: NOTIFICATION_KINDS[notice.kind],
+          title,
+          body,
+          link,
+          event_id: notice.eventId,
+        });
+      }
+    }
+
+    if (rows.length > 0) {
+      await this.notificationRepository.insert(rows);
+    }
+  }
+
+  private resolveRecipients(notice: EventWorkflowNotice, approverIds: string[]): string[] {
+    const owner = notice.ownerUserId ? [notice.ownerUserId] : [];
+
+    switch (notice.kind) {
+      case "submitted":
+        return approverIds;
+      case "approved":
+      case "rejected":
+      case "published":
+        return owner;
+      case "cancelled":
+        return [...owner, ...notice.scannerUserIds];
+      case "scanner_assigned":
+        return notice.scannerUserIds;
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Communication Application Module - Public Exports
+ */
+
+export { AttendanceNotificationService } from "./attendance-notification.service";
+export { OutboxDispatcherService } from "./outbox-dispatcher.service";
+export { NotificationSettingsService } from "./notification-settings.service";
+export { TEMPLATE_PLACEHOLDERS, getDefaultTemplate, renderTemplate } from "./templates";
+export { EventWorkflowNotificationService } from "./event-workflow-notification.service";
+export { NotificationInboxService } from "./notification-inbox.service";
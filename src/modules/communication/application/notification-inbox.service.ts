@@ -0,0 +1,90 @@
+/**
+ * Notification Inbox Service
+ *
+ * The signed-in user's in-app notifications: listing, unread count and
+ * read state. Users only ever see and change their own notifications.
+ */
+
+import { ValidationError } from "@/modules/sems";
+import type {
+  INotificationRepository,
+  ListNotificationsOptions,
+  NotificationDto,
+  NotificationListDto,
+  NotificationRow,
+} from "../domain";
+
+const DEFAULT_LIMIT = 20;
+
+const MAX_LIMIT = 50;
+
+/** Most notifications marked read by ID in one request. */
+const MAX_MARK_READ_IDS = 200;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toDto(row: NotificationRow): NotificationDto {
+  return {
+    id: row.id,
+    kind: row.kind,
+    title: row.title,
+    body: row.body,
+    link: row.link,
+    eventId: row.event_id,
+    isRead: row.read_at !== null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Service for a user's notification center.
+ *
+ * @remarks
+ * Dependency Injection: Receives the notification repository via constructor.
+ */
+export class NotificationInboxService {
+  constructor(private readonly notificationRepository: INotificationRepository) {}
+
+  /**
+   * The user's latest notifications and unread count.
+   */
+  async list(userId: string, options: ListNotificationsOptions = {}): Promise<NotificationListDto> {
+    const limit = Math.min(Math.max(1, Math.floor(options.limit ?? DEFAULT_LIMIT)), MAX_LIMIT);
+
+    const [rows, unreadCount] = await Promise.all([
+      this.notificationRepository.listForUser(userId, { limit, unreadOnly: options.unreadOnly ?? false }),
+      this.notificationRepository.countUnread(userId),
+    ]);
+
+    return { notifications: rows.map(toDto), unreadCount };
+  }
+
+  /**
+   * Mark notifications as read; all of them when `ids` is omitted.
+   *
+   * @returns The remaining unread count
+   * @throws ValidationError if an ID is malformed or too many are given
+   */
+  async markRead(userId: string, ids?: string[], now: Date = new Date()): Promise<{ unreadCount: number }> {
+    if (ids === undefined) {
+      await this.notificationRepository.markAllRead(userId, now);
+    } else {
+      if (ids.length > MAX_MARK_READ_IDS) {
+        throw new ValidationError("Too many notifications", [
+          { field: "ids", message: `At most ${MAX_MARK_READ_IDS} notifications can be marked at once` },
+        ]);
+      }
+      const invalid = ids.filter((id) => typeof id !== "string" || !UUID_REGEX.test(id));
+      if (invalid.length > 0) {
+        throw new ValidationError("Invalid notification IDs", [
+          { field: "ids", message: "Each ID must be a valid UUID" },
+        ]);
+      }
+      if (ids.length > 0) {
+        await this.notificationRepository.markRead(userId, ids, now);
+      }
+    }
+
+    return { unreadCount: await this.notificationRepository.countUnread(userId) };
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Notification Settings Service
+ *
+ * Per-guardian notification opt-outs and message templates.
+ *
+ * @remarks
+ * - Users with `guardians.manage` manage any parent account of their school
+ *   (the repository's school scope); a parent manages their own
+ * - Opt-outs are stored per kind and channel; unset pairs use the channel
+ *   default (see preferences.ts)
+ * - Template overrides need `guardians.manage` and replace the school-wide or built-in
+ *   template for that guardian
+ */
+
+import {
+  BusinessRuleError,
+  NotFoundError,
+  ValidationError,
+  type ValidationErrorDetail,
+  type WorkflowActorContext,
+} from "@/modules/sems";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_KINDS,
+  type GuardianAccountRow,
+  type GuardianNotificationSettingsDto,
+  type INotificationSettingsRepository,
+  type NotificationChannel,
+  type NotificationKind,
+  type NotificationPreferenceRow,
+  type NotificationTemplateDto,
+  type NotificationTemplateRow,
+  type UpdateGuardianNotificationSettingsInput,
+} from "../domain";
+import { indexPreferences, isEnabledByDefault, preferenceKey } from "./preferences";
+import { findUnknownPlaceholders, getDefaultTemplate, TEMPLATE_PLACEHOLDERS } from "./templates";
+
+const MAX_SUBJECT_LENGTH = 200;
+
+const MAX_BODY_LENGTH = 1000;
+
+/** Single-segment-friendly cap for SMS bodies before rendering. */
+const MAX_SMS_BODY_LENGTH = 320;
+
+const PARENT_ROLES = new Set(["PARENT", "parent"]);
+
+function isParentAccount(account: GuardianAccountRow): boolean {
+  return (
+    (account.primary_role !== null && PARENT_ROLES.has(account.primary_role)) ||
+    (account.roles ?? []).some((role) => PARENT_ROLES.has(role))
+  );
+}
+
+function isKind(value: unknown): value is NotificationKind {
+  return typeof value === "string" && (NOTIFICATION_KINDS as readonly string[]).includes(value);
+}
+
+function isChannel(value: unknown): value is NotificationChannel {
+  return typeof value === "string" && (NOTIFICATION_CHANNELS as readonly string[]).includes(value);
+}
+
+/**
+ * Service for guardian notification settings.
+ *
+ * @remarks
+ * Dependency Injection: Receives the notification settings repository via constructor.
+ */
+export class NotificationSettingsService {
+  constructor(private readonly settingsRepository: INotificationSettingsRepository) {}
+
+  /**
+   * Effective preferences and templates of a guardian.
+   *
+   * @throws NotFoundError if the account does not exist or is not a parent
+   * @throws BusinessRuleError if the actor may not manage the guardian
+   */
+  async getSettings(guardianId: string, actor: WorkflowActorContext): Promise<GuardianNotificationSettingsDto> {
+    await this.assertCanManage(guardianId, actor);
+    return this.buildSettings(guardianId);
+  }
+
+  /**
+   * Update a guardian's opt-outs and (with `guardians.manage`) template overrides.
+   *
+   * @throws ValidationError if the input is invalid
+   * @throws NotFoundError if the account does not exist or is not a parent
+   * @throws BusinessRuleError if the actor may not make the change
+   */
+  async updateSettings(
+    guardianId: string,
+    input: UpdateGuardianNotificationSettingsInput,
+    actor: WorkflowActorContext
+  ): Promise<GuardianNotificationSettingsDto> {
+    await this.assertCanManage(guardianId, actor);
+
+    const { preferences, upserts, removals } = this.validateUpdate(guardianId, input);
+
+    if ((upserts.length > 0 || removals.length > 0) && !this.canManageGuardians(actor)) {
+      throw new BusinessRuleError("You are not allowed to change notification templates.");
+    }
+
+    await this.settingsRepository.upsertPreferences(preferences);
+    await this.settingsRepository.upsertTemplates(upserts, actor.userId);
+    if (removals.length > 0) {
+      await this.settingsRepository.deleteTemplates(guardianId, removals);
+    }
+
+    return this.buildSettings(guardianId);
+  }
+
+  private async buildSettings(guardianId: string): Promise<GuardianNotificationSettingsDto> {
+    const [preferenceRows, templateRows] = await Promise.all([
+      this.settingsRepository.findPreferences([guardianId]),
+      this.settingsRepository.findTemplates([guardianId]),
+    ]);
+
+    const stored = indexPreferences(preferenceRows);
+    const preferences = NOTIFICATION_KINDS.flatMap((kind) =>
+      NOTIFICATION_CHANNELS.map((channel) => {
+        const enabled = stored.get(preferenceKey(guardianId, kind, channel));
+        return {
+          kind,
+          channel,
+          enabled: enabled ?? isEnabledByDefault(kind, channel),
+          isDefault: enabled === undefined,
+        };
+      })
+    );
+
+    const templates: NotificationTemplateDto[] = NOTIFICATION_KINDS.flatMap((kind) =>
+      NOTIFICATION_CHANNELS.map((channel) => {
+        const own = templateRows.find(
+          (row) => row.kind === kind && row.channel === channel && row.app_user_id === guardianId
+        );
+        const school = templateRows.find(
+          (row) => row.kind === kind && row.channel === channel && row.app_user_id === null
+        );
+        const row = own ?? school;
+        if (!row) {
+          return { kind, channel, ...getDefaultTemplate(kind, channel), source: "default" as const };
+        }
+        return {
+          kind,
+          channel,
+          subject: channel === "sms" ? null : row.subject,
+          body: row.body,
+          source: own ? ("guardian" as const) : ("school" as const),
+        };
+      })
+    );
+
+    return {
+      guardianId,
+      preferences,
+      templates,
+      placeholders: [...TEMPLATE_PLACEHOLDERS],
+    };
+  }
+
+  private validateUpdate(
+    guardianId: string,
+    input: UpdateGuardianNotificationSettingsInput
+  ): {
+    preferences: NotificationPreferenceRow[];
+    upserts: NotificationTemplateRow[];
+    removals: Array<Pick<NotificationTemplateRow, "kind" | "channel">>;
+  } {
+    const errors: ValidationErrorDetail[] = [];
+    const preferences: NotificationPreferenceRow[] = [];
+    const upserts: NotificationTemplateRow[] = [];
+    const removals: Array<Pick<NotificationTemplateRow, "kind" | "channel">> = [];
+
+    (input.preferences ?? []).forEach((preference, index) => {
+      if (!isKind(preference?.kind) || !isChannel(preference?.channel) || typeof preference.enabled !== "boolean") {
+        errors.push({
+          field: `preferences[${index}]`,
+          message: "Each preference needs a valid kind, channel and enabled flag",
+        });
+        return;
+      }
+      preferences.push({
+        app_user_id: guardianId,
+        kind: preference.kind,
+        channel: preference.channel,
+        enabled: preference.enabled,
+      });
+    });
+
+    (input.templates ?? []).forEach((template, index) => {
+      const field = `templates[${index}]`;
+      if (!isKind(template?.kind) || !isChannel(template?.channel)) {
+        errors.push({ field, message: "Each template needs a valid kind and channel" });
+        return;
+      }
+
+      if (template.body === null) {
+        removals.push({ kind: template.kind, channel: template.channel });
+        return;
+      }
+
+      const body = typeof template.body === "string" ? template.body.trim() : "";
+      const subject =
+        template.channel === "sms" || typeof template.subject !== "string" ? null : template.subject.trim() || null;
+      const maxBody = template.channel === "sms" ? MAX_SMS_BODY_LENGTH : MAX_BODY_LENGTH;
+
+      if (!body) {
+        errors.push({ field: `${field}.body`, message: "Template body is required" });
+      } else if (body.length > maxBody) {
+        errors.push({ field: `${field}.body`, message: `Template body must be ${maxBody} characters or fewer` });
+      }
+      if (subject && subject.length > MAX_SUBJECT_LENGTH) {
+        errors.push({
+          field: `${field}.subject`,
+          message: `Subject must be ${MAX_SUBJECT_LENGTH} characters or fewer`,
+        });
+      }
+
+      const unknown = findUnknownPlaceholders(`${subject ?? ""} ${body}`);
+      if (unknown.length > 0) {
+        errors.push({ field, message: `Unknown placeholders: ${unknown.join(", ")}` });
+      }
+
+      upserts.push({ kind: template.kind, channel: template.channel, app_user_id: guardianId, subject, body });
+    });
+
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid notification settings", errors);
+    }
+
+    return { preferences, upserts, removals };
+  }
+
+  private canManageGuardians(actor: WorkflowActorContext): boolean {
+    return actor.permissions.includes("guardians.manage");
+  }
+
+  private async assertCanManage(guardianId: string, actor: WorkflowActorContext): Promise<void> {
+    const account = await this.settingsRepository.findGuardianAccount(guardianId);
+    if (!account || !isParentAccount(account)) {
+      throw new NotFoundError("Guardian not found", "guardian", guardianId);
+    }
+
+    if (this.canManageGuardians(actor) || actor.userId === guardianId) {
+      return;
+    }
+
+    throw new BusinessRuleError("You do not have permission to manage these notification settings.");
+  }
+}
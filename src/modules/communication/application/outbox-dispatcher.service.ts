@@ -0,0 +1,108 @@
+/**
+ * Outbox Dispatcher Service
+ *
+ * Delivers queued outbox messages through the configured providers.
+ *
+ * @remarks
+ * - Claimed messages are sent one at a time; one failure never blocks the rest
+ * - Failed attempts back off exponentially (1, 2, 4 … minutes, capped at an
+ *   hour) until max_attempts, then the message is marked failed
+ * - Messages left in `sending` by a run that died are reclaimed after
+ *   STALE_LOCK_MINUTES
+ */
+
+import type { IMessageProvider, IOutboxRepository, OutboxDispatchResultDto, OutboxMessageRow } from "../domain";
+
+/** Messages per run when no limit is given. */
+const DEFAULT_BATCH_SIZE = 100;
+
+const MAX_BATCH_SIZE = 500;
+
+/** Minutes before a `sending` message is considered abandoned. */
+const STALE_LOCK_MINUTES = 10;
+
+const MAX_BACKOFF_MINUTES = 60;
+
+function getErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, 1000);
+}
+
+/**
+ * Service that drains the message outbox.
+ *
+ * @remarks
+ * Dependency Injection: Receives the outbox repository and message providers
+ * via constructor.
+ */
+export class OutboxDispatcherService {
+  constructor(
+    private readonly outboxRepository: IOutboxRepository,
+    private readonly providers: IMessageProvider[]
+  ) {}
+
+  /**
+   * Send messages that are due, only those about the school's students
+   * when `schoolId` is given.
+   *
+   * @throws Error if claiming messages fails
+   */
+  async processDue(
+    schoolId: string | null,
+    now: Date = new Date(),
+    limit: number = DEFAULT_BATCH_SIZE
+  ): Promise<OutboxDispatchResultDto> {
+    const batchSize = Math.min(Math.max(1, Math.floor(limit)), MAX_BATCH_SIZE);
+    const staleBefore = new Date(now.getTime() - STALE_LOCK_MINUTES * 60_000);
+    const messages = await this.outboxRepository.claimDue(now, staleBefore, batchSize, schoolId);
+
+    const result: OutboxDispatchResultDto = { claimed: messages.length, sent: 0, retried: 0, failed: 0 };
+
+    for (const message of messages) {
+      const outcome = await this.deliver(message, now);
+      result[outcome] += 1;
+    }
+
+    return result;
+  }
+
+  private async deliver(message: OutboxMessageRow, now: Date): Promise<"sent" | "retried" | "failed"> {
+    const attempts = message.attempts + 1;
+    const provider = this.providers.find((candidate) => candidate.supports(message.channel));
+
+    if (!provider) {
+      await this.outboxRepository.markFailed(message.id, attempts, `No provider for channel "${message.channel}"`);
+      return "failed";
+    }
+
+    try {
+      const sent = await provider.send({
+        id: message.id,
+        channel: message.channel,
+        kind: message.kind,
+        recipient: message.recipient,
+        subject: message.subject,
+        body: message.body,
+      });
+      await this.outboxRepository.markSent(message.id, attempts, provider.name, sent.providerMessageId, new Date());
+      return "sent";
+    } catch (error) {
+      const reason = getErrorMessage(error);
+      console.error(`[OutboxDispatcherService.deliver] ${provider.name} failed for ${message.id}:`, reason);
+
+      if (attempts >= message.max_attempts) {
+        await this.outboxRepository.markFailed(message.id, attempts, reason);
+        return "failed";
+      }
+
+      const backoffMinutes = Math.min(2 ** (attempts - 1), MAX_BACKOFF_MINUTES);
+      await this.outboxRepository.scheduleRetry(
+        message.id,
+        attempts,
+        new Date(now.getTime() + backoffMinutes * 60_000),
+        reason
+      );
+      return "retried";
+    }
+  }
+}
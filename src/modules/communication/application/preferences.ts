@@ -0,0 +1,42 @@
+/**
+ * Notification Preference Defaults
+ *
+ * Guardians receive every attendance notice by email and in-app unless they
+ * opt out. SMS costs money per message, so it defaults to the notices that
+ * need attention (late, absent).
+ */
+
+import type { NotificationChannel, NotificationKind, NotificationPreferenceRow } from "../domain";
+
+const DEFAULT_ENABLED_KINDS: Record<NotificationChannel, ReadonlySet<NotificationKind>> = {
+  sms: new Set<NotificationKind>(["late", "absent"]),
+  email: new Set<NotificationKind>(["scan_in", "scan_out", "late", "absent"]),
+  in_app: new Set<NotificationKind>(["scan_in", "scan_out", "late", "absent"]),
+};
+
+export function isEnabledByDefault(kind: NotificationKind, channel: NotificationChannel): boolean {
+  return DEFAULT_ENABLED_KINDS[channel].has(kind);
+}
+
+export function preferenceKey(appUserId: string, kind: NotificationKind, channel: NotificationChannel): string {
+  return `${appUserId}:${kind}:${channel}`;
+}
+
+/**
+ * Index stored preferences by preferenceKey.
+ */
+export function indexPreferences(rows: NotificationPreferenceRow[]): Map<string, boolean> {
+  return new Map(rows.map((row) => [preferenceKey(row.app_user_id, row.kind, row.channel), row.enabled]));
+}
+
+/**
+ * Whether a guardian receives a notice on a channel.
+ */
+export function isPreferenceEnabled(
+  preferences: Map<string, boolean>,
+  appUserId: string,
+  kind: NotificationKind,
+  channel: NotificationChannel
+): boolean {
+  return preferences.get(preferenceKey(appUserId, kind, channel)) ?? isEnabledByDefault(kind, channel);
+}
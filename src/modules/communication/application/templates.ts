@@ -0,0 +1,66 @@
+/**
+ * Notification Templates
+ *
+ * Built-in message templates and the `{{placeholder}}` renderer used for
+ * attendance notifications.
+ */
+
+import type { NotificationChannel, NotificationKind, NotificationTemplate } from "../domain";
+
+/**
+ * Placeholders available to every template.
+ */
+export const TEMPLATE_PLACEHOLDERS = ["studentName", "eventTitle", "sessionName", "date", "time"] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+export type TemplateVariables = Record<TemplatePlaceholder, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const DEFAULT_BODIES: Record<NotificationKind, string> = {
+  scan_in: "{{studentName}} checked in to {{eventTitle}} ({{sessionName}}) at {{time}} on {{date}}.",
+  scan_out: "{{studentName}} checked out of {{eventTitle}} ({{sessionName}}) at {{time}} on {{date}}.",
+  late: "{{studentName}} arrived late to {{eventTitle}} ({{sessionName}}) at {{time}} on {{date}}.",
+  absent: "{{studentName}} was marked absent from {{eventTitle}} ({{sessionName}}) on {{date}}.",
+};
+
+const DEFAULT_SUBJECTS: Record<NotificationKind, string> = {
+  scan_in: "{{studentName}} checked in",
+  scan_out: "{{studentName}} checked out",
+  late: "{{studentName}} arrived late",
+  absent: "{{studentName}} was marked absent",
+};
+
+/**
+ * Built-in template for a kind and channel. SMS messages have no subject.
+ */
+export function getDefaultTemplate(kind: NotificationKind, channel: NotificationChannel): NotificationTemplate {
+  return {
+    subject: channel === "sms" ? null : DEFAULT_SUBJECTS[kind],
+    body: DEFAULT_BODIES[kind],
+  };
+}
+
+/**
+ * Placeholders used in a template that are not in TEMPLATE_PLACEHOLDERS.
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+  const known = new Set<string>(TEMPLATE_PLACEHOLDERS);
+  const unknown = new Set<string>();
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!known.has(match[1])) unknown.add(match[1]);
+  }
+
+  return Array.from(unknown);
+}
+
+/**
+ * Replace `{{placeholder}}` variables. Unknown placeholders render empty.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) =>
+    name in variables ? variables[name as TemplatePlaceholder] : ""
+  );
+}
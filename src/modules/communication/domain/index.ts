@@ -0,0 +1,6 @@
+/**
+ * Communication Domain Module - Public Exports
+ */
+
+export * from "./types";
+export * from "./interfaces";
@@ -0,0 +1,154 @@
+/**
+ * Communication Domain Interfaces
+ *
+ * Contracts for message providers, the communication repositories and the
+ * in-app notification center.
+ */
+
+import type {
+  GuardianAccountRow,
+  ListNotificationsOptions,
+  NotificationInsert,
+  NotificationRow,
+  GuardianContactRow,
+  NotificationChannel,
+  NotificationPreferenceRow,
+  NotificationTemplateRow,
+  OutboundMessage,
+  OutboxMessageInsert,
+  OutboxMessageRow,
+  ProviderSendResult,
+  StudentContactRow,
+} from "./types";
+
+// ============================================================================
+// Provider Interfaces
+// ============================================================================
+
+/**
+ * Delivers messages on one or more channels (SMS gateway, email service,
+ * in-app inbox, or the console provider during development).
+ *
+ * @remarks
+ * `send` throws on failure; the dispatcher records the error and retries.
+ */
+export interface IMessageProvider {
+  /** Stored on sent outbox rows */
+  readonly name: string;
+
+  supports(channel: NotificationChannel): boolean;
+
+  send(message: OutboundMessage): Promise<ProviderSendResult>;
+}
+
+// ============================================================================
+// Repository Interfaces
+// ============================================================================
+
+/**
+ * Repository interface for the message outbox.
+ */
+export interface IOutboxRepository {
+  /**
+   * Queue messages; rows whose dedupe_key already exists are skipped.
+   *
+   * @returns Number of rows queued
+   */
+  enqueue(rows: OutboxMessageInsert[]): Promise<number>;
+
+  /**
+   * Move due messages to `sending` and return them.
+   *
+   * @remarks
+   * Due: pending with next_attempt_at <= now, or stuck in `sending` since
+   * before staleBefore (a dispatcher run that died). With a school, only
+   * messages about that school's students; null claims from every school.
+   */
+  claimDue(now: Date, staleBefore: Date, limit: number, schoolId: string | null): Promise<OutboxMessageRow[]>;
+
+  markSent(
+    id: string,
+    attempts: number,
+    provider: string,
+    providerMessageId: string | null,
+    sentAt: Date
+  ): Promise<void>;
+
+  /**
+   * Return a message to `pending` for another attempt.
+   */
+  scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void>;
+
+  markFailed(id: string, attempts: number, error: string): Promise<void>;
+}
+
+/**
+ * Repository interface for recipients, templates and preferences.
+ */
+export interface INotificationSettingsRepository {
+  /**
+   * Active parent accounts linked to the given students.
+   */
+  findGuardianContacts(studentIds: string[]): Promise<GuardianContactRow[]>;
+
+  /**
+   * Student names and guardian contacts from the student records.
+   */
+  findStudentContacts(studentIds: string[]): Promise<StudentContactRow[]>;
+
+  /**
+   * A guardian account in the repository's school, or null.
+   */
+  findGuardianAccount(appUserId: string): Promise<GuardianAccountRow | null>;
+
+  findPreferences(appUserIds: string[]): Promise<NotificationPreferenceRow[]>;
+
+  upsertPreferences(rows: NotificationPreferenceRow[]): Promise<void>;
+
+  /**
+   * School-wide templates plus overrides of the given guardians.
+   */
+  findTemplates(appUserIds: string[]): Promise<NotificationTemplateRow[]>;
+
+  upsertTemplates(rows: NotificationTemplateRow[], updatedBy: string): Promise<void>;
+
+  /**
+   * Remove a guardian's overrides for the given kind/channel pairs.
+   */
+  deleteTemplates(
+    appUserId: string,
+    keys: Array<Pick<NotificationTemplateRow, "kind" | "channel">>
+  ): Promise<void>;
+}
+
+/**
+ * Repository interface for in-app notifications.
+ */
+export interface INotificationRepository {
+  insert(rows: NotificationInsert[]): Promise<void>;
+
+  /**
+   * A user's notifications, newest first.
+   */
+  listForUser(userId: string, options: Required<ListNotificationsOptions>): Promise<NotificationRow[]>;
+
+  countUnread(userId: string): Promise<number>;
+
+  /**
+   * Mark the given notifications of a user as read.
+   *
+   * @returns Number of notifications updated
+   */
+  markRead(userId: string, ids: string[], readAt: Date): Promise<number>;
+
+  /**
+   * @returns Number of notifications updated
+   */
+  markAllRead(userId: string, readAt: Date): Promise<number>;
+
+  /**
+   * Active accounts of `schoolId` holding any of the given roles, plus
+   * active SUPER_ADMINs (who aren't tied to one school).
+   */
+  findActiveUserIdsByRoles(roles: readonly string[], schoolId: string): Promise<string[]>;
+}
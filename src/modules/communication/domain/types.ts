@@ -0,0 +1,308 @@
+/**
+ * Communication Domain Types
+ *
+ * Types for guardian notifications (channels, the message outbox, templates
+ * and per-guardian preferences) and the in-app notification center.
+ */
+
+import type { AttendanceNoticeKind } from "@/modules/sems";
+
+// ============================================================================
+// Channel & Kind Types
+// ============================================================================
+
+/**
+ * Delivery channel of a message.
+ *
+ * - `sms`: text message to a phone number
+ * - `email`: email address
+ * - `in_app`: inbox of an app user (recipient is the app user ID)
+ */
+export type NotificationChannel = "sms" | "email" | "in_app";
+
+export const NOTIFICATION_CHANNELS: readonly NotificationChannel[] = ["sms", "email", "in_app"] as const;
+
+/**
+ * What a notification is about. Currently attendance changes only.
+ */
+export type NotificationKind = AttendanceNoticeKind;
+
+export const NOTIFICATION_KINDS: readonly NotificationKind[] = [
+  "scan_in",
+  "scan_out",
+  "late",
+  "absent",
+] as const;
+
+// ============================================================================
+// Outbox Types
+// ============================================================================
+
+/**
+ * Outbox message lifecycle.
+ *
+ * - `pending`: waiting for its next attempt
+ * - `sending`: claimed by a dispatcher run
+ * - `sent`: accepted by the provider
+ * - `failed`: gave up after max_attempts (or no provider for the channel)
+ */
+export type OutboxStatus = "pending" | "sending" | "sent" | "failed";
+
+/**
+ * message_outbox row.
+ */
+export interface OutboxMessageRow {
+  id: string;
+  channel: NotificationChannel;
+  /** Phone number, email address, or app user ID (in_app) */
+  recipient: string;
+  recipient_user_id: string | null;
+  student_id: string | null;
+  kind: NotificationKind;
+  subject: string | null;
+  body: string;
+  dedupe_key: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  provider: string | null;
+  provider_message_id: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+/**
+ * Insert payload for message_outbox.
+ */
+export type OutboxMessageInsert = Pick<
+  OutboxMessageRow,
+  | "channel"
+  | "recipient"
+  | "recipient_user_id"
+  | "student_id"
+  | "kind"
+  | "subject"
+  | "body"
+  | "dedupe_key"
+>;
+
+/**
+ * Message handed to a provider.
+ */
+export interface OutboundMessage {
+  /** Outbox row ID; providers may use it as an idempotency key */
+  id: string;
+  channel: NotificationChannel;
+  kind: NotificationKind;
+  recipient: string;
+  subject: string | null;
+  body: string;
+}
+
+/**
+ * Provider acknowledgement of a sent message.
+ */
+export interface ProviderSendResult {
+  providerMessageId: string | null;
+}
+
+/**
+ * Result of one dispatcher run.
+ */
+export interface OutboxDispatchResultDto {
+  claimed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+// ============================================================================
+// Recipient Types
+// ============================================================================
+
+/**
+ * A parent account linked to a student, with its email.
+ */
+export interface GuardianContactRow {
+  student_id: string;
+  app_user_id: string;
+  is_primary: boolean;
+  email: string | null;
+  full_name: string | null;
+}
+
+/**
+ * Student name and the guardian contact captured on the student record.
+ */
+export interface StudentContactRow {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  guardian_phone: string | null;
+  guardian_email: string | null;
+}
+
+/**
+ * App user as checked by the notification settings.
+ */
+export interface GuardianAccountRow {
+  id: string;
+  full_name: string | null;
+  roles: string[] | null;
+  primary_role: string | null;
+}
+
+// ============================================================================
+// Template & Preference Types
+// ============================================================================
+
+/**
+ * guardian_notification_preferences row. A missing row means the default
+ * for the channel applies (see DEFAULT_ENABLED_KINDS).
+ */
+export interface NotificationPreferenceRow {
+  app_user_id: string;
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+/**
+ * notification_templates row. `app_user_id` is null for the school-wide
+ * template and set for a guardian's own override.
+ */
+export interface NotificationTemplateRow {
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  app_user_id: string | null;
+  subject: string | null;
+  body: string;
+}
+
+/**
+ * Subject and body with `{{placeholder}}` variables.
+ */
+export interface NotificationTemplate {
+  subject: string | null;
+  body: string;
+}
+
+/**
+ * Where an effective template comes from.
+ */
+export type NotificationTemplateSource = "default" | "school" | "guardian";
+
+export interface NotificationPreferenceDto {
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  enabled: boolean;
+  /** True when no preference is stored and the channel default applies */
+  isDefault: boolean;
+}
+
+export interface NotificationTemplateDto {
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  subject: string | null;
+  body: string;
+  source: NotificationTemplateSource;
+}
+
+/**
+ * Response of GET /api/communication/guardians/[id]/settings.
+ */
+export interface GuardianNotificationSettingsDto {
+  guardianId: string;
+  preferences: NotificationPreferenceDto[];
+  /** Effective template for every kind and channel */
+  templates: NotificationTemplateDto[];
+  /** Placeholders templates may use */
+  placeholders: string[];
+}
+
+/**
+ * Body of PUT /api/communication/guardians/[id]/settings.
+ *
+ * @remarks
+ * A template with `body: null` removes the guardian's override.
+ */
+export interface UpdateGuardianNotificationSettingsInput {
+  preferences?: Array<{ kind: NotificationKind; channel: NotificationChannel; enabled: boolean }>;
+  templates?: Array<{
+    kind: NotificationKind;
+    channel: NotificationChannel;
+    subject?: string | null;
+    body: string | null;
+  }>;
+}
+
+// ============================================================================
+// In-App Notification Types
+// ============================================================================
+
+/**
+ * What an in-app notification is about.
+ *
+ * - `event_*`: event workflow changes (see EventWorkflowNoticeKind)
+ * - `scanner_assigned`: the recipient was added as a scanner for an event
+ * - `attendance`: guardian attendance messages delivered on the in_app channel
+ */
+export type InAppNotificationKind =
+  | "event_submitted"
+  | "event_approved"
+  | "event_rejected"
+  | "event_published"
+  | "event_cancelled"
+  | "scanner_assigned"
+  | "attendance";
+
+/**
+ * notifications row.
+ */
+export interface NotificationRow {
+  id: string;
+  recipient_user_id: string;
+  kind: InAppNotificationKind;
+  title: string;
+  body: string | null;
+  /** In-app path the notification opens */
+  link: string | null;
+  event_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Insert payload for notifications.
+ */
+export type NotificationInsert = Pick<
+  NotificationRow,
+  "recipient_user_id" | "kind" | "title" | "body" | "link" | "event_id"
+>;
+
+export interface NotificationDto {
+  id: string;
+  kind: InAppNotificationKind;
+  title: string;
+  body: string | null;
+  link: string | null;
+  eventId: string | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+/**
+ * Response of GET /api/notifications.
+ */
+export interface NotificationListDto {
+  notifications: NotificationDto[];
+  unreadCount: number;
+}
+
+export interface ListNotificationsOptions {
+  /** Max notifications returned (default 20, max 50) */
+  limit?: number;
+  unreadOnly?: boolean;
+}
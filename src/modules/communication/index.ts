@@ -0,0 +1,21 @@
+/**
+ * Communication Module
+ *
+ * Guardian notifications: message providers, the outbox and notification
+ * settings. Import from here rather than reaching into internal layers
+ * directly.
+ *
+ * @example
+ * ```ts
+ * import { AttendanceNotificationService, OutboxRepository } from "@/modules/communication";
+ * ```
+ */
+
+// Domain types and interfaces
+export * from "./domain";
+
+// Application layer (services)
+export * from "./application";
+
+// Infrastructure layer (repositories, providers)
+export * from "./infrastructure";
@@ -0,0 +1,36 @@
+/**
+ * Console Message Provider
+ *
+ * Development provider that "delivers" every channel by logging the message.
+ * When COMMUNICATION_OUTBOX_FILE is set, each message is also appended to
+ * that file as one JSON line.
+ */
+
+import { appendFile } from "node:fs/promises";
+import type { IMessageProvider, NotificationChannel, OutboundMessage, ProviderSendResult } from "../domain";
+
+export class ConsoleMessageProvider implements IMessageProvider {
+  readonly name = "console";
+
+  constructor(private readonly filePath: string | null = process.env.COMMUNICATION_OUTBOX_FILE ?? null) {}
+
+  supports(channel: NotificationChannel): boolean {
+    void channel;
+    return true;
+  }
+
+  async send(message: OutboundMessage): Promise<ProviderSendResult> {
+    console.info(
+      `[ConsoleMessageProvider] ${message.channel} → ${message.recipient}` +
+        (message.subject ? ` | ${message.subject}` : "") +
+        ` | ${message.body}`
+    );
+
+    if (this.filePath) {
+      const line = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+      await appendFile(this.filePath, `${line}\n`, "utf8");
+    }
+
+    return { providerMessageId: `console-${message.id}` };
+  }
+}
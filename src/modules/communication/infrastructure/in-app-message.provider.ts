@@ -0,0 +1,43 @@
+/**
+ * In-App Message Provider
+ *
+ * Delivers `in_app` outbox messages by writing them to the recipient's
+ * notification center. The outbox recipient of an in_app message is the app
+ * user ID.
+ */
+
+import type {
+  IMessageProvider,
+  INotificationRepository,
+  NotificationChannel,
+  OutboundMessage,
+  ProviderSendResult,
+} from "../domain";
+
+/** Where guardians review their children's attendance. */
+const ATTENDANCE_LINK = "/sems/parent-events";
+
+export class InAppMessageProvider implements IMessageProvider {
+  readonly name = "in_app";
+
+  constructor(private readonly notificationRepository: INotificationRepository) {}
+
+  supports(channel: NotificationChannel): boolean {
+    return channel === "in_app";
+  }
+
+  async send(message: OutboundMessage): Promise<ProviderSendResult> {
+    await this.notificationRepository.insert([
+      {
+        recipient_user_id: message.recipient,
+        kind: "attendance",
+        title: message.subject ?? "Attendance update",
+        body: message.body,
+        link: ATTENDANCE_LINK,
+        event_id: null,
+      },
+    ]);
+
+    return { providerMessageId: null };
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Communication Infrastructure Module - Public Exports
+ */
+
+export { OutboxRepository } from "./outbox.repository";
+export { NotificationSettingsRepository } from "./notification-settings.repository";
+export { NotificationRepository } from "./notification.repository";
+export { ConsoleMessageProvider } from "./console-message.provider";
+export { InAppMessageProvider } from "./in-app-message.provider";
+export { createMessageProviders } from "./message-providers";
@@ -0,0 +1,40 @@
+/**
+ * Message Provider Registry
+ *
+ * Builds the providers the outbox dispatcher sends through. The dispatcher
+ * uses the first provider that supports a message's channel.
+ *
+ * @remarks
+ * In-app messages always go to the notification center. COMMUNICATION_PROVIDER
+ * selects the gateway for SMS and email (default `console`). Register SMS or
+ * email gateways here as they are added.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { IMessageProvider } from "../domain";
+import { ConsoleMessageProvider } from "./console-message.provider";
+import { InAppMessageProvider } from "./in-app-message.provider";
+import { NotificationRepository } from "./notification.repository";
+
+const DEFAULT_PROVIDER = "console";
+
+/**
+ * The in-app provider and the configured gateway, in priority order.
+ */
+export function createMessageProviders(supabase: SupabaseClient): IMessageProvider[] {
+  return [new InAppMessageProvider(new NotificationRepository(supabase)), createGatewayProvider()];
+}
+
+function createGatewayProvider(): IMessageProvider {
+  const configured = (process.env.COMMUNICATION_PROVIDER ?? DEFAULT_PROVIDER).trim().toLowerCase();
+
+  switch (configured) {
+    case "console":
+      return new ConsoleMessageProvider();
+    default:
+      console.warn(
+        `[createMessageProviders] Unknown COMMUNICATION_PROVIDER "${configured}", falling back to console.`
+      );
+      return new ConsoleMessageProvider();
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Notification Settings Repository Implementation
+ *
+ * Handles database access for notification recipients, templates and
+ * guardian preferences using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
+import type {
+  GuardianAccountRow,
+  GuardianContactRow,
+  INotificationSettingsRepository,
+  NotificationPreferenceRow,
+  NotificationTemplateRow,
+  StudentContactRow,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+const PARENT_ROLES = new Set(["PARENT", "parent"]);
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function isParentAccount(row: { roles: string[] | null; primary_role: string | null }): boolean {
+  return (
+    (row.primary_role !== null && PARENT_ROLES.has(row.primary_role)) ||
+    (row.roles ?? []).some((role) => PARENT_ROLES.has(role))
+  );
+}
+
+/**
+ * Supabase implementation of the Notification Settings repository.
+ *
+ * @remarks
+ * Guardian accounts are looked up within `schoolId`; null (all schools) is
+ * for SUPER_ADMIN and system jobs.
+ */
+export class NotificationSettingsRepository implements INotificationSettingsRepository {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly schoolId: SchoolScope
+  ) {}
+
+  /**
+   * Active parent accounts linked to the given students.
+   *
+   * @remarks
+   * student_guardians also holds a student's link to their own account, so
+   * links are narrowed to active accounts with the parent role.
+   *
+   * @throws Error if the database query fails
+   */
+  async findGuardianContacts(studentIds: string[]): Promise<GuardianContactRow[]> {
+    const links: Array<{ student_id: string; app_user_id: string; is_primary: boolean | null }> = [];
+
+    for (const ids of chunk(Array.from(new Set(studentIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("student_guardians")
+        .select("student_id, app_user_id, is_primary")
+        .in("student_id", ids);
+
+      if (error) {
+        console.error("[NotificationSettingsRepository.findGuardianContacts] Database error:", error);
+        throw new Error(`Failed to fetch guardian links: ${error.message}`);
+      }
+
+      links.push(...(data ?? []));
+    }
+
+    if (links.length === 0) return [];
+
+    const accounts = new Map<string, { email: string | null; full_name: string | null }>();
+
+    for (const ids of chunk(Array.from(new Set(links.map((link) => link.app_user_id))), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("app_users")
+        .select("id, email, full_name, roles, primary_role")
+        .in("id", ids)
+        .eq("is_active", true);
+
+      if (error) {
+        console.error("[NotificationSettingsRepository.findGuardianContacts] Database error:", error);
+        throw new Error(`Failed to fetch guardian accounts: ${error.message}`);
+      }
+
+      for (const row of data ?? []) {
+        if (!isParentAccount(row)) continue;
+        accounts.set(row.id as string, {
+          email: (row.email as string | null) ?? null,
+          full_name: (row.full_name as string | null) ?? null,
+        });
+      }
+    }
+
+    return links.flatMap((link) => {
+      const account = accounts.get(link.app_user_id);
+      if (!account) return [];
+      return [
+        {
+          student_id: link.student_id,
+          app_user_id: link.app_user_id,
+          is_primary: link.is_primary ?? false,
+          email: account.email,
+          full_name: account.full_name,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Student names and guardian contacts from the student records.
+   *
+   * @throws Error if the database query fails
+   */
+  async findStudentContacts(studentIds: string[]): Promise<StudentContactRow[]> {
+    const rows: StudentContactRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(studentIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("students")
+        .select("id, first_name, last_name, guardian_phone, guardian_email")
+        .in("id", ids);
+
+      if (error) {
+        console.error("[NotificationSettingsRepository.findStudentContacts] Database error:", error);
+        throw new Error(`Failed to fetch students: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as StudentContactRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find an app user by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findGuardianAccount(appUserId: string): Promise<GuardianAccountRow | null> {
+    const { data, error } = await this.supabase
+      .from("app_users")
+      .select("id, full_name, roles, primary_role")
+      .eq("id", appUserId)
+      .match(schoolFilter(this.schoolId))
+      .maybeSingle();
+
+    if (error) {
+      console.error("[NotificationSettingsRepository.findGuardianAccount] Database error:", error);
+      throw new Error(`Failed to fetch account: ${error.message}`);
+    }
+
+    return (data as GuardianAccountRow | null) ?? null;
+  }
+
+  /**
+   * Stored preferences of the given guardians.
+   *
+   * @throws Error if the database query fails
+   */
+  async findPreferences(appUserIds: string[]): Promise<NotificationPreferenceRow[]> {
+    const rows: NotificationPreferenceRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(appUserIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("guardian_notification_preferences")
+        .select("app_user_id, kind, channel, enabled")
+        .in("app_user_id", ids);
+
+      if (error) {
+        console.error("[NotificationSettingsRepository.findPreferences] Database error:", error);
+        throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as NotificationPreferenceRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Insert or update guardian preferences.
+   *
+   * @throws Error if the database query fails
+   */
+  async upsertPreferences(rows: NotificationPreferenceRow[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const updatedAt = new Date().toISOString();
+    const { error } = await this.supabase
+      .from("guardian_notification_preferences")
+      .upsert(
+        rows.map((row) => ({ ...row, updated_at: updatedAt })),
+        { onConflict: "app_user_id,kind,channel" }
+      );
+
+    if (error) {
+      console.error("[NotificationSettingsRepository.upsertPreferences] Database error:", error);
+      throw new Error(`Failed to save notification preferences: ${error.message}`);
+    }
+  }
+
+  /**
+   * School-wide templates plus overrides of the given guardians.
+   *
+   * @throws Error if the database query fails
+   */
+  async findTemplates(appUserIds: string[]): Promise<NotificationTemplateRow[]> {
+    const columns = "kind, channel, app_user_id, subject, body";
+
+    const { data: schoolRows, error: schoolError } = await this.supabase
+      .from("notification_templates")
+      .select(columns)
+      .is("app_user_id", null);
+
+    if (schoolError) {
+      console.error("[NotificationSettingsRepository.findTemplates] Database error:", schoolError);
+      throw new Error(`Failed to fetch notification templates: ${schoolError.message}`);
+    }
+
+    const rows = [...((schoolRows ?? []) as NotificationTemplateRow[])];
+
+    for (const ids of chunk(Array.from(new Set(appUserIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("notification_templates")
+        .select(columns)
+        .in("app_user_id", ids);
+
+      if (error) {
+        console.error("[NotificationSettingsRepository.findTemplates] Database error:", error);
+        throw new Error(`Failed to fetch notification templates: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as NotificationTemplateRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Insert or update templates.
+   *
+   * @throws Error if the database query fails
+   */
+  async upsertTemplates(rows: NotificationTemplateRow[], updatedBy: string): Promise<void> {
+    if (rows.length === 0) return;
+
+    const updatedAt = new Date().toISOString();
+    const { error } = await this.supabase
+      .from("notification_templates")
+      .upsert(
+        rows.map((row) => ({ ...row, updated_by: updatedBy, updated_at: updatedAt })),
+        { onConflict: "kind,channel,app_user_id" }
+      );
+
+    if (error) {
+      console.error("[NotificationSettingsRepository.upsertTemplates] Database error:", error);
+      throw new Error(`Failed to save notification templates: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove a guardian's template overrides.
+   *
+   * @throws Error if the database query fails
+   */
+  async deleteTemplates(
+    appUserId: string,
+    keys: Array<Pick<NotificationTemplateRow, "kind" | "channel">>
+  ): Promise<void> {
+    for (const key of keys) {
+      const { error } = await this.supabase
+        .from("notification_templates")
+        .delete()
+        .eq("app_user_id", appUserId)
+        .eq("kind", key.kind)
+        .eq("channel", key.channel);
+
+      if (error) {
+        console.error("[NotificationSettingsRepository.deleteTemplates] Database error:", error);
+        throw new Error(`Failed to remove notification template: ${error.message}`);
+      }
+    }
+  }
+}
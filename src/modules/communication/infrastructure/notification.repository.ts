@@ -0,0 +1,181 @@
+/**
+ * Notification Repository Implementation
+ *
+ * Handles database access for in-app notifications using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  INotificationRepository,
+  ListNotificationsOptions,
+  NotificationInsert,
+  NotificationRow,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+/** Rows per insert request. */
+const INSERT_BATCH_SIZE = 500;
+
+const NOTIFICATION_COLUMNS = "id, recipient_user_id, kind, title, body, link, event_id, read_at, created_at";
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase implementation of the Notification repository.
+ */
+export class NotificationRepository implements INotificationRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Insert notifications.
+   *
+   * @throws Error if the database query fails
+   */
+  async insert(rows: NotificationInsert[]): Promise<void> {
+    for (const batch of chunk(rows, INSERT_BATCH_SIZE)) {
+      const { error } = await this.supabase.from("notifications").insert(batch);
+
+      if (error) {
+        console.error("[NotificationRepository.insert] Database error:", error);
+        throw new Error(`Failed to create notifications: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * A user's notifications, newest first.
+   *
+   * @throws Error if the database query fails
+   */
+  async listForUser(userId: string, options: Required<ListNotificationsOptions>): Promise<NotificationRow[]> {
+    let query = this.supabase
+      .from("notifications")
+      .select(NOTIFICATION_COLUMNS)
+      .eq("recipient_user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(options.limit);
+
+    if (options.unreadOnly) {
+      query = query.is("read_at", null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("[NotificationRepository.listForUser] Database error:", error);
+      throw new Error(`Failed to fetch notifications: ${error.message}`);
+    }
+
+    return (data ?? []) as NotificationRow[];
+  }
+
+  /**
+   * Count a user's unread notifications.
+   *
+   * @throws Error if the database query fails
+   */
+  async countUnread(userId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("recipient_user_id", userId)
+      .is("read_at", null);
+
+    if (error) {
+      console.error("[NotificationRepository.countUnread] Database error:", error);
+      throw new Error(`Failed to count notifications: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  /**
+   * Mark notifications of a user as read.
+   *
+   * @throws Error if the database query fails
+   */
+  async markRead(userId: string, ids: string[], readAt: Date): Promise<number> {
+    let updated = 0;
+
+    for (const batch of chunk(Array.from(new Set(ids)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("notifications")
+        .update({ read_at: readAt.toISOString() })
+        .eq("recipient_user_id", userId)
+        .in("id", batch)
+        .is("read_at", null)
+        .select("id");
+
+      if (error) {
+        console.error("[NotificationRepository.markRead] Database error:", error);
+        throw new Error(`Failed to mark notifications as read: ${error.message}`);
+      }
+
+      updated += (data ?? []).length;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Mark all of a user's notifications as read.
+   *
+   * @throws Error if the database query fails
+   */
+  async markAllRead(userId: string, readAt: Date): Promise<number> {
+    const { data, error } = await this.supabase
+      .from("notifications")
+      .update({ read_at: readAt.toISOString() })
+      .eq("recipient_user_id", userId)
+      .is("read_at", null)
+      .select("id");
+
+    if (error) {
+      console.error("[NotificationRepository.markAllRead] Database error:", error);
+      throw new Error(`Failed to mark notifications as read: ${error.message}`);
+    }
+
+    return (data ?? []).length;
+  }
+
+  /**
+   * Active accounts of `schoolId` holding any of the given roles, plus
+   * active SUPER_ADMINs.
+   *
+   * @remarks
+   * Roles are stored in mixed case; both spellings are matched.
+   *
+   * @throws Error if the database query fails
+   */
+  async findActiveUserIdsByRoles(roles: readonly string[], schoolId: string): Promise<string[]> {
+    if (roles.length === 0) return [];
+
+    const variants = Array.from(new Set(roles.flatMap((role) => [role.toUpperCase(), role.toLowerCase()])));
+    const holdsRole = `roles.ov.{${variants.join(",")}},primary_role.in.(${variants.join(",")})`;
+    const superAdmin = "roles.ov.{SUPER_ADMIN,super_admin},primary_role.in.(SUPER_ADMIN,super_admin)";
+    const { data, error } = await this.supabase
+      .from("app_users")
+      .select("id")
+      .eq("is_active", true)
+      .or(`and(school_id.eq.${schoolId},or(${holdsRole})),${superAdmin}`);
+
+    if (error) {
+      console.error("[NotificationRepository.findActiveUserIdsByRoles] Database error:", error);
+      throw new Error(`Failed to fetch users by role: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => row.id as string);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Outbox Repository Implementation
+ *
+ * Handles database access for the message outbox using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
+import type { IOutboxRepository, OutboxMessageInsert, OutboxMessageRow } from "../domain";
+
+const OUTBOX_COLUMNS =
+  "id, channel, recipient, recipient_user_id, student_id, kind, subject, body, dedupe_key, status, attempts, max_attempts, next_attempt_at, last_error, provider, provider_message_id, created_at, sent_at";
+
+/** Rows per insert request. */
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Supabase implementation of the Outbox repository.
+ */
+export class OutboxRepository implements IOutboxRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Queue messages, skipping rows whose dedupe_key is already queued.
+   *
+   * @throws Error if the database query fails
+   */
+  async enqueue(rows: OutboxMessageInsert[]): Promise<number> {
+    let queued = 0;
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+      const { data, error } = await this.supabase
+        .from("message_outbox")
+        .upsert(batch, { onConflict: "dedupe_key", ignoreDuplicates: true })
+        .select("id");
+
+      if (error) {
+        console.error("[OutboxRepository.enqueue] Database error:", error);
+        throw new Error(`Failed to queue messages: ${error.message}`);
+      }
+
+      queued += (data ?? []).length;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Claim due messages by moving them to `sending`.
+   *
+   * @remarks
+   * The update repeats the due condition (pending and due, or sending with a
+   * stale lock), so two overlapping runs never claim the same row: once one
+   * run has claimed it, its fresh locked_at no longer matches for the other.
+   *
+   * @throws Error if the database query fails
+   */
+  async claimDue(now: Date, staleBefore: Date, limit: number, schoolId: SchoolScope): Promise<OutboxMessageRow[]> {
+    const { data: due, error: dueError } = await this.supabase
+      .from("message_outbox")
+      .select<string, { id: string; status: string }>(schoolId ? "id, status, students!inner(school_id)" : "id, status")
+      .match(schoolFilter(schoolId, "students.school_id"))
+      .or(
+        `and(status.eq.pending,next_attempt_at.lte.${now.toISOString()}),and(status.eq.sending,locked_at.lt.${staleBefore.toISOString()})`
+      )
+      .order("next_attempt_at", { ascending: true })
+      .limit(limit);
+
+    if (dueError) {
+      console.error("[OutboxRepository.claimDue] Database error:", dueError);
+      throw new Error(`Failed to fetch due messages: ${dueError.message}`);
+    }
+
+    const claimed: OutboxMessageRow[] = [];
+
+    for (const status of ["pending", "sending"] as const) {
+      const ids = (due ?? []).filter((row) => row.status === status).map((row) => row.id as string);
+      if (ids.length === 0) continue;
+
+      let claim = this.supabase
+        .from("message_outbox")
+        .update({ status: "sending", locked_at: now.toISOString() })
+        .in("id", ids)
+        .eq("status", status);
+
+      claim =
+        status === "pending"
+          ? claim.lte("next_attempt_at", now.toISOString())
+          : claim.lt("locked_at", staleBefore.toISOString());
+
+      const { data, error } = await claim.select(OUTBOX_COLUMNS);
+
+      if (error) {
+        console.error("[OutboxRepository.claimDue] Database error:", error);
+        throw new Error(`Failed to claim messages: ${error.message}`);
+      }
+
+      claimed.push(...((data ?? []) as OutboxMessageRow[]));
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Mark a message as sent.
+   *
+   * @throws Error if the database query fails
+   */
+  async markSent(
+    id: string,
+    attempts: number,
+    provider: string,
+    providerMessageId: string | null,
+    sentAt: Date
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("message_outbox")
+      .update({
+        status: "sent",
+        attempts,
+        provider,
+        provider_message_id: providerMessageId,
+        sent_at: sentAt.toISOString(),
+        locked_at: null,
+        last_error: null,
+      })
+      .eq("id", id);
+
+    if (error) {
+      console.error("[OutboxRepository.markSent] Database error:", error);
+      throw new Error(`Failed to mark message as sent: ${error.message}`);
+    }
+  }
+
+  /**
+   * Return a message to `pending` for a later attempt.
+   *
+   * @throws Error if the database query fails
+   */
+  async scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, lastError: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("message_outbox")
+      .update({
+        status: "pending",
+        attempts,
+        next_attempt_at: nextAttemptAt.toISOString(),
+        last_error: lastError,
+        locked_at: null,
+      })
+      .eq("id", id);
+
+    if (error) {
+      console.error("[OutboxRepository.scheduleRetry] Database error:", error);
+      throw new Error(`Failed to reschedule message: ${error.message}`);
+    }
+  }
+
+  /**
+   * Give up on a message.
+   *
+   * @throws Error if the database query fails
+   */
+  async markFailed(id: string, attempts: number, lastError: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("message_outbox")
+      .update({ status: "failed", attempts, last_error: lastError, locked_at: null })
+      .eq("id", id);
+
+    if (error) {
+      console.error("[OutboxRepository.markFailed] Database error:", error);
+      throw new Error(`Failed to mark message as failed: ${error.message}`);
+    }
+  }
+}
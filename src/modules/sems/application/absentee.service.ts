@@ -0,0 +1,313 @@
+/**
+ * Absentee Service
+ *
+ * Writes `absent` attendance rows for students who were expected at a session
+ * but never scanned, so stats and reports can count non-attendees.
+ *
+ * @remarks
+ * - Expected students are resolved with the same audience rules and
+ *   registration filter as scanner resources
+ * - Only entry ("in") sessions get absences; exit sessions already report
+ *   students who scanned in but not out
+ * - Absences are written with source = 'system'. Re-running removes system
+ *   absences of students who are no longer expected, and a scan uploaded
+ *   later replaces the absence (see ScanUploadService)
+ * - Runs when a session's closing time passes (sweep), when an event is
+ *   completed, and on demand by organizers
+ * - New absences for today's sessions are passed to the attendance notifier,
+ *   when one is configured
+ */
+
+import type {
+  AbsenceInsert,
+  AbsenteeRunResultDto,
+  AbsenteeSessionResultDto,
+  AttendanceNotice,
+  EventDto,
+  IAbsenteeRepository,
+  IAttendanceNotifier,
+  IEventRepository,
+  IScannerResourceRepository,
+  IScanRepository,
+  SessionConfig,
+  WorkflowActorContext,
+} from "../domain";
+import { filterStudentsByAudienceConfig } from "./audience-rules";
+import { BusinessRuleError, NotFoundError } from "./event.service";
+import { getSchoolTimeZone, toZonedParts } from "./school-time";
+
+function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Which entry sessions to materialize.
+ *
+ * - `closed`: sessions whose closing time has passed
+ * - `all`: every session (the event is over)
+ */
+type AbsenteeScope = "closed" | "all";
+
+/**
+ * Service for absentee materialization.
+ *
+ * @remarks
+ * Dependency Injection: Receives the event, scanner resource, scan and
+ * absentee repositories, and an optional attendance notifier, via constructor.
+ */
+export class AbsenteeService {
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly eventRepository: IEventRepository,
+    private readonly resourceRepository: IScannerResourceRepository,
+    private readonly scanRepository: IScanRepository,
+    private readonly absenteeRepository: IAbsenteeRepository,
+    private readonly attendanceNotifier?: IAttendanceNotifier,
+    timeZone?: string
+  ) {
+    this.timeZone = timeZone ?? getSchoolTimeZone();
+  }
+
+  /**
+   * Materialize absentees for sessions that closed since the last sweep,
+   * across all published events.
+   *
+   * @remarks
+   * Only events the event repository's school scope can see are swept.
+   * Sessions that were already materialized are skipped; a failing event is
+   * logged and does not stop the others.
+   */
+  async sweepClosedSessions(now: Date = new Date()): Promise<AbsenteeRunResultDto[]> {
+    const { date: today } = toZonedParts(now, this.timeZone);
+    const eventIds = await this.absenteeRepository.findPublishedEventIdsStartedBy(today);
+    const results: AbsenteeRunResultDto[] = [];
+
+    for (const eventId of eventIds) {
+      try {
+        const event = await this.eventRepository.findByIdWithFacility(eventId);
+        if (!event) continue;
+
+        const result = await this.materialize(event, "closed", true, now);
+        if (result.sessions.length > 0) {
+          results.push(result);
+        }
+      } catch (error) {
+        console.error(`[AbsenteeService.sweepClosedSessions] Event ${eventId} failed:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Materialize absentees for every session of a completed event.
+   */
+  async materializeCompletedEvent(
+    event: EventDto,
+    now: Date = new Date()
+  ): Promise<AbsenteeRunResultDto> {
+    return this.materialize(event, "all", false, now);
+  }
+
+  /**
+   * Re-run materialization for an event, e.g. after late corrections or
+   * audience changes.
+   *
+   * @throws NotFoundError if the event does not exist
+   * @throws BusinessRuleError if the actor may not manage the event or it is not published/completed
+   */
+  async rerunForEvent(
+    eventId: string,
+    actor: WorkflowActorContext,
+    now: Date = new Date()
+  ): Promise<AbsenteeRunResultDto> {
+    const event = await this.eventRepository.findByIdWithFacility(eventId);
+    if (!event) {
+      throw new NotFoundError("Event not found", "event", eventId);
+    }
+
+    const canManageAll = actor.permissions.includes("events.manage_all");
+    const isOwningOrganizer =
+      event.ownerUserId === actor.userId && actor.permissions.includes("events.create");
+
+    if (!canManageAll && !isOwningOrganizer) {
+      throw new BusinessRuleError("You do not have permission to compute absentees for this event.");
+    }
+
+    if (event.lifecycleStatus !== "published" && event.lifecycleStatus !== "completed") {
+      throw new BusinessRuleError(
+        "Absentees can only be computed for published or completed events."
+      );
+    }
+
+    return this.materialize(event, event.lifecycleStatus === "completed" ? "all" : "closed", false, now);
+  }
+
+  private async materialize(
+    event: EventDto,
+    scope: AbsenteeScope,
+    skipMaterialized: boolean,
+    now: Date
+  ): Promise<AbsenteeRunResultDto> {
+    const ranAt = now.toISOString();
+    const result: AbsenteeRunResultDto = {
+      eventId: event.id,
+      ranAt,
+      sessions: [],
+      totalCreated: 0,
+      totalRemoved: 0,
+    };
+
+    // Step 1: Entry sessions in scope, by "<date>|<config session ID>"
+    const { date: today, minutes: nowMinutes } = toZonedParts(now, this.timeZone);
+    const dueByKey = new Map<string, { session: SessionConfig; date: string }>();
+
+    for (const dateConfig of event.sessionConfig?.dates ?? []) {
+      for (const session of dateConfig.sessions ?? []) {
+        if (session.direction !== "in") continue;
+
+        const isClosed =
+          dateConfig.date < today ||
+          (dateConfig.date === today && nowMinutes >= parseTimeToMinutes(session.closes));
+        if (scope === "closed" && !isClosed) continue;
+
+        dueByKey.set(`${dateConfig.date}|${session.id}`, { session, date: dateConfig.date });
+      }
+    }
+
+    if (dueByKey.size === 0) return result;
+
+    // Step 2: Resolve (or create) the event_sessions rows
+    const existingSessions = await this.absenteeRepository.findEventSessions(event.id);
+    const sessionByKey = new Map(
+      existingSessions
+        .filter((row) => row.session_date && row.config_session_id)
+        .map((row) => [`${row.session_date}|${row.config_session_id}`, row])
+    );
+    const targets: Array<{ id: string; name: string; session: SessionConfig; date: string }> = [];
+
+    for (const [key, due] of dueByKey) {
+      const row = sessionByKey.get(key);
+      if (row && skipMaterialized && row.absentees_materialized_at) continue;
+
+      const id =
+        row?.id ?? (await this.scanRepository.createEventSession(event.id, due.date, due.session));
+      targets.push({ id, name: due.session.name ?? due.session.id, session: due.session, date: due.date });
+    }
+
+    if (targets.length === 0) return result;
+
+    // Step 3: Expected students and the attendance already recorded
+    const expectedIds = await this.resolveExpectedStudentIds(event);
+    const attendance = await this.absenteeRepository.findAttendanceForSessions(
+      targets.map((target) => target.id)
+    );
+
+    // Step 4: Insert missing absences and drop stale system absences per session
+    const notices: AttendanceNotice[] = [];
+    for (const target of targets) {
+      const sessionRows = attendance.filter((row) => row.event_session_id === target.id);
+      const recorded = new Set(sessionRows.map((row) => row.student_id));
+
+      const inserts: AbsenceInsert[] = [];
+      for (const studentId of expectedIds) {
+        if (recorded.has(studentId)) continue;
+        inserts.push({
+          event_session_id: target.id,
+          student_id: studentId,
+          scanned_at: ranAt,
+          status: "absent",
+          source: "system",
+        });
+      }
+
+      const staleIds = sessionRows
+        .filter(
+          (row) =>
+            row.source === "system" && row.status === "absent" && !expectedIds.has(row.student_id)
+        )
+        .map((row) => row.id);
+
+      const absentCreated = await this.absenteeRepository.insertAbsences(inserts);
+      if (absentCreated > 0 && target.date === today) {
+        notices.push(
+          ...inserts.map((insert) => ({
+            kind: "absent" as const,
+            studentId: insert.student_id,
+            eventId: event.id,
+            eventTitle: event.title,
+            eventSessionId: target.id,
+            sessionName: target.name,
+            date: target.date,
+            occurredAt: ranAt,
+          }))
+        );
+      }
+      if (staleIds.length > 0) {
+        await this.absenteeRepository.deleteAttendance(staleIds);
+      }
+
+      const sessionResult: AbsenteeSessionResultDto = {
+        eventSessionId: target.id,
+        sessionId: target.session.id,
+        name: target.name,
+        date: target.date,
+        expectedStudents: expectedIds.size,
+        absentCreated,
+        absentRemoved: staleIds.length,
+      };
+      result.sessions.push(sessionResult);
+      result.totalCreated += absentCreated;
+      result.totalRemoved += staleIds.length;
+    }
+
+    await this.absenteeRepository.markSessionsMaterialized(
+      targets.map((target) => target.id),
+      ranAt
+    );
+
+    if (this.attendanceNotifier && notices.length > 0) {
+      try {
+        await this.attendanceNotifier.notifyAttendance(notices);
+      } catch (error) {
+        console.error("[AbsenteeService.materialize] Notifier error:", error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Active students in the event's audience (confirmed registrants only for
+   * registration-required events).
+   */
+  private async resolveExpectedStudentIds(event: EventDto): Promise<Set<string>> {
+    const students = await this.resourceRepository.findActiveStudents(event.schoolId);
+
+    const sectionIds = Array.from(
+      new Set(students.map((s) => s.section_id).filter((id): id is string => !!id))
+    );
+    const sections = await this.resourceRepository.findSections(sectionIds);
+
+    const sectionToLevelMap = new Map<string, string>();
+    for (const section of sections) {
+      if (section.level_id) {
+        sectionToLevelMap.set(section.id, section.level_id);
+      }
+    }
+
+    let expected = filterStudentsByAudienceConfig(students, sectionToLevelMap, event.audienceConfig);
+
+    if (event.registration.registrationRequired) {
+      const registrations = await this.eventRepository.findRegistrationsByEvent(event.id);
+      const registeredIds = new Set(
+        registrations.filter((r) => r.status !== "waitlisted").map((r) => r.student_id)
+      );
+      expected = expected.filter((s) => registeredIds.has(s.id));
+    }
+
+    return new Set(expected.map((s) => s.id));
+  }
+}
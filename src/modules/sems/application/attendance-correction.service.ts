@@ -0,0 +1,335 @@
+/**
+ * Attendance Correction Service
+ *
+ * Lets organizers add, change or remove a student's attendance for a session
+ * (e.g. a student who lost their ID) with a recorded reason.
+ *
+ * @remarks
+ * - Only admins and the event's owning organizer may correct attendance
+ * - Every change is written to attendance_corrections with the previous status
+ * - Manual rows are marked with source = 'manual' so reports can tell them apart
+ */
+
+import type {
+  AttendanceCorrectionDto,
+  AttendanceCorrectionInput,
+  AttendanceCorrectionRow,
+  AttendanceCorrectionStatus,
+  EventRow,
+  EventSessionConfig,
+  IAttendanceCorrectionRepository,
+  IEventRepository,
+  IScanRepository,
+  ValidationErrorDetail,
+  WorkflowActorContext,
+} from "../domain";
+import { BusinessRuleError, NotFoundError, ValidationError } from "./event.service";
+
+const CORRECTION_STATUSES: readonly AttendanceCorrectionStatus[] = ["present", "late", "excused"];
+
+const MAX_REASON_LENGTH = 500;
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 500;
+
+/**
+ * Service for manual attendance corrections.
+ *
+ * @remarks
+ * Dependency Injection: Receives the event, scan and correction repositories via constructor.
+ */
+export class AttendanceCorrectionService {
+  constructor(
+    private readonly eventRepository: IEventRepository,
+    private readonly scanRepository: IScanRepository,
+    private readonly correctionRepository: IAttendanceCorrectionRepository
+  ) {}
+
+  /**
+   * Add, change or remove a student's attendance for one session.
+   *
+   * @param input - Student, session, new status (null to remove) and reason
+   * @param actor - The organizer making the change
+   * @returns The recorded correction
+   * @throws ValidationError if the input is invalid
+   * @throws NotFoundError if the event, session, student or record does not exist
+   * @throws BusinessRuleError if the actor may not correct this event's attendance
+   */
+  async correctAttendance(
+    input: AttendanceCorrectionInput,
+    actor: WorkflowActorContext
+  ): Promise<AttendanceCorrectionDto> {
+    const reason = typeof input.reason === "string" ? input.reason.trim() : "";
+    const errors: ValidationErrorDetail[] = [];
+
+    if (!reason) {
+      errors.push({ field: "reason", message: "A reason is required for attendance corrections" });
+    } else if (reason.length > MAX_REASON_LENGTH) {
+      errors.push({
+        field: "reason",
+        message: `Reason must be ${MAX_REASON_LENGTH} characters or fewer`,
+      });
+    }
+
+    if (input.status !== null && !CORRECTION_STATUSES.includes(input.status)) {
+      errors.push({
+        field: "status",
+        message: `Status must be one of: ${CORRECTION_STATUSES.join(", ")}`,
+      });
+    }
+
+    if (!input.studentId && !input.lrn?.trim()) {
+      errors.push({ field: "studentId", message: "A student ID or LRN is required" });
+    }
+
+    if (!input.eventSessionId && !input.sessionId) {
+      errors.push({ field: "sessionId", message: "A session is required" });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid attendance correction", errors);
+    }
+
+    const event = await this.getManageableEvent(input.eventId, actor);
+
+    if (event.lifecycle_status !== "published" && event.lifecycle_status !== "completed") {
+      throw new BusinessRuleError(
+        "Attendance can only be corrected for published or completed events."
+      );
+    }
+
+    const student = await this.correctionRepository.findStudent(event.school_id, {
+      studentId: input.studentId,
+      lrn: input.lrn?.trim(),
+    });
+    if (!student) {
+      throw new NotFoundError(
+        "Student not found",
+        "student",
+        input.studentId ?? input.lrn ?? ""
+      );
+    }
+
+    const session = await this.resolveSession(event, input);
+    const existing = await this.correctionRepository.findAttendance(session.id, student.id);
+    const now = new Date().toISOString();
+
+    let correction: Omit<AttendanceCorrectionRow, "id" | "created_at">;
+
+    if (input.status === null) {
+      if (!existing) {
+        throw new NotFoundError(
+          "No attendance is recorded for this student in this session",
+          "attendance",
+          student.id
+        );
+      }
+
+      await this.correctionRepository.deleteAttendance(existing.id);
+      correction = {
+        event_id: event.id,
+        event_session_id: session.id,
+        student_id: student.id,
+        attendance_log_id: existing.id,
+        action: "remove",
+        previous_status: existing.status,
+        new_status: null,
+        reason,
+        corrected_by_user_id: actor.userId,
+      };
+    } else if (existing) {
+      if (existing.status === input.status) {
+        throw new BusinessRuleError(`Attendance is already marked ${input.status}.`);
+      }
+
+      await this.correctionRepository.updateAttendanceStatus(
+        existing.id,
+        input.status,
+        actor.userId,
+        now
+      );
+      correction = {
+        event_id: event.id,
+        event_session_id: session.id,
+        student_id: student.id,
+        attendance_log_id: existing.id,
+        action: "update",
+        previous_status: existing.status,
+        new_status: input.status,
+        reason,
+        corrected_by_user_id: actor.userId,
+      };
+    } else {
+      const inserted = await this.correctionRepository.insertAttendance({
+        event_session_id: session.id,
+        student_id: student.id,
+        scanned_at: now,
+        status: input.status,
+        source: "manual",
+        synced_by_user_id: actor.userId,
+        corrected_at: now,
+        corrected_by_user_id: actor.userId,
+      });
+
+      if (!inserted) {
+        throw new BusinessRuleError(
+          "Attendance was recorded for this student while you were editing. Refresh and try again."
+        );
+      }
+
+      correction = {
+        event_id: event.id,
+        event_session_id: session.id,
+        student_id: student.id,
+        attendance_log_id: inserted.id,
+        action: "add",
+        previous_status: null,
+        new_status: input.status,
+        reason,
+        corrected_by_user_id: actor.userId,
+      };
+    }
+
+    const saved = await this.correctionRepository.insertCorrection(correction);
+    const correctorNames = await this.scanRepository.getUserNames([actor.userId]);
+
+    return this.toDto(
+      saved,
+      session.name,
+      student.fullName,
+      correctorNames.get(actor.userId) ?? null
+    );
+  }
+
+  /**
+   * List recent corrections for an event, newest first.
+   *
+   * @throws NotFoundError if the event does not exist
+   * @throws BusinessRuleError if the actor may not manage the event
+   */
+  async listCorrections(
+    eventId: string,
+    actor: WorkflowActorContext,
+    limit: number = DEFAULT_LIST_LIMIT
+  ): Promise<AttendanceCorrectionDto[]> {
+    await this.getManageableEvent(eventId, actor);
+
+    const rows = await this.correctionRepository.findCorrectionsByEvent(
+      eventId,
+      Math.min(Math.max(1, Math.floor(limit)), MAX_LIST_LIMIT)
+    );
+    if (rows.length === 0) return [];
+
+    const [sessions, studentNames, userNames] = await Promise.all([
+      this.scanRepository.findEventSessions(eventId),
+      this.correctionRepository.getStudentNames(rows.map((row) => row.student_id)),
+      this.scanRepository.getUserNames(
+        rows.map((row) => row.corrected_by_user_id).filter((id): id is string => !!id)
+      ),
+    ]);
+    const sessionNames = new Map(sessions.map((session) => [session.id, session.name]));
+
+    return rows.map((row) =>
+      this.toDto(
+        row,
+        sessionNames.get(row.event_session_id) ?? null,
+        studentNames.get(row.student_id) ?? null,
+        row.corrected_by_user_id ? userNames.get(row.corrected_by_user_id) ?? null : null
+      )
+    );
+  }
+
+  private async getManageableEvent(
+    eventId: string,
+    actor: WorkflowActorContext
+  ): Promise<EventRow> {
+    const event = await this.eventRepository.findById(eventId);
+    if (!event) {
+      throw new NotFoundError("Event not found", "event", eventId);
+    }
+
+    const canManageAll = actor.permissions.includes("events.manage_all");
+    const isOwningOrganizer =
+      event.owner_user_id === actor.userId && actor.permissions.includes("events.create");
+
+    if (!canManageAll && !isOwningOrganizer) {
+      throw new BusinessRuleError("You do not have permission to correct attendance for this event.");
+    }
+
+    return event;
+  }
+
+  /**
+   * Resolve the event_sessions row from an explicit ID or a session_config ID
+   * and date, creating the row if no scan has been stored for that session yet.
+   *
+   * @throws ValidationError if the session runs on several dates and none was given
+   */
+  private async resolveSession(
+    event: EventRow,
+    input: AttendanceCorrectionInput
+  ): Promise<{ id: string; name: string }> {
+    if (input.eventSessionId) {
+      const session = await this.correctionRepository.findEventSession(
+        event.id,
+        input.eventSessionId
+      );
+      if (!session) {
+        throw new NotFoundError("Session not found", "event_session", input.eventSessionId);
+      }
+      return session;
+    }
+
+    const sessionConfig = event.session_config as EventSessionConfig | null;
+    const occurrences = (sessionConfig?.dates ?? []).flatMap((dateConfig) =>
+      (dateConfig.sessions ?? [])
+        .filter((session) => session.id === input.sessionId)
+        .map((session) => ({ date: dateConfig.date, session }))
+    );
+
+    if (occurrences.length > 1 && !input.date) {
+      throw new ValidationError("Invalid attendance correction", [
+        { field: "date", message: "This session runs on several dates; a date is required" },
+      ]);
+    }
+
+    const occurrence = input.date
+      ? occurrences.find((candidate) => candidate.date === input.date)
+      : occurrences[0];
+
+    if (!occurrence) {
+      throw new NotFoundError("Session not found", "session", input.sessionId ?? "");
+    }
+
+    const existing = (await this.scanRepository.findEventSessions(event.id)).find(
+      (row) => row.session_date === occurrence.date && row.config_session_id === occurrence.session.id
+    );
+    const id =
+      existing?.id ??
+      (await this.scanRepository.createEventSession(event.id, occurrence.date, occurrence.session));
+
+    return { id, name: occurrence.session.name ?? occurrence.session.id };
+  }
+
+  private toDto(
+    row: AttendanceCorrectionRow,
+    sessionName: string | null,
+    studentName: string | null,
+    correctedByName: string | null
+  ): AttendanceCorrectionDto {
+    return {
+      id: row.id,
+      eventSessionId: row.event_session_id,
+      sessionName,
+      studentId: row.student_id,
+      studentName,
+      action: row.action,
+      previousStatus: row.previous_status,
+      newStatus: row.new_status,
+      reason: row.reason,
+      correctedByUserId: row.corrected_by_user_id,
+      correctedByName,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Audience Rule Evaluation
+ *
+ * Shared logic for deciding whether a student belongs to an event's audience.
+ *
+ * @remarks
+ * A student is eligible when at least one "include" rule matches and no
+ * "exclude" rule matches. Used by EventService (registrations, listings)
+ * and ScanValidationService (server-side scan checks). Bulk filtering of
+ * student lists (scanner resources, absentees) uses filterStudentsByAudienceConfig.
+ */
+
+import type { AudienceRule, EventAudienceConfig, StudentAudienceContext } from "../domain";
+
+/**
+ * Check whether a single rule matches a student's context.
+ */
+export function audienceRuleMatches(rule: AudienceRule, context: StudentAudienceContext): boolean {
+  switch (rule.kind) {
+    case "ALL_STUDENTS":
+      return true;
+    case "LEVEL":
+      return !!context.levelId && (rule.levelIds?.includes(context.levelId) ?? false);
+    case "SECTION":
+      return !!context.sectionId && (rule.sectionIds?.includes(context.sectionId) ?? false);
+    case "STUDENT":
+      return rule.studentIds?.includes(context.studentId) ?? false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether a student is part of an event's audience.
+ *
+ * @param audienceConfig - The event's target audience configuration
+ * @param context - The student's section/level context
+ * @returns True if included and not excluded
+ */
+export function isStudentInAudience(
+  audienceConfig: EventAudienceConfig | null | undefined,
+  context: StudentAudienceContext
+): boolean {
+  const rules = audienceConfig?.rules ?? [];
+  const includeRules = rules.filter((rule) => rule.effect === "include");
+  const excludeRules = rules.filter((rule) => rule.effect === "exclude");
+
+  const isIncluded = includeRules.some((rule) => audienceRuleMatches(rule, context));
+  if (!isIncluded) {
+    return false;
+  }
+
+  return !excludeRules.some((rule) => audienceRuleMatches(rule, context));
+}
+
+/**
+ * Filter students based on event's audience configuration.
+ * Rules are applied in order:
+ * 1. Start with empty set
+ * 2. Apply "include" rules to add matching students
+ * 3. Apply "exclude" rules to remove matching students
+ */
+export function filterStudentsByAudienceConfig<T extends { id: string; section_id: string | null }>(
+  students: T[],
+  sectionToLevelMap: Map<string, string>,
+  audienceConfig: EventAudienceConfig | null | undefined
+): T[] {
+  // If no config or no rules, return all students (backwards compatible)
+  if (!audienceConfig?.rules || audienceConfig.rules.length === 0) {
+    return students;
+  }
+
+  const allowedIds = new Set<string>();
+
+  // First pass: apply include rules
+  for (const rule of audienceConfig.rules) {
+    if (rule.effect !== "include") continue;
+
+    switch (rule.kind) {
+      case "ALL_STUDENTS":
+        // Include all students
+        for (const s of students) {
+          allowedIds.add(s.id);
+        }
+        break;
+
+      case "LEVEL":
+        // Include students whose section belongs to one of the specified levels
+        if ("levelIds" in rule && Array.isArray(rule.levelIds)) {
+          const levelSet = new Set(rule.levelIds);
+          for (const s of students) {
+            if (s.section_id) {
+              const levelId = sectionToLevelMap.get(s.section_id);
+              if (levelId && levelSet.has(levelId)) {
+                allowedIds.add(s.id);
+              }
+            }
+          }
+        }
+        break;
+
+      case "SECTION":
+        // Include students in specified sections
+        if ("sectionIds" in rule && Array.isArray(rule.sectionIds)) {
+          const sectionSet = new Set(rule.sectionIds);
+          for (const s of students) {
+            if (s.section_id && sectionSet.has(s.section_id)) {
+              allowedIds.add(s.id);
+            }
+          }
+        }
+        break;
+
+      case "STUDENT":
+        // Include specific students
+        if ("studentIds" in rule && Array.isArray(rule.studentIds)) {
+          for (const studentId of rule.studentIds) {
+            allowedIds.add(studentId);
+          }
+        }
+        break;
+    }
+  }
+
+  // Second pass: apply exclude rules
+  for (const rule of audienceConfig.rules) {
+    if (rule.effect !== "exclude") continue;
+
+    switch (rule.kind) {
+      case "ALL_STUDENTS":
+        // Exclude all - clear the set
+        allowedIds.clear();
+        break;
+
+      case "LEVEL":
+        if ("levelIds" in rule && Array.isArray(rule.levelIds)) {
+          const levelSet = new Set(rule.levelIds);
+          for (const s of students) {
+            if (s.section_id) {
+              const levelId = sectionToLevelMap.get(s.section_id);
+              if (levelId && levelSet.has(levelId)) {
+                allowedIds.delete(s.id);
+              }
+            }
+          }
+        }
+        break;
+
+      case "SECTION":
+        if ("sectionIds" in rule && Array.isArray(rule.sectionIds)) {
+          const sectionSet = new Set(rule.sectionIds);
+          for (const s of students) {
+            if (s.section_id && sectionSet.has(s.section_id)) {
+              allowedIds.delete(s.id);
+            }
+          }
+        }
+        break;
+
+      case "STUDENT":
+        if ("studentIds" in rule && Array.isArray(rule.studentIds)) {
+          for (const studentId of rule.studentIds) {
+            allowedIds.delete(studentId);
+          }
+        }
+        break;
+    }
+  }
+
+  // Return only students whose IDs are in the allowed set
+  return students.filter((s) => allowedIds.has(s.id));
+}
@@ -0,0 +1,558 @@
+/**
+ * Event Series Service
+ *
+ * Recurring events (daily gate attendance, weekly flag ceremonies): expands a
+ * recurrence pattern into ordinary events that share a session template.
+ *
+ * @remarks
+ * - Occurrences are created and updated through EventService, so validation,
+ *   approval, permissions and the audit log work as for single events
+ * - A series never double-books its venue: EventService checks each new
+ *   occurrence as it is created, and updateSeries checks edits with
+ *   VenueService.checkAvailability
+ * - Creating a series is all or nothing: if an occurrence can't be created,
+ *   the occurrences created so far and the series row are deleted again
+ * - A single occurrence is edited like any other event; "this and following"
+ *   edits go through updateSeries and split the series when needed
+ * - The EventService passed in should have no workflow notifier: this service
+ *   sends one notice per series change instead of one per occurrence
+ * - Holidays and class suspensions on the school calendar, when one is
+ *   configured, are added to the pattern's excluded dates
+ */
+
+import type {
+  CreateEventDto,
+  CreateEventSeriesDto,
+  DateSessionConfig,
+  EventDto,
+  EventNonSchoolDay,
+  EventRecurrenceRule,
+  EventSeriesCreateResultDto,
+  EventSeriesDto,
+  EventSeriesOccurrenceRow,
+  EventSeriesRow,
+  EventSeriesUpdateFailure,
+  EventSeriesUpdateResultDto,
+  EventWorkflowNotice,
+  IEventSeriesRepository,
+  IEventService,
+  IEventWorkflowNotifier,
+  ISchoolCalendarLookup,
+  SessionConflict,
+  UpdateEventDto,
+  UpdateEventSeriesDto,
+  ValidationErrorDetail,
+  WorkflowActorContext,
+} from "../domain";
+import {
+  BusinessRuleError,
+  NotFoundError,
+  ValidationError,
+  VenueConflictError,
+  WORKFLOW_NOTICE_KINDS,
+} from "./event.service";
+import type { VenueService } from "./venue.service";
+import { expandRecurrence, previousDate, recurrenceSpanEnd, validateRecurrenceRule } from "./recurrence";
+
+/**
+ * Service for recurring event series.
+ *
+ * @remarks
+ * Dependency Injection: Receives the series repository, event service, venue
+ * service, optional workflow notifier and optional school calendar via constructor.
+ * The event service should be built with a venue availability lookup so
+ * createEvent refuses booked venues.
+ */
+export class EventSeriesService {
+  constructor(
+    private readonly seriesRepository: IEventSeriesRepository,
+    private readonly eventService: IEventService,
+    private readonly venueService: Pick<VenueService, "checkAvailability">,
+    private readonly workflowNotifier?: IEventWorkflowNotifier,
+    private readonly schoolCalendar?: ISchoolCalendarLookup
+  ) {}
+
+  /**
+   * Create a series and one event per occurrence date.
+   *
+   * @throws ValidationError if the pattern, template or shared fields are invalid,
+   *   or the venue is booked and `skipConflictingDates` is not set
+   * @throws NotFoundError if the venue doesn't exist
+   *
+   * @remarks
+   * Nothing is kept when an occurrence fails: the ones already created and
+   * the series row are deleted before the error is rethrown.
+   */
+  async createSeries(
+    input: CreateEventSeriesDto,
+    actor: WorkflowActorContext
+  ): Promise<EventSeriesCreateResultDto> {
+    // Step 1: Validate the pattern and expand it
+    const errors = [
+      ...validateRecurrenceRule(input.recurrence),
+      ...this.validateSessionTemplate(input.sessionTemplate),
+    ];
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid event series", errors);
+    }
+
+    const { recurrence, skippedNonSchoolDays } = await this.excludeSchoolClosures(input.recurrence);
+
+    const dates = expandRecurrence(recurrence);
+    if (dates.length === 0) {
+      throw new ValidationError("Invalid event series", [
+        { field: "recurrence", message: "The pattern doesn't produce any dates", code: "EMPTY" },
+      ]);
+    }
+
+    // Step 2: Validate the shared fields as an ordinary event
+    const validation = this.eventService.validateCreateEvent(this.buildOccurrence(input, dates[0], null));
+    if (!validation.isValid) {
+      throw new ValidationError("Invalid event data", validation.errors);
+    }
+
+    // Step 3: Create the series, then its occurrences
+    const series = await this.seriesRepository.create({
+      title: input.title.trim(),
+      recurrence,
+      session_template: input.sessionTemplate,
+      owner_user_id: actor.userId,
+      split_from_series_id: null,
+      created_by: actor.userId,
+    });
+
+    const events: EventDto[] = [];
+    const skippedConflicts: SessionConflict[] = [];
+
+    try {
+      for (const date of dates) {
+        try {
+          events.push(await this.eventService.createEvent(this.buildOccurrence(input, date, series.id), actor));
+        } catch (error) {
+          // createEvent checks the venue as each occurrence is saved
+          if (error instanceof VenueConflictError) {
+            skippedConflicts.push(...error.conflicts);
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      if (skippedConflicts.length > 0 && !input.skipConflictingDates) {
+        throw new VenueConflictError("The venue is already booked on some series dates", skippedConflicts);
+      }
+      if (events.length === 0) {
+        throw new VenueConflictError("The venue is already booked on every series date", skippedConflicts);
+      }
+    } catch (error) {
+      await this.deleteUnfinishedSeries(series.id, events);
+      throw error;
+    }
+
+    // Step 4: One approval request for the whole series
+    await this.notify(events, actor, "submitted", input.scannerConfig.scannerIds);
+
+    return { series: await this.toDto(series), skippedConflicts, skippedNonSchoolDays };
+  }
+
+  /**
+   * A series with its occurrences.
+   *
+   * @throws NotFoundError if the series doesn't exist
+   * @throws BusinessRuleError if the actor doesn't own it and can't manage all events
+   */
+  async getSeries(seriesId: string, actor: WorkflowActorContext): Promise<EventSeriesDto> {
+    const series = await this.findManageableSeries(seriesId, actor);
+    return this.toDto(series);
+  }
+
+  /**
+   * Apply an edit or workflow action to one occurrence and every later one.
+   *
+   * @throws ValidationError if the changes are invalid or the venue is booked
+   * @throws NotFoundError if the series or occurrence doesn't exist
+   * @throws BusinessRuleError if the actor doesn't own the series and can't manage all events
+   *
+   * @remarks
+   * Occurrences the change can't apply to (e.g. already completed) are
+   * reported in `failures`; the rest are still updated.
+   */
+  async updateSeries(
+    input: UpdateEventSeriesDto,
+    actor: WorkflowActorContext
+  ): Promise<EventSeriesUpdateResultDto> {
+    // Step 1: Find the occurrences affected
+    const series = await this.findManageableSeries(input.seriesId, actor);
+    const occurrences = await this.seriesRepository.findOccurrences(series.id);
+
+    const fromIndex = occurrences.findIndex((occurrence) => occurrence.id === input.fromEventId);
+    if (fromIndex === -1) {
+      throw new NotFoundError("Event is not part of this series", "event", input.fromEventId);
+    }
+    const affected = occurrences.slice(fromIndex);
+
+    // Step 2: Validate the changes against the first affected occurrence
+    if (input.sessionTemplate !== undefined) {
+      const templateErrors = this.validateSessionTemplate(input.sessionTemplate);
+      if (templateErrors.length > 0) {
+        throw new ValidationError("Invalid event series", templateErrors);
+      }
+    }
+
+    const validation = this.eventService.validateUpdateEvent(this.buildOccurrenceUpdate(input, affected[0]));
+    if (!validation.isValid) {
+      throw new ValidationError("Invalid event data", validation.errors);
+    }
+
+    // Step 3: Keep the venue free of double bookings
+    if (input.facilityId || input.sessionTemplate) {
+      await this.assertVenueFree(input, affected, new Set(occurrences.map((occurrence) => occurrence.id)));
+    }
+
+    // Step 4: Split the series when editing from a later occurrence
+    const target = await this.resolveTargetSeries(series, affected, fromIndex, input, actor);
+
+    // Step 5: Update each occurrence
+    const updatedEvents: EventDto[] = [];
+    const failures: EventSeriesUpdateFailure[] = [];
+
+    for (const occurrence of affected) {
+      try {
+        updatedEvents.push(
+          await this.eventService.updateEvent(this.buildOccurrenceUpdate(input, occurrence), actor)
+        );
+      } catch (error) {
+        if (
+          error instanceof ValidationError ||
+          error instanceof BusinessRuleError ||
+          error instanceof NotFoundError
+        ) {
+          failures.push({
+            eventId: occurrence.id,
+            date: occurrence.start_date ?? "",
+            message: error.message,
+          });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    // Step 6: One notice for the whole change
+    const previousScannerIds = new Set(affected[0].scanner_assignments?.scannerIds ?? []);
+    await this.notify(
+      updatedEvents,
+      actor,
+      input.workflowAction ? WORKFLOW_NOTICE_KINDS[input.workflowAction] ?? null : null,
+      (input.scannerConfig?.scannerIds ?? []).filter((scannerId) => !previousScannerIds.has(scannerId))
+    );
+
+    return {
+      series: await this.toDto(target),
+      updatedEventIds: updatedEvents.map((event) => event.id),
+      failures,
+    };
+  }
+
+  /**
+   * Add the school calendar's holidays and suspensions to a rule's excluded dates.
+   *
+   * @remarks
+   * Weekends and breaks are left to the pattern itself. Calendar lookup
+   * failures are logged and the rule is used as given.
+   */
+  private async excludeSchoolClosures(
+    rule: EventRecurrenceRule
+  ): Promise<{ recurrence: EventRecurrenceRule; skippedNonSchoolDays: EventNonSchoolDay[] }> {
+    if (!this.schoolCalendar) {
+      return { recurrence: rule, skippedNonSchoolDays: [] };
+    }
+
+    let closures: EventNonSchoolDay[];
+    try {
+      closures = (await this.schoolCalendar.findNonSchoolDays(rule.startDate, recurrenceSpanEnd(rule))).filter(
+        (day) => day.reason === "holiday" || day.reason === "suspension"
+      );
+    } catch (error) {
+      console.error("[EventSeriesService] Failed to look up school closures", error);
+      return { recurrence: rule, skippedNonSchoolDays: [] };
+    }
+
+    const alreadyExcluded = new Set(rule.excludedDates);
+    const recurrence: EventRecurrenceRule = {
+      ...rule,
+      excludedDates: [
+        ...rule.excludedDates,
+        ...closures.map((day) => day.date).filter((date) => !alreadyExcluded.has(date)),
+      ],
+    };
+
+    // Report only closures the pattern would otherwise have landed on
+    const dates = expandRecurrence(recurrence);
+    const lastDate = dates[dates.length - 1];
+    const patternDates = new Set(
+      lastDate ? expandRecurrence({ ...rule, until: lastDate, count: null }) : []
+    );
+
+    return {
+      recurrence,
+      skippedNonSchoolDays: closures.filter((day) => patternDates.has(day.date)),
+    };
+  }
+
+  /**
+   * Undo a series whose occurrences couldn't all be created. Failures are
+   * logged so the original error reaches the caller.
+   */
+  private async deleteUnfinishedSeries(seriesId: string, events: EventDto[]): Promise<void> {
+    try {
+      if (events.length > 0) {
+        await this.eventService.deleteEvents(events.map((event) => event.id));
+      }
+      await this.seriesRepository.delete(seriesId);
+    } catch (error) {
+      console.error("[EventSeriesService] Failed to delete unfinished series", { seriesId, error });
+    }
+  }
+
+  private async findManageableSeries(seriesId: string, actor: WorkflowActorContext): Promise<EventSeriesRow> {
+    const series = await this.seriesRepository.findById(seriesId);
+    if (!series) {
+      throw new NotFoundError("Event series not found", "event_series", seriesId);
+    }
+
+    const canManageAll = actor.permissions.includes("events.manage_all");
+    if (!canManageAll && series.owner_user_id !== actor.userId) {
+      throw new BusinessRuleError("You do not have permission to manage this event series.");
+    }
+
+    return series;
+  }
+
+  /**
+   * The series the edited occurrences belong to after the edit.
+   *
+   * @remarks
+   * Editing from the first occurrence updates the series in place. Editing
+   * from a later one ends the original series the day before and moves the
+   * edited occurrences to a new series that records the split.
+   */
+  private async resolveTargetSeries(
+    series: EventSeriesRow,
+    affected: EventSeriesOccurrenceRow[],
+    fromIndex: number,
+    input: UpdateEventSeriesDto,
+    actor: WorkflowActorContext
+  ): Promise<EventSeriesRow> {
+    const changes: Partial<Pick<EventSeriesRow, "title" | "session_template">> = {};
+    if (input.title !== undefined) changes.title = input.title.trim();
+    if (input.sessionTemplate !== undefined) changes.session_template = input.sessionTemplate;
+
+    if (fromIndex === 0) {
+      return Object.keys(changes).length > 0
+        ? this.seriesRepository.update(series.id, changes, actor.userId)
+        : series;
+    }
+
+    const fromDate = affected[0].start_date ?? series.recurrence.startDate;
+    const lastDate = affected[affected.length - 1].start_date ?? series.recurrence.until;
+
+    const splitSeries = await this.seriesRepository.create({
+      title: changes.title ?? series.title,
+      recurrence: { ...series.recurrence, startDate: fromDate, until: lastDate, count: null },
+      session_template: changes.session_template ?? series.session_template,
+      owner_user_id: series.owner_user_id,
+      split_from_series_id: series.id,
+      created_by: actor.userId,
+    });
+
+    await this.seriesRepository.update(
+      series.id,
+      { recurrence: { ...series.recurrence, until: previousDate(fromDate), count: null } },
+      actor.userId
+    );
+    await this.seriesRepository.reassignOccurrences(
+      affected.map((occurrence) => occurrence.id),
+      splitSeries.id
+    );
+
+    return splitSeries;
+  }
+
+  private async assertVenueFree(
+    input: UpdateEventSeriesDto,
+    affected: EventSeriesOccurrenceRow[],
+    seriesEventIds: Set<string>
+  ): Promise<void> {
+    // Occurrences may have been moved to other venues individually
+    const sessionsByFacility = new Map<string, DateSessionConfig[]>();
+
+    for (const occurrence of affected) {
+      const facilityId = input.facilityId !== undefined ? input.facilityId : occurrence.facility_id;
+      if (!facilityId || !occurrence.start_date) continue;
+
+      const sessions =
+        input.sessionTemplate ??
+        occurrence.session_config?.dates?.find((entry) => entry.date === occurrence.start_date)?.sessions ??
+        [];
+
+      const entries = sessionsByFacility.get(facilityId) ?? [];
+      entries.push({ date: occurrence.start_date, sessions });
+      sessionsByFacility.set(facilityId, entries);
+    }
+
+    const conflicts: SessionConflict[] = [];
+    for (const [facilityId, sessions] of sessionsByFacility) {
+      conflicts.push(...(await this.findVenueConflicts(facilityId, sessions, seriesEventIds)));
+    }
+
+    if (conflicts.length > 0) {
+      throw new VenueConflictError("The venue is already booked on some series dates", conflicts);
+    }
+  }
+
+  /**
+   * Conflicts for one venue, ignoring the series' own occurrences.
+   *
+   * @throws NotFoundError if the venue doesn't exist or isn't operational
+   */
+  private async findVenueConflicts(
+    facilityId: string,
+    sessions: DateSessionConfig[],
+    ignoredEventIds: Set<string>
+  ): Promise<SessionConflict[]> {
+    if (sessions.length === 0) return [];
+
+    const dates = sessions.map((entry) => entry.date).sort();
+    const availability = await this.venueService.checkAvailability({
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+      sessions,
+    });
+
+    const venue = availability.venues.find((result) => result.facilityId === facilityId);
+    if (!venue) {
+      throw new NotFoundError("Selected venue does not exist or is not operational", "facility", facilityId);
+    }
+
+    return venue.conflicts.filter((conflict) => !ignoredEventIds.has(conflict.conflictingEventId));
+  }
+
+  private validateSessionTemplate(template: unknown): ValidationErrorDetail[] {
+    if (!Array.isArray(template) || template.length === 0) {
+      return [{ field: "sessionTemplate", message: "At least one session is required", code: "REQUIRED" }];
+    }
+    return [];
+  }
+
+  private buildOccurrence(input: CreateEventSeriesDto, date: string, seriesId: string | null): CreateEventDto {
+    return {
+      title: input.title,
+      description: input.description,
+      posterImageUrl: input.posterImageUrl,
+      startDate: date,
+      endDate: date,
+      facilityId: input.facilityId,
+      audienceConfig: input.audienceConfig,
+      sessionConfig: { version: 2, dates: [{ date, sessions: input.sessionTemplate }] },
+      scannerConfig: input.scannerConfig,
+      visibility: input.visibility,
+      registrationRequired: false,
+      seriesId,
+    };
+  }
+
+  private buildOccurrenceUpdate(input: UpdateEventSeriesDto, occurrence: EventSeriesOccurrenceRow): UpdateEventDto {
+    const update: UpdateEventDto = { id: occurrence.id };
+
+    if (input.title !== undefined) update.title = input.title;
+    if (input.description !== undefined) update.description = input.description;
+    if (input.posterImageUrl !== undefined) update.posterImageUrl = input.posterImageUrl;
+    if (input.facilityId !== undefined) update.facilityId = input.facilityId;
+    if (input.audienceConfig !== undefined) update.audienceConfig = input.audienceConfig;
+    if (input.scannerConfig !== undefined) update.scannerConfig = input.scannerConfig;
+    if (input.visibility !== undefined) update.visibility = input.visibility;
+    if (input.sessionTemplate !== undefined && occurrence.start_date) {
+      update.sessionConfig = {
+        version: 2,
+        dates: [{ date: occurrence.start_date, sessions: input.sessionTemplate }],
+      };
+    }
+    if (input.workflowAction !== undefined) {
+      update.workflowAction = input.workflowAction;
+      update.workflowComment = input.workflowComment;
+      update.actionReason = input.actionReason;
+    }
+
+    return update;
+  }
+
+  /**
+   * Send one workflow notice (and scanner assignment) for a series change,
+   * pointing at its first occurrence. Failures are logged, not thrown.
+   */
+  private async notify(
+    events: EventDto[],
+    actor: WorkflowActorContext,
+    kind: EventWorkflowNotice["kind"] | null,
+    newScannerIds: string[]
+  ): Promise<void> {
+    if (!this.workflowNotifier || events.length === 0) return;
+
+    const first = events[0];
+    const base = {
+      eventId: first.id,
+      eventTitle: events.length > 1 ? `${first.title} (${events.length} dates)` : first.title,
+      schoolId: first.schoolId,
+      actorUserId: actor.userId,
+      ownerUserId: first.ownerUserId,
+    };
+
+    const notices: EventWorkflowNotice[] = [];
+    if (kind) {
+      notices.push({
+        ...base,
+        kind,
+        comment:
+          kind === "approved"
+            ? first.approvalComment
+            : kind === "rejected"
+              ? first.rejectionComment
+              : kind === "cancelled"
+                ? first.cancellationReason
+                : null,
+        scannerUserIds: kind === "cancelled" ? first.scannerConfig?.scannerIds ?? [] : [],
+      });
+    }
+    if (newScannerIds.length > 0 && kind !== "cancelled") {
+      notices.push({ ...base, kind: "scanner_assigned", comment: null, scannerUserIds: newScannerIds });
+    }
+    if (notices.length === 0) return;
+
+    try {
+      await this.workflowNotifier.notifyWorkflow(notices);
+    } catch (error) {
+      console.error("[EventSeriesService] Failed to send workflow notifications", error);
+    }
+  }
+
+  private async toDto(series: EventSeriesRow): Promise<EventSeriesDto> {
+    const occurrences = await this.seriesRepository.findOccurrences(series.id);
+
+    return {
+      id: series.id,
+      title: series.title,
+      recurrence: series.recurrence,
+      sessionTemplate: series.session_template,
+      ownerUserId: series.owner_user_id,
+      splitFromSeriesId: series.split_from_series_id,
+      occurrences: occurrences.map((occurrence) => ({
+        eventId: occurrence.id,
+        date: occurrence.start_date ?? "",
+        title: occurrence.title,
+        lifecycleStatus: occurrence.lifecycle_status,
+      })),
+      createdAt: series.created_at,
+    };
+  }
+}
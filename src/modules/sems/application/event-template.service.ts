@@ -0,0 +1,223 @@
+/**
+ * Event Template Service
+ *
+ * Saves events as reusable templates and creates draft events from them.
+ *
+ * @remarks
+ * - A template keeps an event's audience, venue, scanners, visibility,
+ *   registration settings and sessions; dates are stored relative to the
+ *   event's first day so the template can be placed on any date
+ * - Events created from a template go through EventService.createEvent as
+ *   drafts, so validation and the audit log work as for any new event
+ * - Templates are shared by all organizers; only their owner or someone who
+ *   can manage all events can delete one
+ */
+
+import type {
+  CreateEventDto,
+  CreateEventTemplateDto,
+  EventDraftPlacementDto,
+  EventDto,
+  EventTemplateDto,
+  EventTemplateInsert,
+  EventTemplateRow,
+  IEventService,
+  IEventTemplateRepository,
+  ValidationErrorDetail,
+  WorkflowActorContext,
+} from "../domain";
+import { BusinessRuleError, NotFoundError, ValidationError } from "./event.service";
+import { daysBetween, shiftDate } from "./recurrence";
+
+const MAX_NAME_LENGTH = 120;
+
+const MINUTE_MS = 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Midnight UTC of a YYYY-MM-DD date; registration offsets count from here. */
+function dayStartMs(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+/**
+ * Service for event templates.
+ *
+ * @remarks
+ * Dependency Injection: Receives the template repository and event service via constructor.
+ */
+export class EventTemplateService {
+  constructor(
+    private readonly templateRepository: IEventTemplateRepository,
+    private readonly eventService: IEventService
+  ) {}
+
+  /**
+   * All templates, by name.
+   */
+  async listTemplates(): Promise<EventTemplateDto[]> {
+    const rows = await this.templateRepository.findAll();
+    return rows.map((row) => this.toDto(row));
+  }
+
+  /**
+   * Save an event the actor manages as a named template.
+   *
+   * @throws ValidationError if the name is missing or the event can't be rebuilt from it
+   * @throws NotFoundError if the event doesn't exist
+   * @throws BusinessRuleError if the actor can't manage the event
+   */
+  async createTemplate(input: CreateEventTemplateDto, actor: WorkflowActorContext): Promise<EventTemplateDto> {
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new ValidationError("Invalid event template", [
+        {
+          field: "name",
+          message: `Name is required and must be at most ${MAX_NAME_LENGTH} characters`,
+          code: "INVALID_LENGTH",
+        },
+      ]);
+    }
+
+    const event = await this.eventService.getManagedEvent(input.eventId, actor);
+    const registration = event.registration;
+    const toOffsetMinutes = (value: string | null): number | null =>
+      value ? Math.round((new Date(value).getTime() - dayStartMs(event.startDate)) / MINUTE_MS) : null;
+
+    const sessionDays = event.sessionConfig.dates.map((day) => ({
+      dayOffset: daysBetween(event.startDate, day.date) ?? 0,
+      sessions: day.sessions,
+    }));
+
+    const template: EventTemplateInsert = {
+      name,
+      title: event.title,
+      description: event.description,
+      facility_id: event.facility?.id ?? null,
+      target_audience: event.audienceConfig,
+      session_days: sessionDays,
+      scanner_assignments: event.scannerConfig,
+      visibility: event.visibility,
+      registration: {
+        required: registration.registrationRequired,
+        opensOffsetMinutes: toOffsetMinutes(registration.registrationOpensAt),
+        closesOffsetMinutes: toOffsetMinutes(registration.registrationClosesAt),
+        capacityLimit: registration.capacityLimit,
+      },
+      owner_user_id: actor.userId,
+      created_by: actor.userId,
+    };
+
+    // The template must rebuild into a valid event, as on its source date
+    const validation = this.eventService.validateCreateEvent(
+      this.buildEvent({ ...template, id: "", created_at: "" }, { startDate: event.startDate })
+    );
+    if (!validation.isValid) {
+      throw new ValidationError("Invalid event template", validation.errors);
+    }
+
+    const row = await this.templateRepository.create(template);
+    return this.toDto(row);
+  }
+
+  /**
+   * Create a draft event from a template, starting on `placement.startDate`.
+   *
+   * @throws ValidationError if the start date or the resulting event is invalid
+   * @throws NotFoundError if the template or its venue doesn't exist
+   */
+  async createEventFromTemplate(
+    templateId: string,
+    placement: EventDraftPlacementDto,
+    actor: WorkflowActorContext
+  ): Promise<EventDto> {
+    const template = await this.templateRepository.findById(templateId);
+    if (!template) {
+      throw new NotFoundError("Event template not found", "event_template", templateId);
+    }
+
+    const errors = this.validatePlacement(placement);
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid event template request", errors);
+    }
+
+    return this.eventService.createEvent(this.buildEvent(template, placement), actor, { asDraft: true });
+  }
+
+  /**
+   * Delete a template.
+   *
+   * @throws NotFoundError if the template doesn't exist
+   * @throws BusinessRuleError if the actor is neither its owner nor allowed to manage all events
+   */
+  async deleteTemplate(templateId: string, actor: WorkflowActorContext): Promise<void> {
+    const template = await this.templateRepository.findById(templateId);
+    if (!template) {
+      throw new NotFoundError("Event template not found", "event_template", templateId);
+    }
+
+    const canManageAll = actor.permissions.includes("events.manage_all");
+    if (!canManageAll && template.owner_user_id !== actor.userId) {
+      throw new BusinessRuleError("You do not have permission to delete this event template.");
+    }
+
+    await this.templateRepository.delete(templateId);
+  }
+
+  /**
+   * Event fields for a template placed on a start date.
+   */
+  private buildEvent(template: EventTemplateRow, placement: EventDraftPlacementDto): CreateEventDto {
+    const { startDate } = placement;
+    const lastOffset = Math.max(0, ...template.session_days.map((day) => day.dayOffset));
+    const fromOffset = (minutes: number | null): string | null =>
+      minutes === null ? null : new Date(dayStartMs(startDate) + minutes * MINUTE_MS).toISOString();
+
+    return {
+      title: placement.title?.trim() || template.title,
+      description: template.description ?? undefined,
+      startDate,
+      endDate: shiftDate(startDate, lastOffset),
+      facilityId: template.facility_id ?? undefined,
+      audienceConfig: template.target_audience,
+      sessionConfig: {
+        version: 2,
+        dates: template.session_days.map((day) => ({
+          date: shiftDate(startDate, day.dayOffset),
+          sessions: day.sessions,
+        })),
+      },
+      scannerConfig: template.scanner_assignments,
+      visibility: template.visibility,
+      registrationRequired: template.registration.required,
+      registrationOpensAt: fromOffset(template.registration.opensOffsetMinutes),
+      registrationClosesAt: fromOffset(template.registration.closesOffsetMinutes),
+      capacityLimit: template.registration.capacityLimit,
+    };
+  }
+
+  private validatePlacement(placement: EventDraftPlacementDto): ValidationErrorDetail[] {
+    const { startDate } = placement;
+    if (typeof startDate !== "string" || !DATE_PATTERN.test(startDate) || Number.isNaN(dayStartMs(startDate))) {
+      return [{ field: "startDate", message: "Start date must be a valid YYYY-MM-DD date", code: "INVALID_FORMAT" }];
+    }
+    return [];
+  }
+
+  private toDto(row: EventTemplateRow): EventTemplateDto {
+    return {
+      id: row.id,
+      name: row.name,
+      title: row.title,
+      description: row.description,
+      facilityId: row.facility_id,
+      audienceConfig: row.target_audience,
+      sessionDays: Array.isArray(row.session_days) ? row.session_days : [],
+      scannerConfig: row.scanner_assignments,
+      visibility: row.visibility,
+      registration: row.registration,
+      ownerUserId: row.owner_user_id,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -8,16 +8,23 @@
  * - Enforces business rules
  * - Coordinates with repository for data access
  * - Returns DTOs ready for API responses
+ * - Reports workflow transitions and scanner assignments to the workflow
+ *   notifier, when one is configured
+ * - Appends creations, workflow actions and field edits to event_audit_log
+ * - Warns about event dates on non-school days, when a school calendar is
+ *   configured
+ * - Duplicates events into drafts with every date shifted
  */
 
-import { ADMIN_ROLES } from "@/config/roles";
 import type { UserRole } from "@/core/auth/types";
 import type {
   IEventService,
   IEventRepository,
   CreateEventDto,
+  CreateEventOptions,
   UpdateEventDto,
   EventDto,
+  EventDraftPlacementDto,
   ValidationResult,
   ValidationErrorDetail,
   EventAudienceConfig,
@@ -38,7 +45,26 @@ import type {
   EventRegistrationMetadata,
   EventRow,
   EventWithFacilityRow,
+  EventRegistrationRow,
+  EventRegistrationDto,
+  EventRegistrationListDto,
+  EventRegistrationInput,
+  EventRegistrationOverrideInput,
+  EventWorkflowNotice,
+  EventWorkflowNoticeKind,
+  IEventWorkflowNotifier,
+  EventAuditField,
+  EventAuditFieldChange,
+  EventAuditLogInsert,
+  EventAuditEntryDto,
+  EventNonSchoolDay,
+  EventNonSchoolDayReason,
+  ISchoolCalendarLookup,
+  IVenueAvailabilityLookup,
+  SessionConflict,
 } from "../domain";
+import { isStudentInAudience } from "./audience-rules";
+import { daysBetween, shiftDate } from "./recurrence";
 
 /**
  * Custom error for validation failures.
@@ -53,6 +79,26 @@ export class ValidationError extends Error {
   }
 }
 
+/**
+ * Validation failure raised when the venue is already booked.
+ */
+export class VenueConflictError extends ValidationError {
+  constructor(
+    message: string,
+    public readonly conflicts: SessionConflict[]
+  ) {
+    super(
+      message,
+      conflicts.map((conflict) => ({
+        field: "facilityId",
+        message: `${conflict.date} ${conflict.timeRange}: ${conflict.conflictingEventTitle}`,
+        code: "VENUE_CONFLICT",
+      }))
+    );
+    this.name = "VenueConflictError";
+  }
+}
+
 export class BusinessRuleError extends Error {
   constructor(message: string) {
     super(message);
@@ -86,8 +132,6 @@ const ALLOWED_VISIBILITY_VALUES: readonly EventVisibility[] = [
   "public",
 ];
 
-const ORGANIZER_ROLE_SET = new Set<UserRole>(["TEACHER", "STAFF"]);
-
 const CRITICAL_FIELDS: ReadonlyArray<keyof UpdateEventDto> = [
   "startDate",
   "endDate",
@@ -100,14 +144,60 @@ const CRITICAL_FIELDS: ReadonlyArray<keyof UpdateEventDto> = [
   "registrationClosesAt",
 ];
 
+/** Workflow actions that notify someone, and the notice they produce. */
+export const WORKFLOW_NOTICE_KINDS: Partial<Record<EventWorkflowAction, EventWorkflowNoticeKind>> = {
+  SUBMIT_FOR_APPROVAL: "submitted",
+  APPROVE: "approved",
+  REJECT: "rejected",
+  PUBLISH: "published",
+  CANCEL: "cancelled",
+};
+
+/** Audited event fields and the events column each is read from. */
+const AUDITED_EVENT_COLUMNS: ReadonlyArray<[EventAuditField, keyof EventRow]> = [
+  ["title", "title"],
+  ["description", "description"],
+  ["posterImageUrl", "poster_image_url"],
+  ["startDate", "start_date"],
+  ["endDate", "end_date"],
+  ["facilityId", "facility_id"],
+  ["audienceConfig", "target_audience"],
+  ["sessionConfig", "session_config"],
+  ["scannerConfig", "scanner_assignments"],
+  ["visibility", "visibility"],
+  ["registrationRequired", "registration_required"],
+  ["registrationOpensAt", "registration_opens_at"],
+  ["registrationClosesAt", "registration_closes_at"],
+  ["capacityLimit", "capacity_limit"],
+  ["ownerUserId", "owner_user_id"],
+];
+
+/** Most audit entries returned for one event's history. */
+const AUDIT_LOG_LIMIT = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NON_SCHOOL_DAY_LABELS: Record<EventNonSchoolDayReason, string> = {
+  holiday: "a holiday",
+  suspension: "a class suspension day",
+  weekend: "a weekend",
+  outside_school_year: "outside the school year",
+};
+
 /**
  * Event service implementation.
  *
  * @remarks
- * Dependency Injection: Receives repository via constructor.
+ * Dependency Injection: Receives repository, optional workflow notifier and
+ * optional school calendar via constructor.
  */
 export class EventService implements IEventService {
-  constructor(private readonly eventRepository: IEventRepository) {}
+  constructor(
+    private readonly eventRepository: IEventRepository,
+    private readonly workflowNotifier?: IEventWorkflowNotifier,
+    private readonly schoolCalendar?: ISchoolCalendarLookup,
+    private readonly venueAvailability?: IVenueAvailabilityLookup
+  ) {}
 
   /**
    * List events with computed display fields.
@@ -157,7 +247,7 @@ export class EventService implements IEventService {
     actor: WorkflowActorContext,
     options?: ListEventsOptions
   ): Promise<EventListResponseDto> {
-    if (!this.isAdmin(actor) && !this.isOrganizer(actor)) {
+    if (!this.canManageAllEvents(actor) && !this.isOrganizer(actor)) {
       throw new BusinessRuleError("You do not have permission to view organizer events.");
     }
 
@@ -169,7 +259,7 @@ export class EventService implements IEventService {
       pageSize,
     };
 
-    if (this.isAdmin(actor)) {
+    if (this.canManageAllEvents(actor)) {
       const { events: rawEvents, total } = await this.eventRepository.findAll({
         ...baseOptions,
         ownerUserId: options?.ownerUserId,
@@ -218,6 +308,230 @@ export class EventService implements IEventService {
     return this.buildPaginatedListResponse(rawEvents, page, pageSize, total);
   }
 
+  /**
+   * List registrations and the waitlist for an event.
+   *
+   * @remarks
+   * Organizers who can manage the event (and admins) see every registration.
+   * Students and parents only see registrations of their linked students.
+   */
+  async listEventRegistrations(
+    eventId: string,
+    actor: WorkflowActorContext
+  ): Promise<EventRegistrationListDto> {
+    const event = await this.eventRepository.findById(eventId);
+    if (!event) {
+      throw new NotFoundError("Event not found", "event", eventId);
+    }
+
+    const rows = await this.eventRepository.findRegistrationsByEvent(eventId);
+    const confirmedRows = rows.filter((row) => row.status !== "waitlisted");
+    const waitlistRows = this.sortWaitlist(rows.filter((row) => row.status === "waitlisted"));
+    const waitlistRanks = new Map(waitlistRows.map((row, index) => [row.id, index + 1]));
+
+    let isVisible: (row: EventRegistrationRow) => boolean = () => true;
+    if (!this.canManageEvent(event, actor)) {
+      if (!actor.roles.includes("STUDENT") && !actor.roles.includes("PARENT")) {
+        throw new BusinessRuleError("You do not have permission to view these registrations.");
+      }
+
+      const contexts = await this.eventRepository.getStudentContextsForUser(actor.userId);
+      const linkedIds = new Set(contexts.map((context) => context.studentId));
+      isVisible = (row) => linkedIds.has(row.student_id);
+    }
+
+    const visibleConfirmed = confirmedRows.filter(isVisible);
+    const visibleWaitlist = waitlistRows.filter(isVisible);
+
+    const names = await this.eventRepository.getStudentNames(
+      [...visibleConfirmed, ...visibleWaitlist].map((row) => row.student_id)
+    );
+
+    const toDto = (row: EventRegistrationRow) =>
+      this.mapRegistrationToDto(
+        row,
+        names.get(row.student_id) ?? null,
+        waitlistRanks.get(row.id) ?? null
+      );
+
+    return {
+      eventId,
+      registration: this.buildRegistrationMetadata(event),
+      isOpen: this.isRegistrationWindowOpen(event, new Date()),
+      registeredCount: confirmedRows.length,
+      waitlistCount: waitlistRows.length,
+      remainingCapacity:
+        event.capacity_limit !== null
+          ? Math.max(event.capacity_limit - confirmedRows.length, 0)
+          : null,
+      registrations: visibleConfirmed.map(toDto),
+      waitlist: visibleWaitlist.map(toDto),
+    };
+  }
+
+  /**
+   * Register a student for an event.
+   *
+   * @throws ValidationError if the student ID is missing or malformed
+   * @throws NotFoundError if the event or student doesn't exist
+   * @throws BusinessRuleError if the actor, window, or audience rules reject it
+   *
+   * @remarks
+   * When the event has reached capacityLimit, the student joins the end of
+   * the waitlist instead of being rejected.
+   */
+  async registerStudent(
+    input: EventRegistrationInput,
+    actor: WorkflowActorContext
+  ): Promise<EventRegistrationDto> {
+    const event = await this.eventRepository.findById(input.eventId);
+    if (!event) {
+      throw new NotFoundError("Event not found", "event", input.eventId);
+    }
+
+    const studentId = await this.resolveRegistrationStudent(event, input, actor);
+
+    this.assertRegistrationOpen(event);
+
+    const context = await this.eventRepository.getStudentContextById(studentId);
+    if (!context) {
+      throw new NotFoundError("Student not found", "student", studentId);
+    }
+
+    const audienceConfig = event.target_audience as EventAudienceConfig;
+    if (!audienceConfig?.rules?.length || !this.isContextEligible(audienceConfig, context)) {
+      throw new BusinessRuleError("Student is not part of this event's audience.");
+    }
+
+    const existing = await this.eventRepository.findRegistration(event.id, studentId);
+    if (existing) {
+      throw new BusinessRuleError(
+        existing.status === "waitlisted"
+          ? "Student is already on the waitlist for this event."
+          : "Student is already registered for this event."
+      );
+    }
+
+    const row = await this.eventRepository.createRegistration(event.id, studentId, actor.userId);
+    const names = await this.eventRepository.getStudentNames([studentId]);
+
+    let waitlistRank: number | null = null;
+    if (row.status === "waitlisted") {
+      waitlistRank = await this.eventRepository.countRegistrations(event.id, "waitlisted");
+    }
+
+    return this.mapRegistrationToDto(row, names.get(studentId) ?? null, waitlistRank);
+  }
+
+  /**
+   * Cancel a student's registration or waitlist entry.
+   *
+   * @remarks
+   * Students and parents can only unregister while the window is open;
+   * organizers and admins may remove registrations at any time before completion.
+   * Freeing a confirmed seat promotes the next waitlisted student.
+   */
+  async unregisterStudent(
+    input: EventRegistrationInput,
+    actor: WorkflowActorContext
+  ): Promise<void> {
+    const event = await this.eventRepository.findById(input.eventId);
+    if (!event) {
+      throw new NotFoundError("Event not found", "event", input.eventId);
+    }
+
+    const studentId = await this.resolveRegistrationStudent(event, input, actor);
+
+    if (event.lifecycle_status === "completed" || event.lifecycle_status === "cancelled") {
+      throw new BusinessRuleError("Registrations can no longer be changed for this event.");
+    }
+
+    if (!this.canManageEvent(event, actor)) {
+      this.assertRegistrationOpen(event);
+    }
+
+    const existing = await this.eventRepository.findRegistration(event.id, studentId);
+    const removed = existing
+      ? await this.eventRepository.deleteRegistration(event.id, studentId)
+      : false;
+
+    if (!existing || !removed) {
+      throw new NotFoundError("Registration not found", "registration", studentId);
+    }
+
+    if (existing.status === "confirmed") {
+      await this.promoteFromWaitlist(event);
+    }
+  }
+
+  /**
+   * Manually promote a waitlisted student or demote a confirmed one.
+   *
+   * @throws BusinessRuleError if the actor can't manage the event or no seat is free
+   */
+  async overrideRegistration(
+    input: EventRegistrationOverrideInput,
+    actor: WorkflowActorContext
+  ): Promise<EventRegistrationDto> {
+    const event = await this.eventRepository.findById(input.eventId);
+    if (!event) {
+      throw new NotFoundError("Event not found", "event", input.eventId);
+    }
+
+    if (!this.canManageEvent(event, actor)) {
+      throw new BusinessRuleError("You do not have permission to manage this event's waitlist.");
+    }
+
+    if (event.lifecycle_status === "completed" || event.lifecycle_status === "cancelled") {
+      throw new BusinessRuleError("Registrations can no longer be changed for this event.");
+    }
+
+    if (input.action !== "promote" && input.action !== "demote") {
+      throw new ValidationError("Invalid registration data", [
+        { field: "action", message: "action must be 'promote' or 'demote'", code: "INVALID_VALUE" },
+      ]);
+    }
+
+    const studentId = await this.resolveRegistrationStudent(event, input, actor);
+    const existing = await this.eventRepository.findRegistration(event.id, studentId);
+    if (!existing) {
+      throw new NotFoundError("Registration not found", "registration", studentId);
+    }
+
+    let updated: EventRegistrationRow;
+
+    if (input.action === "promote") {
+      if (existing.status !== "waitlisted") {
+        throw new BusinessRuleError("Student is not on the waitlist.");
+      }
+
+      const promoted = await this.eventRepository.moveRegistration(existing.id, "confirmed", actor.userId);
+      if (!promoted) {
+        throw new BusinessRuleError(
+          "No seats are available. Demote a student or raise the capacity limit first."
+        );
+      }
+      updated = promoted;
+    } else {
+      if (existing.status !== "confirmed") {
+        throw new BusinessRuleError("Student is already on the waitlist.");
+      }
+
+      const demoted = await this.eventRepository.moveRegistration(existing.id, "waitlisted", actor.userId);
+      if (!demoted) {
+        throw new BusinessRuleError("Student is already on the waitlist.");
+      }
+      updated = demoted;
+    }
+
+    const names = await this.eventRepository.getStudentNames([studentId]);
+    return this.mapRegistrationToDto(
+      updated,
+      names.get(studentId) ?? null,
+      updated.status === "waitlisted" ? 1 : null
+    );
+  }
+
   /**
    * Compute time range string from session config.
    *
@@ -431,12 +745,18 @@ export class EventService implements IEventService {
    *
    * @param dto - Event creation data from the frontend
    * @param actor - Authenticated user context
+   * @param options - `asDraft` keeps the event in draft instead of submitting it
    * @returns Created event DTO ready for API response
    *
    * @throws ValidationError if input data is invalid
+   * @throws VenueConflictError if the venue is booked (only with a venue availability lookup)
    * @throws NotFoundError if facility doesn't exist
    */
-  async createEvent(dto: CreateEventDto, actor: WorkflowActorContext): Promise<EventDto> {
+  async createEvent(
+    dto: CreateEventDto,
+    actor: WorkflowActorContext,
+    options?: CreateEventOptions
+  ): Promise<EventDto> {
     // Step 1: Validate input
     const validation = this.validateCreateEvent(dto);
     if (!validation.isValid || !validation.data) {
@@ -447,8 +767,9 @@ export class EventService implements IEventService {
     const now = new Date().toISOString();
 
     validatedDto.ownerUserId = validatedDto.ownerUserId ?? actor.userId;
-    validatedDto.lifecycleStatus = "pending_approval";
-    validatedDto.submittedForApprovalAt = now;
+    validatedDto.seriesId = dto.seriesId ?? null;
+    validatedDto.lifecycleStatus = options?.asDraft ? "draft" : "pending_approval";
+    validatedDto.submittedForApprovalAt = options?.asDraft ? null : now;
     validatedDto.approvedBy = null;
     validatedDto.approvedAt = null;
     validatedDto.approvalComment = null;
@@ -473,11 +794,22 @@ export class EventService implements IEventService {
           validatedDto.facilityId
         );
       }
+      await this.assertVenueAvailable(validatedDto.facilityId, validatedDto);
     }
 
     // Step 3: Create event in database
     const createdRow = await this.eventRepository.create(validatedDto, actor.userId);
 
+    await this.recordAudit({
+      event_id: createdRow.id,
+      action: "CREATE",
+      actor_user_id: actor.userId,
+      from_status: null,
+      to_status: createdRow.lifecycle_status,
+      comment: null,
+      changes: [],
+    });
+
     // Step 4: Fetch with relations for complete DTO
     const eventDto = await this.eventRepository.findByIdWithFacility(createdRow.id);
     if (!eventDto) {
@@ -485,9 +817,101 @@ export class EventService implements IEventService {
       throw new Error("Failed to retrieve created event");
     }
 
+    // Step 5: New events go straight to approval unless kept as drafts
+    await this.notifyWorkflow(
+      eventDto,
+      actor,
+      options?.asDraft ? null : "submitted",
+      eventDto.scannerConfig?.scannerIds ?? []
+    );
+
     return eventDto;
   }
 
+  /**
+   * Load an event the actor may manage.
+   *
+   * @throws NotFoundError if the event doesn't exist
+   * @throws BusinessRuleError if the actor can't manage the event
+   */
+  async getManagedEvent(eventId: string, actor: WorkflowActorContext): Promise<EventDto> {
+    const row = await this.eventRepository.findById(eventId);
+    if (!row) {
+      throw new NotFoundError("Event not found", "event", eventId);
+    }
+
+    if (!this.canManageEvent(row, actor)) {
+      throw new BusinessRuleError("You do not have permission to manage this event.");
+    }
+
+    const event = await this.eventRepository.findByIdWithFacility(eventId);
+    if (!event) {
+      throw new NotFoundError("Event not found", "event", eventId);
+    }
+
+    return event;
+  }
+
+  /**
+   * Copy an event into a new draft starting on `placement.startDate`.
+   *
+   * @remarks
+   * Session dates and the registration window move by the same number of
+   * days. Workflow history, attendance and registrations are not copied,
+   * nor is the series link. The copy goes through createEvent, so it is
+   * validated like a new event.
+   *
+   * @throws ValidationError if the new start date or the copied data is invalid
+   * @throws NotFoundError if the event doesn't exist
+   * @throws BusinessRuleError if the actor can't manage the event
+   */
+  async duplicateEvent(
+    eventId: string,
+    placement: EventDraftPlacementDto,
+    actor: WorkflowActorContext
+  ): Promise<EventDto> {
+    const source = await this.getManagedEvent(eventId, actor);
+
+    const offsetDays = daysBetween(source.startDate, placement.startDate);
+    if (offsetDays === null) {
+      throw new ValidationError("Invalid duplicate request", [
+        { field: "startDate", message: "Start date must be a valid YYYY-MM-DD date", code: "INVALID_FORMAT" },
+      ]);
+    }
+
+    const shiftTimestamp = (value: string | null): string | null =>
+      value ? new Date(new Date(value).getTime() + offsetDays * DAY_MS).toISOString() : null;
+
+    const title = placement.title?.trim() || `${source.title} (Copy)`;
+
+    return this.createEvent(
+      {
+        title,
+        description: source.description ?? undefined,
+        posterImageUrl: source.posterImageUrl ?? undefined,
+        startDate: shiftDate(source.startDate, offsetDays),
+        endDate: shiftDate(source.endDate, offsetDays),
+        facilityId: source.facility?.id,
+        audienceConfig: source.audienceConfig,
+        sessionConfig: {
+          version: 2,
+          dates: source.sessionConfig.dates.map((day) => ({
+            date: shiftDate(day.date, offsetDays),
+            sessions: day.sessions,
+          })),
+        },
+        scannerConfig: source.scannerConfig,
+        visibility: source.visibility,
+        registrationRequired: source.registration.registrationRequired,
+        registrationOpensAt: shiftTimestamp(source.registration.registrationOpensAt),
+        registrationClosesAt: shiftTimestamp(source.registration.registrationClosesAt),
+        capacityLimit: source.registration.capacityLimit,
+      },
+      actor,
+      { asDraft: true }
+    );
+  }
+
   /**
    * Update an existing event with validation.
    *
@@ -509,7 +933,7 @@ export class EventService implements IEventService {
       throw new BusinessRuleError("You do not have permission to modify this event.");
     }
 
-    this.assertEventMutable(existingEvent, dto.workflowAction, this.isAdmin(actor));
+    this.assertEventMutable(existingEvent, dto.workflowAction, this.canApprove(actor));
 
     // Step 2: Validate input
     const validation = this.validateUpdateEvent(dto);
@@ -555,7 +979,29 @@ export class EventService implements IEventService {
       Object.assign(updatePayload, this.buildApprovalResetPayload());
     }
 
-    await this.eventRepository.update(updatePayload, actor.userId);
+    const updatedRow = await this.eventRepository.update(updatePayload, actor.userId);
+
+    // Raising (or removing) the capacity limit frees seats for waitlisted students
+    if (this.hasCapacityIncreased(existingEvent, updatedRow)) {
+      await this.promoteFromWaitlist(updatedRow);
+    }
+
+    const changes = this.diffAuditedFields(existingEvent, updatedRow);
+    if (
+      dto.workflowAction ||
+      changes.length > 0 ||
+      existingEvent.lifecycle_status !== updatedRow.lifecycle_status
+    ) {
+      await this.recordAudit({
+        event_id: updatedRow.id,
+        action: dto.workflowAction ?? "UPDATE",
+        actor_user_id: actor.userId,
+        from_status: existingEvent.lifecycle_status,
+        to_status: updatedRow.lifecycle_status,
+        comment: this.getWorkflowComment(updatedRow, dto),
+        changes,
+      });
+    }
 
     // Step 5: Fetch with relations for complete DTO
     const eventDto = await this.eventRepository.findByIdWithFacility(dto.id);
@@ -563,9 +1009,56 @@ export class EventService implements IEventService {
       throw new Error("Failed to retrieve updated event");
     }
 
+    // Step 6: Tell approvers, the owner and newly assigned scanners
+    const previousScannerIds = new Set(
+      Array.isArray(existingEvent.scanner_assignments?.scannerIds)
+        ? existingEvent.scanner_assignments.scannerIds
+        : []
+    );
+    await this.notifyWorkflow(
+      eventDto,
+      actor,
+      dto.workflowAction ? WORKFLOW_NOTICE_KINDS[dto.workflowAction] ?? null : null,
+      (eventDto.scannerConfig?.scannerIds ?? []).filter((scannerId) => !previousScannerIds.has(scannerId))
+    );
+
     return eventDto;
   }
 
+  /**
+   * Event history: every workflow action and recorded edit, newest first.
+   *
+   * @throws NotFoundError if the event doesn't exist
+   * @throws BusinessRuleError if the actor can't manage the event
+   */
+  async listEventAuditLog(eventId: string, actor: WorkflowActorContext): Promise<EventAuditEntryDto[]> {
+    const event = await this.eventRepository.findById(eventId);
+    if (!event) {
+      throw new NotFoundError("Event not found", "event", eventId);
+    }
+
+    if (!this.canManageEvent(event, actor)) {
+      throw new BusinessRuleError("You do not have permission to view this event's history.");
+    }
+
+    const rows = await this.eventRepository.findAuditLog(eventId, AUDIT_LOG_LIMIT);
+    const actorNames = await this.eventRepository.getUserNames(
+      rows.flatMap((row) => (row.actor_user_id ? [row.actor_user_id] : []))
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      action: row.action,
+      actorUserId: row.actor_user_id,
+      actorName: row.actor_user_id ? actorNames.get(row.actor_user_id) ?? null : null,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      comment: row.comment,
+      changes: Array.isArray(row.changes) ? row.changes : [],
+      createdAt: row.created_at,
+    }));
+  }
+
   /**
    * Validate event update input.
    *
@@ -821,7 +1314,10 @@ export class EventService implements IEventService {
    * @param input - Raw input data (may be partial/invalid)
    * @returns Validation result with sanitized data if valid
    */
-  validateCreateEvent(input: unknown): ValidationResult<CreateEventDto> {
+  validateCreateEvent(
+    input: unknown,
+    nonSchoolDays: readonly EventNonSchoolDay[] = []
+  ): ValidationResult<CreateEventDto> {
     const errors: ValidationErrorDetail[] = [];
     const data = (input ?? {}) as Record<string, unknown>;
 
@@ -990,6 +1486,7 @@ export class EventService implements IEventService {
     return {
       isValid: true,
       errors: [],
+      warnings: this.buildNonSchoolDayWarnings(sessionConfigResult.data!, nonSchoolDays),
       data: {
         title: rawTitle,
         description: rawDescription,
@@ -1009,6 +1506,53 @@ export class EventService implements IEventService {
     };
   }
 
+  /**
+   * Non-school days within the event's start and end dates.
+   *
+   * @remarks
+   * Calendar lookup failures are logged and treated as "no non-school days";
+   * the warnings never block saving.
+   */
+  async findNonSchoolDays(input: unknown): Promise<EventNonSchoolDay[]> {
+    if (!this.schoolCalendar) {
+      return [];
+    }
+
+    const data = (input ?? {}) as Record<string, unknown>;
+    const startDate = typeof data.startDate === "string" ? data.startDate.trim() : "";
+    const endDate = typeof data.endDate === "string" ? data.endDate.trim() : "";
+    if (!this.isValidDateString(startDate) || !this.isValidDateString(endDate) || startDate > endDate) {
+      return [];
+    }
+
+    try {
+      return await this.schoolCalendar.findNonSchoolDays(startDate, endDate);
+    } catch (error) {
+      console.error("[EventService] Failed to look up non-school days", error);
+      return [];
+    }
+  }
+
+  /**
+   * One warning per session date that falls on a non-school day.
+   */
+  private buildNonSchoolDayWarnings(
+    sessionConfig: EventSessionConfig,
+    nonSchoolDays: readonly EventNonSchoolDay[]
+  ): ValidationErrorDetail[] {
+    const byDate = new Map(nonSchoolDays.map((day) => [day.date, day]));
+
+    return sessionConfig.dates.flatMap(({ date }) => {
+      const day = byDate.get(date);
+      if (!day) return [];
+      return [{
+        field: "sessionConfig",
+        message: `${date} is ${NON_SCHOOL_DAY_LABELS[day.reason]}${day.name ? ` (${day.name})` : ""}`,
+        code: "NON_SCHOOL_DAY",
+      }];
+    });
+  }
+
   private validateScannerConfig(
     input: unknown
   ): ValidationResult<EventScannerConfig> {
@@ -1346,21 +1890,22 @@ export class EventService implements IEventService {
   }
 
   private canManageEvent(event: EventRow, actor: WorkflowActorContext): boolean {
-    if (this.isAdmin(actor)) {
+    if (this.canManageAllEvents(actor)) {
       return true;
     }
-    return (
-      event.owner_user_id === actor.userId &&
-      actor.roles.some((role) => ORGANIZER_ROLE_SET.has(role))
-    );
+    return event.owner_user_id === actor.userId && this.isOrganizer(actor);
   }
 
-  private isAdmin(actor: WorkflowActorContext): boolean {
-    return actor.roles.some((role) => ADMIN_ROLES.includes(role));
+  private canManageAllEvents(actor: WorkflowActorContext): boolean {
+    return actor.permissions.includes("events.manage_all");
+  }
+
+  private canApprove(actor: WorkflowActorContext): boolean {
+    return actor.permissions.includes("events.approve");
   }
 
   private isOrganizer(actor: WorkflowActorContext): boolean {
-    return actor.roles.some((role) => ORGANIZER_ROLE_SET.has(role));
+    return actor.permissions.includes("events.create");
   }
 
   private ensureActorHasRole(
@@ -1420,31 +1965,140 @@ export class EventService implements IEventService {
     audienceConfig: EventAudienceConfig,
     context: StudentAudienceContext
   ): boolean {
-    const includeRules = audienceConfig.rules.filter((rule) => rule.effect === "include");
-    const excludeRules = audienceConfig.rules.filter((rule) => rule.effect === "exclude");
+    return isStudentInAudience(audienceConfig, context);
+  }
+
+  /**
+   * Resolve and authorize the student targeted by a registration request.
+   *
+   * @remarks
+   * Managers may target any student. Students and parents may only target
+   * students linked to them through student_guardians; a student with a
+   * single linked record may omit the ID.
+   */
+  private async resolveRegistrationStudent(
+    event: EventRow,
+    input: EventRegistrationInput,
+    actor: WorkflowActorContext
+  ): Promise<string> {
+    const requestedId = input.studentId?.trim() ?? "";
+
+    if (requestedId && !this.isValidUuid(requestedId)) {
+      throw new ValidationError("Invalid registration data", [
+        { field: "studentId", message: "Invalid student ID format", code: "INVALID_FORMAT" },
+      ]);
+    }
+
+    if (!event.registration_required) {
+      throw new BusinessRuleError("This event does not use registration.");
+    }
+
+    if (this.canManageEvent(event, actor)) {
+      if (!requestedId) {
+        throw new ValidationError("Invalid registration data", [
+          { field: "studentId", message: "Student ID is required", code: "REQUIRED" },
+        ]);
+      }
+      return requestedId;
+    }
+
+    if (!actor.roles.includes("STUDENT") && !actor.roles.includes("PARENT")) {
+      throw new BusinessRuleError("You do not have permission to manage registrations for this event.");
+    }
+
+    const contexts = await this.eventRepository.getStudentContextsForUser(actor.userId);
+    const linkedIds = contexts.map((context) => context.studentId);
 
-    const isIncluded = includeRules.some((rule) => this.ruleMatchesContext(rule, context));
-    if (!isIncluded) {
+    if (!requestedId) {
+      if (actor.roles.includes("STUDENT") && linkedIds.length === 1) {
+        return linkedIds[0];
+      }
+      throw new ValidationError("Invalid registration data", [
+        { field: "studentId", message: "Student ID is required", code: "REQUIRED" },
+      ]);
+    }
+
+    if (!linkedIds.includes(requestedId)) {
+      throw new BusinessRuleError("You can only manage registrations for your linked students.");
+    }
+
+    return requestedId;
+  }
+
+  private assertRegistrationOpen(event: EventRow): void {
+    if (event.lifecycle_status !== "published") {
+      throw new BusinessRuleError("Registration is only available for published events.");
+    }
+
+    if (!this.isRegistrationWindowOpen(event, new Date())) {
+      throw new BusinessRuleError("Registration is not open for this event.");
+    }
+  }
+
+  private isRegistrationWindowOpen(event: EventRow, now: Date): boolean {
+    if (!event.registration_required || event.lifecycle_status !== "published") {
       return false;
     }
 
-    const isExcluded = excludeRules.some((rule) => this.ruleMatchesContext(rule, context));
-    return !isExcluded;
+    const time = now.getTime();
+    if (event.registration_opens_at && time < new Date(event.registration_opens_at).getTime()) {
+      return false;
+    }
+    if (event.registration_closes_at && time > new Date(event.registration_closes_at).getTime()) {
+      return false;
+    }
+    return true;
   }
 
-  private ruleMatchesContext(rule: AudienceRule, context: StudentAudienceContext): boolean {
-    switch (rule.kind) {
-      case "ALL_STUDENTS":
-        return true;
-      case "LEVEL":
-        return !!context.levelId && rule.levelIds?.includes(context.levelId);
-      case "SECTION":
-        return !!context.sectionId && rule.sectionIds?.includes(context.sectionId);
-      case "STUDENT":
-        return rule.studentIds?.includes(context.studentId) ?? false;
-      default:
-        return false;
+  /**
+   * Fill free seats from the head of the waitlist.
+   *
+   * @returns The promoted registration rows
+   */
+  private async promoteFromWaitlist(event: EventRow): Promise<EventRegistrationRow[]> {
+    if (!event.registration_required) {
+      return [];
     }
+
+    return this.eventRepository.promoteWaitlist(event.id);
+  }
+
+  private sortWaitlist(rows: EventRegistrationRow[]): EventRegistrationRow[] {
+    return [...rows].sort((a, b) => {
+      const positionA = a.waitlist_position ?? Number.MAX_SAFE_INTEGER;
+      const positionB = b.waitlist_position ?? Number.MAX_SAFE_INTEGER;
+      if (positionA !== positionB) {
+        return positionA - positionB;
+      }
+      return a.registered_at.localeCompare(b.registered_at);
+    });
+  }
+
+  private buildRegistrationMetadata(event: EventRow): EventRegistrationMetadata {
+    return {
+      registrationRequired: event.registration_required,
+      registrationOpensAt: event.registration_opens_at,
+      registrationClosesAt: event.registration_closes_at,
+      capacityLimit: event.capacity_limit,
+    };
+  }
+
+  private mapRegistrationToDto(
+    row: EventRegistrationRow,
+    studentName: string | null,
+    waitlistPosition: number | null = null
+  ): EventRegistrationDto {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      studentId: row.student_id,
+      studentName,
+      registeredByUserId: row.registered_by_user_id,
+      registeredAt: row.registered_at,
+      status: row.status ?? "confirmed",
+      waitlistPosition: row.status === "waitlisted" ? waitlistPosition : null,
+      promotedAt: row.promoted_at ?? null,
+    };
   }
 
   private async buildPaginatedListResponse(
@@ -1544,7 +2198,7 @@ export class EventService implements IEventService {
   private assertEventMutable(
     event: EventRow,
     action: EventWorkflowAction | undefined,
-    actorIsAdmin: boolean
+    actorCanApprove: boolean
   ): void {
     if (event.lifecycle_status === "completed" || event.lifecycle_status === "cancelled") {
       throw new BusinessRuleError("Completed or cancelled events can no longer be modified.");
@@ -1557,10 +2211,135 @@ export class EventService implements IEventService {
         );
       }
 
-      if (event.lifecycle_status === "pending_approval" && !actorIsAdmin) {
-        throw new BusinessRuleError("Only administrators can edit events pending approval.");
+      if (event.lifecycle_status === "pending_approval" && !actorCanApprove) {
+        throw new BusinessRuleError("Only approvers can edit events pending approval.");
+      }
+    }
+  }
+
+  /**
+   * Report a workflow transition and newly assigned scanners. Failures are
+   * logged, never thrown: the event change has already been saved.
+   */
+  private async notifyWorkflow(
+    event: EventDto,
+    actor: WorkflowActorContext,
+    kind: EventWorkflowNoticeKind | null,
+    newScannerIds: string[]
+  ): Promise<void> {
+    if (!this.workflowNotifier) return;
+
+    const base = {
+      eventId: event.id,
+      eventTitle: event.title,
+      schoolId: event.schoolId,
+      actorUserId: actor.userId,
+      ownerUserId: event.ownerUserId,
+    };
+    const notices: EventWorkflowNotice[] = [];
+
+    if (kind) {
+      notices.push({
+        ...base,
+        kind,
+        comment:
+          kind === "approved"
+            ? event.approvalComment
+            : kind === "rejected"
+              ? event.rejectionComment
+              : kind === "cancelled"
+                ? event.cancellationReason
+                : null,
+        scannerUserIds: kind === "cancelled" ? (event.scannerConfig?.scannerIds ?? []) : [],
+      });
+    }
+
+    if (newScannerIds.length > 0 && kind !== "cancelled") {
+      notices.push({ ...base, kind: "scanner_assigned", comment: null, scannerUserIds: newScannerIds });
+    }
+
+    if (notices.length === 0) return;
+
+    try {
+      await this.workflowNotifier.notifyWorkflow(notices);
+    } catch (error) {
+      console.error("[EventService.notifyWorkflow] Notifier error:", error);
+    }
+  }
+
+  /**
+   * Audited fields whose stored value differs between the two rows.
+   */
+  private diffAuditedFields(before: EventRow, after: EventRow): EventAuditFieldChange[] {
+    const changes: EventAuditFieldChange[] = [];
+
+    for (const [field, column] of AUDITED_EVENT_COLUMNS) {
+      const previous = before[column] ?? null;
+      const next = after[column] ?? null;
+      if (JSON.stringify(previous) !== JSON.stringify(next)) {
+        changes.push({ field, before: previous, after: next });
       }
     }
+
+    return changes;
+  }
+
+  /**
+   * The comment or reason stored by the update's workflow action, if any.
+   */
+  private getWorkflowComment(event: EventRow, dto: UpdateEventDto): string | null {
+    switch (dto.workflowAction) {
+      case "APPROVE":
+        return event.approval_comment;
+      case "REJECT":
+        return event.rejection_comment;
+      case "CANCEL":
+        return event.cancellation_reason;
+      case undefined:
+        return null;
+      default:
+        return dto.workflowComment?.trim() || null;
+    }
+  }
+
+  /**
+   * Refuse a venue that another event already holds during these sessions.
+   * Skipped when the service was built without a venue availability lookup.
+   *
+   * @throws VenueConflictError if the venue is booked
+   * @throws NotFoundError if the venue doesn't exist or isn't operational
+   */
+  private async assertVenueAvailable(
+    facilityId: string,
+    event: Pick<CreateEventDto, "startDate" | "endDate" | "sessionConfig">
+  ): Promise<void> {
+    if (!this.venueAvailability) return;
+
+    const availability = await this.venueAvailability.checkAvailability({
+      startDate: event.startDate,
+      endDate: event.endDate,
+      sessions: event.sessionConfig.dates,
+    });
+
+    const venue = availability.venues.find((result) => result.facilityId === facilityId);
+    if (!venue) {
+      throw new NotFoundError("Selected venue does not exist or is not operational", "facility", facilityId);
+    }
+    if (venue.conflicts.length > 0) {
+      throw new VenueConflictError("The venue is already booked", venue.conflicts);
+    }
+  }
+
+  /**
+   * Append to the event audit log. The event change is already saved, so a
+   * failed write is logged rather than failing the request.
+   */
+  private async recordAudit(entry: EventAuditLogInsert): Promise<void> {
+    try {
+      await this.eventRepository.insertAuditEntry(entry);
+    } catch (error) {
+      console.error("[EventService] Failed to write event audit log", error);
+    }
   }
 
   private applyWorkflowAction(
@@ -1577,7 +2356,7 @@ export class EventService implements IEventService {
         if (event.lifecycle_status !== "draft") {
           throw new BusinessRuleError("Only draft events can be submitted for approval.");
         }
-        if (!this.isAdmin(actor) && event.owner_user_id !== actor.userId) {
+        if (!this.canManageAllEvents(actor) && event.owner_user_id !== actor.userId) {
           throw new BusinessRuleError("You are not allowed to submit this event.");
         }
         return {
@@ -1592,8 +2371,8 @@ export class EventService implements IEventService {
         if (event.lifecycle_status !== "pending_approval") {
           throw new BusinessRuleError("Only pending events can be approved.");
         }
-        if (!this.isAdmin(actor)) {
-          throw new BusinessRuleError("Only administrators can approve events.");
+        if (!this.canApprove(actor)) {
+          throw new BusinessRuleError("You are not allowed to approve events.");
         }
         return {
           lifecycleStatus: "approved",
@@ -1609,8 +2388,8 @@ export class EventService implements IEventService {
         if (event.lifecycle_status !== "pending_approval") {
           throw new BusinessRuleError("Only pending events can be rejected.");
         }
-        if (!this.isAdmin(actor)) {
-          throw new BusinessRuleError("Only administrators can reject events.");
+        if (!this.canApprove(actor)) {
+          throw new BusinessRuleError("You are not allowed to reject events.");
         }
         if (!options?.comment || options.comment.trim().length === 0) {
           throw new BusinessRuleError("A rejection comment is required.");
@@ -1630,8 +2409,8 @@ export class EventService implements IEventService {
         if (event.lifecycle_status !== "approved") {
           throw new BusinessRuleError("Only approved events can be published.");
         }
-        if (!this.isAdmin(actor)) {
-          throw new BusinessRuleError("Only administrators can publish events.");
+        if (!this.canApprove(actor)) {
+          throw new BusinessRuleError("You are not allowed to publish events.");
         }
         this.assertPublishPreconditions(event, pendingUpdates);
         return {
@@ -1643,8 +2422,8 @@ export class EventService implements IEventService {
         if (event.lifecycle_status !== "published") {
           throw new BusinessRuleError("Only published events can be completed.");
         }
-        if (!this.isAdmin(actor)) {
-          throw new BusinessRuleError("Only administrators can complete events.");
+        if (!this.canApprove(actor)) {
+          throw new BusinessRuleError("You are not allowed to complete events.");
         }
         return {
           lifecycleStatus: "completed",
@@ -1652,8 +2431,8 @@ export class EventService implements IEventService {
         };
       }
       case "CANCEL": {
-        if (!this.isAdmin(actor)) {
-          throw new BusinessRuleError("Only administrators can cancel events.");
+        if (!this.canApprove(actor)) {
+          throw new BusinessRuleError("You are not allowed to cancel events.");
         }
         if (event.lifecycle_status === "completed" || event.lifecycle_status === "cancelled") {
           throw new BusinessRuleError("This event can no longer be cancelled.");
@@ -1806,6 +2585,13 @@ export class EventService implements IEventService {
     }
   }
 
+  private hasCapacityIncreased(before: EventRow, after: EventRow): boolean {
+    if (before.capacity_limit === null) {
+      return false;
+    }
+    return after.capacity_limit === null || after.capacity_limit > before.capacity_limit;
+  }
+
   private shouldResetApproval(event: EventRow, payload: UpdateEventDto): boolean {
     if (event.lifecycle_status !== "approved") {
       return false;
@@ -2,5 +2,18 @@
  * SEMS Application Module - Public Exports
  */
 
-export { EventService, ValidationError, NotFoundError } from "./event.service";
+export { EventService, ValidationError, VenueConflictError, NotFoundError, BusinessRuleError } from "./event.service";
 export { VenueService } from "./venue.service";
+export { EventSeriesService } from "./event-series.service";
+export { EventTemplateService } from "./event-template.service";
+export { MAX_SERIES_OCCURRENCES, expandRecurrence } from "./recurrence";
+export { ScanValidationService, type ScanValidationOutcome } from "./scan-validation.service";
+export { ScanUploadService } from "./scan-upload.service";
+export { ScannerResourceService } from "./scanner-resource.service";
+export { PeerStatusService } from "./peer-status.service";
+export { QrCredentialService } from "./qr-credential.service";
+export { AttendanceCorrectionService } from "./attendance-correction.service";
+export { AbsenteeService } from "./absentee.service";
+export { LateReportService } from "./late-report.service";
+export { StudentAttendanceService } from "./student-attendance.service";
+export { getSchoolTimeZone } from "./school-time";
@@ -0,0 +1,396 @@
+/**
+ * Late Report Service
+ *
+ * Builds the "late list" used for disciplinary follow-up: students who
+ * scanned in after a session's late threshold, and students who scanned in
+ * but never scanned out of the same period, for one event or a date range.
+ *
+ * @remarks
+ * - Minutes late are measured from the entry session's `lateAfter` to the
+ *   scan time, both in the school's time zone
+ * - A missing exit is only reported once the exit session has closed
+ * - Admins see every event; organizers see their own events, or any event
+ *   when filtering by a section they advise
+ * - Offenders are ranked by incident count, then by total minutes late
+ */
+
+import type {
+  ILateReportRepository,
+  LateReportAttendanceRow,
+  LateReportDto,
+  LateReportEventRow,
+  LateReportFilters,
+  LateReportIncidentDto,
+  LateReportOffenderDto,
+  LateReportSessionRow,
+  LateReportStudentDto,
+  SessionPeriod,
+  ValidationErrorDetail,
+  WorkflowActorContext,
+} from "../domain";
+import { BusinessRuleError, NotFoundError, ValidationError } from "./event.service";
+import { getSchoolTimeZone, toZonedParts } from "./school-time";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Longest date range a single report may cover. */
+const MAX_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function parseSessionType(sessionType: string): { period: SessionPeriod; direction: "in" | "out" } {
+  const [rawPeriod, rawDirection] = sessionType.split("_");
+  return {
+    period: rawPeriod === "afternoon" || rawPeriod === "evening" ? rawPeriod : "morning",
+    direction: rawDirection === "out" ? "out" : "in",
+  };
+}
+
+/**
+ * Service for the late / missing-exit report.
+ *
+ * @remarks
+ * Dependency Injection: Receives the late report repository via constructor.
+ */
+export class LateReportService {
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly reportRepository: ILateReportRepository,
+    timeZone?: string
+  ) {
+    this.timeZone = timeZone ?? getSchoolTimeZone();
+  }
+
+  /**
+   * Build the late / missing-exit report.
+   *
+   * @throws ValidationError if neither an event nor a valid date range is given
+   * @throws NotFoundError if the event does not exist
+   * @throws BusinessRuleError if the actor may not report on the event
+   */
+  async generateReport(
+    filters: LateReportFilters,
+    actor: WorkflowActorContext,
+    now: Date = new Date()
+  ): Promise<LateReportDto> {
+    this.validateFilters(filters);
+
+    const events = await this.resolveEvents(filters, actor);
+    const report: LateReportDto = {
+      generatedAt: now.toISOString(),
+      filters,
+      events: events.map((event) => ({
+        id: event.id,
+        title: event.title,
+        startDate: event.start_date,
+        endDate: event.end_date,
+      })),
+      totalLate: 0,
+      totalMissingOut: 0,
+      incidents: [],
+      offenders: [],
+    };
+
+    if (events.length === 0) return report;
+
+    // Step 1: Sessions and attended rows
+    const sessions = await this.reportRepository.findSessionsByEvents(events.map((e) => e.id));
+    if (sessions.length === 0) return report;
+
+    const attendance = await this.reportRepository.findAttendanceForSessions(
+      sessions.map((session) => session.id)
+    );
+
+    // Step 2: Raw incidents, before student filters
+    const rawIncidents = this.collectIncidents(events, sessions, attendance, filters, now);
+    if (rawIncidents.length === 0) return report;
+
+    // Step 3: Student placement and filters
+    const students = await this.resolveStudents(
+      rawIncidents.map((incident) => incident.studentId),
+      filters
+    );
+
+    const incidents: LateReportIncidentDto[] = [];
+    for (const incident of rawIncidents) {
+      const student = students.get(incident.studentId);
+      if (!student) continue;
+      incidents.push({ ...incident, ...student });
+    }
+
+    incidents.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        a.eventTitle.localeCompare(b.eventTitle) ||
+        a.fullName.localeCompare(b.fullName)
+    );
+
+    report.incidents = incidents;
+    report.totalLate = incidents.filter((incident) => incident.kind === "late").length;
+    report.totalMissingOut = incidents.length - report.totalLate;
+    report.offenders = this.rankOffenders(incidents);
+
+    return report;
+  }
+
+  private validateFilters(filters: LateReportFilters): void {
+    const errors: ValidationErrorDetail[] = [];
+
+    if (!filters.eventId && (!filters.from || !filters.to)) {
+      errors.push({ field: "eventId", message: "Select an event or a date range" });
+    }
+
+    for (const field of ["from", "to"] as const) {
+      const value = filters[field];
+      if (value && (!DATE_REGEX.test(value) || Number.isNaN(Date.parse(value)))) {
+        errors.push({ field, message: "Dates must be in YYYY-MM-DD format" });
+      }
+    }
+
+    if (errors.length === 0 && filters.from && filters.to) {
+      const days = (Date.parse(filters.to) - Date.parse(filters.from)) / DAY_MS;
+      if (days < 0) {
+        errors.push({ field: "to", message: "End date must be on or after the start date" });
+      } else if (days >= MAX_RANGE_DAYS) {
+        errors.push({ field: "to", message: `Date range must be ${MAX_RANGE_DAYS} days or fewer` });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid report filters", errors);
+    }
+  }
+
+  /**
+   * Events in scope for the actor.
+   */
+  private async resolveEvents(
+    filters: LateReportFilters,
+    actor: WorkflowActorContext
+  ): Promise<LateReportEventRow[]> {
+    const canManageAll = actor.permissions.includes("events.manage_all");
+    const isOrganizer = actor.permissions.includes("events.create");
+    // Advisers may report on their own class across all events
+    const isOwnAdvisory = isOrganizer && filters.adviserUserId === actor.userId;
+
+    if (!canManageAll && !isOrganizer) {
+      throw new BusinessRuleError("You do not have permission to generate attendance reports.");
+    }
+
+    if (filters.eventId) {
+      const [event] = await this.reportRepository.findEventsByIds([filters.eventId]);
+      if (!event) {
+        throw new NotFoundError("Event not found", "event", filters.eventId);
+      }
+      if (!canManageAll && !isOwnAdvisory && event.owner_user_id !== actor.userId) {
+        throw new BusinessRuleError("You do not have permission to report on this event.");
+      }
+      return [event];
+    }
+
+    const events = await this.reportRepository.findEventsInRange(filters.from!, filters.to!);
+    if (canManageAll || isOwnAdvisory) return events;
+    return events.filter((event) => event.owner_user_id === actor.userId);
+  }
+
+  /**
+   * Late arrivals and missing exits, without student details.
+   */
+  private collectIncidents(
+    events: LateReportEventRow[],
+    sessions: LateReportSessionRow[],
+    attendance: LateReportAttendanceRow[],
+    filters: LateReportFilters,
+    now: Date
+  ): Array<Omit<LateReportIncidentDto, keyof LateReportStudentDto> & { studentId: string }> {
+    const { date: today, minutes: nowMinutes } = toZonedParts(now, this.timeZone);
+    const eventTitles = new Map(events.map((event) => [event.id, event.title]));
+    const sessionById = new Map(sessions.map((session) => [session.id, session]));
+
+    // Sessions created before sessions were keyed by date take the scan's date
+    const occurrenceOf = (row: LateReportAttendanceRow, session: LateReportSessionRow) => {
+      const zoned = toZonedParts(new Date(row.scanned_at), this.timeZone);
+      return { date: session.session_date ?? zoned.date, minutes: zoned.minutes };
+    };
+
+    const inRange = (date: string) =>
+      (!filters.from || date >= filters.from) && (!filters.to || date <= filters.to);
+
+    // Closed exit sessions by "<event>|<date>|<period>"; undated ones by "<event>||<period>"
+    const closedExitKeys = new Set<string>();
+    for (const session of sessions) {
+      const { period, direction } = parseSessionType(session.session_type);
+      if (direction !== "out") continue;
+
+      if (!session.session_date) {
+        closedExitKeys.add(`${session.event_id}||${period}`);
+        continue;
+      }
+
+      const isClosed =
+        session.session_date < today ||
+        (session.session_date === today &&
+          !!session.end_time &&
+          nowMinutes >= parseTimeToMinutes(session.end_time));
+      if (isClosed) {
+        closedExitKeys.add(`${session.event_id}|${session.session_date}|${period}`);
+      }
+    }
+
+    const exitedKeys = new Set<string>();
+    for (const row of attendance) {
+      const session = sessionById.get(row.event_session_id);
+      if (!session) continue;
+      const { period, direction } = parseSessionType(session.session_type);
+      if (direction !== "out") continue;
+
+      const { date } = occurrenceOf(row, session);
+      exitedKeys.add(`${session.event_id}|${date}|${period}|${row.student_id}`);
+    }
+
+    const incidents: Array<
+      Omit<LateReportIncidentDto, keyof LateReportStudentDto> & { studentId: string }
+    > = [];
+
+    for (const row of attendance) {
+      const session = sessionById.get(row.event_session_id);
+      if (!session) continue;
+      const { period, direction } = parseSessionType(session.session_type);
+      if (direction !== "in") continue;
+
+      const { date, minutes } = occurrenceOf(row, session);
+      if (!inRange(date)) continue;
+
+      const base = {
+        studentId: row.student_id,
+        eventId: session.event_id,
+        eventTitle: eventTitles.get(session.event_id) ?? "",
+        eventSessionId: session.id,
+        sessionName: session.name,
+        date,
+        period,
+        scannedAt: row.scanned_at,
+        lateAfter: session.late_threshold_time,
+      };
+
+      if (row.status === "late") {
+        incidents.push({
+          ...base,
+          kind: "late",
+          minutesLate: session.late_threshold_time
+            ? Math.max(0, minutes - parseTimeToMinutes(session.late_threshold_time))
+            : null,
+        });
+      }
+
+      const exitClosed = session.session_date
+        ? closedExitKeys.has(`${session.event_id}|${date}|${period}`)
+        : closedExitKeys.has(`${session.event_id}||${period}`) && date < today;
+      if (exitClosed && !exitedKeys.has(`${session.event_id}|${date}|${period}|${row.student_id}`)) {
+        incidents.push({ ...base, kind: "missing_out", minutesLate: null });
+      }
+    }
+
+    return incidents;
+  }
+
+  /**
+   * Student details for the report, keeping only students that match the
+   * level / section / adviser filters.
+   */
+  private async resolveStudents(
+    studentIds: string[],
+    filters: LateReportFilters
+  ): Promise<Map<string, LateReportStudentDto>> {
+    const students = await this.reportRepository.findStudents(studentIds);
+    const sections = await this.reportRepository.findSections(
+      students.map((student) => student.section_id).filter((id): id is string => !!id)
+    );
+    const sectionById = new Map(sections.map((section) => [section.id, section]));
+
+    const [levelNames, adviserNames] = await Promise.all([
+      this.reportRepository.getLevelNames(
+        sections.map((section) => section.level_id).filter((id): id is string => !!id)
+      ),
+      this.reportRepository.getUserNames(
+        sections.map((section) => section.adviser_user_id).filter((id): id is string => !!id)
+      ),
+    ]);
+
+    const result = new Map<string, LateReportStudentDto>();
+
+    for (const student of students) {
+      const section = student.section_id ? sectionById.get(student.section_id) ?? null : null;
+
+      if (filters.sectionId && section?.id !== filters.sectionId) continue;
+      if (filters.levelId && section?.level_id !== filters.levelId) continue;
+      if (filters.adviserUserId && section?.adviser_user_id !== filters.adviserUserId) continue;
+
+      result.set(student.id, {
+        studentId: student.id,
+        fullName:
+          [student.first_name, student.last_name].filter(Boolean).join(" ") || student.id,
+        lrn: student.student_school_id,
+        level: section?.level_id ? levelNames.get(section.level_id) ?? null : null,
+        section: section?.name ?? null,
+        adviser: section?.adviser_user_id ? adviserNames.get(section.adviser_user_id) ?? null : null,
+      });
+    }
+
+    return result;
+  }
+
+  private rankOffenders(incidents: LateReportIncidentDto[]): LateReportOffenderDto[] {
+    const byStudent = new Map<string, LateReportOffenderDto & { eventIds: Set<string> }>();
+
+    for (const incident of incidents) {
+      let offender = byStudent.get(incident.studentId);
+      if (!offender) {
+        offender = {
+          studentId: incident.studentId,
+          fullName: incident.fullName,
+          lrn: incident.lrn,
+          level: incident.level,
+          section: incident.section,
+          adviser: incident.adviser,
+          rank: 0,
+          lateCount: 0,
+          missingOutCount: 0,
+          totalIncidents: 0,
+          totalMinutesLate: 0,
+          eventCount: 0,
+          eventIds: new Set(),
+        };
+        byStudent.set(incident.studentId, offender);
+      }
+
+      if (incident.kind === "late") {
+        offender.lateCount += 1;
+        offender.totalMinutesLate += incident.minutesLate ?? 0;
+      } else {
+        offender.missingOutCount += 1;
+      }
+      offender.totalIncidents += 1;
+      offender.eventIds.add(incident.eventId);
+    }
+
+    return Array.from(byStudent.values())
+      .sort(
+        (a, b) =>
+          b.totalIncidents - a.totalIncidents ||
+          b.totalMinutesLate - a.totalMinutesLate ||
+          a.fullName.localeCompare(b.fullName)
+      )
+      .map(({ eventIds, ...offender }, index) => ({
+        ...offender,
+        rank: index + 1,
+        eventCount: eventIds.size,
+      }));
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Peer Status Service
+ *
+ * Lets scanner devices at different gates see what the others have already
+ * uploaded, so a student scanned on one phone shows as a duplicate on another.
+ *
+ * @remarks
+ * Attendance rows are keyed by event_sessions (which are matched to
+ * session_config by name). Each row is mapped back to the config session ID
+ * the devices use, via the scan's school-local date and the session name.
+ */
+
+import type { EventDto, IScanRepository, PeerScanDto, PeerStatusDto } from "../domain";
+import { getSchoolTimeZone, toZonedParts } from "./school-time";
+
+/** How far `nextSince` trails the server clock. */
+const POLL_OVERLAP_MS = 15 * 1000;
+
+/**
+ * Service for the scanner peer status feed.
+ *
+ * @remarks
+ * Dependency Injection: Receives the scan repository via constructor.
+ */
+export class PeerStatusService {
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly scanRepository: IScanRepository,
+    timeZone?: string
+  ) {
+    this.timeZone = timeZone ?? getSchoolTimeZone();
+  }
+
+  /**
+   * List scans stored for an event, optionally only those stored after `since`.
+   *
+   * @param event - The event to report on
+   * @param since - `nextSince` from the previous poll (null for everything)
+   * @param receivedAt - Server time the request was received
+   */
+  async getPeerStatus(
+    event: EventDto,
+    since: string | null,
+    receivedAt: Date = new Date()
+  ): Promise<PeerStatusDto> {
+    const nextSince = new Date(receivedAt.getTime() - POLL_OVERLAP_MS).toISOString();
+
+    const sessions = await this.scanRepository.findEventSessions(event.id);
+    const sessionById = new Map(sessions.map((session) => [session.id, session]));
+
+    const rows = await this.scanRepository.findAttendanceCreatedSince(
+      sessions.map((session) => session.id),
+      since
+    );
+
+    if (rows.length === 0) {
+      return { eventId: event.id, nextSince, scans: [] };
+    }
+
+    const scannerNames = await this.scanRepository.getUserNames(
+      rows.map((row) => row.synced_by_user_id).filter((id): id is string => !!id)
+    );
+
+    // Undated (pre-1.17) event_sessions are matched to session_config by "<date>|<name>"
+    const configSessionIds = new Map<string, string>();
+    for (const dateConfig of event.sessionConfig?.dates ?? []) {
+      for (const session of dateConfig.sessions ?? []) {
+        configSessionIds.set(`${dateConfig.date}|${session.name ?? session.id}`, session.id);
+      }
+    }
+
+    const scans: PeerScanDto[] = rows.map((row) => {
+      const session = sessionById.get(row.event_session_id);
+      const sessionName = session?.name ?? "";
+      const date =
+        session?.session_date ?? toZonedParts(new Date(row.scanned_at), this.timeZone).date;
+
+      return {
+        studentId: row.student_id,
+        sessionId:
+          session?.config_session_id ?? configSessionIds.get(`${date}|${sessionName}`) ?? null,
+        sessionName,
+        date,
+        scannedAt: row.scanned_at,
+        status: row.status,
+        deviceId: row.scanned_by_device_id,
+        scannerName: row.synced_by_user_id ? scannerNames.get(row.synced_by_user_id) ?? null : null,
+      };
+    });
+
+    return { eventId: event.id, nextSince, scans };
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * QR Credential Service
+ *
+ * Issues signed student QR codes and manages their rotation and revocation.
+ *
+ * @remarks
+ * Codes are signed with the newest active key in qr_signing_keys; one is
+ * generated on first use. Scanners verify codes offline with the public keys
+ * from getPolicy(), which ships with scanner resources.
+ *
+ * Configuration:
+ * - QR_CODE_VALIDITY_DAYS: days a code stays valid after issue (default 365)
+ * - QR_LEGACY_HASH_CUTOFF: ISO instant after which bare qr_hash codes are
+ *   rejected (unset = still accepted)
+ */
+
+import { randomBytes, randomUUID } from "node:crypto";
+import type {
+  IQrCredentialRepository,
+  QrCredentialPolicyDto,
+  QrSigningKeyRow,
+  StudentQrCredentialDto,
+  StudentQrCredentialRow,
+} from "../domain";
+import { NotFoundError } from "./event.service";
+import {
+  QR_SIGNING_ALGORITHM,
+  generateQrSigningKeyPair,
+  getQrTokenExpiry,
+  signQrToken,
+} from "./qr-token";
+
+/** Used when QR_CODE_VALIDITY_DAYS is not configured. */
+const DEFAULT_VALIDITY_DAYS = 365;
+
+export interface QrCredentialServiceOptions {
+  validityDays?: number;
+  /** ISO instant; null keeps accepting bare qr_hash codes */
+  legacyHashAcceptedUntil?: string | null;
+}
+
+function readValidityDays(): number {
+  const configured = Number(process.env.QR_CODE_VALIDITY_DAYS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_VALIDITY_DAYS;
+}
+
+function readLegacyHashCutoff(): string | null {
+  const configured = process.env.QR_LEGACY_HASH_CUTOFF;
+  if (!configured) return null;
+  const cutoff = new Date(configured);
+  return Number.isNaN(cutoff.getTime()) ? null : cutoff.toISOString();
+}
+
+function generateQrHash(): string {
+  return `qr_${randomBytes(16).toString("hex")}`;
+}
+
+/**
+ * Service for signed student QR codes.
+ *
+ * @remarks
+ * Dependency Injection: Receives the QR credential repository via constructor.
+ */
+export class QrCredentialService {
+  private readonly validityDays: number;
+  private readonly legacyHashAcceptedUntil: string | null;
+
+  constructor(
+    private readonly repository: IQrCredentialRepository,
+    options: QrCredentialServiceOptions = {}
+  ) {
+    this.validityDays = options.validityDays ?? readValidityDays();
+    this.legacyHashAcceptedUntil =
+      options.legacyHashAcceptedUntil === undefined
+        ? readLegacyHashCutoff()
+        : options.legacyHashAcceptedUntil;
+  }
+
+  /**
+   * Get the verification policy scanners apply offline.
+   */
+  async getPolicy(): Promise<QrCredentialPolicyDto> {
+    let keys = await this.repository.findUsableSigningKeys();
+    if (!keys.some((key) => key.status === "active")) {
+      keys = [await this.createSigningKey(), ...keys];
+    }
+
+    return {
+      validityDays: this.validityDays,
+      legacyHashAcceptedUntil: this.legacyHashAcceptedUntil,
+      publicKeys: keys.map((key) => ({
+        keyId: key.kid,
+        algorithm: key.algorithm,
+        publicKey: key.public_key_jwk,
+      })),
+    };
+  }
+
+  /**
+   * Sign QR codes for several students (e.g. for printing ID cards).
+   *
+   * @returns Map of student ID to token; revoked or unknown students are omitted
+   */
+  async issueTokens(studentIds: string[], issuedAt: Date = new Date()): Promise<Map<string, string>> {
+    const tokens = new Map<string, string>();
+    if (studentIds.length === 0) return tokens;
+
+    const credentials = await this.repository.findStudentCredentials(studentIds);
+    const signingKey = await this.getSigningKey();
+
+    for (const credential of credentials) {
+      if (credential.qr_revoked_at) continue;
+      tokens.set(credential.id, await this.sign(credential.id, issuedAt, signingKey));
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Get a student's QR credential state.
+   *
+   * @throws NotFoundError if the student doesn't exist
+   */
+  async getStudentCredential(studentId: string): Promise<StudentQrCredentialDto> {
+    const [credential] = await this.repository.findStudentCredentials([studentId]);
+    if (!credential) {
+      throw new NotFoundError("Student not found", "student", studentId);
+    }
+    return this.mapCredential(credential, null);
+  }
+
+  /**
+   * Reissue a student's QR code. Every earlier code (signed or bare hash)
+   * stops working, and a revocation is lifted.
+   *
+   * @returns The new state, including the new signed code
+   * @throws NotFoundError if the student doesn't exist
+   */
+  async rotateStudentCredential(studentId: string): Promise<StudentQrCredentialDto> {
+    const issuedAt = new Date();
+    const credential = await this.repository.updateStudentCredential(studentId, {
+      qr_hash: generateQrHash(),
+      qr_issued_at: issuedAt.toISOString(),
+      qr_revoked_at: null,
+    });
+
+    if (!credential) {
+      throw new NotFoundError("Student not found", "student", studentId);
+    }
+
+    const token = await this.sign(studentId, issuedAt, await this.getSigningKey());
+    return this.mapCredential(credential, { token, issuedAt });
+  }
+
+  /**
+   * Revoke every QR code of a student until it is reissued.
+   *
+   * @throws NotFoundError if the student doesn't exist
+   */
+  async revokeStudentCredential(studentId: string): Promise<StudentQrCredentialDto> {
+    const credential = await this.repository.updateStudentCredential(studentId, {
+      qr_revoked_at: new Date().toISOString(),
+    });
+
+    if (!credential) {
+      throw new NotFoundError("Student not found", "student", studentId);
+    }
+
+    return this.mapCredential(credential, null);
+  }
+
+  private async getSigningKey(): Promise<QrSigningKeyRow> {
+    const keys = await this.repository.findUsableSigningKeys();
+    return keys.find((key) => key.status === "active") ?? (await this.createSigningKey());
+  }
+
+  private async createSigningKey(): Promise<QrSigningKeyRow> {
+    const { publicKey, privateKey } = await generateQrSigningKeyPair();
+    return this.repository.createSigningKey({
+      kid: randomUUID().replace(/-/g, "").slice(0, 8),
+      algorithm: QR_SIGNING_ALGORITHM,
+      public_key_jwk: publicKey,
+      private_key_jwk: privateKey,
+      status: "active",
+    });
+  }
+
+  private sign(studentId: string, issuedAt: Date, key: QrSigningKeyRow): Promise<string> {
+    return signQrToken(
+      { studentId, issuedAt: Math.floor(issuedAt.getTime() / 1000), keyId: key.kid },
+      key.private_key_jwk
+    );
+  }
+
+  private mapCredential(
+    credential: StudentQrCredentialRow,
+    issued: { token: string; issuedAt: Date } | null
+  ): StudentQrCredentialDto {
+    return {
+      studentId: credential.id,
+      issuedAt: credential.qr_issued_at,
+      revokedAt: credential.qr_revoked_at,
+      token: issued?.token ?? null,
+      expiresAt: issued
+        ? getQrTokenExpiry(Math.floor(issued.issuedAt.getTime() / 1000), this.validityDays).toISOString()
+        : null,
+    };
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Signed QR Token Format
+ *
+ * Encodes, signs and verifies student QR codes. Used on the server to issue
+ * codes and on scanner devices to verify them offline.
+ *
+ * @remarks
+ * Token layout: `SQR1.<studentId>.<issuedAt>.<keyId>.<signature>`
+ * - issuedAt: Unix seconds when the code was issued
+ * - signature: ECDSA P-256 / SHA-256 (raw r||s, base64url) over everything
+ *   before the last dot
+ *
+ * Only Web Crypto is used, so this module runs in browsers and in Node.
+ */
+
+import type { QrCredentialPolicyDto } from "../domain/types";
+
+/** Prefix that marks a signed code (bare qr_hash codes start with "qr_"). */
+export const QR_TOKEN_PREFIX = "SQR1";
+
+/** JOSE name of the signing algorithm. */
+export const QR_SIGNING_ALGORITHM = "ES256";
+
+const KEY_PARAMS = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGN_PARAMS = { name: "ECDSA", hash: "SHA-256" } as const;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Claims carried by a signed QR code.
+ */
+export interface QrTokenClaims {
+  studentId: string;
+  /** Unix seconds */
+  issuedAt: number;
+  keyId: string;
+}
+
+/**
+ * A syntactically valid token, not yet verified.
+ */
+export interface ParsedQrToken extends QrTokenClaims {
+  signedPart: string;
+  signature: string;
+}
+
+/**
+ * Outcome of checking a verified token against the student's credential state.
+ */
+export type QrCredentialCheck =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Check whether a scanned value uses the signed format.
+ */
+export function isSignedQrToken(raw: string): boolean {
+  return raw.startsWith(`${QR_TOKEN_PREFIX}.`);
+}
+
+/**
+ * Split a scanned value into its claims and signature.
+ *
+ * @returns The parsed token, or null if the value is malformed
+ */
+export function parseQrToken(raw: string): ParsedQrToken | null {
+  const parts = raw.trim().split(".");
+  if (parts.length !== 5 || parts[0] !== QR_TOKEN_PREFIX) {
+    return null;
+  }
+
+  const [, studentId, issuedAtPart, keyId, signature] = parts;
+  const issuedAt = Number(issuedAtPart);
+  if (!studentId || !keyId || !signature || !/^\d+$/.test(issuedAtPart)) {
+    return null;
+  }
+
+  return {
+    studentId,
+    issuedAt,
+    keyId,
+    signedPart: parts.slice(0, 4).join("."),
+    signature,
+  };
+}
+
+/**
+ * Generate a new signing key pair as JWKs.
+ */
+export async function generateQrSigningKeyPair(): Promise<{
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}> {
+  const pair = await crypto.subtle.generateKey(KEY_PARAMS, true, ["sign", "verify"]);
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey("jwk", pair.publicKey),
+    crypto.subtle.exportKey("jwk", pair.privateKey),
+  ]);
+  return { publicKey, privateKey };
+}
+
+/**
+ * Sign claims with a private key.
+ *
+ * @returns The token string to encode in the QR code
+ */
+export async function signQrToken(claims: QrTokenClaims, privateKeyJwk: JsonWebKey): Promise<string> {
+  const signedPart = [
+    QR_TOKEN_PREFIX,
+    claims.studentId,
+    String(Math.floor(claims.issuedAt)),
+    claims.keyId,
+  ].join(".");
+
+  const key = await crypto.subtle.importKey("jwk", privateKeyJwk, KEY_PARAMS, false, ["sign"]);
+  const signature = await crypto.subtle.sign(
+    SIGN_PARAMS,
+    key,
+    new TextEncoder().encode(signedPart)
+  );
+
+  return `${signedPart}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a token's signature.
+ *
+ * @param token - Parsed token
+ * @param publicKey - Key from importQrVerificationKey()
+ */
+export async function verifyQrTokenSignature(
+  token: ParsedQrToken,
+  publicKey: CryptoKey
+): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      SIGN_PARAMS,
+      publicKey,
+      fromBase64Url(token.signature),
+      new TextEncoder().encode(token.signedPart)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Import a public JWK for repeated verification.
+ */
+export function importQrVerificationKey(publicKeyJwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey("jwk", publicKeyJwk, KEY_PARAMS, false, ["verify"]);
+}
+
+/**
+ * Expiry instant of a code issued at `issuedAt` (Unix seconds).
+ */
+export function getQrTokenExpiry(issuedAt: number, validityDays: number): Date {
+  return new Date((issuedAt + validityDays * SECONDS_PER_DAY) * 1000);
+}
+
+/**
+ * Check a signature-verified token against expiry and the student's
+ * rotation/revocation state.
+ */
+export function checkQrCredential(
+  token: QrTokenClaims,
+  student: { qrIssuedAt: string; qrRevokedAt: string | null },
+  policy: Pick<QrCredentialPolicyDto, "validityDays">,
+  now: Date = new Date()
+): QrCredentialCheck {
+  if (student.qrRevokedAt) {
+    return { valid: false, reason: "This QR code has been revoked. Ask the registrar for a new one." };
+  }
+
+  const currentIssuedAt = Math.floor(new Date(student.qrIssuedAt).getTime() / 1000);
+  if (token.issuedAt < currentIssuedAt) {
+    return { valid: false, reason: "This QR code was replaced by a newer one." };
+  }
+
+  if (token.issuedAt * 1000 > now.getTime() + SECONDS_PER_DAY * 1000) {
+    return { valid: false, reason: "This QR code's issue date is in the future." };
+  }
+
+  if (getQrTokenExpiry(token.issuedAt, policy.validityDays).getTime() <= now.getTime()) {
+    return { valid: false, reason: "This QR code has expired. Ask the registrar for a new one." };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check whether bare qr_hash codes are still accepted.
+ */
+export function isLegacyQrHashAccepted(
+  policy: Pick<QrCredentialPolicyDto, "legacyHashAcceptedUntil"> | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!policy?.legacyHashAcceptedUntil) {
+    return true;
+  }
+  return now.getTime() < new Date(policy.legacyHashAcceptedUntil).getTime();
+}
@@ -0,0 +1,195 @@
+/**
+ * Event Series Recurrence
+ *
+ * Expands an RRULE-like recurrence pattern into occurrence dates.
+ *
+ * @remarks
+ * Dates are plain YYYY-MM-DD calendar dates; arithmetic is done in UTC so
+ * the server's time zone never shifts a day.
+ */
+
+import type { EventRecurrenceRule, RecurrenceWeekday, ValidationErrorDetail } from "../domain";
+
+/** Most occurrences one series may generate (about a school year of school days). */
+export const MAX_SERIES_OCCURRENCES = 200;
+
+/** Longest span a series may cover, so an `until`-only rule can't run away. */
+const MAX_SERIES_SPAN_DAYS = 731;
+
+const MAX_INTERVAL = 52;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Weekday codes indexed by `Date.getUTCDay()`. */
+const WEEKDAYS_BY_UTC_DAY: readonly RecurrenceWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export const RECURRENCE_WEEKDAYS: readonly RecurrenceWeekday[] = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+function parseDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Monday-based week number since the epoch, used for WEEKLY intervals.
+ */
+function weekIndex(date: Date): number {
+  // 1970-01-01 was a Thursday; shift so weeks start on Monday
+  return Math.floor((date.getTime() / DAY_MS + 3) / 7);
+}
+
+/**
+ * The date before `value` (YYYY-MM-DD).
+ */
+export function previousDate(value: string): string {
+  const date = parseDate(value);
+  if (!date) return value;
+  return formatDate(new Date(date.getTime() - DAY_MS));
+}
+
+/**
+ * The date `days` days after `value` (before it when negative).
+ */
+export function shiftDate(value: string, days: number): string {
+  const date = parseDate(value);
+  if (!date) return value;
+  return formatDate(new Date(date.getTime() + days * DAY_MS));
+}
+
+/**
+ * Whole days from `from` to `to`; null if either date is invalid.
+ */
+export function daysBetween(from: string, to: string): number | null {
+  const start = parseDate(from);
+  const end = parseDate(to);
+  if (!start || !end) return null;
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+}
+
+/**
+ * Last date a rule can reach: its `until`, or the longest allowed span.
+ */
+export function recurrenceSpanEnd(rule: EventRecurrenceRule): string {
+  const start = parseDate(rule.startDate);
+  if (!start) return rule.startDate;
+  const spanEnd = formatDate(new Date(start.getTime() + MAX_SERIES_SPAN_DAYS * DAY_MS));
+  return rule.until && rule.until < spanEnd ? rule.until : spanEnd;
+}
+
+/**
+ * Check a recurrence rule; returns one entry per problem found.
+ */
+export function validateRecurrenceRule(input: unknown): ValidationErrorDetail[] {
+  const errors: ValidationErrorDetail[] = [];
+
+  if (!input || typeof input !== "object") {
+    return [{ field: "recurrence", message: "Recurrence pattern is required", code: "REQUIRED" }];
+  }
+
+  const rule = input as Partial<EventRecurrenceRule>;
+
+  if (rule.frequency !== "DAILY" && rule.frequency !== "WEEKLY") {
+    errors.push({ field: "recurrence.frequency", message: "Frequency must be DAILY or WEEKLY", code: "INVALID_VALUE" });
+  }
+
+  if (!Number.isInteger(rule.interval) || (rule.interval ?? 0) < 1 || (rule.interval ?? 0) > MAX_INTERVAL) {
+    errors.push({
+      field: "recurrence.interval",
+      message: `Interval must be a whole number from 1 to ${MAX_INTERVAL}`,
+      code: "INVALID_VALUE",
+    });
+  }
+
+  if (
+    !Array.isArray(rule.byWeekday) ||
+    rule.byWeekday.some((day) => !RECURRENCE_WEEKDAYS.includes(day as RecurrenceWeekday))
+  ) {
+    errors.push({ field: "recurrence.byWeekday", message: "Weekdays must be MO, TU, WE, TH, FR, SA or SU", code: "INVALID_VALUE" });
+  }
+
+  const startDate = typeof rule.startDate === "string" ? parseDate(rule.startDate) : null;
+  if (!startDate) {
+    errors.push({ field: "recurrence.startDate", message: "Start date must be a valid YYYY-MM-DD date", code: "INVALID_FORMAT" });
+  }
+
+  const until = typeof rule.until === "string" ? parseDate(rule.until) : null;
+  if (rule.until !== null && rule.until !== undefined && !until) {
+    errors.push({ field: "recurrence.until", message: "End date must be a valid YYYY-MM-DD date", code: "INVALID_FORMAT" });
+  } else if (startDate && until) {
+    if (until < startDate) {
+      errors.push({ field: "recurrence.until", message: "End date must be on or after the start date", code: "INVALID_RANGE" });
+    } else if ((until.getTime() - startDate.getTime()) / DAY_MS > MAX_SERIES_SPAN_DAYS) {
+      errors.push({ field: "recurrence.until", message: "A series can cover at most two years", code: "INVALID_RANGE" });
+    }
+  }
+
+  const hasCount = rule.count !== null && rule.count !== undefined;
+  if (hasCount && (!Number.isInteger(rule.count) || (rule.count ?? 0) < 1 || (rule.count ?? 0) > MAX_SERIES_OCCURRENCES)) {
+    errors.push({
+      field: "recurrence.count",
+      message: `Occurrence count must be a whole number from 1 to ${MAX_SERIES_OCCURRENCES}`,
+      code: "INVALID_VALUE",
+    });
+  }
+
+  if ((rule.until === null || rule.until === undefined) && !hasCount) {
+    errors.push({ field: "recurrence", message: "Set an end date or an occurrence count", code: "REQUIRED" });
+  }
+
+  if (!Array.isArray(rule.excludedDates) || rule.excludedDates.some((date) => typeof date !== "string" || !parseDate(date))) {
+    errors.push({ field: "recurrence.excludedDates", message: "Excluded dates must be valid YYYY-MM-DD dates", code: "INVALID_FORMAT" });
+  }
+
+  return errors;
+}
+
+/**
+ * Occurrence dates of a valid rule, in order.
+ *
+ * @remarks
+ * Stops at `until`, after `count` dates, or at MAX_SERIES_OCCURRENCES.
+ */
+export function expandRecurrence(rule: EventRecurrenceRule): string[] {
+  const start = parseDate(rule.startDate);
+  if (!start) return [];
+
+  const spanEnd = new Date(start.getTime() + MAX_SERIES_SPAN_DAYS * DAY_MS);
+  const until = rule.until ? parseDate(rule.until) : null;
+  const end = until && until < spanEnd ? until : spanEnd;
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const weekdays = new Set<RecurrenceWeekday>(
+    rule.byWeekday.length > 0
+      ? rule.byWeekday
+      : rule.frequency === "WEEKLY"
+        ? [WEEKDAYS_BY_UTC_DAY[start.getUTCDay()]]
+        : RECURRENCE_WEEKDAYS
+  );
+  const excluded = new Set(rule.excludedDates);
+  const interval = Math.max(1, rule.interval);
+  const startWeek = weekIndex(start);
+
+  const dates: string[] = [];
+  for (let time = start.getTime(); time <= end.getTime() && dates.length < limit; time += DAY_MS) {
+    const date = new Date(time);
+    if (!weekdays.has(WEEKDAYS_BY_UTC_DAY[date.getUTCDay()])) continue;
+
+    const step =
+      rule.frequency === "DAILY"
+        ? Math.round((time - start.getTime()) / DAY_MS)
+        : weekIndex(date) - startWeek;
+    if (step % interval !== 0) continue;
+
+    const value = formatDate(date);
+    if (!excluded.has(value)) {
+      dates.push(value);
+    }
+  }
+
+  return dates;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+  AttendanceLogInsert,
+  AttendanceLogKeyRow,
+  EventDto,
+  IScanRepository,
+  ScanVerdictDto,
+  SessionConfig,
+  ValidatedScan,
+} from "../domain";
+import { ScanUploadService } from "./scan-upload.service";
+import type { ScanValidationService } from "./scan-validation.service";
+
+const EVENT_ID = "event-1";
+const EVENT_SESSION_ID = "event-session-1";
+
+const SESSION: SessionConfig = {
+  id: "am-in",
+  name: "Morning",
+  period: "morning",
+  direction: "in",
+  opens: "07:00",
+  lateAfter: "08:00",
+  closes: "09:00",
+};
+
+function validatedScan(scanId: string, studentId: string): ValidatedScan {
+  return {
+    scanId,
+    studentId,
+    scannedAt: "2026-03-02T07:30:00.000Z",
+    status: "PRESENT",
+    session: SESSION,
+    date: "2026-03-02",
+  };
+}
+
+function storedRow(clientScanId: string, eventSessionId: string, studentId: string): AttendanceLogKeyRow {
+  return {
+    id: `log-${clientScanId}`,
+    event_session_id: eventSessionId,
+    student_id: studentId,
+    client_scan_id: clientScanId,
+    status: "present",
+    source: "scan",
+  };
+}
+
+/**
+ * Upload `scans` (all valid) with `stored` rows already in attendance_logs.
+ */
+async function upload(scans: ValidatedScan[], stored: AttendanceLogKeyRow[]) {
+  const inserted: AttendanceLogInsert[] = [];
+  const scanRepository = {
+    findAttendanceByClientScanIds: vi.fn(async () => stored),
+    findEventSessions: vi.fn(async () => [
+      { id: EVENT_SESSION_ID, name: "Morning", session_date: "2026-03-02", config_session_id: SESSION.id },
+    ]),
+    createEventSession: vi.fn(),
+    findAttendanceForSessions: vi.fn(async () => []),
+    deleteSystemAbsences: vi.fn(),
+    insertAttendanceLogs: vi.fn(async (rows: AttendanceLogInsert[]) => {
+      inserted.push(...rows);
+      return rows.map((row) => row.client_scan_id);
+    }),
+  } as unknown as IScanRepository;
+
+  const validationService = {
+    validateUpload: vi.fn(async () => ({
+      results: scans.map(
+        (scan): ScanVerdictDto => ({
+          scanId: scan.scanId,
+          verdict: "accepted",
+          status: scan.status,
+          sessionId: scan.session.id,
+          sessionName: scan.session.name,
+          effectiveScannedAt: scan.scannedAt,
+          flags: [],
+          reason: null,
+        })
+      ),
+      accepted: scans,
+      clockSkewMs: null,
+    })),
+    recordAudit: vi.fn(),
+  } as unknown as ScanValidationService;
+
+  const service = new ScanUploadService(scanRepository, validationService, undefined, "Asia/Manila");
+  const result = await service.uploadScans(
+    { id: EVENT_ID, title: "Flag ceremony" } as EventDto,
+    { scans: scans.map((scan) => ({ id: scan.scanId, studentId: scan.studentId })) } as never,
+    "uploader-1",
+    new Date("2026-03-02T07:35:00.000Z")
+  );
+
+  return { result, inserted };
+}
+
+describe("ScanUploadService.uploadScans", () => {
+  it("treats a scan ID stored for the same event and student as a retry", async () => {
+    const { result, inserted } = await upload(
+      [validatedScan("scan-1", "student-a")],
+      [storedRow("scan-1", EVENT_SESSION_ID, "student-a")]
+    );
+
+    expect(inserted).toEqual([]);
+    expect(result.uploadedScanIds).toEqual(["scan-1"]);
+    expect(result.results[0].verdict).toBe("accepted");
+  });
+
+  it("rejects a scan whose ID is stored for another event or student", async () => {
+    const { result, inserted } = await upload(
+      [
+        validatedScan("scan-other-event", "student-a"),
+        validatedScan("scan-other-student", "student-b"),
+        validatedScan("scan-new", "student-c"),
+      ],
+      [
+        storedRow("scan-other-event", "another-event-session", "student-a"),
+        storedRow("scan-other-student", EVENT_SESSION_ID, "student-z"),
+      ]
+    );
+
+    expect(inserted.map((row) => row.client_scan_id)).toEqual(["scan-new"]);
+    expect(result.uploadedScanIds).toEqual(["scan-new"]);
+    expect(result.rejected).toBe(2);
+
+    const conflicts = result.results.filter((verdict) => verdict.flags.includes("SCAN_ID_CONFLICT"));
+    expect(conflicts.map((verdict) => verdict.scanId)).toEqual(["scan-other-event", "scan-other-student"]);
+    expect(conflicts.every((verdict) => verdict.verdict === "rejected" && verdict.status === null)).toBe(true);
+  });
+});
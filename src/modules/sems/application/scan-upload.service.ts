@@ -0,0 +1,392 @@
+/**
+ * Scan Upload Service
+ *
+ * Persists validated offline scans to attendance_logs in idempotent batches.
+ *
+ * @remarks
+ * - Each scan is keyed by the device's queued scan ID (client_scan_id), so
+ *   re-uploading after a network drop is recognised as a retry. A stored row
+ *   only counts as the same scan if it is for the same event and student;
+ *   otherwise the ID is taken and the scan is rejected as a conflict
+ * - Sessions and existing attendance are resolved with a few batched queries;
+ *   each (date, config session) pair has its own event_sessions row
+ * - A system-generated absence (see AbsenteeService) is replaced by the scan
+ * - Inserts run in chunks; a failed chunk falls back to row-by-row inserts so
+ *   every scan still gets its own verdict
+ * - The result has one verdict per distinct scan ID, in upload order
+ * - Newly stored scans from today are passed to the attendance notifier,
+ *   when one is configured, for guardian notifications
+ */
+
+import type {
+  AttendanceLogInsert,
+  AttendanceNotice,
+  EventDto,
+  IAttendanceNotifier,
+  IScanRepository,
+  ScanUploadInput,
+  ScanUploadRecord,
+  ScanUploadResultDto,
+  ScanVerdictDto,
+  ValidatedScan,
+} from "../domain";
+import type { ScanValidationService } from "./scan-validation.service";
+import { getSchoolTimeZone, toZonedParts } from "./school-time";
+
+/** Rows per attendance insert request. */
+const UPLOAD_CHUNK_SIZE = 500;
+
+/** Device IDs are client-generated; cap what gets stored. */
+const MAX_DEVICE_ID_LENGTH = 64;
+
+/** Postgres unique_violation. */
+const UNIQUE_VIOLATION = "23505";
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/** Key of one dated occurrence of a configured session. */
+function sessionKey(date: string, configSessionId: string): string {
+  return `${date}|${configSessionId}`;
+}
+
+function getErrorCode(error: unknown): string | null {
+  if (error && typeof error === "object" && "code" in error) {
+    const code = (error as { code: unknown }).code;
+    return typeof code === "string" ? code : null;
+  }
+  return null;
+}
+
+/**
+ * Service for uploading scanner queues.
+ *
+ * @remarks
+ * Dependency Injection: Receives the scan repository, validation service and
+ * optional attendance notifier via constructor.
+ */
+export class ScanUploadService {
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly scanRepository: IScanRepository,
+    private readonly validationService: ScanValidationService,
+    private readonly attendanceNotifier?: IAttendanceNotifier,
+    timeZone?: string
+  ) {
+    this.timeZone = timeZone ?? getSchoolTimeZone();
+  }
+
+  /**
+   * Validate and store a batch of uploaded scans.
+   *
+   * @param event - The event the scans belong to (must be published)
+   * @param input - Uploaded scans plus the device clock at upload time
+   * @param uploadedByUserId - UUID of the uploading user
+   * @param receivedAt - Server time the request was received
+   * @returns Counts and per-scan verdicts
+   */
+  async uploadScans(
+    event: EventDto,
+    input: ScanUploadInput,
+    uploadedByUserId: string,
+    receivedAt: Date = new Date()
+  ): Promise<ScanUploadResultDto> {
+    // A scan ID that appears twice in one request is the same scan
+    const seenIds = new Set<string>();
+    const scans: ScanUploadRecord[] = [];
+    for (const scan of input.scans) {
+      if (scan?.id && seenIds.has(scan.id)) continue;
+      if (scan?.id) seenIds.add(scan.id);
+      scans.push(scan);
+    }
+
+    const { results, accepted, clockSkewMs } = await this.validationService.validateUpload(
+      event,
+      { scans, deviceTime: input.deviceTime },
+      receivedAt
+    );
+    const resultByScanId = new Map(results.map((result) => [result.scanId, result]));
+    const storedScanIds = new Set<string>();
+
+    // Step 1: Scans already stored by an earlier upload are done; an ID stored
+    // for another event or student belongs to a different scan
+    const previouslyStored = await this.scanRepository.findAttendanceByClientScanIds(
+      accepted.map((scan) => scan.scanId)
+    );
+    const conflictingScanIds = new Set<string>();
+    if (previouslyStored.length > 0) {
+      const eventSessionIds = new Set(
+        (await this.scanRepository.findEventSessions(event.id)).map((row) => row.id)
+      );
+      const acceptedById = new Map(accepted.map((scan) => [scan.scanId, scan]));
+
+      for (const row of previouslyStored) {
+        const scan = row.client_scan_id ? acceptedById.get(row.client_scan_id) : undefined;
+        if (!scan) continue;
+
+        if (eventSessionIds.has(row.event_session_id) && row.student_id === scan.studentId) {
+          storedScanIds.add(scan.scanId);
+        } else {
+          conflictingScanIds.add(scan.scanId);
+          this.markConflict(resultByScanId.get(scan.scanId));
+        }
+      }
+    }
+    let pending = accepted.filter(
+      (scan) => !storedScanIds.has(scan.scanId) && !conflictingScanIds.has(scan.scanId)
+    );
+
+    // Step 2: Resolve event_sessions for the remaining scans
+    const sessionKeyToDbId = await this.resolveEventSessions(event.id, pending);
+    const eventSessionIdOf = (scan: ValidatedScan) =>
+      sessionKeyToDbId.get(sessionKey(scan.date, scan.session.id));
+    pending = pending.filter((scan) => {
+      if (eventSessionIdOf(scan)) return true;
+      this.markFailed(resultByScanId.get(scan.scanId), "Unable to resolve the event session.");
+      return false;
+    });
+
+    // Step 3: Students who already have attendance for the session are duplicates,
+    // except for materialized absences, which a late-uploaded scan replaces
+    const existing = await this.scanRepository.findAttendanceForSessions(
+      Array.from(new Set(pending.map((scan) => eventSessionIdOf(scan)!))),
+      pending.map((scan) => scan.studentId)
+    );
+    const absences = existing.filter((row) => row.source === "system" && row.status === "absent");
+    if (absences.length > 0) {
+      await this.scanRepository.deleteSystemAbsences(absences.map((row) => row.id));
+    }
+    const existingKeys = new Set(
+      existing
+        .filter((row) => !absences.includes(row))
+        .map((row) => `${row.event_session_id}|${row.student_id}`)
+    );
+    pending = pending.filter((scan) => {
+      const key = `${eventSessionIdOf(scan)}|${scan.studentId}`;
+      if (!existingKeys.has(key)) return true;
+      this.markDuplicate(resultByScanId.get(scan.scanId));
+      return false;
+    });
+
+    // Step 4: Bulk insert in chunks
+    const deviceId = this.normalizeDeviceId(input.deviceId);
+    const rows = pending.map((scan) =>
+      this.toAttendanceRow(scan, eventSessionIdOf(scan)!, uploadedByUserId, deviceId)
+    );
+
+    for (const batch of chunk(rows, UPLOAD_CHUNK_SIZE)) {
+      await this.insertBatch(batch, resultByScanId, storedScanIds);
+    }
+
+    try {
+      await this.validationService.recordAudit(
+        event.id,
+        scans,
+        results,
+        clockSkewMs,
+        uploadedByUserId
+      );
+    } catch (auditError) {
+      // Audit failures must not block attendance sync
+      console.error("[ScanUploadService.uploadScans] Audit log error:", auditError);
+    }
+
+    await this.notifyGuardians(
+      event,
+      pending.filter((scan) => storedScanIds.has(scan.scanId)),
+      eventSessionIdOf,
+      receivedAt
+    );
+
+    return this.buildResult(results, storedScanIds, clockSkewMs);
+  }
+
+  /**
+   * Map each scan's `${date}|${configSessionId}` key to its event_sessions row,
+   * creating rows for sessions that have no stored scans yet.
+   */
+  private async resolveEventSessions(
+    eventId: string,
+    scans: ValidatedScan[]
+  ): Promise<Map<string, string>> {
+    const dueByKey = new Map(
+      scans.map((scan) => [sessionKey(scan.date, scan.session.id), scan])
+    );
+    const keyToDbId = new Map<string, string>();
+    if (dueByKey.size === 0) return keyToDbId;
+
+    const existing = await this.scanRepository.findEventSessions(eventId);
+    for (const row of existing) {
+      if (row.session_date && row.config_session_id) {
+        keyToDbId.set(sessionKey(row.session_date, row.config_session_id), row.id);
+      }
+    }
+
+    for (const [key, scan] of dueByKey) {
+      if (keyToDbId.has(key)) continue;
+
+      try {
+        keyToDbId.set(
+          key,
+          await this.scanRepository.createEventSession(eventId, scan.date, scan.session)
+        );
+      } catch (error) {
+        console.error("[ScanUploadService.resolveEventSessions] Failed to create session:", error);
+      }
+    }
+
+    return keyToDbId;
+  }
+
+  /**
+   * Insert one chunk; on failure retry its rows individually.
+   */
+  private async insertBatch(
+    batch: AttendanceLogInsert[],
+    resultByScanId: Map<string, ScanVerdictDto>,
+    storedScanIds: Set<string>
+  ): Promise<void> {
+    try {
+      await this.scanRepository.insertAttendanceLogs(batch);
+      // Rows skipped by ON CONFLICT (client_scan_id) were stored by a concurrent retry
+      for (const row of batch) storedScanIds.add(row.client_scan_id);
+      return;
+    } catch (error) {
+      if (batch.length === 1) {
+        const result = resultByScanId.get(batch[0].client_scan_id);
+        if (getErrorCode(error) === UNIQUE_VIOLATION) {
+          this.markDuplicate(result);
+        } else {
+          console.error("[ScanUploadService.insertBatch] Insert error:", error);
+          this.markFailed(result, "Unable to store scan. It will be retried.");
+        }
+        return;
+      }
+    }
+
+    for (const row of batch) {
+      await this.insertBatch([row], resultByScanId, storedScanIds);
+    }
+  }
+
+  /**
+   * Hand today's newly stored scans to the attendance notifier. Scans synced
+   * on a later day are not announced.
+   */
+  private async notifyGuardians(
+    event: EventDto,
+    scans: ValidatedScan[],
+    eventSessionIdOf: (scan: ValidatedScan) => string | undefined,
+    receivedAt: Date
+  ): Promise<void> {
+    if (!this.attendanceNotifier || scans.length === 0) return;
+
+    const { date: today } = toZonedParts(receivedAt, this.timeZone);
+    const notices: AttendanceNotice[] = scans.flatMap((scan) => {
+      const eventSessionId = eventSessionIdOf(scan);
+      if (scan.date !== today || !eventSessionId) return [];
+
+      return [
+        {
+          kind: scan.session.direction === "out" ? "scan_out" : scan.status === "LATE" ? "late" : "scan_in",
+          studentId: scan.studentId,
+          eventId: event.id,
+          eventTitle: event.title,
+          eventSessionId,
+          sessionName: scan.session.name ?? scan.session.id,
+          date: scan.date,
+          occurredAt: scan.scannedAt,
+        },
+      ];
+    });
+
+    if (notices.length === 0) return;
+
+    try {
+      await this.attendanceNotifier.notifyAttendance(notices);
+    } catch (error) {
+      // Notification failures must not block attendance sync
+      console.error("[ScanUploadService.notifyGuardians] Notifier error:", error);
+    }
+  }
+
+  private toAttendanceRow(
+    scan: ValidatedScan,
+    eventSessionId: string,
+    uploadedByUserId: string,
+    deviceId: string | null
+  ): AttendanceLogInsert {
+    return {
+      event_session_id: eventSessionId,
+      student_id: scan.studentId,
+      scanned_at: scan.scannedAt,
+      status: scan.status === "PRESENT" ? "present" : "late",
+      scanned_by_device_id: deviceId,
+      synced_by_user_id: uploadedByUserId,
+      client_scan_id: scan.scanId,
+    };
+  }
+
+  private normalizeDeviceId(deviceId: string | null | undefined): string | null {
+    if (typeof deviceId !== "string") return null;
+    const trimmed = deviceId.trim();
+    return trimmed ? trimmed.slice(0, MAX_DEVICE_ID_LENGTH) : null;
+  }
+
+  private markDuplicate(result: ScanVerdictDto | undefined): void {
+    if (!result) return;
+    result.verdict = "duplicate";
+    result.flags = [...result.flags, "ALREADY_RECORDED"];
+    result.reason = "Attendance already recorded for this session.";
+  }
+
+  private markConflict(result: ScanVerdictDto | undefined): void {
+    if (!result) return;
+    result.verdict = "rejected";
+    result.status = null;
+    result.flags = [...result.flags, "SCAN_ID_CONFLICT"];
+    result.reason = "This scan ID is already used by a different scan.";
+  }
+
+  private markFailed(result: ScanVerdictDto | undefined, reason: string): void {
+    if (!result) return;
+    result.verdict = "failed";
+    result.reason = reason;
+  }
+
+  private buildResult(
+    results: ScanVerdictDto[],
+    storedScanIds: Set<string>,
+    clockSkewMs: number | null
+  ): ScanUploadResultDto {
+    const count = (verdict: ScanVerdictDto["verdict"]) =>
+      results.filter((result) => result.verdict === verdict).length;
+
+    const uploadedScanIds = results
+      .filter((result) => storedScanIds.has(result.scanId))
+      .map((result) => result.scanId);
+    const rejected = count("rejected");
+
+    return {
+      uploaded: uploadedScanIds.length,
+      corrected: count("corrected"),
+      rejected,
+      skipped: rejected,
+      duplicates: count("duplicate"),
+      errors: count("failed"),
+      clockSkewMs,
+      uploadedScanIds,
+      processedScanIds: results
+        .filter((result) => result.verdict !== "failed")
+        .map((result) => result.scanId),
+      results,
+      message: `Successfully uploaded ${uploadedScanIds.length} scan(s).`,
+    };
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * Scan Validation Service
+ *
+ * Reconciles offline scanner uploads against the event's stored configuration.
+ *
+ * @remarks
+ * Scanner devices compute PRESENT/LATE locally using their own clock. This
+ * service recomputes every scan on the server:
+ * - Detects device clock skew from the upload's deviceTime and adjusts scannedAt
+ * - Resolves the session from session_config using the school's local time
+ * - Recomputes PRESENT/LATE from the session's lateAfter threshold
+ * - Re-checks audience rules and (when required) confirmed registration
+ * - Produces a per-scan verdict and audit entries for anything not accepted as-is
+ */
+
+import type {
+  EventDto,
+  IEventRepository,
+  IScanRepository,
+  ScanAuditEntry,
+  ScanUploadInput,
+  ScanUploadRecord,
+  ScanValidationFlag,
+  ScanVerdictDto,
+  SessionConfig,
+  StudentAudienceContext,
+  ValidatedScan,
+} from "../domain";
+import { isStudentInAudience } from "./audience-rules";
+import { getSchoolTimeZone, toZonedParts } from "./school-time";
+
+/** Device clocks within this distance of the server are trusted as-is. */
+const CLOCK_SKEW_TOLERANCE_MS = 2 * 60 * 1000;
+
+/**
+ * Flags that mean the server changed what the device reported.
+ */
+const CORRECTION_FLAGS: ReadonlySet<ScanValidationFlag> = new Set<ScanValidationFlag>([
+  "CLOCK_SKEW",
+  "SESSION_CORRECTED",
+  "STATUS_CORRECTED",
+]);
+
+/**
+ * Result of validating an upload batch.
+ */
+export interface ScanValidationOutcome {
+  /** One verdict per uploaded scan, in upload order */
+  results: ScanVerdictDto[];
+  /** Scans that should be written to attendance_logs */
+  accepted: ValidatedScan[];
+  /** Detected device clock offset (server - device), or null if unknown */
+  clockSkewMs: number | null;
+}
+
+function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Service for server-side validation of uploaded scans.
+ *
+ * @remarks
+ * Dependency Injection: Receives repositories via constructor.
+ */
+export class ScanValidationService {
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly eventRepository: IEventRepository,
+    private readonly scanRepository: IScanRepository,
+    timeZone?: string
+  ) {
+    this.timeZone = timeZone ?? getSchoolTimeZone();
+  }
+
+  /**
+   * Validate a batch of uploaded scans.
+   *
+   * @param event - The event the scans belong to
+   * @param input - Uploaded scans and the device's clock at upload time
+   * @param receivedAt - Server time when the upload was received
+   * @returns Verdicts for every scan plus the scans to persist
+   */
+  async validateUpload(
+    event: EventDto,
+    input: ScanUploadInput,
+    receivedAt: Date = new Date()
+  ): Promise<ScanValidationOutcome> {
+    const clockSkewMs = this.computeClockSkew(input.deviceTime, receivedAt);
+
+    const contexts = await this.scanRepository.getStudentContexts(
+      input.scans.map((scan) => scan.studentId)
+    );
+    const contextByStudentId = new Map<string, StudentAudienceContext>(
+      contexts.map((context) => [context.studentId, context])
+    );
+
+    let registeredIds: Set<string> | null = null;
+    if (event.registration.registrationRequired) {
+      const registrations = await this.eventRepository.findRegistrationsByEvent(event.id);
+      registeredIds = new Set(
+        registrations.filter((r) => r.status !== "waitlisted").map((r) => r.student_id)
+      );
+    }
+
+    const results: ScanVerdictDto[] = [];
+    const accepted: ValidatedScan[] = [];
+    const acceptedKeys = new Set<string>();
+
+    for (const scan of input.scans) {
+      const result = this.validateScan(scan, {
+        event,
+        clockSkewMs,
+        receivedAt,
+        context: contextByStudentId.get(scan.studentId) ?? null,
+        registeredIds,
+      });
+
+      if (result.validated) {
+        const key = `${result.validated.date}|${result.validated.session.id}|${result.validated.studentId}`;
+        if (acceptedKeys.has(key)) {
+          results.push(
+            this.reject(scan, "duplicate", ["BATCH_DUPLICATE"], "Scan repeated within this upload.", {
+              status: result.validated.status,
+              session: result.validated.session,
+              effectiveScannedAt: result.validated.scannedAt,
+            })
+          );
+          continue;
+        }
+        acceptedKeys.add(key);
+        accepted.push(result.validated);
+      }
+
+      results.push(result.verdict);
+    }
+
+    return { results, accepted, clockSkewMs };
+  }
+
+  /**
+   * Write audit entries for every scan that was not accepted exactly as reported.
+   *
+   * @param eventId - UUID of the event
+   * @param scans - The uploaded scans
+   * @param results - Final verdicts (after persistence)
+   * @param clockSkewMs - Detected clock skew for the upload
+   * @param uploadedByUserId - UUID of the uploading user
+   */
+  async recordAudit(
+    eventId: string,
+    scans: ScanUploadRecord[],
+    results: ScanVerdictDto[],
+    clockSkewMs: number | null,
+    uploadedByUserId: string
+  ): Promise<void> {
+    const scansById = new Map(scans.map((scan) => [scan.id, scan]));
+
+    const entries: ScanAuditEntry[] = results
+      .filter((result) => result.verdict !== "accepted" && result.verdict !== "failed")
+      .map((result) => {
+        const scan = scansById.get(result.scanId);
+        return {
+          event_id: eventId,
+          client_scan_id: result.scanId || null,
+          student_id: scan?.studentId || null,
+          qr_hash: scan?.qrHash ?? null,
+          config_session_id: result.sessionId ?? scan?.sessionId ?? null,
+          client_status: scan?.status ?? null,
+          server_status: result.status,
+          verdict: result.verdict,
+          flags: result.flags,
+          reason: result.reason,
+          scanned_at: scan?.scannedAt ?? null,
+          effective_scanned_at: result.effectiveScannedAt,
+          clock_skew_ms: clockSkewMs,
+          uploaded_by_user_id: uploadedByUserId,
+        };
+      });
+
+    await this.scanRepository.insertAuditEntries(entries);
+  }
+
+  private computeClockSkew(deviceTime: string | null | undefined, receivedAt: Date): number | null {
+    if (!deviceTime) {
+      return null;
+    }
+
+    const deviceMs = new Date(deviceTime).getTime();
+    if (Number.isNaN(deviceMs)) {
+      return null;
+    }
+
+    return receivedAt.getTime() - deviceMs;
+  }
+
+  private validateScan(
+    scan: ScanUploadRecord,
+    ctx: {
+      event: EventDto;
+      clockSkewMs: number | null;
+      receivedAt: Date;
+      context: StudentAudienceContext | null;
+      registeredIds: Set<string> | null;
+    }
+  ): { verdict: ScanVerdictDto; validated: ValidatedScan | null } {
+    const flags: ScanValidationFlag[] = [];
+
+    const reportedMs = scan.scannedAt ? new Date(scan.scannedAt).getTime() : Number.NaN;
+    if (!scan.id || !scan.studentId || Number.isNaN(reportedMs)) {
+      return {
+        verdict: this.reject(scan, "rejected", ["INVALID_RECORD"], "Scan record is incomplete."),
+        validated: null,
+      };
+    }
+
+    if (scan.status === "DENIED") {
+      return {
+        verdict: this.reject(scan, "rejected", ["CLIENT_DENIED"], scan.reason ?? "Denied on device."),
+        validated: null,
+      };
+    }
+
+    if (scan.status === "DUPLICATE") {
+      return {
+        verdict: this.reject(
+          scan,
+          "duplicate",
+          ["CLIENT_DUPLICATE"],
+          scan.reason ?? "Duplicate scan on device."
+        ),
+        validated: null,
+      };
+    }
+
+    // Clock skew: shift the reported time by the device's offset
+    let effectiveMs = reportedMs;
+    if (ctx.clockSkewMs !== null && Math.abs(ctx.clockSkewMs) > CLOCK_SKEW_TOLERANCE_MS) {
+      effectiveMs = reportedMs + ctx.clockSkewMs;
+      flags.push("CLOCK_SKEW");
+    }
+    const effectiveScannedAt = new Date(effectiveMs).toISOString();
+
+    if (effectiveMs > ctx.receivedAt.getTime() + CLOCK_SKEW_TOLERANCE_MS) {
+      return {
+        verdict: this.reject(
+          scan,
+          "rejected",
+          [...flags, "FUTURE_TIMESTAMP"],
+          "Scan time is in the future. Check the device clock.",
+          { effectiveScannedAt }
+        ),
+        validated: null,
+      };
+    }
+
+    if (!ctx.context) {
+      return {
+        verdict: this.reject(
+          scan,
+          "rejected",
+          [...flags, "UNKNOWN_STUDENT"],
+          "Student not found or inactive.",
+          { effectiveScannedAt }
+        ),
+        validated: null,
+      };
+    }
+
+    if (!isStudentInAudience(ctx.event.audienceConfig, ctx.context)) {
+      return {
+        verdict: this.reject(
+          scan,
+          "rejected",
+          [...flags, "NOT_IN_AUDIENCE"],
+          "Student is not part of this event's audience.",
+          { effectiveScannedAt }
+        ),
+        validated: null,
+      };
+    }
+
+    if (ctx.registeredIds && !ctx.registeredIds.has(scan.studentId)) {
+      return {
+        verdict: this.reject(
+          scan,
+          "rejected",
+          [...flags, "NOT_REGISTERED"],
+          "Student is not registered for this event.",
+          { effectiveScannedAt }
+        ),
+        validated: null,
+      };
+    }
+
+    const { date, minutes } = toZonedParts(new Date(effectiveMs), this.timeZone);
+    const session = this.findSessionAt(ctx.event, date, minutes);
+
+    if (!session) {
+      return {
+        verdict: this.reject(
+          scan,
+          "rejected",
+          [...flags, "OUT_OF_WINDOW"],
+          "Scan time is outside every scheduled session.",
+          { effectiveScannedAt }
+        ),
+        validated: null,
+      };
+    }
+
+    if (scan.sessionId && scan.sessionId !== session.id) {
+      flags.push("SESSION_CORRECTED");
+    }
+
+    const isLate =
+      session.direction !== "out" &&
+      !!session.lateAfter &&
+      minutes > parseTimeToMinutes(session.lateAfter);
+    const status: "PRESENT" | "LATE" = isLate ? "LATE" : "PRESENT";
+
+    if (status !== scan.status) {
+      flags.push("STATUS_CORRECTED");
+    }
+
+    const isCorrected = flags.some((flag) => CORRECTION_FLAGS.has(flag));
+
+    return {
+      verdict: {
+        scanId: scan.id,
+        verdict: isCorrected ? "corrected" : "accepted",
+        status,
+        sessionId: session.id,
+        sessionName: session.name,
+        effectiveScannedAt,
+        flags,
+        reason: isCorrected ? this.describeCorrections(flags, status, session) : null,
+      },
+      validated: {
+        scanId: scan.id,
+        studentId: scan.studentId,
+        scannedAt: effectiveScannedAt,
+        status,
+        session,
+        date,
+      },
+    };
+  }
+
+  private findSessionAt(event: EventDto, date: string, minutes: number): SessionConfig | null {
+    const dateConfig = event.sessionConfig?.dates?.find((d) => d.date === date);
+    if (!dateConfig) {
+      return null;
+    }
+
+    return (
+      dateConfig.sessions.find(
+        (session) =>
+          minutes >= parseTimeToMinutes(session.opens) &&
+          minutes <= parseTimeToMinutes(session.closes)
+      ) ?? null
+    );
+  }
+
+  private describeCorrections(
+    flags: ScanValidationFlag[],
+    status: "PRESENT" | "LATE",
+    session: SessionConfig
+  ): string {
+    const notes: string[] = [];
+    if (flags.includes("CLOCK_SKEW")) notes.push("device clock adjusted");
+    if (flags.includes("SESSION_CORRECTED")) notes.push(`counted for ${session.name}`);
+    if (flags.includes("STATUS_CORRECTED")) notes.push(`marked ${status.toLowerCase()}`);
+    return `Reconciled: ${notes.join(", ")}.`;
+  }
+
+  private reject(
+    scan: ScanUploadRecord,
+    verdict: "rejected" | "duplicate",
+    flags: ScanValidationFlag[],
+    reason: string,
+    extra?: {
+      status?: "PRESENT" | "LATE";
+      session?: SessionConfig;
+      effectiveScannedAt?: string;
+    }
+  ): ScanVerdictDto {
+    return {
+      scanId: scan.id,
+      verdict,
+      status: extra?.status ?? null,
+      sessionId: extra?.session?.id ?? scan.sessionId ?? null,
+      sessionName: extra?.session?.name ?? scan.sessionName ?? null,
+      effectiveScannedAt: extra?.effectiveScannedAt ?? null,
+      flags,
+      reason,
+    };
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Scanner Resource Service
+ *
+ * Builds the offline resources a scanner downloads for an event (allowed
+ * students plus session config) and serves them as full downloads or deltas.
+ *
+ * @remarks
+ * Every request computes the current resource set and compares its content
+ * hash with the newest stored version; a new version is stored only when
+ * something changed. Each version keeps a fingerprint per student, so a
+ * request with `since` returns only students whose fingerprint was added,
+ * removed or changed. Unknown or pruned versions fall back to a full download.
+ * The QR verification policy (public keys, validity) is always sent in full.
+ */
+
+import { createHash } from "node:crypto";
+import type {
+  EventDto,
+  EventSessionConfig,
+  IEventRepository,
+  IScannerResourceRepository,
+  ScannerResourceEventDto,
+  ScannerResourcesDto,
+  ScannerResourceVersionRow,
+  ScannerStudentResource,
+} from "../domain";
+import { filterStudentsByAudienceConfig } from "./audience-rules";
+import type { QrCredentialService } from "./qr-credential.service";
+
+/** Versions kept per event; older `since` values get a full download. */
+const VERSIONS_TO_KEEP = 10;
+
+/** Attempts to store a version when another request stores one concurrently. */
+const MAX_VERSION_ATTEMPTS = 3;
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * Fingerprint of everything a scanner stores for a student.
+ */
+function fingerprintStudent(student: ScannerStudentResource): string {
+  return hash(
+    [
+      student.qrHash,
+      student.qrIssuedAt,
+      student.qrRevokedAt ?? "",
+      student.sectionId ?? "",
+      student.sectionName ?? "",
+      student.levelId ?? "",
+      student.levelName ?? "",
+      student.fullName,
+      student.lrn,
+    ].join("\u001f")
+  );
+}
+
+function hashSessionConfig(sessionConfig: EventSessionConfig | null | undefined): string {
+  return hash(JSON.stringify(sessionConfig ?? null));
+}
+
+/**
+ * Service for scanner resource downloads.
+ *
+ * @remarks
+ * Dependency Injection: Receives the event and scanner resource repositories
+ * and the QR credential service via constructor.
+ */
+export class ScannerResourceService {
+  constructor(
+    private readonly eventRepository: IEventRepository,
+    private readonly resourceRepository: IScannerResourceRepository,
+    private readonly qrCredentialService: QrCredentialService
+  ) {}
+
+  /**
+   * Get scanner resources for an event, as a delta when possible.
+   *
+   * @param event - The event (must be published; caller checks scanner assignment)
+   * @param since - Version the device already has, if any
+   * @returns Full resources, or only what changed since `since`
+   */
+  async getResources(event: EventDto, since: number | null = null): Promise<ScannerResourcesDto> {
+    const students = await this.buildStudentResources(event);
+    const fingerprints: Record<string, string> = {};
+    for (const student of students) {
+      fingerprints[student.id] = fingerprintStudent(student);
+    }
+    const sessionConfigHash = hashSessionConfig(event.sessionConfig);
+
+    const current = await this.resolveVersion(event.id, fingerprints, sessionConfigHash);
+    const manifest = {
+      version: current.version,
+      studentCount: students.length,
+      sessionConfigHash,
+      generatedAt: new Date().toISOString(),
+    };
+    const eventDto = this.mapEvent(event);
+    const qrPolicy = await this.qrCredentialService.getPolicy();
+
+    let previous: ScannerResourceVersionRow | null = null;
+    if (since !== null) {
+      previous =
+        since === current.version
+          ? current
+          : await this.resourceRepository.findVersion(event.id, since);
+    }
+
+    if (!previous) {
+      return {
+        mode: "full",
+        manifest,
+        since: null,
+        event: eventDto,
+        students,
+        removedStudentIds: [],
+        sessionConfigChanged: true,
+        qrPolicy,
+      };
+    }
+
+    const previousFingerprints = previous.student_fingerprints ?? {};
+    const changedStudents = students.filter(
+      (student) => previousFingerprints[student.id] !== fingerprints[student.id]
+    );
+    const removedStudentIds = Object.keys(previousFingerprints).filter(
+      (studentId) => !(studentId in fingerprints)
+    );
+
+    return {
+      mode: "delta",
+      manifest,
+      since: previous.version,
+      event: eventDto,
+      students: changedStudents,
+      removedStudentIds,
+      sessionConfigChanged: previous.session_config_hash !== sessionConfigHash,
+      qrPolicy,
+    };
+  }
+
+  /**
+   * Return the newest stored version if it matches the current content,
+   * otherwise store a new one.
+   */
+  private async resolveVersion(
+    eventId: string,
+    fingerprints: Record<string, string>,
+    sessionConfigHash: string
+  ): Promise<ScannerResourceVersionRow> {
+    const contentHash = hash(
+      Object.keys(fingerprints)
+        .sort()
+        .map((studentId) => `${studentId}:${fingerprints[studentId]}`)
+        .join(",") + `|${sessionConfigHash}`
+    );
+
+    for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS; attempt++) {
+      const latest = await this.resourceRepository.findLatestVersion(eventId);
+      if (latest && latest.content_hash === contentHash) {
+        return latest;
+      }
+
+      const row = {
+        event_id: eventId,
+        version: (latest?.version ?? 0) + 1,
+        content_hash: contentHash,
+        student_fingerprints: fingerprints,
+        session_config_hash: sessionConfigHash,
+      };
+
+      if (await this.resourceRepository.createVersion(row)) {
+        try {
+          await this.resourceRepository.pruneVersions(eventId, VERSIONS_TO_KEEP);
+        } catch (pruneError) {
+          // Old versions only cost storage; never fail the download over it
+          console.error("[ScannerResourceService.resolveVersion] Prune error:", pruneError);
+        }
+        return { ...row, created_at: new Date().toISOString() };
+      }
+      // Another scanner stored the same version number first; re-check
+    }
+
+    throw new Error("Unable to store scanner resource version.");
+  }
+
+  /**
+   * Resolve the event's allowed students with section and level names.
+   */
+  private async buildStudentResources(event: EventDto): Promise<ScannerStudentResource[]> {
+    const students = await this.resourceRepository.findActiveStudents(event.schoolId);
+
+    const sectionIds = Array.from(
+      new Set(students.map((s) => s.section_id).filter((id): id is string => !!id))
+    );
+    const sections = await this.resourceRepository.findSections(sectionIds);
+    const sectionMap = new Map(sections.map((s) => [s.id, s]));
+
+    const levelIds = Array.from(
+      new Set(sections.map((s) => s.level_id).filter((id): id is string => !!id))
+    );
+    const levels = await this.resourceRepository.findLevels(levelIds);
+    const levelMap = new Map(levels.map((l) => [l.id, l]));
+
+    // Build section -> level mapping for audience filtering
+    const sectionToLevelMap = new Map<string, string>();
+    for (const section of sections) {
+      if (section.level_id) {
+        sectionToLevelMap.set(section.id, section.level_id);
+      }
+    }
+
+    let filteredStudents = filterStudentsByAudienceConfig(
+      students,
+      sectionToLevelMap,
+      event.audienceConfig
+    );
+
+    // Registration-required events only admit confirmed (non-waitlisted) students
+    if (event.registration.registrationRequired) {
+      const registrations = await this.eventRepository.findRegistrationsByEvent(event.id);
+      const registeredIds = new Set(
+        registrations.filter((r) => r.status !== "waitlisted").map((r) => r.student_id)
+      );
+      filteredStudents = filteredStudents.filter((s) => registeredIds.has(s.id));
+    }
+
+    return filteredStudents.map((student) => {
+      const section = student.section_id ? sectionMap.get(student.section_id) ?? null : null;
+      const level = section?.level_id ? levelMap.get(section.level_id) ?? null : null;
+
+      return {
+        id: student.id,
+        fullName: `${student.first_name} ${student.last_name}`.trim(),
+        lrn: student.student_school_id,
+        levelId: section?.level_id ?? null,
+        levelName: level?.name ?? null,
+        sectionId: section?.id ?? null,
+        sectionName: section?.name ?? null,
+        qrHash: student.qr_hash,
+        qrIssuedAt: student.qr_issued_at,
+        qrRevokedAt: student.qr_revoked_at,
+      };
+    });
+  }
+
+  private mapEvent(event: EventDto): ScannerResourceEventDto {
+    return {
+      id: event.id,
+      title: event.title,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      facilityName: event.facility?.name ?? null,
+      audienceConfig: event.audienceConfig,
+      sessionConfig: event.sessionConfig,
+      registrationRequired: event.registration.registrationRequired,
+    };
+  }
+}
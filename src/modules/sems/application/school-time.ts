@@ -0,0 +1,42 @@
+/**
+ * School Time Helpers
+ *
+ * Session times in session_config are wall-clock times in the school's time
+ * zone. These helpers convert server instants into that zone.
+ */
+
+/** Used when SCHOOL_TIME_ZONE is not configured. */
+const DEFAULT_SCHOOL_TIME_ZONE = "Asia/Manila";
+
+/**
+ * The school's IANA time zone (SCHOOL_TIME_ZONE, default Asia/Manila).
+ */
+export function getSchoolTimeZone(): string {
+  return process.env.SCHOOL_TIME_ZONE ?? DEFAULT_SCHOOL_TIME_ZONE;
+}
+
+/**
+ * Convert an instant to local date/time parts in the given time zone.
+ *
+ * @returns The local date (YYYY-MM-DD) and minutes since local midnight
+ */
+export function toZonedParts(instant: Date, timeZone: string): { date: string; minutes: number } {
+  const formatter = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(instant).map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * Student Attendance Service
+ *
+ * One student's attendance across every event that targeted them over a
+ * period, with per-session status and attendance / lateness rates.
+ *
+ * @remarks
+ * - An event counts when the student is in its audience (and, for
+ *   registration-required events, holds a confirmed registration), or when
+ *   the student has any attendance record in it
+ * - Only recorded session occurrences are listed; a session that has closed
+ *   without a record for the student is reported as `no_scan`
+ * - Staff (admins, teachers, staff) may view any student; students and
+ *   parents only students linked to them through student_guardians
+ */
+
+import type {
+  IStudentAttendanceRepository,
+  LateReportStudentRow,
+  SessionPeriod,
+  StudentAttendanceEventDto,
+  StudentAttendanceHistoryDto,
+  StudentAttendanceHistoryFilters,
+  StudentAttendanceSessionDto,
+  StudentAttendanceSummaryDto,
+  StudentHistoryAttendanceRow,
+  StudentHistoryEventRow,
+  StudentHistorySessionRow,
+  StudentHistoryStudentDto,
+  StudentSessionAttendanceStatus,
+  ValidationErrorDetail,
+  WorkflowActorContext,
+} from "../domain";
+import { filterStudentsByAudienceConfig } from "./audience-rules";
+import { BusinessRuleError, NotFoundError, ValidationError } from "./event.service";
+import { getSchoolTimeZone, toZonedParts } from "./school-time";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Period shown when no range is given. */
+const DEFAULT_RANGE_DAYS = 90;
+
+/** Longest period a single history request may cover. */
+const MAX_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RECORDED_STATUSES = new Set<StudentSessionAttendanceStatus>([
+  "present",
+  "late",
+  "excused",
+  "absent",
+]);
+
+const PERIOD_ORDER: Record<SessionPeriod, number> = { morning: 0, afternoon: 1, evening: 2 };
+
+function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function parseSessionType(sessionType: string): { period: SessionPeriod; direction: "in" | "out" } {
+  const [rawPeriod, rawDirection] = sessionType.split("_");
+  return {
+    period: rawPeriod === "afternoon" || rawPeriod === "evening" ? rawPeriod : "morning",
+    direction: rawDirection === "out" ? "out" : "in",
+  };
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function percentage(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 100) : null;
+}
+
+/**
+ * Service for student attendance history.
+ *
+ * @remarks
+ * Dependency Injection: Receives the student attendance repository via constructor.
+ */
+export class StudentAttendanceService {
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly attendanceRepository: IStudentAttendanceRepository,
+    timeZone?: string
+  ) {
+    this.timeZone = timeZone ?? getSchoolTimeZone();
+  }
+
+  /**
+   * Students the actor is linked to (for student and parent views).
+   */
+  async listLinkedStudents(actor: WorkflowActorContext): Promise<StudentHistoryStudentDto[]> {
+    const studentIds = await this.attendanceRepository.findLinkedStudentIds(actor.userId);
+    const students = await this.attendanceRepository.findStudents(studentIds);
+    const described = await this.describeStudents(students);
+
+    return students
+      .map((student) => described.get(student.id)!)
+      .sort((a, b) => a.fullName.localeCompare(b.fullName));
+  }
+
+  /**
+   * Build a student's attendance history.
+   *
+   * @throws ValidationError if the period is malformed or too long
+   * @throws NotFoundError if the student does not exist
+   * @throws BusinessRuleError if the actor may not view the student
+   */
+  async getHistory(
+    studentId: string,
+    filters: StudentAttendanceHistoryFilters,
+    actor: WorkflowActorContext,
+    now: Date = new Date()
+  ): Promise<StudentAttendanceHistoryDto> {
+    const { date: today, minutes: nowMinutes } = toZonedParts(now, this.timeZone);
+    const { from, to } = this.resolvePeriod(filters, today);
+
+    const [student] = await this.attendanceRepository.findStudents([studentId]);
+    if (!student) {
+      throw new NotFoundError("Student not found", "student", studentId);
+    }
+
+    await this.assertCanView(studentId, actor);
+
+    const described = await this.describeStudents([student]);
+    const history: StudentAttendanceHistoryDto = {
+      student: described.get(student.id)!,
+      from,
+      to,
+      summary: this.summarize([]),
+      events: [],
+    };
+
+    // Step 1: Events in the period and the student's records in them
+    const events = await this.attendanceRepository.findEventsInRange(from, to);
+    if (events.length === 0) return history;
+
+    const sessions = await this.attendanceRepository.findSessionsByEvents(events.map((e) => e.id));
+    const attendance = sessions.length
+      ? await this.attendanceRepository.findStudentAttendance(
+          studentId,
+          sessions.map((session) => session.id)
+        )
+      : [];
+
+    // Step 2: Events that targeted the student, plus any they attended anyway
+    const targetedIds = await this.resolveTargetedEventIds(student, events);
+    const sessionById = new Map(sessions.map((session) => [session.id, session]));
+    for (const row of attendance) {
+      const session = sessionById.get(row.event_session_id);
+      if (session) targetedIds.add(session.event_id);
+    }
+
+    // Step 3: Per-session status
+    const logBySession = new Map<string, StudentHistoryAttendanceRow>();
+    for (const row of attendance) {
+      if (!logBySession.has(row.event_session_id)) {
+        logBySession.set(row.event_session_id, row);
+      }
+    }
+
+    const endDateByEvent = new Map(events.map((event) => [event.id, event.end_date]));
+    const sessionsByEvent = new Map<string, StudentAttendanceSessionDto[]>();
+    for (const session of sessions) {
+      if (!targetedIds.has(session.event_id)) continue;
+
+      const dto = this.toSessionDto(session, logBySession.get(session.id) ?? null, {
+        today,
+        nowMinutes,
+        eventEnded: (endDateByEvent.get(session.event_id) ?? today) < today,
+      });
+      if (dto.date && (dto.date < from || dto.date > to)) continue;
+
+      const list = sessionsByEvent.get(session.event_id) ?? [];
+      list.push(dto);
+      sessionsByEvent.set(session.event_id, list);
+    }
+
+    history.events = events
+      .filter((event) => targetedIds.has(event.id))
+      .map((event): StudentAttendanceEventDto => {
+        const eventSessions = (sessionsByEvent.get(event.id) ?? []).sort(
+          (a, b) =>
+            (a.date ?? "").localeCompare(b.date ?? "") ||
+            PERIOD_ORDER[a.period] - PERIOD_ORDER[b.period] ||
+            a.direction.localeCompare(b.direction)
+        );
+        return {
+          eventId: event.id,
+          title: event.title,
+          startDate: event.start_date,
+          endDate: event.end_date,
+          sessions: eventSessions,
+          summary: this.summarize(eventSessions),
+        };
+      });
+
+    history.summary = this.summarize(history.events.flatMap((event) => event.sessions));
+
+    return history;
+  }
+
+  private resolvePeriod(
+    filters: StudentAttendanceHistoryFilters,
+    today: string
+  ): { from: string; to: string } {
+    const errors: ValidationErrorDetail[] = [];
+
+    for (const field of ["from", "to"] as const) {
+      const value = filters[field];
+      if (value && (!DATE_REGEX.test(value) || Number.isNaN(Date.parse(value)))) {
+        errors.push({ field, message: "Dates must be in YYYY-MM-DD format" });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid attendance period", errors);
+    }
+
+    const to = filters.to ?? (filters.from ? shiftDate(filters.from, DEFAULT_RANGE_DAYS - 1) : today);
+    const from = filters.from ?? shiftDate(to, -(DEFAULT_RANGE_DAYS - 1));
+
+    const days = (Date.parse(to) - Date.parse(from)) / DAY_MS;
+    if (days < 0) {
+      errors.push({ field: "to", message: "End date must be on or after the start date" });
+    } else if (days >= MAX_RANGE_DAYS) {
+      errors.push({ field: "to", message: `Period must be ${MAX_RANGE_DAYS} days or fewer` });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid attendance period", errors);
+    }
+
+    return { from, to };
+  }
+
+  private async assertCanView(studentId: string, actor: WorkflowActorContext): Promise<void> {
+    if (actor.permissions.includes("students.view")) {
+      return;
+    }
+
+    if (actor.roles.includes("STUDENT") || actor.roles.includes("PARENT")) {
+      const linkedIds = await this.attendanceRepository.findLinkedStudentIds(actor.userId);
+      if (linkedIds.includes(studentId)) {
+        return;
+      }
+    }
+
+    throw new BusinessRuleError("You do not have permission to view this student's attendance.");
+  }
+
+  /**
+   * Events whose audience (and registration, when required) covers the student.
+   */
+  private async resolveTargetedEventIds(
+    student: LateReportStudentRow,
+    events: StudentHistoryEventRow[]
+  ): Promise<Set<string>> {
+    const sectionToLevelMap = new Map<string, string>();
+    if (student.section_id) {
+      const [section] = await this.attendanceRepository.findSections([student.section_id]);
+      if (section?.level_id) {
+        sectionToLevelMap.set(section.id, section.level_id);
+      }
+    }
+
+    const inAudience = events.filter(
+      (event) =>
+        filterStudentsByAudienceConfig([student], sectionToLevelMap, event.target_audience).length > 0
+    );
+
+    const registrationEventIds = inAudience
+      .filter((event) => event.registration_required)
+      .map((event) => event.id);
+    const registered = registrationEventIds.length
+      ? await this.attendanceRepository.findConfirmedRegistrationEventIds(
+          student.id,
+          registrationEventIds
+        )
+      : new Set<string>();
+
+    return new Set(
+      inAudience
+        .filter((event) => !event.registration_required || registered.has(event.id))
+        .map((event) => event.id)
+    );
+  }
+
+  private toSessionDto(
+    session: StudentHistorySessionRow,
+    log: StudentHistoryAttendanceRow | null,
+    clock: { today: string; nowMinutes: number; eventEnded: boolean }
+  ): StudentAttendanceSessionDto {
+    const { period, direction } = parseSessionType(session.session_type);
+    // Sessions created before sessions were keyed by date take the scan's date
+    const date =
+      session.session_date ??
+      (log ? toZonedParts(new Date(log.scanned_at), this.timeZone).date : null);
+
+    let status: StudentSessionAttendanceStatus;
+    if (log) {
+      status = RECORDED_STATUSES.has(log.status as StudentSessionAttendanceStatus)
+        ? (log.status as StudentSessionAttendanceStatus)
+        : "present";
+    } else {
+      const isClosed = date
+        ? date < clock.today ||
+          (date === clock.today &&
+            !!session.end_time &&
+            clock.nowMinutes >= parseTimeToMinutes(session.end_time))
+        : clock.eventEnded;
+      status = isClosed ? "no_scan" : "pending";
+    }
+
+    return {
+      eventSessionId: session.id,
+      name: session.name,
+      date,
+      period,
+      direction,
+      status,
+      scannedAt: log && log.status !== "absent" ? log.scanned_at : null,
+    };
+  }
+
+  private summarize(sessions: StudentAttendanceSessionDto[]): StudentAttendanceSummaryDto {
+    const count = (status: StudentSessionAttendanceStatus) =>
+      sessions.filter((session) => session.status === status).length;
+
+    const present = count("present");
+    const late = count("late");
+    const absent = count("absent");
+    const noScan = count("no_scan");
+
+    return {
+      present,
+      late,
+      excused: count("excused"),
+      absent,
+      noScan,
+      pending: count("pending"),
+      attendanceRate: percentage(present + late, present + late + absent + noScan),
+      latenessRate: percentage(late, present + late),
+    };
+  }
+
+  /**
+   * Name, LRN and placement for each student.
+   */
+  private async describeStudents(
+    students: LateReportStudentRow[]
+  ): Promise<Map<string, StudentHistoryStudentDto>> {
+    const sections = await this.attendanceRepository.findSections(
+      students.map((student) => student.section_id).filter((id): id is string => !!id)
+    );
+    const sectionById = new Map(sections.map((section) => [section.id, section]));
+    const levelNames = await this.attendanceRepository.getLevelNames(
+      sections.map((section) => section.level_id).filter((id): id is string => !!id)
+    );
+
+    const result = new Map<string, StudentHistoryStudentDto>();
+    for (const student of students) {
+      const section = student.section_id ? sectionById.get(student.section_id) ?? null : null;
+      result.set(student.id, {
+        studentId: student.id,
+        fullName: [student.first_name, student.last_name].filter(Boolean).join(" ") || student.id,
+        lrn: student.student_school_id,
+        level: section?.level_id ? levelNames.get(section.level_id) ?? null : null,
+        section: section?.name ?? null,
+      });
+    }
+
+    return result;
+  }
+}
@@ -14,6 +14,7 @@
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SchoolScope } from "@/core/db/school-scope";
 import type {
   VenueAvailabilityRequest,
   VenueAvailabilityResult,
@@ -50,8 +51,8 @@ interface ExistingEventInfo {
 export class VenueService {
   private readonly eventRepository: EventRepository;
 
-  constructor(supabase: SupabaseClient) {
-    this.eventRepository = new EventRepository(supabase);
+  constructor(supabase: SupabaseClient, schoolId: SchoolScope) {
+    this.eventRepository = new EventRepository(supabase, schoolId);
   }
 
   /**
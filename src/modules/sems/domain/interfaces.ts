@@ -12,6 +12,9 @@
 
 import type {
   CreateEventDto,
+  CreateEventOptions,
+  EventDraftPlacementDto,
+  EventNonSchoolDay,
   EventDto,
   EventRow,
   EventWithFacilityRow,
@@ -21,9 +24,49 @@ import type {
   EventSessionConfig,
   StudentAudienceContext,
   EventListResponseDto,
+  EventRegistrationRow,
+  EventRegistrationInput,
+  EventRegistrationDto,
+  EventRegistrationListDto,
+  EventRegistrationStatus,
+  EventRegistrationOverrideInput,
+  ScanAuditEntry,
+  SessionConfig,
+  AttendanceLogInsert,
+  AttendanceLogKeyRow,
+  AttendancePeerRow,
+  EventSessionRow,
+  ScannerStudentRow,
+  ScannerResourceVersionRow,
+  QrSigningKeyRow,
+  StudentQrCredentialRow,
+  AttendanceRecordRow,
+  AttendanceCorrectionRow,
+  AbsenteeSessionRow,
+  AbsenceInsert,
+  LateReportAttendanceRow,
+  LateReportEventRow,
+  LateReportSectionRow,
+  LateReportSessionRow,
+  LateReportStudentRow,
+  StudentHistoryAttendanceRow,
+  StudentHistoryEventRow,
+  StudentHistorySessionRow,
+  AttendanceNotice,
+  EventWorkflowNotice,
+  EventAuditLogRow,
+  EventAuditLogInsert,
+  EventAuditEntryDto,
+  EventSeriesRow,
+  EventSeriesInsert,
+  EventSeriesOccurrenceRow,
+  EventTemplateInsert,
+  EventTemplateRow,
   EventVisibility,
   EventLifecycleStatus,
   ListEventsOptions,
+  VenueAvailabilityRequest,
+  VenueAvailabilityResponseDto,
 } from "./types";
 
 // ============================================================================
@@ -127,6 +170,79 @@ export interface IEventRepository {
 
   getStudentContextsForUser(appUserId: string): Promise<StudentAudienceContext[]>;
 
+  /**
+   * Resolve the audience context (section + level) for a single active student.
+   *
+   * @param studentId - UUID of the student
+   * @returns The student's context or null if the student is missing or inactive
+   */
+  getStudentContextById(studentId: string): Promise<StudentAudienceContext | null>;
+
+  /**
+   * Get display names for students by their IDs.
+   *
+   * @param studentIds - Array of student UUIDs
+   * @returns Map of student ID to "First Last" name
+   */
+  getStudentNames(studentIds: string[]): Promise<Map<string, string>>;
+
+  /**
+   * List all registrations for an event, oldest first.
+   */
+  findRegistrationsByEvent(eventId: string): Promise<EventRegistrationRow[]>;
+
+  /**
+   * Find a single registration for a student, or null if not registered.
+   */
+  findRegistration(eventId: string, studentId: string): Promise<EventRegistrationRow | null>;
+
+  /**
+   * Count registrations for an event, optionally filtered by status.
+   */
+  countRegistrations(eventId: string, status?: EventRegistrationStatus): Promise<number>;
+
+  /**
+   * Register a student: confirmed while the event has seats left, otherwise
+   * at the end of the waitlist. Decided with the event locked, so concurrent
+   * registrations can't overfill it.
+   *
+   * @param eventId - UUID of the event
+   * @param studentId - UUID of the student being registered
+   * @param registeredBy - UUID of the app user performing the registration
+   * @returns The created registration row
+   */
+  createRegistration(eventId: string, studentId: string, registeredBy: string): Promise<EventRegistrationRow>;
+
+  /**
+   * Promote a waitlisted registration into a free seat, or demote a
+   * confirmed one to the head of the waitlist.
+   *
+   * @param registrationId - UUID of the registration row
+   * @param status - Where the registration moves to
+   * @param updatedBy - UUID of the acting app user
+   * @returns The updated row, or null if no seat is free or the registration
+   *   is not in the other state
+   */
+  moveRegistration(
+    registrationId: string,
+    status: EventRegistrationStatus,
+    updatedBy: string
+  ): Promise<EventRegistrationRow | null>;
+
+  /**
+   * Fill free seats from the head of the waitlist.
+   *
+   * @returns The promoted registration rows
+   */
+  promoteWaitlist(eventId: string): Promise<EventRegistrationRow[]>;
+
+  /**
+   * Delete a student's registration.
+   *
+   * @returns True if a row was removed
+   */
+  deleteRegistration(eventId: string, studentId: string): Promise<boolean>;
+
   /**
    * Delete multiple events by their IDs.
    *
@@ -134,12 +250,483 @@ export interface IEventRepository {
    * @returns Number of rows deleted
    */
   deleteManyByIds(ids: string[]): Promise<number>;
+
+  /**
+   * Append an entry to the event's audit log.
+   */
+  insertAuditEntry(row: EventAuditLogInsert): Promise<void>;
+
+  /**
+   * List an event's audit log, newest first.
+   */
+  findAuditLog(eventId: string, limit: number): Promise<EventAuditLogRow[]>;
+
+  /**
+   * Resolve display names for app users.
+   */
+  getUserNames(userIds: string[]): Promise<Map<string, string>>;
+}
+
+/**
+ * Repository interface for scan upload data access.
+ *
+ * @remarks
+ * Covers attendance-side tables (students lookup for validation, scan audit log).
+ */
+export interface IScanRepository {
+  /**
+   * Resolve audience contexts for a batch of active students.
+   *
+   * @param studentIds - Student UUIDs referenced by uploaded scans
+   * @returns Contexts for students that exist and are active
+   */
+  getStudentContexts(studentIds: string[]): Promise<StudentAudienceContext[]>;
+
+  /**
+   * Append entries to the scan audit log.
+   */
+  insertAuditEntries(entries: ScanAuditEntry[]): Promise<void>;
+
+  /**
+   * Create the event_sessions row for a session config entry on a date.
+   *
+   * @returns The event_sessions.id (the existing row if another request created it first)
+   */
+  createEventSession(eventId: string, date: string, session: SessionConfig): Promise<string>;
+
+  /**
+   * Find attendance rows previously stored for the given client scan IDs.
+   */
+  findAttendanceByClientScanIds(clientScanIds: string[]): Promise<AttendanceLogKeyRow[]>;
+
+  /**
+   * Delete system-generated absences so real scans can take their place.
+   */
+  deleteSystemAbsences(ids: string[]): Promise<void>;
+
+  /**
+   * Find attendance rows for the given sessions and students.
+   */
+  findAttendanceForSessions(
+    eventSessionIds: string[],
+    studentIds: string[]
+  ): Promise<AttendanceLogKeyRow[]>;
+
+  /**
+   * Insert attendance rows, ignoring rows whose client_scan_id already exists.
+   *
+   * @returns Client scan IDs that were stored by this call
+   * @throws Error with a `code` property (Postgres error code) on failure
+   */
+  insertAttendanceLogs(rows: AttendanceLogInsert[]): Promise<string[]>;
+
+  /**
+   * Find all event_sessions of an event.
+   */
+  findEventSessions(eventId: string): Promise<EventSessionRow[]>;
+
+  /**
+   * Find attendance rows for the given sessions stored after `since`.
+   *
+   * @param since - ISO timestamp compared against created_at (null for all rows)
+   */
+  findAttendanceCreatedSince(
+    eventSessionIds: string[],
+    since: string | null
+  ): Promise<AttendancePeerRow[]>;
+
+  /**
+   * Resolve display names for app users.
+   *
+   * @returns Map of user ID to full name
+   */
+  getUserNames(userIds: string[]): Promise<Map<string, string>>;
+}
+
+/**
+ * Repository interface for scanner resource data access.
+ *
+ * @remarks
+ * Loads the student directory used to build scanner downloads and stores the
+ * versioned snapshots used for delta refreshes.
+ */
+export interface IScannerResourceRepository {
+  /**
+   * Fetch all active students of a school.
+   */
+  findActiveStudents(schoolId: string): Promise<ScannerStudentRow[]>;
+
+  /**
+   * Fetch sections by ID.
+   */
+  findSections(sectionIds: string[]): Promise<{ id: string; name: string; level_id: string | null }[]>;
+
+  /**
+   * Fetch levels by ID.
+   */
+  findLevels(levelIds: string[]): Promise<{ id: string; name: string }[]>;
+
+  /**
+   * Find the newest resource version for an event.
+   */
+  findLatestVersion(eventId: string): Promise<ScannerResourceVersionRow | null>;
+
+  /**
+   * Find a specific resource version for an event.
+   */
+  findVersion(eventId: string, version: number): Promise<ScannerResourceVersionRow | null>;
+
+  /**
+   * Store a new resource version.
+   *
+   * @returns False if the version already exists (created concurrently)
+   */
+  createVersion(row: Omit<ScannerResourceVersionRow, "created_at">): Promise<boolean>;
+
+  /**
+   * Delete versions older than the newest `keep` versions.
+   */
+  pruneVersions(eventId: string, keep: number): Promise<void>;
+}
+
+/**
+ * Repository interface for signed QR credentials.
+ *
+ * @remarks
+ * Stores the signing keys and the per-student QR columns (qr_hash,
+ * qr_issued_at, qr_revoked_at) used to rotate and revoke student codes.
+ */
+export interface IQrCredentialRepository {
+  /**
+   * Find signing keys that are not revoked, newest first.
+   */
+  findUsableSigningKeys(): Promise<QrSigningKeyRow[]>;
+
+  /**
+   * Store a new signing key.
+   */
+  createSigningKey(row: Omit<QrSigningKeyRow, "created_at" | "retired_at">): Promise<QrSigningKeyRow>;
+
+  /**
+   * Fetch QR credential columns for students.
+   */
+  findStudentCredentials(studentIds: string[]): Promise<StudentQrCredentialRow[]>;
+
+  /**
+   * Update a student's QR credential columns.
+   *
+   * @returns The updated row, or null if the student doesn't exist
+   */
+  updateStudentCredential(
+    studentId: string,
+    patch: Partial<Omit<StudentQrCredentialRow, "id">>
+  ): Promise<StudentQrCredentialRow | null>;
+}
+
+/**
+ * Repository interface for manual attendance corrections.
+ *
+ * @remarks
+ * Reads and writes single attendance_logs rows and the append-only
+ * attendance_corrections audit table.
+ */
+export interface IAttendanceCorrectionRepository {
+  /**
+   * Find an event session by ID, scoped to the event.
+   */
+  findEventSession(eventId: string, eventSessionId: string): Promise<{ id: string; name: string } | null>;
+
+  /**
+   * Find an active student of a school by UUID or LRN / school ID.
+   */
+  findStudent(
+    schoolId: string,
+    identifier: { studentId?: string; lrn?: string }
+  ): Promise<{ id: string; fullName: string } | null>;
+
+  /**
+   * Fetch display names for students.
+   */
+  getStudentNames(studentIds: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Find a student's attendance row for a session.
+   */
+  findAttendance(eventSessionId: string, studentId: string): Promise<AttendanceRecordRow | null>;
+
+  /**
+   * Insert a manual attendance row.
+   *
+   * @returns The new row, or null if the student already has attendance for the session
+   */
+  insertAttendance(row: {
+    event_session_id: string;
+    student_id: string;
+    scanned_at: string;
+    status: string;
+    source: "manual";
+    synced_by_user_id: string;
+    corrected_at: string;
+    corrected_by_user_id: string;
+  }): Promise<AttendanceRecordRow | null>;
+
+  /**
+   * Change the status of an attendance row.
+   */
+  updateAttendanceStatus(
+    id: string,
+    status: string,
+    correctedByUserId: string,
+    correctedAt: string
+  ): Promise<AttendanceRecordRow>;
+
+  /**
+   * Delete an attendance row.
+   */
+  deleteAttendance(id: string): Promise<void>;
+
+  /**
+   * Append a correction to the audit table.
+   */
+  insertCorrection(row: Omit<AttendanceCorrectionRow, "id" | "created_at">): Promise<AttendanceCorrectionRow>;
+
+  /**
+   * List an event's corrections, newest first.
+   */
+  findCorrectionsByEvent(eventId: string, limit: number): Promise<AttendanceCorrectionRow[]>;
+}
+
+/**
+ * Repository interface for absentee materialization.
+ */
+export interface IAbsenteeRepository {
+  /**
+   * Find IDs of published events that started on or before the given date.
+   */
+  findPublishedEventIdsStartedBy(date: string): Promise<string[]>;
+
+  /**
+   * Find an event's sessions with their materialization marker.
+   */
+  findEventSessions(eventId: string): Promise<AbsenteeSessionRow[]>;
+
+  /**
+   * Find all attendance rows (any status) for the given sessions.
+   */
+  findAttendanceForSessions(eventSessionIds: string[]): Promise<AttendanceRecordRow[]>;
+
+  /**
+   * Insert absent rows, skipping students who already have a row for the session.
+   *
+   * @returns Number of rows inserted
+   */
+  insertAbsences(rows: AbsenceInsert[]): Promise<number>;
+
+  /**
+   * Delete attendance rows by ID.
+   */
+  deleteAttendance(ids: string[]): Promise<void>;
+
+  /**
+   * Record when absentees were last materialized for the sessions.
+   */
+  markSessionsMaterialized(eventSessionIds: string[], materializedAt: string): Promise<void>;
+}
+
+/**
+ * Repository interface for the late / missing-exit report.
+ */
+export interface ILateReportRepository {
+  /**
+   * Find events by ID.
+   */
+  findEventsByIds(eventIds: string[]): Promise<LateReportEventRow[]>;
+
+  /**
+   * Find published or completed events overlapping a date range.
+   */
+  findEventsInRange(from: string, to: string): Promise<LateReportEventRow[]>;
+
+  /**
+   * Find all sessions of the given events.
+   */
+  findSessionsByEvents(eventIds: string[]): Promise<LateReportSessionRow[]>;
+
+  /**
+   * Find attended (non-absent) rows for the given sessions.
+   */
+  findAttendanceForSessions(eventSessionIds: string[]): Promise<LateReportAttendanceRow[]>;
+
+  /**
+   * Find students by ID.
+   */
+  findStudents(studentIds: string[]): Promise<LateReportStudentRow[]>;
+
+  /**
+   * Find sections by ID.
+   */
+  findSections(sectionIds: string[]): Promise<LateReportSectionRow[]>;
+
+  /**
+   * Fetch level names by ID.
+   */
+  getLevelNames(levelIds: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Fetch user display names by ID.
+   */
+  getUserNames(userIds: string[]): Promise<Map<string, string>>;
+}
+
+/**
+ * Repository interface for a student's attendance history across events.
+ */
+export interface IStudentAttendanceRepository {
+  /**
+   * Find students by ID.
+   */
+  findStudents(studentIds: string[]): Promise<LateReportStudentRow[]>;
+
+  /**
+   * Find sections by ID.
+   */
+  findSections(sectionIds: string[]): Promise<LateReportSectionRow[]>;
+
+  /**
+   * Fetch level names by ID.
+   */
+  getLevelNames(levelIds: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Students linked to an app user through student_guardians.
+   */
+  findLinkedStudentIds(appUserId: string): Promise<string[]>;
+
+  /**
+   * Find published or completed events overlapping a date range.
+   */
+  findEventsInRange(from: string, to: string): Promise<StudentHistoryEventRow[]>;
+
+  /**
+   * IDs of the given events the student holds a confirmed registration for.
+   */
+  findConfirmedRegistrationEventIds(studentId: string, eventIds: string[]): Promise<Set<string>>;
+
+  /**
+   * Find all sessions of the given events.
+   */
+  findSessionsByEvents(eventIds: string[]): Promise<StudentHistorySessionRow[]>;
+
+  /**
+   * Find one student's attendance rows for the given sessions.
+   */
+  findStudentAttendance(
+    studentId: string,
+    eventSessionIds: string[]
+  ): Promise<StudentHistoryAttendanceRow[]>;
+}
+
+/**
+ * Repository interface for event templates.
+ */
+export interface IEventTemplateRepository {
+  create(row: EventTemplateInsert): Promise<EventTemplateRow>;
+
+  findById(id: string): Promise<EventTemplateRow | null>;
+
+  /**
+   * All templates, by name.
+   */
+  findAll(): Promise<EventTemplateRow[]>;
+
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Repository interface for recurring event series.
+ */
+export interface IEventSeriesRepository {
+  /**
+   * Create a series row.
+   */
+  create(row: EventSeriesInsert): Promise<EventSeriesRow>;
+
+  /**
+   * Find a series by ID.
+   */
+  findById(id: string): Promise<EventSeriesRow | null>;
+
+  /**
+   * Update a series' title, recurrence or session template.
+   */
+  update(
+    id: string,
+    changes: Partial<Pick<EventSeriesRow, "title" | "recurrence" | "session_template">>,
+    updatedBy: string
+  ): Promise<EventSeriesRow>;
+
+  /**
+   * List a series' occurrences by date.
+   */
+  findOccurrences(seriesId: string): Promise<EventSeriesOccurrenceRow[]>;
+
+  /**
+   * Move occurrences to another series.
+   */
+  reassignOccurrences(eventIds: string[], seriesId: string): Promise<void>;
+
+  /**
+   * Delete a series row; its occurrences must be deleted first.
+   */
+  delete(id: string): Promise<void>;
 }
 
 // ============================================================================
 // Service Interfaces
 // ============================================================================
 
+/**
+ * Receives attendance changes for guardian notifications.
+ *
+ * @remarks
+ * Implemented outside SEMS (see the communication module). Callers treat
+ * notification failures as non-fatal.
+ */
+export interface IAttendanceNotifier {
+  notifyAttendance(notices: AttendanceNotice[]): Promise<void>;
+}
+
+/**
+ * Receives event workflow changes for in-app notifications.
+ *
+ * @remarks
+ * Implemented outside SEMS (see the communication module). Callers treat
+ * notification failures as non-fatal.
+ */
+export interface IEventWorkflowNotifier {
+  notifyWorkflow(notices: EventWorkflowNotice[]): Promise<void>;
+}
+
+/**
+ * Looks up non-school days (holidays, suspensions, weekends, breaks).
+ *
+ * @remarks
+ * Implemented outside SEMS (see the academics module's school calendar).
+ */
+export interface ISchoolCalendarLookup {
+  /**
+   * Non-school days from `startDate` to `endDate` inclusive (YYYY-MM-DD), by date.
+   */
+  findNonSchoolDays(startDate: string, endDate: string): Promise<EventNonSchoolDay[]>;
+}
+
+/**
+ * Checks venues for session conflicts (implemented by VenueService).
+ */
+export interface IVenueAvailabilityLookup {
+  checkAvailability(request: VenueAvailabilityRequest): Promise<VenueAvailabilityResponseDto>;
+}
+
 /**
  * Service interface for Event business operations.
  *
@@ -157,6 +744,7 @@ export interface IEventService {
    * @returns Created event DTO ready for API response
    *
    * @throws ValidationError if input data is invalid
+   * @throws VenueConflictError if the venue is booked (when venue availability is checked)
    * @throws NotFoundError if facility doesn't exist
    * @throws BusinessRuleError if business rules are violated
    *
@@ -164,11 +752,31 @@ export interface IEventService {
    * Validation performed:
    * - Title is non-empty
    * - Date range is valid (end >= start)
-   * - Facility exists if provided
+   * - Facility exists if provided, and is free when venue availability is checked
    * - Audience config has at least one include rule
    * - Session config has at least one session per date
    */
-  createEvent(dto: CreateEventDto, actor: WorkflowActorContext): Promise<EventDto>;
+  createEvent(dto: CreateEventDto, actor: WorkflowActorContext, options?: CreateEventOptions): Promise<EventDto>;
+
+  /**
+   * An event the actor may manage (owner, organizer or admin).
+   *
+   * @throws NotFoundError if the event doesn't exist
+   * @throws BusinessRuleError if the actor can't manage the event
+   */
+  getManagedEvent(eventId: string, actor: WorkflowActorContext): Promise<EventDto>;
+
+  /**
+   * Copy an event into a new draft, with every date moved so the copy starts
+   * on `placement.startDate`.
+   *
+   * @throws BusinessRuleError if the actor can't manage the source event
+   */
+  duplicateEvent(
+    eventId: string,
+    placement: EventDraftPlacementDto,
+    actor: WorkflowActorContext
+  ): Promise<EventDto>;
 
   /**
    * Update an existing event with validation and workflow enforcement.
@@ -179,12 +787,29 @@ export interface IEventService {
    * Validate event creation input without persisting.
    *
    * @param dto - Raw input data (may be partial/invalid)
+   * @param nonSchoolDays - Known non-school days; event dates on them are
+   *   reported as warnings
    * @returns Validation result with sanitized data if valid
    *
    * @remarks
    * Frontend can use this for pre-submit validation.
    */
-  validateCreateEvent(dto: unknown): ValidationResult<CreateEventDto>;
+  validateCreateEvent(dto: unknown, nonSchoolDays?: readonly EventNonSchoolDay[]): ValidationResult<CreateEventDto>;
+
+  /**
+   * Non-school days within the event's date range, for validateCreateEvent.
+   *
+   * @returns An empty list when no school calendar is configured
+   */
+  findNonSchoolDays(dto: unknown): Promise<EventNonSchoolDay[]>;
+
+  /**
+   * Validate event update input.
+   *
+   * @param dto - Raw input data (may be partial/invalid)
+   * @returns Validation result with sanitized data if valid
+   */
+  validateUpdateEvent(dto: unknown): ValidationResult<UpdateEventDto>;
 
   /**
    * Delete one or more events by ID.
@@ -210,4 +835,53 @@ export interface IEventService {
   ): Promise<EventListResponseDto>;
 
   listPublicEvents(options?: ListEventsOptions): Promise<EventListResponseDto>;
+
+  /**
+   * List registrations for an event, scoped to what the actor may see.
+   */
+  listEventRegistrations(
+    eventId: string,
+    actor: WorkflowActorContext
+  ): Promise<EventRegistrationListDto>;
+
+  /**
+   * Register a student for an event.
+   *
+   * @throws NotFoundError if the event or student doesn't exist
+   * @throws BusinessRuleError if the window, capacity, or audience rules reject it
+   *
+   * @remarks
+   * Students may register themselves, parents may register linked children,
+   * and organizers/admins may register any eligible student.
+   */
+  registerStudent(
+    input: EventRegistrationInput,
+    actor: WorkflowActorContext
+  ): Promise<EventRegistrationDto>;
+
+  /**
+   * Cancel a student's registration for an event.
+   */
+  unregisterStudent(input: EventRegistrationInput, actor: WorkflowActorContext): Promise<void>;
+
+  /**
+   * Manually promote a waitlisted student or demote a confirmed one.
+   *
+   * @throws BusinessRuleError if the actor can't manage the event or no seat is free
+   *
+   * @remarks
+   * Demoted students go to the head of the waitlist and the freed seat is left
+   * open so the organizer can promote someone out of order.
+   */
+  overrideRegistration(
+    input: EventRegistrationOverrideInput,
+    actor: WorkflowActorContext
+  ): Promise<EventRegistrationDto>;
+
+  /**
+   * Event history: every workflow action and recorded edit, newest first.
+   *
+   * @throws BusinessRuleError if the actor can't manage the event
+   */
+  listEventAuditLog(eventId: string, actor: WorkflowActorContext): Promise<EventAuditEntryDto[]>;
 }
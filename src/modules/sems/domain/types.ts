@@ -120,10 +120,13 @@ export interface EventScannerConfig {
 // ============================================================================
 
 import type { UserRole } from "@/core/auth/types";
+import type { Permission } from "@/config/permissions";
 
 export interface WorkflowActorContext {
   userId: string;
   roles: UserRole[];
+  /** Permissions the actor's roles hold; services check these rather than roles */
+  permissions: Permission[];
 }
 
 export type EventLifecycleStatus =
@@ -174,6 +177,103 @@ export interface EventWorkflowActionInput {
   reason?: string;
 }
 
+// ============================================================================
+// Registration Types
+// ============================================================================
+
+/**
+ * Registration status.
+ *
+ * @remarks
+ * - confirmed: Holds a seat for the event
+ * - waitlisted: Queued until a seat frees up (capacity-limited events only)
+ */
+export type EventRegistrationStatus = "confirmed" | "waitlisted";
+
+/**
+ * Organizer override for a registration's seat.
+ */
+export type EventRegistrationManualAction = "promote" | "demote";
+
+/**
+ * Database row representation of an event registration.
+ *
+ * @remarks
+ * Maps directly to the event_registrations table (Phase 1.6).
+ */
+export interface EventRegistrationRow {
+  id: string;
+  event_id: string;
+  student_id: string;
+  registered_by_user_id: string | null;
+  registered_at: string;
+  status: EventRegistrationStatus;
+  waitlist_position: number | null;
+  promoted_at: string | null;
+  created_at: string;
+  created_by: string | null;
+  updated_at: string | null;
+  updated_by: string | null;
+}
+
+/**
+ * A single student registration returned to the frontend.
+ */
+export interface EventRegistrationDto {
+  id: string;
+  eventId: string;
+  studentId: string;
+  studentName: string | null;
+  registeredByUserId: string | null;
+  registeredAt: string;
+  status: EventRegistrationStatus;
+  /** 1-based place in the waitlist; null for confirmed registrations */
+  waitlistPosition: number | null;
+  promotedAt: string | null;
+}
+
+/**
+ * Registration overview for an event, scoped to what the actor may see.
+ *
+ * @remarks
+ * Organizers and admins receive every registration; students and parents
+ * only receive registrations for their linked student records.
+ */
+export interface EventRegistrationListDto {
+  eventId: string;
+  registration: EventRegistrationMetadata;
+  /** True when the current time falls inside the registration window */
+  isOpen: boolean;
+  /** Confirmed registrations for the event (not only those visible to the actor) */
+  registeredCount: number;
+  /** Waitlisted registrations for the event (not only those visible to the actor) */
+  waitlistCount: number;
+  /** Seats left before capacityLimit is reached; null when unlimited */
+  remainingCapacity: number | null;
+  /** Confirmed registrations, oldest first */
+  registrations: EventRegistrationDto[];
+  /** Waitlisted registrations in promotion order */
+  waitlist: EventRegistrationDto[];
+}
+
+/**
+ * Input for registering or unregistering a student for an event.
+ */
+export interface EventRegistrationInput {
+  eventId: string;
+  /** Optional for STUDENT actors; defaults to their own linked student record */
+  studentId?: string;
+}
+
+/**
+ * Input for an organizer's manual promote/demote of a registration.
+ */
+export interface EventRegistrationOverrideInput {
+  eventId: string;
+  studentId: string;
+  action: EventRegistrationManualAction;
+}
+
 // ============================================================================
 // Session Configuration Types
 // ============================================================================
@@ -267,6 +367,10 @@ export interface EventRow {
   registration_opens_at: string | null;
   registration_closes_at: string | null;
   capacity_limit: number | null;
+  /** Recurring series the event was generated from */
+  series_id: string | null;
+  /** School the event belongs to */
+  school_id: string;
   created_by: string | null;
   created_at: string;
   updated_by: string | null;
@@ -322,6 +426,16 @@ export interface CreateEventDto {
   cancelledBy?: string | null;
   cancelledAt?: string | null;
   cancellationReason?: string | null;
+  /** Set by EventSeriesService for generated occurrences */
+  seriesId?: string | null;
+}
+
+/**
+ * Options for EventService.createEvent.
+ */
+export interface CreateEventOptions {
+  /** Start in `draft` instead of going straight to approval */
+  asDraft?: boolean;
 }
 
 /**
@@ -408,6 +522,10 @@ export interface EventDto {
   cancelledBy: string | null;
   cancelledAt: string | null;
   cancellationReason: string | null;
+  /** Recurring series the event belongs to, if any */
+  seriesId: string | null;
+  /** School the event belongs to */
+  schoolId: string;
   createdBy: string | null;
   createdAt: string;
   updatedAt: string | null;
@@ -587,6 +705,1212 @@ export interface VenueAvailabilityResponseDto {
   };
 }
 
+// ============================================================================
+// QR Credential Types
+// ============================================================================
+
+/**
+ * Lifecycle of a QR signing key.
+ *
+ * @remarks
+ * - active: Signs new QR codes (newest active key wins)
+ * - retired: No longer signs, but codes it signed still verify
+ * - revoked: Codes it signed are rejected
+ */
+export type QrSigningKeyStatus = "active" | "retired" | "revoked";
+
+/**
+ * Database row for the qr_signing_keys table.
+ */
+export interface QrSigningKeyRow {
+  kid: string;
+  algorithm: string;
+  public_key_jwk: JsonWebKey;
+  private_key_jwk: JsonWebKey;
+  status: QrSigningKeyStatus;
+  created_at: string;
+  retired_at: string | null;
+}
+
+/**
+ * Public key downloaded by scanners to verify signed QR codes offline.
+ */
+export interface QrPublicKeyDto {
+  keyId: string;
+  algorithm: string;
+  publicKey: JsonWebKey;
+}
+
+/**
+ * Rules a scanner applies to QR codes, downloaded with scanner resources.
+ */
+export interface QrCredentialPolicyDto {
+  /** Days a signed code stays valid after its issue date */
+  validityDays: number;
+  /** Bare qr_hash codes are accepted until this instant; null = no cutoff yet */
+  legacyHashAcceptedUntil: string | null;
+  /** Keys whose signatures are accepted (active and retired) */
+  publicKeys: QrPublicKeyDto[];
+}
+
+/**
+ * QR credential columns of a student row.
+ */
+export interface StudentQrCredentialRow {
+  id: string;
+  qr_hash: string;
+  /** Codes issued before this instant are no longer valid */
+  qr_issued_at: string;
+  /** When set, every code for the student is rejected until reissued */
+  qr_revoked_at: string | null;
+}
+
+/**
+ * A student's QR credential state as shown in SIS.
+ */
+export interface StudentQrCredentialDto {
+  studentId: string;
+  issuedAt: string;
+  revokedAt: string | null;
+  /** Newly signed code (only returned when a code is issued) */
+  token: string | null;
+  /** Expiry of `token` */
+  expiresAt: string | null;
+}
+
+// ============================================================================
+// Scanner Resource Types
+// ============================================================================
+
+/**
+ * Student row as loaded for scanner resources.
+ */
+export interface ScannerStudentRow {
+  id: string;
+  student_school_id: string;
+  first_name: string;
+  last_name: string;
+  section_id: string | null;
+  qr_hash: string;
+  qr_issued_at: string;
+  qr_revoked_at: string | null;
+  is_active: boolean;
+}
+
+/**
+ * Allowed student as downloaded to a scanner device.
+ */
+export interface ScannerStudentResource {
+  id: string;
+  fullName: string;
+  lrn: string;
+  levelId: string | null;
+  levelName: string | null;
+  sectionId: string | null;
+  sectionName: string | null;
+  qrHash: string;
+  /** Signed codes issued before this instant are rejected */
+  qrIssuedAt: string;
+  qrRevokedAt: string | null;
+}
+
+/**
+ * Event details downloaded with scanner resources.
+ */
+export interface ScannerResourceEventDto {
+  id: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  facilityName: string | null;
+  audienceConfig: EventAudienceConfig;
+  sessionConfig: EventSessionConfig | null;
+  registrationRequired: boolean;
+}
+
+/**
+ * Version information for an event's scanner resources.
+ */
+export interface ScannerResourceManifest {
+  /** Increments whenever the allowed students or session config change */
+  version: number;
+  studentCount: number;
+  sessionConfigHash: string;
+  generatedAt: string;
+}
+
+/**
+ * Response of GET /api/sems/events/[id]/scanner-resources.
+ *
+ * @remarks
+ * - full: `students` is the complete allowed list; replace local data
+ * - delta: `students` holds only added or changed students, and
+ *   `removedStudentIds` lists students to drop since `since`
+ */
+export interface ScannerResourcesDto {
+  mode: "full" | "delta";
+  manifest: ScannerResourceManifest;
+  /** Version the delta is relative to (null for full responses) */
+  since: number | null;
+  event: ScannerResourceEventDto;
+  students: ScannerStudentResource[];
+  removedStudentIds: string[];
+  sessionConfigChanged: boolean;
+  /** Always sent in full so key rotations reach devices on delta refreshes */
+  qrPolicy: QrCredentialPolicyDto;
+}
+
+/**
+ * Database row for the scanner_resource_versions table.
+ */
+export interface ScannerResourceVersionRow {
+  event_id: string;
+  version: number;
+  content_hash: string;
+  /** Map of student ID to fingerprint */
+  student_fingerprints: Record<string, string>;
+  session_config_hash: string;
+  created_at: string;
+}
+
+// ============================================================================
+// Scan Upload & Validation Types
+// ============================================================================
+
+/**
+ * Scan status as recorded by an offline scanner device.
+ */
+export type ScanClientStatus = "PRESENT" | "LATE" | "DENIED" | "DUPLICATE";
+
+/**
+ * Scan record uploaded from a scanner device's IndexedDB queue.
+ *
+ * @remarks
+ * The session timing fields are informational only; the server recomputes
+ * status and session from the event's stored session_config.
+ */
+export interface ScanUploadRecord {
+  id: string;
+  studentId: string;
+  qrHash: string;
+  scannedAt: string;
+  status: ScanClientStatus;
+  reason: string | null;
+  sessionId: string | null;
+  sessionName: string | null;
+  sessionDirection: SessionDirection | null;
+  sessionPeriod?: string | null;
+  sessionOpens?: string | null;
+  sessionCloses?: string | null;
+  sessionLateAfter?: string | null;
+}
+
+/**
+ * Body of a scan upload request.
+ */
+export interface ScanUploadInput {
+  scans: ScanUploadRecord[];
+  /** Device clock at upload time (ISO); used to detect clock skew */
+  deviceTime?: string | null;
+  /** Persistent ID of the uploading scanner device; stored as scanned_by_device_id */
+  deviceId?: string | null;
+}
+
+/**
+ * Server verdict for an uploaded scan.
+ *
+ * @remarks
+ * - accepted: Stored exactly as the device reported it
+ * - corrected: Stored, but the server changed status, session, or timestamp
+ * - rejected: Not stored as attendance (denied, out of window, not in audience, ...)
+ * - duplicate: Student already has attendance for the session
+ * - failed: Could not be stored due to a server error; safe to retry
+ */
+export type ScanVerdict = "accepted" | "corrected" | "rejected" | "duplicate" | "failed";
+
+/**
+ * Reasons attached to a verdict. A scan may carry several flags.
+ */
+export type ScanValidationFlag =
+  | "INVALID_RECORD"
+  | "CLIENT_DENIED"
+  | "CLIENT_DUPLICATE"
+  | "UNKNOWN_STUDENT"
+  | "NOT_IN_AUDIENCE"
+  | "NOT_REGISTERED"
+  | "CLOCK_SKEW"
+  | "FUTURE_TIMESTAMP"
+  | "OUT_OF_WINDOW"
+  | "SESSION_CORRECTED"
+  | "STATUS_CORRECTED"
+  | "BATCH_DUPLICATE"
+  | "ALREADY_RECORDED"
+  | "SCAN_ID_CONFLICT";
+
+/**
+ * Per-scan result returned to the scanner device.
+ */
+export interface ScanVerdictDto {
+  scanId: string;
+  verdict: ScanVerdict;
+  /** Server-computed attendance status; null when the scan was rejected */
+  status: "PRESENT" | "LATE" | null;
+  /** Config session ID the scan was reconciled to */
+  sessionId: string | null;
+  sessionName: string | null;
+  /** Timestamp used for validation (adjusted for clock skew when detected) */
+  effectiveScannedAt: string | null;
+  flags: ScanValidationFlag[];
+  reason: string | null;
+}
+
+/**
+ * A scan that passed validation and should be written to attendance_logs.
+ */
+export interface ValidatedScan {
+  scanId: string;
+  studentId: string;
+  scannedAt: string;
+  status: "PRESENT" | "LATE";
+  session: SessionConfig;
+  /** Local school date (YYYY-MM-DD) the session belongs to */
+  date: string;
+}
+
+/**
+ * Insert payload for the attendance_logs table.
+ */
+export interface AttendanceLogInsert {
+  event_session_id: string;
+  student_id: string;
+  scanned_at: string;
+  status: "present" | "late";
+  scanned_by_device_id: string | null;
+  synced_by_user_id: string;
+  /** Scanner device's queued scan ID (unique); makes uploads idempotent */
+  client_scan_id: string;
+}
+
+/**
+ * event_sessions row as used to key attendance.
+ *
+ * @remarks
+ * Sessions are keyed by school-local date plus session_config session ID, so
+ * the same session on different days of an event gets separate rows. Rows
+ * created before dated sessions existed have neither and are matched by name.
+ */
+export interface EventSessionRow {
+  id: string;
+  name: string;
+  session_date: string | null;
+  config_session_id: string | null;
+}
+
+/**
+ * Existing attendance row used for idempotency and duplicate checks.
+ */
+export interface AttendanceLogKeyRow {
+  id: string;
+  event_session_id: string;
+  student_id: string;
+  client_scan_id: string | null;
+  status: string;
+  source: AttendanceSource;
+}
+
+/**
+ * Attendance row with the fields other scanner devices need to see.
+ */
+export interface AttendancePeerRow {
+  event_session_id: string;
+  student_id: string;
+  scanned_at: string;
+  status: string;
+  scanned_by_device_id: string | null;
+  synced_by_user_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Scan already stored on the server, as shown to other scanner devices.
+ */
+export interface PeerScanDto {
+  studentId: string;
+  /** Session ID from session_config, or null if it can no longer be resolved */
+  sessionId: string | null;
+  sessionName: string;
+  /** School-local date of the scan (YYYY-MM-DD) */
+  date: string;
+  scannedAt: string;
+  status: string;
+  deviceId: string | null;
+  scannerName: string | null;
+}
+
+/**
+ * Response of GET /api/sems/events/[id]/peer-status.
+ */
+export interface PeerStatusDto {
+  eventId: string;
+  /**
+   * Pass back as `since` on the next poll. Slightly behind the server clock so
+   * rows committed late are not missed; a poll may repeat a few scans.
+   */
+  nextSince: string;
+  scans: PeerScanDto[];
+}
+
+/**
+ * Response body for a scan upload.
+ *
+ * @remarks
+ * `results` has exactly one entry per distinct uploaded scan ID, in upload
+ * order. Re-sending the same scans yields the same verdicts, so devices can
+ * mark everything in `processedScanIds` as synced even after partial failures.
+ */
+export interface ScanUploadResultDto {
+  uploaded: number;
+  corrected: number;
+  rejected: number;
+  /** @deprecated Same as rejected; kept for older scanner builds */
+  skipped: number;
+  duplicates: number;
+  errors: number;
+  clockSkewMs: number | null;
+  /** Scans stored in attendance_logs (including earlier uploads of the same ID) */
+  uploadedScanIds: string[];
+  /** Every scan with a final verdict (all except "failed") */
+  processedScanIds: string[];
+  results: ScanVerdictDto[];
+  message: string;
+}
+
+/**
+ * Insert payload for the scan_audit_log table.
+ */
+export interface ScanAuditEntry {
+  event_id: string;
+  client_scan_id: string | null;
+  student_id: string | null;
+  qr_hash: string | null;
+  config_session_id: string | null;
+  client_status: string | null;
+  server_status: string | null;
+  verdict: ScanVerdict;
+  flags: ScanValidationFlag[];
+  reason: string | null;
+  scanned_at: string | null;
+  effective_scanned_at: string | null;
+  clock_skew_ms: number | null;
+  uploaded_by_user_id: string;
+}
+
+// ============================================================================
+// Attendance Correction Types
+// ============================================================================
+
+/**
+ * Status an organizer can set manually.
+ */
+export type AttendanceCorrectionStatus = "present" | "late" | "excused";
+
+/**
+ * Kind of manual change recorded in attendance_corrections.
+ */
+export type AttendanceCorrectionAction = "add" | "update" | "remove";
+
+/**
+ * How an attendance row was created.
+ *
+ * @remarks
+ * `system` rows are absences materialized for expected students who never scanned.
+ */
+export type AttendanceSource = "scan" | "manual" | "system";
+
+/**
+ * Request to add, change or remove a student's attendance for a session.
+ *
+ * @remarks
+ * Identify the student by `studentId` or `lrn`, and the session by
+ * `eventSessionId` (event_sessions.id) or `sessionId` (session_config ID).
+ */
+export interface AttendanceCorrectionInput {
+  eventId: string;
+  studentId?: string;
+  lrn?: string;
+  eventSessionId?: string;
+  sessionId?: string;
+  /** Session date (YYYY-MM-DD); required with `sessionId` when the session runs on several dates */
+  date?: string;
+  /** New status, or null to remove the record */
+  status: AttendanceCorrectionStatus | null;
+  reason: string;
+}
+
+/**
+ * attendance_logs row as read and written by corrections.
+ */
+export interface AttendanceRecordRow {
+  id: string;
+  event_session_id: string;
+  student_id: string;
+  scanned_at: string;
+  status: string;
+  source: AttendanceSource;
+}
+
+/**
+ * Database row for the attendance_corrections table.
+ */
+export interface AttendanceCorrectionRow {
+  id: string;
+  event_id: string;
+  event_session_id: string;
+  student_id: string;
+  attendance_log_id: string | null;
+  action: AttendanceCorrectionAction;
+  previous_status: string | null;
+  new_status: string | null;
+  reason: string;
+  corrected_by_user_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Attendance correction as returned by the API.
+ */
+export interface AttendanceCorrectionDto {
+  id: string;
+  eventSessionId: string;
+  sessionName: string | null;
+  studentId: string;
+  studentName: string | null;
+  action: AttendanceCorrectionAction;
+  previousStatus: string | null;
+  newStatus: string | null;
+  reason: string;
+  correctedByUserId: string | null;
+  correctedByName: string | null;
+  createdAt: string;
+}
+
+// ============================================================================
+// Absentee Types
+// ============================================================================
+
+/**
+ * event_sessions row with its absentee materialization marker.
+ */
+export interface AbsenteeSessionRow extends EventSessionRow {
+  absentees_materialized_at: string | null;
+}
+
+/**
+ * Absent row written for an expected student with no scan.
+ */
+export interface AbsenceInsert {
+  event_session_id: string;
+  student_id: string;
+  scanned_at: string;
+  status: "absent";
+  source: "system";
+}
+
+/**
+ * Absentee results for one entry session.
+ */
+export interface AbsenteeSessionResultDto {
+  eventSessionId: string;
+  /** session_config session ID */
+  sessionId: string;
+  name: string;
+  date: string;
+  expectedStudents: number;
+  absentCreated: number;
+  /** System absences removed because the student is no longer expected */
+  absentRemoved: number;
+}
+
+/**
+ * Result of materializing absentees for an event.
+ */
+export interface AbsenteeRunResultDto {
+  eventId: string;
+  ranAt: string;
+  sessions: AbsenteeSessionResultDto[];
+  totalCreated: number;
+  totalRemoved: number;
+}
+
+// ============================================================================
+// Attendance Notice Types
+// ============================================================================
+
+/**
+ * Attendance change a guardian may be told about.
+ *
+ * - `scan_in` / `scan_out`: on-time entry scan, or any exit scan
+ * - `late`: entry scan after the session's late threshold
+ * - `absent`: no entry scan by the time the session closed
+ */
+export type AttendanceNoticeKind = "scan_in" | "scan_out" | "late" | "absent";
+
+/**
+ * One attendance change, handed to an IAttendanceNotifier.
+ */
+export interface AttendanceNotice {
+  kind: AttendanceNoticeKind;
+  studentId: string;
+  eventId: string;
+  eventTitle: string;
+  eventSessionId: string;
+  sessionName: string;
+  /** School-local date (YYYY-MM-DD) */
+  date: string;
+  /** Scan time, or when the absence was recorded */
+  occurredAt: string;
+}
+
+// ============================================================================
+// Event Workflow Notice Types
+// ============================================================================
+
+/**
+ * Workflow change people involved in an event may be told about.
+ *
+ * - `submitted`: awaiting approval (approvers)
+ * - `approved` / `rejected` / `published`: the owner's event moved on
+ * - `cancelled`: the owner and assigned scanners
+ * - `scanner_assigned`: scanners newly added through scannerConfig
+ */
+export type EventWorkflowNoticeKind =
+  | "submitted"
+  | "approved"
+  | "rejected"
+  | "published"
+  | "cancelled"
+  | "scanner_assigned";
+
+/**
+ * One workflow change, handed to an IEventWorkflowNotifier.
+ */
+export interface EventWorkflowNotice {
+  kind: EventWorkflowNoticeKind;
+  eventId: string;
+  eventTitle: string;
+  /** School of the event; approvers are only notified within it */
+  schoolId: string;
+  /** Who made the change; never notified about their own action */
+  actorUserId: string;
+  ownerUserId: string | null;
+  /** Approval / rejection comment or cancellation reason */
+  comment: string | null;
+  /** Newly assigned scanners (`scanner_assigned`) or all scanners (`cancelled`) */
+  scannerUserIds: string[];
+}
+
+// ============================================================================
+// School Calendar Types
+// ============================================================================
+
+/**
+ * Why a date is not a regular school day.
+ *
+ * - `holiday` / `suspension`: a closure on the school calendar
+ * - `weekend`: Saturday or Sunday
+ * - `outside_school_year`: between school years (only once any year is set up)
+ */
+export type EventNonSchoolDayReason = "holiday" | "suspension" | "weekend" | "outside_school_year";
+
+/**
+ * A non-school day, from an ISchoolCalendarLookup.
+ */
+export interface EventNonSchoolDay {
+  date: string; // YYYY-MM-DD
+  reason: EventNonSchoolDayReason;
+  /** Closure name, e.g. "Christmas Day"; null for weekends and breaks */
+  name: string | null;
+}
+
+// ============================================================================
+// Event Audit Log Types
+// ============================================================================
+
+/**
+ * What an event_audit_log entry records: creation, a workflow action, or a
+ * plain edit made through updateEvent.
+ */
+export type EventAuditAction = "CREATE" | "UPDATE" | EventWorkflowAction;
+
+/**
+ * Event fields whose edits are recorded, keyed as in the event DTOs.
+ */
+export type EventAuditField =
+  | "title"
+  | "description"
+  | "posterImageUrl"
+  | "startDate"
+  | "endDate"
+  | "facilityId"
+  | "audienceConfig"
+  | "sessionConfig"
+  | "scannerConfig"
+  | "visibility"
+  | "registrationRequired"
+  | "registrationOpensAt"
+  | "registrationClosesAt"
+  | "capacityLimit"
+  | "ownerUserId";
+
+/**
+ * One field's value before and after an edit.
+ */
+export interface EventAuditFieldChange {
+  field: EventAuditField;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Database row for the append-only event_audit_log table.
+ */
+export interface EventAuditLogRow {
+  id: string;
+  event_id: string;
+  action: EventAuditAction;
+  actor_user_id: string | null;
+  from_status: EventLifecycleStatus | null;
+  to_status: EventLifecycleStatus | null;
+  /** Workflow comment or cancellation reason */
+  comment: string | null;
+  changes: EventAuditFieldChange[];
+  created_at: string;
+}
+
+export type EventAuditLogInsert = Omit<EventAuditLogRow, "id" | "created_at">;
+
+/**
+ * Audit entry as returned by the API for the event history timeline.
+ */
+export interface EventAuditEntryDto {
+  id: string;
+  action: EventAuditAction;
+  actorUserId: string | null;
+  actorName: string | null;
+  fromStatus: EventLifecycleStatus | null;
+  toStatus: EventLifecycleStatus | null;
+  comment: string | null;
+  changes: EventAuditFieldChange[];
+  createdAt: string;
+}
+
+// ============================================================================
+// Event Series Types
+// ============================================================================
+
+/**
+ * How often a series repeats.
+ *
+ * @remarks
+ * - DAILY: every `interval` days (e.g. school days: DAILY on MO–FR)
+ * - WEEKLY: every `interval` weeks on the given weekdays
+ */
+export type RecurrenceFrequency = "DAILY" | "WEEKLY";
+
+/**
+ * Weekday codes, as in iCalendar RRULE BYDAY.
+ */
+export type RecurrenceWeekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+/**
+ * RRULE-like recurrence pattern for an event series.
+ *
+ * @remarks
+ * Ends at `until` (inclusive) or after `count` occurrences, whichever comes
+ * first; at least one is required. Unlike RRULE, `count` counts the dates
+ * left after `excludedDates` (holidays) are removed.
+ */
+export interface EventRecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Every N days / weeks (default 1) */
+  interval: number;
+  /** Allowed weekdays; empty means every day (DAILY) or the start date's weekday (WEEKLY) */
+  byWeekday: RecurrenceWeekday[];
+  /** First possible occurrence (YYYY-MM-DD) */
+  startDate: string;
+  until: string | null;
+  count: number | null;
+  /** Dates skipped, e.g. holidays (YYYY-MM-DD) */
+  excludedDates: string[];
+}
+
+/**
+ * Database row for the event_series table.
+ */
+export interface EventSeriesRow {
+  id: string;
+  title: string;
+  recurrence: EventRecurrenceRule;
+  /** Sessions every occurrence starts with */
+  session_template: SessionConfig[];
+  owner_user_id: string | null;
+  /** Set on the later half when a series is split by a "this and following" edit */
+  split_from_series_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+export type EventSeriesInsert = Omit<
+  EventSeriesRow,
+  "id" | "created_at" | "updated_by" | "updated_at"
+>;
+
+/**
+ * Event row fields listed for a series' occurrences.
+ */
+export interface EventSeriesOccurrenceRow {
+  id: string;
+  title: string;
+  start_date: string | null;
+  facility_id: string | null;
+  session_config: EventSessionConfig;
+  scanner_assignments: EventScannerConfig;
+  owner_user_id: string | null;
+  lifecycle_status: EventLifecycleStatus;
+}
+
+/**
+ * Request to create a recurring series and its occurrences.
+ *
+ * @remarks
+ * Occurrences are created as regular events sharing these fields. When the
+ * venue is booked on some dates, the request fails unless
+ * `skipConflictingDates` is set, in which case those dates are left out.
+ */
+export interface CreateEventSeriesDto {
+  title: string;
+  description?: string;
+  posterImageUrl?: string;
+  facilityId?: string;
+  audienceConfig: EventAudienceConfig;
+  scannerConfig: EventScannerConfig;
+  visibility: EventVisibility;
+  recurrence: EventRecurrenceRule;
+  sessionTemplate: SessionConfig[];
+  skipConflictingDates?: boolean;
+}
+
+/**
+ * "This and following" edit: applies to the occurrence `fromEventId` and
+ * every later occurrence of its series.
+ *
+ * @remarks
+ * Editing from a later occurrence splits the series; the edited occurrences
+ * move to a new series. Single-occurrence edits go through PUT /api/sems/events.
+ */
+export interface UpdateEventSeriesDto {
+  seriesId: string;
+  fromEventId: string;
+  title?: string;
+  description?: string;
+  posterImageUrl?: string | null;
+  facilityId?: string | null;
+  audienceConfig?: EventAudienceConfig;
+  scannerConfig?: EventScannerConfig;
+  visibility?: EventVisibility;
+  sessionTemplate?: SessionConfig[];
+  workflowAction?: EventWorkflowAction;
+  workflowComment?: string | null;
+  actionReason?: string | null;
+}
+
+export interface EventSeriesOccurrenceDto {
+  eventId: string;
+  date: string;
+  title: string;
+  lifecycleStatus: EventLifecycleStatus;
+}
+
+export interface EventSeriesDto {
+  id: string;
+  title: string;
+  recurrence: EventRecurrenceRule;
+  sessionTemplate: SessionConfig[];
+  ownerUserId: string | null;
+  splitFromSeriesId: string | null;
+  occurrences: EventSeriesOccurrenceDto[];
+  createdAt: string;
+}
+
+export interface EventSeriesCreateResultDto {
+  series: EventSeriesDto;
+  /** Dates left out because the venue was booked */
+  skippedConflicts: SessionConflict[];
+  /** Holidays and suspensions on the school calendar that were left out */
+  skippedNonSchoolDays: EventNonSchoolDay[];
+}
+
+/**
+ * Occurrence a "this and following" edit could not apply to, e.g. an
+ * already completed event.
+ */
+export interface EventSeriesUpdateFailure {
+  eventId: string;
+  date: string;
+  message: string;
+}
+
+export interface EventSeriesUpdateResultDto {
+  /** The series the edited occurrences now belong to */
+  series: EventSeriesDto;
+  updatedEventIds: string[];
+  failures: EventSeriesUpdateFailure[];
+}
+
+// ============================================================================
+// Event Template & Cloning Types
+// ============================================================================
+
+/**
+ * Sessions of one day of a template, counted from the event's first day.
+ */
+export interface EventTemplateSessionDay {
+  /** 0 for the first day, 1 for the second, ... */
+  dayOffset: number;
+  sessions: SessionConfig[];
+}
+
+/**
+ * Registration settings of a template. The window is stored in minutes from
+ * midnight of the event's first day (negative = before it).
+ */
+export interface EventTemplateRegistration {
+  required: boolean;
+  opensOffsetMinutes: number | null;
+  closesOffsetMinutes: number | null;
+  capacityLimit: number | null;
+}
+
+/**
+ * Database row for the event_templates table.
+ */
+export interface EventTemplateRow {
+  id: string;
+  /** Template name shown in the picker */
+  name: string;
+  /** Title given to events created from the template */
+  title: string;
+  description: string | null;
+  facility_id: string | null;
+  target_audience: EventAudienceConfig;
+  session_days: EventTemplateSessionDay[];
+  scanner_assignments: EventScannerConfig;
+  visibility: EventVisibility;
+  registration: EventTemplateRegistration;
+  owner_user_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type EventTemplateInsert = Omit<EventTemplateRow, "id" | "created_at">;
+
+export interface EventTemplateDto {
+  id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  facilityId: string | null;
+  audienceConfig: EventAudienceConfig;
+  sessionDays: EventTemplateSessionDay[];
+  scannerConfig: EventScannerConfig;
+  visibility: EventVisibility;
+  registration: EventTemplateRegistration;
+  ownerUserId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Request to save an existing event as a template.
+ */
+export interface CreateEventTemplateDto {
+  eventId: string;
+  name: string;
+}
+
+/**
+ * Where a duplicated or template-based draft lands: the new first day and,
+ * optionally, a new title.
+ */
+export interface EventDraftPlacementDto {
+  startDate: string;
+  title?: string;
+}
+
+// ============================================================================
+// Late Report Types
+// ============================================================================
+
+/**
+ * Filters for the late / missing-exit report.
+ *
+ * @remarks
+ * Either `eventId` or a `from`–`to` date range (YYYY-MM-DD, inclusive) selects
+ * the sessions; the placement filters narrow the students.
+ */
+export interface LateReportFilters {
+  eventId?: string;
+  from?: string;
+  to?: string;
+  levelId?: string;
+  sectionId?: string;
+  adviserUserId?: string;
+}
+
+/**
+ * Event as read by the late report.
+ */
+export interface LateReportEventRow {
+  id: string;
+  title: string;
+  start_date: string;
+  end_date: string;
+  owner_user_id: string | null;
+}
+
+/**
+ * event_sessions row with the timing the late report needs.
+ */
+export interface LateReportSessionRow extends EventSessionRow {
+  event_id: string;
+  session_type: string;
+  late_threshold_time: string | null;
+  end_time: string | null;
+}
+
+/**
+ * attendance_logs row as read by the late report.
+ */
+export interface LateReportAttendanceRow {
+  event_session_id: string;
+  student_id: string;
+  status: string;
+  scanned_at: string;
+}
+
+/**
+ * Student with section placement, for report filters and labels.
+ */
+export interface LateReportStudentRow {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  student_school_id: string | null;
+  section_id: string | null;
+}
+
+/**
+ * Section with level and adviser.
+ */
+export interface LateReportSectionRow {
+  id: string;
+  name: string;
+  level_id: string | null;
+  adviser_user_id: string | null;
+}
+
+/**
+ * - `late`: scanned in after the session's late threshold
+ * - `missing_out`: scanned in but never scanned out of the same period
+ */
+export type LateReportIncidentKind = "late" | "missing_out";
+
+/**
+ * Student columns shared by report rows.
+ */
+export interface LateReportStudentDto {
+  studentId: string;
+  fullName: string;
+  lrn: string | null;
+  level: string | null;
+  section: string | null;
+  adviser: string | null;
+}
+
+/**
+ * One late arrival or missing exit.
+ */
+export interface LateReportIncidentDto extends LateReportStudentDto {
+  kind: LateReportIncidentKind;
+  eventId: string;
+  eventTitle: string;
+  eventSessionId: string;
+  sessionName: string;
+  /** School-local date (YYYY-MM-DD) */
+  date: string;
+  period: SessionPeriod;
+  /** Entry scan time */
+  scannedAt: string;
+  /** Late threshold (HH:mm) of the entry session */
+  lateAfter: string | null;
+  /** Minutes after `lateAfter` (late incidents only) */
+  minutesLate: number | null;
+}
+
+/**
+ * A student's incidents across the report, ranked.
+ */
+export interface LateReportOffenderDto extends LateReportStudentDto {
+  /** 1 = most incidents */
+  rank: number;
+  lateCount: number;
+  missingOutCount: number;
+  totalIncidents: number;
+  totalMinutesLate: number;
+  eventCount: number;
+}
+
+/**
+ * Late / missing-exit report.
+ */
+export interface LateReportDto {
+  generatedAt: string;
+  filters: LateReportFilters;
+  events: Array<{ id: string; title: string; startDate: string; endDate: string }>;
+  totalLate: number;
+  totalMissingOut: number;
+  /** Ordered by date, then student */
+  incidents: LateReportIncidentDto[];
+  /** Repeat offenders first */
+  offenders: LateReportOffenderDto[];
+}
+
+// ============================================================================
+// Student Attendance History Types
+// ============================================================================
+
+/**
+ * Period for a student's attendance history (YYYY-MM-DD, inclusive).
+ */
+export interface StudentAttendanceHistoryFilters {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Event as read by the attendance history.
+ */
+export interface StudentHistoryEventRow {
+  id: string;
+  title: string;
+  start_date: string;
+  end_date: string;
+  target_audience: EventAudienceConfig | null;
+  registration_required: boolean;
+}
+
+/**
+ * event_sessions row with the timing the attendance history needs.
+ */
+export interface StudentHistorySessionRow extends EventSessionRow {
+  event_id: string;
+  session_type: string;
+  end_time: string | null;
+}
+
+/**
+ * attendance_logs row of one student.
+ */
+export interface StudentHistoryAttendanceRow {
+  event_session_id: string;
+  status: string;
+  scanned_at: string;
+}
+
+/**
+ * Status of one session in a student's history.
+ *
+ * - `no_scan`: the session has closed without any record for the student
+ * - `pending`: the session has not closed yet; excluded from rates
+ */
+export type StudentSessionAttendanceStatus =
+  | "present"
+  | "late"
+  | "excused"
+  | "absent"
+  | "no_scan"
+  | "pending";
+
+/**
+ * Student identity shown above attendance history.
+ */
+export interface StudentHistoryStudentDto {
+  studentId: string;
+  fullName: string;
+  lrn: string | null;
+  level: string | null;
+  section: string | null;
+}
+
+/**
+ * Session counts and rates.
+ *
+ * @remarks
+ * attendanceRate = (present + late) / (present + late + absent + noScan), the
+ * same basis as event stats; excused sessions are left out.
+ * latenessRate = late / (present + late). Rates are whole percentages, null
+ * when there is nothing to rate.
+ */
+export interface StudentAttendanceSummaryDto {
+  present: number;
+  late: number;
+  excused: number;
+  absent: number;
+  noScan: number;
+  pending: number;
+  attendanceRate: number | null;
+  latenessRate: number | null;
+}
+
+/**
+ * One session occurrence in a student's history.
+ */
+export interface StudentAttendanceSessionDto {
+  eventSessionId: string;
+  name: string;
+  /** School-local date (YYYY-MM-DD); null for sessions created before Phase 1.17 */
+  date: string | null;
+  period: SessionPeriod;
+  direction: "in" | "out";
+  status: StudentSessionAttendanceStatus;
+  scannedAt: string | null;
+}
+
+/**
+ * One targeted event in a student's history.
+ */
+export interface StudentAttendanceEventDto {
+  eventId: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  sessions: StudentAttendanceSessionDto[];
+  summary: StudentAttendanceSummaryDto;
+}
+
+/**
+ * Response of GET /api/sis/students/[id]/attendance.
+ */
+export interface StudentAttendanceHistoryDto {
+  student: StudentHistoryStudentDto;
+  from: string;
+  to: string;
+  summary: StudentAttendanceSummaryDto;
+  /** Most recent first */
+  events: StudentAttendanceEventDto[];
+}
+
 // ============================================================================
 // Validation Types
 // ============================================================================
@@ -606,5 +1930,7 @@ export interface ValidationErrorDetail {
 export interface ValidationResult<T> {
   isValid: boolean;
   errors: ValidationErrorDetail[];
+  /** Problems that don't block saving, e.g. dates on non-school days */
+  warnings?: ValidationErrorDetail[];
   data?: T;
 }
@@ -0,0 +1,171 @@
+/**
+ * Absentee Repository Implementation
+ *
+ * Handles database access for absentee materialization using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AbsenceInsert,
+  AbsenteeSessionRow,
+  AttendanceRecordRow,
+  IAbsenteeRepository,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+/** Rows per page when reading attendance (PostgREST caps responses at 1000 rows). */
+const READ_PAGE_SIZE = 1000;
+
+/** Rows per absent insert request. */
+const INSERT_CHUNK_SIZE = 500;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase implementation of the Absentee repository.
+ */
+export class AbsenteeRepository implements IAbsenteeRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Find IDs of published events that started on or before the given date.
+   *
+   * @throws Error if the database query fails
+   */
+  async findPublishedEventIdsStartedBy(date: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from("events")
+      .select("id")
+      .eq("lifecycle_status", "published")
+      .lte("start_date", date);
+
+    if (error) {
+      console.error("[AbsenteeRepository.findPublishedEventIdsStartedBy] Database error:", error);
+      throw new Error(`Failed to fetch events: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => row.id as string);
+  }
+
+  /**
+   * Find an event's sessions with their materialization marker.
+   *
+   * @throws Error if the database query fails
+   */
+  async findEventSessions(eventId: string): Promise<AbsenteeSessionRow[]> {
+    const { data, error } = await this.supabase
+      .from("event_sessions")
+      .select("id, name, session_date, config_session_id, absentees_materialized_at")
+      .eq("event_id", eventId);
+
+    if (error) {
+      console.error("[AbsenteeRepository.findEventSessions] Database error:", error);
+      throw new Error(`Failed to fetch event sessions: ${error.message}`);
+    }
+
+    return (data ?? []) as AbsenteeSessionRow[];
+  }
+
+  /**
+   * Find all attendance rows (any status) for the given sessions.
+   *
+   * @throws Error if the database query fails
+   */
+  async findAttendanceForSessions(eventSessionIds: string[]): Promise<AttendanceRecordRow[]> {
+    const rows: AttendanceRecordRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(eventSessionIds)), IN_FILTER_CHUNK_SIZE)) {
+      for (let from = 0; ; from += READ_PAGE_SIZE) {
+        const { data, error } = await this.supabase
+          .from("attendance_logs")
+          .select("id, event_session_id, student_id, scanned_at, status, source")
+          .in("event_session_id", ids)
+          .order("id", { ascending: true })
+          .range(from, from + READ_PAGE_SIZE - 1);
+
+        if (error) {
+          console.error("[AbsenteeRepository.findAttendanceForSessions] Database error:", error);
+          throw new Error(`Failed to fetch attendance logs: ${error.message}`);
+        }
+
+        rows.push(...((data ?? []) as AttendanceRecordRow[]));
+        if (!data || data.length < READ_PAGE_SIZE) break;
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Insert absent rows, skipping students who already have a row for the session.
+   *
+   * @returns Number of rows inserted
+   * @throws Error if an insert fails
+   */
+  async insertAbsences(rows: AbsenceInsert[]): Promise<number> {
+    let inserted = 0;
+
+    for (const batch of chunk(rows, INSERT_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("attendance_logs")
+        .upsert(batch, { onConflict: "event_session_id,student_id", ignoreDuplicates: true })
+        .select("id");
+
+      if (error) {
+        console.error("[AbsenteeRepository.insertAbsences] Database error:", error);
+        throw new Error(`Failed to insert absences: ${error.message}`);
+      }
+
+      inserted += data?.length ?? 0;
+    }
+
+    return inserted;
+  }
+
+  /**
+   * Delete attendance rows by ID.
+   *
+   * @throws Error if a delete fails
+   */
+  async deleteAttendance(ids: string[]): Promise<void> {
+    for (const batch of chunk(Array.from(new Set(ids)), IN_FILTER_CHUNK_SIZE)) {
+      const { error } = await this.supabase.from("attendance_logs").delete().in("id", batch);
+
+      if (error) {
+        console.error("[AbsenteeRepository.deleteAttendance] Database error:", error);
+        throw new Error(`Failed to delete attendance logs: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Record when absentees were last materialized for the sessions.
+   *
+   * @throws Error if the update fails
+   */
+  async markSessionsMaterialized(eventSessionIds: string[], materializedAt: string): Promise<void> {
+    if (eventSessionIds.length === 0) return;
+
+    const { error } = await this.supabase
+      .from("event_sessions")
+      .update({ absentees_materialized_at: materializedAt })
+      .in("id", Array.from(new Set(eventSessionIds)));
+
+    if (error) {
+      console.error("[AbsenteeRepository.markSessionsMaterialized] Database error:", error);
+      throw new Error(`Failed to update event sessions: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Attendance Correction Repository Implementation
+ *
+ * Handles database access for manual attendance corrections using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AttendanceCorrectionRow,
+  AttendanceRecordRow,
+  IAttendanceCorrectionRepository,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+/** Postgres unique_violation. */
+const UNIQUE_VIOLATION = "23505";
+
+const RECORD_COLUMNS = "id, event_session_id, student_id, scanned_at, status, source";
+
+const CORRECTION_COLUMNS =
+  "id, event_id, event_session_id, student_id, attendance_log_id, action, previous_status, new_status, reason, corrected_by_user_id, created_at";
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase implementation of the Attendance Correction repository.
+ */
+export class AttendanceCorrectionRepository implements IAttendanceCorrectionRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Find an event session by ID, scoped to the event.
+   *
+   * @throws Error if the database query fails
+   */
+  async findEventSession(
+    eventId: string,
+    eventSessionId: string
+  ): Promise<{ id: string; name: string } | null> {
+    const { data, error } = await this.supabase
+      .from("event_sessions")
+      .select("id, name")
+      .eq("event_id", eventId)
+      .eq("id", eventSessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[AttendanceCorrectionRepository.findEventSession] Database error:", error);
+      throw new Error(`Failed to fetch event session: ${error.message}`);
+    }
+
+    return (data as { id: string; name: string } | null) ?? null;
+  }
+
+  /**
+   * Find an active student of a school by UUID or LRN / school ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findStudent(
+    schoolId: string,
+    identifier: {
+      studentId?: string;
+      lrn?: string;
+    }
+  ): Promise<{ id: string; fullName: string } | null> {
+    let query = this.supabase
+      .from("students")
+      .select("id, first_name, last_name")
+      .eq("school_id", schoolId)
+      .eq("is_active", true);
+
+    if (identifier.studentId) {
+      query = query.eq("id", identifier.studentId);
+    } else if (identifier.lrn) {
+      query = query.eq("student_school_id", identifier.lrn);
+    } else {
+      return null;
+    }
+
+    const { data, error } = await query.limit(1).maybeSingle();
+
+    if (error) {
+      console.error("[AttendanceCorrectionRepository.findStudent] Database error:", error);
+      throw new Error(`Failed to fetch student: ${error.message}`);
+    }
+
+    if (!data) return null;
+
+    const row = data as { id: string; first_name: string | null; last_name: string | null };
+    return {
+      id: row.id,
+      fullName: `${row.first_name ?? ""} ${row.last_name ?? ""}`.trim(),
+    };
+  }
+
+  /**
+   * Fetch display names for students.
+   *
+   * @throws Error if the database query fails
+   */
+  async getStudentNames(studentIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+
+    for (const ids of chunk(Array.from(new Set(studentIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("students")
+        .select("id, first_name, last_name")
+        .in("id", ids);
+
+      if (error) {
+        console.error("[AttendanceCorrectionRepository.getStudentNames] Database error:", error);
+        throw new Error(`Failed to fetch student names: ${error.message}`);
+      }
+
+      for (const row of (data ?? []) as {
+        id: string;
+        first_name: string | null;
+        last_name: string | null;
+      }[]) {
+        names.set(row.id, `${row.first_name ?? ""} ${row.last_name ?? ""}`.trim());
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Find a student's attendance row for a session.
+   *
+   * @throws Error if the database query fails
+   */
+  async findAttendance(
+    eventSessionId: string,
+    studentId: string
+  ): Promise<AttendanceRecordRow | null> {
+    const { data, error } = await this.supabase
+      .from("attendance_logs")
+      .select(RECORD_COLUMNS)
+      .eq("event_session_id", eventSessionId)
+      .eq("student_id", studentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[AttendanceCorrectionRepository.findAttendance] Database error:", error);
+      throw new Error(`Failed to fetch attendance: ${error.message}`);
+    }
+
+    return (data as AttendanceRecordRow | null) ?? null;
+  }
+
+  /**
+   * Insert a manual attendance row.
+   *
+   * @returns The new row, or null if the student already has attendance for the session
+   * @throws Error if the insert fails for any other reason
+   */
+  async insertAttendance(row: {
+    event_session_id: string;
+    student_id: string;
+    scanned_at: string;
+    status: string;
+    source: "manual";
+    synced_by_user_id: string;
+    corrected_at: string;
+    corrected_by_user_id: string;
+  }): Promise<AttendanceRecordRow | null> {
+    const { data, error } = await this.supabase
+      .from("attendance_logs")
+      .insert(row)
+      .select(RECORD_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return null;
+      }
+      console.error("[AttendanceCorrectionRepository.insertAttendance] Database error:", error);
+      throw new Error(`Failed to insert attendance: ${error.message}`);
+    }
+
+    return data as AttendanceRecordRow;
+  }
+
+  /**
+   * Change the status of an attendance row.
+   *
+   * @throws Error if the update fails
+   */
+  async updateAttendanceStatus(
+    id: string,
+    status: string,
+    correctedByUserId: string,
+    correctedAt: string
+  ): Promise<AttendanceRecordRow> {
+    const { data, error } = await this.supabase
+      .from("attendance_logs")
+      .update({ status, corrected_at: correctedAt, corrected_by_user_id: correctedByUserId })
+      .eq("id", id)
+      .select(RECORD_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("[AttendanceCorrectionRepository.updateAttendanceStatus] Database error:", error);
+      throw new Error(`Failed to update attendance: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data as AttendanceRecordRow;
+  }
+
+  /**
+   * Delete an attendance row.
+   *
+   * @throws Error if the delete fails
+   */
+  async deleteAttendance(id: string): Promise<void> {
+    const { error } = await this.supabase.from("attendance_logs").delete().eq("id", id);
+
+    if (error) {
+      console.error("[AttendanceCorrectionRepository.deleteAttendance] Database error:", error);
+      throw new Error(`Failed to delete attendance: ${error.message}`);
+    }
+  }
+
+  /**
+   * Append a correction to the audit table.
+   *
+   * @throws Error if the insert fails
+   */
+  async insertCorrection(
+    row: Omit<AttendanceCorrectionRow, "id" | "created_at">
+  ): Promise<AttendanceCorrectionRow> {
+    const { data, error } = await this.supabase
+      .from("attendance_corrections")
+      .insert(row)
+      .select(CORRECTION_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("[AttendanceCorrectionRepository.insertCorrection] Database error:", error);
+      throw new Error(`Failed to record attendance correction: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data as AttendanceCorrectionRow;
+  }
+
+  /**
+   * List an event's corrections, newest first.
+   *
+   * @throws Error if the database query fails
+   */
+  async findCorrectionsByEvent(eventId: string, limit: number): Promise<AttendanceCorrectionRow[]> {
+    const { data, error } = await this.supabase
+      .from("attendance_corrections")
+      .select(CORRECTION_COLUMNS)
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("[AttendanceCorrectionRepository.findCorrectionsByEvent] Database error:", error);
+      throw new Error(`Failed to fetch attendance corrections: ${error.message}`);
+    }
+
+    return (data ?? []) as AttendanceCorrectionRow[];
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Event Series Repository Implementation
+ *
+ * Handles database access for recurring event series using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
+import type {
+  EventSeriesInsert,
+  EventSeriesOccurrenceRow,
+  EventSeriesRow,
+  IEventSeriesRepository,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+const SERIES_COLUMNS =
+  "id, title, recurrence, session_template, owner_user_id, split_from_series_id, created_by, created_at, updated_by, updated_at";
+
+const OCCURRENCE_COLUMNS =
+  "id, title, start_date, facility_id, session_config, scanner_assignments, owner_user_id, lifecycle_status";
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase implementation of the Event Series repository, within one school
+ * (or all schools when `schoolId` is null).
+ */
+export class EventSeriesRepository implements IEventSeriesRepository {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly schoolId: SchoolScope
+  ) {}
+
+  /**
+   * Create a series row.
+   *
+   * @throws Error if the database insert fails
+   */
+  async create(row: EventSeriesInsert): Promise<EventSeriesRow> {
+    const { data, error } = await this.supabase
+      .from("event_series")
+      .insert({ ...row, school_id: this.schoolId })
+      .select(SERIES_COLUMNS)
+      .single<EventSeriesRow>();
+
+    if (error || !data) {
+      console.error("[EventSeriesRepository.create] Database error:", error);
+      throw new Error(`Failed to create event series: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Find a series by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findById(id: string): Promise<EventSeriesRow | null> {
+    const { data, error } = await this.supabase
+      .from("event_series")
+      .select(SERIES_COLUMNS)
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId))
+      .maybeSingle<EventSeriesRow>();
+
+    if (error) {
+      console.error("[EventSeriesRepository.findById] Database error:", error);
+      throw new Error(`Failed to fetch event series: ${error.message}`);
+    }
+
+    return data ?? null;
+  }
+
+  /**
+   * Update a series' title, recurrence or session template.
+   *
+   * @throws Error if the database update fails
+   */
+  async update(
+    id: string,
+    changes: Partial<Pick<EventSeriesRow, "title" | "recurrence" | "session_template">>,
+    updatedBy: string
+  ): Promise<EventSeriesRow> {
+    const { data, error } = await this.supabase
+      .from("event_series")
+      .update({ ...changes, updated_by: updatedBy, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId))
+      .select(SERIES_COLUMNS)
+      .single<EventSeriesRow>();
+
+    if (error || !data) {
+      console.error("[EventSeriesRepository.update] Database error:", error);
+      throw new Error(`Failed to update event series: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * List a series' occurrences by date.
+   *
+   * @throws Error if the database query fails
+   */
+  async findOccurrences(seriesId: string): Promise<EventSeriesOccurrenceRow[]> {
+    const { data, error } = await this.supabase
+      .from("events")
+      .select(OCCURRENCE_COLUMNS)
+      .eq("series_id", seriesId)
+      .match(schoolFilter(this.schoolId))
+      .order("start_date", { ascending: true });
+
+    if (error) {
+      console.error("[EventSeriesRepository.findOccurrences] Database error:", error);
+      throw new Error(`Failed to fetch series occurrences: ${error.message}`);
+    }
+
+    return (data ?? []) as EventSeriesOccurrenceRow[];
+  }
+
+  /**
+   * Move occurrences to another series.
+   *
+   * @throws Error if the database update fails
+   */
+  async reassignOccurrences(eventIds: string[], seriesId: string): Promise<void> {
+    for (const ids of chunk(eventIds, IN_FILTER_CHUNK_SIZE)) {
+      const { error } = await this.supabase
+        .from("events")
+        .update({ series_id: seriesId })
+        .in("id", ids)
+        .match(schoolFilter(this.schoolId));
+
+      if (error) {
+        console.error("[EventSeriesRepository.reassignOccurrences] Database error:", error);
+        throw new Error(`Failed to move series occurrences: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Delete a series row.
+   *
+   * @throws Error if the database delete fails
+   */
+  async delete(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("event_series")
+      .delete()
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId));
+
+    if (error) {
+      console.error("[EventSeriesRepository.delete] Database error:", error);
+      throw new Error(`Failed to delete event series: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Event Template Repository Implementation
+ *
+ * Handles database access for event templates using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
+import type { EventTemplateInsert, EventTemplateRow, IEventTemplateRepository } from "../domain";
+
+const TEMPLATE_COLUMNS =
+  "id, name, title, description, facility_id, target_audience, session_days, scanner_assignments, visibility, registration, owner_user_id, created_by, created_at";
+
+/**
+ * Supabase implementation of the Event Template repository, within one
+ * school (or all schools when `schoolId` is null).
+ */
+export class EventTemplateRepository implements IEventTemplateRepository {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly schoolId: SchoolScope
+  ) {}
+
+  /**
+   * Create a template.
+   *
+   * @throws Error if the database insert fails
+   */
+  async create(row: EventTemplateInsert): Promise<EventTemplateRow> {
+    const { data, error } = await this.supabase
+      .from("event_templates")
+      .insert({ ...row, school_id: this.schoolId })
+      .select(TEMPLATE_COLUMNS)
+      .single<EventTemplateRow>();
+
+    if (error || !data) {
+      console.error("[EventTemplateRepository.create] Database error:", error);
+      throw new Error(`Failed to create event template: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Find a template by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findById(id: string): Promise<EventTemplateRow | null> {
+    const { data, error } = await this.supabase
+      .from("event_templates")
+      .select(TEMPLATE_COLUMNS)
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId))
+      .maybeSingle<EventTemplateRow>();
+
+    if (error) {
+      console.error("[EventTemplateRepository.findById] Database error:", error);
+      throw new Error(`Failed to fetch event template: ${error.message}`);
+    }
+
+    return data ?? null;
+  }
+
+  /**
+   * All templates, by name.
+   *
+   * @throws Error if the database query fails
+   */
+  async findAll(): Promise<EventTemplateRow[]> {
+    const { data, error } = await this.supabase
+      .from("event_templates")
+      .select(TEMPLATE_COLUMNS)
+      .match(schoolFilter(this.schoolId))
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("[EventTemplateRepository.findAll] Database error:", error);
+      throw new Error(`Failed to fetch event templates: ${error.message}`);
+    }
+
+    return (data ?? []) as EventTemplateRow[];
+  }
+
+  /**
+   * Delete a template. Events created from it are not affected.
+   *
+   * @throws Error if the database delete fails
+   */
+  async delete(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("event_templates")
+      .delete()
+      .eq("id", id)
+      .match(schoolFilter(this.schoolId));
+
+    if (error) {
+      console.error("[EventTemplateRepository.delete] Database error:", error);
+      throw new Error(`Failed to delete event template: ${error.message}`);
+    }
+  }
+}
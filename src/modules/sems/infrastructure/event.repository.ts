@@ -9,6 +9,7 @@
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
 import type {
   IEventRepository,
   CreateEventDto,
@@ -23,8 +24,18 @@ import type {
   EventWithFacilityRow,
   StudentAudienceContext,
   ListEventsOptions,
+  EventRegistrationRow,
+  EventRegistrationStatus,
+  EventAuditLogInsert,
+  EventAuditLogRow,
 } from "../domain";
 
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+const AUDIT_LOG_COLUMNS =
+  "id, event_id, action, actor_user_id, from_status, to_status, comment, changes, created_at";
+
 /**
  * Maps a database row to an EventDto for API responses.
  *
@@ -70,6 +81,8 @@ function mapRowToDto(row: EventWithFacilityRow): EventDto {
     cancelledBy: row.cancelled_by,
     cancelledAt: row.cancelled_at,
     cancellationReason: row.cancellation_reason,
+    seriesId: row.series_id ?? null,
+    schoolId: row.school_id,
     createdBy: row.created_by,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
@@ -100,9 +113,15 @@ type RawStudentGuardianRow = {
  * @remarks
  * Dependency Injection: Receives SupabaseClient via constructor.
  * This allows for easy testing with mock clients.
+ *
+ * Events, facilities, students, levels and sections are read and written
+ * within `schoolId`; null (all schools) is for SUPER_ADMIN and system jobs.
  */
 export class EventRepository implements IEventRepository {
-  constructor(private readonly supabase: SupabaseClient) {}
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly schoolId: SchoolScope
+  ) {}
 
   /**
    * Create a new event in the database.
@@ -142,6 +161,8 @@ export class EventRepository implements IEventRepository {
       cancelled_by: dto.cancelledBy ?? null,
       cancelled_at: dto.cancelledAt ?? null,
       cancellation_reason: dto.cancellationReason ?? null,
+      series_id: dto.seriesId ?? null,
+      school_id: this.schoolId,
       created_by: createdBy,
     };
 
@@ -180,6 +201,8 @@ export class EventRepository implements IEventRepository {
         cancelled_by,
         cancelled_at,
         cancellation_reason,
+        series_id,
+        school_id,
         created_by,
         created_at,
         updated_by,
@@ -304,6 +327,7 @@ export class EventRepository implements IEventRepository {
       .from("events")
       .update(updatePayload)
       .eq("id", dto.id)
+      .match(schoolFilter(this.schoolId))
       .select(
         `
         id,
@@ -336,6 +360,8 @@ export class EventRepository implements IEventRepository {
         cancelled_by,
         cancelled_at,
         cancellation_reason,
+        series_id,
+        school_id,
         created_by,
         created_at,
         updated_by,
@@ -397,6 +423,8 @@ export class EventRepository implements IEventRepository {
         cancelled_by,
         cancelled_at,
         cancellation_reason,
+        series_id,
+        school_id,
         created_by,
         created_at,
         updated_by,
@@ -404,6 +432,7 @@ export class EventRepository implements IEventRepository {
       `
       )
       .eq("id", id)
+      .match(schoolFilter(this.schoolId))
       .single<EventRow>();
 
     if (error) {
@@ -459,6 +488,8 @@ export class EventRepository implements IEventRepository {
         cancelled_by,
         cancelled_at,
         cancellation_reason,
+        series_id,
+        school_id,
         created_by,
         created_at,
         updated_by,
@@ -471,6 +502,7 @@ export class EventRepository implements IEventRepository {
       `
       )
       .eq("id", id)
+      .match(schoolFilter(this.schoolId))
       .single<EventWithFacilityRow>();
 
     if (error) {
@@ -500,6 +532,7 @@ export class EventRepository implements IEventRepository {
       .select("id")
       .eq("id", facilityId)
       .eq("status", "operational")
+      .match(schoolFilter(this.schoolId))
       .single();
 
     if (error) {
@@ -558,6 +591,8 @@ export class EventRepository implements IEventRepository {
         cancelled_by,
         cancelled_at,
         cancellation_reason,
+        series_id,
+        school_id,
         created_by,
         created_at,
         updated_by,
@@ -570,7 +605,8 @@ export class EventRepository implements IEventRepository {
       `,
         { count: "exact" }
       )
-      .order("start_date", { ascending: false, nullsFirst: false });
+      .order("start_date", { ascending: false, nullsFirst: false })
+      .match(schoolFilter(this.schoolId));
 
     if (!options?.disablePagination) {
       query = query.range(offset, offset + pageSize - 1);
@@ -682,6 +718,8 @@ export class EventRepository implements IEventRepository {
         cancelled_by,
         cancelled_at,
         cancellation_reason,
+        series_id,
+        school_id,
         created_by,
         created_at,
         updated_by,
@@ -697,7 +735,8 @@ export class EventRepository implements IEventRepository {
       .order("start_date", { ascending: false, nullsFirst: false })
       .eq("lifecycle_status", "published")
       .range(offset, offset + pageSize - 1)
-      .contains("scanner_assignments", { scannerIds: [scannerId] });
+      .contains("scanner_assignments", { scannerIds: [scannerId] })
+      .match(schoolFilter(this.schoolId));
 
     if (options?.facilityId) {
       query = query.eq("facility_id", options.facilityId);
@@ -731,7 +770,8 @@ export class EventRepository implements IEventRepository {
     const { count, error } = await this.supabase
       .from("students")
       .select("id", { count: "exact", head: true })
-      .eq("is_active", true);
+      .eq("is_active", true)
+      .match(schoolFilter(this.schoolId));
 
     if (error) {
       console.error("[EventRepository.countActiveStudents] Error:", error);
@@ -754,7 +794,8 @@ export class EventRepository implements IEventRepository {
     const { data: sections, error: sectionsError } = await this.supabase
       .from("sections")
       .select("id")
-      .in("level_id", levelIds);
+      .in("level_id", levelIds)
+      .match(schoolFilter(this.schoolId));
 
     if (sectionsError || !sections) {
       console.error("[EventRepository.countStudentsByLevels] Error:", sectionsError);
@@ -768,7 +809,8 @@ export class EventRepository implements IEventRepository {
       .from("students")
       .select("id", { count: "exact", head: true })
       .in("section_id", sectionIds)
-      .eq("is_active", true);
+      .eq("is_active", true)
+      .match(schoolFilter(this.schoolId));
 
     if (error) {
       console.error("[EventRepository.countStudentsByLevels] Error:", error);
@@ -791,7 +833,8 @@ export class EventRepository implements IEventRepository {
       .from("students")
       .select("id", { count: "exact", head: true })
       .in("section_id", sectionIds)
-      .eq("is_active", true);
+      .eq("is_active", true)
+      .match(schoolFilter(this.schoolId));
 
     if (error) {
       console.error("[EventRepository.countStudentsBySections] Error:", error);
@@ -870,7 +913,8 @@ export class EventRepository implements IEventRepository {
       .not("facility_id", "is", null)
       // Date range overlap: event.start <= request.end AND event.end >= request.start
       .or(`start_date.lte.${endDate},event_date.lte.${endDate}`)
-      .or(`end_date.gte.${startDate},start_date.gte.${startDate},event_date.gte.${startDate}`);
+      .or(`end_date.gte.${startDate},start_date.gte.${startDate},event_date.gte.${startDate}`)
+      .match(schoolFilter(this.schoolId));
 
     // Exclude specific event if provided (for edit mode)
     if (excludeEventId) {
@@ -923,6 +967,7 @@ export class EventRepository implements IEventRepository {
       .from("facilities")
       .select("id, name, location_identifier, image_url, capacity")
       .eq("status", "operational")
+      .match(schoolFilter(this.schoolId))
       .order("name", { ascending: true });
 
     if (error) {
@@ -1032,6 +1077,238 @@ export class EventRepository implements IEventRepository {
       .filter((context) => Boolean(context.studentId));
   }
 
+  /**
+   * Resolve the audience context for a single active student.
+   *
+   * @param studentId - UUID of the student
+   * @returns Section/level context, or null if not found or inactive
+   */
+  async getStudentContextById(studentId: string): Promise<StudentAudienceContext | null> {
+    const { data: student, error } = await this.supabase
+      .from("students")
+      .select("id, section_id")
+      .eq("id", studentId)
+      .eq("is_active", true)
+      .match(schoolFilter(this.schoolId))
+      .maybeSingle();
+
+    if (error) {
+      console.error("[EventRepository.getStudentContextById] Database error:", error);
+      throw new Error(`Failed to fetch student: ${error.message}`);
+    }
+
+    if (!student) {
+      return null;
+    }
+
+    let levelId: string | null = null;
+    if (student.section_id) {
+      const { data: section, error: sectionError } = await this.supabase
+        .from("sections")
+        .select("level_id")
+        .eq("id", student.section_id)
+        .maybeSingle();
+
+      if (sectionError) {
+        console.error("[EventRepository.getStudentContextById] Section error:", sectionError);
+      }
+
+      levelId = section?.level_id ?? null;
+    }
+
+    return {
+      studentId: student.id,
+      sectionId: student.section_id ?? null,
+      levelId,
+    };
+  }
+
+  /**
+   * Get student display names by their IDs.
+   *
+   * @param studentIds - Array of student UUIDs
+   * @returns Map of student ID to "First Last"
+   */
+  async getStudentNames(studentIds: string[]): Promise<Map<string, string>> {
+    if (studentIds.length === 0) return new Map();
+
+    const { data, error } = await this.supabase
+      .from("students")
+      .select("id, first_name, last_name")
+      .in("id", studentIds);
+
+    if (error || !data) {
+      console.error("[EventRepository.getStudentNames] Error:", error);
+      return new Map();
+    }
+
+    return new Map(
+      data.map((s) => [s.id, [s.first_name, s.last_name].filter(Boolean).join(" ")])
+    );
+  }
+
+  /**
+   * List all registrations for an event, oldest first.
+   *
+   * @param eventId - UUID of the event
+   * @returns Registration rows ordered by registered_at
+   */
+  async findRegistrationsByEvent(eventId: string): Promise<EventRegistrationRow[]> {
+    const { data, error } = await this.supabase
+      .from("event_registrations")
+      .select("*")
+      .eq("event_id", eventId)
+      .order("registered_at", { ascending: true });
+
+    if (error) {
+      console.error("[EventRepository.findRegistrationsByEvent] Database error:", error);
+      throw new Error(`Failed to fetch registrations: ${error.message}`);
+    }
+
+    return (data ?? []) as EventRegistrationRow[];
+  }
+
+  /**
+   * Find a student's registration for an event.
+   *
+   * @returns The registration row, or null if the student is not registered
+   */
+  async findRegistration(eventId: string, studentId: string): Promise<EventRegistrationRow | null> {
+    const { data, error } = await this.supabase
+      .from("event_registrations")
+      .select("*")
+      .eq("event_id", eventId)
+      .eq("student_id", studentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[EventRepository.findRegistration] Database error:", error);
+      throw new Error(`Failed to fetch registration: ${error.message}`);
+    }
+
+    return (data as EventRegistrationRow | null) ?? null;
+  }
+
+  /**
+   * Count registrations for an event, optionally filtered by status.
+   */
+  async countRegistrations(eventId: string, status?: EventRegistrationStatus): Promise<number> {
+    let query = this.supabase
+      .from("event_registrations")
+      .select("id", { count: "exact", head: true })
+      .eq("event_id", eventId);
+
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+      console.error("[EventRepository.countRegistrations] Database error:", error);
+      throw new Error(`Failed to count registrations: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  /**
+   * Register a student through `register_event_student` (migration
+   * Phase_1.10), which places them with the event row locked.
+   *
+   * @param eventId - UUID of the event
+   * @param studentId - UUID of the student
+   * @param registeredBy - UUID of the app user performing the registration
+   * @returns The created registration row
+   * @throws Error if the database call fails (including unique violations)
+   */
+  async createRegistration(
+    eventId: string,
+    studentId: string,
+    registeredBy: string
+  ): Promise<EventRegistrationRow> {
+    const { data, error } = await this.supabase
+      .rpc("register_event_student", {
+        p_event_id: eventId,
+        p_student_id: studentId,
+        p_registered_by: registeredBy,
+      })
+      .single();
+
+    if (error) {
+      console.error("[EventRepository.createRegistration] Database error:", error);
+      throw new Error(`Failed to create registration: ${error.message}`);
+    }
+
+    return data as EventRegistrationRow;
+  }
+
+  /**
+   * Promote or demote a registration through `move_event_registration`.
+   *
+   * @param registrationId - UUID of the registration row
+   * @param status - Where the registration moves to
+   * @param updatedBy - UUID of the acting user
+   * @returns The updated row, or null if it could not be moved
+   */
+  async moveRegistration(
+    registrationId: string,
+    status: EventRegistrationStatus,
+    updatedBy: string
+  ): Promise<EventRegistrationRow | null> {
+    const { data, error } = await this.supabase
+      .rpc("move_event_registration", {
+        p_registration_id: registrationId,
+        p_status: status,
+        p_updated_by: updatedBy,
+      })
+      .maybeSingle();
+
+    if (error) {
+      console.error("[EventRepository.moveRegistration] Database error:", error);
+      throw new Error(`Failed to update registration: ${error.message}`);
+    }
+
+    return (data as EventRegistrationRow | null) ?? null;
+  }
+
+  /**
+   * Fill free seats from the waitlist through `promote_event_waitlist`.
+   *
+   * @param eventId - UUID of the event
+   * @returns The promoted registration rows
+   */
+  async promoteWaitlist(eventId: string): Promise<EventRegistrationRow[]> {
+    const { data, error } = await this.supabase.rpc("promote_event_waitlist", { p_event_id: eventId });
+
+    if (error) {
+      console.error("[EventRepository.promoteWaitlist] Database error:", error);
+      throw new Error(`Failed to promote waitlist: ${error.message}`);
+    }
+
+    return (data ?? []) as EventRegistrationRow[];
+  }
+
+  /**
+   * Delete a student's registration for an event.
+   *
+   * @returns True if a registration was removed
+   */
+  async deleteRegistration(eventId: string, studentId: string): Promise<boolean> {
+    const { error, count } = await this.supabase
+      .from("event_registrations")
+      .delete({ count: "exact" })
+      .eq("event_id", eventId)
+      .eq("student_id", studentId);
+
+    if (error) {
+      console.error("[EventRepository.deleteRegistration] Database error:", error);
+      throw new Error(`Failed to delete registration: ${error.message}`);
+    }
+
+    return (count ?? 0) > 0;
+  }
+
   /**
    * Delete multiple events by their IDs.
    *
@@ -1044,7 +1321,8 @@ export class EventRepository implements IEventRepository {
     const { error, count } = await this.supabase
       .from("events")
       .delete({ count: "exact" })
-      .in("id", ids);
+      .in("id", ids)
+      .match(schoolFilter(this.schoolId));
 
     if (error) {
       console.error("[EventRepository.deleteManyByIds] Database error:", error);
@@ -1053,4 +1331,67 @@ export class EventRepository implements IEventRepository {
 
     return count ?? 0;
   }
+
+  /**
+   * Append an entry to the event's audit log.
+   *
+   * @throws Error if the database insert fails
+   */
+  async insertAuditEntry(row: EventAuditLogInsert): Promise<void> {
+    const { error } = await this.supabase.from("event_audit_log").insert(row);
+
+    if (error) {
+      console.error("[EventRepository.insertAuditEntry] Database error:", error);
+      throw new Error(`Failed to write event audit log: ${error.message}`);
+    }
+  }
+
+  /**
+   * List an event's audit log, newest first.
+   *
+   * @throws Error if the database query fails
+   */
+  async findAuditLog(eventId: string, limit: number): Promise<EventAuditLogRow[]> {
+    const { data, error } = await this.supabase
+      .from("event_audit_log")
+      .select(AUDIT_LOG_COLUMNS)
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("[EventRepository.findAuditLog] Database error:", error);
+      throw new Error(`Failed to fetch event audit log: ${error.message}`);
+    }
+
+    return (data ?? []) as EventAuditLogRow[];
+  }
+
+  /**
+   * Resolve display names for app users.
+   *
+   * @throws Error if the database query fails
+   */
+  async getUserNames(userIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    const uniqueIds = Array.from(new Set(userIds.filter(Boolean)));
+
+    for (let i = 0; i < uniqueIds.length; i += IN_FILTER_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from("app_users")
+        .select("id, full_name")
+        .in("id", uniqueIds.slice(i, i + IN_FILTER_CHUNK_SIZE));
+
+      if (error) {
+        console.error("[EventRepository.getUserNames] Database error:", error);
+        throw new Error(`Failed to fetch users: ${error.message}`);
+      }
+
+      for (const row of data ?? []) {
+        names.set(row.id, row.full_name);
+      }
+    }
+
+    return names;
+  }
 }
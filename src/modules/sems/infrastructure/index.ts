@@ -3,3 +3,12 @@
  */
 
 export { EventRepository } from "./event.repository";
+export { EventSeriesRepository } from "./event-series.repository";
+export { EventTemplateRepository } from "./event-template.repository";
+export { ScanRepository } from "./scan.repository";
+export { ScannerResourceRepository } from "./scanner-resource.repository";
+export { QrCredentialRepository } from "./qr-credential.repository";
+export { AttendanceCorrectionRepository } from "./attendance-correction.repository";
+export { AbsenteeRepository } from "./absentee.repository";
+export { LateReportRepository } from "./late-report.repository";
+export { StudentAttendanceRepository } from "./student-attendance.repository";
@@ -0,0 +1,251 @@
+/**
+ * Late Report Repository Implementation
+ *
+ * Handles database access for the late / missing-exit report using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
+import type {
+  ILateReportRepository,
+  LateReportAttendanceRow,
+  LateReportEventRow,
+  LateReportSectionRow,
+  LateReportSessionRow,
+  LateReportStudentRow,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+/** Rows per page when reading attendance (PostgREST caps responses at 1000 rows). */
+const READ_PAGE_SIZE = 1000;
+
+const EVENT_COLUMNS = "id, title, start_date, end_date, owner_user_id";
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase implementation of the Late Report repository. Events are read within
+ * `schoolId` (all schools when null).
+ */
+export class LateReportRepository implements ILateReportRepository {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly schoolId: SchoolScope
+  ) {}
+
+  /**
+   * Find events by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findEventsByIds(eventIds: string[]): Promise<LateReportEventRow[]> {
+    const rows: LateReportEventRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(eventIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase.from("events").select(EVENT_COLUMNS).in("id", ids);
+
+      if (error) {
+        console.error("[LateReportRepository.findEventsByIds] Database error:", error);
+        throw new Error(`Failed to fetch events: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as LateReportEventRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find published or completed events overlapping a date range.
+   *
+   * @throws Error if the database query fails
+   */
+  async findEventsInRange(from: string, to: string): Promise<LateReportEventRow[]> {
+    const { data, error } = await this.supabase
+      .from("events")
+      .select(EVENT_COLUMNS)
+      .in("lifecycle_status", ["published", "completed"])
+      .lte("start_date", to)
+      .gte("end_date", from)
+      .match(schoolFilter(this.schoolId))
+      .order("start_date", { ascending: true });
+
+    if (error) {
+      console.error("[LateReportRepository.findEventsInRange] Database error:", error);
+      throw new Error(`Failed to fetch events: ${error.message}`);
+    }
+
+    return (data ?? []) as LateReportEventRow[];
+  }
+
+  /**
+   * Find all sessions of the given events.
+   *
+   * @throws Error if the database query fails
+   */
+  async findSessionsByEvents(eventIds: string[]): Promise<LateReportSessionRow[]> {
+    const rows: LateReportSessionRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(eventIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("event_sessions")
+        .select(
+          "id, event_id, name, session_type, late_threshold_time, end_time, session_date, config_session_id"
+        )
+        .in("event_id", ids);
+
+      if (error) {
+        console.error("[LateReportRepository.findSessionsByEvents] Database error:", error);
+        throw new Error(`Failed to fetch event sessions: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as LateReportSessionRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find attended (non-absent) rows for the given sessions.
+   *
+   * @throws Error if the database query fails
+   */
+  async findAttendanceForSessions(eventSessionIds: string[]): Promise<LateReportAttendanceRow[]> {
+    const rows: LateReportAttendanceRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(eventSessionIds)), IN_FILTER_CHUNK_SIZE)) {
+      for (let from = 0; ; from += READ_PAGE_SIZE) {
+        const { data, error } = await this.supabase
+          .from("attendance_logs")
+          .select("id, event_session_id, student_id, status, scanned_at")
+          .in("event_session_id", ids)
+          .neq("status", "absent")
+          .order("id", { ascending: true })
+          .range(from, from + READ_PAGE_SIZE - 1);
+
+        if (error) {
+          console.error("[LateReportRepository.findAttendanceForSessions] Database error:", error);
+          throw new Error(`Failed to fetch attendance logs: ${error.message}`);
+        }
+
+        rows.push(...((data ?? []) as LateReportAttendanceRow[]));
+        if (!data || data.length < READ_PAGE_SIZE) break;
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find students by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findStudents(studentIds: string[]): Promise<LateReportStudentRow[]> {
+    const rows: LateReportStudentRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(studentIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("students")
+        .select("id, first_name, last_name, student_school_id, section_id")
+        .in("id", ids);
+
+      if (error) {
+        console.error("[LateReportRepository.findStudents] Database error:", error);
+        throw new Error(`Failed to fetch students: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as LateReportStudentRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find sections by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findSections(sectionIds: string[]): Promise<LateReportSectionRow[]> {
+    const rows: LateReportSectionRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(sectionIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("sections")
+        .select("id, name, level_id, adviser_user_id")
+        .in("id", ids);
+
+      if (error) {
+        console.error("[LateReportRepository.findSections] Database error:", error);
+        throw new Error(`Failed to fetch sections: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as LateReportSectionRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Fetch level names by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async getLevelNames(levelIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+
+    for (const ids of chunk(Array.from(new Set(levelIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase.from("levels").select("id, name").in("id", ids);
+
+      if (error) {
+        console.error("[LateReportRepository.getLevelNames] Database error:", error);
+        throw new Error(`Failed to fetch levels: ${error.message}`);
+      }
+
+      for (const row of data ?? []) {
+        names.set(row.id, row.name);
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Fetch user display names by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async getUserNames(userIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+
+    for (const ids of chunk(Array.from(new Set(userIds.filter(Boolean))), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("app_users")
+        .select("id, full_name")
+        .in("id", ids);
+
+      if (error) {
+        console.error("[LateReportRepository.getUserNames] Database error:", error);
+        throw new Error(`Failed to fetch users: ${error.message}`);
+      }
+
+      for (const row of data ?? []) {
+        names.set(row.id, row.full_name);
+      }
+    }
+
+    return names;
+  }
+}
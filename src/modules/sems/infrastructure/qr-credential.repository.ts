@@ -0,0 +1,140 @@
+/**
+ * QR Credential Repository Implementation
+ *
+ * Handles database access for QR signing keys and student QR credentials
+ * using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations; private keys
+ * never leave the server.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
+import type {
+  IQrCredentialRepository,
+  QrSigningKeyRow,
+  StudentQrCredentialRow,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+const KEY_COLUMNS = "kid, algorithm, public_key_jwk, private_key_jwk, status, created_at, retired_at";
+
+const CREDENTIAL_COLUMNS = "id, qr_hash, qr_issued_at, qr_revoked_at";
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase implementation of the QR Credential repository. Student rows are
+ * read and updated within `schoolId` (all schools when null); signing keys
+ * are shared.
+ */
+export class QrCredentialRepository implements IQrCredentialRepository {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly schoolId: SchoolScope
+  ) {}
+
+  /**
+   * Find signing keys that are not revoked, newest first.
+   *
+   * @throws Error if the database query fails
+   */
+  async findUsableSigningKeys(): Promise<QrSigningKeyRow[]> {
+    const { data, error } = await this.supabase
+      .from("qr_signing_keys")
+      .select(KEY_COLUMNS)
+      .neq("status", "revoked")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("[QrCredentialRepository.findUsableSigningKeys] Database error:", error);
+      throw new Error(`Failed to fetch QR signing keys: ${error.message}`);
+    }
+
+    return (data ?? []) as QrSigningKeyRow[];
+  }
+
+  /**
+   * Store a new signing key.
+   *
+   * @throws Error if the insert fails
+   */
+  async createSigningKey(
+    row: Omit<QrSigningKeyRow, "created_at" | "retired_at">
+  ): Promise<QrSigningKeyRow> {
+    const { data, error } = await this.supabase
+      .from("qr_signing_keys")
+      .insert(row)
+      .select(KEY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("[QrCredentialRepository.createSigningKey] Database error:", error);
+      throw new Error(`Failed to store QR signing key: ${error?.message ?? "No data returned"}`);
+    }
+
+    return data as QrSigningKeyRow;
+  }
+
+  /**
+   * Fetch QR credential columns for students.
+   *
+   * @throws Error if the database query fails
+   */
+  async findStudentCredentials(studentIds: string[]): Promise<StudentQrCredentialRow[]> {
+    const rows: StudentQrCredentialRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(studentIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("students")
+        .select(CREDENTIAL_COLUMNS)
+        .in("id", ids)
+        .match(schoolFilter(this.schoolId));
+
+      if (error) {
+        console.error("[QrCredentialRepository.findStudentCredentials] Database error:", error);
+        throw new Error(`Failed to fetch student QR credentials: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as StudentQrCredentialRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Update a student's QR credential columns.
+   *
+   * @returns The updated row, or null if the student doesn't exist
+   * @throws Error if the update fails
+   */
+  async updateStudentCredential(
+    studentId: string,
+    patch: Partial<Omit<StudentQrCredentialRow, "id">>
+  ): Promise<StudentQrCredentialRow | null> {
+    const { data, error } = await this.supabase
+      .from("students")
+      .update(patch)
+      .eq("id", studentId)
+      .match(schoolFilter(this.schoolId))
+      .select(CREDENTIAL_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[QrCredentialRepository.updateStudentCredential] Database error:", error);
+      throw new Error(`Failed to update student QR credential: ${error.message}`);
+    }
+
+    return (data as StudentQrCredentialRow | null) ?? null;
+  }
+}
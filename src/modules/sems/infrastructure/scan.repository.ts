@@ -0,0 +1,364 @@
+/**
+ * Scan Repository Implementation
+ *
+ * Handles database access for uploaded scanner data using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AttendanceLogInsert,
+  AttendanceLogKeyRow,
+  AttendancePeerRow,
+  EventSessionRow,
+  IScanRepository,
+  ScanAuditEntry,
+  SessionConfig,
+  StudentAudienceContext,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+/** Max rows per bulk insert request. */
+const INSERT_CHUNK_SIZE = 500;
+
+/** Postgres unique_violation. */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Error carrying the Postgres error code from a failed write.
+ */
+export class ScanPersistenceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null
+  ) {
+    super(message);
+    this.name = "ScanPersistenceError";
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase implementation of the Scan repository.
+ */
+export class ScanRepository implements IScanRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Resolve section/level contexts for active students.
+   *
+   * @param studentIds - Student UUIDs (duplicates are ignored)
+   * @returns Contexts for students that exist and are active
+   * @throws Error if a database query fails
+   */
+  async getStudentContexts(studentIds: string[]): Promise<StudentAudienceContext[]> {
+    const uniqueIds = Array.from(new Set(studentIds.filter(Boolean)));
+    if (uniqueIds.length === 0) return [];
+
+    const students: { id: string; section_id: string | null }[] = [];
+
+    for (const ids of chunk(uniqueIds, IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("students")
+        .select("id, section_id")
+        .in("id", ids)
+        .eq("is_active", true);
+
+      if (error) {
+        console.error("[ScanRepository.getStudentContexts] Database error:", error);
+        throw new Error(`Failed to fetch students: ${error.message}`);
+      }
+
+      students.push(...((data ?? []) as { id: string; section_id: string | null }[]));
+    }
+
+    const sectionIds = Array.from(
+      new Set(students.map((s) => s.section_id).filter((id): id is string => !!id))
+    );
+    const sectionToLevel = new Map<string, string | null>();
+
+    for (const ids of chunk(sectionIds, IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("sections")
+        .select("id, level_id")
+        .in("id", ids);
+
+      if (error) {
+        console.error("[ScanRepository.getStudentContexts] Sections error:", error);
+        throw new Error(`Failed to fetch sections: ${error.message}`);
+      }
+
+      for (const section of data ?? []) {
+        sectionToLevel.set(section.id, section.level_id ?? null);
+      }
+    }
+
+    return students.map((student) => ({
+      studentId: student.id,
+      sectionId: student.section_id,
+      levelId: student.section_id ? sectionToLevel.get(student.section_id) ?? null : null,
+    }));
+  }
+
+  /**
+   * Append entries to scan_audit_log.
+   *
+   * @throws Error if the insert fails
+   */
+  async insertAuditEntries(entries: ScanAuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    for (const batch of chunk(entries, INSERT_CHUNK_SIZE)) {
+      const { error } = await this.supabase.from("scan_audit_log").insert(batch);
+
+      if (error) {
+        console.error("[ScanRepository.insertAuditEntries] Database error:", error);
+        throw new Error(`Failed to write scan audit log: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Create the event_sessions row for a session config entry on a date.
+   *
+   * @returns The event_sessions.id (the existing row if another request created it first)
+   * @throws Error if the insert fails for any other reason
+   */
+  async createEventSession(eventId: string, date: string, session: SessionConfig): Promise<string> {
+    const { data, error } = await this.supabase
+      .from("event_sessions")
+      .insert({
+        event_id: eventId,
+        name: session.name ?? session.id,
+        session_type: `${session.period ?? "morning"}_${session.direction ?? "in"}`,
+        start_time: session.opens,
+        late_threshold_time: session.lateAfter,
+        end_time: session.closes,
+        session_date: date,
+        config_session_id: session.id,
+      })
+      .select("id")
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      const { data: existing, error: lookupError } = await this.supabase
+        .from("event_sessions")
+        .select("id")
+        .eq("event_id", eventId)
+        .eq("session_date", date)
+        .eq("config_session_id", session.id)
+        .single();
+
+      if (!lookupError && existing) {
+        return existing.id as string;
+      }
+    }
+
+    if (error || !data) {
+      console.error("[ScanRepository.createEventSession] Database error:", error);
+      throw new Error(`Failed to create event session: ${error?.message ?? "no row returned"}`);
+    }
+
+    return data.id as string;
+  }
+
+  /**
+   * Find attendance rows previously stored for the given client scan IDs.
+   */
+  async findAttendanceByClientScanIds(clientScanIds: string[]): Promise<AttendanceLogKeyRow[]> {
+    const rows: AttendanceLogKeyRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(clientScanIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("attendance_logs")
+        .select("id, event_session_id, student_id, client_scan_id, status, source")
+        .in("client_scan_id", ids);
+
+      if (error) {
+        console.error("[ScanRepository.findAttendanceByClientScanIds] Database error:", error);
+        throw new Error(`Failed to fetch attendance logs: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as AttendanceLogKeyRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find attendance rows for the given sessions and students.
+   */
+  async findAttendanceForSessions(
+    eventSessionIds: string[],
+    studentIds: string[]
+  ): Promise<AttendanceLogKeyRow[]> {
+    const uniqueSessionIds = Array.from(new Set(eventSessionIds));
+    const rows: AttendanceLogKeyRow[] = [];
+    if (uniqueSessionIds.length === 0) return rows;
+
+    for (const ids of chunk(Array.from(new Set(studentIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("attendance_logs")
+        .select("id, event_session_id, student_id, client_scan_id, status, source")
+        .in("event_session_id", uniqueSessionIds)
+        .in("student_id", ids);
+
+      if (error) {
+        console.error("[ScanRepository.findAttendanceForSessions] Database error:", error);
+        throw new Error(`Failed to fetch attendance logs: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as AttendanceLogKeyRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Bulk insert attendance rows in a single request.
+   *
+   * @remarks
+   * Upserts on client_scan_id with ignoreDuplicates, so retried scans are
+   * no-ops. Callers should keep batches small (a few hundred rows) and
+   * handle ScanPersistenceError (e.g. 23505 on session/student) per row.
+   *
+   * @returns Client scan IDs stored by this call
+   * @throws ScanPersistenceError on failure
+   */
+  async insertAttendanceLogs(rows: AttendanceLogInsert[]): Promise<string[]> {
+    if (rows.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from("attendance_logs")
+      .upsert(rows, { onConflict: "client_scan_id", ignoreDuplicates: true })
+      .select("client_scan_id");
+
+    if (error) {
+      throw new ScanPersistenceError(
+        `Failed to insert attendance logs: ${error.message}`,
+        error.code ?? null
+      );
+    }
+
+    return (data ?? []).map((row) => row.client_scan_id as string);
+  }
+
+  /**
+   * Delete system-generated absences so real scans can take their place.
+   *
+   * @remarks
+   * Only rows with source 'system' and status 'absent' are deleted, even if
+   * other IDs are passed.
+   *
+   * @throws Error if the delete fails
+   */
+  async deleteSystemAbsences(ids: string[]): Promise<void> {
+    for (const batch of chunk(Array.from(new Set(ids)), IN_FILTER_CHUNK_SIZE)) {
+      const { error } = await this.supabase
+        .from("attendance_logs")
+        .delete()
+        .in("id", batch)
+        .eq("source", "system")
+        .eq("status", "absent");
+
+      if (error) {
+        console.error("[ScanRepository.deleteSystemAbsences] Database error:", error);
+        throw new Error(`Failed to delete absences: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Find all event_sessions of an event.
+   *
+   * @throws Error if the database query fails
+   */
+  async findEventSessions(eventId: string): Promise<EventSessionRow[]> {
+    const { data, error } = await this.supabase
+      .from("event_sessions")
+      .select("id, name, session_date, config_session_id")
+      .eq("event_id", eventId);
+
+    if (error) {
+      console.error("[ScanRepository.findEventSessions] Database error:", error);
+      throw new Error(`Failed to fetch event sessions: ${error.message}`);
+    }
+
+    return (data ?? []) as EventSessionRow[];
+  }
+
+  /**
+   * Find attendance rows for the given sessions stored after `since`.
+   *
+   * @throws Error if the database query fails
+   */
+  async findAttendanceCreatedSince(
+    eventSessionIds: string[],
+    since: string | null
+  ): Promise<AttendancePeerRow[]> {
+    const uniqueSessionIds = Array.from(new Set(eventSessionIds));
+    if (uniqueSessionIds.length === 0) return [];
+
+    let query = this.supabase
+      .from("attendance_logs")
+      .select(
+        "event_session_id, student_id, scanned_at, status, scanned_by_device_id, synced_by_user_id, created_at"
+      )
+      .in("event_session_id", uniqueSessionIds)
+      // Materialized absences are not scans
+      .neq("status", "absent")
+      .order("created_at", { ascending: true });
+
+    if (since) {
+      query = query.gt("created_at", since);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("[ScanRepository.findAttendanceCreatedSince] Database error:", error);
+      throw new Error(`Failed to fetch attendance logs: ${error.message}`);
+    }
+
+    return (data ?? []) as AttendancePeerRow[];
+  }
+
+  /**
+   * Resolve display names for app users.
+   *
+   * @throws Error if the database query fails
+   */
+  async getUserNames(userIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+
+    for (const ids of chunk(Array.from(new Set(userIds.filter(Boolean))), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("app_users")
+        .select("id, full_name")
+        .in("id", ids);
+
+      if (error) {
+        console.error("[ScanRepository.getUserNames] Database error:", error);
+        throw new Error(`Failed to fetch users: ${error.message}`);
+      }
+
+      for (const row of data ?? []) {
+        names.set(row.id, row.full_name);
+      }
+    }
+
+    return names;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Scanner Resource Repository Implementation
+ *
+ * Handles database access for scanner downloads using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  IScannerResourceRepository,
+  ScannerResourceVersionRow,
+  ScannerStudentRow,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+/** Postgres unique_violation. */
+const UNIQUE_VIOLATION = "23505";
+
+const VERSION_COLUMNS =
+  "event_id, version, content_hash, student_fingerprints, session_config_hash, created_at";
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase implementation of the Scanner Resource repository.
+ */
+export class ScannerResourceRepository implements IScannerResourceRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Fetch all active students.
+   *
+   * @throws Error if the database query fails
+   */
+  async findActiveStudents(schoolId: string): Promise<ScannerStudentRow[]> {
+    const { data, error } = await this.supabase
+      .from("students")
+      .select(
+        "id, student_school_id, first_name, last_name, section_id, qr_hash, qr_issued_at, qr_revoked_at, is_active"
+      )
+      .eq("school_id", schoolId)
+      .eq("is_active", true);
+
+    if (error) {
+      console.error("[ScannerResourceRepository.findActiveStudents] Database error:", error);
+      throw new Error(`Failed to fetch students: ${error.message}`);
+    }
+
+    return (data ?? []) as ScannerStudentRow[];
+  }
+
+  /**
+   * Fetch sections by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findSections(
+    sectionIds: string[]
+  ): Promise<{ id: string; name: string; level_id: string | null }[]> {
+    const rows: { id: string; name: string; level_id: string | null }[] = [];
+
+    for (const ids of chunk(Array.from(new Set(sectionIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("sections")
+        .select("id, name, level_id")
+        .in("id", ids);
+
+      if (error) {
+        console.error("[ScannerResourceRepository.findSections] Database error:", error);
+        throw new Error(`Failed to fetch sections: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as { id: string; name: string; level_id: string | null }[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Fetch levels by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findLevels(levelIds: string[]): Promise<{ id: string; name: string }[]> {
+    const rows: { id: string; name: string }[] = [];
+
+    for (const ids of chunk(Array.from(new Set(levelIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase.from("levels").select("id, name").in("id", ids);
+
+      if (error) {
+        console.error("[ScannerResourceRepository.findLevels] Database error:", error);
+        throw new Error(`Failed to fetch levels: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as { id: string; name: string }[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find the newest resource version for an event.
+   *
+   * @throws Error if the database query fails
+   */
+  async findLatestVersion(eventId: string): Promise<ScannerResourceVersionRow | null> {
+    const { data, error } = await this.supabase
+      .from("scanner_resource_versions")
+      .select(VERSION_COLUMNS)
+      .eq("event_id", eventId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[ScannerResourceRepository.findLatestVersion] Database error:", error);
+      throw new Error(`Failed to fetch scanner resource version: ${error.message}`);
+    }
+
+    return (data as ScannerResourceVersionRow | null) ?? null;
+  }
+
+  /**
+   * Find a specific resource version for an event.
+   *
+   * @throws Error if the database query fails
+   */
+  async findVersion(eventId: string, version: number): Promise<ScannerResourceVersionRow | null> {
+    const { data, error } = await this.supabase
+      .from("scanner_resource_versions")
+      .select(VERSION_COLUMNS)
+      .eq("event_id", eventId)
+      .eq("version", version)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[ScannerResourceRepository.findVersion] Database error:", error);
+      throw new Error(`Failed to fetch scanner resource version: ${error.message}`);
+    }
+
+    return (data as ScannerResourceVersionRow | null) ?? null;
+  }
+
+  /**
+   * Store a new resource version.
+   *
+   * @returns False if the (event_id, version) pair already exists
+   * @throws Error if the insert fails for any other reason
+   */
+  async createVersion(row: Omit<ScannerResourceVersionRow, "created_at">): Promise<boolean> {
+    const { error } = await this.supabase.from("scanner_resource_versions").insert(row);
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return false;
+      }
+      console.error("[ScannerResourceRepository.createVersion] Database error:", error);
+      throw new Error(`Failed to store scanner resource version: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Delete versions older than the newest `keep` versions.
+   *
+   * @throws Error if the delete fails
+   */
+  async pruneVersions(eventId: string, keep: number): Promise<void> {
+    const { data, error: selectError } = await this.supabase
+      .from("scanner_resource_versions")
+      .select("version")
+      .eq("event_id", eventId)
+      .order("version", { ascending: false })
+      .range(keep, keep);
+
+    if (selectError) {
+      console.error("[ScannerResourceRepository.pruneVersions] Database error:", selectError);
+      throw new Error(`Failed to prune scanner resource versions: ${selectError.message}`);
+    }
+
+    const cutoff = (data ?? [])[0]?.version as number | undefined;
+    if (cutoff === undefined) return;
+
+    const { error } = await this.supabase
+      .from("scanner_resource_versions")
+      .delete()
+      .eq("event_id", eventId)
+      .lte("version", cutoff);
+
+    if (error) {
+      console.error("[ScannerResourceRepository.pruneVersions] Database error:", error);
+      throw new Error(`Failed to prune scanner resource versions: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Student Attendance Repository Implementation
+ *
+ * Handles database access for a student's attendance history using Supabase.
+ *
+ * @remarks
+ * Single Responsibility: Only database operations, no business logic.
+ * Uses the admin Supabase client for server-side operations.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { schoolFilter, type SchoolScope } from "@/core/db/school-scope";
+import type {
+  IStudentAttendanceRepository,
+  LateReportSectionRow,
+  LateReportStudentRow,
+  StudentHistoryAttendanceRow,
+  StudentHistoryEventRow,
+  StudentHistorySessionRow,
+} from "../domain";
+
+/** Max IDs per `.in()` filter to keep request URLs within PostgREST limits. */
+const IN_FILTER_CHUNK_SIZE = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase implementation of the Student Attendance repository. Events are read within
+ * `schoolId` (all schools when null).
+ */
+export class StudentAttendanceRepository implements IStudentAttendanceRepository {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly schoolId: SchoolScope
+  ) {}
+
+  /**
+   * Find students by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findStudents(studentIds: string[]): Promise<LateReportStudentRow[]> {
+    const rows: LateReportStudentRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(studentIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("students")
+        .select("id, first_name, last_name, student_school_id, section_id")
+        .in("id", ids);
+
+      if (error) {
+        console.error("[StudentAttendanceRepository.findStudents] Database error:", error);
+        throw new Error(`Failed to fetch students: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as LateReportStudentRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find sections by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async findSections(sectionIds: string[]): Promise<LateReportSectionRow[]> {
+    const ids = Array.from(new Set(sectionIds));
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from("sections")
+      .select("id, name, level_id, adviser_user_id")
+      .in("id", ids);
+
+    if (error) {
+      console.error("[StudentAttendanceRepository.findSections] Database error:", error);
+      throw new Error(`Failed to fetch sections: ${error.message}`);
+    }
+
+    return (data ?? []) as LateReportSectionRow[];
+  }
+
+  /**
+   * Fetch level names by ID.
+   *
+   * @throws Error if the database query fails
+   */
+  async getLevelNames(levelIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    const ids = Array.from(new Set(levelIds));
+    if (ids.length === 0) {
+      return names;
+    }
+
+    const { data, error } = await this.supabase.from("levels").select("id, name").in("id", ids);
+
+    if (error) {
+      console.error("[StudentAttendanceRepository.getLevelNames] Database error:", error);
+      throw new Error(`Failed to fetch levels: ${error.message}`);
+    }
+
+    for (const row of data ?? []) {
+      names.set(row.id, row.name);
+    }
+
+    return names;
+  }
+
+  /**
+   * Students linked to an app user through student_guardians.
+   *
+   * @throws Error if the database query fails
+   */
+  async findLinkedStudentIds(appUserId: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from("student_guardians")
+      .select("student_id")
+      .eq("app_user_id", appUserId);
+
+    if (error) {
+      console.error("[StudentAttendanceRepository.findLinkedStudentIds] Database error:", error);
+      throw new Error(`Failed to fetch linked students: ${error.message}`);
+    }
+
+    return Array.from(
+      new Set((data ?? []).map((row) => row.student_id as string).filter(Boolean))
+    );
+  }
+
+  /**
+   * Find published or completed events overlapping a date range.
+   *
+   * @throws Error if the database query fails
+   */
+  async findEventsInRange(from: string, to: string): Promise<StudentHistoryEventRow[]> {
+    const { data, error } = await this.supabase
+      .from("events")
+      .select("id, title, start_date, end_date, target_audience, registration_required")
+      .in("lifecycle_status", ["published", "completed"])
+      .lte("start_date", to)
+      .gte("end_date", from)
+      .match(schoolFilter(this.schoolId))
+      .order("start_date", { ascending: false });
+
+    if (error) {
+      console.error("[StudentAttendanceRepository.findEventsInRange] Database error:", error);
+      throw new Error(`Failed to fetch events: ${error.message}`);
+    }
+
+    return (data ?? []) as StudentHistoryEventRow[];
+  }
+
+  /**
+   * IDs of the given events the student holds a confirmed registration for.
+   *
+   * @throws Error if the database query fails
+   */
+  async findConfirmedRegistrationEventIds(
+    studentId: string,
+    eventIds: string[]
+  ): Promise<Set<string>> {
+    const confirmed = new Set<string>();
+
+    for (const ids of chunk(Array.from(new Set(eventIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("event_registrations")
+        .select("event_id")
+        .eq("student_id", studentId)
+        .eq("status", "confirmed")
+        .in("event_id", ids);
+
+      if (error) {
+        console.error(
+          "[StudentAttendanceRepository.findConfirmedRegistrationEventIds] Database error:",
+          error
+        );
+        throw new Error(`Failed to fetch registrations: ${error.message}`);
+      }
+
+      for (const row of data ?? []) {
+        confirmed.add(row.event_id as string);
+      }
+    }
+
+    return confirmed;
+  }
+
+  /**
+   * Find all sessions of the given events.
+   *
+   * @throws Error if the database query fails
+   */
+  async findSessionsByEvents(eventIds: string[]): Promise<StudentHistorySessionRow[]> {
+    const rows: StudentHistorySessionRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(eventIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("event_sessions")
+        .select("id, event_id, name, session_type, end_time, session_date, config_session_id")
+        .in("event_id", ids);
+
+      if (error) {
+        console.error("[StudentAttendanceRepository.findSessionsByEvents] Database error:", error);
+        throw new Error(`Failed to fetch event sessions: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as StudentHistorySessionRow[]));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find one student's attendance rows for the given sessions.
+   *
+   * @throws Error if the database query fails
+   */
+  async findStudentAttendance(
+    studentId: string,
+    eventSessionIds: string[]
+  ): Promise<StudentHistoryAttendanceRow[]> {
+    const rows: StudentHistoryAttendanceRow[] = [];
+
+    for (const ids of chunk(Array.from(new Set(eventSessionIds)), IN_FILTER_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from("attendance_logs")
+        .select("event_session_id, status, scanned_at")
+        .eq("student_id", studentId)
+        .in("event_session_id", ids);
+
+      if (error) {
+        console.error("[StudentAttendanceRepository.findStudentAttendance] Database error:", error);
+        throw new Error(`Failed to fetch attendance logs: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as StudentHistoryAttendanceRow[]));
+    }
+
+    return rows;
+  }
+}
@@ -2,6 +2,7 @@
 
 import { useAuthContext } from "@/core/auth/AuthContext";
 import type { UserRole } from "@/core/auth/types";
+import { hasPermission, type Permission } from "@/config/permissions";
 
 export function useAuth() {
   const ctx = useAuthContext();
@@ -11,6 +12,12 @@ export function useAuth() {
     return ctx.user.roles.some((role) => allowedRoles.includes(role));
   };
 
+  /** True when the user holds any of the given permissions; use for gating UI */
+  const can = (permission: Permission | Permission[]): boolean => {
+    if (!ctx.user) return false;
+    return hasPermission(ctx.user.permissions ?? [], permission);
+  };
+
   const isSuperAdmin = () => hasRole(["SUPER_ADMIN"]);
   const isAdmin = () => hasRole(["ADMIN", "SUPER_ADMIN"]);
   const isTeacher = () => hasRole(["TEACHER", "ADMIN", "SUPER_ADMIN"]);
@@ -21,6 +28,7 @@ export function useAuth() {
   return {
     ...ctx,
     hasRole,
+    can,
     isSuperAdmin,
     isAdmin,
     isTeacher,
@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  getScanSyncEngine,
+  INITIAL_SCAN_SYNC_STATUS,
+} from "@/core/offline/scan-sync-engine";
+
+const getServerStatus = () => INITIAL_SCAN_SYNC_STATUS;
+
+/**
+ * Start the background scan sync engine and subscribe to its live status.
+ *
+ * The engine keeps running after the component unmounts so queued scans
+ * continue to upload while the scanner navigates elsewhere in the app.
+ */
+export function useScanSync() {
+  const engine = getScanSyncEngine();
+
+  useEffect(() => {
+    void engine.start();
+  }, [engine]);
+
+  const status = useSyncExternalStore(engine.subscribe, engine.getStatus, getServerStatus);
+
+  return {
+    status,
+    syncNow: engine.syncNow,
+  };
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import appSettings from "@/appsettings.json";
+import type { SchoolDto } from "@/core/db/school-scope";
+
+const DEFAULT_LOGO_URL = "/basic-ed-logo.png";
+
+/**
+ * Branding of the school the user is working in.
+ *
+ * Falls back to the app name in appsettings.json while loading, when the
+ * request fails, and for a super admin viewing all schools. `switchSchool`
+ * changes a super admin's active school and reloads the page so every view
+ * picks up the new scope.
+ */
+export function useSchoolBranding() {
+  const [school, setSchool] = useState<SchoolDto | null>(null);
+  const [canSwitch, setCanSwitch] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await fetch("/api/schools/current", { signal: controller.signal });
+        const body = (await response.json().catch(() => null)) as {
+          success?: boolean;
+          data?: { school: SchoolDto | null; canSwitch: boolean };
+        } | null;
+        if (response.ok && body?.success && body.data) {
+          setSchool(body.data.school);
+          setCanSwitch(body.data.canSwitch);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("[useSchoolBranding] Failed to load school branding", error);
+      }
+    };
+
+    void load();
+    return () => controller.abort();
+  }, []);
+
+  const switchSchool = useCallback(async (schoolId: string | null) => {
+    const response = await fetch("/api/schools/active", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ schoolId }),
+    });
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as { error?: { message?: string } } | null;
+      throw new Error(body?.error?.message ?? "Unable to switch school.");
+    }
+    window.location.reload();
+  }, []);
+
+  return {
+    school,
+    canSwitch,
+    switchSchool,
+    appName: school?.shortName ?? appSettings.appName,
+    schoolName: school?.name ?? appSettings.appName,
+    logoUrl: school?.logoUrl ?? DEFAULT_LOGO_URL,
+  };
+}
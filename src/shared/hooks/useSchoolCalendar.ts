@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { parseISO } from "date-fns";
+import type { SchoolCalendarDto } from "@/modules/academics/domain/types";
+
+/**
+ * Load the school calendar for an inclusive YYYY-MM-DD range.
+ *
+ * Also returns the non-school days as Date lists, ready to pass to the
+ * Calendar component's `modifiers`. Load failures leave the calendar empty
+ * so pickers keep working without it.
+ */
+export function useSchoolCalendar(from: string, to: string) {
+  const [calendar, setCalendar] = useState<SchoolCalendarDto | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({ from, to });
+        const response = await fetch(`/api/academics/calendar?${params.toString()}`, {
+          signal: controller.signal,
+        });
+        const body = (await response.json().catch(() => null)) as {
+          success?: boolean;
+          data?: { calendar: SchoolCalendarDto };
+        } | null;
+        setCalendar(response.ok && body?.success && body.data ? body.data.calendar : null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("[useSchoolCalendar] Failed to load school calendar", error);
+        setCalendar(null);
+      }
+      if (!controller.signal.aborted) {
+        setIsLoading(false);
+      }
+    };
+
+    void load();
+    return () => controller.abort();
+  }, [from, to]);
+
+  const modifiers = useMemo(() => {
+    const days = calendar?.nonSchoolDays ?? [];
+    const datesFor = (reason: string) =>
+      days.filter((day) => day.reason === reason).map((day) => parseISO(day.date));
+
+    return {
+      holiday: datesFor("holiday"),
+      suspension: datesFor("suspension"),
+      noClasses: [...datesFor("weekend"), ...datesFor("outside_school_year")],
+    };
+  }, [calendar]);
+
+  return { calendar, isLoading, modifiers };
+}
+
+/** Calendar classes for the modifiers returned by useSchoolCalendar */
+export const SCHOOL_CALENDAR_MODIFIER_CLASSES = {
+  holiday: "text-red-600 dark:text-red-400 font-semibold",
+  suspension: "text-amber-600 dark:text-amber-400 font-semibold",
+  noClasses: "text-muted-foreground/60",
+};